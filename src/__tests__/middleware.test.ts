@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { middleware } from '../middleware'
+
+const BRAND_A = '11111111-1111-1111-1111-111111111111'
+const BRAND_B = '22222222-2222-2222-2222-222222222222'
+
+function jsonResponse(body: any, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+// Fakes the Supabase Auth and REST endpoints the middleware calls
+function mockSupabase(access: { role: string; all_brands: boolean; brand_ids: string[] }) {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const url = input.toString()
+    if (url.endsWith('/auth/v1/user')) {
+      return jsonResponse({ id: 'user-1', email: 'analyst@example.com' })
+    }
+    if (url.includes('/rest/v1/rpc/get_user_access')) {
+      return jsonResponse([access])
+    }
+    if (url.includes('/rest/v1/asin_brand_mapping')) {
+      return jsonResponse(url.includes('B0OURS') ? [{ brand_id: BRAND_A }] : [{ brand_id: BRAND_B }])
+    }
+    return jsonResponse({}, 404)
+  })
+}
+
+function apiRequest(path: string, init: { method?: string; token?: string } = {}) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: init.method || 'GET',
+    headers: init.token ? { authorization: `Bearer ${init.token}` } : {}
+  })
+}
+
+describe('middleware', () => {
+  beforeEach(() => {
+    vi.stubEnv('SUPABASE_URL', 'https://test.supabase.co')
+    vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-key')
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    vi.stubEnv('AUTH_DISABLED', 'false')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('rejects API requests without credentials', async () => {
+    vi.stubGlobal('fetch', mockSupabase({ role: 'admin', all_brands: true, brand_ids: [] }))
+
+    const response = await middleware(apiRequest('/api/brands'))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('lets public routes through without credentials', async () => {
+    const response = await middleware(apiRequest('/api/auth/login', { method: 'POST' }))
+
+    expect(response.status).toBe(200)
+  })
+
+  it('redirects pages to the login page without a session cookie', async () => {
+    const response = await middleware(new NextRequest('http://localhost:3000/refresh-monitor'))
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe('http://localhost:3000/login?next=%2Frefresh-monitor')
+  })
+
+  it('requires admin for refresh triggers', async () => {
+    vi.stubGlobal('fetch', mockSupabase({ role: 'analyst', all_brands: true, brand_ids: [] }))
+
+    const response = await middleware(apiRequest('/api/refresh/trigger', { method: 'POST', token: 'jwt' }))
+
+    expect(response.status).toBe(403)
+  })
+
+  it('accepts the cron secret as an admin caller', async () => {
+    const response = await middleware(apiRequest('/api/sync/cron', { token: 'cron-secret' }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-middleware-request-x-sqp-role')).toBe('admin')
+  })
+
+  it('accepts the service-role key as an admin caller for sync jobs', async () => {
+    const response = await middleware(apiRequest('/api/sync/bigquery', { method: 'POST', token: 'service-key' }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-middleware-request-x-sqp-auth-method')).toBe('service_role')
+  })
+
+  it('authenticates API paths that contain a dot', async () => {
+    const response = await middleware(apiRequest('/api/reports/export.csv'))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('returns 403 for brands outside the caller scope', async () => {
+    vi.stubGlobal('fetch', mockSupabase({ role: 'viewer', all_brands: false, brand_ids: [BRAND_A] }))
+
+    const allowed = await middleware(apiRequest(`/api/brands/${BRAND_A}/dashboard`, { token: 'jwt' }))
+    const denied = await middleware(apiRequest(`/api/brands/${BRAND_B}/dashboard`, { token: 'jwt' }))
+
+    expect(allowed.status).toBe(200)
+    expect(allowed.headers.get('x-middleware-request-x-sqp-brand-ids')).toBe(BRAND_A)
+    expect(denied.status).toBe(403)
+  })
+
+  it('returns 403 for ASINs mapped to other brands', async () => {
+    vi.stubGlobal('fetch', mockSupabase({ role: 'viewer', all_brands: false, brand_ids: [BRAND_A] }))
+
+    const allowed = await middleware(apiRequest('/api/dashboard/v2/asin-overview?asin=B0OURS', { token: 'jwt' }))
+    const denied = await middleware(apiRequest('/api/dashboard/v2/asin-overview?asin=B0THEIRS', { token: 'jwt' }))
+
+    expect(allowed.status).toBe(200)
+    expect(denied.status).toBe(403)
+  })
+
+  it('records when an API key was last used', async () => {
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input.toString()
+      if (url.includes('/rest/v1/api_keys') && init?.method === 'PATCH') {
+        return new Response(null, { status: 204 })
+      }
+      if (url.includes('/rest/v1/api_keys')) {
+        return jsonResponse([{ id: 'key-1', role: 'analyst', brand_ids: null, created_by: 'user-1', expires_at: null }])
+      }
+      return jsonResponse({}, 404)
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const request = new NextRequest('http://localhost:3000/api/brands', { headers: { 'x-api-key': 'sqp_test' } })
+    const response = await middleware(request)
+
+    expect(response.status).toBe(200)
+    const update = fetchMock.mock.calls.find(([, init]) => init?.method === 'PATCH')
+    expect(update?.[0].toString()).toBe('https://test.supabase.co/rest/v1/api_keys?id=eq.key-1')
+    expect(JSON.parse(update?.[1]?.body as string)).toHaveProperty('last_used_at')
+  })
+
+  it('strips spoofed auth headers from incoming requests', async () => {
+    vi.stubGlobal('fetch', mockSupabase({ role: 'viewer', all_brands: false, brand_ids: [BRAND_A] }))
+
+    const request = new NextRequest('http://localhost:3000/api/brands', {
+      headers: { authorization: 'Bearer jwt', 'x-sqp-role': 'admin', 'x-sqp-brand-ids': '*' }
+    })
+    const response = await middleware(request)
+
+    expect(response.headers.get('x-middleware-request-x-sqp-role')).toBe('viewer')
+    expect(response.headers.get('x-middleware-request-x-sqp-brand-ids')).toBe(BRAND_A)
+  })
+})
\ No newline at end of file
@@ -9,6 +9,28 @@ vi.mock('@/lib/api/asin-performance', () => ({
   useASINList: vi.fn(),
   useASINPerformance: vi.fn(),
   useASINDataAvailability: vi.fn(),
+  useASINForecast: vi.fn(() => ({ data: undefined })),
+  useASINShippingAnalysis: vi.fn(() => ({ data: undefined, isLoading: false, error: null })),
+  useASINQuerySegments: vi.fn(() => ({ data: undefined, isLoading: false, error: null })),
+}))
+
+vi.mock('@/lib/api/keyword-lists', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/keyword-lists')>()),
+  useKeywordLists: vi.fn(() => ({ data: undefined, isLoading: false, error: null })),
+  useInvalidateKeywordLists: vi.fn(() => vi.fn()),
+  setKeywordList: vi.fn(),
+}))
+
+vi.mock('@/lib/api/saved-views', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/saved-views')>()),
+  useSavedViews: vi.fn(() => ({ data: undefined, isLoading: false, error: null })),
+  useInvalidateSavedViews: vi.fn(() => vi.fn()),
+}))
+
+vi.mock('@/lib/api/keyword-analysis', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/keyword-analysis')>()),
+  useKeywordGroupReport: vi.fn(() => ({ data: undefined, isLoading: false, error: null })),
+  useInvalidateKeywordQueries: vi.fn(() => ({ invalidateAll: vi.fn() })),
 }))
 
 import { useASINList, useASINPerformance, useASINDataAvailability } from '@/lib/api/asin-performance'
@@ -0,0 +1,118 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { alertActionSchema } from '@/services/alerts/alert-rule-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface AlertParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Acknowledge, snooze, resolve or reopen an alert
+ */
+export async function PATCH(request: NextRequest, { params }: AlertParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = alertActionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert action', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_events')
+      .select('id, brand_id, status')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null && !(existing.brand_id && canAccessBrand(auth, existing.brand_id))) {
+      return forbiddenResponse()
+    }
+
+    const action = validation.data
+    const now = new Date()
+    let updates: Record<string, any>
+
+    switch (action.action) {
+      case 'acknowledge':
+        updates = {
+          status: 'acknowledged',
+          acknowledged_at: now.toISOString(),
+          acknowledged_by: auth?.userId || null,
+          snoozed_until: null
+        }
+        break
+      case 'snooze':
+        updates = {
+          status: 'snoozed',
+          snoozed_until: new Date(now.getTime() + action.minutes * 60000).toISOString()
+        }
+        break
+      case 'resolve':
+        updates = { status: 'resolved', resolved_at: now.toISOString() }
+        break
+      case 'reopen':
+        if (existing.status === 'resolved') {
+          return NextResponse.json(
+            { error: 'Resolved alerts cannot be reopened; the rule raises a new alert if the condition recurs' },
+            { status: 409 }
+          )
+        }
+        updates = { status: 'open', snoozed_until: null, acknowledged_at: null, acknowledged_by: null }
+        break
+    }
+
+    const { data: alert, error } = await supabase
+      .from('alert_events')
+      .update(updates)
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      alert
+    })
+
+  } catch (error) {
+    console.error('Error updating alert:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update alert',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
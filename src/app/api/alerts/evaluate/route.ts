@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { alertRulesService } from '@/services/alerts/alert-rules-service'
+
+const evaluateSchema = z.object({
+  rule_ids: z.array(z.string().uuid()).optional()
+})
+
+/**
+ * Evaluates alert rules on demand. Rules are also evaluated after every
+ * successful refresh, so this is mainly for testing new rules.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body = {}
+    try {
+      body = await request.json()
+    } catch (e) {
+      // Empty body evaluates every enabled rule
+    }
+
+    const validation = evaluateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const result = await alertRulesService.evaluateRules({
+      trigger: 'manual',
+      ruleIds: validation.data.rule_ids
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Error evaluating alert rules:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to evaluate alert rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { ALERT_STATUSES } from '@/services/alerts/alert-rule-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const { searchParams } = new URL(request.url)
+
+    // Unresolved alerts by default; status=all returns everything
+    const statusParam = searchParams.get('status')
+    const statuses = statusParam === 'all'
+      ? null
+      : (statusParam ? statusParam.split(',') : ['open', 'acknowledged', 'snoozed'])
+
+    if (statuses && statuses.some(status => !(ALERT_STATUSES as readonly string[]).includes(status))) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${ALERT_STATUSES.join(', ')}, all` },
+        { status: 400 }
+      )
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null && auth.brandIds.length === 0) {
+      return NextResponse.json({ alerts: [], total: 0 })
+    }
+
+    let query = supabase
+      .from('alert_events')
+      .select('*')
+      .order('last_triggered_at', { ascending: false })
+      .limit(limit)
+
+    // Scoped in the query so the limit applies to alerts the caller can see
+    if (auth && auth.brandIds !== null) {
+      query = query.in('brand_id', auth.brandIds)
+    }
+    if (statuses) {
+      query = query.in('status', statuses)
+    }
+    if (searchParams.get('brand_id')) {
+      query = query.eq('brand_id', searchParams.get('brand_id'))
+    }
+    if (searchParams.get('rule_id')) {
+      query = query.eq('rule_id', searchParams.get('rule_id'))
+    }
+    if (searchParams.get('asin')) {
+      query = query.eq('asin', searchParams.get('asin'))
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const alerts = data || []
+
+    return NextResponse.json({
+      alerts,
+      total: alerts.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching alerts:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch alerts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
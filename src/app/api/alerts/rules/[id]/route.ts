@@ -0,0 +1,147 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { alertRuleSchema, alertRuleUpdateSchema } from '@/services/alerts/alert-rule-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface AlertRuleParams {
+  params: {
+    id: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: AlertRuleParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = alertRuleUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the fields sent in the body are updated, but the merged rule must still be valid
+    const updates = Object.fromEntries(
+      Object.keys(body || {}).filter(key => key in validation.data).map(key => [key, (validation.data as any)[key]])
+    )
+    const merged = alertRuleSchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandIds = [existing.brand_id, merged.data.brand_id]
+      if (brandIds.some(brandId => !brandId || !canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const { data: rule, error } = await supabase
+      .from('alert_rules')
+      .update(updates)
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert rule updated successfully',
+      rule
+    })
+
+  } catch (error) {
+    console.error('Error updating alert rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: AlertRuleParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_rules')
+      .select('id, brand_id')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null && !(existing.brand_id && canAccessBrand(auth, existing.brand_id))) {
+      return forbiddenResponse()
+    }
+
+    // Alerts raised by the rule are removed with it (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
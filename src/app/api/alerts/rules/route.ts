@@ -0,0 +1,100 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { filterByBrandAccess, forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { alertRuleSchema } from '@/services/alerts/alert-rule-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const rules = filterByBrandAccess(data || [], getRequestAuth(request), rule => rule.brand_id)
+
+    return NextResponse.json({
+      rules,
+      total: rules.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching alert rules:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch alert rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = alertRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Brand-restricted users may only create rules for their own brands
+    const auth = getRequestAuth(request)
+    const ruleData = validation.data
+    if (auth && auth.brandIds !== null && !(ruleData.brand_id && canAccessBrand(auth, ruleData.brand_id))) {
+      return forbiddenResponse('Alert rules must be scoped to a brand you have access to')
+    }
+
+    const { data: rule, error } = await supabase
+      .from('alert_rules')
+      .insert({
+        ...ruleData,
+        created_by: auth?.userId || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert rule created successfully',
+      rule
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating alert rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create alert rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
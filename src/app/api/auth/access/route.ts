@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { USER_ROLES } from '@/lib/auth/types'
+
+const updateAccessSchema = z.object({
+  user_id: z.string().uuid(),
+  role: z.enum(USER_ROLES as [string, ...string[]]),
+  all_brands: z.boolean().default(false),
+  brand_ids: z.array(z.string().uuid()).default([])
+})
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const [{ data: roles, error: rolesError }, { data: access, error: accessError }] = await Promise.all([
+      supabase.from('user_roles').select('user_id, role, all_brands, updated_at'),
+      supabase.from('user_brand_access').select('user_id, brand_id')
+    ])
+
+    if (rolesError || accessError) {
+      console.error('Error fetching user access:', rolesError || accessError)
+      return NextResponse.json(
+        { error: 'Failed to fetch user access' },
+        { status: 500 }
+      )
+    }
+
+    const users = (roles || []).map((role: any) => ({
+      ...role,
+      brand_ids: (access || [])
+        .filter((a: any) => a.user_id === role.user_id)
+        .map((a: any) => a.brand_id)
+    }))
+
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = updateAccessSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const auth = getRequestAuth(request)
+    const { user_id, role, all_brands, brand_ids } = parsed.data
+
+    const { error: roleError } = await supabase
+      .from('user_roles')
+      .upsert({ user_id, role, all_brands }, { onConflict: 'user_id' })
+
+    if (roleError) {
+      throw new Error(roleError.message)
+    }
+
+    // Replace the brand assignments
+    const { error: deleteError } = await supabase
+      .from('user_brand_access')
+      .delete()
+      .eq('user_id', user_id)
+
+    if (deleteError) {
+      throw new Error(deleteError.message)
+    }
+
+    if (brand_ids.length > 0) {
+      const { error: insertError } = await supabase
+        .from('user_brand_access')
+        .insert(brand_ids.map(brand_id => ({
+          user_id,
+          brand_id,
+          granted_by: auth?.userId || null
+        })))
+
+      if (insertError) {
+        throw new Error(insertError.message)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: { user_id, role, all_brands, brand_ids }
+    })
+  } catch (error) {
+    console.error('Error updating user access:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update user access',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
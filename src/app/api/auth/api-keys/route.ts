@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { USER_ROLES } from '@/lib/auth/types'
+import { API_KEY_PREFIX, hashApiKey } from '@/lib/auth/verify'
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  role: z.enum(USER_ROLES as [string, ...string[]]).default('viewer'),
+  brand_ids: z.array(z.string().uuid()).nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional()
+})
+
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return API_KEY_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, name, key_prefix, role, brand_ids, last_used_at, expires_at, revoked_at, created_at')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching API keys:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch API keys' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ apiKeys: data || [] })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = createApiKeySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const auth = getRequestAuth(request)
+    const apiKey = generateApiKey()
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        name: parsed.data.name,
+        role: parsed.data.role,
+        brand_ids: parsed.data.brand_ids ?? null,
+        expires_at: parsed.data.expires_at ?? null,
+        key_prefix: apiKey.slice(0, 12),
+        key_hash: await hashApiKey(apiKey),
+        created_by: auth?.userId || null
+      })
+      .select('id, name, key_prefix, role, brand_ids, expires_at, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error creating API key:', error)
+      return NextResponse.json(
+        { error: 'Failed to create API key' },
+        { status: 500 }
+      )
+    }
+
+    // The plaintext key is only ever returned here
+    return NextResponse.json({
+      success: true,
+      apiKey: data,
+      key: apiKey
+    })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'API key ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error revoking API key:', error)
+      return NextResponse.json(
+        { error: 'Failed to revoke API key' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'API key revoked' })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { setSessionCookies } from '@/lib/auth/session-cookies'
+import { signInWithPassword } from '@/lib/auth/verify'
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = loginSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const session = await signInWithPassword(parsed.data.email, parsed.data.password)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: session.user?.id,
+        email: session.user?.email
+      }
+    })
+    setSessionCookies(response, session)
+
+    return response
+  } catch (error) {
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
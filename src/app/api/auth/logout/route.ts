@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { clearSessionCookies } from '@/lib/auth/session-cookies'
+
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  clearSessionCookies(response)
+  return response
+}
\ No newline at end of file
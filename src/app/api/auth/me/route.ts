@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth, unauthorizedResponse } from '@/lib/auth/request-context'
+
+export async function GET(request: NextRequest) {
+  const auth = getRequestAuth(request)
+
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+
+  return NextResponse.json({
+    userId: auth.userId,
+    role: auth.role,
+    brandIds: auth.brandIds,
+    allBrands: auth.brandIds === null,
+    method: auth.method
+  })
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subDays } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { KeywordCannibalizationService } from '@/services/dashboard/keyword-cannibalization-service'
+
+interface CannibalizationParams {
+  params: {
+    brandId: string
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: CannibalizationParams
+) {
+  try {
+    const { brandId } = params
+    const searchParams = request.nextUrl.searchParams
+
+    const dateFrom = searchParams.get('date_from') || format(subDays(new Date(), 30), 'yyyy-MM-dd')
+    const dateTo = searchParams.get('date_to') || format(new Date(), 'yyyy-MM-dd')
+    const comparisonDateFrom = searchParams.get('comparison_date_from') || undefined
+    const comparisonDateTo = searchParams.get('comparison_date_to') || undefined
+
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const minAsins = parseInt(searchParams.get('min_asins') || '2', 10)
+    const flaggedOnly = searchParams.get('flagged_only') === 'true'
+
+    if (Number.isNaN(minAsins) || minAsins < 2) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: 'min_asins must be at least 2' } },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('id, display_name')
+      .eq('id', brandId)
+      .single()
+
+    if (brandError || !brand) {
+      return NextResponse.json(
+        { error: { code: 'BRAND_NOT_FOUND', message: 'Brand not found' } },
+        { status: 404 }
+      )
+    }
+
+    const service = new KeywordCannibalizationService()
+    const report = await service.analyzeBrand(brandId, {
+      startDate: dateFrom,
+      endDate: dateTo,
+      compareStartDate: comparisonDateFrom,
+      compareEndDate: comparisonDateTo,
+      limit: Number.isNaN(limit) ? 50 : limit,
+      minAsins,
+      flaggedOnly
+    })
+
+    return NextResponse.json({
+      data: report.results,
+      summary: report.summary,
+      meta: {
+        brand: {
+          id: brand.id,
+          display_name: brand.display_name,
+        },
+        dateRange: {
+          from: dateFrom,
+          to: dateTo,
+        },
+        comparisonDateRange: {
+          from: report.comparisonDateRange.startDate,
+          to: report.comparisonDateRange.endDate,
+        },
+      },
+    })
+  } catch (error) {
+    console.error('Error in brand cannibalization API:', error)
+    return NextResponse.json(
+      { error: { code: 'DATABASE_ERROR', message: 'Failed to analyze keyword cannibalization' } },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { calculateComparison } from '@/lib/utils/sparkline'
+import {
+  BrandRollupService,
+  SearchQueryWeekRow,
+  Shares,
+  aggregateShareTotals,
+  calculateShares,
+} from '@/services/brands/brand-rollup'
 import { format, subDays, startOfDay, endOfDay } from 'date-fns'
 
 interface DashboardParams {
@@ -9,6 +16,17 @@ interface DashboardParams {
   }
 }
 
+const ROLLUP_KEY = 'all'
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`
+
+const toPercentShares = (shares: Shares): Shares => ({
+  impressionShare: shares.impressionShare * 100,
+  clickShare: shares.clickShare * 100,
+  cartAddShare: shares.cartAddShare * 100,
+  purchaseShare: shares.purchaseShare * 100,
+})
+
 export async function GET(
   request: NextRequest,
   { params }: DashboardParams
@@ -25,35 +43,29 @@ export async function GET(
     
     const productLimit = parseInt(searchParams.get('product_limit') || '50', 10)
     const queryLimit = parseInt(searchParams.get('query_limit') || '50', 10)
-    
+    // Roll up every brand below this one in brand_hierarchy
+    const includeChildren = searchParams.get('include_children') === 'true'
+
     const supabase = createClient()
-    
-    // Fetch brand information
-    const { data: brand, error: brandError } = await supabase
-      .from('brands')
-      .select('id, display_name')
-      .eq('id', brandId)
-      .single()
-    
-    if (brandError || !brand) {
+    const rollup = new BrandRollupService(supabase)
+
+    // Fetch brand information and the ASINs of every brand in scope
+    const scope = await rollup.getScope(brandId, includeChildren)
+
+    if (!scope) {
       return NextResponse.json(
         { error: { code: 'BRAND_NOT_FOUND', message: 'Brand not found' } },
         { status: 404 }
       )
     }
-    
-    // Fetch ASINs for this brand
-    const { data: brandAsins, error: asinsError } = await supabase
-      .from('asin_brand_mapping')
-      .select('asin')
-      .eq('brand_id', brandId)
-    
-    if (asinsError) {
-      throw asinsError
+
+    const { brand } = scope
+    const asinList = Array.from(scope.asinBrands.keys())
+    const rollupMeta = {
+      includeChildren,
+      brandIds: scope.brandIds,
     }
-    
-    const asinList = brandAsins?.map((ba: { asin: string }) => ba.asin) || []
-    
+
     if (asinList.length === 0) {
       // Return empty dashboard data if no ASINs
       return NextResponse.json({
@@ -66,10 +78,13 @@ export async function GET(
           },
           products: [],
           searchQueries: [],
+          shares: toPercentShares(calculateShares()),
+          breakdown: [],
         },
         meta: {
           brand: { id: brand.id, display_name: brand.display_name },
           dateRange: { from: dateFrom, to: dateTo },
+          ...rollupMeta,
         },
       })
     }
@@ -273,7 +288,7 @@ export async function GET(
     const { data: productTitles, error: titlesError } = await supabase
       .from('brand_product_segments')
       .select('asin, product_name')
-      .eq('brand_id', brandId)
+      .in('brand_id', scope.brandIds)
       .not('product_name', 'is', null)
       .order('asin')
     
@@ -296,7 +311,25 @@ export async function GET(
       console.log('Sample titleMap entries:', Object.entries(titleMap).slice(0, 3).map(([k, v]) => `${k}: "${v}"`))
     }
     console.log('ASINs without titles:', asinList.filter(asin => !titleMap[asin]).slice(0, 5))
-    
+
+    // Search query counts with their market totals; shares are computed from
+    // these sums at every level rather than averaged across ASINs
+    let queryRows: SearchQueryWeekRow[] = []
+    try {
+      queryRows = await rollup.getSearchQueryRows(asinList, dateFrom, dateTo)
+    } catch (queryRowsError) {
+      console.error('Error fetching search query data:', queryRowsError)
+    }
+
+    const groupOfAsin = (asin: string) => {
+      const asinBrand = scope.asinBrands.get(asin)
+      return asinBrand ? scope.groups.get(asinBrand) : undefined
+    }
+    const sharesByAsin = aggregateShareTotals(queryRows, row => row.asin)
+    const sharesByQuery = aggregateShareTotals(queryRows, row => row.search_query)
+    const sharesByGroup = aggregateShareTotals(queryRows, row => groupOfAsin(row.asin))
+    const rollupShares = toPercentShares(calculateShares(aggregateShareTotals(queryRows, () => ROLLUP_KEY).get(ROLLUP_KEY)))
+
     // Aggregate data by ASIN
     const asinAggregates = (topAsinsRaw || []).reduce((acc: Record<string, any>, row: any) => {
       if (!acc[row.asin]) {
@@ -335,9 +368,12 @@ export async function GET(
       // Calculate comparison period rates
       const comparisonCtr = comparisonData.impressions > 0 ? (comparisonData.clicks / comparisonData.impressions) * 100 : 0
       const comparisonCvr = comparisonData.clicks > 0 ? (comparisonData.purchases / comparisonData.clicks) * 100 : 0
-      
+
+      const shares = calculateShares(sharesByAsin.get(product.asin))
+
       return {
         id: product.asin,
+        brandId: scope.asinBrands.get(product.asin) || brandId,
         name: (product.product_title && product.product_title.trim()) || product.asin, // Use product title if available and not empty, fallback to ASIN
         childAsin: product.asin,
         asin: product.asin, // Include ASIN as separate field
@@ -354,42 +390,30 @@ export async function GET(
         ctrComparison: comparisonCtr > 0 ? calculateComparison(currentCtr, comparisonCtr) : null,
         cvr: `${currentCvr.toFixed(1)}%`,
         cvrComparison: comparisonCvr > 0 ? calculateComparison(currentCvr, comparisonCvr) : null,
-        impressionShare: '0%', // Not available in this view
+        // ctrShare is the click share and cvrShare the purchase share of the query market
+        impressionShare: formatShare(shares.impressionShare),
         impressionShareComparison: null,
-        cvrShare: '0%',
+        cvrShare: formatShare(shares.purchaseShare),
         cvrShareComparison: null,
-        ctrShare: '0%',
+        ctrShare: formatShare(shares.clickShare),
         ctrShareComparison: null,
-        cartAddShare: '0%',
+        cartAddShare: formatShare(shares.cartAddShare),
         cartAddShareComparison: null,
-        purchaseShare: '0%',
+        purchaseShare: formatShare(shares.purchaseShare),
         purchaseShareComparison: null,
       }
     })
-    
-    // For search queries, we'll use the summary table but without grouping by search_query
-    // since the view doesn't include individual search queries
-    const searchQueries: any[] = []
-    const queriesError = null
-    
-    // Note: The search_performance_summary view is aggregated by ASIN and date,
-    // so it doesn't have individual search query data. 
-    // To get search query data, we would need a different view or direct table access.
-    
-    if (queriesError) {
-      throw queriesError
-    }
-    
+
     // Aggregate search query data
-    const queryAggregates = (searchQueries || []).reduce((acc: Record<string, any>, row: any) => {
+    const queryAggregates = queryRows.reduce((acc: Record<string, any>, row: any) => {
       const query = row.search_query
       if (!acc[query]) {
         acc[query] = { impressions: 0, clicks: 0, cart_adds: 0, purchases: 0 }
       }
-      acc[query].impressions += row.asin_impression_count || 0
-      acc[query].clicks += row.asin_click_count || 0
-      acc[query].cart_adds += row.asin_cart_add_count || 0
-      acc[query].purchases += row.asin_purchase_count || 0
+      acc[query].impressions += Number(row.asin_impression_count) || 0
+      acc[query].clicks += Number(row.asin_click_count) || 0
+      acc[query].cart_adds += Number(row.asin_cart_add_count) || 0
+      acc[query].purchases += Number(row.asin_purchase_count) || 0
       return acc
     }, {})
     
@@ -408,32 +432,65 @@ export async function GET(
       .slice(0, queryLimit)
     
     // Format search queries data
-    const formattedQueries = aggregatedQueries.map((query: any, index: number) => ({
-      id: index + 1,
-      query: query.search_query,
-      impressions: query.impressions || 0,
-      impressionsComparison: comparison ? comparison.impressions : null,
-      clicks: query.clicks || 0,
-      clicksComparison: comparison ? comparison.clicks : null,
-      cartAdds: query.cart_adds || 0,
-      cartAddsComparison: comparison ? comparison.cartAdds : null,
-      purchases: query.purchases || 0,
-      purchasesComparison: comparison ? comparison.purchases : null,
-      ctr: `${query.ctr || 0}%`,
-      ctrComparison: null,
-      cvr: `${query.cvr || 0}%`,
-      cvrComparison: null,
-      impressionShare: `0%`, // Not available without the materialized view
-      impressionShareComparison: null,
-      cvrShare: `0%`,
-      cvrShareComparison: null,
-      ctrShare: `0%`,
-      ctrShareComparison: null,
-      cartAddShare: `0%`,
-      cartAddShareComparison: null,
-      purchaseShare: `0%`,
-      purchaseShareComparison: null,
-    }))
+    const formattedQueries = aggregatedQueries.map((query: any, index: number) => {
+      const shares = calculateShares(sharesByQuery.get(query.search_query))
+      return {
+        id: index + 1,
+        query: query.search_query,
+        impressions: query.impressions || 0,
+        impressionsComparison: comparison ? comparison.impressions : null,
+        clicks: query.clicks || 0,
+        clicksComparison: comparison ? comparison.clicks : null,
+        cartAdds: query.cart_adds || 0,
+        cartAddsComparison: comparison ? comparison.cartAdds : null,
+        purchases: query.purchases || 0,
+        purchasesComparison: comparison ? comparison.purchases : null,
+        ctr: `${query.ctr || 0}%`,
+        ctrComparison: null,
+        cvr: `${query.cvr || 0}%`,
+        cvrComparison: null,
+        impressionShare: formatShare(shares.impressionShare),
+        impressionShareComparison: null,
+        cvrShare: formatShare(shares.purchaseShare),
+        cvrShareComparison: null,
+        ctrShare: formatShare(shares.clickShare),
+        ctrShareComparison: null,
+        cartAddShare: formatShare(shares.cartAddShare),
+        cartAddShareComparison: null,
+        purchaseShare: formatShare(shares.purchaseShare),
+        purchaseShareComparison: null,
+      }
+    })
+
+    // One row for the brand's own ASINs and one per direct sub-brand, which
+    // includes everything below it
+    const groupIds = Array.from(new Set(scope.groups.values()))
+    const breakdown = groupIds.map(groupId => {
+      const groupAsins = asinList.filter(asin => groupOfAsin(asin) === groupId)
+      const totals = groupAsins.reduce(
+        (acc, asin) => {
+          const metrics = asinAggregates[asin]
+          if (!metrics) return acc
+          return {
+            impressions: acc.impressions + metrics.impressions,
+            clicks: acc.clicks + metrics.clicks,
+            cartAdds: acc.cartAdds + metrics.cart_adds,
+            purchases: acc.purchases + metrics.purchases,
+          }
+        },
+        { impressions: 0, clicks: 0, cartAdds: 0, purchases: 0 }
+      )
+
+      return {
+        brandId: groupId,
+        displayName: scope.nodes.find(node => node.id === groupId)?.display_name || groupId,
+        isParent: groupId === brandId,
+        brandCount: scope.brandIds.filter(id => scope.groups.get(id) === groupId).length,
+        asinCount: groupAsins.length,
+        ...totals,
+        ...toPercentShares(calculateShares(sharesByGroup.get(groupId))),
+      }
+    })
     
     // Build response
     const response = {
@@ -463,6 +520,9 @@ export async function GET(
         timeSeries,  // Add the weekly time series data
         products: formattedProducts,
         searchQueries: formattedQueries,
+        // Shares of the whole roll-up, from summed counts over de-duplicated market totals
+        shares: rollupShares,
+        breakdown,
       },
       meta: {
         brand: {
@@ -479,6 +539,7 @@ export async function GET(
               to: comparisonDateTo,
             }
           : null,
+        ...rollupMeta,
       },
     }
     
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subDays } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { OpportunityScoringService } from '@/services/dashboard/opportunity-scoring-service'
+
+interface OpportunitiesParams {
+  params: {
+    brandId: string
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: OpportunitiesParams
+) {
+  try {
+    const { brandId } = params
+    const searchParams = request.nextUrl.searchParams
+
+    const dateFrom = searchParams.get('date_from') || format(subDays(new Date(), 30), 'yyyy-MM-dd')
+    const dateTo = searchParams.get('date_to') || format(new Date(), 'yyyy-MM-dd')
+
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const minVolume = parseInt(searchParams.get('min_volume') || '0', 10)
+
+    if (Number.isNaN(limit) || limit < 1 || limit > 500) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: 'limit must be between 1 and 500' } },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('id, display_name')
+      .eq('id', brandId)
+      .single()
+
+    if (brandError || !brand) {
+      return NextResponse.json(
+        { error: { code: 'BRAND_NOT_FOUND', message: 'Brand not found' } },
+        { status: 404 }
+      )
+    }
+
+    const service = new OpportunityScoringService(supabase)
+    const report = await service.rankBrandOpportunities(brandId, {
+      startDate: dateFrom,
+      endDate: dateTo,
+      limit,
+      minVolume: Number.isNaN(minVolume) ? 0 : minVolume,
+    })
+
+    return NextResponse.json({
+      data: report.results,
+      summary: report.summary,
+      meta: {
+        brand: {
+          id: brand.id,
+          display_name: brand.display_name,
+        },
+        dateRange: {
+          from: dateFrom,
+          to: dateTo,
+        },
+      },
+    })
+  } catch (error) {
+    console.error('Error in brand opportunities API:', error)
+    return NextResponse.json(
+      { error: { code: 'DATABASE_ERROR', message: 'Failed to score search query opportunities' } },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subDays } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { calculateComparison } from '@/lib/utils/sparkline'
+import { BrandRollupService } from '@/services/brands/brand-rollup'
+import { QUERY_SEGMENTS, QuerySegmentService } from '@/services/brands/query-segments'
+import { SHARE_METRICS } from '@/services/brands/share-of-voice'
+
+interface QuerySegmentsParams {
+  params: {
+    brandId: string
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: QuerySegmentsParams
+) {
+  try {
+    const { brandId } = params
+    const searchParams = request.nextUrl.searchParams
+
+    const dateFrom = searchParams.get('date_from') || format(subDays(new Date(), 30), 'yyyy-MM-dd')
+    const dateTo = searchParams.get('date_to') || format(new Date(), 'yyyy-MM-dd')
+    const comparisonDateFrom = searchParams.get('comparison_date_from') || undefined
+    const comparisonDateTo = searchParams.get('comparison_date_to') || undefined
+    const includeChildren = searchParams.get('include_children') === 'true'
+    const queryLimit = parseInt(searchParams.get('query_limit') || '50', 10)
+
+    if (Number.isNaN(queryLimit) || queryLimit < 1 || queryLimit > 200) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: 'query_limit must be between 1 and 200' } },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const scope = await new BrandRollupService(supabase).getScope(brandId, includeChildren)
+
+    if (!scope) {
+      return NextResponse.json(
+        { error: { code: 'BRAND_NOT_FOUND', message: 'Brand not found' } },
+        { status: 404 }
+      )
+    }
+
+    const report = await new QuerySegmentService(supabase).getReport({
+      asins: Array.from(scope.asinBrands.keys()),
+      startDate: dateFrom,
+      endDate: dateTo,
+      compareStartDate: comparisonDateFrom,
+      compareEndDate: comparisonDateTo,
+      brandIds: scope.brandIds,
+      queryLimit,
+    })
+
+    // Same shape as the dashboard KPIs, so each segment can stand in for them
+    const kpis = Object.fromEntries(QUERY_SEGMENTS.map(segment => [
+      segment,
+      Object.fromEntries(SHARE_METRICS.map(metric => [metric, {
+        value: report.segments[segment].totals[metric],
+        trend: report.weeks.map(week => week.totals[segment][metric]),
+        comparison: report.comparison
+          ? calculateComparison(report.segments[segment].totals[metric], report.comparison[segment].totals[metric])
+          : null,
+      }])),
+    ]))
+
+    return NextResponse.json({
+      data: {
+        segments: report.segments,
+        kpis,
+        weeks: report.weeks,
+        queries: report.queries,
+      },
+      comparison: report.comparison,
+      meta: {
+        brand: {
+          id: scope.brand.id,
+          display_name: scope.brand.display_name,
+        },
+        dateRange: {
+          from: dateFrom,
+          to: dateTo,
+        },
+        includeChildren,
+      },
+    })
+  } catch (error) {
+    console.error('Error in brand query segments API:', error)
+    return NextResponse.json(
+      { error: { code: 'DATABASE_ERROR', message: 'Failed to classify query segments' } },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
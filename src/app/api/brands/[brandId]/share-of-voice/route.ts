@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subDays } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { BrandRollupService } from '@/services/brands/brand-rollup'
+import { ShareOfVoiceService } from '@/services/brands/share-of-voice'
+
+interface ShareOfVoiceParams {
+  params: {
+    brandId: string
+  }
+}
+
+const MAX_QUERIES = 20
+
+export async function GET(
+  request: NextRequest,
+  { params }: ShareOfVoiceParams
+) {
+  try {
+    const { brandId } = params
+    const searchParams = request.nextUrl.searchParams
+
+    // Twelve weeks by default so there is a trend to look at
+    const dateFrom = searchParams.get('date_from') || format(subDays(new Date(), 84), 'yyyy-MM-dd')
+    const dateTo = searchParams.get('date_to') || format(new Date(), 'yyyy-MM-dd')
+    const includeChildren = searchParams.get('include_children') === 'true'
+
+    // Repeated ?query= parameters, since search queries can contain commas
+    const queries = Array.from(new Set(searchParams.getAll('query').map(query => query.trim()).filter(Boolean)))
+    const shareChangeThreshold = parseFloat(searchParams.get('share_change') || '5')
+    const flatMarketTolerance = parseFloat(searchParams.get('flat_tolerance') || '10') / 100
+
+    if (queries.length > MAX_QUERIES) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: `At most ${MAX_QUERIES} queries can be tracked at once` } },
+        { status: 400 }
+      )
+    }
+
+    if (Number.isNaN(shareChangeThreshold) || shareChangeThreshold <= 0 || shareChangeThreshold > 100) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: 'share_change must be between 0 and 100 points' } },
+        { status: 400 }
+      )
+    }
+
+    if (Number.isNaN(flatMarketTolerance) || flatMarketTolerance < 0 || flatMarketTolerance > 1) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PARAMETER', message: 'flat_tolerance must be between 0 and 100 percent' } },
+        { status: 400 }
+      )
+    }
+
+    const service = new ShareOfVoiceService(new BrandRollupService(createClient()))
+    const report = await service.getReport(brandId, {
+      startDate: dateFrom,
+      endDate: dateTo,
+      queries,
+      includeChildren,
+      shareChangeThreshold,
+      flatMarketTolerance,
+    })
+
+    if (!report) {
+      return NextResponse.json(
+        { error: { code: 'BRAND_NOT_FOUND', message: 'Brand not found' } },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      data: report.weeks,
+      summary: {
+        queries: report.queries,
+        availableQueries: report.availableQueries,
+        flaggedWeeks: report.flaggedWeeks,
+      },
+      meta: {
+        brand: report.brand,
+        dateRange: {
+          from: dateFrom,
+          to: dateTo,
+        },
+        shareChangeThreshold,
+        flatMarketTolerance,
+        includeChildren,
+      },
+    })
+  } catch (error) {
+    console.error('Error in brand share of voice API:', error)
+    return NextResponse.json(
+      { error: { code: 'DATABASE_ERROR', message: 'Failed to build share of voice' } },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { competitorBrandSchema, competitorBrandUpdateSchema } from '@/services/brands/competitor-brand-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface CompetitorBrandParams {
+  params: {
+    competitorId: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: CompetitorBrandParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = competitorBrandUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('competitor_brands')
+      .select('*')
+      .eq('id', params.competitorId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Competitor brand not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the fields sent in the body are updated, but the merged competitor must still be valid
+    const updates = Object.fromEntries(
+      Object.keys(body || {}).filter(key => key in validation.data).map(key => [key, (validation.data as any)[key]])
+    )
+    const merged = competitorBrandSchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid competitor brand', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandIds = [existing.brand_id, merged.data.brand_id]
+      if (brandIds.some(brandId => !brandId || !canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const { data: competitor, error } = await supabase
+      .from('competitor_brands')
+      .update(updates)
+      .eq('id', params.competitorId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Competitor brand updated successfully',
+      competitor
+    })
+
+  } catch (error) {
+    console.error('Error updating competitor brand:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update competitor brand',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: CompetitorBrandParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('competitor_brands')
+      .select('id, brand_id')
+      .eq('id', params.competitorId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Competitor brand not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null && !(existing.brand_id && canAccessBrand(auth, existing.brand_id))) {
+      return forbiddenResponse()
+    }
+
+    const { error } = await supabase
+      .from('competitor_brands')
+      .delete()
+      .eq('id', params.competitorId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Competitor brand deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting competitor brand:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete competitor brand',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
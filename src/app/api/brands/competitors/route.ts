@@ -0,0 +1,128 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { competitorBrandQuerySchema, competitorBrandSchema } from '@/services/brands/competitor-brand-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const validation = competitorBrandQuerySchema.safeParse({
+      brand_id: request.nextUrl.searchParams.get('brand_id') || undefined
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+    const brandId = validation.data.brand_id
+
+    const select = () => supabase
+      .from('competitor_brands')
+      .select('*')
+      .order('name', { ascending: true })
+
+    // Shared competitors and the brand's own, merged back into name order below
+    const results = await Promise.all(brandId
+      ? [select().is('brand_id', null), select().eq('brand_id', brandId)]
+      : [select()])
+
+    const failed = results.find(result => result.error)
+    if (failed?.error) {
+      throw new Error(failed.error.message)
+    }
+
+    // Competitors without a brand are shared with everyone
+    const auth = getRequestAuth(request)
+    const competitors = results
+      .flatMap(result => result.data || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .filter(competitor => !competitor.brand_id || !auth || canAccessBrand(auth, competitor.brand_id))
+
+    return NextResponse.json({
+      competitors,
+      total: competitors.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching competitor brands:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch competitor brands',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = competitorBrandSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid competitor brand', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Brand-restricted users may only add competitors for their own brands
+    const auth = getRequestAuth(request)
+    const competitorData = validation.data
+    if (auth && auth.brandIds !== null && !(competitorData.brand_id && canAccessBrand(auth, competitorData.brand_id))) {
+      return forbiddenResponse('Competitor brands must be scoped to a brand you have access to')
+    }
+
+    const { data: competitor, error } = await supabase
+      .from('competitor_brands')
+      .insert({
+        ...competitorData,
+        created_by: auth?.userId || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A competitor named "${competitorData.name}" already exists` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Competitor brand created successfully',
+      competitor
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating competitor brand:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create competitor brand',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
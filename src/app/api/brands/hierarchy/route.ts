@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { filterByBrandAccess, getRequestAuth } from '@/lib/auth/request-context'
 
 interface BrandNode {
   id: string
@@ -22,7 +23,7 @@ export async function GET(request: NextRequest) {
     const includeMetrics = searchParams.get('includeMetrics') === 'true'
 
     // Fetch brand hierarchy data
-    const { data, error } = await supabase
+    const { data: hierarchyRows, error } = await supabase
       .from('brand_hierarchy')
       .select(includeMetrics ? '*' : 'id, brand_name, display_name, parent_brand_id, level, path, root_brand_id')
       .order('level, brand_name')
@@ -35,7 +36,10 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    if (!data || data.length === 0) {
+    // Brand-scoped callers only see the brands they are assigned to
+    const data = filterByBrandAccess(hierarchyRows || [], getRequestAuth(request), (brand: any) => brand.id)
+
+    if (data.length === 0) {
       return NextResponse.json({ hierarchy: [], flat: [] })
     }
 
@@ -55,11 +59,10 @@ export async function GET(request: NextRequest) {
     data.forEach((brand: any) => {
       const node = brandMap.get(brand.id)!
       
-      if (brand.parent_brand_id) {
-        const parent = brandMap.get(brand.parent_brand_id)
-        if (parent) {
-          parent.children!.push(node)
-        }
+      // Children whose parent is outside the caller's brand scope become roots
+      const parent = brand.parent_brand_id ? brandMap.get(brand.parent_brand_id) : undefined
+      if (parent) {
+        parent.children!.push(node)
       } else {
         rootBrands.push(node)
       }
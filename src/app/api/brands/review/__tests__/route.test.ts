@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+import { applyAuthHeaders } from '@/lib/auth/request-context'
+
+vi.mock('@/services/brands/brand-review-service', () => ({
+  brandReviewService: {
+    getQueue: vi.fn(),
+    getCurrentBrands: vi.fn(),
+    review: vi.fn()
+  }
+}))
+
+import { brandReviewService } from '@/services/brands/brand-review-service'
+
+const BRAND_A = '11111111-1111-4111-8111-111111111111'
+const BRAND_B = '22222222-2222-4222-8222-222222222222'
+
+const request = (path: string, body?: any, brandIds: string[] | null = null) => {
+  const headers = new Headers({ 'Content-Type': 'application/json' })
+  applyAuthHeaders(headers, { userId: 'user-1', role: 'admin', brandIds, method: 'session' })
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+}
+
+describe('/api/brands/review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('returns a page of the queue', async () => {
+    ;(brandReviewService.getQueue as any).mockResolvedValue({
+      items: [{ asin: 'B001', current_brand_id: null }, { asin: 'B002', current_brand_id: BRAND_A }],
+      total: 12
+    })
+
+    const response = await GET(request('/api/brands/review?reason=unmapped&limit=500&offset=20'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(brandReviewService.getQueue).toHaveBeenCalledWith({ reason: 'unmapped', limit: 200, offset: 20 })
+    expect(data.total).toBe(12)
+
+    const scoped = await (await GET(request('/api/brands/review', undefined, [BRAND_A]))).json()
+    expect(scoped.items).toEqual([{ asin: 'B002', current_brand_id: BRAND_A }])
+
+    const invalid = await GET(request('/api/brands/review?reason=everything'))
+    expect(invalid.status).toBe(400)
+  })
+
+  it('records bulk decisions for the caller', async () => {
+    ;(brandReviewService.review as any).mockResolvedValue(2)
+    const decisions = [
+      { asin: 'B001', brand_id: BRAND_A, action: 'approve' },
+      { asin: 'B002', brand_id: BRAND_B, action: 'override', note: 'Reseller listing' }
+    ]
+
+    const response = await POST(request('/api/brands/review', { decisions }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.message).toBe('2 ASINs reviewed and locked')
+    expect(brandReviewService.review).toHaveBeenCalledWith(decisions, 'user-1')
+  })
+
+  it('rejects duplicate ASINs, unknown actions and brands outside the caller scope', async () => {
+    const duplicate = await POST(request('/api/brands/review', {
+      decisions: [{ asin: 'B001', brand_id: BRAND_A, action: 'approve' }, { asin: 'B001', brand_id: BRAND_B, action: 'override' }]
+    }))
+    expect(duplicate.status).toBe(400)
+
+    const unknown = await POST(request('/api/brands/review', { decisions: [{ asin: 'B001', brand_id: BRAND_A, action: 'reject' }] }))
+    expect(unknown.status).toBe(400)
+
+    ;(brandReviewService.getCurrentBrands as any).mockResolvedValue(new Map([['B001', BRAND_B]]))
+    const forbidden = await POST(request(
+      '/api/brands/review',
+      { decisions: [{ asin: 'B001', brand_id: BRAND_A, action: 'override' }] },
+      [BRAND_A]
+    ))
+    expect(forbidden.status).toBe(403)
+    expect(brandReviewService.review).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
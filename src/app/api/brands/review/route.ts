@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { filterByBrandAccess, forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { brandReviewSchema } from '@/services/brands/brand-rule-schema'
+import { brandReviewService } from '@/services/brands/brand-review-service'
+
+const REVIEW_REASONS = ['unmapped', 'low_confidence'] as const
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const reason = searchParams.get('reason')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    if (reason && !(REVIEW_REASONS as readonly string[]).includes(reason)) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: `reason must be one of ${REVIEW_REASONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const page = await brandReviewService.getQueue({
+      reason: (reason || undefined) as typeof REVIEW_REASONS[number] | undefined,
+      limit: Math.min(Math.max(limit || 50, 1), 200),
+      offset: Math.max(offset || 0, 0)
+    })
+
+    // Unmapped ASINs belong to no brand, so brand-scoped callers only see their low-confidence mappings
+    const items = filterByBrandAccess(page.items, getRequestAuth(request), item => item.current_brand_id)
+
+    return NextResponse.json({
+      items,
+      total: items.length === page.items.length ? page.total : items.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching brand review queue:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch brand review queue',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = brandReviewSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { decisions } = validation.data
+    const asins = decisions.map(decision => decision.asin)
+    if (new Set(asins).size !== asins.length) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: 'Each ASIN may only appear once' },
+        { status: 400 }
+      )
+    }
+
+    // Brand-scoped callers may only move ASINs between brands they can access
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const currentBrands = await brandReviewService.getCurrentBrands(asins)
+      const brandIds = decisions.flatMap(decision => [decision.brand_id, currentBrands.get(decision.asin)])
+      if (brandIds.some(brandId => !brandId || !canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const reviewed = await brandReviewService.review(decisions, auth?.userId)
+
+    return NextResponse.json({
+      success: true,
+      message: `${reviewed} ASIN${reviewed === 1 ? '' : 's'} reviewed and locked`,
+      reviewed
+    })
+
+  } catch (error) {
+    console.error('Error applying brand review decisions:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to apply review decisions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -1,10 +1,12 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { filterByBrandAccess, getRequestAuth } from '@/lib/auth/request-context'
 import type { Brand, BrandsResponse } from '@/types/brand'
 
-export async function GET() {
+export async function GET(request?: NextRequest) {
   try {
     const supabase = createClient()
+    const auth = getRequestAuth(request)
     
     // Fetch all active brands with extended information
     const { data: brands, error } = await supabase
@@ -35,8 +37,9 @@ export async function GET() {
     }
 
     // Get ASIN counts for each brand
+    const accessibleBrands = filterByBrandAccess(brands || [], auth, (brand: any) => brand.id)
     const brandsWithCounts = await Promise.all(
-      (brands || []).map(async (brand: any) => {
+      accessibleBrands.map(async (brand: any) => {
         const { count } = await supabase
           .from('asin_brand_mapping')
           .select('*', { count: 'exact', head: true })
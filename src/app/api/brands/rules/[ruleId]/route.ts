@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { brandRuleSchema, brandRuleUpdateSchema } from '@/services/brands/brand-rule-schema'
+import { brandRuleService } from '@/services/brands/brand-rule-service'
+
+interface BrandRuleParams {
+  params: {
+    ruleId: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: BrandRuleParams) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = brandRuleUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await brandRuleService.getRule(params.ruleId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Extraction rule not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the fields sent in the body are updated, but the merged rule must still be valid
+    const updates = Object.fromEntries(
+      Object.keys(body || {}).filter(key => key in validation.data).map(key => [key, (validation.data as any)[key]])
+    )
+    const merged = brandRuleSchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid extraction rule', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && [existing.brand_id, merged.data.brand_id].some(brandId => !canAccessBrand(auth, brandId))) {
+      return forbiddenResponse()
+    }
+
+    const rule = await brandRuleService.updateRule(params.ruleId, updates)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Extraction rule updated successfully',
+      rule
+    })
+
+  } catch (error) {
+    console.error('Error updating extraction rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update extraction rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: BrandRuleParams) {
+  try {
+    const existing = await brandRuleService.getRule(params.ruleId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Extraction rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && !canAccessBrand(auth, existing.brand_id)) {
+      return forbiddenResponse()
+    }
+
+    // ASINs the rule mapped keep their brand
+    await brandRuleService.deleteRule(params.ruleId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Extraction rule deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting extraction rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete extraction rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
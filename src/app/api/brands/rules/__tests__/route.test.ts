@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+import { POST as testRule } from '../test/route'
+import { POST as applyRule } from '../apply/route'
+import { applyAuthHeaders } from '@/lib/auth/request-context'
+
+vi.mock('@/services/brands/brand-rule-service', () => ({
+  brandRuleService: {
+    listRules: vi.fn(),
+    getRule: vi.fn(),
+    createRule: vi.fn(),
+    previewRule: vi.fn(),
+    applyRule: vi.fn()
+  }
+}))
+
+import { brandRuleService } from '@/services/brands/brand-rule-service'
+
+const BRAND_A = '11111111-1111-4111-8111-111111111111'
+const BRAND_B = '22222222-2222-4222-8222-222222222222'
+
+const draft = { brand_id: BRAND_A, rule_type: 'contains', pattern: 'work sharp', priority: 5 }
+
+const request = (path: string, body?: any, brandIds: string[] | null = null) => {
+  const headers = new Headers({ 'Content-Type': 'application/json' })
+  applyAuthHeaders(headers, { userId: 'user-1', role: 'admin', brandIds, method: 'session' })
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers,
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+  })
+}
+
+describe('/api/brands/rules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('lists only the rules of brands the caller can access', async () => {
+    ;(brandRuleService.listRules as any).mockResolvedValue([
+      { id: 'rule-a', brand_id: BRAND_A },
+      { id: 'rule-b', brand_id: BRAND_B }
+    ])
+
+    const response = await GET(request('/api/brands/rules', undefined, [BRAND_B]))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ rules: [{ id: 'rule-b', brand_id: BRAND_B }], total: 1 })
+  })
+
+  it('creates a rule with defaults and rejects invalid regexes', async () => {
+    ;(brandRuleService.createRule as any).mockResolvedValue({ id: 'rule-new', ...draft })
+
+    const response = await POST(request('/api/brands/rules', draft))
+
+    expect(response.status).toBe(201)
+    expect(brandRuleService.createRule).toHaveBeenCalledWith(
+      { ...draft, is_case_sensitive: false, is_active: true, confidence_threshold: 0.8 },
+      'user-1'
+    )
+
+    const invalid = await POST(request('/api/brands/rules', { ...draft, rule_type: 'regex', pattern: 'work (sharp' }))
+    const data = await invalid.json()
+
+    expect(invalid.status).toBe(400)
+    expect(data.details[0].message).toMatch(/Invalid regular expression/)
+  })
+
+  it('previews a draft without saving it and caps the items returned', async () => {
+    ;(brandRuleService.previewRule as any).mockResolvedValue({
+      titles_scanned: 3,
+      summary: { matched: 3 },
+      items: [{ asin: 'B001' }, { asin: 'B002' }, { asin: 'B003' }]
+    })
+
+    const response = await testRule(request('/api/brands/rules/test?limit=2', { rule: draft }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.items).toHaveLength(2)
+    expect(data.truncated).toBe(true)
+    expect(brandRuleService.createRule).not.toHaveBeenCalled()
+  })
+
+  it('applies a draft for a brand the caller can access', async () => {
+    ;(brandRuleService.applyRule as any).mockResolvedValue({
+      rule: { id: 'rule-new' },
+      applied: 2,
+      assignable: 2,
+      preview: { summary: { matched: 4 } }
+    })
+
+    const response = await applyRule(request('/api/brands/rules/apply', { rule: draft, asins: ['B001', 'B002'] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.message).toBe('Extraction rule saved; 2 ASINs reassigned')
+    expect(brandRuleService.applyRule).toHaveBeenCalledWith(
+      expect.objectContaining({ brand_id: BRAND_A, pattern: 'work sharp' }),
+      { asins: ['B001', 'B002'], userId: 'user-1' }
+    )
+
+    const forbidden = await applyRule(request('/api/brands/rules/apply', { rule: draft }, [BRAND_B]))
+    expect(forbidden.status).toBe(403)
+  })
+
+  it('returns 404 when applying changes to a rule that does not exist', async () => {
+    ;(brandRuleService.getRule as any).mockResolvedValue(null)
+
+    const response = await applyRule(request('/api/brands/rules/apply', {
+      rule: { ...draft, id: '33333333-3333-4333-8333-333333333333' }
+    }))
+
+    expect(response.status).toBe(404)
+    expect(brandRuleService.applyRule).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
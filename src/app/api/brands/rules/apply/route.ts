@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { brandRuleApplySchema } from '@/services/brands/brand-rule-schema'
+import { brandRuleService } from '@/services/brands/brand-rule-service'
+
+/**
+ * Saves a draft extraction rule and moves the ASINs it wins to its brand,
+ * recording each move in asin_brand_mapping_history
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = brandRuleApplySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { rule: draft, asins } = validation.data
+    const auth = getRequestAuth(request)
+    const brandIds = [draft.brand_id]
+
+    if (draft.id) {
+      const existing = await brandRuleService.getRule(draft.id)
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Extraction rule not found' },
+          { status: 404 }
+        )
+      }
+      brandIds.push(existing.brand_id)
+    }
+
+    if (auth && brandIds.some(brandId => !canAccessBrand(auth, brandId))) {
+      return forbiddenResponse()
+    }
+
+    const result = await brandRuleService.applyRule(draft, { asins, userId: auth?.userId })
+
+    return NextResponse.json({
+      success: true,
+      message: `Extraction rule saved; ${result.applied} ASIN${result.applied === 1 ? '' : 's'} reassigned`,
+      rule: result.rule,
+      applied: result.applied,
+      assignable: result.assignable,
+      summary: result.preview.summary
+    }, { status: draft.id ? 200 : 201 })
+
+  } catch (error) {
+    console.error('Error applying extraction rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to apply extraction rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { filterByBrandAccess, forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { brandRuleSchema } from '@/services/brands/brand-rule-schema'
+import { brandRuleService } from '@/services/brands/brand-rule-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const brandId = request.nextUrl.searchParams.get('brand_id') || undefined
+    const rules = filterByBrandAccess(
+      await brandRuleService.listRules(brandId),
+      getRequestAuth(request),
+      rule => rule.brand_id
+    )
+
+    return NextResponse.json({
+      rules,
+      total: rules.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching extraction rules:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch extraction rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = brandRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid extraction rule', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && !canAccessBrand(auth, validation.data.brand_id)) {
+      return forbiddenResponse('Extraction rules must belong to a brand you have access to')
+    }
+
+    const rule = await brandRuleService.createRule(validation.data, auth?.userId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Extraction rule created successfully',
+      rule
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating extraction rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create extraction rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { brandRuleDraftSchema } from '@/services/brands/brand-rule-schema'
+import { brandRuleService } from '@/services/brands/brand-rule-service'
+
+const DEFAULT_ITEM_LIMIT = 200
+const MAX_ITEM_LIMIT = 2000
+
+/**
+ * Tries a draft extraction rule against every product title without saving
+ * it. The summary covers every matched ASIN; items are capped by ?limit.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = brandRuleDraftSchema.safeParse(body?.rule)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid extraction rule', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && !canAccessBrand(auth, validation.data.brand_id)) {
+      return forbiddenResponse()
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '')
+    const limit = Math.min(Number.isNaN(limitParam) ? DEFAULT_ITEM_LIMIT : Math.max(limitParam, 1), MAX_ITEM_LIMIT)
+
+    const preview = await brandRuleService.previewRule(validation.data)
+
+    return NextResponse.json({
+      ...preview,
+      items: preview.items.slice(0, limit),
+      truncated: preview.items.length > limit
+    })
+
+  } catch (error) {
+    console.error('Error testing extraction rule:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to test extraction rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { filterByBrandAccess, getRequestAuth } from '@/lib/auth/request-context'
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,10 +28,12 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const results = filterByBrandAccess(data || [], getRequestAuth(request), (brand: any) => brand.id || brand.brand_id)
+
     return NextResponse.json({ 
-      results: data || [],
+      results,
       query: query.trim(),
-      count: data?.length || 0
+      count: results.length
     })
   } catch (error) {
     console.error('API Error:', error)
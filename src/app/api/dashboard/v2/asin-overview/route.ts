@@ -9,6 +9,9 @@ import {
   generateComparisonSuggestions, 
   validateComparisonPeriod 
 } from './utils/suggestion-metadata'
+import { OpportunityScoringService, trendKey } from '@/services/dashboard/opportunity-scoring-service'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
+import { KeywordListLookup, excludeKeywords, getKeywordListType } from '@/services/keywords/keyword-lists'
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,8 +32,23 @@ export async function GET(request: NextRequest) {
 
     const supabase = createClient()
 
+    // Watched and excluded keywords; the dashboard works without them if loading fails
+    let keywordLookup: KeywordListLookup = () => undefined
+    try {
+      keywordLookup = (await new KeywordListService(supabase).getKeywordLists([asin])).lookup
+    } catch (keywordListError) {
+      console.error('Error loading keyword lists:', keywordListError)
+    }
+    const excludedQueries = new Set<string>()
+    const withoutExcluded = (rows: any[] | null) => {
+      if (!rows) return rows
+      const result = excludeKeywords(rows, keywordLookup, (row: any) => row.search_query, () => asin)
+      result.excludedQueries.forEach(query => excludedQueries.add(query))
+      return result.rows
+    }
+
     // Fetch aggregated data for the time series
-    const { data: performanceData, error: performanceError } = await supabase
+    const { data: performanceRows, error: performanceError } = await supabase
       .from('search_query_detail')
       .select('*')
       .eq('asin', asin)
@@ -45,6 +63,7 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       )
     }
+    const performanceData = withoutExcluded(performanceRows)
 
     // Get ASIN details
     const { data: asinData } = await supabase
@@ -122,13 +141,14 @@ export async function GET(request: NextRequest) {
     let comparison = null
     let comparisonTimeSeries = null
     if (compareStartDate && compareEndDate) {
-      const { data: compareData } = await supabase
+      const { data: compareRows } = await supabase
         .from('search_query_detail')
         .select('*')
         .eq('asin', asin)
         .gte('start_date', compareStartDate)
         .lte('end_date', compareEndDate)
         .order('start_date', { ascending: true })
+      const compareData = withoutExcluded(compareRows)
 
       if (compareData && compareData.length > 0) {
         const compareTotals = {
@@ -194,7 +214,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch top search queries for the ASIN
-    const { data: searchQueryData, error: searchQueryError } = await supabase
+    const { data: searchQueryRows } = await supabase
       .from('search_query_detail')
       .select('*')
       .eq('asin', asin)
@@ -202,6 +222,7 @@ export async function GET(request: NextRequest) {
       .lte('end_date', endDate)
       .order('impressions', { ascending: false })
       .limit(1000) // Increase limit to get all data for aggregation
+    const searchQueryData = withoutExcluded(searchQueryRows)
 
     // Check if we need to aggregate keywords
     let topQueries = []
@@ -228,10 +249,32 @@ export async function GET(request: NextRequest) {
       })) || []
     }
 
+    // Attach opportunity scores; the table works without them if scoring fails
+    try {
+      const opportunities = await new OpportunityScoringService(supabase).scoreAsin(asin, startDate, endDate)
+      const byQuery = new Map(opportunities.map(({ searchQuery, score, components, contributions, inputs }) =>
+        [trendKey(asin, searchQuery), { score, components, contributions, inputs }]
+      ))
+      topQueries = topQueries.map((query: any) => ({
+        ...query,
+        opportunity: byQuery.get(trendKey(asin, query.searchQuery)),
+      }))
+    } catch (opportunityError) {
+      console.error('Error scoring search query opportunities:', opportunityError)
+    }
+
+    // Watched queries are pinned at the top of the search query table
+    const watchedQueries = new Set<string>()
+    topQueries = topQueries.map((query: any) => {
+      const watched = getKeywordListType(keywordLookup, query.searchQuery, asin) === 'watch'
+      if (watched) watchedQueries.add(query.searchQuery)
+      return { ...query, watched }
+    })
+
     // Fetch comparison search query data if requested
     let topQueriesComparison = null
     if (compareStartDate && compareEndDate) {
-      const { data: compareSearchQueryData } = await supabase
+      const { data: compareSearchQueryRows } = await supabase
         .from('search_performance_summary')
         .select('*')
         .eq('asin', asin)
@@ -239,6 +282,7 @@ export async function GET(request: NextRequest) {
         .lte('end_date', compareEndDate)
         .order('impressions', { ascending: false })
         .limit(1000) // Increase limit to get all data for aggregation
+      const compareSearchQueryData = withoutExcluded(compareSearchQueryRows)
 
       if (compareSearchQueryData) {
         // Check if we need to aggregate comparison data
@@ -299,6 +343,10 @@ export async function GET(request: NextRequest) {
       comparisonTimeSeries,
       topQueries,
       topQueriesComparison,
+      keywordLists: {
+        excludedQueries: Array.from(excludedQueries).sort(),
+        watchedQueries: Array.from(watchedQueries).sort(),
+      },
       comparisonSuggestions: suggestions,
       comparisonValidation,
     })
@@ -1,9 +1,11 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
 
-export async function GET() {
+export async function GET(request?: NextRequest) {
   try {
     const supabase = createClient()
+    const auth = getRequestAuth(request)
     
     // Fetch distinct ASINs with their product titles
     const { data, error } = await supabase
@@ -19,8 +21,19 @@ export async function GET() {
       )
     }
 
+    // Brand-scoped callers only see ASINs mapped to their brands
+    let allowedAsins: Set<string> | null = null
+    if (auth && auth.brandIds !== null) {
+      const { data: mappings } = await supabase
+        .from('asin_brand_mapping')
+        .select('asin')
+        .in('brand_id', auth.brandIds)
+      allowedAsins = new Set((mappings || []).map((m: any) => m.asin))
+    }
+
     // Remove duplicates based on ASIN
     const uniqueASINs = data?.reduce((acc: any[], item: any) => {
+      if (allowedAsins && !allowedAsins.has(item.asin)) return acc
       if (!acc.find(a => a.asin === item.asin)) {
         acc.push({
           asin: item.asin,
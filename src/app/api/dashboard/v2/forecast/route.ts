@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  CONFIDENCE_LEVELS,
+  ForecastingService,
+  MAX_HORIZON_WEEKS,
+  MIN_HORIZON_WEEKS,
+  type ConfidenceLevel,
+} from '@/services/dashboard/forecasting-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const keyword = searchParams.get('keyword')
+    const endDate = searchParams.get('endDate') || undefined
+    const horizon = parseInt(searchParams.get('horizon') || '8', 10)
+    const confidence = parseFloat(searchParams.get('confidence') || '0.95')
+
+    if (!asin) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(horizon) || horizon < MIN_HORIZON_WEEKS || horizon > MAX_HORIZON_WEEKS) {
+      return NextResponse.json(
+        { error: `horizon must be between ${MIN_HORIZON_WEEKS} and ${MAX_HORIZON_WEEKS} weeks` },
+        { status: 400 }
+      )
+    }
+
+    if (!(CONFIDENCE_LEVELS as readonly number[]).includes(confidence)) {
+      return NextResponse.json(
+        { error: `confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (endDate && isNaN(Date.parse(endDate))) {
+      return NextResponse.json(
+        { error: 'Invalid endDate format' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const report = await new ForecastingService(supabase).forecast({
+      asin,
+      keyword,
+      horizon,
+      confidence: confidence as ConfidenceLevel,
+      endDate,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error generating forecast:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate forecast' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
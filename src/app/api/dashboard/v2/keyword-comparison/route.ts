@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
 import { createClient } from '@/lib/supabase/server'
+import { KeywordGroupService, filterVisibleGroups } from '@/services/keywords/keyword-group-service'
+import { aggregateKeywordGroups, aggregateKeywordGroupsByWeek } from '@/services/keywords/keyword-taxonomy'
 
 interface KeywordComparisonData {
   timeSeries: Array<{
@@ -33,8 +36,16 @@ interface KeywordComparisonData {
       }
     }
   }
+  // Keyword groups compared alongside the keywords, keyed by group name above
+  groups?: Array<{
+    id: string
+    name: string
+    keywords: string[]
+  }>
 }
 
+const MAX_SERIES = 10
+
 function validateDate(dateStr: string): boolean {
   const date = new Date(dateStr)
   return date instanceof Date && !isNaN(date.getTime()) && /^\d{4}-\d{2}-\d{2}$/.test(dateStr)
@@ -45,6 +56,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const asin = searchParams.get('asin')
     const keywordsParam = searchParams.get('keywords')
+    const groupsParam = searchParams.get('groups')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
     const compareStartDate = searchParams.get('compareStartDate')
@@ -54,7 +66,7 @@ export async function GET(request: NextRequest) {
     if (!asin) {
       return NextResponse.json({ error: 'ASIN parameter is required' }, { status: 400 })
     }
-    if (!keywordsParam) {
+    if (!keywordsParam && !groupsParam) {
       return NextResponse.json({ error: 'Keywords parameter is required' }, { status: 400 })
     }
     if (!startDate) {
@@ -65,12 +77,14 @@ export async function GET(request: NextRequest) {
     }
 
     // Parse and validate keywords
-    const keywords = keywordsParam.split(',').map(k => k.trim()).filter(k => k.length > 0)
-    if (keywords.length === 0) {
+    const keywords = (keywordsParam || '').split(',').map(k => k.trim()).filter(k => k.length > 0)
+    const groupIds = (groupsParam || '').split(',').map(id => id.trim()).filter(id => id.length > 0)
+    if (keywords.length === 0 && groupIds.length === 0) {
       return NextResponse.json({ error: 'At least one keyword is required' }, { status: 400 })
     }
-    if (keywords.length > 10) {
-      return NextResponse.json({ error: 'Maximum 10 keywords allowed' }, { status: 400 })
+    // A group counts as one series however many keywords it covers
+    if (keywords.length + groupIds.length > MAX_SERIES) {
+      return NextResponse.json({ error: `Maximum ${MAX_SERIES} keywords allowed` }, { status: 400 })
     }
 
     // Validate date formats
@@ -126,7 +140,6 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    const timeSeries = Array.from(timeSeriesMap.values())
 
     // Calculate funnel totals from time series data
     const funnels: KeywordComparisonData['funnels'] = {}
@@ -220,11 +233,69 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Keyword groups: counts summed over the member keywords, share from the summed counts
+    let groups: KeywordComparisonData['groups'] = undefined
+
+    if (groupIds.length > 0) {
+      const groupService = new KeywordGroupService(supabase)
+      const keywordGroups = filterVisibleGroups(await groupService.getGroups(groupIds), getRequestAuth(request))
+      if (keywordGroups.length !== groupIds.length) {
+        return NextResponse.json({ error: 'Keyword group not found' }, { status: 404 })
+      }
+
+      const groupRows = await groupService.getRows([asin], startDate, endDate)
+      const groupTotals = aggregateKeywordGroups(groupRows, keywordGroups)
+
+      aggregateKeywordGroupsByWeek(groupRows, keywordGroups).forEach(week => {
+        if (!timeSeriesMap.has(week.startDate)) {
+          timeSeriesMap.set(week.startDate, { date: week.startDate })
+        }
+        const dateEntry = timeSeriesMap.get(week.startDate)
+        week.groups.forEach(group => {
+          dateEntry[group.name] = {
+            impressions: group.impressions,
+            clicks: group.clicks,
+            purchases: group.purchases,
+          }
+        })
+      })
+
+      groupTotals.forEach(group => {
+        funnels[group.name] = {
+          impressions: group.impressions,
+          clicks: group.clicks,
+          cartAdds: group.cartAdds,
+          purchases: group.purchases,
+        }
+        marketShare[group.name] = group.impressionShare
+      })
+
+      if (comparisonData) {
+        const previousRows = await groupService.getRows([asin], compareStartDate!, compareEndDate!)
+        aggregateKeywordGroups(previousRows, keywordGroups).forEach(group => {
+          comparisonData![group.name] = {
+            current: funnels[group.name],
+            previous: {
+              impressions: group.impressions,
+              clicks: group.clicks,
+              cartAdds: group.cartAdds,
+              purchases: group.purchases,
+            }
+          }
+        })
+      }
+
+      groups = groupTotals.map(group => ({ id: group.groupId, name: group.name, keywords: group.keywords }))
+    }
+
+    const timeSeries = Array.from(timeSeriesMap.values()).sort((a, b) => a.date.localeCompare(b.date))
+
     const response: KeywordComparisonData = {
       timeSeries,
       funnels,
       marketShare,
-      ...(comparisonData && { comparisonData })
+      ...(comparisonData && { comparisonData }),
+      ...(groups && { groups })
     }
 
     return NextResponse.json(response)
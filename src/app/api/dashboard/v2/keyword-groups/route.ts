@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { createClient } from '@/lib/supabase/server'
+import { keywordGroupQuerySchema } from '@/services/keywords/keyword-group-schema'
+import { KeywordGroupService, filterVisibleGroups } from '@/services/keywords/keyword-group-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const groupIds = (searchParams.get('groups') || '').split(',').map(id => id.trim()).filter(Boolean)
+
+    if (!asin || !startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordGroupQuerySchema.safeParse({
+      brand_id: searchParams.get('brand_id') || undefined
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const service = new KeywordGroupService(createClient())
+    const groups = filterVisibleGroups(
+      groupIds.length > 0
+        ? await service.getGroups(groupIds)
+        : await service.listGroups(validation.data.brand_id),
+      getRequestAuth(request)
+    )
+
+    const report = await service.getReport([asin], startDate, endDate, groups)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error aggregating keyword groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to aggregate keyword groups' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
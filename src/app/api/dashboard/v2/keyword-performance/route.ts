@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import type { KeywordListType } from '@/services/keywords/keyword-list-schema'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
 
 interface KeywordPerformanceData {
   summary: {
@@ -78,6 +80,13 @@ interface KeywordPerformanceData {
       purchaseShare: number
     }>
   }
+  // The watchlist or exclusion list entry that applies to the keyword for this ASIN
+  keywordList?: {
+    id: string
+    listType: KeywordListType
+    scope: 'asin' | 'brand'
+    alertEnabled: boolean
+  } | null
 }
 
 function validateDate(dateStr: string): boolean {
@@ -456,6 +465,20 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // The analysis still loads if the keyword lists are unavailable
+    try {
+      const { lookup } = await new KeywordListService(supabase).getKeywordLists([asin])
+      const entry = lookup(keyword, asin)
+      response.keywordList = entry ? {
+        id: entry.id,
+        listType: entry.list_type,
+        scope: entry.asin ? 'asin' : 'brand',
+        alertEnabled: entry.alert_enabled,
+      } : null
+    } catch (keywordListError) {
+      console.error('Error loading keyword lists:', keywordListError)
+    }
+
     return NextResponse.json(response)
   } catch (error) {
     console.error('Error in keyword-performance API:', error)
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { QuerySegmentService } from '@/services/brands/query-segments'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const compareStartDate = searchParams.get('compareStartDate') || undefined
+    const compareEndDate = searchParams.get('compareEndDate') || undefined
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+
+    if (!asin || !startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    const dates = [startDate, endDate, compareStartDate, compareEndDate].filter((date): date is string => !!date)
+    if (dates.some(date => isNaN(Date.parse(date)))) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json(
+        { error: 'limit must be between 1 and 200' },
+        { status: 400 }
+      )
+    }
+
+    const service = new QuerySegmentService(createClient())
+    // Competitors listed for the ASIN's brand apply along with the shared ones
+    const brandIds = await service.getAsinBrandIds([asin])
+    const report = await service.getReport({
+      asins: [asin],
+      startDate,
+      endDate,
+      compareStartDate,
+      compareEndDate,
+      brandIds,
+      queryLimit: limit,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error classifying query segments:', error)
+    return NextResponse.json(
+      { error: 'Failed to classify query segments' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ShippingSpeedService } from '@/services/dashboard/shipping-speed-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const threshold = parseFloat(searchParams.get('threshold') || '60')
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+
+    if (!asin || !startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+      return NextResponse.json(
+        { error: 'threshold must be a percentage between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json(
+        { error: 'limit must be between 1 and 200' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const report = await new ShippingSpeedService(supabase).analyze({
+      asins: [asin],
+      startDate,
+      endDate,
+      limit,
+      fastPurchaseThreshold: threshold / 100,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error analyzing shipping speed:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze shipping speed' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
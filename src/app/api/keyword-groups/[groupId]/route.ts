@@ -0,0 +1,146 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { keywordGroupSchema, keywordGroupUpdateSchema } from '@/services/keywords/keyword-group-schema'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface KeywordGroupParams {
+  params: {
+    groupId: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: KeywordGroupParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordGroupUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('keyword_groups')
+      .select('*')
+      .eq('id', params.groupId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Keyword group not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the fields sent in the body are updated, but the merged group must still be valid
+    const updates = Object.fromEntries(
+      Object.keys(body || {}).filter(key => key in validation.data).map(key => [key, (validation.data as any)[key]])
+    )
+    const merged = keywordGroupSchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid keyword group', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandIds = [existing.brand_id, merged.data.brand_id]
+      if (brandIds.some(brandId => !brandId || !canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const { data: group, error } = await supabase
+      .from('keyword_groups')
+      .update(updates)
+      .eq('id', params.groupId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword group updated successfully',
+      group
+    })
+
+  } catch (error) {
+    console.error('Error updating keyword group:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update keyword group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: KeywordGroupParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('keyword_groups')
+      .select('id, brand_id')
+      .eq('id', params.groupId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Keyword group not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null && !(existing.brand_id && canAccessBrand(auth, existing.brand_id))) {
+      return forbiddenResponse()
+    }
+
+    const { error } = await supabase
+      .from('keyword_groups')
+      .delete()
+      .eq('id', params.groupId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword group deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting keyword group:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete keyword group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
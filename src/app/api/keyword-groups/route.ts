@@ -0,0 +1,109 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { keywordGroupQuerySchema, keywordGroupSchema } from '@/services/keywords/keyword-group-schema'
+import { KeywordGroupService, filterVisibleGroups } from '@/services/keywords/keyword-group-service'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const validation = keywordGroupQuerySchema.safeParse({
+      brand_id: request.nextUrl.searchParams.get('brand_id') || undefined
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const data = await new KeywordGroupService(supabase).listGroups(validation.data.brand_id)
+    const groups = filterVisibleGroups(data, getRequestAuth(request))
+
+    return NextResponse.json({
+      groups,
+      total: groups.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching keyword groups:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch keyword groups',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordGroupSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid keyword group', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Brand-restricted users may only create groups for their own brands
+    const auth = getRequestAuth(request)
+    const groupData = validation.data
+    if (auth && auth.brandIds !== null && !(groupData.brand_id && canAccessBrand(auth, groupData.brand_id))) {
+      return forbiddenResponse('Keyword groups must be scoped to a brand you have access to')
+    }
+
+    const { data: group, error } = await supabase
+      .from('keyword_groups')
+      .insert({
+        ...groupData,
+        created_by: auth?.userId || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A keyword group named "${groupData.name}" already exists` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword group created successfully',
+      group
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating keyword group:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create keyword group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
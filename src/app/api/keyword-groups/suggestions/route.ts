@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { keywordGroupQuerySchema } from '@/services/keywords/keyword-group-schema'
+import { KeywordGroupService, filterVisibleGroups } from '@/services/keywords/keyword-group-service'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Auto-clustering suggestions from the keywords of an ASIN, for creating groups
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const minOverlap = parseFloat(searchParams.get('min_overlap') || '0.5')
+    const limit = parseInt(searchParams.get('limit') || '20', 10)
+
+    if (!asin || !startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(minOverlap) || minOverlap <= 0 || minOverlap > 1) {
+      return NextResponse.json(
+        { error: 'min_overlap must be greater than 0 and at most 1' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { error: 'limit must be between 1 and 100' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordGroupQuerySchema.safeParse({
+      brand_id: searchParams.get('brand_id') || undefined
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const service = new KeywordGroupService(createClient(supabaseUrl, supabaseServiceKey))
+    const groups = filterVisibleGroups(await service.listGroups(validation.data.brand_id), getRequestAuth(request))
+    const suggestions = await service.suggestClusters([asin], startDate, endDate, groups, { minOverlap, limit })
+
+    return NextResponse.json({
+      suggestions,
+      total: suggestions.length
+    })
+
+  } catch (error) {
+    console.error('Error suggesting keyword groups:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to suggest keyword groups',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { keywordListEntrySchema, keywordListEntryUpdateSchema } from '@/services/keywords/keyword-list-schema'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface KeywordListEntryParams {
+  params: {
+    entryId: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: KeywordListEntryParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordListEntryUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('keyword_list_entries')
+      .select('*')
+      .eq('id', params.entryId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Keyword list entry not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the fields sent in the body are updated, but the merged entry must still be valid
+    const updates = Object.fromEntries(
+      Object.keys(body || {}).filter(key => key in validation.data).map(key => [key, (validation.data as any)[key]])
+    )
+    const merged = keywordListEntrySchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid keyword list entry', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const service = new KeywordListService(supabase)
+      const brandIds = [await service.getScopeBrandId(existing), await service.getScopeBrandId(merged.data)]
+      if (brandIds.some(brandId => !brandId || !canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const { data: entry, error } = await supabase
+      .from('keyword_list_entries')
+      .update(updates)
+      .eq('id', params.entryId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `"${merged.data.keyword}" is already on a keyword list for this ${merged.data.asin ? 'ASIN' : 'brand'}` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword list entry updated successfully',
+      entry
+    })
+
+  } catch (error) {
+    console.error('Error updating keyword list entry:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update keyword list entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: KeywordListEntryParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('keyword_list_entries')
+      .select('id, asin, brand_id')
+      .eq('id', params.entryId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Keyword list entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandId = await new KeywordListService(supabase).getScopeBrandId(existing)
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const { error } = await supabase
+      .from('keyword_list_entries')
+      .delete()
+      .eq('id', params.entryId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword list entry deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting keyword list entry:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete keyword list entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { keywordListImportSchema } from '@/services/keywords/keyword-list-schema'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
+import { parseKeywordListCsv } from '@/services/keywords/keyword-lists'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Imports a keyword list CSV (as exported by GET /api/keyword-lists?format=csv) into one ASIN's or brand's lists
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordListImportSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid keyword list import', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { asin, brand_id, csv, list_type } = validation.data
+    const service = new KeywordListService(supabase)
+
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandId = await service.getScopeBrandId({ asin, brand_id })
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse('Keyword lists must belong to a brand or ASIN you have access to')
+      }
+    }
+
+    const { rows, errors } = parseKeywordListCsv(csv, list_type)
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No keywords to import', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await service.importEntries({ asin, brandId: brand_id }, rows, auth?.userId || null)
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${rows.length} keyword${rows.length === 1 ? '' : 's'}`,
+      ...result,
+      errors
+    })
+
+  } catch (error) {
+    console.error('Error importing keyword lists:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to import keyword lists',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { KEYWORD_LIST_TYPES, KeywordListType, keywordListEntrySchema } from '@/services/keywords/keyword-list-schema'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
+import { keywordListsToCsv } from '@/services/keywords/keyword-lists'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const searchParams = request.nextUrl.searchParams
+    const asin = searchParams.get('asin')
+    const brandId = searchParams.get('brand_id')
+    const listType = searchParams.get('list_type')
+
+    if (listType && !(KEYWORD_LIST_TYPES as readonly string[]).includes(listType)) {
+      return NextResponse.json(
+        { error: `list_type must be one of ${KEYWORD_LIST_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const service = new KeywordListService(supabase)
+    const data = await service.listEntries({ asin, brandId }, (listType as KeywordListType) || undefined)
+
+    // Brand-restricted users only see entries of their brands and those brands' ASINs
+    const auth = getRequestAuth(request)
+    let entries = data
+    if (auth && auth.brandIds !== null) {
+      const asinBrands = await service.getAsinBrands(
+        Array.from(new Set(data.filter(entry => entry.asin).map(entry => entry.asin!)))
+      )
+      entries = data.filter(entry => {
+        const entryBrandId = entry.brand_id || asinBrands.get(entry.asin!)
+        return !!entryBrandId && canAccessBrand(auth, entryBrandId)
+      })
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const name = `keyword-lists_${asin || brandId || 'all'}_${new Date().toISOString().split('T')[0]}`
+      return new Response(keywordListsToCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${name}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      entries,
+      total: entries.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching keyword lists:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch keyword lists',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = keywordListEntrySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid keyword list entry', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const entryData = validation.data
+    const auth = getRequestAuth(request)
+    if (auth && auth.brandIds !== null) {
+      const brandId = await new KeywordListService(supabase).getScopeBrandId(entryData)
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse('Keyword lists must belong to a brand or ASIN you have access to')
+      }
+    }
+
+    const { data: entry, error } = await supabase
+      .from('keyword_list_entries')
+      .insert({
+        ...entryData,
+        asin: entryData.asin || null,
+        brand_id: entryData.brand_id || null,
+        created_by: auth?.userId || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `"${entryData.keyword}" is already on a keyword list for this ${entryData.asin ? 'ASIN' : 'brand'}` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Keyword added to the ${entryData.list_type === 'watch' ? 'watchlist' : 'exclusion list'}`,
+      entry
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating keyword list entry:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create keyword list entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, PATCH } from '../route'
+
+const getJob = vi.fn()
+const getProgress = vi.fn()
+const applyAction = vi.fn()
+const runJob = vi.fn()
+
+vi.mock('@/services/bigquery-sync/backfill-service', async () => {
+  const actual = await vi.importActual<any>('@/services/bigquery-sync/backfill-service')
+  return {
+    canApplyAction: actual.canApplyAction,
+    BackfillService: vi.fn(() => ({ getJob, getProgress, applyAction, runJob }))
+  }
+})
+
+const patchRequest = (body: any) =>
+  new NextRequest('http://localhost:3000/api/refresh/backfill/4', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+describe('/api/refresh/backfill/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    runJob.mockResolvedValue({ status: 'completed' })
+  })
+
+  it('returns the progress grid', async () => {
+    getProgress.mockResolvedValue({ job: { id: 4 }, counts: { completed: 2 } })
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/refresh/backfill/4'), { params: { id: '4' } })
+
+    expect(response.status).toBe(200)
+    expect(getProgress).toHaveBeenCalledWith(4)
+  })
+
+  it('returns 404 for unknown jobs', async () => {
+    getProgress.mockResolvedValue(null)
+    getJob.mockResolvedValue(null)
+
+    const get = await GET(new NextRequest('http://localhost:3000/api/refresh/backfill/9'), { params: { id: '9' } })
+    const patch = await PATCH(patchRequest({ action: 'pause' }), { params: { id: '9' } })
+
+    expect(get.status).toBe(404)
+    expect(patch.status).toBe(404)
+  })
+
+  it('resumes a paused job and starts running it again', async () => {
+    getJob.mockResolvedValue({ id: 4, status: 'paused' })
+    getProgress.mockResolvedValue({ job: { id: 4, status: 'running' } })
+
+    const response = await PATCH(patchRequest({ action: 'resume' }), { params: { id: '4' } })
+
+    expect(response.status).toBe(200)
+    expect(applyAction).toHaveBeenCalledWith(4, 'resume')
+    expect(runJob).toHaveBeenCalledWith(4)
+    expect((await response.json()).job.status).toBe('running')
+  })
+
+  it('pauses without starting a run', async () => {
+    getJob.mockResolvedValue({ id: 4, status: 'running' })
+    getProgress.mockResolvedValue({ job: { id: 4, status: 'paused' } })
+
+    await PATCH(patchRequest({ action: 'pause' }), { params: { id: '4' } })
+
+    expect(applyAction).toHaveBeenCalledWith(4, 'pause')
+    expect(runJob).not.toHaveBeenCalled()
+  })
+
+  it('refuses actions that do not apply to the job state', async () => {
+    getJob.mockResolvedValue({ id: 4, status: 'completed' })
+
+    const response = await PATCH(patchRequest({ action: 'cancel' }), { params: { id: '4' } })
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toEqual({ error: 'Cannot cancel a completed backfill' })
+    expect(applyAction).not.toHaveBeenCalled()
+  })
+
+  it('validates the id and action', async () => {
+    const badId = await PATCH(patchRequest({ action: 'pause' }), { params: { id: 'abc' } })
+    const badAction = await PATCH(patchRequest({ action: 'restart' }), { params: { id: '4' } })
+
+    expect(badId.status).toBe(400)
+    expect(badAction.status).toBe(400)
+    expect(getJob).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const actionSchema = z.object({
+  action: z.enum(['pause', 'resume', 'cancel'])
+})
+
+function parseJobId(id: string): number | null {
+  const jobId = Number(id)
+  return Number.isInteger(jobId) && jobId > 0 ? jobId : null
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const jobId = parseJobId(params.id)
+    if (!jobId) {
+      return NextResponse.json({ error: 'Invalid backfill job id' }, { status: 400 })
+    }
+
+    const { BackfillService } = await import('@/services/bigquery-sync/backfill-service')
+    const progress = await new BackfillService().getProgress(jobId)
+    if (!progress) {
+      return NextResponse.json({ error: 'Backfill job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(progress)
+  } catch (error) {
+    console.error('Failed to load backfill job:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load backfill job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const jobId = parseJobId(params.id)
+    if (!jobId) {
+      return NextResponse.json({ error: 'Invalid backfill job id' }, { status: 400 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = actionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { action } = validation.data
+    const { BackfillService, canApplyAction } = await import('@/services/bigquery-sync/backfill-service')
+    const service = new BackfillService()
+
+    const job = await service.getJob(jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'Backfill job not found' }, { status: 404 })
+    }
+    if (!canApplyAction(job.status, action)) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a ${job.status} backfill` },
+        { status: 409 }
+      )
+    }
+
+    await service.applyAction(jobId, action)
+
+    if (action === 'resume') {
+      service.runJob(jobId).catch(error => {
+        console.error(`Backfill job ${jobId} stopped:`, error)
+      })
+    }
+
+    return NextResponse.json(await service.getProgress(jobId))
+  } catch (error) {
+    console.error('Failed to update backfill job:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update backfill job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
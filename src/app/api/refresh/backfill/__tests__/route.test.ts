@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+
+const listJobs = vi.fn()
+const createJob = vi.fn()
+const runJob = vi.fn()
+
+vi.mock('@/services/bigquery-sync/backfill-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/bigquery-sync/backfill-service')>()),
+  BackfillService: vi.fn(() => ({ listJobs, createJob, runJob }))
+}))
+
+const postRequest = (body: any, headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost:3000/api/refresh/backfill', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  })
+
+describe('/api/refresh/backfill', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    runJob.mockResolvedValue({ status: 'completed' })
+  })
+
+  it('lists recent jobs with their progress', async () => {
+    listJobs.mockResolvedValue([{ job: { id: 3, status: 'running' } }])
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/refresh/backfill?limit=5'))
+
+    expect(response.status).toBe(200)
+    expect(listJobs).toHaveBeenCalledWith(5)
+    expect((await response.json()).jobs[0].job.id).toBe(3)
+  })
+
+  it('creates a job and starts running it', async () => {
+    createJob.mockResolvedValue({ job: { id: 7, status: 'running' }, weeks: [], tables: [], cells: {} })
+
+    const response = await POST(postRequest({
+      start_date: '2024-01-01',
+      end_date: '2024-12-31',
+      tables: ['search_query_performance'],
+      max_concurrency: 4,
+      created_by: 'someone-else'
+    }, { 'x-sqp-user-id': 'user-1', 'x-sqp-role': 'admin' }))
+
+    expect(response.status).toBe(201)
+    expect(createJob).toHaveBeenCalledWith({
+      start_date: '2024-01-01',
+      end_date: '2024-12-31',
+      tables: ['search_query_performance'],
+      max_concurrency: 4,
+      created_by: 'user-1'
+    })
+    expect(runJob).toHaveBeenCalledWith(7)
+  })
+
+  it('rejects unknown tables, inverted ranges and oversized ranges', async () => {
+    const unknownTable = await POST(postRequest({ start_date: '2024-01-01', end_date: '2024-02-01', tables: ['brands'] }))
+    const inverted = await POST(postRequest({ start_date: '2024-02-01', end_date: '2024-01-01', tables: ['asin_performance_data'] }))
+    const oversized = await POST(postRequest({ start_date: '2015-01-01', end_date: '2024-01-01', tables: ['asin_performance_data'] }))
+
+    expect(unknownTable.status).toBe(400)
+    expect((await unknownTable.json()).error).toBe('Invalid request parameters')
+    expect(inverted.status).toBe(400)
+    expect(oversized.status).toBe(400)
+    expect((await oversized.json()).error).toBe('Date range cannot exceed 260 weeks')
+    expect(createJob).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid JSON', async () => {
+    const response = await POST(new NextRequest('http://localhost:3000/api/refresh/backfill', {
+      method: 'POST',
+      body: 'not json'
+    }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'Invalid JSON in request body' })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestAuth } from '@/lib/auth/request-context'
+import { BACKFILL_TABLES, BackfillService } from '@/services/bigquery-sync/backfill-service'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Five years of weekly chunks per table
+const MAX_WEEKS = 260
+
+const createSchema = z.object({
+  start_date: z.string().regex(DATE_PATTERN, 'start_date must be YYYY-MM-DD'),
+  end_date: z.string().regex(DATE_PATTERN, 'end_date must be YYYY-MM-DD'),
+  tables: z.array(z.enum(BACKFILL_TABLES)).min(1, 'At least one table is required'),
+  max_concurrency: z.number().int().min(1).max(8).optional(),
+  max_attempts: z.number().int().min(1).max(10).optional()
+})
+
+const weeksBetween = (start: string, end: string) =>
+  Math.ceil(((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000) + 1) / 7)
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+
+    const jobs = await new BackfillService().listJobs(limit)
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Failed to list backfill jobs:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to list backfill jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = createSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { start_date, end_date } = validation.data
+    if (start_date > end_date) {
+      return NextResponse.json({ error: 'start_date must be on or before end_date' }, { status: 400 })
+    }
+    if (weeksBetween(start_date, end_date) > MAX_WEEKS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_WEEKS} weeks` },
+        { status: 400 }
+      )
+    }
+
+    const service = new BackfillService()
+    const progress = await service.createJob({
+      ...validation.data,
+      created_by: getRequestAuth(request)?.userId || null
+    })
+
+    // Start straight away; chunks left over if this process stops are picked up
+    // by the backfill worker
+    service.runJob(progress.job.id).catch(error => {
+      console.error(`Backfill job ${progress.job.id} stopped:`, error)
+    })
+
+    return NextResponse.json(progress, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create backfill job:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create backfill job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -317,4 +317,144 @@ describe('Refresh Configuration API', () => {
       expect(data.error).toBe('No fields to update')
     })
   })
+
+  describe('PUT /api/refresh/config dependency validation', () => {
+    const configs = [
+      { id: 1, table_schema: 'sqp', table_name: 'asin_performance_data', priority: 90, dependencies: [], refresh_frequency_hours: 24 },
+      { id: 2, table_schema: 'sqp', table_name: 'weekly_summary', priority: 50, dependencies: ['asin_performance_data'], refresh_frequency_hours: 24 },
+      { id: 3, table_schema: 'sqp', table_name: 'monthly_summary', priority: 40, dependencies: [], refresh_frequency_hours: 24 }
+    ]
+    const update = vi.fn()
+
+    beforeEach(() => {
+      update.mockReset()
+      mockSupabase.from.mockImplementation((table: string) => {
+        if (table === 'refresh_dependencies') {
+          return {
+            select: vi.fn().mockResolvedValue({
+              data: [{ parent_config_id: 2, dependent_config_id: 3, dependency_type: 'hard' }],
+              error: null
+            })
+          }
+        }
+        const allConfigs = Promise.resolve({ data: configs, error: null })
+        return {
+          select: vi.fn(() => ({
+            eq: vi.fn((_column: string, id: number) => ({
+              single: vi.fn().mockResolvedValue({ data: configs.find(c => c.id === id), error: null })
+            })),
+            then: allConfigs.then.bind(allConfigs)
+          })),
+          update: update.mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({ data: configs[0], error: null })
+              })
+            })
+          })
+        }
+      })
+    })
+
+    const put = (body: any) => PUT(new NextRequest('http://localhost:3000/api/refresh/config', {
+      method: 'PUT',
+      body: JSON.stringify(body)
+    }))
+
+    it('should reject dependencies that would create a cycle', async () => {
+      const response = await put({ id: 1, dependencies: ['monthly_summary'] })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.cycle).toEqual(['asin_performance_data', 'weekly_summary', 'monthly_summary', 'asin_performance_data'])
+      expect(update).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown and self dependencies', async () => {
+      const unknown = await put({ id: 3, dependencies: ['missing_table'] })
+      expect(unknown.status).toBe(400)
+      expect((await unknown.json()).error).toBe('Invalid dependencies: unknown tables missing_table')
+
+      const self = await put({ id: 3, dependencies: ['monthly_summary'] })
+      expect(self.status).toBe(400)
+      expect((await self.json()).error).toBe('Invalid dependencies: a table cannot depend on itself')
+    })
+
+    it('should save acyclic dependencies', async () => {
+      const response = await put({ id: 3, dependencies: ['asin_performance_data'] })
+
+      expect(response.status).toBe(200)
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ dependencies: ['asin_performance_data'] }))
+    })
+  })
+
+  describe('PUT /api/refresh/config schedules', () => {
+    const configs = [
+      { id: 1, table_name: 'asin_performance_data', refresh_frequency_hours: 24, last_refresh_at: null, run_after_tables: [] },
+      { id: 2, table_name: 'weekly_summary', refresh_frequency_hours: 24, last_refresh_at: null, run_after_tables: ['asin_performance_data'] }
+    ]
+    const update = vi.fn()
+
+    beforeEach(() => {
+      update.mockReset()
+      mockSupabase.from.mockImplementation(() => {
+        const allConfigs = Promise.resolve({ data: configs, error: null })
+        return {
+          select: vi.fn(() => ({
+            eq: vi.fn((_column: string, id: number) => ({
+              single: vi.fn().mockResolvedValue({ data: configs.find(c => c.id === id), error: null })
+            })),
+            then: allConfigs.then.bind(allConfigs)
+          })),
+          update: update.mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({ data: configs[0], error: null })
+              })
+            })
+          })
+        }
+      })
+    })
+
+    const put = (body: any) => PUT(new NextRequest('http://localhost:3000/api/refresh/config', {
+      method: 'PUT',
+      body: JSON.stringify(body)
+    }))
+
+    it('should save a cron schedule and compute the next run', async () => {
+      const response = await put({
+        id: 1,
+        schedule_cron: '0 6 * * *',
+        schedule_timezone: 'America/Los_Angeles',
+        blackout_windows: [{ days: [0], start: '00:00', end: '12:00' }]
+      })
+
+      expect(response.status).toBe(200)
+      const saved = update.mock.calls[0][0]
+      expect(saved.schedule_cron).toBe('0 6 * * *')
+      expect(new Date(saved.next_refresh_at).getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('should reject invalid schedules', async () => {
+      const response = await put({ id: 1, schedule_cron: 'every day', schedule_timezone: 'Nowhere/City' })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid schedule')
+      expect(data.details[0]).toBe('Unknown timezone: Nowhere/City')
+      expect(data.details[1]).toMatch(/^Invalid cron expression/)
+      expect(update).not.toHaveBeenCalled()
+    })
+
+    it('should reject run_after_tables that trigger each other', async () => {
+      const loop = await put({ id: 1, run_after_tables: ['weekly_summary'] })
+      expect(loop.status).toBe(400)
+      expect((await loop.json()).cycle).toEqual(['asin_performance_data', 'weekly_summary', 'asin_performance_data'])
+
+      const unknown = await put({ id: 1, run_after_tables: ['missing_table'] })
+      expect((await unknown.json()).error).toBe('Invalid run_after_tables: unknown tables missing_table')
+      expect(update).not.toHaveBeenCalled()
+    })
+  })
 })
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { buildDependencyEdges, findDependencyCycle, planRefreshWaves } from '@/lib/refresh/dependency-graph'
+import { nextRunAt, scheduleFromConfig, validateSchedule } from '@/lib/refresh/schedule'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -12,9 +14,102 @@ const updateConfigSchema = z.object({
   refresh_frequency_hours: z.number().min(1).max(168).optional(), // 1 hour to 7 days
   priority: z.number().min(0).max(1000).optional(),
   custom_sync_params: z.record(z.string(), z.any()).optional(),
-  dependencies: z.array(z.string()).optional()
+  dependencies: z.array(z.string()).optional(),
+  schedule_cron: z.string().trim().min(1).nullable().optional(),
+  schedule_timezone: z.string().min(1).optional(),
+  blackout_windows: z.array(z.object({
+    days: z.array(z.number().int()).optional(),
+    start: z.string(),
+    end: z.string()
+  })).optional(),
+  run_after_tables: z.array(z.string()).optional()
 })
 
+const SCHEDULE_FIELDS = ['refresh_frequency_hours', 'schedule_cron', 'schedule_timezone', 'blackout_windows'] as const
+
+// Rejects unknown tables, self references and changes that would close a dependency cycle
+async function validateDependencies(
+  supabase: SupabaseClient,
+  config: any,
+  dependencies: string[]
+): Promise<{ error: string; cycle?: string[] } | null> {
+  if (dependencies.includes(config.table_name)) {
+    return { error: 'Invalid dependencies: a table cannot depend on itself' }
+  }
+
+  const { data: configs, error: configsError } = await supabase
+    .from('refresh_config')
+    .select('id, table_schema, table_name, priority, dependencies')
+
+  if (configsError) {
+    throw new Error(configsError.message)
+  }
+
+  const { data: dependencyRows, error: dependencyError } = await supabase
+    .from('refresh_dependencies')
+    .select('parent_config_id, dependent_config_id, dependency_type')
+
+  if (dependencyError) {
+    throw new Error(dependencyError.message)
+  }
+
+  const known = new Set((configs || []).map((c: any) => c.table_name))
+  const unknown = dependencies.filter(dep => !known.has(dep))
+  if (unknown.length > 0) {
+    return { error: `Invalid dependencies: unknown tables ${unknown.join(', ')}` }
+  }
+
+  // Check the graph as it would be after saving
+  const proposed = (configs || []).map((c: any) => (c.id === config.id ? { ...c, dependencies } : c))
+  const cycle = findDependencyCycle(
+    proposed.map((c: any) => c.table_name),
+    buildDependencyEdges(proposed, (dependencyRows || []) as any[])
+  )
+  if (cycle) {
+    return { error: `Invalid dependencies: cycle ${cycle.join(' -> ')}`, cycle }
+  }
+
+  return null
+}
+
+// Rejects unknown tables, self references and triggers that would fire each other in a loop
+async function validateRunAfterTables(
+  supabase: SupabaseClient,
+  config: any,
+  runAfterTables: string[]
+): Promise<{ error: string; cycle?: string[] } | null> {
+  if (runAfterTables.includes(config.table_name)) {
+    return { error: 'Invalid run_after_tables: a table cannot trigger itself' }
+  }
+
+  const { data: configs, error } = await supabase
+    .from('refresh_config')
+    .select('id, table_name, run_after_tables')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const known = new Set((configs || []).map((c: any) => c.table_name))
+  const unknown = runAfterTables.filter(table => !known.has(table))
+  if (unknown.length > 0) {
+    return { error: `Invalid run_after_tables: unknown tables ${unknown.join(', ')}` }
+  }
+
+  const proposed = (configs || []).map((c: any) =>
+    c.id === config.id ? { ...c, run_after_tables: runAfterTables } : c
+  )
+  const edges = proposed.flatMap((c: any) =>
+    (c.run_after_tables || []).map((parent: string) => ({ parent, child: c.table_name, type: 'soft' as const }))
+  )
+  const cycle = findDependencyCycle(proposed.map((c: any) => c.table_name), edges)
+  if (cycle) {
+    return { error: `Invalid run_after_tables: trigger loop ${cycle.join(' -> ')}`, cycle }
+  }
+
+  return null
+}
+
 export async function GET() {
   try {
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
@@ -29,6 +124,14 @@ export async function GET() {
       throw new Error(error.message)
     }
 
+    const { data: dependencyRows, error: dependencyError } = await supabase
+      .from('refresh_dependencies')
+      .select('parent_config_id, dependent_config_id, dependency_type')
+
+    if (dependencyError) {
+      throw new Error(dependencyError.message)
+    }
+
     // Process configurations
     const processedConfigs = configurations?.map(config => ({
       id: config.id,
@@ -40,6 +143,10 @@ export async function GET() {
       function_name: config.function_name,
       dependencies: config.dependencies || [],
       custom_sync_params: config.custom_sync_params || {},
+      schedule_cron: config.schedule_cron || null,
+      schedule_timezone: config.schedule_timezone || 'UTC',
+      blackout_windows: config.blackout_windows || [],
+      run_after_tables: config.run_after_tables || [],
       last_refresh: config.last_refresh_at,
       next_refresh: config.next_refresh_at,
       created_at: config.created_at,
@@ -65,9 +172,19 @@ export async function GET() {
       summary.lowest_priority_table = processedConfigs[processedConfigs.length - 1].table_name
     }
 
+    // Refresh order as the orchestrator would plan it if every table were due
+    const edges = buildDependencyEdges(configurations || [], dependencyRows || [])
+    const tableNames = processedConfigs.map(c => c.table_name)
+    const cycle = findDependencyCycle(tableNames, edges)
+
     return NextResponse.json({
       configurations: processedConfigs,
-      summary
+      summary,
+      dependency_graph: {
+        edges,
+        waves: cycle ? [] : planRefreshWaves(configurations || [], edges),
+        cycle
+      }
     })
 
   } catch (error) {
@@ -142,8 +259,6 @@ export async function PUT(request: NextRequest) {
     }
 
     if (updates.dependencies) {
-      // Could add validation to ensure dependencies exist
-      // For now, just ensure it's an array of strings
       if (!Array.isArray(updates.dependencies) || 
           !updates.dependencies.every((dep: any) => typeof dep === 'string')) {
         return NextResponse.json(
@@ -167,13 +282,49 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // Update next_refresh_at if frequency changes
-    if (updates.refresh_frequency_hours && 
-        updates.refresh_frequency_hours !== currentConfig.refresh_frequency_hours &&
-        currentConfig.last_refresh_at) {
-      const lastRefresh = new Date(currentConfig.last_refresh_at)
-      const nextRefresh = new Date(lastRefresh.getTime() + updates.refresh_frequency_hours * 60 * 60 * 1000)
-      updates.next_refresh_at = nextRefresh.toISOString() as any
+    if (updates.dependencies) {
+      const dependencyError = await validateDependencies(supabase, currentConfig, updates.dependencies)
+      if (dependencyError) {
+        return NextResponse.json(dependencyError, { status: 400 })
+      }
+    }
+
+    if (updates.run_after_tables) {
+      const triggerError = await validateRunAfterTables(supabase, currentConfig, updates.run_after_tables)
+      if (triggerError) {
+        return NextResponse.json(triggerError, { status: 400 })
+      }
+    }
+
+    const scheduleChanged = SCHEDULE_FIELDS.some(field =>
+      updates[field] !== undefined &&
+      JSON.stringify(updates[field]) !== JSON.stringify(currentConfig[field])
+    )
+
+    if (scheduleChanged) {
+      const schedule = scheduleFromConfig({ ...currentConfig, ...updates })
+      const scheduleErrors = validateSchedule(schedule)
+      if (scheduleErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid schedule', details: scheduleErrors },
+          { status: 400 }
+        )
+      }
+
+      // Cron schedules run at fixed times; interval schedules count from the last refresh
+      const from = schedule.cron
+        ? new Date()
+        : currentConfig.last_refresh_at ? new Date(currentConfig.last_refresh_at) : null
+      if (from) {
+        const nextRefresh = nextRunAt(schedule, from)
+        if (!nextRefresh) {
+          return NextResponse.json(
+            { error: 'Invalid schedule', details: ['Every scheduled run falls inside a blackout window'] },
+            { status: 400 }
+          )
+        }
+        updates.next_refresh_at = nextRefresh.toISOString() as any
+      }
     }
 
     // Add updated_at timestamp
@@ -204,6 +355,10 @@ export async function PUT(request: NextRequest) {
         function_name: updatedConfig.function_name,
         dependencies: updatedConfig.dependencies || [],
         custom_sync_params: updatedConfig.custom_sync_params || {},
+        schedule_cron: updatedConfig.schedule_cron || null,
+        schedule_timezone: updatedConfig.schedule_timezone || 'UTC',
+        blackout_windows: updatedConfig.blackout_windows || [],
+        run_after_tables: updatedConfig.run_after_tables || [],
         last_refresh: updatedConfig.last_refresh_at,
         next_refresh: updatedConfig.next_refresh_at,
         updated_at: updatedConfig.updated_at
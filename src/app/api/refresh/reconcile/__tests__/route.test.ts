@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+
+const reconcile = vi.fn()
+const resync = vi.fn()
+
+vi.mock('@/services/bigquery-sync/reconciliation-service', () => ({
+  ReconciliationService: vi.fn(() => ({ reconcile, resync }))
+}))
+
+vi.mock('@/services/alerts/alert-rules-service', () => ({
+  alertRulesService: { evaluateAfterRefresh: vi.fn() }
+}))
+
+const postRequest = (body: any) =>
+  new NextRequest('http://localhost:3000/api/refresh/reconcile', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+describe('/api/refresh/reconcile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET', () => {
+    it('returns the report for the requested range and ASINs', async () => {
+      reconcile.mockResolvedValue({ summary: { slices: 2, mismatched_slices: 1, mismatched_weeks: ['2025-09-07'] } })
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/refresh/reconcile?start=2025-08-31&end=2025-09-13&asins=B0CXYZ1234,B0CXYZ5678'
+      ))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(reconcile).toHaveBeenCalledWith({ start: '2025-08-31', end: '2025-09-13', asins: ['B0CXYZ1234', 'B0CXYZ5678'] })
+      expect(data.summary.mismatched_weeks).toEqual(['2025-09-07'])
+    })
+
+    it('rejects inverted and oversized ranges', async () => {
+      const inverted = await GET(new NextRequest('http://localhost:3000/api/refresh/reconcile?start=2025-09-13&end=2025-08-31'))
+      const oversized = await GET(new NextRequest('http://localhost:3000/api/refresh/reconcile?start=2025-01-01&end=2025-09-13'))
+
+      expect(inverted.status).toBe(400)
+      expect(oversized.status).toBe(400)
+      expect((await oversized.json()).error).toBe('Date range cannot exceed 92 days')
+      expect(reconcile).not.toHaveBeenCalled()
+    })
+
+    it('reports failures from either side', async () => {
+      reconcile.mockRejectedValue(new Error('BigQuery quota exceeded'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/refresh/reconcile?start=2025-08-31&end=2025-09-13'))
+
+      expect(response.status).toBe(500)
+      expect(await response.json()).toEqual({
+        error: 'Failed to reconcile BigQuery and Supabase',
+        details: 'BigQuery quota exceeded'
+      })
+    })
+  })
+
+  describe('POST', () => {
+    it('resyncs the given slices', async () => {
+      resync.mockResolvedValue([
+        {
+          week_start: '2025-09-07',
+          week_end: '2025-09-13',
+          asins: ['B0CXYZ1234'],
+          result: { success: true, table: 'search_query_performance', rowsProcessed: 12, duration: 5 }
+        }
+      ])
+
+      const response = await POST(postRequest({ slices: [{ week_start: '2025-09-07', asin: 'B0CXYZ1234' }] }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(resync).toHaveBeenCalledWith([{ week_start: '2025-09-07', asin: 'B0CXYZ1234' }])
+      expect(data).toMatchObject({
+        success: true,
+        message: 'Resynced 1 slices across 1 weeks',
+        results: [{ week_start: '2025-09-07', success: true, rowsProcessed: 12 }]
+      })
+    })
+
+    it('returns 207 when some weeks fail', async () => {
+      resync.mockResolvedValue([
+        { week_start: '2025-08-31', week_end: '2025-09-06', asins: ['B0CXYZ1234'], result: { success: true, rowsProcessed: 3 } },
+        { week_start: '2025-09-07', week_end: '2025-09-13', asins: ['B0CXYZ1234'], result: { success: false, rowsProcessed: 0, error: 'timeout' } }
+      ])
+
+      const response = await POST(postRequest({
+        slices: [
+          { week_start: '2025-08-31', asin: 'B0CXYZ1234' },
+          { week_start: '2025-09-07', asin: 'B0CXYZ1234' }
+        ]
+      }))
+
+      expect(response.status).toBe(207)
+      expect((await response.json()).message).toBe('1 of 2 weeks failed to resync')
+    })
+
+    it('validates the slices', async () => {
+      const empty = await POST(postRequest({ slices: [] }))
+      const badAsin = await POST(postRequest({ slices: [{ week_start: '2025-09-07', asin: "B0'; DROP" }] }))
+
+      expect(empty.status).toBe(400)
+      expect(badAsin.status).toBe(400)
+      expect(resync).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
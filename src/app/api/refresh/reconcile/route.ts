@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { alertRulesService } from '@/services/alerts/alert-rules-service'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const ASIN_PATTERN = /^[A-Za-z0-9]{10}$/
+
+// Reports default to the last four weeks
+const DEFAULT_RANGE_DAYS = 28
+// Keeps one report within what a single request can page through
+const MAX_RANGE_DAYS = 92
+
+const reportSchema = z.object({
+  start: z.string().regex(DATE_PATTERN, 'start must be YYYY-MM-DD'),
+  end: z.string().regex(DATE_PATTERN, 'end must be YYYY-MM-DD'),
+  asins: z.array(z.string().regex(ASIN_PATTERN, 'Invalid ASIN')).optional()
+})
+
+const resyncSchema = z.object({
+  slices: z.array(z.object({
+    week_start: z.string().regex(DATE_PATTERN, 'week_start must be YYYY-MM-DD'),
+    asin: z.string().regex(ASIN_PATTERN, 'Invalid ASIN')
+  })).min(1, 'At least one slice is required').max(500)
+})
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000))
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const today = new Date().toISOString().split('T')[0]
+    const defaultStart = new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    const asins = searchParams.get('asins')
+
+    const validation = reportSchema.safeParse({
+      start: searchParams.get('start') || defaultStart,
+      end: searchParams.get('end') || today,
+      asins: asins ? asins.split(',').map(asin => asin.trim()).filter(Boolean) : undefined
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { start, end } = validation.data
+    if (start > end) {
+      return NextResponse.json({ error: 'start must be on or before end' }, { status: 400 })
+    }
+    if (daysBetween(start, end) >= MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const { ReconciliationService } = await import('@/services/bigquery-sync/reconciliation-service')
+    const report = await new ReconciliationService().reconcile(validation.data)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Reconciliation failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile BigQuery and Supabase',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = resyncSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { ReconciliationService } = await import('@/services/bigquery-sync/reconciliation-service')
+    const results = await new ReconciliationService().resync(validation.data.slices)
+
+    const failed = results.filter(({ result }) => !result.success)
+    if (failed.length < results.length) {
+      await alertRulesService.evaluateAfterRefresh('refresh.reconcile')
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? `Resynced ${validation.data.slices.length} slices across ${results.length} weeks`
+        : `${failed.length} of ${results.length} weeks failed to resync`,
+      results: results.map(({ week_start, week_end, asins, result }) => ({
+        week_start,
+        week_end,
+        asins,
+        success: result.success,
+        rowsProcessed: result.rowsProcessed,
+        error: result.error
+      }))
+    }, { status: failed.length === 0 ? 200 : 207 })
+  } catch (error) {
+    console.error('Targeted resync failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to resync slices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -513,6 +513,28 @@ describe('GET /api/refresh/status', () => {
             })
           }
         }
+        if (table === 'refresh_dependencies') {
+          return {
+            select: vi.fn().mockResolvedValue({
+              data: [],
+              error: null
+            })
+          }
+        }
+        if (table === 'refresh_data_quality') {
+          return {
+            select: vi.fn().mockReturnValue({
+              gte: vi.fn().mockReturnValue({
+                order: vi.fn().mockReturnValue({
+                  limit: vi.fn().mockResolvedValue({
+                    data: [],
+                    error: null
+                  })
+                })
+              })
+            })
+          }
+        }
       })
 
       const response = await GET()
@@ -893,4 +915,153 @@ describe('GET /api/refresh/status', () => {
       expect(data.alert_summary.info).toBeGreaterThanOrEqual(0)
     })
   })
+
+  describe('Dependency Graph', () => {
+    it('should place tables in waves and report the latest orchestration run', async () => {
+      const mockConfigs = [
+        { id: 1, table_name: 'asin_performance_data', table_schema: 'sqp', is_enabled: true, priority: 90, refresh_frequency_hours: 24, dependencies: [] },
+        { id: 2, table_name: 'search_query_performance', table_schema: 'sqp', is_enabled: true, priority: 95, refresh_frequency_hours: 24, dependencies: [] },
+        { id: 3, table_name: 'weekly_summary', table_schema: 'sqp', is_enabled: true, priority: 50, refresh_frequency_hours: 24, dependencies: ['asin_performance_data'] }
+      ]
+      const run = (wave: number) => ({ orchestration_run_id: 'run-1', wave, total_waves: 2 })
+      const mockRecentLogs = [
+        { id: 3, table_name: 'weekly_summary', table_schema: 'sqp', status: 'skipped', error_message: 'Skipped: hard dependency asin_performance_data failed', refresh_started_at: new Date().toISOString(), sync_metadata: run(2) },
+        { id: 2, table_name: 'asin_performance_data', table_schema: 'sqp', status: 'failed', refresh_started_at: new Date().toISOString(), sync_metadata: run(1) },
+        { id: 1, table_name: 'search_query_performance', table_schema: 'sqp', status: 'running', refresh_started_at: new Date().toISOString(), sync_metadata: run(1) }
+      ]
+
+      mockSupabase.from.mockImplementation((table: string) => {
+        if (table === 'refresh_config') {
+          return {
+            select: vi.fn().mockReturnValue({
+              order: vi.fn().mockResolvedValue({ data: mockConfigs, error: null })
+            })
+          }
+        }
+        if (table === 'refresh_dependencies') {
+          return {
+            select: vi.fn().mockResolvedValue({
+              data: [{ parent_config_id: 2, dependent_config_id: 3, dependency_type: 'soft' }],
+              error: null
+            })
+          }
+        }
+        return {
+          select: vi.fn().mockReturnValue({
+            gte: vi.fn().mockReturnValue({
+              order: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({
+                  data: table === 'refresh_audit_log' ? mockRecentLogs : [],
+                  error: null
+                })
+              })
+            })
+          })
+        }
+      })
+
+      const response = await GET()
+      const data = await response.json()
+      const graph = data.dependency_graph
+
+      expect(response.status).toBe(200)
+      expect(graph.cycle).toBeNull()
+      expect(graph.waves).toEqual([['search_query_performance', 'asin_performance_data'], ['weekly_summary']])
+
+      const summary = graph.nodes.find((node: any) => node.table_name === 'weekly_summary')
+      expect(summary).toMatchObject({
+        wave: 2,
+        status: 'skipped',
+        skip_reason: 'Skipped: hard dependency asin_performance_data failed'
+      })
+      expect(summary.depends_on).toEqual([
+        { table_name: 'search_query_performance', type: 'soft' },
+        { table_name: 'asin_performance_data', type: 'hard' }
+      ])
+
+      expect(graph.current_run).toMatchObject({
+        id: 'run-1',
+        total_waves: 2,
+        current_wave: 1,
+        is_active: true,
+        running: ['search_query_performance'],
+        failed: 1,
+        skipped: 1
+      })
+    })
+  })
+
+  describe('Data Quality', () => {
+    it('should summarize the latest checks per table and alert on breaches', async () => {
+      const checkedAt = new Date().toISOString()
+      const check = (audit_log_id: number, metric_name: string, metric_value: string, is_within_threshold: boolean) => ({
+        audit_log_id,
+        metric_name,
+        metric_value,
+        expected_value: '0',
+        threshold_min: null,
+        threshold_max: '0',
+        is_within_threshold,
+        created_at: checkedAt
+      })
+      const mockChecks = [
+        check(12, 'duplicate_keys:asin,start_date,search_query', '3', false),
+        check(12, 'count_within_total:asin_click_count', '0', true),
+        check(11, 'duplicate_keys:asin,start_date,end_date', '0', true),
+        // Older run of a table with a newer result above
+        check(5, 'duplicate_keys:asin,start_date,search_query', '0', true)
+      ]
+      const auditLogs = [
+        { id: 12, table_name: 'search_query_performance' },
+        { id: 11, table_name: 'asin_performance_data' },
+        { id: 5, table_name: 'search_query_performance' }
+      ]
+
+      mockSupabase.from.mockImplementation((table: string) => {
+        if (table === 'refresh_config') {
+          return {
+            select: vi.fn().mockReturnValue({
+              order: vi.fn().mockResolvedValue({ data: [], error: null })
+            })
+          }
+        }
+        if (table === 'refresh_dependencies') {
+          return { select: vi.fn().mockResolvedValue({ data: [], error: null }) }
+        }
+        return {
+          select: vi.fn().mockReturnValue({
+            gte: vi.fn().mockReturnValue({
+              order: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({
+                  data: table === 'refresh_data_quality' ? mockChecks : [],
+                  error: null
+                })
+              })
+            }),
+            in: vi.fn().mockResolvedValue({ data: auditLogs, error: null })
+          })
+        }
+      })
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data_quality.breached_tables).toEqual(['search_query_performance'])
+      expect(data.data_quality.tables).toHaveLength(2)
+      expect(data.data_quality.tables[0]).toMatchObject({
+        table_name: 'search_query_performance',
+        audit_log_id: 12,
+        status: 'warning',
+        breached: 1
+      })
+      expect(data.data_quality.tables[0].checks[0]).toMatchObject({ metric_value: 3, threshold_max: 0, is_within_threshold: false })
+      expect(data.alerts).toContainEqual(expect.objectContaining({
+        id: 'data-quality-search_query_performance',
+        severity: 'warning',
+        type: 'data_quality',
+        message: 'search_query_performance failed 1 data quality check'
+      }))
+    })
+  })
 })
\ No newline at end of file
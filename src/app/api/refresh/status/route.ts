@@ -1,5 +1,11 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextResponse } from 'next/server'
+import {
+  buildDependencyEdges,
+  DependencyEdge,
+  findDependencyCycle,
+  planRefreshWaves
+} from '@/lib/refresh/dependency-graph'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -173,6 +179,93 @@ function generateAlerts(
   return alerts
 }
 
+// Refresh DAG with each table's latest status and the progress of the latest orchestration run
+function buildDependencyGraph(configs: any[], edges: DependencyEdge[], tables: any[], recentLogs: any[]) {
+  const cycle = findDependencyCycle(configs.map(config => config.table_name), edges)
+  const waves = cycle ? [] : planRefreshWaves(configs, edges)
+  const waveOf = new Map<string, number>()
+  waves.forEach((wave, index) => wave.forEach(table => waveOf.set(table, index + 1)))
+
+  // Logs are newest first, so the first one with a run id belongs to the latest run
+  const runId = recentLogs.find(log => log.sync_metadata?.orchestration_run_id)?.sync_metadata.orchestration_run_id
+  const runLogs = runId
+    ? recentLogs.filter(log => log.sync_metadata?.orchestration_run_id === runId)
+    : []
+  const runStatus = new Map<string, any>()
+  runLogs.forEach(log => {
+    if (!runStatus.has(log.table_name)) runStatus.set(log.table_name, log)
+  })
+
+  const nodes = tables.map(table => {
+    const runLog = runStatus.get(table.table_name)
+    return {
+      table_name: table.table_name,
+      schema: table.schema,
+      priority: table.priority,
+      enabled: table.enabled,
+      wave: waveOf.get(table.table_name) ?? null,
+      status: runLog ? runLog.status : table.status,
+      skip_reason: runLog?.status === 'skipped' ? runLog.error_message : null,
+      depends_on: edges
+        .filter(edge => edge.child === table.table_name)
+        .map(edge => ({ table_name: edge.parent, type: edge.type }))
+    }
+  })
+
+  const runWaves = runLogs.map(log => log.sync_metadata.wave as number)
+  const running = runLogs.filter(log => log.status === 'running')
+  const currentRun = runId ? {
+    id: runId,
+    started_at: runLogs[runLogs.length - 1].refresh_started_at,
+    total_waves: runLogs[0].sync_metadata.total_waves ?? null,
+    current_wave: running.length > 0
+      ? Math.min(...running.map(log => log.sync_metadata.wave as number))
+      : Math.max(...runWaves),
+    is_active: running.length > 0,
+    running: running.map(log => log.table_name),
+    completed: runLogs.filter(log => log.status === 'success' || log.status === 'warning').length,
+    failed: runLogs.filter(log => log.status === 'failed').length,
+    skipped: runLogs.filter(log => log.status === 'skipped').length
+  } : null
+
+  return { nodes, edges, waves, cycle, current_run: currentRun }
+}
+
+// Latest data quality run per table; checks come newest first
+function buildDataQualitySummary(checks: any[], auditLogs: any[]) {
+  const tableByAuditLog = new Map(auditLogs.map(log => [log.id, log.table_name]))
+  const latestRun = new Map<string, number>()
+  checks.forEach(check => {
+    const table = tableByAuditLog.get(check.audit_log_id)
+    if (table && !latestRun.has(table)) latestRun.set(table, check.audit_log_id)
+  })
+
+  const tables = Array.from(latestRun.entries()).map(([table_name, auditLogId]) => {
+    const runChecks = checks.filter(check => check.audit_log_id === auditLogId)
+    const breached = runChecks.filter(check => !check.is_within_threshold)
+    return {
+      table_name,
+      audit_log_id: auditLogId,
+      checked_at: runChecks[0].created_at,
+      status: breached.length > 0 ? 'warning' : 'passed',
+      breached: breached.length,
+      checks: runChecks.map(check => ({
+        metric_name: check.metric_name,
+        metric_value: check.metric_value === null ? null : Number(check.metric_value),
+        expected_value: check.expected_value === null ? null : Number(check.expected_value),
+        threshold_min: check.threshold_min === null ? null : Number(check.threshold_min),
+        threshold_max: check.threshold_max === null ? null : Number(check.threshold_max),
+        is_within_threshold: check.is_within_threshold
+      }))
+    }
+  })
+
+  return {
+    tables,
+    breached_tables: tables.filter(table => table.status === 'warning').map(table => table.table_name)
+  }
+}
+
 export async function GET() {
   try {
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
@@ -213,6 +306,44 @@ export async function GET() {
       // Don't throw, just log - sync_log might not exist in all environments
     }
 
+    const { data: dependencyRows, error: dependencyError } = await supabase
+      .from('refresh_dependencies')
+      .select('parent_config_id, dependent_config_id, dependency_type')
+
+    if (dependencyError) {
+      console.error('Error fetching refresh dependencies:', dependencyError)
+      // Don't throw - the graph falls back to the refresh_config dependencies column
+    }
+
+    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+    const { data: qualityChecks, error: qualityError } = await supabase
+      .from('refresh_data_quality')
+      .select('*')
+      .gte('created_at', sevenDaysAgo)
+      .order('created_at', { ascending: false })
+      .limit(500)
+
+    if (qualityError) {
+      console.error('Error fetching data quality checks:', qualityError)
+      // Don't throw - data quality results are supplementary
+    }
+
+    // Checks can outlive the 24 hour log window, so their tables are looked up separately
+    let qualityLogs: any[] = []
+    const qualityLogIds = Array.from(new Set((qualityChecks || []).map(check => check.audit_log_id)))
+    if (qualityLogIds.length > 0) {
+      const { data, error } = await supabase
+        .from('refresh_audit_log')
+        .select('id, table_name')
+        .in('id', qualityLogIds)
+
+      if (error) {
+        console.error('Error fetching data quality audit logs:', error)
+      }
+      qualityLogs = data || []
+    }
+    const dataQuality = buildDataQualitySummary(qualityChecks || [], qualityLogs)
+
     // Process configurations to determine status
     const now = new Date()
     const tables = configs?.map(config => {
@@ -348,6 +479,22 @@ export async function GET() {
 
     // Generate alerts based on current system state
     const alerts = generateAlerts(tables, stats, syncLogs || [], now)
+    dataQuality.tables
+      .filter(table => table.status === 'warning')
+      .forEach(table => {
+        alerts.push({
+          id: `data-quality-${table.table_name}`,
+          severity: 'warning',
+          type: 'data_quality',
+          message: `${table.table_name} failed ${table.breached} data quality check${table.breached === 1 ? '' : 's'}`,
+          table_name: table.table_name,
+          details: {
+            audit_log_id: table.audit_log_id,
+            metrics: table.checks.filter(check => !check.is_within_threshold).map(check => check.metric_name)
+          },
+          timestamp: table.checked_at
+        })
+      })
     
     // Update overall status if critical alerts exist
     const hasCriticalAlerts = alerts.some(a => a.severity === 'critical')
@@ -368,6 +515,13 @@ export async function GET() {
         warning: alerts.filter(a => a.severity === 'warning').length,
         info: alerts.filter(a => a.severity === 'info').length
       },
+      dependency_graph: buildDependencyGraph(
+        configs || [],
+        buildDependencyEdges(configs || [], dependencyRows || []),
+        tables,
+        recentLogs || []
+      ),
+      data_quality: dataQuality,
       last_updated: now.toISOString(),
       core_tables_reference: CORE_TABLES
     })
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { alertRulesService } from '@/services/alerts/alert-rules-service'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -8,7 +9,9 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 // Request validation schema
 const triggerSchema = z.object({
   table_name: z.string().optional(),
-  force: z.boolean().optional().default(false)
+  force: z.boolean().optional().default(false),
+  // Pull only rows past the table's sync watermark instead of a fixed date range
+  incremental: z.boolean().optional().default(true)
 })
 
 export async function POST(request: NextRequest) {
@@ -46,7 +49,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { table_name, force } = validation.data
+    const { table_name, force, incremental } = validation.data
 
     // If no table specified, trigger full refresh via BigQuery sync service
     if (!table_name) {
@@ -60,7 +63,8 @@ export async function POST(request: NextRequest) {
         
         for (const tableName of tables) {
           const result = await syncService.syncTable(tableName, {
-            tableSchema: 'sqp'
+            tableSchema: 'sqp',
+            incremental
           })
           results.push({
             table: tableName,
@@ -69,6 +73,10 @@ export async function POST(request: NextRequest) {
             error: result.error
           })
         }
+
+        if (results.some(result => result.success)) {
+          await alertRulesService.evaluateAfterRefresh('refresh.full')
+        }
         
         return NextResponse.json({
           success: true,
@@ -171,7 +179,8 @@ export async function POST(request: NextRequest) {
       const syncService = new BigQuerySyncService()
       
       refreshData = await syncService.syncTable(table_name, {
-        tableSchema: config.table_schema || 'sqp'
+        tableSchema: config.table_schema || 'sqp',
+        incremental
       })
       
       if (!refreshData.success) {
@@ -227,6 +236,8 @@ export async function POST(request: NextRequest) {
       })
       .eq('id', config.id)
 
+    await alertRulesService.evaluateAfterRefresh(`refresh.${table_name}`)
+
     return NextResponse.json({
       success: true,
       message: `BigQuery sync completed for table: ${table_name}${force ? ' (forced)' : ''}`,
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -10,7 +11,7 @@ const webhookSchema = z.object({
   name: z.string().min(1).max(100),
   url: z.string().url(),
   secret: z.string().optional(),
-  events: z.array(z.enum(['refresh.completed', 'refresh.failed', 'refresh.warning'])).min(1),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
   is_enabled: z.boolean().optional().default(true),
   headers: z.record(z.string(), z.string()).optional().default({}),
   retry_config: z.object({
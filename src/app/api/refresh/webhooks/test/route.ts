@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { buildSamplePayload, isWebhookEventType } from '@/lib/webhooks/events'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -46,6 +47,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!isWebhookEventType(event_type)) {
+      return NextResponse.json(
+        { error: `Unknown event type: ${event_type}` },
+        { status: 400 }
+      )
+    }
+
     // Get webhook configuration
     const { data: webhook, error: fetchError } = await supabase
       .from('webhook_configs')
@@ -76,25 +84,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Prepare test payload
+    // Prepare test payload from the event's documented sample
+    const sample = buildSamplePayload(event_type, { delivery_id: 'test-delivery-' + Date.now() })
     const testPayload = {
-      event: event_type,
-      data: {
-        test: true,
-        audit_log_id: 'test-' + Date.now(),
-        table_schema: 'sqp',
-        table_name: 'test_table',
-        status: event_type === 'refresh.failed' ? 'failed' : 'success',
-        refresh_type: 'test',
-        started_at: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-        completed_at: new Date().toISOString(),
-        duration_ms: 300000,
-        rows_processed: 1000,
-        error_message: event_type === 'refresh.failed' ? 'Test error message' : null,
-        function_name: 'test-function'
-      },
-      delivery_id: 'test-delivery-' + Date.now(),
-      timestamp: new Date().toISOString()
+      ...sample,
+      data: { test: true, ...sample.data }
     }
 
     const payload = JSON.stringify(testPayload)
@@ -105,6 +99,7 @@ export async function POST(request: NextRequest) {
       'User-Agent': 'Supabase-Webhook/1.0',
       'X-Webhook-Event': event_type,
       'X-Webhook-Delivery': 'test',
+      'X-Webhook-Version': String(testPayload.version),
       ...webhook.headers
     }
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { reportSectionRegistry } from '@/services/reports/sections/registry'
 
 export async function GET(
   request: NextRequest,
@@ -82,6 +83,16 @@ export async function PUT(
       ...updateData
     } = body
     
+    if (Array.isArray(updateData.config?.sections)) {
+      const sectionErrors = reportSectionRegistry.validate(updateData.config.sections)
+      if (sectionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid report sections', details: sectionErrors },
+          { status: 400 }
+        )
+      }
+    }
+    
     const { data, error } = await supabase
       .from('report_configurations')
       .update(updateData)
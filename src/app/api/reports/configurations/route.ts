@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { reportSectionRegistry } from '@/services/reports/sections/registry'
 
 export async function GET(request: NextRequest) {
   try {
@@ -103,6 +104,17 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Custom reports are built from registered section types
+    if (Array.isArray(config.sections)) {
+      const sectionErrors = reportSectionRegistry.validate(config.sections)
+      if (sectionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid report sections', details: sectionErrors },
+          { status: 400 }
+        )
+      }
+    }
+    
     // Validate frequency
     const validFrequencies = [
       'daily',
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { GET } from '../route'
+
+const runOnce = vi.fn()
+let authorization: string | null = null
+
+vi.mock('next/headers', () => ({
+  headers: () => new Headers(authorization ? { authorization } : {})
+}))
+
+vi.mock('@/services/reports/report-scheduler-service', () => ({
+  reportSchedulerService: { runOnce: (...args: any[]) => runOnce(...args) }
+}))
+
+const request = () => new Request('http://localhost:3000/api/reports/cron')
+
+describe('/api/reports/cron', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    runOnce.mockResolvedValue({ workerId: 'worker-1', enqueuedCount: 0, processed: [], timestamp: '2025-09-20T00:00:00Z' })
+    authorization = null
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('refuses to run when CRON_SECRET is not configured', async () => {
+    vi.stubEnv('CRON_SECRET', '')
+    authorization = 'Bearer '
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(500)
+    expect(runOnce).not.toHaveBeenCalled()
+  })
+
+  it('rejects callers without the cron secret', async () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    authorization = 'Bearer wrong'
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(401)
+    expect(runOnce).not.toHaveBeenCalled()
+  })
+
+  it('runs the scheduler with the cron secret', async () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    authorization = 'Bearer cron-secret'
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(200)
+    expect(runOnce).toHaveBeenCalledTimes(1)
+  })
+})
\ No newline at end of file
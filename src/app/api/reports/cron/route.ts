@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { reportSchedulerService } from '@/services/reports/report-scheduler-service'
+
+// This endpoint can be called by Railway cron or external services
+export async function GET(request: Request) {
+  try {
+    const headersList = headers()
+    const authHeader = headersList.get('authorization')
+
+    // Fails closed: without a configured secret nobody can trigger a run
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      console.error('CRON_SECRET is not configured; refusing cron report run')
+      return NextResponse.json(
+        { error: 'Cron secret is not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('Starting cron-triggered report run...')
+
+    const result = await reportSchedulerService.runOnce()
+
+    return NextResponse.json({
+      success: true,
+      message: 'Report scheduler run completed',
+      workerId: result.workerId,
+      enqueuedCount: result.enqueuedCount,
+      processed: result.processed,
+      stats: {
+        completed: result.processed.filter(p => p.status === 'completed').length,
+        retrying: result.processed.filter(p => p.status === 'retrying').length,
+        failed: result.processed.filter(p => p.status === 'failed').length
+      },
+      timestamp: result.timestamp
+    })
+  } catch (error: any) {
+    console.error('Cron report run failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Report scheduler failed',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: Request) {
+  return GET(request)
+}
\ No newline at end of file
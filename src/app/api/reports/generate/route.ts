@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { reportGenerationService } from '@/services/reports/report-generation-service'
+import { reportSchedulerService } from '@/services/reports/report-scheduler-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -96,125 +97,12 @@ export async function POST(request: NextRequest) {
 // Process queued reports
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createClient()
-    
-    // Check for pending reports in the queue
-    const { data: queuedReports, error: queueError } = await supabase
-      .from('report_queue')
-      .select('*, report_configurations(*)')
-      .eq('status', 'pending')
-      .lte('scheduled_for', new Date().toISOString())
-      .order('priority', { ascending: true })
-      .order('scheduled_for', { ascending: true })
-      .limit(5)
-
-    if (queueError) {
-      console.error('Error fetching queued reports:', queueError)
-      return NextResponse.json(
-        { error: 'Failed to fetch queued reports' },
-        { status: 500 }
-      )
-    }
-
-    const processed = []
-
-    for (const queueItem of queuedReports || []) {
-      try {
-        // Update queue status to processing
-        await supabase
-          .from('report_queue')
-          .update({ 
-            status: 'processing',
-            last_attempt_at: new Date().toISOString(),
-            attempts: queueItem.attempts + 1
-          })
-          .eq('id', queueItem.id)
-
-        // Create execution history entry
-        const { data: execution, error: execError } = await supabase
-          .from('report_execution_history')
-          .insert({
-            report_configuration_id: queueItem.report_configuration_id,
-            status: 'running',
-            started_at: new Date().toISOString()
-          })
-          .select()
-          .single()
-
-        if (execError) throw execError
-
-        // Generate the report
-        const startTime = Date.now()
-        const report = await reportGenerationService.generateReport(queueItem.report_configuration_id)
-        const executionTime = Date.now() - startTime
-
-        // Update execution history with success
-        await supabase
-          .from('report_execution_history')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            execution_time_ms: executionTime
-          })
-          .eq('id', execution.id)
-
-        // Update queue status to completed
-        await supabase
-          .from('report_queue')
-          .update({ 
-            status: 'completed',
-            execution_history_id: execution.id
-          })
-          .eq('id', queueItem.id)
-
-        // Update configuration last run time
-        await supabase
-          .from('report_configurations')
-          .update({
-            last_run_at: new Date().toISOString()
-          })
-          .eq('id', queueItem.report_configuration_id)
-
-        processed.push({
-          queueId: queueItem.id,
-          configurationId: queueItem.report_configuration_id,
-          executionId: execution.id,
-          status: 'completed'
-        })
-      } catch (error) {
-        // Handle processing error
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-        
-        // Update queue status
-        const shouldRetry = queueItem.attempts < queueItem.max_attempts
-        await supabase
-          .from('report_queue')
-          .update({ 
-            status: shouldRetry ? 'pending' : 'failed',
-            error_message: errorMessage,
-            next_attempt_at: shouldRetry 
-              ? new Date(Date.now() + Math.pow(2, queueItem.attempts) * 60000).toISOString() // Exponential backoff
-              : null
-          })
-          .eq('id', queueItem.id)
-
-        processed.push({
-          queueId: queueItem.id,
-          configurationId: queueItem.report_configuration_id,
-          status: 'failed',
-          error: errorMessage
-        })
-      }
-    }
-
-    // Enqueue any scheduled reports that are due
-    const { data: enqueuedCount } = await supabase
-      .rpc('enqueue_scheduled_reports')
+    const result = await reportSchedulerService.runOnce()
 
     return NextResponse.json({
-      processed,
-      enqueuedCount: enqueuedCount || 0,
-      timestamp: new Date().toISOString()
+      processed: result.processed,
+      enqueuedCount: result.enqueuedCount,
+      timestamp: result.timestamp
     })
   } catch (error) {
     console.error('API Error:', error)
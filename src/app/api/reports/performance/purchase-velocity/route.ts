@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { format, subWeeks, startOfWeek, endOfWeek } from 'date-fns';
+import { calculateVelocityMetrics, calculateVelocityStatistics } from '@/services/reports/performance-analysis';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -147,107 +148,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-function calculateVelocityMetrics(data: any[]): any[] {
-  // Group by query and asin
-  const grouped = data.reduce((acc: any, row: any) => {
-    const key = `${row.query}:${row.asin}`;
-    if (!acc[key]) {
-      acc[key] = [];
-    }
-    acc[key].push(row);
-    return acc;
-  }, {} as Record<string, any[]>);
-
-  const results = [];
-
-  for (const [key, rows] of Object.entries(grouped)) {
-    const sortedRows = (rows as any[]).sort((a: any, b: any) => 
-      new Date(b.period_end).getTime() - new Date(a.period_end).getTime()
-    );
-
-    for (let i = 0; i < sortedRows.length; i++) {
-      const current = sortedRows[i];
-      const previous = sortedRows[i + 1];
-      
-      let velocityChange = null;
-      let velocityTrend = 'unknown';
-      let weekOverWeekGrowth = null;
-
-      if (previous) {
-        velocityChange = ((current.total_purchases - previous.total_purchases) / previous.total_purchases) * 100;
-        weekOverWeekGrowth = (current.total_purchases - previous.total_purchases) / previous.total_purchases;
-        
-        if (velocityChange > 10) {
-          velocityTrend = 'accelerating';
-        } else if (velocityChange < -10) {
-          velocityTrend = 'decelerating';
-        } else {
-          velocityTrend = 'stable';
-        }
-      }
-
-      // Calculate trend strength based on multiple periods
-      let trendDirection = 'neutral';
-      let trendStrength = 0;
-
-      if (sortedRows.length >= 3) {
-        const recent3 = sortedRows.slice(Math.max(0, i - 2), i + 1);
-        const changes = [];
-        
-        for (let j = 0; j < recent3.length - 1; j++) {
-          const change = (recent3[j].total_purchases - recent3[j + 1].total_purchases) / recent3[j + 1].total_purchases;
-          changes.push(change);
-        }
-
-        const avgChange = changes.reduce((sum: number, c: any) => sum + c, 0) / changes.length;
-        trendStrength = Math.abs(avgChange);
-        
-        if (avgChange > 0.05) {
-          trendDirection = 'upward';
-        } else if (avgChange < -0.05) {
-          trendDirection = 'downward';
-        }
-      }
-
-      results.push({
-        ...current,
-        previous_week_purchases: previous?.total_purchases || null,
-        velocity_change: velocityChange,
-        velocity_trend: velocityTrend,
-        week_over_week_growth: weekOverWeekGrowth,
-        trend_direction: trendDirection,
-        trend_strength: trendStrength,
-      });
-    }
-  }
-
-  return results.sort((a: any, b: any) => 
-    new Date(b.period_end).getTime() - new Date(a.period_end).getTime()
-  );
-}
-
-function calculateVelocityStatistics(data: any[]) {
-  const validChanges = data
-    .map(d => d.velocity_change)
-    .filter(v => v !== null && !isNaN(v));
-
-  const accelerating = data.filter((d: any) => d.velocity_trend === 'accelerating').length;
-  const decelerating = data.filter((d: any) => d.velocity_trend === 'decelerating').length;
-  const stable = data.filter((d: any) => d.velocity_trend === 'stable').length;
-
-  return {
-    total_items: data.length,
-    avg_velocity_change: validChanges.length > 0 
-      ? validChanges.reduce((sum: number, v: any) => sum + v, 0) / validChanges.length 
-      : null,
-    max_velocity_change: validChanges.length > 0 ? Math.max(...validChanges) : null,
-    min_velocity_change: validChanges.length > 0 ? Math.min(...validChanges) : null,
-    accelerating_count: accelerating,
-    decelerating_count: decelerating,
-    stable_count: stable,
-    accelerating_percentage: accelerating / data.length * 100,
-    decelerating_percentage: decelerating / data.length * 100,
-  };
 }
\ No newline at end of file
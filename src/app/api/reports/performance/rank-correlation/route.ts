@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { format, subWeeks, startOfWeek, endOfWeek } from 'date-fns';
+import { calculateCorrelations, type CorrelationData } from '@/services/reports/performance-analysis';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -108,107 +109,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-interface CorrelationData {
-  query: string;
-  asin: string;
-  period_end: string;
-  organic_rank: number;
-  total_purchases: number;
-  total_clicks: number;
-  total_impressions: number;
-}
-
-function calculateCorrelations(data: CorrelationData[], metric: string): any[] {
-  // Group by query and ASIN
-  const grouped = data.reduce((acc: any, row: any) => {
-    const key = `${row.query}:${row.asin}`;
-    if (!acc[key]) {
-      acc[key] = [];
-    }
-    acc[key].push(row);
-    return acc;
-  }, {} as Record<string, CorrelationData[]>);
-
-  const results = [];
-
-  for (const [key, rows] of Object.entries(grouped)) {
-    const typedRows = rows as CorrelationData[];
-    if (typedRows.length < 4) continue; // Need at least 4 data points for meaningful correlation
-
-    const [query, asin] = key.split(':');
-    
-    // Extract ranks and metric values
-    const ranks = typedRows.map(r => r.organic_rank).filter(r => r && r > 0);
-    const metricValues = typedRows.map(r => {
-      switch (metric) {
-        case 'clicks': return r.total_clicks;
-        case 'impressions': return r.total_impressions;
-        default: return r.total_purchases;
-      }
-    }).filter(v => v >= 0);
-
-    if (ranks.length !== metricValues.length || ranks.length < 4) continue;
-
-    // Calculate Pearson correlation coefficient
-    const correlation = calculatePearsonCorrelation(ranks, metricValues);
-    
-    // Calculate additional statistics
-    const avgRank = ranks.reduce((sum: number, r) => sum + r, 0) / ranks.length;
-    const avgMetric = metricValues.reduce((sum: number, v: any) => sum + v, 0) / metricValues.length;
-    const rankRange = Math.max(...ranks) - Math.min(...ranks);
-    const metricRange = Math.max(...metricValues) - Math.min(...metricValues);
-    
-    // Determine correlation strength and significance
-    const absCorrelation = Math.abs(correlation);
-    let strength = 'weak';
-    let significance = 'not_significant';
-    
-    if (absCorrelation >= 0.7) {
-      strength = 'strong';
-      significance = 'highly_significant';
-    } else if (absCorrelation >= 0.5) {
-      strength = 'moderate';
-      significance = 'significant';
-    } else if (absCorrelation >= 0.3) {
-      strength = 'weak';
-      significance = 'marginally_significant';
-    }
-
-    results.push({
-      query,
-      asin,
-      correlation_coefficient: correlation,
-      correlation_strength: strength,
-      significance_level: significance,
-      data_points: ranks.length,
-      avg_rank: avgRank,
-      avg_metric_value: avgMetric,
-      rank_volatility: rankRange,
-      metric_volatility: metricRange,
-      rank_improvement_opportunity: avgRank > 10 ? 'high' : avgRank > 5 ? 'medium' : 'low',
-      data_quality_score: Math.min(1, ranks.length / 12) * (rankRange > 5 ? 1 : 0.7),
-    });
-  }
-
-  return results.sort((a: any, b: any) => Math.abs(b.correlation_coefficient) - Math.abs(a.correlation_coefficient));
-}
-
-function calculatePearsonCorrelation(x: number[], y: number[]): number {
-  const n = x.length;
-  if (n === 0) return 0;
-
-  const sumX = x.reduce((sum: number, val) => sum + val, 0);
-  const sumY = y.reduce((sum: number, val) => sum + val, 0);
-  const sumXY = x.reduce((sum: number, val, i) => sum + val * y[i], 0);
-  const sumX2 = x.reduce((sum: number, val) => sum + val * val, 0);
-  const sumY2 = y.reduce((sum: number, val) => sum + val * val, 0);
-
-  const numerator = n * sumXY - sumX * sumY;
-  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
-
-  return denominator === 0 ? 0 : numerator / denominator;
-}
-
 function calculateRegressionAnalysis(data: CorrelationData[], metric: string): any {
   // Group all data points
   const allRanks: number[] = [];
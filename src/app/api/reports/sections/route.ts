@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { reportSectionRegistry } from '@/services/reports/sections/registry'
+
+// Section types available to custom reports
+export async function GET() {
+  const sections = reportSectionRegistry.list().map(definition => ({
+    type: definition.type,
+    label: definition.label,
+    description: definition.description
+  }))
+
+  return NextResponse.json({ sections })
+}
\ No newline at end of file
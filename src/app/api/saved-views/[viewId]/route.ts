@@ -0,0 +1,161 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { SavedViewUpdate, savedViewSchema, savedViewUpdateSchema } from '@/services/saved-views/saved-view-schema'
+import { SavedViewService } from '@/services/saved-views/saved-view-service'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface SavedViewParams {
+  params: {
+    viewId: string
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: SavedViewParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = savedViewUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid update parameters', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('id', params.viewId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    const ownerId = auth?.userId || null
+    if (existing.owner_id !== ownerId) {
+      return forbiddenResponse('Only the owner can change a saved view')
+    }
+
+    // Only the fields sent in the body are updated, but the merged view must still be valid
+    const updates: SavedViewUpdate = validation.data
+    const merged = savedViewSchema.safeParse({ ...existing, ...updates })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', details: merged.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const service = new SavedViewService(supabase)
+    if (auth && auth.brandIds !== null && 'state' in updates) {
+      const brandId = await service.getViewBrandId(merged.data)
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse('Saved views must show a brand or ASIN you have access to')
+      }
+    }
+
+    if (updates.is_default) {
+      await service.clearDefault(ownerId, merged.data.page, params.viewId)
+    }
+
+    const { data: view, error } = await supabase
+      .from('saved_views')
+      .update(updates)
+      .eq('id', params.viewId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `You already have a view named "${merged.data.name}" on this page` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved view updated successfully',
+      view: { ...view, owned: true }
+    })
+
+  } catch (error) {
+    console.error('Error updating saved view:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update saved view',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: SavedViewParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('saved_views')
+      .select('id, owner_id')
+      .eq('id', params.viewId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    if (existing.owner_id !== (auth?.userId || null)) {
+      return forbiddenResponse('Only the owner can delete a saved view')
+    }
+
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', params.viewId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved view deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting saved view:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete saved view',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
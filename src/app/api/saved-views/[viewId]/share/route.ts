@@ -0,0 +1,63 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { SavedViewService } from '@/services/saved-views/saved-view-service'
+import { shareLinkPath } from '@/services/saved-views/saved-views'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface SavedViewShareParams {
+  params: {
+    viewId: string
+  }
+}
+
+// Returns the view's short share link, creating its token on first use
+export async function POST(request: NextRequest, { params }: SavedViewShareParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: view, error: fetchError } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('id', params.viewId)
+      .single()
+
+    // Other users' private views are reported as missing
+    const auth = getRequestAuth(request)
+    if (fetchError || !view || (view.visibility !== 'shared' && view.owner_id !== (auth?.userId || null))) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      )
+    }
+
+    const service = new SavedViewService(supabase)
+    if (auth && auth.brandIds !== null) {
+      const brandId = await service.getViewBrandId(view)
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse()
+      }
+    }
+
+    const shareToken = await service.getShareToken(view)
+
+    return NextResponse.json({
+      success: true,
+      shareToken,
+      path: shareLinkPath(shareToken)
+    })
+
+  } catch (error) {
+    console.error('Error sharing saved view:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to share saved view',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
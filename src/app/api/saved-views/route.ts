@@ -0,0 +1,124 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { filterByBrandAccess, forbiddenResponse, getRequestAuth } from '@/lib/auth/request-context'
+import { canAccessBrand } from '@/lib/auth/types'
+import { SAVED_VIEW_PAGES, SavedViewPage, savedViewSchema } from '@/services/saved-views/saved-view-schema'
+import { SavedViewService } from '@/services/saved-views/saved-view-service'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const page = request.nextUrl.searchParams.get('page')
+
+    if (page && !(SAVED_VIEW_PAGES as readonly string[]).includes(page)) {
+      return NextResponse.json(
+        { error: `page must be one of ${SAVED_VIEW_PAGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const auth = getRequestAuth(request)
+    const ownerId = auth?.userId || null
+    const service = new SavedViewService(supabase)
+    let views = await service.listViews(ownerId, (page as SavedViewPage) || undefined)
+
+    // Shared views of brands the caller cannot see are left out
+    if (auth && auth.brandIds !== null) {
+      const viewBrands = await service.getViewBrands(views)
+      views = filterByBrandAccess(views, auth, view => viewBrands.get(view.id))
+    }
+
+    return NextResponse.json({
+      views: views.map(view => ({ ...view, owned: view.owner_id === ownerId })),
+      total: views.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching saved views:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch saved views',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let body
+    try {
+      body = await request.json()
+    } catch (e) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = savedViewSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const viewData = validation.data
+    const service = new SavedViewService(supabase)
+    const auth = getRequestAuth(request)
+    const ownerId = auth?.userId || null
+
+    if (auth && auth.brandIds !== null) {
+      const brandId = await service.getViewBrandId(viewData)
+      if (!(brandId && canAccessBrand(auth, brandId))) {
+        return forbiddenResponse('Saved views must show a brand or ASIN you have access to')
+      }
+    }
+
+    if (viewData.is_default) {
+      await service.clearDefault(ownerId, viewData.page)
+    }
+
+    const { data: view, error } = await supabase
+      .from('saved_views')
+      .insert({
+        ...viewData,
+        owner_id: ownerId
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `You already have a view named "${viewData.name}" on this page` },
+          { status: 409 }
+        )
+      }
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved view created successfully',
+      view: { ...view, owned: true }
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating saved view:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create saved view',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+
+const syncTable = vi.fn()
+
+vi.mock('@/services/bigquery-sync/sync-service', () => ({
+  BigQuerySyncService: vi.fn(() => ({ syncTable }))
+}))
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseConfig: () => ({ url: 'http://localhost:54321', serviceRoleKey: 'service-key' })
+}))
+
+const diff = {
+  table: 'asin_performance_data',
+  window: { start: '2025-09-07', end: '2025-09-13' },
+  keyColumns: ['asin', 'start_date', 'end_date'],
+  sourceRows: 2,
+  summary: { inserts: 1, updates: 1, unchanged: 0, missingFromSource: 0 },
+  changedColumns: { end_date: 1 },
+  samples: {
+    inserts: [{ asin: 'B002', start_date: '2025-09-08', end_date: '2025-09-08' }],
+    updates: [{ key: { asin: 'B001', start_date: '2025-09-07', end_date: '2025-09-07' }, changes: [{ column: 'end_date', before: '2025-09-07', after: '2025-09-13' }] }],
+    missingFromSource: []
+  },
+  deletesMissing: false
+}
+
+const syncRequest = (body: any, query = '') =>
+  new NextRequest(`http://localhost:3000/api/sync/bigquery${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', authorization: 'Bearer service-key' },
+    body: JSON.stringify(body)
+  })
+
+describe('/api/sync/bigquery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    syncTable.mockResolvedValue({ success: true, table: 'asin_performance_data', rowsProcessed: 0, duration: 5, dryRun: true, window: diff.window, diff })
+  })
+
+  it('returns the diff for a dry run', async () => {
+    const response = await POST(syncRequest({ tableName: 'asin_performance_data', dryRun: true, options: { dateRange: diff.window } }))
+    const data = await response.json()
+
+    expect(syncTable).toHaveBeenCalledWith('asin_performance_data', {
+      dateRange: diff.window,
+      tableSchema: 'sqp',
+      dryRun: true,
+      diffSampleSize: undefined
+    })
+    expect(data).toMatchObject({
+      success: true,
+      dryRun: true,
+      message: 'Dry run: 1 to insert, 1 to update, 0 missing from source'
+    })
+    expect(data.diff.changedColumns).toEqual({ end_date: 1 })
+  })
+
+  it('downloads the diff as CSV, forcing a dry run', async () => {
+    const response = await POST(syncRequest({ tableName: 'asin_performance_data' }, '?format=csv'))
+    const csv = await response.text()
+
+    expect(syncTable).toHaveBeenCalledWith('asin_performance_data', expect.objectContaining({ dryRun: true, diffSampleSize: 1000 }))
+    expect(response.headers.get('Content-Type')).toBe('text/csv')
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="sync-diff_asin_performance_data_\d{4}-\d{2}-\d{2}\.csv"$/)
+    expect(csv).toContain('asin_performance_data,update,B001 / 2025-09-07 / 2025-09-07,end_date,2025-09-07,2025-09-13')
+  })
+
+  it('downloads the diff as JSON', async () => {
+    const response = await POST(syncRequest({ tableName: 'asin_performance_data', dryRun: true }, '?format=json'))
+
+    expect(response.headers.get('Content-Disposition')).toMatch(/\.json"$/)
+    expect((await response.json()).diffs[0].summary.inserts).toBe(1)
+  })
+
+  it('still syncs normally without dryRun', async () => {
+    syncTable.mockResolvedValue({ success: true, table: 'asin_performance_data', rowsProcessed: 12, duration: 5 })
+
+    const response = await POST(syncRequest({ tableName: 'asin_performance_data' }))
+
+    expect(syncTable).toHaveBeenCalledWith('asin_performance_data', { tableSchema: 'sqp' })
+    expect((await response.json()).message).toBe('Successfully synced 12 rows')
+  })
+})
\ No newline at end of file
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { BigQuerySyncService } from '@/services/bigquery-sync/sync-service'
 import { createClient } from '@supabase/supabase-js'
 import { getSupabaseConfig } from '@/config/supabase.config'
+import { diffDownload, parseDiffFormat, DOWNLOAD_SAMPLE_SIZE } from '../utils/diff-download'
 
 // This runs in Node.js environment where BigQuery client works properly
 export async function POST(request: NextRequest) {
@@ -21,12 +22,16 @@ export async function POST(request: NextRequest) {
       tableSchema = 'sqp',
       options = {}
     } = body
+    
+    // Asking for a download format implies a dry run, so it can never write
+    const format = parseDiffFormat(request.nextUrl.searchParams.get('format'))
+    const dryRun = Boolean(body.dryRun || options.dryRun || format)
 
     if (!tableName) {
       return NextResponse.json({ error: 'tableName is required' }, { status: 400 })
     }
 
-    console.log(`Starting BigQuery sync for ${tableSchema}.${tableName}`)
+    console.log(`Starting BigQuery ${dryRun ? 'dry run' : 'sync'} for ${tableSchema}.${tableName}`)
 
     // Initialize sync service
     const syncService = new BigQuerySyncService()
@@ -34,7 +39,11 @@ export async function POST(request: NextRequest) {
     // Perform sync
     const result = await syncService.syncTable(tableName, {
       ...options,
-      tableSchema
+      tableSchema,
+      ...(dryRun && {
+        dryRun: true,
+        diffSampleSize: options.diffSampleSize ?? (format ? DOWNLOAD_SAMPLE_SIZE : undefined)
+      })
     })
 
     if (!result.success) {
@@ -49,6 +58,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (result.dryRun) {
+      if (format && result.diff) {
+        return diffDownload([result.diff], format)
+      }
+
+      const summary = result.diff?.summary
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message: summary
+          ? `Dry run: ${summary.inserts} to insert, ${summary.updates} to update, ${summary.missingFromSource} missing from source`
+          : `${result.table} is not synced from BigQuery`,
+        table: result.table,
+        window: result.window,
+        diff: result.diff,
+        duration: result.duration
+      })
+    }
+
     return NextResponse.json({
       success: true,
       message: `Successfully synced ${result.rowsProcessed} rows`,
@@ -74,6 +102,6 @@ export async function GET() {
   return NextResponse.json({
     status: 'ok',
     message: 'BigQuery sync endpoint is available',
-    usage: 'POST to this endpoint with { tableName: "table_name" } to sync data'
+    usage: 'POST to this endpoint with { tableName: "table_name" } to sync data; add dryRun: true to preview the changes, and ?format=json|csv to download them'
   })
 }
\ No newline at end of file
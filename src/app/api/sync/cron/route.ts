@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { headers } from 'next/headers'
+import { alertRulesService } from '@/services/alerts/alert-rules-service'
 
 // Import the daily sync function
 const { runDailySync } = require('../../../../scripts/daily-sync')
@@ -24,6 +25,10 @@ export async function GET(request: Request) {
     
     // Run the sync
     const result = await runDailySync()
+
+    if (!result.errors?.length) {
+      await alertRulesService.evaluateAfterRefresh('sync.daily')
+    }
     
     return NextResponse.json({
       success: true,
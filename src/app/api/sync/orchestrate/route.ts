@@ -16,10 +16,11 @@ export async function POST(request: NextRequest) {
 
     const { 
       refreshType = 'scheduled',
-      tables = [] // Optional: specific tables to sync
+      tables = [], // Optional: specific tables to sync
+      dryRun = false // Preview each table's changes without writing anything
     } = await request.json()
 
-    console.log(`Starting orchestrated sync (${refreshType})`)
+    console.log(`Starting orchestrated ${dryRun ? 'dry run' : 'sync'} (${refreshType})`)
 
     // Initialize Supabase client
     const supabase = createClient(
@@ -53,17 +54,19 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${configs.length} tables to refresh`)
 
-    // Create orchestration log
-    const { data: orchestrationLog } = await supabase
-      .from('refresh_orchestration_log')
-      .insert({
-        refresh_type: refreshType,
-        total_tables: configs.length,
-        status: 'in_progress',
-        started_at: new Date().toISOString()
-      })
-      .select()
-      .single()
+    // Create orchestration log (dry runs leave no trace)
+    const { data: orchestrationLog } = dryRun
+      ? { data: null }
+      : await supabase
+        .from('refresh_orchestration_log')
+        .insert({
+          refresh_type: refreshType,
+          total_tables: configs.length,
+          status: 'in_progress',
+          started_at: new Date().toISOString()
+        })
+        .select()
+        .single()
 
     const results = []
     let successCount = 0
@@ -88,7 +91,8 @@ export async function POST(request: NextRequest) {
             options: {
               batchSize: 1000,
               truncate: refreshType === 'full'
-            }
+            },
+            dryRun
           })
         })
 
@@ -101,7 +105,8 @@ export async function POST(request: NextRequest) {
             table: config.table_name,
             status: 'success',
             rowsProcessed: syncResult.rowsProcessed,
-            duration: syncResult.duration
+            duration: syncResult.duration,
+            ...(dryRun && { diff: syncResult.diff })
           })
         } else {
           failCount++
@@ -141,7 +146,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Trigger webhook if configured
-    if (successCount > 0 || failCount > 0) {
+    if (!dryRun && (successCount > 0 || failCount > 0)) {
       try {
         await fetch(`${request.nextUrl.origin}/api/sync/webhook`, {
           method: 'POST',
@@ -168,7 +173,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Processed ${configs.length} tables`,
+      dryRun,
+      message: `${dryRun ? 'Previewed' : 'Processed'} ${configs.length} tables`,
       summary: {
         totalTables: configs.length,
         successful: successCount,
@@ -2,10 +2,15 @@ import { NextResponse } from 'next/server'
 import { getFileBigQueryClient } from '@/config/bigquery-file-auth.config'
 import { getBigQueryConfig } from '@/config/bigquery.config'
 import { BigQuerySyncService } from '@/services/bigquery-sync/sync-service'
+import { alertRulesService } from '@/services/alerts/alert-rules-service'
+import { diffDownload, parseDiffFormat, DOWNLOAD_SAMPLE_SIZE } from '../utils/diff-download'
 
 export async function POST(request: Request) {
   try {
-    const { forceSync = false } = await request.json().catch(() => ({}))
+    const { forceSync = false, incremental = true, lookbackDays, dryRun: dryRunRequested = false } = await request.json().catch(() => ({}))
+    // Asking for a download format implies a dry run, so it can never write
+    const format = parseDiffFormat(new URL(request.url).searchParams.get('format'))
+    const dryRun = Boolean(dryRunRequested || format)
     
     const client = getFileBigQueryClient()
     const config = getBigQueryConfig()
@@ -32,39 +37,42 @@ export async function POST(request: Request) {
     }
     
     // Step 2: Find optimal sync range
+    // Incremental syncs derive their window from the stored watermark instead
     let syncDateRange = null
     let rowsInRange = 0
     
-    // Check for recent data first
-    const recentCheckQuery = `
-      SELECT COUNT(*) as row_count
-      FROM \`${projectId}.${dataset}.seller-search_query_performance\`
-      WHERE DATE(\`Date\`) >= DATE_SUB(CURRENT_DATE(), INTERVAL 30 DAY)
-    `
-    
-    const [recentResult] = await client.query({ query: recentCheckQuery })
-    rowsInRange = recentResult[0].row_count
-    
-    if (rowsInRange === 0) {
-      // No recent data, use the latest available data
-      const latestDate = dateInfo.latest_date?.value || dateInfo.latest_date
-      const latestDateStr = latestDate.split('T')[0]
-      const startDate = new Date(latestDateStr)
-      startDate.setDate(startDate.getDate() - 30) // Get 30 days of data
-      
-      syncDateRange = {
-        start: startDate.toISOString().split('T')[0],
-        end: latestDateStr
-      }
-      
-      // Count rows in this range
-      const rangeCheckQuery = `
+    if (!incremental) {
+      // Check for recent data first
+      const recentCheckQuery = `
         SELECT COUNT(*) as row_count
         FROM \`${projectId}.${dataset}.seller-search_query_performance\`
-        WHERE DATE(\`Date\`) BETWEEN '${syncDateRange.start}' AND '${syncDateRange.end}'
+        WHERE DATE(\`Date\`) >= DATE_SUB(CURRENT_DATE(), INTERVAL 30 DAY)
       `
-      const [rangeResult] = await client.query({ query: rangeCheckQuery })
-      rowsInRange = rangeResult[0].row_count
+      
+      const [recentResult] = await client.query({ query: recentCheckQuery })
+      rowsInRange = recentResult[0].row_count
+      
+      if (rowsInRange === 0) {
+        // No recent data, use the latest available data
+        const latestDate = dateInfo.latest_date?.value || dateInfo.latest_date
+        const latestDateStr = latestDate.split('T')[0]
+        const startDate = new Date(latestDateStr)
+        startDate.setDate(startDate.getDate() - 30) // Get 30 days of data
+        
+        syncDateRange = {
+          start: startDate.toISOString().split('T')[0],
+          end: latestDateStr
+        }
+        
+        // Count rows in this range
+        const rangeCheckQuery = `
+          SELECT COUNT(*) as row_count
+          FROM \`${projectId}.${dataset}.seller-search_query_performance\`
+          WHERE DATE(\`Date\`) BETWEEN '${syncDateRange.start}' AND '${syncDateRange.end}'
+        `
+        const [rangeResult] = await client.query({ query: rangeCheckQuery })
+        rowsInRange = rangeResult[0].row_count
+      }
     }
     
     // Step 3: Execute sync
@@ -84,14 +92,17 @@ export async function POST(request: Request) {
     const asinSyncOptions = {
       batchSize: 1000,
       tableSchema: 'sqp' as const,
-      ...(syncDateRange && { dateRange: syncDateRange })
+      incremental,
+      lookbackDays,
+      ...(syncDateRange && { dateRange: syncDateRange }),
+      ...(dryRun && { dryRun: true, diffSampleSize: format ? DOWNLOAD_SAMPLE_SIZE : undefined })
     }
     
     const asinResult = await syncService.syncTable('asin_performance_data', asinSyncOptions)
     results.syncs.push(asinResult)
     
-    // If parent sync successful, sync search_query_performance
-    if (asinResult.success && (asinResult.rowsProcessed > 0 || forceSync)) {
+    // If parent sync successful, sync search_query_performance; dry runs always preview both
+    if (asinResult.success && (asinResult.rowsProcessed > 0 || forceSync || dryRun)) {
       const searchResult = await syncService.syncTable('search_query_performance', asinSyncOptions)
       results.syncs.push(searchResult)
     }
@@ -100,9 +111,18 @@ export async function POST(request: Request) {
     const totalRows = results.syncs.reduce((sum, sync) => sum + sync.rowsProcessed, 0)
     const totalDuration = results.syncs.reduce((sum, sync) => sum + sync.duration, 0)
     const allSuccess = results.syncs.every(sync => sync.success)
+
+    if (allSuccess && results.syncs.length > 0 && !dryRun) {
+      await alertRulesService.evaluateAfterRefresh('sync.smart')
+    }
+    
+    if (format && allSuccess) {
+      return diffDownload(results.syncs.filter(sync => sync.diff).map(sync => sync.diff), format)
+    }
     
     return NextResponse.json({
       success: allSuccess,
+      dryRun,
       summary: {
         totalRowsProcessed: totalRows,
         totalDuration: totalDuration,
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { SyncDiff, syncDiffToCsv } from '@/services/bigquery-sync/sync-diff'
+
+export type DiffFormat = 'json' | 'csv'
+
+// Downloads keep more sample rows than the inline preview
+export const DOWNLOAD_SAMPLE_SIZE = 1000
+
+export function parseDiffFormat(value: string | null): DiffFormat | null {
+  return value === 'json' || value === 'csv' ? value : null
+}
+
+/**
+ * Returns dry-run diffs as a file attachment named after the tables and date.
+ */
+export function diffDownload(diffs: SyncDiff[], format: DiffFormat): Response {
+  const name = `sync-diff_${diffs.map(diff => diff.table).join('_') || 'empty'}_${new Date().toISOString().split('T')[0]}`
+
+  if (format === 'csv') {
+    return new Response(syncDiffToCsv(diffs), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${name}.csv"`
+      }
+    })
+  }
+
+  return new NextResponse(JSON.stringify({ generatedAt: new Date().toISOString(), diffs }, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="${name}.json"`
+    }
+  })
+}
\ No newline at end of file
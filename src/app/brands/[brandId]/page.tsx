@@ -1,14 +1,27 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { Header } from '@/components/layout/Header'
 import { KpiModules } from '@/components/dashboard/KpiModules'
 import { ProductList } from '@/components/dashboard/ProductList'
 import { SearchQueryList } from '@/components/dashboard/SearchQueryList'
-import { useBrandDashboard } from '@/lib/api/brand-dashboard'
+import { CannibalizationPanel } from '@/components/dashboard/CannibalizationPanel'
+import { BrandRollupBreakdown } from '@/components/dashboard/BrandRollupBreakdown'
+import { ShareOfVoicePanel } from '@/components/dashboard/ShareOfVoicePanel'
+import { QuerySegmentPanel } from '@/components/dashboard/QuerySegmentPanel'
+import { KeywordListsPanel } from '@/components/asin-performance/KeywordListsPanel'
+import { useBrandDashboard, useBrandCannibalization, useBrandShareOfVoice, useBrandQuerySegments } from '@/lib/api/brand-dashboard'
+import { useInvalidateKeywordLists, useKeywordLists } from '@/lib/api/keyword-lists'
 import { DateRangePickerV2 } from '@/components/asin-performance/DateRangePickerV2'
 import { BrandDashboardBreadcrumb } from '@/components/navigation/BrandDashboardBreadcrumb'
+import { SavedViewsMenu } from '@/components/navigation/SavedViewsMenu'
+import { useUrlState } from '@/hooks/useUrlState'
+import type { SavedViewItem } from '@/lib/api/saved-views'
+import type { BrandViewState } from '@/services/saved-views/saved-view-schema'
+import { viewStatePath, viewStateSearch } from '@/services/saved-views/saved-views'
+
+const DEFAULT_VOICE_SHARE_CHANGE = 5
 
 interface BrandDashboardProps {
   params: {
@@ -18,12 +31,26 @@ interface BrandDashboardProps {
 
 export default function BrandDashboard({ params }: BrandDashboardProps) {
   const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
   const { brandId } = params
+  // Dates, comparison and settings are restored from the URL (reloads, saved views, share links)
+  const { urlState } = useUrlState()
+  const [openedWithoutState] = useState(() => !(urlState.dateFrom || urlState.includeChildren || urlState.voiceQueries))
   const [selectedBrand, setSelectedBrand] = useState<string>(brandId)
   const [showComparison, setShowComparison] = useState(false)
+  // Roll up KPIs, products and queries of every brand below this one
+  const [includeChildren, setIncludeChildren] = useState(!!urlState.includeChildren)
+  // Queries tracked for share of voice; empty lets the API pick the top queries
+  const [voiceQueries, setVoiceQueries] = useState<string[]>(urlState.voiceQueries || [])
+  const [voiceShareChange, setVoiceShareChange] = useState(urlState.voiceShareChange || DEFAULT_VOICE_SHARE_CHANGE)
   
   // Date state
   const [dateRange, setDateRange] = useState(() => {
+    if (urlState.dateFrom && urlState.dateTo) {
+      return { startDate: urlState.dateFrom, endDate: urlState.dateTo }
+    }
+
     // Default to last 30 days
     const today = new Date()
     const thirtyDaysAgo = new Date()
@@ -35,14 +62,69 @@ export default function BrandDashboard({ params }: BrandDashboardProps) {
     }
   })
   
-  const [compareRange, setCompareRange] = useState({
-    startDate: '',
-    endDate: '',
-    enabled: false,
-  })
+  const [compareRange, setCompareRange] = useState(() => (
+    urlState.showComparison && urlState.compareFrom && urlState.compareTo
+      ? { startDate: urlState.compareFrom, endDate: urlState.compareTo, enabled: true }
+      : { startDate: '', endDate: '', enabled: false }
+  ))
+
+  const viewState = useMemo((): BrandViewState => ({
+    brandId: selectedBrand,
+    dateFrom: dateRange.startDate,
+    dateTo: dateRange.endDate,
+    compareFrom: (compareRange.enabled && compareRange.startDate) || undefined,
+    compareTo: (compareRange.enabled && compareRange.endDate) || undefined,
+    showComparison: compareRange.enabled || undefined,
+    includeChildren: includeChildren || undefined,
+    voiceQueries: voiceQueries.length > 0 ? voiceQueries : undefined,
+    voiceShareChange: voiceShareChange !== DEFAULT_VOICE_SHARE_CHANGE ? voiceShareChange : undefined,
+  }), [selectedBrand, dateRange, compareRange, includeChildren, voiceQueries, voiceShareChange])
+
+  // Keep the URL in step with the state; skipped while navigating to another brand
+  useEffect(() => {
+    if (selectedBrand !== brandId) return
+    const current = searchParams.toString()
+    const search = viewStateSearch('brand', viewState, current)
+    if (search !== current) {
+      router.replace(`${pathname}?${search}`, { scroll: false })
+    }
+  }, [viewState, selectedBrand, brandId, searchParams, pathname, router])
+
+  const applySavedView = useCallback((view: SavedViewItem) => {
+    const state = view.state as BrandViewState
+    if (state.brandId !== brandId) {
+      router.push(viewStatePath('brand', state))
+      return
+    }
+    if (state.dateFrom && state.dateTo) {
+      setDateRange({ startDate: state.dateFrom, endDate: state.dateTo })
+    }
+    setCompareRange(state.showComparison && state.compareFrom && state.compareTo
+      ? { startDate: state.compareFrom, endDate: state.compareTo, enabled: true }
+      : { startDate: '', endDate: '', enabled: false })
+    setIncludeChildren(!!state.includeChildren)
+    setVoiceQueries(state.voiceQueries || [])
+    setVoiceShareChange(state.voiceShareChange || DEFAULT_VOICE_SHARE_CHANGE)
+  }, [brandId, router])
 
   // Fetch dashboard data
   const { data, isLoading, error } = useBrandDashboard(
+    selectedBrand,
+    dateRange.startDate,
+    dateRange.endDate,
+    compareRange.enabled ? compareRange.startDate : undefined,
+    compareRange.enabled ? compareRange.endDate : undefined,
+    50,
+    50,
+    includeChildren
+  )
+
+  // Queries where several of the brand's ASINs compete (compares to the previous period by default)
+  const {
+    data: cannibalization,
+    isLoading: cannibalizationLoading,
+    error: cannibalizationError,
+  } = useBrandCannibalization(
     selectedBrand,
     dateRange.startDate,
     dateRange.endDate,
@@ -50,6 +132,41 @@ export default function BrandDashboard({ params }: BrandDashboardProps) {
     compareRange.enabled ? compareRange.endDate : undefined
   )
 
+  const {
+    data: shareOfVoice,
+    isLoading: shareOfVoiceLoading,
+    error: shareOfVoiceError,
+  } = useBrandShareOfVoice(
+    selectedBrand,
+    dateRange.startDate,
+    dateRange.endDate,
+    voiceQueries,
+    voiceShareChange,
+    includeChildren
+  )
+
+  // Branded, competitor and generic split of the KPIs
+  const {
+    data: querySegments,
+    isLoading: querySegmentsLoading,
+    error: querySegmentsError,
+  } = useBrandQuerySegments(
+    selectedBrand,
+    dateRange.startDate,
+    dateRange.endDate,
+    compareRange.enabled ? compareRange.startDate : undefined,
+    compareRange.enabled ? compareRange.endDate : undefined,
+    includeChildren
+  )
+
+  // Brand-level keyword lists; they apply to every ASIN of the brand
+  const {
+    data: keywordLists,
+    isLoading: keywordListsLoading,
+    error: keywordListsError,
+  } = useKeywordLists({ brandId: selectedBrand })
+  const invalidateKeywordLists = useInvalidateKeywordLists()
+
   // Update comparison mode when compare range is enabled
   useEffect(() => {
     setShowComparison(compareRange.enabled)
@@ -159,16 +276,54 @@ export default function BrandDashboard({ params }: BrandDashboardProps) {
               <span className="ml-2 text-sm text-gray-700">Show comparison</span>
             </label>
           </div>
+
+          <div className="flex items-center gap-4">
+            <SavedViewsMenu
+              page="brand"
+              state={viewState}
+              applyDefault={openedWithoutState}
+              onApply={applySavedView}
+            />
+
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Brand scope">
+              <button
+                onClick={() => setIncludeChildren(false)}
+                aria-pressed={!includeChildren}
+                className={`px-3 py-1.5 ${!includeChildren ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                This brand only
+              </button>
+              <button
+                onClick={() => setIncludeChildren(true)}
+                aria-pressed={includeChildren}
+                className={`px-3 py-1.5 border-l border-gray-300 ${includeChildren ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                Including sub-brands
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* KPI Cards */}
         <KpiModules
           data={data ? { kpis: data.data.kpis } : null}
+          segments={querySegments?.data.kpis}
           showComparison={showComparison}
           loading={isLoading}
           error={error?.message}
         />
 
+        {/* Per sub-brand breakdown of the roll-up */}
+        {includeChildren && (
+          <BrandRollupBreakdown
+            rows={data?.data.breakdown}
+            shares={data?.data.shares}
+            loading={isLoading}
+            error={error?.message}
+            onBrandClick={handleBrandChange}
+          />
+        )}
+
         {/* Product List */}
         <div className="mt-8">
           <ProductList
@@ -190,6 +345,47 @@ export default function BrandDashboard({ params }: BrandDashboardProps) {
           loading={isLoading}
           error={error?.message}
         />
+
+        {/* Branded vs. non-branded queries */}
+        <QuerySegmentPanel
+          segments={querySegments?.data.segments}
+          weeks={querySegments?.data.weeks}
+          queries={querySegments?.data.queries}
+          loading={querySegmentsLoading}
+          error={querySegmentsError?.message}
+        />
+
+        {/* Brand-wide watchlist and exclusion list */}
+        <div className="mt-6">
+          <KeywordListsPanel
+            scope={{ brandId: selectedBrand }}
+            entries={keywordLists?.entries}
+            isLoading={keywordListsLoading}
+            error={keywordListsError as Error | null}
+            onChange={invalidateKeywordLists}
+          />
+        </div>
+
+        {/* Share of voice on the tracked queries */}
+        <ShareOfVoicePanel
+          weeks={shareOfVoice?.data}
+          queries={shareOfVoice?.summary.queries}
+          availableQueries={shareOfVoice?.summary.availableQueries}
+          shareChangeThreshold={voiceShareChange}
+          onQueriesChange={setVoiceQueries}
+          onShareChangeThresholdChange={setVoiceShareChange}
+          loading={shareOfVoiceLoading}
+          error={shareOfVoiceError?.message}
+        />
+
+        {/* Keyword Cannibalization */}
+        <CannibalizationPanel
+          results={cannibalization?.data}
+          flaggedCount={cannibalization?.summary.flaggedQueries}
+          loading={cannibalizationLoading}
+          error={cannibalizationError?.message}
+          onAsinClick={handleProductClick}
+        />
       </main>
     </div>
   )
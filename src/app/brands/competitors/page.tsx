@@ -0,0 +1,54 @@
+'use client'
+
+import { useBrands } from '@/lib/api/brands'
+import { CompetitorBrandsManager } from '@/components/brand/CompetitorBrandsManager'
+import type { Brand } from '@/types/brand'
+
+export default function CompetitorBrandsPage() {
+  const { data: brands, isLoading } = useBrands()
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Top Navigation */}
+      <div className="bg-gray-900 text-white">
+        <div className="max-w-[1920px] mx-auto px-6 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-6">
+              <h2 className="text-lg font-semibold">SQP Intelligence</h2>
+              <nav className="flex items-center space-x-4">
+                <a href="/" className="text-sm hover:text-gray-300">ASIN Performance</a>
+                <span className="text-gray-500">|</span>
+                <a href="/compare" className="text-sm hover:text-gray-300">ASIN Comparison</a>
+                <span className="text-gray-500">|</span>
+                <a href="/brands" className="text-sm hover:text-gray-300">Brand Dashboard</a>
+                <span className="text-gray-500">|</span>
+                <a href="/refresh-monitor" className="text-sm hover:text-gray-300">Refresh Monitor</a>
+              </nav>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-[1920px] mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900">Competitor Brands</h1>
+            <a href="/brands/rules" className="text-sm text-blue-600 hover:text-blue-800">Extraction rules</a>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Search queries naming a competitor or one of its aliases count as competitor queries. Queries naming one of our brands always count as branded.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-[1920px] mx-auto px-6 py-6">
+        {isLoading ? (
+          <div className="text-gray-500">Loading brands...</div>
+        ) : (
+          <CompetitorBrandsManager brands={(brands || []) as Brand[]} />
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+'use client'
+
+import { useEffect, useMemo } from 'react'
+import { X, Star } from 'lucide-react'
+import { useAsinComparisonUrlState } from '@/hooks/useUrlState'
+import { ASINSelector } from '@/components/asin-performance/ASINSelector'
+import { DateRangePickerV2 } from '@/components/asin-performance/DateRangePickerV2'
+import { PerformanceChart } from '@/components/asin-performance/PerformanceChart'
+import { FunnelChart } from '@/components/asin-performance/FunnelChart'
+import { KeywordShareMatrix } from '@/components/asin-performance/KeywordShareMatrix'
+import { MAX_COMPARISON_ASINS } from '@/components/asin-performance/utils/asinComparison'
+import { useMultiASINPerformance } from '@/lib/api/asin-performance'
+import { getDefaultDateRange } from '@/lib/date-utils/get-default-date-range'
+
+export default function AsinComparisonPage() {
+  const { urlState, updateComparison, addAsin, removeAsin, canAddAsin } = useAsinComparisonUrlState()
+  const { asins, baseline, startDate, endDate, metric } = urlState
+
+  // Fill in the default range so the URL always describes the full comparison
+  useEffect(() => {
+    if (!startDate || !endDate) {
+      updateComparison(getDefaultDateRange())
+    }
+  }, [startDate, endDate, updateComparison])
+
+  const results = useMultiASINPerformance(asins, startDate || '', endDate || '')
+
+  const isLoading = results.some(result => result.isLoading)
+  const error = (results.find(result => result.error)?.error as Error | undefined) || null
+
+  const series = useMemo(() => asins.map((asin, index) => ({
+    id: asin,
+    label: asin === baseline ? `${asin} (baseline)` : asin,
+    data: results[index]?.data?.timeSeries || [],
+  })), [asins, baseline, results])
+
+  const matrixData = useMemo(() => asins.map((asin, index) => ({
+    asin,
+    queries: results[index]?.data?.topQueries || [],
+  })), [asins, results])
+
+  const dateRange = startDate && endDate ? { start: startDate, end: endDate } : undefined
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Top Navigation */}
+      <div className="bg-gray-900 text-white">
+        <div className="max-w-[1920px] mx-auto px-6 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-6">
+              <h2 className="text-lg font-semibold">SQP Intelligence</h2>
+              <nav className="flex items-center space-x-4">
+                <a href="/" className="text-sm hover:text-gray-300">ASIN Performance</a>
+                <span className="text-gray-500">|</span>
+                <a href="/compare" className="text-sm hover:text-gray-300">ASIN Comparison</a>
+                <span className="text-gray-500">|</span>
+                <a href="/brands" className="text-sm hover:text-gray-300">Brand Dashboard</a>
+                <span className="text-gray-500">|</span>
+                <a href="/refresh-monitor" className="text-sm hover:text-gray-300">Refresh Monitor</a>
+              </nav>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-12 z-10">
+        <div className="max-w-[1920px] mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900">ASIN Comparison</h1>
+            <div className="text-sm text-gray-500">
+              {asins.length} of {MAX_COMPARISON_ASINS} ASINs
+            </div>
+          </div>
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div className="max-w-xl">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Add ASIN
+              </label>
+              {canAddAsin ? (
+                <ASINSelector value="" onChange={addAsin} />
+              ) : (
+                <p className="text-sm text-gray-500 py-3">
+                  Remove an ASIN to add another (up to {MAX_COMPARISON_ASINS})
+                </p>
+              )}
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Date Range
+              </label>
+              <DateRangePickerV2
+                startDate={startDate || ''}
+                endDate={endDate || ''}
+                onChange={(range) => updateComparison(range)}
+                hasManualSelection={true}
+              />
+            </div>
+          </div>
+          {asins.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {asins.map(asin => (
+                <span
+                  key={asin}
+                  className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm ${
+                    asin === baseline ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  <button
+                    onClick={() => updateComparison({ baseline: asin })}
+                    className="inline-flex items-center space-x-1"
+                    aria-label={asin === baseline ? `${asin} (baseline)` : `Use ${asin} as baseline`}
+                  >
+                    {asin === baseline && <Star className="h-3 w-3 fill-current" />}
+                    <span>{asin}</span>
+                  </button>
+                  <button
+                    onClick={() => removeAsin(asin)}
+                    className="p-0.5 rounded-full hover:bg-gray-200"
+                    aria-label={`Remove ${asin}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-[1920px] mx-auto px-6 py-8">
+        {asins.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[60vh]">
+            <div className="text-center">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No ASINs Selected</h3>
+              <p className="text-gray-500 mb-6">
+                Add up to {MAX_COMPARISON_ASINS} ASINs above to compare their performance side by side
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Overlaid performance */}
+            <section>
+              <PerformanceChart
+                data={[]}
+                series={series}
+                dateRange={dateRange}
+                isLoading={isLoading}
+                error={error}
+              />
+            </section>
+
+            {/* Side-by-side funnels */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Conversion Funnels</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {asins.map((asin, index) => (
+                  <FunnelChart
+                    key={asin}
+                    title={asin === baseline ? `${asin} (baseline)` : asin}
+                    data={results[index]?.data?.metrics?.totals || null}
+                    dateRange={dateRange}
+                    isLoading={!!results[index]?.isLoading}
+                    error={(results[index]?.error as Error | null) || null}
+                  />
+                ))}
+              </div>
+            </section>
+
+            {/* Keyword matrix */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Keyword Share Matrix</h2>
+              <KeywordShareMatrix
+                data={matrixData}
+                baseline={baseline}
+                metric={metric}
+                onMetricChange={(next) => updateComparison({ metric: next })}
+                onBaselineChange={(asin) => updateComparison({ baseline: asin })}
+                isLoading={isLoading}
+                error={error}
+              />
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
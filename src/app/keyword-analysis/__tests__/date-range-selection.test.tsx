@@ -22,7 +22,8 @@ vi.mock('@/lib/api/keyword-analysis', () => ({
 
 // Mock the API hook for ASIN data
 vi.mock('@/lib/api/asin-performance', () => ({
-  useASINDataAvailability: vi.fn(() => ({ data: null, isLoading: false }))
+  useASINDataAvailability: vi.fn(() => ({ data: null, isLoading: false })),
+  useASINForecast: vi.fn(() => ({ data: undefined })),
 }))
 
 describe('Keyword Analysis - Date Range Selection', () => {
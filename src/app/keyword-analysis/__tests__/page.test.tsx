@@ -14,6 +14,7 @@ vi.mock('@/lib/api/keyword-analysis', () => ({
   useKeywordPerformance: () => mockUseKeywordPerformance(),
   useKeywordComparison: () => mockUseKeywordComparison(),
   useASINKeywords: () => mockUseASINKeywords(),
+  useKeywordGroups: () => ({ data: [] }),
 }))
 
 // Mock the components
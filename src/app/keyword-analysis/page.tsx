@@ -10,11 +10,21 @@ import { KeywordFunnelChart } from '@/components/asin-performance/KeywordFunnelC
 import { KeywordMarketShareWithBarChart } from '@/components/asin-performance/KeywordMarketShareWithBarChart'
 import { MultiKeywordSelector } from '@/components/asin-performance/MultiKeywordSelector'
 import { KeywordComparisonView } from '@/components/asin-performance/KeywordComparisonView'
+import { KeywordGroupSelector } from '@/components/asin-performance/KeywordGroupSelector'
 import { Breadcrumb } from '@/components/asin-performance/Breadcrumb'
-import { useKeywordPerformance, useKeywordComparison, useASINKeywords } from '@/lib/api/keyword-analysis'
+import { SavedViewsMenu } from '@/components/navigation/SavedViewsMenu'
+import { useKeywordPerformance, useKeywordComparison, useASINKeywords, useKeywordGroups } from '@/lib/api/keyword-analysis'
+import { useASINForecast } from '@/lib/api/asin-performance'
+import { toForecastOverlay } from '@/components/asin-performance/utils/forecastOverlay'
+import type { SavedViewItem } from '@/lib/api/saved-views'
+import type { KeywordAnalysisViewState } from '@/services/saved-views/saved-view-schema'
+import { viewStatePath } from '@/services/saved-views/saved-views'
 
 type ViewMode = 'single' | 'comparison'
 
+// Keywords and keyword groups compared side by side
+const MAX_COMPARISON_SERIES = 10
+
 function formatNumber(num: number): string {
   return new Intl.NumberFormat('en-US').format(num)
 }
@@ -111,6 +121,9 @@ export default function KeywordAnalysisPage() {
   const pathname = usePathname()
   const [viewMode, setViewMode] = useState<ViewMode>('single')
   const [selectedKeywords, setSelectedKeywords] = useState<string[]>([])
+  const [selectedGroups, setSelectedGroups] = useState<string[]>(
+    () => searchParams.get('groups')?.split(',').filter(Boolean) || []
+  )
   const [showExportMenu, setShowExportMenu] = useState(false)
 
   // Calculate default dates - returns stable values during SSR
@@ -177,17 +190,18 @@ export default function KeywordAnalysisPage() {
   }, [asin, singleKeyword, startDate, endDate, compareStartDate, compareEndDate, viewMode, hasRequiredParams])
 
   const comparisonParams = useMemo(() => {
-    if (!hasRequiredParams || viewMode !== 'comparison' || selectedKeywords.length === 0) return null
+    if (!hasRequiredParams || viewMode !== 'comparison' || selectedKeywords.length + selectedGroups.length === 0) return null
     
     return {
       asin,
       keywords: selectedKeywords,
+      groups: selectedGroups,
       startDate,
       endDate,
       compareStartDate: compareStartDate || undefined,
       compareEndDate: compareEndDate || undefined,
     }
-  }, [asin, selectedKeywords, startDate, endDate, compareStartDate, compareEndDate, viewMode, hasRequiredParams])
+  }, [asin, selectedKeywords, selectedGroups, startDate, endDate, compareStartDate, compareEndDate, viewMode, hasRequiredParams])
 
   // Fetch data
   const { data: performanceData, isLoading: performanceLoading, error: performanceError } = 
@@ -195,7 +209,15 @@ export default function KeywordAnalysisPage() {
   
   const { data: comparisonData, isLoading: comparisonLoading, error: comparisonError } = 
     useKeywordComparison(comparisonParams)
+
+  const { data: keywordGroups } = useKeywordGroups()
     
+  const { data: forecastReport } = useASINForecast(
+    performanceParams ? asin : null,
+    endDate || '',
+    singleKeyword
+  )
+
   const { data: keywordsData, isLoading: keywordsLoading } = useASINKeywords(
     asin && startDate && endDate ? { asin, startDate, endDate, includeMetrics: true } : null
   )
@@ -254,6 +276,37 @@ export default function KeywordAnalysisPage() {
     }
   }, [viewMode, pathname, router, searchParams])
 
+  // Handle keyword group selection changes
+  const handleGroupSelectionChange = useCallback((groups: string[]) => {
+    setSelectedGroups(groups)
+
+    const params = new URLSearchParams(searchParams.toString())
+    if (groups.length > 0) {
+      params.set('groups', groups.join(','))
+    } else {
+      params.delete('groups')
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false })
+  }, [pathname, router, searchParams])
+
+  // The URL already holds the page state; saved views add the selected groups to it
+  const viewState = useMemo((): KeywordAnalysisViewState | null => asin ? {
+    asin,
+    keyword: singleKeyword || undefined,
+    keywords: multipleKeywords ? multipleKeywords.split(',').map(k => k.trim()).filter(Boolean) : undefined,
+    groups: selectedGroups.length > 0 ? selectedGroups : undefined,
+    startDate,
+    endDate,
+    compareStartDate: compareStartDate || undefined,
+    compareEndDate: compareEndDate || undefined,
+  } : null, [asin, singleKeyword, multipleKeywords, selectedGroups, startDate, endDate, compareStartDate, compareEndDate])
+
+  const applySavedView = useCallback((view: SavedViewItem) => {
+    const state = view.state as KeywordAnalysisViewState
+    setSelectedGroups(state.groups || [])
+    router.push(viewStatePath('keyword_analysis', state))
+  }, [router])
+
   // Export functionality
   const handleExport = (format: 'csv' | 'excel') => {
     // TODO: Implement export functionality
@@ -271,12 +324,21 @@ export default function KeywordAnalysisPage() {
             <p className="text-gray-600">
               Please provide ASIN, keyword, start date, and end date in the URL parameters.
             </p>
-            <button
-              onClick={() => router.back()}
-              className="mt-6 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-            >
-              Go Back
-            </button>
+            <div className="mt-6 flex items-center justify-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Go Back
+              </button>
+              {/* Opens the default view, or lets the user pick a saved one */}
+              <SavedViewsMenu
+                page="keyword_analysis"
+                state={null}
+                applyDefault={true}
+                onApply={applySavedView}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -305,6 +367,14 @@ export default function KeywordAnalysisPage() {
 
       {/* Main content */}
       <div className="px-8 py-6">
+        <div className="flex justify-end mb-4">
+          <SavedViewsMenu
+            page="keyword_analysis"
+            state={viewState}
+            onApply={applySavedView}
+          />
+        </div>
+
         {/* Date range picker */}
         <div className="mb-6" data-testid="date-range-picker">
           <DateRangePickerV2
@@ -378,6 +448,7 @@ export default function KeywordAnalysisPage() {
                 dateRange={{ start: startDate, end: endDate }}
                 isLoading={false}
                 error={null}
+                forecast={toForecastOverlay(forecastReport)}
               />
             </div>
 
@@ -419,7 +490,7 @@ export default function KeywordAnalysisPage() {
                 availableKeywords={keywordsData?.keywords.map(k => k.keyword) || []}
                 selectedKeywords={selectedKeywords}
                 onSelectionChange={handleKeywordSelectionChange}
-                maxKeywords={10}
+                maxKeywords={MAX_COMPARISON_SERIES - selectedGroups.length}
                 asin={asin}
                 startDate={startDate}
                 endDate={endDate}
@@ -435,11 +506,18 @@ export default function KeywordAnalysisPage() {
               />
             </div>
             
+            <KeywordGroupSelector
+              groups={keywordGroups || []}
+              selectedGroups={selectedGroups}
+              onSelectionChange={handleGroupSelectionChange}
+              maxGroups={MAX_COMPARISON_SERIES - selectedKeywords.length}
+            />
+            
             {/* Full-width comparison view below */}
-            {selectedKeywords.length > 0 && comparisonData && (
+            {selectedKeywords.length + selectedGroups.length > 0 && comparisonData && (
               <div className="w-full">
                 <KeywordComparisonView
-                  keywords={selectedKeywords}
+                  keywords={[...selectedKeywords, ...(comparisonData.groups || []).map(group => group.name)]}
                   data={comparisonData}
                   dateRange={{ start: startDate, end: endDate }}
                   comparisonDateRange={compareStartDate && compareEndDate ? 
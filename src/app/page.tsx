@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useNavigationContext } from '@/hooks/useUrlState'
 import { ASINSelector } from '@/components/asin-performance/ASINSelector'
@@ -8,24 +8,53 @@ import { DateRangePickerV2 } from '@/components/asin-performance/DateRangePicker
 import { MetricsCards } from '@/components/asin-performance/MetricsCards'
 import { PerformanceChart } from '@/components/asin-performance/PerformanceChart'
 import { FunnelChart } from '@/components/asin-performance/FunnelChart'
+import { ShippingSpeedChart } from '@/components/asin-performance/ShippingSpeedChart'
+import { KeywordGroupPanel } from '@/components/asin-performance/KeywordGroupPanel'
+import { KeywordListsPanel } from '@/components/asin-performance/KeywordListsPanel'
+import { QuerySegmentPanel } from '@/components/dashboard/QuerySegmentPanel'
 import { SearchQueryTable, SearchQueryData } from '@/components/asin-performance/SearchQueryTable'
 import { KeywordAnalysisModal } from '@/components/asin-performance/KeywordAnalysisModal'
-import { useASINPerformance } from '@/lib/api/asin-performance'
+import { SavedViewsMenu } from '@/components/navigation/SavedViewsMenu'
+import type { ChartType } from '@/components/asin-performance/types'
+import { useASINPerformance, useASINForecast, useASINShippingAnalysis, useASINQuerySegments } from '@/lib/api/asin-performance'
+import { useKeywordGroupReport } from '@/lib/api/keyword-analysis'
+import { setKeywordList, useInvalidateKeywordLists, useKeywordLists } from '@/lib/api/keyword-lists'
+import type { SavedViewItem } from '@/lib/api/saved-views'
+import type { KeywordListType } from '@/services/keywords/keyword-list-schema'
+import type { AsinViewState } from '@/services/saved-views/saved-view-schema'
+import { viewStateSearch } from '@/services/saved-views/saved-views'
+import { toForecastOverlay } from '@/components/asin-performance/utils/forecastOverlay'
 import { getDefaultDateRange } from '@/lib/date-utils/get-default-date-range'
 
 export default function Dashboard() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [selectedASIN, setSelectedASIN] = useState<string>('')
+  // Picked by the user; undefined lets the chart choose from the data length
+  const [chartType, setChartType] = useState<ChartType | undefined>(undefined)
   
   // Navigation context for brand dashboard integration
   const { isFromBrandDashboard, context, hasPreservedDateRange, hasPreservedComparison } = useNavigationContext()
   
-  // Check for ASIN in URL params on mount
+  // Check for ASIN, chart type and keyword selections in URL params on mount
   useEffect(() => {
     const asinParam = searchParams.get('asin')
     if (asinParam && !selectedASIN) {
       setSelectedASIN(asinParam)
+
+      const chartTypeParam = searchParams.get('chartType')
+      if (chartTypeParam === 'line' || chartTypeParam === 'bar') {
+        setChartType(chartTypeParam)
+      }
+      const keywordsParam = searchParams.get('keywords')
+      if (keywordsParam) {
+        setSelectedKeywords(keywordsParam.split(',').filter(Boolean))
+      }
+      const keywordParam = searchParams.get('keyword')
+      if (keywordParam) {
+        setSelectedKeyword(keywordParam)
+        setKeywordModalOpen(true)
+      }
     }
   }, [searchParams, selectedASIN])
   const [dateRange, setDateRange] = useState({
@@ -68,8 +97,51 @@ export default function Dashboard() {
   }, [hasPreservedComparison, context, compareRange.enabled])
   const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null)
   const [keywordModalOpen, setKeywordModalOpen] = useState(false)
+  // Queries ticked in the table for side-by-side analysis
+  const [selectedKeywords, setSelectedKeywords] = useState<string[]>([])
   const [hasManualDateSelection, setHasManualDateSelection] = useState(false)
 
+  // Everything a saved view or a reload needs to restore this dashboard
+  const viewState = useMemo((): AsinViewState | null => selectedASIN ? {
+    asin: selectedASIN,
+    dateFrom: dateRange.startDate || undefined,
+    dateTo: dateRange.endDate || undefined,
+    compareFrom: (compareRange.enabled && compareRange.startDate) || undefined,
+    compareTo: (compareRange.enabled && compareRange.endDate) || undefined,
+    showComparison: compareRange.enabled || undefined,
+    chartType,
+    keywords: selectedKeywords.length > 0 ? selectedKeywords : undefined,
+    keyword: (keywordModalOpen && selectedKeyword) || undefined,
+  } : null, [selectedASIN, dateRange, compareRange, chartType, selectedKeywords, keywordModalOpen, selectedKeyword])
+
+  // Keep the URL in step with the state so reloads and copied links restore it
+  useEffect(() => {
+    if (!viewState) return
+    const current = searchParams.toString()
+    const search = viewStateSearch('asin', viewState, current)
+    if (search !== current) {
+      router.replace(`/?${search}`, { scroll: false })
+    }
+  }, [viewState, searchParams, router])
+
+  const applySavedView = useCallback((view: SavedViewItem) => {
+    const state = view.state as AsinViewState
+    setSelectedASIN(state.asin)
+    if (state.dateFrom && state.dateTo) {
+      setDateRange({ startDate: state.dateFrom, endDate: state.dateTo })
+      setHasManualDateSelection(true)
+    }
+    setCompareRange(state.showComparison && state.compareFrom && state.compareTo
+      ? { startDate: state.compareFrom, endDate: state.compareTo, enabled: true }
+      : { startDate: '', endDate: '', enabled: false })
+    setChartType(state.chartType)
+    setSelectedKeywords(state.keywords || [])
+    if (state.keyword) {
+      setSelectedKeyword(state.keyword)
+    }
+    setKeywordModalOpen(!!state.keyword)
+  }, [])
+
   // Fetch performance data
   const { data, isLoading, error } = useASINPerformance(
     selectedASIN,
@@ -79,6 +151,55 @@ export default function Dashboard() {
     compareRange.enabled ? compareRange.endDate : undefined
   )
 
+  // Forecast continues from the end of the selected range
+  const { data: forecastReport } = useASINForecast(selectedASIN, dateRange.endDate)
+
+  const {
+    data: shippingAnalysis,
+    isLoading: shippingLoading,
+    error: shippingError,
+  } = useASINShippingAnalysis(selectedASIN, dateRange.startDate, dateRange.endDate)
+
+  // Branded, competitor and generic split of the KPIs
+  const {
+    data: querySegments,
+    isLoading: querySegmentsLoading,
+    error: querySegmentsError,
+  } = useASINQuerySegments(
+    selectedASIN,
+    dateRange.startDate,
+    dateRange.endDate,
+    compareRange.enabled ? compareRange.startDate : undefined,
+    compareRange.enabled ? compareRange.endDate : undefined
+  )
+
+  const {
+    data: keywordGroups,
+    isLoading: keywordGroupsLoading,
+    error: keywordGroupsError,
+  } = useKeywordGroupReport(selectedASIN ? {
+    asin: selectedASIN,
+    startDate: dateRange.startDate,
+    endDate: dateRange.endDate,
+  } : null)
+
+  // Watched and excluded keywords of the ASIN and its brand
+  const {
+    data: keywordLists,
+    isLoading: keywordListsLoading,
+    error: keywordListsError,
+  } = useKeywordLists(selectedASIN ? { asin: selectedASIN } : null)
+  const invalidateKeywordLists = useInvalidateKeywordLists()
+
+  const handleKeywordListChange = async (keyword: string, listType: KeywordListType | null) => {
+    try {
+      await setKeywordList(selectedASIN, keywordLists?.entries || [], keyword, listType)
+      await invalidateKeywordLists()
+    } catch (e) {
+      console.error('Failed to update keyword lists:', e)
+    }
+  }
+
   const handleKeywordClick = (keyword: string, rowData?: SearchQueryData) => {
     setSelectedKeyword(keyword)
     setKeywordModalOpen(true)
@@ -113,6 +234,16 @@ export default function Dashboard() {
     setKeywordModalOpen(false)
   }
 
+  const handleCompareSelected = () => {
+    const params = new URLSearchParams({
+      asin: selectedASIN,
+      keywords: selectedKeywords.join(','),
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+    })
+    router.push(`/keyword-analysis?${params.toString()}`)
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Top Navigation */}
@@ -124,6 +255,8 @@ export default function Dashboard() {
               <nav className="flex items-center space-x-4">
                 <a href="/" className="text-sm hover:text-gray-300">ASIN Performance</a>
                 <span className="text-gray-500">|</span>
+                <a href="/compare" className="text-sm hover:text-gray-300">ASIN Comparison</a>
+                <span className="text-gray-500">|</span>
                 <a href="/brands" className="text-sm hover:text-gray-300">Brand Dashboard</a>
                 <span className="text-gray-500">|</span>
                 <a href="/refresh-monitor" className="text-sm hover:text-gray-300">Refresh Monitor</a>
@@ -142,6 +275,20 @@ export default function Dashboard() {
               <div className="text-sm text-gray-500">
                 {selectedASIN ? `Selected: ${selectedASIN}` : 'No ASIN selected'}
               </div>
+              <SavedViewsMenu
+                page="asin"
+                state={viewState}
+                applyDefault={!searchParams.get('asin')}
+                onApply={applySavedView}
+              />
+              {selectedASIN && (
+                <a
+                  href={`/compare?asins=${selectedASIN}`}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Compare with other ASINs
+                </a>
+              )}
             </div>
           </div>
           <div className="mt-4 grid grid-cols-2 gap-4">
@@ -153,6 +300,8 @@ export default function Dashboard() {
                 setSelectedASIN(asin)
                 // Reset manual selection flag when ASIN changes
                 setHasManualDateSelection(false)
+                // Ticked queries belong to the previous ASIN
+                setSelectedKeywords([])
               }} />
             </div>
             <div className="flex-1">
@@ -214,6 +363,8 @@ export default function Dashboard() {
                 comparisonData={data?.comparison}
                 dateRange={data?.dateRange}
                 comparisonDateRange={data?.comparisonDateRange}
+                segments={querySegments?.segments}
+                comparisonSegments={querySegments?.comparison}
                 isLoading={isLoading}
                 error={error as Error | null}
               />
@@ -221,6 +372,20 @@ export default function Dashboard() {
 
             {/* Performance charts */}
             <section>
+              <div className="flex justify-end mb-2">
+                <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Chart type">
+                  {([undefined, 'line', 'bar'] as const).map(type => (
+                    <button
+                      key={type || 'auto'}
+                      onClick={() => setChartType(type)}
+                      aria-pressed={chartType === type}
+                      className={`px-3 py-1 ${type ? 'border-l border-gray-300' : ''} ${chartType === type ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {type === 'line' ? 'Line' : type === 'bar' ? 'Bar' : 'Auto'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <PerformanceChart
                 data={data?.timeSeries || []}
                 comparisonData={compareRange.enabled ? data?.comparisonTimeSeries : undefined}
@@ -228,7 +393,8 @@ export default function Dashboard() {
                 comparisonDateRange={data?.comparisonDateRange}
                 isLoading={isLoading}
                 error={error as Error | null}
-                // Let the chart auto-detect based on data length - no explicit chartType needed
+                forecast={toForecastOverlay(forecastReport)}
+                chartType={chartType}
               />
             </section>
 
@@ -244,9 +410,56 @@ export default function Dashboard() {
               />
             </section>
 
+            {/* Branded vs. non-branded queries */}
+            <section>
+              <QuerySegmentPanel
+                segments={querySegments?.segments}
+                weeks={querySegments?.weeks}
+                queries={querySegments?.queries}
+                loading={querySegmentsLoading}
+                error={(querySegmentsError as Error | null)?.message}
+              />
+            </section>
+
+            {/* Keyword groups */}
+            <section>
+              <KeywordGroupPanel
+                data={keywordGroups}
+                isLoading={keywordGroupsLoading}
+                error={keywordGroupsError as Error | null}
+                asin={selectedASIN}
+                startDate={dateRange.startDate}
+                endDate={dateRange.endDate}
+              />
+            </section>
+
+            {/* Shipping speed mix */}
+            <section>
+              <ShippingSpeedChart
+                data={shippingAnalysis}
+                isLoading={shippingLoading}
+                error={shippingError as Error | null}
+              />
+            </section>
+
             {/* Search query table */}
             <section>
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">Search Query Performance</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Search Query Performance</h2>
+                {selectedKeywords.length > 0 && (
+                  <div className="flex items-center gap-3 text-sm">
+                    <button onClick={() => setSelectedKeywords([])} className="text-gray-500 hover:text-gray-700">
+                      Clear selection
+                    </button>
+                    <button
+                      onClick={handleCompareSelected}
+                      className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      Compare {selectedKeywords.length} selected
+                    </button>
+                  </div>
+                )}
+              </div>
               <SearchQueryTable
                 data={data?.topQueries || []}
                 comparisonData={compareRange.enabled && data?.topQueriesComparison ? data.topQueriesComparison : undefined}
@@ -255,6 +468,21 @@ export default function Dashboard() {
                 isLoading={isLoading}
                 error={error as Error | null}
                 onKeywordClick={handleKeywordClick}
+                excludedQueries={data?.keywordLists?.excludedQueries}
+                onKeywordListChange={handleKeywordListChange}
+                selectedQueries={selectedKeywords}
+                onSelectionChange={setSelectedKeywords}
+              />
+            </section>
+
+            {/* Watchlist and exclusion list */}
+            <section>
+              <KeywordListsPanel
+                scope={{ asin: selectedASIN }}
+                entries={keywordLists?.entries}
+                isLoading={keywordListsLoading}
+                error={keywordListsError as Error | null}
+                onChange={invalidateKeywordLists}
               />
             </section>
           </div>
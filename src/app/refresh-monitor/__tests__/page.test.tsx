@@ -23,6 +23,18 @@ vi.mock('@/components/refresh-monitor/RefreshConfigPanel', () => ({
   RefreshConfigPanel: () => <div data-testid="refresh-config-panel">Config Panel</div>
 }))
 
+vi.mock('@/components/refresh-monitor/DataQualityPanel', () => ({
+  DataQualityPanel: () => <div data-testid="data-quality-panel">Data Quality Panel</div>
+}))
+
+vi.mock('@/components/refresh-monitor/ReconciliationPanel', () => ({
+  ReconciliationPanel: () => <div data-testid="reconciliation-panel">Reconciliation Panel</div>
+}))
+
+vi.mock('@/components/refresh-monitor/BackfillPanel', () => ({
+  BackfillPanel: () => <div data-testid="backfill-panel">Backfill Panel</div>
+}))
+
 vi.mock('@/components/refresh-monitor/WebhookPanel', () => ({
   WebhookPanel: () => <div data-testid="webhook-panel">Webhook Panel</div>
 }))
@@ -8,7 +8,10 @@ import { DataFreshnessIndicator } from '@/components/refresh-monitor/DataFreshne
 import { TableCategoryFilter } from '@/components/refresh-monitor/TableCategoryFilter'
 import { RefreshHistoryTable } from '@/components/refresh-monitor/RefreshHistoryTable'
 import { RefreshConfigPanel } from '@/components/refresh-monitor/RefreshConfigPanel'
-import { RefreshCw, Settings, History, BarChart3, Activity, Clock, AlertCircle } from 'lucide-react'
+import { DataQualityPanel } from '@/components/refresh-monitor/DataQualityPanel'
+import { ReconciliationPanel } from '@/components/refresh-monitor/ReconciliationPanel'
+import { BackfillPanel } from '@/components/refresh-monitor/BackfillPanel'
+import { RefreshCw, Settings, History, BarChart3, Activity, Clock, AlertCircle, Scale, DatabaseBackup } from 'lucide-react'
 
 export default function RefreshMonitorPage() {
   const [activeTab, setActiveTab] = useState('overview')
@@ -69,6 +72,7 @@ export default function RefreshMonitorPage() {
               error: activity.error
             })) || []
           },
+          refreshRun: statusData?.dependency_graph?.current_run || null,
           flow: {
             stages: [
               {
@@ -180,6 +184,8 @@ export default function RefreshMonitorPage() {
     { id: 'overview', label: 'Overview', icon: BarChart3 },
     { id: 'pipeline', label: 'Pipeline', icon: Activity },
     { id: 'history', label: 'History', icon: History },
+    { id: 'reconcile', label: 'Reconciliation', icon: Scale },
+    { id: 'backfill', label: 'Backfill', icon: DatabaseBackup },
     { id: 'config', label: 'Configuration', icon: Settings }
   ]
 
@@ -262,6 +268,8 @@ export default function RefreshMonitorPage() {
               {activeTab === 'overview' && (
                 <>
                   <RefreshStatusCard statusData={statusData} />
+
+                  <DataQualityPanel dataQuality={statusData?.data_quality} />
                   
                   {/* Table Category Filter */}
                   <div className="bg-white rounded-lg shadow-sm p-4">
@@ -304,6 +312,14 @@ export default function RefreshMonitorPage() {
                 <RefreshHistoryTable />
               )}
               
+              {activeTab === 'reconcile' && (
+                <ReconciliationPanel />
+              )}
+              
+              {activeTab === 'backfill' && (
+                <BackfillPanel />
+              )}
+              
               {activeTab === 'config' && (
                 <RefreshConfigPanel />
               )}
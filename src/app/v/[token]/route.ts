@@ -0,0 +1,44 @@
+import { createClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { SavedViewService } from '@/services/saved-views/saved-view-service'
+import { savedViewPath } from '@/services/saved-views/saved-views'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+interface SharedViewParams {
+  params: {
+    token: string
+  }
+}
+
+/**
+ * Short share link: redirects to the page URL that restores the saved view.
+ * Like every page this only needs a session; the data the page then loads
+ * goes through the API's brand access checks.
+ */
+export async function GET(request: NextRequest, { params }: SharedViewParams) {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const view = await new SavedViewService(supabase).getViewByShareToken(params.token)
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Shared view not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.redirect(new URL(savedViewPath(view), request.url))
+
+  } catch (error) {
+    console.error('Error opening shared view:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to open shared view',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
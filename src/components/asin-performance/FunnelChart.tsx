@@ -18,6 +18,7 @@ interface FunnelChartProps {
   comparisonDateRange?: { start: string; end: string }
   isLoading: boolean
   error: Error | null
+  title?: string
 }
 
 interface FunnelStage {
@@ -48,7 +49,7 @@ function formatDateRange(start: string, end: string): string {
   return `${format(new Date(start), 'MMM d')} - ${format(new Date(end), 'MMM d, yyyy')}`
 }
 
-export function FunnelChart({ data, comparisonData, dateRange, comparisonDateRange, isLoading, error }: FunnelChartProps) {
+export function FunnelChart({ data, comparisonData, dateRange, comparisonDateRange, isLoading, error, title = 'Conversion Funnel' }: FunnelChartProps) {
 
   if (isLoading) {
     return (
@@ -138,7 +139,7 @@ export function FunnelChart({ data, comparisonData, dateRange, comparisonDateRan
     <div className="bg-white rounded-lg shadow p-6">
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h3 className="text-lg font-semibold text-gray-900">Conversion Funnel</h3>
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
           <p className="text-sm text-gray-500 mt-1">
             Overall CVR: <span className="font-medium text-gray-900">{formatPercentage(overallCVR)}</span>
             {dateRange && (
@@ -206,6 +206,17 @@ export function KeywordAnalysisModal({
           <div className="flex-1">
             <h2 id="modal-title" className="text-xl font-semibold text-gray-900">
               Keyword Analysis: {keyword}
+              {data?.keywordList && (
+                <span
+                  className={`ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    data.keywordList.listType === 'watch' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                  data-testid="keyword-list-badge"
+                >
+                  {data.keywordList.listType === 'watch' ? 'Watched' : 'Excluded'}
+                  {data.keywordList.scope === 'brand' ? ' for brand' : ''}
+                </span>
+              )}
             </h2>
             <div className="mt-1 text-sm text-gray-500">
               ASIN: {asin} • {formatDateRange(dateRange.start, dateRange.end)}
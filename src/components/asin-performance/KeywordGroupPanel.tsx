@@ -0,0 +1,305 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Layers, Sparkles, Trash2 } from 'lucide-react'
+import { useInvalidateKeywordQueries } from '@/lib/api/keyword-analysis'
+import type { KeywordGroupRule, KeywordRuleType } from '@/services/keywords/keyword-group-schema'
+import type { KeywordGroupReport } from '@/services/keywords/keyword-group-service'
+import type { KeywordClusterSuggestion } from '@/services/keywords/keyword-taxonomy'
+
+interface KeywordGroupPanelProps {
+  data?: KeywordGroupReport
+  isLoading: boolean
+  error: Error | null
+  asin: string
+  startDate: string
+  endDate: string
+}
+
+const RULE_TYPES: Array<{ id: KeywordRuleType; label: string; placeholder: string }> = [
+  { id: 'contains', label: 'Contains', placeholder: 'e.g. gift' },
+  { id: 'regex', label: 'Regex', placeholder: 'e.g. \\b(small|medium|large)\\b' },
+  { id: 'exact', label: 'Exact list', placeholder: 'One keyword per line' }
+]
+
+function formatNumber(num: number): string {
+  return new Intl.NumberFormat('en-US').format(num)
+}
+
+function formatPercentage(num: number): string {
+  return `${(num * 100).toFixed(1)}%`
+}
+
+const errorText = (data: any, fallback: string) =>
+  data?.details?.[0]?.message || data?.error || fallback
+
+function toRule(type: KeywordRuleType, pattern: string): KeywordGroupRule {
+  if (type === 'exact') {
+    return { type, keywords: pattern.split(/[\n,]/).map(keyword => keyword.trim()).filter(Boolean) }
+  }
+  return { type, pattern: pattern.trim(), case_sensitive: false }
+}
+
+export function KeywordGroupPanel({ data, isLoading, error, asin, startDate, endDate }: KeywordGroupPanelProps) {
+  const { invalidateAll } = useInvalidateKeywordQueries()
+  const [name, setName] = useState('')
+  const [ruleType, setRuleType] = useState<KeywordRuleType>('contains')
+  const [pattern, setPattern] = useState('')
+  const [suggestions, setSuggestions] = useState<KeywordClusterSuggestion[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const createGroup = async (groupName: string, rules: KeywordGroupRule[]) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/keyword-groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: groupName, rules })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(result, 'Failed to create keyword group') })
+        return false
+      }
+      setMessage({ type: 'success', text: `Created "${groupName}"` })
+      invalidateAll()
+      return true
+    } catch (e) {
+      setMessage({ type: 'error', text: 'Failed to create keyword group' })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const submitGroup = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (await createGroup(name.trim(), [toRule(ruleType, pattern)])) {
+      setName('')
+      setPattern('')
+    }
+  }
+
+  const deleteGroup = async (groupId: string, groupName: string) => {
+    if (!window.confirm(`Delete keyword group "${groupName}"?`)) return
+    const response = await fetch(`/api/keyword-groups/${groupId}`, { method: 'DELETE' })
+    if (response.ok) {
+      invalidateAll()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to delete keyword group' })
+    }
+  }
+
+  const loadSuggestions = async () => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const params = new URLSearchParams({ asin, startDate, endDate })
+      const response = await fetch(`/api/keyword-groups/suggestions?${params}`)
+      const result = await response.json()
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(result, 'Failed to suggest keyword groups') })
+        return
+      }
+      setSuggestions(result.suggestions || [])
+    } catch (e) {
+      setMessage({ type: 'error', text: 'Failed to suggest keyword groups' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const acceptSuggestion = async (suggestion: KeywordClusterSuggestion) => {
+    if (await createGroup(suggestion.name, suggestion.rules)) {
+      setSuggestions(current => current?.filter(item => item !== suggestion) || null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 animate-pulse" data-testid="keyword-groups-skeleton">
+        <div className="h-6 w-48 bg-gray-200 rounded mb-6"></div>
+        <div className="h-32 bg-gray-200 rounded"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-8">
+          <p className="text-red-800 font-medium">Error loading keyword groups</p>
+          <p className="text-red-600 text-sm mt-1">{error.message}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const groups = data?.groups || []
+  const selectedRule = RULE_TYPES.find(type => type.id === ruleType)!
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Keyword Groups</h3>
+          {data && (
+            <p className="text-sm text-gray-500">
+              {formatNumber(data.ungroupedKeywords)} of {formatNumber(data.totalKeywords)} keywords not in any group
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={loadSuggestions}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Sparkles className="h-4 w-4 mr-1" />
+          Suggest groups
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mb-4 text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`} role="status">
+          {message.text}
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="text-center py-8">
+          <Layers className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+          <p className="text-gray-900 font-medium">No keyword groups yet</p>
+          <p className="text-gray-500 text-sm mt-1">Create a group below or start from a suggestion</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Group</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Keywords</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Impressions</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Clicks</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Purchases</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Impression Share</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Purchase Share</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">CVR</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {groups.map(group => (
+                <tr key={group.groupId} data-testid={`keyword-group-${group.groupId}`}>
+                  <td className="px-3 py-2 text-gray-900">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full mr-2"
+                      style={{ backgroundColor: group.color || '#9ca3af' }}
+                    />
+                    {group.name}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700" title={group.keywords.join(', ')}>
+                    {group.keywords.length}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatNumber(group.impressions)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatNumber(group.clicks)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatNumber(group.purchases)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPercentage(group.impressionShare)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPercentage(group.purchaseShare)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPercentage(group.cvr)}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteGroup(group.groupId, group.name)}
+                      aria-label={`Delete ${group.name}`}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {suggestions && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Suggested groups</h4>
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500">No keywords with enough token overlap left to group</p>
+          ) : (
+            <ul className="space-y-2">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.name} className="flex items-center justify-between rounded border border-gray-200 px-3 py-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{suggestion.name}</span>
+                    <span className="ml-2 text-gray-500">{suggestion.keywords.join(', ')}</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => acceptSuggestion(suggestion)}
+                    disabled={busy}
+                    className="ml-4 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Create group
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={submitGroup} className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-start">
+        <input
+          type="text"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          placeholder="Group name"
+          aria-label="Group name"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <select
+          value={ruleType}
+          onChange={event => setRuleType(event.target.value as KeywordRuleType)}
+          aria-label="Rule type"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {RULE_TYPES.map(type => (
+            <option key={type.id} value={type.id}>{type.label}</option>
+          ))}
+        </select>
+        {ruleType === 'exact' ? (
+          <textarea
+            value={pattern}
+            onChange={event => setPattern(event.target.value)}
+            placeholder={selectedRule.placeholder}
+            aria-label="Rule keywords"
+            rows={3}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        ) : (
+          <input
+            type="text"
+            value={pattern}
+            onChange={event => setPattern(event.target.value)}
+            placeholder={selectedRule.placeholder}
+            aria-label="Rule pattern"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={busy || !name.trim() || !pattern.trim()}
+          className="px-4 py-2 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Create group
+        </button>
+      </form>
+    </div>
+  )
+}
\ No newline at end of file
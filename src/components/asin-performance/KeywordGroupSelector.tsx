@@ -0,0 +1,56 @@
+'use client'
+
+import React from 'react'
+import { Layers } from 'lucide-react'
+import type { KeywordGroup } from '@/services/keywords/keyword-group-schema'
+
+interface KeywordGroupSelectorProps {
+  groups: KeywordGroup[]
+  selectedGroups: string[]
+  onSelectionChange: (groupIds: string[]) => void
+  // Selectable groups left once keywords take their share of the comparison slots
+  maxGroups: number
+}
+
+export function KeywordGroupSelector({ groups, selectedGroups, onSelectionChange, maxGroups }: KeywordGroupSelectorProps) {
+  if (groups.length === 0) return null
+
+  const toggle = (groupId: string) => {
+    if (selectedGroups.includes(groupId)) {
+      onSelectionChange(selectedGroups.filter(id => id !== groupId))
+    } else if (selectedGroups.length < maxGroups) {
+      onSelectionChange([...selectedGroups, groupId])
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex items-center mb-2">
+        <Layers className="h-4 w-4 text-gray-500 mr-2" />
+        <h3 className="text-sm font-medium text-gray-900">Keyword groups</h3>
+        <span className="ml-2 text-xs text-gray-500">Each group is compared as one series, from the summed counts of its keywords</span>
+      </div>
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Keyword groups">
+        {groups.map(group => {
+          const selected = selectedGroups.includes(group.id)
+          return (
+            <button
+              key={group.id}
+              type="button"
+              onClick={() => toggle(group.id)}
+              aria-pressed={selected}
+              disabled={!selected && selectedGroups.length >= maxGroups}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                selected
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+              }`}
+            >
+              {group.name}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
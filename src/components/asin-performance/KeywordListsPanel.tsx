@@ -0,0 +1,247 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { Download, ListChecks, Trash2, Upload } from 'lucide-react'
+import {
+  KeywordListScope,
+  addKeywordListEntry,
+  deleteKeywordListEntry,
+  importKeywordListCsv,
+  keywordListsUrl,
+  setKeywordList,
+  updateKeywordListEntry
+} from '@/lib/api/keyword-lists'
+import type { KeywordListEntry, KeywordListType } from '@/services/keywords/keyword-list-schema'
+
+interface KeywordListsPanelProps {
+  scope: KeywordListScope
+  entries?: KeywordListEntry[]
+  isLoading: boolean
+  error: Error | null
+  // Called after every successful change so the lists and the dashboard refetch
+  onChange: () => void
+}
+
+const LISTS: Array<{ id: KeywordListType; label: string; empty: string }> = [
+  { id: 'watch', label: 'Watchlist', empty: 'No watched keywords. Watched keywords are pinned to the top of the search query table.' },
+  { id: 'exclude', label: 'Exclusion list', empty: 'No excluded keywords. Excluded keywords are left out of tables, charts and totals.' }
+]
+
+export function KeywordListsPanel({ scope, entries = [], isLoading, error, onChange }: KeywordListsPanelProps) {
+  const [keyword, setKeyword] = useState('')
+  const [listType, setListType] = useState<KeywordListType>('watch')
+  const [importListType, setImportListType] = useState<KeywordListType>('exclude')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const success = await action()
+      if (success) setMessage({ type: 'success', text: success })
+      onChange()
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to update keyword lists' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addKeyword = (event: React.FormEvent) => {
+    event.preventDefault()
+    run(async () => {
+      if (scope.asin) {
+        await setKeywordList(scope.asin, entries, keyword, listType)
+      } else {
+        await addKeywordListEntry(scope, keyword, listType)
+      }
+      setKeyword('')
+      return null
+    })
+  }
+
+  const importFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    run(async () => {
+      const result = await importKeywordListCsv(scope, await file.text(), importListType)
+      if (fileInput.current) fileInput.current.value = ''
+      const skipped = result.errors.length > 0 ? ` Skipped ${result.errors.length}: ${result.errors.slice(0, 3).join('; ')}` : ''
+      return `${result.message} (${result.created} new, ${result.updated} updated).${skipped}`
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 animate-pulse" data-testid="keyword-lists-skeleton">
+        <div className="h-6 w-48 bg-gray-200 rounded mb-6"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-8">
+          <p className="text-red-800 font-medium">Error loading keyword lists</p>
+          <p className="text-red-600 text-sm mt-1">{error.message}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6" data-testid="keyword-lists-panel">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-gray-400" />
+            Keyword Lists
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {scope.asin
+              ? 'Lists for this ASIN apply together with its brand\'s; an ASIN entry wins over a brand entry.'
+              : 'Brand lists apply to every ASIN of the brand unless the ASIN has its own entry for the keyword.'}
+          </p>
+        </div>
+        <a
+          href={keywordListsUrl(scope, 'csv')}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </a>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <form onSubmit={addKeyword} className="flex items-end gap-2">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Keyword</span>
+            <input
+              type="text"
+              aria-label="Keyword"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <select
+            aria-label="List"
+            value={listType}
+            onChange={(e) => setListType(e.target.value as KeywordListType)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {LISTS.map(list => (
+              <option key={list.id} value={list.id}>{list.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busy || !keyword.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+
+        <div className="flex items-end gap-2 ml-auto">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Rows without a list go to</span>
+            <select
+              aria-label="Import list"
+              value={importListType}
+              onChange={(e) => setImportListType(e.target.value as KeywordListType)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {LISTS.map(list => (
+                <option key={list.id} value={list.id}>{list.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import CSV
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,text/csv"
+              aria-label="Import CSV"
+              onChange={importFile}
+              disabled={busy}
+              className="sr-only"
+            />
+          </label>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+          role="status"
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {LISTS.map(list => {
+          const listEntries = entries.filter(entry => entry.list_type === list.id)
+          return (
+            <div key={list.id} data-testid={`keyword-list-${list.id}`}>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                {list.label} ({listEntries.length})
+              </h3>
+              {listEntries.length === 0 ? (
+                <p className="text-sm text-gray-500">{list.empty}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {listEntries.map(entry => (
+                      <tr key={entry.id} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-900">{entry.keyword}</td>
+                        <td className="py-2 text-gray-500">{entry.asin ? (scope.asin ? 'This ASIN' : entry.asin) : 'Brand'}</td>
+                        <td className="py-2">
+                          {list.id === 'watch' && (
+                            <label className="flex items-center gap-1 text-gray-600">
+                              <input
+                                type="checkbox"
+                                checked={entry.alert_enabled}
+                                disabled={busy}
+                                onChange={(e) => run(async () => {
+                                  await updateKeywordListEntry(entry.id, { alert_enabled: e.target.checked })
+                                  return null
+                                })}
+                                aria-label={`Alerts for ${entry.keyword}`}
+                              />
+                              Alerts
+                            </label>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => run(async () => {
+                              await deleteKeywordListEntry(entry.id)
+                              return null
+                            })}
+                            disabled={busy}
+                            aria-label={`Remove ${entry.keyword}`}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -3,7 +3,9 @@
 import React, { useState, useMemo } from 'react'
 import {
   LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -13,6 +15,13 @@ import {
 } from 'recharts'
 import { format } from 'date-fns'
 import { TrendingUp, AlertCircle } from 'lucide-react'
+import {
+  formatAccuracy,
+  forecastKey,
+  forecastRangeKey,
+  mergeForecast,
+  type ForecastOverlay,
+} from './utils/forecastOverlay'
 
 interface ChartDataPoint {
   date: string
@@ -32,6 +41,7 @@ interface KeywordPerformanceChartProps {
   dateRange?: { start: string; end: string }
   isLoading?: boolean
   error?: Error | null
+  forecast?: ForecastOverlay | null
 }
 
 interface MetricConfig {
@@ -74,13 +84,18 @@ export function KeywordPerformanceChart({
   dateRange,
   isLoading = false,
   error = null,
+  forecast = null,
 }: KeywordPerformanceChartProps) {
   const [enabledMetrics, setEnabledMetrics] = useState<Set<string>>(
     new Set(['impressions', 'clicks', 'purchases'])
   )
+  const [showForecast, setShowForecast] = useState(true)
+
+  const hasForecast = !!forecast && Object.values(forecast.series).some(points => points && points.length > 0)
+  const forecastVisible = hasForecast && showForecast
 
   // Combine current and comparison data for the chart
-  const chartData = useMemo(() => {
+  const periodData = useMemo(() => {
     if (!comparisonData) return data
 
     // For keyword performance, we want to align comparison data by index (same time offset)
@@ -111,6 +126,11 @@ export function KeywordPerformanceChart({
     })
   }, [data, comparisonData])
 
+  const chartData = useMemo(
+    () => (forecastVisible ? mergeForecast(periodData, forecast) : periodData),
+    [periodData, forecast, forecastVisible]
+  )
+
   const toggleMetric = (metricKey: string) => {
     setEnabledMetrics((prev) => {
       const newSet = new Set(prev)
@@ -173,6 +193,9 @@ export function KeywordPerformanceChart({
     )
   }
 
+  // Areas for the confidence bands need a composed chart
+  const ChartContainer = forecastVisible ? ComposedChart : LineChart
+
   const hasRateMetrics = Array.from(enabledMetrics).some((key) =>
     rateMetrics.some((m) => m.key === key)
   )
@@ -189,6 +212,31 @@ export function KeywordPerformanceChart({
             {comparisonData && <span className="ml-2">Comparison: Enabled</span>}
           </p>
         )}
+        {hasForecast && (
+          <div className="flex flex-wrap items-center gap-3 mt-2">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={showForecast}
+                onChange={() => setShowForecast(!showForecast)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                aria-label="Show forecast"
+              />
+              <span className="text-sm text-gray-600">
+                Forecast ({Math.round(forecast!.confidence * 100)}% CI)
+              </span>
+            </label>
+            {showForecast &&
+              volumeMetrics.map((metric) => {
+                const accuracy = formatAccuracy(forecast!.accuracy?.[metric.key as keyof ForecastOverlay['series']])
+                return enabledMetrics.has(metric.key) && accuracy ? (
+                  <span key={metric.key} className="text-xs text-gray-500">
+                    {metric.label}: {accuracy}
+                  </span>
+                ) : null
+              })}
+          </div>
+        )}
         {data.length === 1 && (
           <p className="text-sm text-amber-600 mt-1">
             Note: Showing single data point
@@ -198,7 +246,7 @@ export function KeywordPerformanceChart({
 
       <div className="h-64 mb-4">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <ChartContainer data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis
               dataKey="date"
@@ -252,6 +300,36 @@ export function KeywordPerformanceChart({
               ) : null
             )}
 
+            {/* Forecast lines with confidence bands */}
+            {forecastVisible &&
+              volumeMetrics.map((metric) =>
+                enabledMetrics.has(metric.key) && forecast!.series[metric.key as keyof ForecastOverlay['series']]?.length ? (
+                  <React.Fragment key={`forecast-${metric.key}`}>
+                    <Area
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey={forecastRangeKey(metric.key)}
+                      stroke="none"
+                      fill={metric.color}
+                      fillOpacity={0.15}
+                      legendType="none"
+                      tooltipType="none"
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey={forecastKey(metric.key)}
+                      stroke={metric.color}
+                      name={`${metric.label} (Forecast)`}
+                      strokeWidth={2}
+                      strokeDasharray="6 4"
+                      dot={false}
+                    />
+                  </React.Fragment>
+                ) : null
+              )}
+
             {/* Comparison data lines */}
             {comparisonData && (
               <>
@@ -290,7 +368,7 @@ export function KeywordPerformanceChart({
                 )}
               </>
             )}
-          </LineChart>
+          </ChartContainer>
         </ResponsiveContainer>
       </div>
 
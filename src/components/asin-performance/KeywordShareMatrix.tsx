@@ -0,0 +1,193 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Search, Star } from 'lucide-react'
+import {
+  buildKeywordShareMatrix,
+  SHARE_METRICS,
+  type AsinQueries,
+  type ShareMetric,
+} from './utils/asinComparison'
+
+interface KeywordShareMatrixProps {
+  data: AsinQueries[]
+  baseline: string | null
+  metric: ShareMetric
+  onMetricChange: (metric: ShareMetric) => void
+  onBaselineChange: (asin: string) => void
+  isLoading: boolean
+  error: Error | null
+  maxRows?: number
+}
+
+function formatPercentage(num: number, decimals: number = 1): string {
+  return `${(num * 100).toFixed(decimals)}%`
+}
+
+function formatPoints(num: number): string {
+  const points = num * 100
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)} pts`
+}
+
+// Cell background scales with the share so strong positions stand out
+function getCellStyle(share: number | null): React.CSSProperties | undefined {
+  if (share === null || share <= 0) return undefined
+  return { backgroundColor: `rgba(59, 130, 246, ${Math.min(0.1 + share, 0.6)})` }
+}
+
+export function KeywordShareMatrix({
+  data,
+  baseline,
+  metric,
+  onMetricChange,
+  onBaselineChange,
+  isLoading,
+  error,
+  maxRows = 50,
+}: KeywordShareMatrixProps) {
+  const [searchTerm, setSearchTerm] = useState('')
+
+  const rows = useMemo(() => buildKeywordShareMatrix(data, metric, baseline), [data, metric, baseline])
+
+  const visibleRows = useMemo(() => {
+    const filtered = searchTerm
+      ? rows.filter(row => row.searchQuery.toLowerCase().includes(searchTerm.toLowerCase()))
+      : rows
+    return filtered.slice(0, maxRows)
+  }, [rows, searchTerm, maxRows])
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 animate-pulse" data-testid="matrix-skeleton">
+        <div className="h-10 bg-gray-200 rounded mb-4"></div>
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-100 rounded"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-8">
+          <p className="text-red-800 font-medium">Error loading keyword matrix</p>
+          <p className="text-red-600 text-sm mt-1">{error.message}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-12">
+          <Search className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-900 font-medium">No search query data available</p>
+          <p className="text-gray-500 text-sm mt-1">Add ASINs to compare their keyword shares</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search queries..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(Object.keys(SHARE_METRICS) as ShareMetric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => onMetricChange(key)}
+              className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+                metric === key
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {SHARE_METRICS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Search Query
+              </th>
+              {data.map(({ asin }) => (
+                <th key={asin} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <button
+                    onClick={() => onBaselineChange(asin)}
+                    className={`inline-flex items-center space-x-1 ${asin === baseline ? 'text-blue-700' : 'hover:text-gray-700'}`}
+                    aria-pressed={asin === baseline}
+                    aria-label={asin === baseline ? `${asin} (baseline)` : `Use ${asin} as baseline`}
+                  >
+                    {asin === baseline && <Star className="h-3 w-3 fill-current" />}
+                    <span>{asin}</span>
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Best vs Baseline
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRows.map(row => (
+              <tr key={row.searchQuery}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {row.searchQuery}
+                </td>
+                {data.map(({ asin }) => {
+                  const share = row.shares[asin]
+                  return (
+                    <td
+                      key={asin}
+                      className={`px-4 py-3 whitespace-nowrap text-sm text-right ${asin === baseline ? 'font-semibold' : ''}`}
+                      style={getCellStyle(share)}
+                    >
+                      {share === null ? <span className="text-gray-400">-</span> : formatPercentage(share)}
+                    </td>
+                  )
+                })}
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-right">
+                  {row.baselineDifference === null ? (
+                    <span className="text-gray-400">-</span>
+                  ) : (
+                    <div>
+                      <span className={row.baselineDifference > 0 ? 'text-red-600' : row.baselineDifference < 0 ? 'text-green-600' : 'text-gray-500'}>
+                        {formatPoints(row.baselineDifference)}
+                      </span>
+                      <div className="text-xs text-gray-500">{row.leader}</div>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > visibleRows.length && !searchTerm && (
+        <div className="px-4 py-3 border-t border-gray-200 text-sm text-gray-500">
+          Showing top {visibleRows.length} of {rows.length} queries by combined impressions
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
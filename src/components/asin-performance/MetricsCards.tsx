@@ -1,8 +1,10 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
 import { TrendingUp, TrendingDown, ShoppingCart, MousePointer, Package, Eye } from 'lucide-react'
 import { format } from 'date-fns'
+import { QuerySegmentFilter, QuerySegmentToggle } from '@/components/dashboard/QuerySegmentToggle'
+import type { QuerySegment } from '@/services/brands/query-segments'
 
 interface MetricsData {
   totals: {
@@ -34,6 +36,9 @@ interface MetricsCardsProps {
   comparisonData?: ComparisonData
   dateRange?: { start: string; end: string }
   comparisonDateRange?: { start: string; end: string }
+  // Metrics restricted to branded, competitor or generic queries; adds a segment toggle
+  segments?: Record<QuerySegment, MetricsData>
+  comparisonSegments?: Record<QuerySegment, MetricsData> | null
   isLoading: boolean
   error: Error | null
 }
@@ -56,6 +61,20 @@ function formatPercentage(num: number, decimals: number = 2): string {
   return `${(num * 100).toFixed(decimals)}%`
 }
 
+// Same changes the overview API reports, for a segment and its comparison period
+function segmentComparison(current: MetricsData, previous: MetricsData): ComparisonData {
+  const change = (value: number, prior: number) => (prior > 0 ? (value - prior) / prior : 0)
+  return {
+    metrics: previous,
+    changes: {
+      impressions: change(current.totals.impressions, previous.totals.impressions),
+      clicks: change(current.totals.clicks, previous.totals.clicks),
+      purchases: change(current.totals.purchases, previous.totals.purchases),
+      conversionRate: current.rates.overallConversionRate - previous.rates.overallConversionRate,
+    },
+  }
+}
+
 function formatDateRange(start: string, end: string): string {
   return `${format(new Date(start), 'MMM d')} - ${format(new Date(end), 'MMM d, yyyy')}`
 }
@@ -112,7 +131,25 @@ function MetricCard({ title, value, subtext, change, icon, isLoading, comparison
   )
 }
 
-export function MetricsCards({ data, comparisonData, dateRange, comparisonDateRange, isLoading, error }: MetricsCardsProps) {
+export function MetricsCards({
+  data: allData,
+  comparisonData: allComparisonData,
+  dateRange,
+  comparisonDateRange,
+  segments,
+  comparisonSegments,
+  isLoading,
+  error
+}: MetricsCardsProps) {
+  const [segment, setSegment] = useState<QuerySegmentFilter>('all')
+
+  const segmentData = segment !== 'all' ? segments?.[segment] : undefined
+  const data = segmentData || allData
+  const segmentComparisonData = segmentData && allComparisonData && comparisonSegments?.[segment as QuerySegment]
+    ? segmentComparison(segmentData, comparisonSegments[segment as QuerySegment])
+    : undefined
+  const comparisonData = segmentData ? segmentComparisonData : allComparisonData
+
   if (error) {
     return (
       <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
@@ -155,7 +192,7 @@ export function MetricsCards({ data, comparisonData, dateRange, comparisonDateRa
     },
   ]
 
-  return (
+  const cards = (
     <div className="grid grid-cols-4 gap-6">
       {metrics.map((metric) => (
         <MetricCard
@@ -167,4 +204,15 @@ export function MetricsCards({ data, comparisonData, dateRange, comparisonDateRa
       ))}
     </div>
   )
+
+  if (!segments) return cards
+
+  return (
+    <div data-testid="metrics-segments">
+      <div className="flex justify-end mb-3">
+        <QuerySegmentToggle value={segment} onChange={setSegment} />
+      </div>
+      {cards}
+    </div>
+  )
 }
\ No newline at end of file
@@ -6,6 +6,8 @@ import {
   Line,
   BarChart,
   Bar,
+  ComposedChart,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -16,6 +18,13 @@ import {
 import { format } from 'date-fns'
 import { TrendingUp } from 'lucide-react'
 import { getChartTypeFromData } from './utils/dateRange'
+import {
+  formatAccuracy,
+  forecastKey,
+  forecastRangeKey,
+  mergeForecast,
+  type ForecastOverlay,
+} from './utils/forecastOverlay'
 import type { ChartType } from './types'
 
 interface TimeSeriesData {
@@ -26,14 +35,23 @@ interface TimeSeriesData {
   purchases: number
 }
 
+// One line/bar set per series, e.g. one per ASIN in the comparison workspace
+export interface PerformanceSeries {
+  id: string
+  label: string
+  data: TimeSeriesData[]
+}
+
 interface PerformanceChartProps {
   data: TimeSeriesData[]
+  series?: PerformanceSeries[]
   comparisonData?: TimeSeriesData[]
   dateRange?: { start: string; end: string }
   comparisonDateRange?: { start: string; end: string }
   isLoading: boolean
   error: Error | null
   chartType?: ChartType // Allow explicit chart type override
+  forecast?: ForecastOverlay | null
 }
 
 type MetricType = 'impressions' | 'clicks' | 'cartAdds' | 'purchases' | 'all'
@@ -45,6 +63,8 @@ const metricConfig = {
   purchases: { label: 'Purchases', color: '#EF4444', yAxisId: 'right' },
 }
 
+const seriesColors = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16']
+
 function formatNumber(num: number): string {
   return new Intl.NumberFormat('en-US').format(num)
 }
@@ -67,7 +87,7 @@ function getComparisonLabel(label: string, comparisonDateRange?: { start: string
 const CustomTooltip = ({ active, payload, label, dateRange, comparisonDateRange }: any) => {
   if (active && payload && payload.length) {
     // Group metrics by current and comparison
-    const currentMetrics = payload.filter((p: any) => !p.dataKey.endsWith('Comp'))
+    const currentMetrics = payload.filter((p: any) => !p.dataKey.endsWith('Comp') && !p.dataKey.endsWith('ForecastRange'))
     const comparisonMetrics = payload.filter((p: any) => p.dataKey.endsWith('Comp'))
     
     return (
@@ -129,13 +149,24 @@ const CustomTooltip = ({ active, payload, label, dateRange, comparisonDateRange
   return null
 }
 
-export function PerformanceChart({ data, comparisonData, dateRange, comparisonDateRange, isLoading, error, chartType }: PerformanceChartProps) {
+export function PerformanceChart({ data, series, comparisonData, dateRange, comparisonDateRange, isLoading, error, chartType, forecast }: PerformanceChartProps) {
   const [selectedMetric, setSelectedMetric] = useState<MetricType>('impressions')
-  
+  const [showForecast, setShowForecast] = useState(true)
+  const isOverlay = !!series && series.length > 0
+  // Forecasts extend a single ASIN's history; they are not drawn for overlaid series
+  const hasForecast = !isOverlay && !!forecast && Object.values(forecast.series).some(points => points && points.length > 0)
+  const forecastVisible = hasForecast && showForecast
+
+  // Overlaid series are sized by the longest one
+  const primaryData = useMemo(() => {
+    if (!isOverlay) return data
+    return series!.reduce((longest, item) => item.data.length > longest.length ? item.data : longest, [] as TimeSeriesData[])
+  }, [isOverlay, series, data])
+
   // Determine chart type based on data length if not explicitly provided
   const effectiveChartType = useMemo(() => {
-    return chartType || getChartTypeFromData(data)
-  }, [chartType, data])
+    return chartType || getChartTypeFromData(primaryData)
+  }, [chartType, primaryData])
 
   if (isLoading) {
     return (
@@ -162,7 +193,7 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
     )
   }
 
-  if (!data || data.length === 0) {
+  if (!primaryData || primaryData.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
         <div className="text-center py-12">
@@ -175,8 +206,23 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
     )
   }
 
+  // Overlay: one column per series for the selected metric, merged by date
+  const overlayMetric = selectedMetric === 'all' ? 'impressions' : selectedMetric
+  const overlayData = isOverlay
+    ? Array.from(
+        series!.reduce((byDate, item) => {
+          item.data.forEach(point => {
+            const row = byDate.get(point.date) || { date: point.date }
+            row[item.id] = point[overlayMetric]
+            byDate.set(point.date, row)
+          })
+          return byDate
+        }, new Map<string, Record<string, string | number>>()).values()
+      ).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    : []
+
   // Combine current and comparison data if showing comparison
-  const chartData = data.map((item, index) => {
+  const periodData: Array<Record<string, any>> = isOverlay ? overlayData : data.map((item, index) => {
     const compItem = comparisonData?.[index]
     return {
       date: item.date,
@@ -192,6 +238,51 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
       }),
     }
   })
+  const chartData = forecastVisible ? mergeForecast(periodData, forecast) : periodData
+
+  const forecastMetrics = (selectedMetric === 'all' ? Object.keys(metricConfig) : [selectedMetric])
+    .filter(metric => forecast?.series[metric as keyof ForecastOverlay['series']]?.length) as Array<keyof typeof metricConfig>
+  const forecastAccuracy = selectedMetric === 'all'
+    ? null
+    : formatAccuracy(forecast?.accuracy?.[selectedMetric as keyof ForecastOverlay['series']])
+
+  // Dashed forecast line over a shaded confidence band
+  const renderForecast = () => {
+    if (!forecastVisible) return null
+
+    return forecastMetrics.map(metric => {
+      const config = metricConfig[metric]
+      const yAxisId = selectedMetric === 'all' ? config.yAxisId : undefined
+      return (
+        <React.Fragment key={`${metric}-forecast`}>
+          <Area
+            type="monotone"
+            dataKey={forecastRangeKey(metric)}
+            stroke="none"
+            fill={config.color}
+            fillOpacity={0.15}
+            yAxisId={yAxisId}
+            legendType="none"
+            tooltipType="none"
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey={forecastKey(metric)}
+            name={`${config.label} (Forecast)`}
+            stroke={config.color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            dot={false}
+            yAxisId={yAxisId}
+          />
+        </React.Fragment>
+      )
+    })
+  }
+
+  const LineContainer = forecastVisible ? ComposedChart : LineChart
+  const BarContainer = forecastVisible ? ComposedChart : BarChart
 
   const renderMetricButton = (metric: MetricType, label: string) => (
     <button
@@ -208,6 +299,17 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
   )
 
   const renderBars = () => {
+    if (isOverlay) {
+      return series!.map((item, index) => (
+        <Bar
+          key={item.id}
+          dataKey={item.id}
+          name={item.label}
+          fill={seriesColors[index % seriesColors.length]}
+        />
+      ))
+    }
+
     if (selectedMetric === 'all') {
       return (
         <>
@@ -259,6 +361,20 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
   }
 
   const renderLines = () => {
+    if (isOverlay) {
+      return series!.map((item, index) => (
+        <Line
+          key={item.id}
+          type="monotone"
+          dataKey={item.id}
+          name={item.label}
+          stroke={seriesColors[index % seriesColors.length]}
+          strokeWidth={2}
+          dot={false}
+        />
+      ))
+    }
+
     if (selectedMetric === 'all') {
       return (
         <>
@@ -337,6 +453,24 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
             )}
           </p>
         </div>
+        {hasForecast && (
+          <div className="flex items-center space-x-3">
+            {showForecast && forecastAccuracy && (
+              <span className="text-xs text-gray-500">{forecastAccuracy}</span>
+            )}
+            <button
+              onClick={() => setShowForecast(!showForecast)}
+              aria-pressed={showForecast}
+              className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
+                showForecast
+                  ? 'bg-purple-100 text-purple-700'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Forecast ({Math.round(forecast!.confidence * 100)}% CI)
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex flex-wrap gap-2 mb-6">
@@ -344,14 +478,18 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
         {renderMetricButton('clicks', 'Clicks')}
         {renderMetricButton('cartAdds', 'Cart Adds')}
         {renderMetricButton('purchases', 'Purchases')}
-        <div className="w-px bg-gray-300 mx-1" />
-        {renderMetricButton('all', 'View All')}
+        {!isOverlay && (
+          <>
+            <div className="w-px bg-gray-300 mx-1" />
+            {renderMetricButton('all', 'View All')}
+          </>
+        )}
       </div>
 
       <div data-testid="performance-chart" className="h-64 sm:h-80">
         <ResponsiveContainer width="100%" height="100%">
           {effectiveChartType === 'bar' ? (
-            <BarChart
+            <BarContainer
               data={chartData}
               margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
             >
@@ -362,7 +500,7 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
                 stroke="#6B7280"
                 fontSize={12}
               />
-              {selectedMetric === 'all' ? (
+              {selectedMetric === 'all' && !isOverlay ? (
                 <>
                   <YAxis 
                     yAxisId="left"
@@ -391,9 +529,10 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
                 iconType="square"
               />
               {renderBars()}
-            </BarChart>
+              {renderForecast()}
+            </BarContainer>
           ) : (
-            <LineChart
+            <LineContainer
               data={chartData}
               margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
             >
@@ -404,7 +543,7 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
               stroke="#6B7280"
               fontSize={12}
             />
-            {selectedMetric === 'all' ? (
+            {selectedMetric === 'all' && !isOverlay ? (
               <>
                 <YAxis 
                   yAxisId="left"
@@ -433,7 +572,8 @@ export function PerformanceChart({ data, comparisonData, dateRange, comparisonDa
               iconType="line"
             />
               {renderLines()}
-            </LineChart>
+              {renderForecast()}
+            </LineContainer>
           )}
         </ResponsiveContainer>
       </div>
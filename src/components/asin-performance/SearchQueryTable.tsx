@@ -1,8 +1,11 @@
 'use client'
 
 import React, { useState, useMemo } from 'react'
-import { ChevronUp, ChevronDown, Search, Download, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react'
+import { ChevronUp, ChevronDown, Search, Download, AlertCircle, ChevronLeft, ChevronRight, Star, EyeOff } from 'lucide-react'
 import { format } from 'date-fns'
+import { Tooltip } from '@/components/ui/Tooltip'
+import type { OpportunityComponents, OpportunityScore } from '@/services/dashboard/opportunity-scoring-service'
+import type { KeywordListType } from '@/services/keywords/keyword-list-schema'
 
 export interface SearchQueryData {
   searchQuery: string
@@ -18,6 +21,9 @@ export interface SearchQueryData {
   clickShare: number
   cartAddShare?: number
   purchaseShare: number
+  opportunity?: OpportunityScore
+  // On the ASIN's watchlist: pinned to the top and kept when searching
+  watched?: boolean
 }
 
 interface SearchQueryTableProps {
@@ -29,9 +35,23 @@ interface SearchQueryTableProps {
   error: Error | null
   onExport?: (data: SearchQueryData[]) => void
   onKeywordClick?: (keyword: string, rowData: SearchQueryData) => void
+  // Queries left out by the exclusion list, shown behind an "N excluded" toggle
+  excludedQueries?: string[]
+  // Moves a query onto a list, or off every list when listType is null
+  onKeywordListChange?: (keyword: string, listType: KeywordListType | null) => void
+  // Queries ticked for side-by-side keyword analysis; checkboxes show when onSelectionChange is set
+  selectedQueries?: string[]
+  onSelectionChange?: (queries: string[]) => void
 }
 
 type SortField = keyof SearchQueryData
+
+function getSortValue(row: SearchQueryData, field: SortField): string | number | undefined {
+  // Unscored rows sort below every scored row
+  if (field === 'opportunity') return row.opportunity?.score ?? -1
+  if (field === 'watched') return row.watched ? 1 : 0
+  return row[field]
+}
 type SortDirection = 'asc' | 'desc'
 
 function formatNumber(num: number): string {
@@ -52,12 +72,77 @@ function formatDateRange(start: string, end: string): string {
   return `${format(new Date(start), 'MMM d')} - ${format(new Date(end), 'MMM d, yyyy')}`
 }
 
-export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDateRange, isLoading, error, onExport, onKeywordClick }: SearchQueryTableProps) {
+const OPPORTUNITY_COMPONENT_LABELS: Record<keyof OpportunityComponents, string> = {
+  volume: 'Search volume',
+  shareGap: 'Purchase vs impression share',
+  conversion: 'CVR vs market',
+  price: 'Price vs market',
+  trend: 'Trend',
+}
+
+function getOpportunityClass(score: number): string {
+  if (score >= 70) return 'bg-green-100 text-green-800'
+  if (score >= 40) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-gray-100 text-gray-700'
+}
+
+function describeOpportunityInput(component: keyof OpportunityComponents, opportunity: OpportunityScore): string {
+  const { inputs } = opportunity
+  switch (component) {
+    case 'volume':
+      return formatNumber(inputs.searchQueryVolume)
+    case 'shareGap':
+      return `${formatPercentage(inputs.purchaseShare, 1)} vs ${formatPercentage(inputs.impressionShare, 1)}`
+    case 'conversion':
+      return inputs.asinCvr !== null && inputs.marketCvr !== null
+        ? `${formatPercentage(inputs.asinCvr, 1)} vs ${formatPercentage(inputs.marketCvr, 1)}`
+        : 'No data'
+    case 'price':
+      return inputs.asinPrice !== null && inputs.marketPrice !== null
+        ? `$${inputs.asinPrice.toFixed(2)} vs $${inputs.marketPrice.toFixed(2)}`
+        : 'No data'
+    case 'trend':
+      return inputs.trend || 'No data'
+  }
+}
+
+function OpportunityBreakdown({ opportunity }: { opportunity: OpportunityScore }) {
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="font-medium text-sm">Opportunity score {opportunity.score.toFixed(0)}</p>
+      {(Object.keys(OPPORTUNITY_COMPONENT_LABELS) as Array<keyof OpportunityComponents>).map(component => (
+        <div key={component} className="flex justify-between space-x-4">
+          <span>
+            {OPPORTUNITY_COMPONENT_LABELS[component]}
+            <span className="text-gray-400"> ({describeOpportunityInput(component, opportunity)})</span>
+          </span>
+          <span>+{opportunity.contributions[component].toFixed(1)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function SearchQueryTable({
+  data,
+  comparisonData,
+  dateRange,
+  comparisonDateRange,
+  isLoading,
+  error,
+  onExport,
+  onKeywordClick,
+  excludedQueries = [],
+  onKeywordListChange,
+  selectedQueries = [],
+  onSelectionChange
+}: SearchQueryTableProps) {
   const [sortField, setSortField] = useState<SortField>('impressions')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [searchTerm, setSearchTerm] = useState('')
   const [showShareMetrics, setShowShareMetrics] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
+  const [showExcluded, setShowExcluded] = useState(false)
   const itemsPerPage = 10
 
   // Create comparison data map for quick lookup
@@ -70,15 +155,15 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
   const filteredData = useMemo(() => {
     if (!searchTerm) return data
     return data.filter(item => 
-      item.searchQuery.toLowerCase().includes(searchTerm.toLowerCase())
+      item.watched || item.searchQuery.toLowerCase().includes(searchTerm.toLowerCase())
     )
   }, [data, searchTerm])
 
   // Sort data
   const sortedData = useMemo(() => {
     const sorted = [...filteredData].sort((a, b) => {
-      const aValue = a[sortField]
-      const bValue = b[sortField]
+      const aValue = getSortValue(a, sortField)
+      const bValue = getSortValue(b, sortField)
       
       if (typeof aValue === 'string') {
         return sortDirection === 'asc' 
@@ -90,7 +175,8 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
         ? (aValue as number) - (bValue as number)
         : (bValue as number) - (aValue as number)
     })
-    return sorted
+    // Watched queries stay on top in the chosen order
+    return [...sorted.filter(row => row.watched), ...sorted.filter(row => !row.watched)]
   }, [filteredData, sortField, sortDirection])
 
   // Paginate data
@@ -101,6 +187,8 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
 
   const totalPages = Math.ceil(sortedData.length / itemsPerPage)
 
+  const hasOpportunityScores = data.some(d => d.opportunity !== undefined)
+
   const handleSort = (field: SortField) => {
     if (field === sortField) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
@@ -155,7 +243,9 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
           <Search className="mx-auto h-12 w-12 text-gray-400 mb-4" />
           <p className="text-gray-900 font-medium">No search query data available</p>
           <p className="text-gray-500 text-sm mt-1">
-            Select an ASIN and date range to view search query performance
+            {excludedQueries.length > 0
+              ? `All ${excludedQueries.length} search queries are on the exclusion list`
+              : 'Select an ASIN and date range to view search query performance'}
           </p>
         </div>
       </div>
@@ -217,6 +307,17 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
               />
               <span className="text-gray-600">Show share metrics</span>
             </label>
+            {excludedQueries.length > 0 && (
+              <button
+                onClick={() => setShowExcluded(!showExcluded)}
+                aria-expanded={showExcluded}
+                className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+                data-testid="excluded-queries-toggle"
+              >
+                <EyeOff className="h-4 w-4" />
+                <span>{excludedQueries.length} excluded</span>
+              </button>
+            )}
           </div>
           {onExport && (
             <button
@@ -228,6 +329,29 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
             </button>
           )}
         </div>
+        {showExcluded && excludedQueries.length > 0 && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-lg" data-testid="excluded-queries">
+            <p className="text-xs text-gray-500 mb-2">
+              Left out of the table, charts and totals by the exclusion list
+            </p>
+            <ul className="flex flex-wrap gap-2">
+              {excludedQueries.map(query => (
+                <li key={query} className="flex items-center space-x-1 px-2 py-1 bg-white border border-gray-200 rounded text-sm text-gray-700">
+                  <span>{query}</span>
+                  {onKeywordListChange && (
+                    <button
+                      onClick={() => onKeywordListChange(query, null)}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                      aria-label={`Restore ${query}`}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {/* Table */}
@@ -298,6 +422,17 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
                   <SortIcon field="cvr" />
                 </button>
               </th>
+              {hasOpportunityScores && (
+                <th className="px-6 py-3 text-right">
+                  <button
+                    onClick={() => handleSort('opportunity')}
+                    className="flex items-center space-x-1 text-xs font-medium text-gray-500 uppercase tracking-wider hover:text-gray-700 ml-auto"
+                  >
+                    <span>Opportunity</span>
+                    <SortIcon field="opportunity" />
+                  </button>
+                </th>
+              )}
               {showShareMetrics && (
                 <>
                   <th className="px-6 py-3 text-right">
@@ -340,6 +475,11 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
                   </th>
                 </>
               )}
+              {onKeywordListChange && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lists
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -366,6 +506,22 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
                   aria-label={onKeywordClick ? `Click to analyze keyword: ${row.searchQuery}` : undefined}
                 >
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {onSelectionChange && (
+                      <input
+                        type="checkbox"
+                        checked={selectedQueries.includes(row.searchQuery)}
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        onChange={(e) => onSelectionChange(e.target.checked
+                          ? [...selectedQueries, row.searchQuery]
+                          : selectedQueries.filter(query => query !== row.searchQuery))}
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        aria-label={`Select ${row.searchQuery}`}
+                      />
+                    )}
+                    {row.watched && (
+                      <Star className="inline h-4 w-4 mr-1 text-yellow-500 fill-yellow-400" aria-label="Watched" />
+                    )}
                     {onKeywordClick ? (
                       <span className="hover:text-blue-600 hover:underline transition-colors">
                         {row.searchQuery}
@@ -422,6 +578,25 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
                       )}
                     </div>
                   </td>
+                  {hasOpportunityScores && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {row.opportunity ? (
+                        <Tooltip content={<OpportunityBreakdown opportunity={row.opportunity} />} side="left">
+                          <button
+                            type="button"
+                            onClick={(e) => e.stopPropagation()}
+                            onKeyDown={(e) => e.stopPropagation()}
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${getOpportunityClass(row.opportunity.score)}`}
+                            aria-label={`Opportunity score breakdown for ${row.searchQuery}`}
+                          >
+                            {row.opportunity.score.toFixed(0)}
+                          </button>
+                        </Tooltip>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  )}
                   {showShareMetrics && (
                     <>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
@@ -460,6 +635,34 @@ export function SearchQueryTable({ data, comparisonData, dateRange, comparisonDa
                       </td>
                     </>
                   )}
+                  {onKeywordListChange && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onKeywordListChange(row.searchQuery, row.watched ? null : 'watch')
+                        }}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        className={row.watched ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-400 hover:text-yellow-500'}
+                        aria-label={`${row.watched ? 'Unwatch' : 'Watch'} ${row.searchQuery}`}
+                      >
+                        <Star className={`h-4 w-4 ${row.watched ? 'fill-yellow-400' : ''}`} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onKeywordListChange(row.searchQuery, 'exclude')
+                        }}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Exclude ${row.searchQuery}`}
+                      >
+                        <EyeOff className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
                 </tr>
               )
             })}
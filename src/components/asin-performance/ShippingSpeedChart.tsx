@@ -0,0 +1,175 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Truck } from 'lucide-react'
+import { format } from 'date-fns'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import type { ShippingAnalysisReport, ShippingStage } from '@/services/dashboard/shipping-speed-service'
+
+interface ShippingSpeedChartProps {
+  data?: ShippingAnalysisReport
+  isLoading: boolean
+  error: Error | null
+  // Queries shown in the table
+  maxQueries?: number
+}
+
+const STAGE_LABELS: Record<ShippingStage, string> = {
+  clicks: 'Clicks',
+  cartAdds: 'Cart Adds',
+  purchases: 'Purchases',
+}
+
+const SPEEDS = [
+  { key: 'sameDay', label: 'Same-day', color: '#10b981' },
+  { key: 'oneDay', label: 'One-day', color: '#3b82f6' },
+  { key: 'twoDay', label: 'Two-day', color: '#94a3b8' },
+] as const
+
+function formatPercentage(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`
+}
+
+function formatPoints(points: number | null): string {
+  if (points === null) return '—'
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)} pts`
+}
+
+export function ShippingSpeedChart({ data, isLoading, error, maxQueries = 10 }: ShippingSpeedChartProps) {
+  const [stage, setStage] = useState<ShippingStage>('purchases')
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 animate-pulse" data-testid="shipping-speed-skeleton">
+        <div className="h-6 w-48 bg-gray-200 rounded mb-6"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-8">
+          <p className="text-red-800 font-medium">Error loading shipping analysis</p>
+          <p className="text-red-600 text-sm mt-1">{error.message}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!data || data.weeks.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="text-center py-12">
+          <Truck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-900 font-medium">No shipping data available</p>
+          <p className="text-gray-500 text-sm mt-1">
+            Select an ASIN and date range to view the market shipping-speed mix
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const chartData = data.weeks.map(week => ({
+    week: format(new Date(`${week.startDate}T00:00:00`), 'MMM d'),
+    sameDay: week.mix[stage].sameDayRatio * 100,
+    oneDay: week.mix[stage].oneDayRatio * 100,
+    twoDay: week.mix[stage].twoDayRatio * 100,
+  }))
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Shipping Speed Mix</h3>
+          <p className="text-sm text-gray-500">
+            Market {STAGE_LABELS[stage].toLowerCase()} by offered shipping speed on this ASIN&apos;s queries
+          </p>
+        </div>
+        <div className="flex space-x-1" role="group" aria-label="Funnel stage">
+          {(Object.keys(STAGE_LABELS) as ShippingStage[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setStage(key)}
+              aria-pressed={stage === key}
+              className={`px-3 py-1 text-sm rounded-md ${
+                stage === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {STAGE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+            <YAxis domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+            <Legend />
+            {SPEEDS.map(speed => (
+              <Bar key={speed.key} dataKey={speed.key} name={speed.label} stackId="mix" fill={speed.color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">Fast shipping share by query</h4>
+          <span className="text-sm text-gray-500">
+            {data.summary.flaggedQueries} of {data.summary.queriesAnalyzed} queries dominated by fast purchases
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Search Query</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Fast Clicks</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Fast Cart Adds</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Fast Purchases</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Purchase Lift</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Trend</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {data.queries.slice(0, maxQueries).map(query => (
+                <tr key={query.searchQuery} data-testid={`shipping-query-${query.searchQuery}`}>
+                  <td className="px-3 py-2 text-gray-900">
+                    {query.searchQuery}
+                    {query.flagged && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                        Fast shipping wins
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPercentage(query.mix.clicks.fastRatio)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPercentage(query.mix.cartAdds.fastRatio)}</td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900">{formatPercentage(query.mix.purchases.fastRatio)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPoints(query.fastPurchaseLift)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{formatPoints(query.fastPurchaseTrend)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
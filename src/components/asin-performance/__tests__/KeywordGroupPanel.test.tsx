@@ -0,0 +1,115 @@
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { KeywordGroupPanel } from '../KeywordGroupPanel'
+import type { KeywordGroupReport } from '@/services/keywords/keyword-group-service'
+
+const invalidateAll = vi.fn()
+
+vi.mock('@/lib/api/keyword-analysis', () => ({
+  useInvalidateKeywordQueries: () => ({ invalidateAll })
+}))
+
+const report: KeywordGroupReport = {
+  groups: [
+    {
+      groupId: 'group-1',
+      name: 'Electric',
+      color: '#3b82f6',
+      keywords: ['electric knife sharpener', 'electric sharpener'],
+      impressions: 1060,
+      clicks: 30,
+      cartAdds: 8,
+      purchases: 6,
+      marketImpressions: 10100,
+      marketClicks: 200,
+      marketCartAdds: 80,
+      marketPurchases: 40,
+      impressionShare: 1060 / 10100,
+      clickShare: 0.15,
+      cartAddShare: 0.1,
+      purchaseShare: 0.15,
+      ctr: 30 / 1060,
+      cvr: 0.2
+    }
+  ],
+  ungroupedKeywords: 12,
+  totalKeywords: 14
+}
+
+describe('KeywordGroupPanel', () => {
+  const renderPanel = () =>
+    render(
+      <KeywordGroupPanel
+        data={report}
+        isLoading={false}
+        error={null}
+        asin="B001"
+        startDate="2025-01-01"
+        endDate="2025-01-31"
+      />
+    )
+
+  beforeEach(() => {
+    global.fetch = vi.fn()
+    invalidateAll.mockClear()
+  })
+
+  it('shows group totals and shares', () => {
+    renderPanel()
+
+    const row = screen.getByTestId('keyword-group-group-1')
+    expect(within(row).getByText('1,060')).toBeInTheDocument()
+    expect(within(row).getByText('10.5%')).toBeInTheDocument()
+    expect(within(row).getByText('2')).toHaveAttribute('title', 'electric knife sharpener, electric sharpener')
+    expect(screen.getByText('12 of 14 keywords not in any group')).toBeInTheDocument()
+  })
+
+  it('creates an exact-list group and refreshes the keyword queries', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => ({ group: { id: 'group-2' } }) })
+    const user = userEvent.setup()
+    renderPanel()
+
+    await user.type(screen.getByLabelText('Group name'), 'Gift')
+    await user.selectOptions(screen.getByLabelText('Rule type'), 'exact')
+    await user.type(screen.getByLabelText('Rule keywords'), 'gift for dad{enter}knife gift set')
+    await user.click(screen.getByRole('button', { name: 'Create group' }))
+
+    expect((global.fetch as any).mock.calls[0][0]).toBe('/api/keyword-groups')
+    expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual({
+      name: 'Gift',
+      rules: [{ type: 'exact', keywords: ['gift for dad', 'knife gift set'] }]
+    })
+    expect(await screen.findByText('Created "Gift"')).toBeInTheDocument()
+    expect(invalidateAll).toHaveBeenCalled()
+  })
+
+  it('turns a suggested cluster into a group', async () => {
+    const suggestion = {
+      name: 'electric sharpener',
+      tokens: ['electric', 'sharpener'],
+      keywords: ['electric sharpener', 'sharpener electric'],
+      impressions: 600,
+      rules: [{ type: 'exact', keywords: ['electric sharpener', 'sharpener electric'] }]
+    }
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ suggestions: [suggestion] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ group: { id: 'group-3' } }) })
+    const user = userEvent.setup()
+    renderPanel()
+
+    await user.click(screen.getByRole('button', { name: /Suggest groups/ }))
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      '/api/keyword-groups/suggestions?asin=B001&startDate=2025-01-01&endDate=2025-01-31'
+    )
+
+    const item = (await screen.findByText('electric sharpener, sharpener electric')).closest('li')!
+    await user.click(within(item).getByRole('button', { name: 'Create group' }))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toEqual({
+      name: 'electric sharpener',
+      rules: suggestion.rules
+    })
+    expect(screen.queryByText('electric sharpener, sharpener electric')).not.toBeInTheDocument()
+  })
+})
\ No newline at end of file
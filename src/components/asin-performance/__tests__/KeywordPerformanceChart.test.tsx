@@ -8,6 +8,8 @@ import { KeywordPerformanceChart } from '../KeywordPerformanceChart'
 vi.mock('recharts', () => ({
   ResponsiveContainer: ({ children }: any) => <div data-testid="responsive-container">{children}</div>,
   LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
+  ComposedChart: ({ children }: any) => <div data-testid="composed-chart">{children}</div>,
+  Area: ({ dataKey }: any) => <div data-testid={`area-${dataKey}`} />,
   Line: ({ dataKey }: any) => <div data-testid={`line-${dataKey}`} />,
   XAxis: () => <div data-testid="x-axis" />,
   YAxis: () => <div data-testid="y-axis" />,
@@ -330,4 +332,49 @@ describe('KeywordPerformanceChart', () => {
     // Should still render but might show a note about limited data
     expect(screen.queryByText(/single data point/i)).toBeInTheDocument()
   })
+
+  describe('forecast overlay', () => {
+    const forecast = {
+      confidence: 0.95,
+      series: {
+        impressions: [
+          { date: '2024-01-10', value: 1150, lower: 900, upper: 1400 },
+          { date: '2024-01-17', value: 1180, lower: 850, upper: 1510 },
+        ],
+      },
+      accuracy: { impressions: 0.12 },
+    }
+
+    it('draws a dashed forecast line and confidence band for enabled volume metrics', () => {
+      render(
+        <KeywordPerformanceChart
+          data={mockData}
+          keyword="knife sharpener"
+          forecast={forecast}
+        />
+      )
+
+      expect(screen.getByTestId('composed-chart')).toBeInTheDocument()
+      expect(screen.getByTestId('line-impressionsForecast')).toBeInTheDocument()
+      expect(screen.getByTestId('area-impressionsForecastRange')).toBeInTheDocument()
+      expect(screen.getByText('Forecast (95% CI)')).toBeInTheDocument()
+      expect(screen.getByText('Impressions: ±12% backtest error')).toBeInTheDocument()
+    })
+
+    it('hides the forecast when toggled off', async () => {
+      const user = userEvent.setup()
+      render(
+        <KeywordPerformanceChart
+          data={mockData}
+          keyword="knife sharpener"
+          forecast={forecast}
+        />
+      )
+
+      await user.click(screen.getByLabelText('Show forecast'))
+
+      expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+      expect(screen.queryByTestId('line-impressionsForecast')).not.toBeInTheDocument()
+    })
+  })
 })
\ No newline at end of file
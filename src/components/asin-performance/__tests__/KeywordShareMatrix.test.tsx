@@ -0,0 +1,102 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { vi, describe, it, expect } from 'vitest'
+import { KeywordShareMatrix } from '../KeywordShareMatrix'
+
+const row = (searchQuery: string, impressions: number, impressionShare: number, purchaseShare: number) => ({
+  searchQuery,
+  impressions,
+  clicks: 0,
+  cartAdds: 0,
+  purchases: 0,
+  ctr: 0,
+  cvr: 0,
+  cartAddRate: 0,
+  purchaseRate: 0,
+  impressionShare,
+  clickShare: 0,
+  purchaseShare,
+})
+
+const mockData = [
+  { asin: 'B001', queries: [row('knife sharpener', 1000, 0.25, 0.2)] },
+  { asin: 'B002', queries: [row('knife sharpener', 800, 0.1, 0.35), row('whetstone', 300, 0.05, 0.1)] },
+]
+
+describe('KeywordShareMatrix', () => {
+  it('renders share cells per ASIN and the difference against the baseline', () => {
+    render(
+      <KeywordShareMatrix
+        data={mockData}
+        baseline="B001"
+        metric="purchaseShare"
+        onMetricChange={vi.fn()}
+        onBaselineChange={vi.fn()}
+        isLoading={false}
+        error={null}
+      />
+    )
+
+    const rows = screen.getAllByRole('row').slice(1)
+    expect(rows[0]).toHaveTextContent('knife sharpener')
+    expect(rows[0]).toHaveTextContent('20.0%')
+    expect(rows[0]).toHaveTextContent('35.0%')
+    expect(rows[0]).toHaveTextContent('+15.0 pts')
+    expect(rows[1]).toHaveTextContent('whetstone')
+    expect(rows[1]).toHaveTextContent('-')
+    expect(screen.getByRole('button', { name: 'B001 (baseline)' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('switches the share metric and baseline through callbacks', async () => {
+    const user = userEvent.setup()
+    const onMetricChange = vi.fn()
+    const onBaselineChange = vi.fn()
+
+    render(
+      <KeywordShareMatrix
+        data={mockData}
+        baseline="B001"
+        metric="purchaseShare"
+        onMetricChange={onMetricChange}
+        onBaselineChange={onBaselineChange}
+        isLoading={false}
+        error={null}
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Impression Share' }))
+    expect(onMetricChange).toHaveBeenCalledWith('impressionShare')
+
+    await user.click(screen.getByRole('button', { name: 'Use B002 as baseline' }))
+    expect(onBaselineChange).toHaveBeenCalledWith('B002')
+  })
+
+  it('renders loading and empty states', () => {
+    const { rerender } = render(
+      <KeywordShareMatrix
+        data={[]}
+        baseline={null}
+        metric="purchaseShare"
+        onMetricChange={vi.fn()}
+        onBaselineChange={vi.fn()}
+        isLoading={true}
+        error={null}
+      />
+    )
+    expect(screen.getByTestId('matrix-skeleton')).toBeInTheDocument()
+
+    rerender(
+      <KeywordShareMatrix
+        data={[]}
+        baseline={null}
+        metric="purchaseShare"
+        onMetricChange={vi.fn()}
+        onBaselineChange={vi.fn()}
+        isLoading={false}
+        error={null}
+      />
+    )
+    expect(screen.getByText('No search query data available')).toBeInTheDocument()
+  })
+})
\ No newline at end of file
@@ -377,4 +377,86 @@ describe('PerformanceChart', () => {
       expect(screen.getByRole('button', { name: /clicks/i })).toHaveClass('bg-blue-100')
     })
   })
+
+  describe('Overlaid series', () => {
+    const series = [
+      { id: 'B001', label: 'B001 (baseline)', data: mockTimeSeriesData },
+      { id: 'B002', label: 'B002', data: mockComparisonData },
+    ]
+
+    it('renders overlaid series without the View All option', () => {
+      render(
+        <PerformanceChart
+          data={[]}
+          series={series}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      expect(screen.getByTestId('performance-chart')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /purchases/i })).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /view all/i })).not.toBeInTheDocument()
+    })
+
+    it('renders empty state when no series has data', () => {
+      render(
+        <PerformanceChart
+          data={[]}
+          series={[{ id: 'B001', label: 'B001', data: [] }]}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      expect(screen.getByText('Select an ASIN and date range to view performance data')).toBeInTheDocument()
+    })
+  })
+
+  describe('Forecast overlay', () => {
+    const forecast = {
+      confidence: 0.9,
+      series: {
+        impressions: [
+          { date: '2024-01-12', value: 14500, lower: 12000, upper: 17000 },
+          { date: '2024-01-19', value: 14800, lower: 11500, upper: 18100 },
+        ],
+      },
+      accuracy: { impressions: 0.08 },
+    }
+
+    it('shows the forecast toggle and backtest accuracy for the selected metric', () => {
+      render(
+        <PerformanceChart
+          data={mockTimeSeriesData}
+          forecast={forecast}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      const toggle = screen.getByRole('button', { name: 'Forecast (90% CI)' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+      expect(screen.getByText('±8% backtest error')).toBeInTheDocument()
+
+      fireEvent.click(toggle)
+
+      expect(toggle).toHaveAttribute('aria-pressed', 'false')
+      expect(screen.queryByText('±8% backtest error')).not.toBeInTheDocument()
+    })
+
+    it('does not offer a forecast for overlaid series', () => {
+      render(
+        <PerformanceChart
+          data={[]}
+          series={[{ id: 'B001', label: 'B001', data: mockTimeSeriesData }]}
+          forecast={forecast}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      expect(screen.queryByRole('button', { name: /forecast/i })).not.toBeInTheDocument()
+    })
+  })
 })
\ No newline at end of file
@@ -1480,4 +1480,168 @@ describe('SearchQueryTable', () => {
       expect(row).toHaveClass('focus:outline-blue-500')
     })
   })
+
+  describe('Opportunity Scores', () => {
+    const opportunity = (score: number, searchQueryVolume: number) => ({
+      score,
+      components: { volume: 0.6, shareGap: 0.5, conversion: 0.75, price: 0.7, trend: 1 },
+      contributions: { volume: 18, shareGap: 12.5, conversion: 15, price: 7, trend: 15 },
+      inputs: {
+        searchQueryVolume,
+        impressionShare: 0.05,
+        purchaseShare: 0.2,
+        asinCvr: 0.2,
+        marketCvr: 0.1,
+        asinPrice: 24,
+        marketPrice: 30,
+        trend: 'emerging' as const,
+      },
+    })
+
+    const scoredQueries = mockSearchQueries.map((query, index) => ({
+      ...query,
+      opportunity: index < 3 ? opportunity([40, 85, 62][index], 10000 + index) : undefined,
+    }))
+
+    it('does not show the opportunity column without scores', () => {
+      render(
+        <SearchQueryTable
+          data={mockSearchQueries}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      expect(screen.queryByText('Opportunity')).not.toBeInTheDocument()
+    })
+
+    it('sorts by opportunity score with unscored queries last', async () => {
+      const user = userEvent.setup()
+
+      render(
+        <SearchQueryTable
+          data={scoredQueries}
+          isLoading={false}
+          error={null}
+        />
+      )
+
+      await user.click(screen.getByText('Opportunity'))
+
+      const rows = screen.getAllByRole('row').slice(1)
+      expect(rows[0]).toHaveTextContent('electric knife sharpener')
+      expect(rows[0]).toHaveTextContent('85')
+      expect(rows[1]).toHaveTextContent('work sharp knife sharpener')
+      expect(rows[2]).toHaveTextContent('knife sharpener')
+      expect(rows[3]).toHaveTextContent('-')
+    })
+
+    it('shows the score breakdown on hover without triggering the row click', async () => {
+      const user = userEvent.setup()
+      const onKeywordClick = vi.fn()
+
+      render(
+        <SearchQueryTable
+          data={scoredQueries}
+          isLoading={false}
+          error={null}
+          onKeywordClick={onKeywordClick}
+        />
+      )
+
+      const scoreButton = screen.getByRole('button', { name: 'Opportunity score breakdown for electric knife sharpener' })
+      await user.hover(scoreButton)
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('tooltip').length).toBeGreaterThan(0)
+      })
+      const tooltip = screen.getAllByRole('tooltip')[0]
+      expect(tooltip).toHaveTextContent('Opportunity score 85')
+      expect(tooltip).toHaveTextContent('CVR vs market (20.0% vs 10.0%)')
+      expect(tooltip).toHaveTextContent('Price vs market ($24.00 vs $30.00)')
+      expect(tooltip).toHaveTextContent('Trend (emerging)')
+
+      await user.click(scoreButton)
+      expect(onKeywordClick).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Keyword Lists', () => {
+    const watchedQueries = mockSearchQueries.map(query => ({
+      ...query,
+      watched: query.searchQuery === 'professional knife sharpener',
+    }))
+
+    it('pins watched queries to the top and keeps them when searching', async () => {
+      const user = userEvent.setup()
+      render(<SearchQueryTable data={watchedQueries} isLoading={false} error={null} />)
+
+      let rows = screen.getAllByRole('row')
+      expect(rows[1]).toHaveTextContent('professional knife sharpener')
+
+      await user.type(screen.getByPlaceholderText('Search queries...'), 'electric')
+      rows = screen.getAllByRole('row')
+      expect(rows).toHaveLength(3)
+      expect(rows[1]).toHaveTextContent('professional knife sharpener')
+      expect(rows[2]).toHaveTextContent('electric knife sharpener')
+    })
+
+    it('shows excluded queries behind an indicator and moves queries between lists', async () => {
+      const user = userEvent.setup()
+      const onKeywordListChange = vi.fn()
+      const onKeywordClick = vi.fn()
+
+      render(
+        <SearchQueryTable
+          data={watchedQueries}
+          isLoading={false}
+          error={null}
+          excludedQueries={['knife sharpener replacement belt', 'scissors']}
+          onKeywordListChange={onKeywordListChange}
+          onKeywordClick={onKeywordClick}
+        />
+      )
+
+      expect(screen.queryByTestId('excluded-queries')).not.toBeInTheDocument()
+      await user.click(screen.getByTestId('excluded-queries-toggle'))
+      expect(screen.getByTestId('excluded-queries-toggle')).toHaveTextContent('2 excluded')
+      expect(screen.getByTestId('excluded-queries')).toHaveTextContent('scissors')
+
+      await user.click(screen.getByRole('button', { name: 'Restore scissors' }))
+      await user.click(screen.getByRole('button', { name: 'Exclude knife sharpener' }))
+      await user.click(screen.getByRole('button', { name: 'Unwatch professional knife sharpener' }))
+
+      expect(onKeywordListChange.mock.calls).toEqual([
+        ['scissors', null],
+        ['knife sharpener', 'exclude'],
+        ['professional knife sharpener', null],
+      ])
+      expect(onKeywordClick).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Query selection', () => {
+    it('ticks queries without opening the keyword', async () => {
+      const onKeywordClick = vi.fn()
+      const onSelectionChange = vi.fn()
+      const user = userEvent.setup()
+
+      render(
+        <SearchQueryTable
+          data={mockSearchQueries}
+          isLoading={false}
+          error={null}
+          onKeywordClick={onKeywordClick}
+          selectedQueries={['knife sharpener']}
+          onSelectionChange={onSelectionChange}
+        />
+      )
+
+      expect(screen.getByLabelText('Select knife sharpener')).toBeChecked()
+      await user.click(screen.getByLabelText('Select electric knife sharpener'))
+
+      expect(onSelectionChange).toHaveBeenCalledWith(['knife sharpener', 'electric knife sharpener'])
+      expect(onKeywordClick).not.toHaveBeenCalled()
+    })
+  })
 })
\ No newline at end of file
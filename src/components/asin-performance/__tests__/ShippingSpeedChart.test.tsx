@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ShippingSpeedChart } from '../ShippingSpeedChart'
+import { analyzeShippingSpeed, ShippingWeekRow } from '@/services/dashboard/shipping-speed-service'
+
+vi.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => <div data-testid="responsive-container">{children}</div>,
+  BarChart: ({ children, data }: any) => (
+    <div data-testid="bar-chart" data-points={JSON.stringify(data)}>{children}</div>
+  ),
+  Bar: ({ name }: any) => <div data-testid="bar">{name}</div>,
+  XAxis: () => <div />,
+  YAxis: () => <div />,
+  CartesianGrid: () => <div />,
+  Tooltip: () => <div />,
+  Legend: () => <div />,
+}))
+
+const row = (searchQuery: string, samePurchases: number, twoDayPurchases: number): ShippingWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  end_date: '2025-01-11',
+  search_query: searchQuery,
+  search_query_volume: 1000,
+  asin_purchase_count: 1,
+  total_same_day_shipping_click_count: 20,
+  total_one_day_shipping_click_count: 0,
+  total_two_day_shipping_click_count: 80,
+  total_same_day_shipping_cart_add_count: 10,
+  total_one_day_shipping_cart_add_count: 0,
+  total_two_day_shipping_cart_add_count: 10,
+  total_same_day_shipping_purchase_count: samePurchases,
+  total_one_day_shipping_purchase_count: 0,
+  total_two_day_shipping_purchase_count: twoDayPurchases,
+})
+
+const analysis = analyzeShippingSpeed([row('knife sharpener', 16, 4), row('honing rod', 4, 16)])
+const report = { ...analysis, summary: { queriesAnalyzed: 2, flaggedQueries: 1 } }
+
+describe('ShippingSpeedChart', () => {
+  it('flags queries where fast shipping wins the purchases', () => {
+    render(<ShippingSpeedChart data={report} isLoading={false} error={null} />)
+
+    const flagged = screen.getByTestId('shipping-query-knife sharpener')
+    expect(within(flagged).getByText('Fast shipping wins')).toBeInTheDocument()
+    expect(within(flagged).getByText('80.0%')).toBeInTheDocument()
+    expect(within(flagged).getByText('+60.0 pts')).toBeInTheDocument()
+    expect(within(screen.getByTestId('shipping-query-honing rod')).queryByText('Fast shipping wins')).not.toBeInTheDocument()
+    expect(screen.getByText('1 of 2 queries dominated by fast purchases')).toBeInTheDocument()
+  })
+
+  it('switches the weekly mix between funnel stages', async () => {
+    render(<ShippingSpeedChart data={report} isLoading={false} error={null} />)
+
+    const points = () => JSON.parse(screen.getByTestId('bar-chart').getAttribute('data-points')!)
+    expect(points()[0].sameDay).toBeCloseTo(50)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Clicks' }))
+    expect(screen.getByRole('button', { name: 'Clicks' })).toHaveAttribute('aria-pressed', 'true')
+    expect(points()[0].sameDay).toBeCloseTo(20)
+    expect(points()[0].twoDay).toBeCloseTo(80)
+  })
+})
\ No newline at end of file
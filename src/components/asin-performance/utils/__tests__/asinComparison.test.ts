@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildKeywordShareMatrix,
+  parseComparisonAsins,
+  resolveBaseline,
+  MAX_COMPARISON_ASINS,
+} from '../asinComparison'
+import type { SearchQueryData } from '../../SearchQueryTable'
+
+const query = (searchQuery: string, impressions: number, purchaseShare: number): SearchQueryData => ({
+  searchQuery,
+  impressions,
+  clicks: 0,
+  cartAdds: 0,
+  purchases: 0,
+  ctr: 0,
+  cvr: 0,
+  cartAddRate: 0,
+  purchaseRate: 0,
+  impressionShare: 0.1,
+  clickShare: 0.1,
+  purchaseShare,
+})
+
+describe('asinComparison utilities', () => {
+  describe('parseComparisonAsins', () => {
+    it('should normalize, dedupe and cap the ASIN list', () => {
+      expect(parseComparisonAsins(null)).toEqual([])
+      expect(parseComparisonAsins('b001, B002,,b001')).toEqual(['B001', 'B002'])
+
+      const many = Array.from({ length: 15 }, (_, i) => `B${String(i).padStart(3, '0')}`).join(',')
+      expect(parseComparisonAsins(many)).toHaveLength(MAX_COMPARISON_ASINS)
+    })
+  })
+
+  describe('resolveBaseline', () => {
+    it('should fall back to the first ASIN when the baseline is not compared', () => {
+      expect(resolveBaseline(['B001', 'B002'], 'B002')).toBe('B002')
+      expect(resolveBaseline(['B001', 'B002'], 'B999')).toBe('B001')
+      expect(resolveBaseline([], 'B001')).toBeNull()
+    })
+  })
+
+  describe('buildKeywordShareMatrix', () => {
+    it('should build a queries x ASINs matrix ordered by combined impressions', () => {
+      const rows = buildKeywordShareMatrix([
+        { asin: 'B001', queries: [query('knife sharpener', 1000, 0.2), query('whetstone', 100, 0.05)] },
+        { asin: 'B002', queries: [query('Knife Sharpener', 500, 0.3), query('honing rod', 2000, 0.1)] },
+      ], 'purchaseShare', 'B001')
+
+      expect(rows.map(row => row.searchQuery)).toEqual(['honing rod', 'knife sharpener', 'whetstone'])
+      expect(rows[1].shares).toEqual({ B001: 0.2, B002: 0.3 })
+      expect(rows[1].totalImpressions).toBe(1500)
+    })
+
+    it('should compare the best non-baseline ASIN with the baseline', () => {
+      const rows = buildKeywordShareMatrix([
+        { asin: 'B001', queries: [query('knife sharpener', 1000, 0.2), query('whetstone', 100, 0.05)] },
+        { asin: 'B002', queries: [query('knife sharpener', 500, 0.3), query('honing rod', 2000, 0.1)] },
+        { asin: 'B003', queries: [query('knife sharpener', 500, 0.1)] },
+      ], 'purchaseShare', 'B001')
+
+      const byQuery = Object.fromEntries(rows.map(row => [row.searchQuery, row]))
+      expect(byQuery['knife sharpener'].leader).toBe('B002')
+      expect(byQuery['knife sharpener'].baselineDifference).toBeCloseTo(0.1)
+      // Baseline without data counts as zero share
+      expect(byQuery['honing rod'].baselineDifference).toBeCloseTo(0.1)
+      // Only the baseline has data
+      expect(byQuery['whetstone'].baselineDifference).toBeNull()
+      expect(byQuery['whetstone'].shares.B002).toBeNull()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,99 @@
+import type { SearchQueryData } from '../SearchQueryTable'
+
+export const MAX_COMPARISON_ASINS = 10
+
+export type ShareMetric = 'impressionShare' | 'clickShare' | 'purchaseShare'
+
+export const SHARE_METRICS: Record<ShareMetric, string> = {
+  impressionShare: 'Impression Share',
+  clickShare: 'Click Share',
+  purchaseShare: 'Purchase Share',
+}
+
+export interface AsinQueries {
+  asin: string
+  queries: SearchQueryData[]
+}
+
+export interface KeywordMatrixRow {
+  searchQuery: string
+  // Impressions summed across the compared ASINs, used for ordering
+  totalImpressions: number
+  // Share per ASIN (0-1); null when the ASIN has no data for the query
+  shares: Record<string, number | null>
+  // Best non-baseline share minus the baseline share; a baseline without data counts as 0
+  baselineDifference: number | null
+  // ASIN holding the best non-baseline share
+  leader: string | null
+}
+
+/**
+ * Parse the comma-separated `asins` URL parameter
+ * @param value - Raw parameter value
+ * @returns Unique, upper-cased ASINs, capped at MAX_COMPARISON_ASINS
+ */
+export function parseComparisonAsins(value: string | null): string[] {
+  if (!value) return []
+  const asins = value
+    .split(',')
+    .map(asin => asin.trim().toUpperCase())
+    .filter(Boolean)
+  return Array.from(new Set(asins)).slice(0, MAX_COMPARISON_ASINS)
+}
+
+/**
+ * Resolve the baseline ASIN, falling back to the first compared ASIN
+ * @param asins - Compared ASINs
+ * @param baseline - Requested baseline
+ * @returns The baseline ASIN or null when nothing is compared
+ */
+export function resolveBaseline(asins: string[], baseline: string | null): string | null {
+  if (baseline && asins.includes(baseline)) return baseline
+  return asins[0] || null
+}
+
+/**
+ * Build a queries x ASINs share matrix with the difference against the baseline ASIN
+ * @param data - Top queries per ASIN
+ * @param metric - Share metric shown in the cells
+ * @param baseline - Baseline ASIN
+ * @returns Rows ordered by combined impressions
+ */
+export function buildKeywordShareMatrix(
+  data: AsinQueries[],
+  metric: ShareMetric,
+  baseline: string | null
+): KeywordMatrixRow[] {
+  const rows = new Map<string, KeywordMatrixRow>()
+  const asins = data.map(item => item.asin)
+
+  data.forEach(({ asin, queries }) => {
+    queries.forEach(query => {
+      const key = query.searchQuery.toLowerCase()
+      const row = rows.get(key) || {
+        searchQuery: query.searchQuery,
+        totalImpressions: 0,
+        shares: Object.fromEntries(asins.map(item => [item, null])),
+        baselineDifference: null,
+        leader: null,
+      }
+      row.totalImpressions += query.impressions
+      row.shares[asin] = query[metric]
+      rows.set(key, row)
+    })
+  })
+
+  rows.forEach(row => {
+    const others = asins
+      .filter(asin => asin !== baseline && row.shares[asin] !== null)
+      .sort((a, b) => (row.shares[b] as number) - (row.shares[a] as number))
+    if (others.length === 0) return
+
+    row.leader = others[0]
+    const leaderShare = row.shares[others[0]] as number
+    const baselineShare = baseline ? row.shares[baseline] : null
+    row.baselineDifference = leaderShare - (baselineShare ?? 0)
+  })
+
+  return Array.from(rows.values()).sort((a, b) => b.totalImpressions - a.totalImpressions)
+}
\ No newline at end of file
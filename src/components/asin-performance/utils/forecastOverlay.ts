@@ -0,0 +1,67 @@
+import type { ForecastMetric, ForecastPoint, ForecastReport } from '@/services/dashboard/forecasting-service'
+
+export interface ForecastOverlay {
+  series: Partial<Record<ForecastMetric, ForecastPoint[]>>
+  // Backtested mean absolute percentage error per metric (0-1)
+  accuracy?: Partial<Record<ForecastMetric, number | null>>
+  confidence: number
+}
+
+export function toForecastOverlay(report?: ForecastReport | null): ForecastOverlay | null {
+  if (!report) return null
+
+  const overlay: ForecastOverlay = { series: {}, accuracy: {}, confidence: report.confidence }
+  Object.entries(report.metrics).forEach(([metric, forecast]) => {
+    if (!forecast) return
+    overlay.series[metric as ForecastMetric] = forecast.points
+    overlay.accuracy![metric as ForecastMetric] = forecast.backtest?.mape ?? null
+  })
+  return overlay
+}
+
+export const forecastKey = (metric: string) => `${metric}Forecast`
+export const forecastRangeKey = (metric: string) => `${metric}ForecastRange`
+
+/**
+ * Append forecast weeks to chart rows. Each forecast metric gets a value column
+ * for the dashed line and a [lower, upper] column for the confidence band; the
+ * last actual week is seeded with its own value so the line joins the history.
+ */
+export function mergeForecast(
+  rows: Array<Record<string, any>>,
+  forecast?: ForecastOverlay | null
+): Array<Record<string, any>> {
+  if (!forecast || rows.length === 0) return rows
+
+  const merged: Array<Record<string, any>> = rows.map(row => ({ ...row }))
+  const byDate = new Map(merged.map(row => [row.date, row]))
+  const last = merged[merged.length - 1]
+
+  Object.entries(forecast.series).forEach(([metric, points]) => {
+    if (!points || points.length === 0) return
+
+    const actual = last[metric]
+    if (typeof actual === 'number') {
+      last[forecastKey(metric)] = actual
+      last[forecastRangeKey(metric)] = [actual, actual]
+    }
+
+    points.forEach(point => {
+      let row = byDate.get(point.date)
+      if (!row) {
+        row = { date: point.date }
+        byDate.set(point.date, row)
+        merged.push(row)
+      }
+      row[forecastKey(metric)] = point.value
+      row[forecastRangeKey(metric)] = [point.lower, point.upper]
+    })
+  })
+
+  return merged.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+export function formatAccuracy(mape: number | null | undefined): string | null {
+  if (mape === null || mape === undefined) return null
+  return `±${(mape * 100).toFixed(0)}% backtest error`
+}
\ No newline at end of file
@@ -0,0 +1,303 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { CheckCircle2, ClipboardCheck, Lock } from 'lucide-react'
+import type { ReviewQueueItem, ReviewReason } from '@/services/brands/brand-review-service'
+
+interface BrandOption {
+  id: string
+  display_name: string
+}
+
+interface BrandReviewQueueProps {
+  brands: BrandOption[]
+  pageSize?: number
+}
+
+const REASON_FILTERS: Array<{ id: ReviewReason | ''; label: string }> = [
+  { id: '', label: 'All' },
+  { id: 'unmapped', label: 'Unmapped' },
+  { id: 'low_confidence', label: 'Low confidence' }
+]
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`)
+
+// The brand a row is approved as unless the reviewer picks another
+const suggestedBrand = (item: ReviewQueueItem) => item.candidates[0]?.brand_id || item.current_brand_id || ''
+
+export function BrandReviewQueue({ brands, pageSize = 50 }: BrandReviewQueueProps) {
+  const [reason, setReason] = useState<ReviewReason | ''>('')
+  const [offset, setOffset] = useState(0)
+  const [items, setItems] = useState<ReviewQueueItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [overrideBrand, setOverrideBrand] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const brandName = (brandId: string | null) =>
+    brandId ? brands.find(brand => brand.id === brandId)?.display_name || brandId : '—'
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(pageSize), offset: String(offset) })
+      if (reason) params.set('reason', reason)
+
+      const response = await fetch(`/api/brands/review?${params}`)
+      if (!response.ok) return
+      const data = await response.json()
+      setItems(data.items || [])
+      setTotal(data.total || 0)
+      setChoices(Object.fromEntries((data.items || []).map((item: ReviewQueueItem) => [item.asin, suggestedBrand(item)])))
+      setSelected(new Set())
+    } catch (error) {
+      console.error('Failed to load brand review queue:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [offset, pageSize, reason])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const submit = async (decisions: Array<{ asin: string; brand_id: string; action: 'approve' | 'override' }>) => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/brands/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decisions })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details?.[0]?.message || data.details || data.error || 'Failed to save decisions' })
+        return
+      }
+      setMessage({ type: 'success', text: data.message })
+      await loadQueue()
+    } catch (error) {
+      console.error('Failed to save brand review decisions:', error)
+      setMessage({ type: 'error', text: 'Failed to save decisions' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Rows whose chosen brand is a suggestion or the current brand are approvals; anything else overrides
+  const decisionFor = (item: ReviewQueueItem, brandId: string) => ({
+    asin: item.asin,
+    brand_id: brandId,
+    action: (brandId === item.current_brand_id || item.candidates.some(candidate => candidate.brand_id === brandId)
+      ? 'approve'
+      : 'override') as 'approve' | 'override'
+  })
+
+  const selectedItems = items.filter(item => selected.has(item.asin))
+
+  const approveSelected = () => {
+    submit(selectedItems.filter(item => choices[item.asin]).map(item => decisionFor(item, choices[item.asin])))
+  }
+
+  const overrideSelected = () => {
+    submit(selectedItems.map(item => ({ asin: item.asin, brand_id: overrideBrand, action: 'override' as const })))
+  }
+
+  const toggle = (asin: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(asin)) {
+        next.delete(asin)
+      } else {
+        next.add(asin)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(selected.size === items.length ? new Set() : new Set(items.map(item => item.asin)))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6" data-testid="brand-review-queue">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-gray-400" />
+          Brand Mapping Review
+          <span className="text-sm font-normal text-gray-500">{total.toLocaleString()} waiting</span>
+        </h2>
+        <div className="flex items-center gap-1">
+          {REASON_FILTERS.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => {
+                setReason(filter.id)
+                setOffset(0)
+              }}
+              className={`px-3 py-1 text-sm rounded-md ${reason === filter.id ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <button
+          onClick={approveSelected}
+          disabled={isSaving || selectedItems.length === 0}
+          className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+          Approve {selectedItems.length} selected
+        </button>
+        <span className="text-gray-400">or</span>
+        <select
+          aria-label="Override brand"
+          value={overrideBrand}
+          onChange={(e) => setOverrideBrand(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">Choose a brand...</option>
+          {brands.map(brand => (
+            <option key={brand.id} value={brand.id}>{brand.display_name}</option>
+          ))}
+        </select>
+        <button
+          onClick={overrideSelected}
+          disabled={isSaving || selectedItems.length === 0 || !overrideBrand}
+          className="px-3 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Override selected
+        </button>
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <Lock className="w-3 h-3" />
+          Reviewed mappings are locked against automatic matching
+        </span>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+          role="status"
+        >
+          {message.text}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading review queue...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing to review</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+              <th className="w-8 py-2">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={selected.size === items.length}
+                  onChange={toggleAll}
+                />
+              </th>
+              <th className="text-left font-medium py-2">ASIN</th>
+              <th className="text-left font-medium py-2">Title</th>
+              <th className="text-left font-medium py-2">Current</th>
+              <th className="text-left font-medium py-2">Confidence</th>
+              <th className="text-left font-medium py-2">Suggestions</th>
+              <th className="text-left font-medium py-2">Brand</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.asin} data-testid={`review-${item.asin}`} className="border-b border-gray-100 align-top">
+                <td className="py-2 text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${item.asin}`}
+                    checked={selected.has(item.asin)}
+                    onChange={() => toggle(item.asin)}
+                  />
+                </td>
+                <td className="py-2 pr-2 font-mono text-xs">{item.asin}</td>
+                <td className="py-2 pr-2 text-gray-700 max-w-sm truncate" title={item.product_title}>{item.product_title}</td>
+                <td className="py-2 pr-2 text-gray-700">
+                  {item.reason === 'unmapped' ? <span className="text-gray-400">Unmapped</span> : brandName(item.current_brand_id)}
+                </td>
+                <td className="py-2 pr-2 text-gray-700">
+                  {item.reason === 'unmapped' ? '—' : `${formatPercent(item.confidence_score)} of ${formatPercent(item.confidence_threshold)}`}
+                </td>
+                <td className="py-2 pr-2 text-xs text-gray-600">
+                  {item.candidates.length === 0 ? (
+                    <span className="text-gray-400">No suggestions</span>
+                  ) : item.candidates.map(candidate => (
+                    <div key={candidate.brand_id}>
+                      {brandName(candidate.brand_id)} · {formatPercent(candidate.score)}
+                      <span className="ml-1 text-gray-400">
+                        ({candidate.sources.map(source => source === 'rule' ? `rule "${candidate.rule?.pattern}"` : 'title match').join(', ')})
+                      </span>
+                    </div>
+                  ))}
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    aria-label={`Brand for ${item.asin}`}
+                    value={choices[item.asin] || ''}
+                    onChange={(e) => setChoices({ ...choices, [item.asin]: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                  >
+                    <option value="">Choose...</option>
+                    {brands.map(brand => (
+                      <option key={brand.id} value={brand.id}>{brand.display_name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2">
+                  <button
+                    onClick={() => submit([decisionFor(item, choices[item.asin])])}
+                    disabled={isSaving || !choices[item.asin]}
+                    className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {total > pageSize && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            {offset + 1}–{Math.min(offset + pageSize, total)} of {total.toLocaleString()}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(offset - pageSize, 0))}
+              disabled={offset === 0}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + pageSize)}
+              disabled={offset + pageSize >= total}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
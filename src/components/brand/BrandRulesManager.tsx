@@ -0,0 +1,503 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FlaskConical, Pencil, Trash2 } from 'lucide-react'
+import type { BrandExtractionRule } from '@/types/brand'
+import type { RuleMatch, RulePreview, RulePreviewStatus } from '@/services/brands/brand-rule-engine'
+
+type RuleType = BrandExtractionRule['rule_type']
+
+interface BrandOption {
+  id: string
+  display_name: string
+}
+
+interface BrandRulesManagerProps {
+  brands: BrandOption[]
+}
+
+interface RuleForm {
+  id?: string
+  brand_id: string
+  rule_type: RuleType
+  pattern: string
+  priority: number
+  is_case_sensitive: boolean
+  is_active: boolean
+  confidence_threshold: number
+}
+
+type RuleTestResult = RulePreview & { truncated: boolean }
+
+const RULE_TYPES: Array<{ id: RuleType; label: string }> = [
+  { id: 'contains', label: 'Contains' },
+  { id: 'exact', label: 'Exact' },
+  { id: 'prefix', label: 'Starts with' },
+  { id: 'suffix', label: 'Ends with' },
+  { id: 'regex', label: 'Regex' }
+]
+
+const STATUS_LABELS: Record<RulePreviewStatus, string> = {
+  reassign: 'Reassign',
+  new: 'New mapping',
+  protected: 'Protected',
+  outranked: 'Outranked',
+  below_threshold: 'Below threshold',
+  unchanged: 'Unchanged'
+}
+
+const STATUS_STYLES: Record<RulePreviewStatus, string> = {
+  reassign: 'bg-yellow-100 text-yellow-800',
+  new: 'bg-green-100 text-green-800',
+  protected: 'bg-gray-100 text-gray-600',
+  outranked: 'bg-red-100 text-red-800',
+  below_threshold: 'bg-orange-100 text-orange-800',
+  unchanged: 'bg-gray-50 text-gray-500'
+}
+
+const emptyForm = (brandId = ''): RuleForm => ({
+  brand_id: brandId,
+  rule_type: 'contains',
+  pattern: '',
+  priority: 0,
+  is_case_sensitive: false,
+  is_active: true,
+  confidence_threshold: 0.8
+})
+
+const isAssignable = (status: RulePreviewStatus) => status === 'new' || status === 'reassign'
+
+const errorText = (data: any, fallback: string) =>
+  data?.details?.[0]?.message || data?.details || data?.error || fallback
+
+export function BrandRulesManager({ brands }: BrandRulesManagerProps) {
+  const [rules, setRules] = useState<BrandExtractionRule[]>([])
+  const [form, setForm] = useState<RuleForm>(() => emptyForm(brands[0]?.id))
+  const [result, setResult] = useState<RuleTestResult | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState<'test' | 'save' | 'apply' | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const brandName = (brandId: string | null) =>
+    brandId ? brands.find(brand => brand.id === brandId)?.display_name || brandId : '—'
+
+  const describeMatch = (match: RuleMatch) =>
+    `${brandName(match.brand_id)} · ${match.rule_type} "${match.pattern}" · P${match.priority} · ${Math.round(match.confidence * 100)}%`
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/brands/rules')
+      if (!response.ok) return
+      const data = await response.json()
+      setRules(data.rules || [])
+    } catch (error) {
+      console.error('Failed to load extraction rules:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  useEffect(() => {
+    if (!form.brand_id && brands.length > 0) {
+      setForm(current => ({ ...current, brand_id: brands[0].id }))
+    }
+  }, [brands, form.brand_id])
+
+  // Any edit invalidates the last test run
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => ({ ...current, ...changes }))
+    setResult(null)
+  }
+
+  const editRule = (rule: BrandExtractionRule) => {
+    setForm({
+      id: rule.id,
+      brand_id: rule.brand_id,
+      rule_type: rule.rule_type,
+      pattern: rule.pattern,
+      priority: rule.priority,
+      is_case_sensitive: rule.is_case_sensitive,
+      is_active: rule.is_active,
+      confidence_threshold: rule.confidence_threshold
+    })
+    setResult(null)
+    setMessage(null)
+  }
+
+  const resetForm = () => {
+    setForm(emptyForm(brands[0]?.id))
+    setResult(null)
+  }
+
+  const testRule = async () => {
+    setBusy('test')
+    setMessage(null)
+    try {
+      const response = await fetch('/api/brands/rules/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule: form })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to test rule') })
+        return
+      }
+      setResult(data)
+      setSelected(new Set(data.items.filter((item: any) => isAssignable(item.status)).map((item: any) => item.asin)))
+    } catch (error) {
+      console.error('Failed to test extraction rule:', error)
+      setMessage({ type: 'error', text: 'Failed to test rule' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  // Saves the rule without touching existing mappings
+  const saveRule = async () => {
+    setBusy('save')
+    setMessage(null)
+    try {
+      const { id, ...fields } = form
+      const response = await fetch(id ? `/api/brands/rules/${id}` : '/api/brands/rules', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to save rule') })
+        return
+      }
+      setMessage({ type: 'success', text: data.message })
+      resetForm()
+      await loadRules()
+    } catch (error) {
+      console.error('Failed to save extraction rule:', error)
+      setMessage({ type: 'error', text: 'Failed to save rule' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const applyRule = async () => {
+    setBusy('apply')
+    setMessage(null)
+    try {
+      const response = await fetch('/api/brands/rules/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule: form, asins: Array.from(selected) })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to apply rule') })
+        return
+      }
+      setMessage({ type: 'success', text: data.message })
+      resetForm()
+      await loadRules()
+    } catch (error) {
+      console.error('Failed to apply extraction rule:', error)
+      setMessage({ type: 'error', text: 'Failed to apply rule' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const deleteRule = async (rule: BrandExtractionRule) => {
+    if (!window.confirm(`Delete the ${rule.rule_type} rule "${rule.pattern}"? ASINs it mapped keep their brand.`)) return
+
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/brands/rules/${rule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to delete rule') })
+        return
+      }
+      if (form.id === rule.id) resetForm()
+      await loadRules()
+    } catch (error) {
+      console.error('Failed to delete extraction rule:', error)
+      setMessage({ type: 'error', text: 'Failed to delete rule' })
+    }
+  }
+
+  const toggleAsin = (asin: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(asin)) {
+        next.delete(asin)
+      } else {
+        next.add(asin)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+          <FlaskConical className="w-5 h-5 text-gray-400" />
+          {form.id ? 'Edit extraction rule' : 'New extraction rule'}
+        </h2>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Brand</span>
+            <select
+              aria-label="Brand"
+              value={form.brand_id}
+              onChange={(e) => updateForm({ brand_id: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {brands.map(brand => (
+                <option key={brand.id} value={brand.id}>{brand.display_name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Match</span>
+            <select
+              aria-label="Rule type"
+              value={form.rule_type}
+              onChange={(e) => updateForm({ rule_type: e.target.value as RuleType })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {RULE_TYPES.map(type => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 flex-1 min-w-[200px]">
+            <span className="block mb-1">Pattern</span>
+            <input
+              type="text"
+              aria-label="Pattern"
+              value={form.pattern}
+              onChange={(e) => updateForm({ pattern: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Priority</span>
+            <input
+              type="number"
+              aria-label="Priority"
+              min={0}
+              value={form.priority}
+              onChange={(e) => updateForm({ priority: parseInt(e.target.value) || 0 })}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Min confidence</span>
+            <input
+              type="number"
+              aria-label="Confidence threshold"
+              min={0}
+              max={1}
+              step={0.05}
+              value={form.confidence_threshold}
+              onChange={(e) => updateForm({ confidence_threshold: parseFloat(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={form.is_case_sensitive}
+              onChange={(e) => updateForm({ is_case_sensitive: e.target.checked })}
+            />
+            Case sensitive
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => updateForm({ is_active: e.target.checked })}
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={testRule}
+            disabled={busy !== null || !form.pattern.trim() || !form.brand_id}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === 'test' ? 'Testing...' : 'Test rule'}
+          </button>
+          <button
+            onClick={saveRule}
+            disabled={busy !== null || !form.pattern.trim() || !form.brand_id}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === 'save' ? 'Saving...' : 'Save without applying'}
+          </button>
+          {form.id && (
+            <button onClick={resetForm} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">
+              Cancel edit
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <div
+            className={`mt-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+            role="status"
+          >
+            {message.text}
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-6" data-testid="rule-test-result">
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+              <span className="text-gray-700">
+                Matches {result.summary.matched.toLocaleString()} of {result.titles_scanned.toLocaleString()} titles
+              </span>
+              {(Object.keys(STATUS_LABELS) as RulePreviewStatus[]).map(status => (
+                <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                  {STATUS_LABELS[status]}: {result.summary[status]}
+                </span>
+              ))}
+              <span className="text-gray-500">{result.summary.conflicts} with competing rules</span>
+            </div>
+
+            {result.items.length === 0 ? (
+              <p className="text-sm text-gray-500">The rule does not match any product title</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-gray-500 uppercase border-b border-gray-200">
+                      <th className="w-8 py-2"></th>
+                      <th className="text-left font-medium py-2">ASIN</th>
+                      <th className="text-left font-medium py-2">Title</th>
+                      <th className="text-left font-medium py-2">Current brand</th>
+                      <th className="text-left font-medium py-2">Outcome</th>
+                      <th className="text-left font-medium py-2">Winning rule</th>
+                      <th className="text-left font-medium py-2">Competing rules</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.items.map(item => (
+                      <tr key={item.asin} data-testid={`rule-test-${item.asin}`} className="border-b border-gray-100 align-top">
+                        <td className="py-1 text-center">
+                          {isAssignable(item.status) && (
+                            <input
+                              type="checkbox"
+                              aria-label={`Apply to ${item.asin}`}
+                              checked={selected.has(item.asin)}
+                              onChange={() => toggleAsin(item.asin)}
+                            />
+                          )}
+                        </td>
+                        <td className="py-1 pr-2 font-mono">{item.asin}</td>
+                        <td className="py-1 pr-2 text-gray-700 max-w-xs truncate" title={item.product_title}>{item.product_title}</td>
+                        <td className="py-1 pr-2 text-gray-700">{brandName(item.current_brand_id)}</td>
+                        <td className="py-1 pr-2">
+                          <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[item.status]}`}>
+                            {STATUS_LABELS[item.status]}
+                          </span>
+                        </td>
+                        <td className="py-1 pr-2 text-gray-700">{describeMatch(item.winner)}</td>
+                        <td className="py-1 pr-2 text-gray-500">
+                          {item.competing.map(match => (
+                            <div key={match.rule_id}>{describeMatch(match)}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {result.truncated && (
+              <p className="mt-2 text-xs text-gray-500">
+                Showing the first {result.items.length} matches; applying still covers only the ASINs selected here
+              </p>
+            )}
+
+            <div className="mt-4 flex items-center gap-3">
+              <button
+                onClick={applyRule}
+                disabled={busy !== null || !form.is_active}
+                className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {busy === 'apply' ? 'Applying...' : `Save and apply to ${selected.size} ASIN${selected.size === 1 ? '' : 's'}`}
+              </button>
+              <span className="text-xs text-gray-500">
+                Each reassignment is recorded in the brand mapping history
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Extraction rules</h2>
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No extraction rules yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                <th className="text-left font-medium py-2">Brand</th>
+                <th className="text-left font-medium py-2">Match</th>
+                <th className="text-left font-medium py-2">Pattern</th>
+                <th className="text-left font-medium py-2">Priority</th>
+                <th className="text-left font-medium py-2">Min confidence</th>
+                <th className="text-left font-medium py-2">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} data-testid={`brand-rule-${rule.id}`} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-900">{brandName(rule.brand_id)}</td>
+                  <td className="py-2 text-gray-700">
+                    {RULE_TYPES.find(type => type.id === rule.rule_type)?.label || rule.rule_type}
+                    {rule.is_case_sensitive && <span className="ml-1 text-xs text-gray-400">Aa</span>}
+                  </td>
+                  <td className="py-2 font-mono text-gray-700">{rule.pattern}</td>
+                  <td className="py-2 text-gray-700">{rule.priority}</td>
+                  <td className="py-2 text-gray-700">{Math.round(rule.confidence_threshold * 100)}%</td>
+                  <td className="py-2 text-gray-500">{rule.is_active ? 'Active' : 'Inactive'}</td>
+                  <td className="py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => editRule(rule)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        <Pencil className="w-3 h-3" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-red-700 border border-red-200 rounded hover:bg-red-50"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Pencil, Swords, Trash2 } from 'lucide-react'
+import type { CompetitorBrand } from '@/services/brands/competitor-brand-schema'
+
+interface BrandOption {
+  id: string
+  display_name: string
+}
+
+interface CompetitorBrandsManagerProps {
+  brands: BrandOption[]
+}
+
+interface CompetitorForm {
+  id?: string
+  name: string
+  // Comma separated in the form, an array in the API
+  aliases: string
+  brand_id: string
+  is_active: boolean
+}
+
+const emptyForm = (): CompetitorForm => ({
+  name: '',
+  aliases: '',
+  brand_id: '',
+  is_active: true
+})
+
+const errorText = (data: any, fallback: string) =>
+  data?.details?.[0]?.message || data?.details || data?.error || fallback
+
+export function CompetitorBrandsManager({ brands }: CompetitorBrandsManagerProps) {
+  const [competitors, setCompetitors] = useState<CompetitorBrand[]>([])
+  const [form, setForm] = useState<CompetitorForm>(emptyForm)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const brandName = (brandId?: string | null) =>
+    brandId ? brands.find(brand => brand.id === brandId)?.display_name || brandId : 'All brands'
+
+  const loadCompetitors = useCallback(async () => {
+    try {
+      const response = await fetch('/api/brands/competitors')
+      if (!response.ok) return
+      const data = await response.json()
+      setCompetitors(data.competitors || [])
+    } catch (error) {
+      console.error('Failed to load competitor brands:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCompetitors()
+  }, [loadCompetitors])
+
+  const editCompetitor = (competitor: CompetitorBrand) => {
+    setForm({
+      id: competitor.id,
+      name: competitor.name,
+      aliases: (competitor.aliases || []).join(', '),
+      brand_id: competitor.brand_id || '',
+      is_active: competitor.is_active
+    })
+    setMessage(null)
+  }
+
+  const saveCompetitor = async () => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const { id, ...fields } = form
+      const response = await fetch(id ? `/api/brands/competitors/${id}` : '/api/brands/competitors', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: fields.name,
+          aliases: fields.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+          brand_id: fields.brand_id || null,
+          is_active: fields.is_active
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to save competitor') })
+        return
+      }
+      setMessage({ type: 'success', text: data.message })
+      setForm(emptyForm())
+      await loadCompetitors()
+    } catch (error) {
+      console.error('Failed to save competitor brand:', error)
+      setMessage({ type: 'error', text: 'Failed to save competitor' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const deleteCompetitor = async (competitor: CompetitorBrand) => {
+    if (!window.confirm(`Delete the competitor "${competitor.name}"? Its queries will count as generic.`)) return
+
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/brands/competitors/${competitor.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: errorText(data, 'Failed to delete competitor') })
+        return
+      }
+      if (form.id === competitor.id) setForm(emptyForm())
+      await loadCompetitors()
+    } catch (error) {
+      console.error('Failed to delete competitor brand:', error)
+      setMessage({ type: 'error', text: 'Failed to delete competitor' })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+          <Swords className="w-5 h-5 text-gray-400" />
+          {form.id ? 'Edit competitor' : 'New competitor'}
+        </h2>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Name</span>
+            <input
+              type="text"
+              aria-label="Competitor name"
+              value={form.name}
+              onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex-1 min-w-[240px]">
+            <span className="block mb-1">Aliases (comma separated)</span>
+            <input
+              type="text"
+              aria-label="Aliases"
+              value={form.aliases}
+              onChange={(e) => setForm(current => ({ ...current, aliases: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block mb-1">Competes with</span>
+            <select
+              aria-label="Brand"
+              value={form.brand_id}
+              onChange={(e) => setForm(current => ({ ...current, brand_id: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All brands</option>
+              {brands.map(brand => (
+                <option key={brand.id} value={brand.id}>{brand.display_name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm(current => ({ ...current, is_active: e.target.checked }))}
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={saveCompetitor}
+            disabled={busy || !form.name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? 'Saving...' : form.id ? 'Save competitor' : 'Add competitor'}
+          </button>
+          {form.id && (
+            <button onClick={() => setForm(emptyForm())} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">
+              Cancel edit
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <div
+            className={`mt-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+            role="status"
+          >
+            {message.text}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Competitor brands</h2>
+        {competitors.length === 0 ? (
+          <p className="text-sm text-gray-500">No competitors yet. Queries naming none of our brands count as generic.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                <th className="text-left font-medium py-2">Name</th>
+                <th className="text-left font-medium py-2">Aliases</th>
+                <th className="text-left font-medium py-2">Competes with</th>
+                <th className="text-left font-medium py-2">Status</th>
+                <th className="w-20 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {competitors.map(competitor => (
+                <tr key={competitor.id} data-testid={`competitor-${competitor.id}`} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-900">{competitor.name}</td>
+                  <td className="py-2 text-gray-600">{(competitor.aliases || []).join(', ') || '—'}</td>
+                  <td className="py-2 text-gray-600">{brandName(competitor.brand_id)}</td>
+                  <td className="py-2 text-gray-600">{competitor.is_active ? 'Active' : 'Inactive'}</td>
+                  <td className="py-2 text-right space-x-2">
+                    <button onClick={() => editCompetitor(competitor)} aria-label={`Edit ${competitor.name}`} className="text-gray-400 hover:text-gray-700">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteCompetitor(competitor)} aria-label={`Delete ${competitor.name}`} className="text-gray-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
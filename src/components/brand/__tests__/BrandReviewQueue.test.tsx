@@ -0,0 +1,89 @@
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BrandReviewQueue } from '../BrandReviewQueue'
+
+const brands = [
+  { id: 'brand-a', display_name: 'Work Sharp' },
+  { id: 'brand-b', display_name: 'Sharp Co' },
+  { id: 'brand-c', display_name: 'Edge Pro' }
+]
+
+const queue = {
+  items: [
+    {
+      asin: 'B001',
+      product_title: 'Work Sharp Belt Sharpener',
+      current_brand_id: null,
+      confidence_score: null,
+      confidence_threshold: 0.8,
+      reason: 'unmapped',
+      candidates: [{ brand_id: 'brand-a', score: 0.9, sources: ['rule', 'similarity'], rule: { rule_id: 'r1', rule_type: 'contains', pattern: 'work sharp', priority: 0 } }]
+    },
+    {
+      asin: 'B002',
+      product_title: 'Sharp Co Whetstone',
+      current_brand_id: 'brand-a',
+      confidence_score: 0.5,
+      confidence_threshold: 0.85,
+      reason: 'low_confidence',
+      candidates: [{ brand_id: 'brand-b', score: 0.72, sources: ['similarity'] }]
+    }
+  ],
+  total: 2
+}
+
+describe('BrandReviewQueue', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  it('shows suggestions and approves the selected rows with their chosen brands', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => queue })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ message: '2 ASINs reviewed and locked' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ items: [], total: 0 }) })
+    const user = userEvent.setup()
+
+    render(<BrandReviewQueue brands={brands} />)
+    const lowConfidence = await screen.findByTestId('review-B002')
+    expect(within(lowConfidence).getByText('50% of 85%')).toBeInTheDocument()
+    expect(within(screen.getByTestId('review-B001')).getByText(/rule "work sharp", title match/)).toBeInTheDocument()
+    expect(screen.getByLabelText('Brand for B002')).toHaveValue('brand-b')
+
+    await user.selectOptions(screen.getByLabelText('Brand for B001'), 'brand-c')
+    await user.click(screen.getByLabelText('Select all'))
+    await user.click(screen.getByText('Approve 2 selected'))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toEqual({
+      decisions: [
+        { asin: 'B001', brand_id: 'brand-c', action: 'override' },
+        { asin: 'B002', brand_id: 'brand-b', action: 'approve' }
+      ]
+    })
+    expect(await screen.findByRole('status')).toHaveTextContent('2 ASINs reviewed and locked')
+    expect(await screen.findByText('Nothing to review')).toBeInTheDocument()
+  })
+
+  it('filters by reason and bulk-overrides to one brand', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => queue })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ items: [queue.items[1]], total: 1 }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ message: '1 ASIN reviewed and locked' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ items: [], total: 0 }) })
+    const user = userEvent.setup()
+
+    render(<BrandReviewQueue brands={brands} />)
+    await screen.findByTestId('review-B001')
+
+    await user.click(screen.getByText('Low confidence'))
+    expect((global.fetch as any).mock.calls[1][0]).toBe('/api/brands/review?limit=50&offset=0&reason=low_confidence')
+    await user.click(await screen.findByLabelText('Select B002'))
+    await user.selectOptions(screen.getByLabelText('Override brand'), 'brand-c')
+    await user.click(screen.getByText('Override selected'))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[2][1].body)).toEqual({
+      decisions: [{ asin: 'B002', brand_id: 'brand-c', action: 'override' }]
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BrandRulesManager } from '../BrandRulesManager'
+
+const brands = [
+  { id: 'brand-a', display_name: 'Work Sharp' },
+  { id: 'brand-b', display_name: 'Sharp Co' }
+]
+
+const match = (rule_id: string, brand_id: string, priority: number, confidence: number) => ({
+  rule_id,
+  brand_id,
+  rule_type: 'contains',
+  pattern: 'sharp',
+  priority,
+  confidence
+})
+
+const testResult = {
+  titles_scanned: 120,
+  summary: { matched: 3, reassign: 1, new: 1, protected: 0, outranked: 1, below_threshold: 0, unchanged: 0, conflicts: 2 },
+  items: [
+    { asin: 'B001', product_title: 'Work Sharp Belt', current_brand_id: 'brand-b', status: 'reassign', winner: match('draft', 'brand-a', 5, 0.9), competing: [match('rule-b', 'brand-b', 1, 0.9)] },
+    { asin: 'B002', product_title: 'Work Sharp Stone', current_brand_id: null, status: 'new', winner: match('draft', 'brand-a', 5, 0.9), competing: [] },
+    { asin: 'B003', product_title: 'Sharp Co Pro', current_brand_id: 'brand-b', status: 'outranked', winner: match('rule-c', 'brand-b', 9, 1), competing: [] }
+  ],
+  truncated: false
+}
+
+describe('BrandRulesManager', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  it('tests a draft rule, then applies it to the selected ASINs', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ rules: [] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => testResult })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'Extraction rule saved; 1 ASIN reassigned' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ rules: [] }) })
+    const user = userEvent.setup()
+
+    render(<BrandRulesManager brands={brands} />)
+    expect(await screen.findByText('No extraction rules yet')).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText('Pattern'), 'work sharp')
+    await user.clear(screen.getByLabelText('Priority'))
+    await user.type(screen.getByLabelText('Priority'), '5')
+    await user.click(screen.getByText('Test rule'))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toEqual({
+      rule: {
+        brand_id: 'brand-a',
+        rule_type: 'contains',
+        pattern: 'work sharp',
+        priority: 5,
+        is_case_sensitive: false,
+        is_active: true,
+        confidence_threshold: 0.8
+      }
+    })
+
+    const reassigned = await screen.findByTestId('rule-test-B001')
+    expect(within(reassigned).getByText('Reassign')).toBeInTheDocument()
+    expect(within(reassigned).getByText('Sharp Co · contains "sharp" · P1 · 90%')).toBeInTheDocument()
+    expect(within(screen.getByTestId('rule-test-B003')).queryByRole('checkbox')).not.toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Apply to B002'))
+    await user.click(screen.getByText('Save and apply to 1 ASIN'))
+
+    expect((global.fetch as any).mock.calls[2][0]).toBe('/api/brands/rules/apply')
+    expect(JSON.parse((global.fetch as any).mock.calls[2][1].body).asins).toEqual(['B001'])
+    expect(await screen.findByRole('status')).toHaveTextContent('Extraction rule saved; 1 ASIN reassigned')
+    expect(screen.queryByTestId('rule-test-result')).not.toBeInTheDocument()
+  })
+
+  it('loads a saved rule into the editor and saves changes to it', async () => {
+    const rule = {
+      id: 'rule-1',
+      brand_id: 'brand-b',
+      rule_type: 'prefix',
+      pattern: 'sharp co',
+      priority: 2,
+      is_case_sensitive: false,
+      is_active: true,
+      confidence_threshold: 0.8,
+      created_at: '2025-09-01T00:00:00Z',
+      updated_at: '2025-09-01T00:00:00Z'
+    }
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ rules: [rule] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'Extraction rule updated successfully' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ rules: [{ ...rule, priority: 7 }] }) })
+    const user = userEvent.setup()
+
+    render(<BrandRulesManager brands={brands} />)
+    const row = await screen.findByTestId('brand-rule-rule-1')
+    expect(within(row).getByText('Sharp Co')).toBeInTheDocument()
+    expect(within(row).getByText('Starts with')).toBeInTheDocument()
+
+    await user.click(within(row).getByText('Edit'))
+    expect(screen.getByText('Edit extraction rule')).toBeInTheDocument()
+    expect(screen.getByLabelText('Pattern')).toHaveValue('sharp co')
+
+    await user.clear(screen.getByLabelText('Priority'))
+    await user.type(screen.getByLabelText('Priority'), '7')
+    await user.click(screen.getByText('Save without applying'))
+
+    expect((global.fetch as any).mock.calls[1]).toEqual([
+      '/api/brands/rules/rule-1',
+      expect.objectContaining({ method: 'PUT' })
+    ])
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toMatchObject({ brand_id: 'brand-b', priority: 7 })
+    expect(await screen.findByText('New extraction rule')).toBeInTheDocument()
+    expect(within(screen.getByTestId('brand-rule-rule-1')).getByText('7')).toBeInTheDocument()
+  })
+})
\ No newline at end of file
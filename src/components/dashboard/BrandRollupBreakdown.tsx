@@ -0,0 +1,131 @@
+import React from 'react'
+import { Layers } from 'lucide-react'
+import type { BrandBreakdownRow, BrandShares } from '@/lib/api/brand-dashboard'
+
+interface BrandRollupBreakdownProps {
+  rows?: BrandBreakdownRow[]
+  // Shares of the whole roll-up; not the sum or average of the rows
+  shares?: BrandShares
+  loading?: boolean
+  error?: string
+  onBrandClick?: (brandId: string) => void
+}
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`
+
+export const BrandRollupBreakdown: React.FC<BrandRollupBreakdownProps> = ({
+  rows = [],
+  shares,
+  loading = false,
+  error,
+  onBrandClick,
+}) => {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 p-6">
+        <div className="animate-pulse" data-testid="rollup-breakdown-skeleton">
+          <div className="h-6 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-100 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 p-6">
+        <div className="text-red-600">{error}</div>
+      </div>
+    )
+  }
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      asinCount: acc.asinCount + row.asinCount,
+      impressions: acc.impressions + row.impressions,
+      clicks: acc.clicks + row.clicks,
+      cartAdds: acc.cartAdds + row.cartAdds,
+      purchases: acc.purchases + row.purchases,
+    }),
+    { asinCount: 0, impressions: 0, clicks: 0, cartAdds: 0, purchases: 0 }
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6" data-testid="rollup-breakdown">
+      <div className="p-6">
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-gray-400" />
+            Sub-brand Breakdown
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Each sub-brand includes the brands below it. Total shares are measured against the combined query market.
+          </p>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="text-gray-500 text-center py-8">No sub-brands found</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                <th className="text-left font-medium py-2">Brand</th>
+                <th className="text-right font-medium py-2">ASINs</th>
+                <th className="text-right font-medium py-2">Impressions</th>
+                <th className="text-right font-medium py-2">Clicks</th>
+                <th className="text-right font-medium py-2">Cart Adds</th>
+                <th className="text-right font-medium py-2">Purchases</th>
+                <th className="text-right font-medium py-2">Impression Share</th>
+                <th className="text-right font-medium py-2">Purchase Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.brandId} data-testid={`rollup-row-${row.brandId}`} className="border-b border-gray-100">
+                  <td className="py-2 pr-2 text-gray-900">
+                    {row.isParent ? (
+                      <span>{row.displayName} <span className="text-gray-400">(own products)</span></span>
+                    ) : (
+                      <button
+                        onClick={() => onBrandClick?.(row.brandId)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.displayName}
+                      </button>
+                    )}
+                    {row.brandCount > 1 && (
+                      <span className="ml-1 text-xs text-gray-400">+{row.brandCount - 1} sub-brands</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-gray-700">{row.asinCount.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700">{row.impressions.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700">{row.clicks.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700">{row.cartAdds.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700">{row.purchases.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700">{formatShare(row.impressionShare)}</td>
+                  <td className="py-2 text-right text-gray-700">{formatShare(row.purchaseShare)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium text-gray-900" data-testid="rollup-total">
+                <td className="py-2 pr-2">Total</td>
+                <td className="py-2 text-right">{totals.asinCount.toLocaleString()}</td>
+                <td className="py-2 text-right">{totals.impressions.toLocaleString()}</td>
+                <td className="py-2 text-right">{totals.clicks.toLocaleString()}</td>
+                <td className="py-2 text-right">{totals.cartAdds.toLocaleString()}</td>
+                <td className="py-2 text-right">{totals.purchases.toLocaleString()}</td>
+                <td className="py-2 text-right">{shares ? formatShare(shares.impressionShare) : '—'}</td>
+                <td className="py-2 text-right">{shares ? formatShare(shares.purchaseShare) : '—'}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
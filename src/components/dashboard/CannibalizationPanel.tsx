@@ -0,0 +1,199 @@
+import React, { useState } from 'react'
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import type { CannibalizationResult } from '@/services/dashboard/keyword-cannibalization-service'
+
+interface CannibalizationPanelProps {
+  results?: CannibalizationResult[]
+  flaggedCount?: number
+  loading?: boolean
+  error?: string
+  onAsinClick?: (asin: string) => void
+}
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`
+
+const formatChange = (value: number | null) => {
+  if (value === null) return '—'
+  const sign = value > 0 ? '+' : ''
+  return `${sign}${value.toFixed(1)} pts`
+}
+
+export const CannibalizationPanel: React.FC<CannibalizationPanelProps> = ({
+  results = [],
+  flaggedCount,
+  loading = false,
+  error,
+  onAsinClick,
+}) => {
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const [expandedQuery, setExpandedQuery] = useState<string | null>(null)
+
+  const visibleResults = flaggedOnly ? results.filter(result => result.flagged) : results
+  const totalFlagged = flaggedCount ?? results.filter(result => result.flagged).length
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 p-6">
+        <div className="animate-pulse" data-testid="cannibalization-panel-skeleton">
+          <div className="h-6 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-100 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 p-6">
+        <div className="text-red-600">{error}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6">
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Keyword Cannibalization</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Queries where two or more of this brand&apos;s ASINs compete for the same shoppers
+            </p>
+          </div>
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Flagged only ({totalFlagged})</span>
+          </label>
+        </div>
+
+        {visibleResults.length === 0 ? (
+          <div className="text-gray-500 text-center py-8">
+            {flaggedOnly ? 'No flagged queries' : 'No queries with competing ASINs found'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-3 w-8"></th>
+                  <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Search Query
+                  </th>
+                  <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    ASINs
+                  </th>
+                  <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Brand Click Share
+                  </th>
+                  <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Brand Purchase Share
+                  </th>
+                  <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Top ASIN Clicks
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleResults.map(result => {
+                  const isExpanded = expandedQuery === result.searchQuery
+                  return (
+                    <React.Fragment key={result.searchQuery}>
+                      <tr
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedQuery(isExpanded ? null : result.searchQuery)}
+                        data-testid="cannibalization-row"
+                      >
+                        <td className="px-3 py-3 text-gray-400">
+                          {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                        </td>
+                        <td className="px-3 py-3 text-sm text-gray-900">
+                          <div className="flex items-center gap-2">
+                            {result.flagged && (
+                              <AlertTriangle
+                                size={16}
+                                className="text-amber-500"
+                                aria-label="Purchase share fell while clicks are spread across ASINs"
+                              />
+                            )}
+                            {result.searchQuery}
+                          </div>
+                        </td>
+                        <td className="px-3 py-3 text-sm text-gray-900 text-right">{result.asinCount}</td>
+                        <td className="px-3 py-3 text-sm text-gray-900 text-right">{formatShare(result.brandClickShare)}</td>
+                        <td className="px-3 py-3 text-sm text-gray-900 text-right">{formatShare(result.brandPurchaseShare)}</td>
+                        <td
+                          className={`px-3 py-3 text-sm text-right ${
+                            result.purchaseShareChange !== null && result.purchaseShareChange < 0
+                              ? 'text-red-600'
+                              : 'text-gray-900'
+                          }`}
+                        >
+                          {formatChange(result.purchaseShareChange)}
+                        </td>
+                        <td className="px-3 py-3 text-sm text-gray-900 text-right">
+                          {formatShare(result.topAsinClickPortion * 100)}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td></td>
+                          <td colSpan={6} className="px-3 py-3">
+                            <table className="min-w-full">
+                              <thead>
+                                <tr className="text-xs text-gray-500">
+                                  <th className="text-left font-medium py-1">ASIN</th>
+                                  <th className="text-right font-medium py-1">Impression Share</th>
+                                  <th className="text-right font-medium py-1">Click Share</th>
+                                  <th className="text-right font-medium py-1">Purchase Share</th>
+                                  <th className="text-right font-medium py-1">Share of Brand Clicks</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {result.asins.map(asin => (
+                                  <tr key={asin.asin} className="text-sm text-gray-700">
+                                    <td className="py-1">
+                                      <button
+                                        type="button"
+                                        className="text-blue-600 hover:underline"
+                                        onClick={() => onAsinClick?.(asin.asin)}
+                                      >
+                                        {asin.asin}
+                                      </button>
+                                      {asin.productTitle && (
+                                        <span className="ml-2 text-gray-500 truncate">{asin.productTitle}</span>
+                                      )}
+                                    </td>
+                                    <td className="text-right py-1">{formatShare(asin.impressionShare)}</td>
+                                    <td className="text-right py-1">{formatShare(asin.clickShare)}</td>
+                                    <td className="text-right py-1">{formatShare(asin.purchaseShare)}</td>
+                                    <td className="text-right py-1">{formatShare(asin.brandClickPortion * 100)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
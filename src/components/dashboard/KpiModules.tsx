@@ -1,4 +1,6 @@
-import React from 'react'
+import React, { useState } from 'react'
+import type { QuerySegment } from '@/services/brands/query-segments'
+import { QuerySegmentFilter, QuerySegmentToggle } from './QuerySegmentToggle'
 
 interface KpiData {
   kpis: {
@@ -105,6 +107,8 @@ export const KpiCard: React.FC<KpiCardProps> = ({
 
 interface KpiModulesProps {
   data?: KpiData | null
+  // KPIs restricted to branded, competitor or generic queries; adds a segment toggle
+  segments?: Record<QuerySegment, KpiData['kpis']> | null
   showComparison?: boolean
   loading?: boolean
   error?: string
@@ -112,10 +116,13 @@ interface KpiModulesProps {
 
 export const KpiModules: React.FC<KpiModulesProps> = ({
   data,
+  segments,
   showComparison = false,
   loading = false,
   error,
 }) => {
+  const [segment, setSegment] = useState<QuerySegmentFilter>('all')
+
   // Loading state
   if (loading) {
     return (
@@ -151,7 +158,7 @@ export const KpiModules: React.FC<KpiModulesProps> = ({
     purchases: { value: 0, trend: [], comparison: 0 },
   }
 
-  const kpisData = data?.kpis || defaultKpis
+  const kpisData = (segment !== 'all' && segments?.[segment]) || data?.kpis || defaultKpis
 
   // Define metrics with their properties
   const metrics = [
@@ -185,7 +192,7 @@ export const KpiModules: React.FC<KpiModulesProps> = ({
     },
   ]
 
-  return (
+  const cards = (
     <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
       {metrics.map((metric, index) => (
         <KpiCard
@@ -199,4 +206,15 @@ export const KpiModules: React.FC<KpiModulesProps> = ({
       ))}
     </div>
   )
+
+  if (!segments) return cards
+
+  return (
+    <div data-testid="kpi-segments">
+      <div className="flex justify-end mb-3">
+        <QuerySegmentToggle value={segment} onChange={setSegment} />
+      </div>
+      {cards}
+    </div>
+  )
 }
\ No newline at end of file
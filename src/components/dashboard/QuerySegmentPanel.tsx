@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Tags } from 'lucide-react'
+import type {
+  ClassifiedQuery,
+  QuerySegment,
+  QuerySegmentWeek,
+  SegmentBreakdown,
+} from '@/services/brands/query-segments'
+import type { ShareMetric } from '@/services/brands/share-of-voice'
+
+interface QuerySegmentPanelProps {
+  segments?: SegmentBreakdown
+  weeks?: QuerySegmentWeek[]
+  queries?: ClassifiedQuery[]
+  loading?: boolean
+  error?: string
+}
+
+const METRICS: Array<{ id: ShareMetric; label: string }> = [
+  { id: 'impressions', label: 'Impressions' },
+  { id: 'clicks', label: 'Clicks' },
+  { id: 'cartAdds', label: 'Cart Adds' },
+  { id: 'purchases', label: 'Purchases' },
+]
+
+const SEGMENTS: Array<{ id: QuerySegment; label: string; badge: string }> = [
+  { id: 'branded', label: 'Branded', badge: 'bg-blue-100 text-blue-800' },
+  { id: 'competitor', label: 'Competitor', badge: 'bg-orange-100 text-orange-800' },
+  { id: 'generic', label: 'Generic', badge: 'bg-gray-100 text-gray-700' },
+]
+
+const QUERY_ROW_LIMIT = 20
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`
+
+const metricLabel = (metric: ShareMetric) => METRICS.find(m => m.id === metric)?.label || metric
+
+export const QuerySegmentPanel: React.FC<QuerySegmentPanelProps> = ({
+  segments,
+  weeks = [],
+  queries = [],
+  loading = false,
+  error,
+}) => {
+  const [metric, setMetric] = useState<ShareMetric>('impressions')
+
+  const total = segments ? SEGMENTS.reduce((sum, s) => sum + segments[s.id].totals[metric], 0) : 0
+  const chartData = weeks.map(week => ({
+    week: week.startDate,
+    brandedShare: Number(week.brandedShare[metric].toFixed(2)),
+  }))
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6" data-testid="query-segment-panel">
+      <div className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+              <Tags className="w-5 h-5 text-gray-400" />
+              Branded vs. Non-Branded Queries
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Queries naming one of our brands, a competitor from the competitor list, or neither.
+            </p>
+          </div>
+          <a href="/brands/competitors" className="text-sm text-blue-600 hover:text-blue-800">
+            Edit competitor list
+          </a>
+        </div>
+
+        <div className="flex items-center justify-end gap-1 mb-4">
+          {METRICS.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMetric(m.id)}
+              aria-pressed={metric === m.id}
+              className={`px-3 py-1 text-sm rounded-md ${metric === m.id ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse" data-testid="query-segment-skeleton">
+            <div className="h-64 bg-gray-100 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="text-red-600">{error}</div>
+        ) : !segments || weeks.length === 0 ? (
+          <div className="text-gray-500 text-center py-8">No search query data for this period</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              {SEGMENTS.map(s => (
+                <div key={s.id} className="border border-gray-200 rounded-md p-4" data-testid={`segment-${s.id}`}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${s.badge}`}>{s.label}</span>
+                    <span className="text-xs text-gray-500">{segments[s.id].queryCount.toLocaleString()} queries</span>
+                  </div>
+                  <p className="text-2xl font-semibold text-gray-900">
+                    {formatShare(total > 0 ? (segments[s.id].totals[metric] / total) * 100 : 0)}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {segments[s.id].totals[metric].toLocaleString()} {metricLabel(metric).toLowerCase()}
+                    {' · '}
+                    {formatShare(segments[s.id].rates.overallConversionRate * 100)} CVR
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Branded share of {metricLabel(metric).toLowerCase()} by week</h3>
+            <div className="h-56 mb-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(value) => `${value}%`} tick={{ fontSize: 12 }} domain={[0, 100]} />
+                  <Tooltip formatter={(value: number) => formatShare(value)} />
+                  <Line type="monotone" dataKey="brandedShare" name="Branded share" stroke="#3b82f6" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                  <th className="text-left font-medium py-2">Query</th>
+                  <th className="text-left font-medium py-2">Segment</th>
+                  <th className="text-left font-medium py-2">Matched</th>
+                  <th className="text-right font-medium py-2">Impressions</th>
+                  <th className="text-right font-medium py-2">Purchases</th>
+                </tr>
+              </thead>
+              <tbody>
+                {queries.slice(0, QUERY_ROW_LIMIT).map(query => {
+                  const segment = SEGMENTS.find(s => s.id === query.segment)!
+                  return (
+                    <tr key={query.query} data-testid={`segment-query-${query.query}`} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{query.query}</td>
+                      <td className="py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${segment.badge}`}>{segment.label}</span>
+                      </td>
+                      <td className="py-2 text-gray-600">{query.label || '—'}</td>
+                      <td className="py-2 text-right text-gray-700">{query.impressions.toLocaleString()}</td>
+                      <td className="py-2 text-right text-gray-700">{query.purchases.toLocaleString()}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
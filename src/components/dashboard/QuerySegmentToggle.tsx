@@ -0,0 +1,34 @@
+import React from 'react'
+import type { QuerySegment } from '@/services/brands/query-segments'
+
+export type QuerySegmentFilter = 'all' | QuerySegment
+
+export const QUERY_SEGMENT_OPTIONS: Array<{ id: QuerySegmentFilter; label: string }> = [
+  { id: 'all', label: 'All queries' },
+  { id: 'branded', label: 'Branded' },
+  { id: 'competitor', label: 'Competitor' },
+  { id: 'generic', label: 'Generic' },
+]
+
+interface QuerySegmentToggleProps {
+  value: QuerySegmentFilter
+  onChange: (segment: QuerySegmentFilter) => void
+}
+
+export const QuerySegmentToggle: React.FC<QuerySegmentToggleProps> = ({ value, onChange }) => (
+  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Query segment">
+    {QUERY_SEGMENT_OPTIONS.map((option, index) => (
+      <button
+        key={option.id}
+        type="button"
+        onClick={() => onChange(option.id)}
+        aria-pressed={value === option.id}
+        className={`px-3 py-1.5 ${index > 0 ? 'border-l border-gray-300' : ''} ${
+          value === option.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+)
\ No newline at end of file
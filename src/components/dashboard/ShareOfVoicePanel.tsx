@@ -0,0 +1,192 @@
+import React, { useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { AlertTriangle, Megaphone } from 'lucide-react'
+import type { QueryVolume, ShareMetric, ShareOfVoiceWeek } from '@/services/brands/share-of-voice'
+
+interface ShareOfVoicePanelProps {
+  weeks?: ShareOfVoiceWeek[]
+  queries?: string[]
+  availableQueries?: QueryVolume[]
+  shareChangeThreshold: number
+  onQueriesChange: (queries: string[]) => void
+  onShareChangeThresholdChange: (points: number) => void
+  loading?: boolean
+  error?: string
+}
+
+const METRICS: Array<{ id: ShareMetric; label: string; color: string }> = [
+  { id: 'impressions', label: 'Impressions', color: '#3b82f6' },
+  { id: 'clicks', label: 'Clicks', color: '#10b981' },
+  { id: 'cartAdds', label: 'Cart Adds', color: '#f59e0b' },
+  { id: 'purchases', label: 'Purchases', color: '#8b5cf6' },
+]
+
+const QUERY_CHIP_LIMIT = 20
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`
+
+const formatChange = (value: number | null) => {
+  if (value === null) return '—'
+  const sign = value > 0 ? '+' : ''
+  return `${sign}${value.toFixed(1)} pts`
+}
+
+const formatMarketChange = (value: number | null) => {
+  if (value === null) return '—'
+  const sign = value > 0 ? '+' : ''
+  return `${sign}${(value * 100).toFixed(0)}%`
+}
+
+const metricLabel = (metric: ShareMetric) => METRICS.find(m => m.id === metric)?.label || metric
+
+export const ShareOfVoicePanel: React.FC<ShareOfVoicePanelProps> = ({
+  weeks = [],
+  queries = [],
+  availableQueries = [],
+  shareChangeThreshold,
+  onQueriesChange,
+  onShareChangeThresholdChange,
+  loading = false,
+  error,
+}) => {
+  const [metric, setMetric] = useState<ShareMetric>('purchases')
+
+  const toggleQuery = (query: string) => {
+    onQueriesChange(queries.includes(query) ? queries.filter(q => q !== query) : [...queries, query])
+  }
+
+  const chartData = weeks.map(week => ({
+    week: week.startDate,
+    ...Object.fromEntries(METRICS.map(m => [m.id, Number(week.share[m.id].toFixed(2))])),
+  }))
+
+  // Tracked queries first, then the brand's other top queries
+  const chipQueries = [
+    ...queries,
+    ...availableQueries.map(q => q.query).filter(query => !queries.includes(query)),
+  ].slice(0, Math.max(QUERY_CHIP_LIMIT, queries.length))
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6" data-testid="share-of-voice-panel">
+      <div className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+              <Megaphone className="w-5 h-5 text-gray-400" />
+              Share of Voice
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Weekly share of the selected queries&apos; market. Weeks are flagged when a share moved while market volume stayed flat.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Flag moves of
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={shareChangeThreshold}
+              onChange={(e) => {
+                const points = parseFloat(e.target.value)
+                if (points > 0) onShareChangeThresholdChange(points)
+              }}
+              aria-label="Share change threshold"
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            pts
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Tracked queries">
+          {chipQueries.map(query => (
+            <button
+              key={query}
+              onClick={() => toggleQuery(query)}
+              aria-pressed={queries.includes(query)}
+              className={`px-2 py-1 text-xs rounded-full border ${
+                queries.includes(query)
+                  ? 'bg-blue-100 text-blue-800 border-blue-200'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {query}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse" data-testid="share-of-voice-skeleton">
+            <div className="h-64 bg-gray-100 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="text-red-600">{error}</div>
+        ) : weeks.length === 0 ? (
+          <div className="text-gray-500 text-center py-8">No search query data for the selected queries</div>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(value) => `${value}%`} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value: number) => formatShare(value)} />
+                  <Legend />
+                  {METRICS.map(m => (
+                    <Line key={m.id} type="monotone" dataKey={m.id} name={`${m.label} share`} stroke={m.color} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="flex items-center justify-end gap-1 mt-4 mb-2">
+              {METRICS.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMetric(m.id)}
+                  className={`px-3 py-1 text-sm rounded-md ${metric === m.id ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                  <th className="text-left font-medium py-2">Week</th>
+                  <th className="text-right font-medium py-2">Ours</th>
+                  <th className="text-right font-medium py-2">Rest of Market</th>
+                  <th className="text-right font-medium py-2">Market Change</th>
+                  <th className="text-right font-medium py-2">Share</th>
+                  <th className="text-right font-medium py-2">Share Change</th>
+                  <th className="text-left font-medium py-2 pl-4">Flags</th>
+                </tr>
+              </thead>
+              <tbody>
+                {weeks.map(week => (
+                  <tr key={week.startDate} data-testid={`sov-week-${week.startDate}`} className="border-b border-gray-100">
+                    <td className="py-2 text-gray-900">{week.startDate}</td>
+                    <td className="py-2 text-right text-gray-700">{week.brand[metric].toLocaleString()}</td>
+                    <td className="py-2 text-right text-gray-700">{week.restOfMarket[metric].toLocaleString()}</td>
+                    <td className="py-2 text-right text-gray-700">{formatMarketChange(week.marketChange[metric])}</td>
+                    <td className="py-2 text-right text-gray-700">{formatShare(week.share[metric])}</td>
+                    <td className="py-2 text-right text-gray-700">{formatChange(week.shareChange[metric])}</td>
+                    <td className="py-2 pl-4">
+                      {week.flags.length > 0 && (
+                        <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+                          <AlertTriangle className="w-3 h-3" />
+                          {week.flags.map(metricLabel).join(', ')}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrandRollupBreakdown } from '../BrandRollupBreakdown'
+import type { BrandBreakdownRow } from '@/lib/api/brand-dashboard'
+
+const rows: BrandBreakdownRow[] = [
+  {
+    brandId: 'parent',
+    displayName: 'Work Sharp',
+    isParent: true,
+    brandCount: 1,
+    asinCount: 2,
+    impressions: 1000,
+    clicks: 100,
+    cartAdds: 20,
+    purchases: 10,
+    impressionShare: 10,
+    clickShare: 8,
+    cartAddShare: 5,
+    purchaseShare: 4
+  },
+  {
+    brandId: 'child',
+    displayName: 'Ken Onion',
+    isParent: false,
+    brandCount: 3,
+    asinCount: 5,
+    impressions: 4000,
+    clicks: 300,
+    cartAdds: 60,
+    purchases: 30,
+    impressionShare: 20,
+    clickShare: 15,
+    cartAddShare: 12,
+    purchaseShare: 10
+  }
+]
+
+describe('BrandRollupBreakdown', () => {
+  it('shows a row per sub-brand and the roll-up shares in the total', () => {
+    render(
+      <BrandRollupBreakdown
+        rows={rows}
+        shares={{ impressionShare: 12.5, clickShare: 11, cartAddShare: 9, purchaseShare: 6.2 }}
+      />
+    )
+
+    expect(within(screen.getByTestId('rollup-row-parent')).getByText('(own products)')).toBeInTheDocument()
+    expect(within(screen.getByTestId('rollup-row-child')).getByText('+2 sub-brands')).toBeInTheDocument()
+
+    const total = screen.getByTestId('rollup-total')
+    expect(within(total).getByText('5,000')).toBeInTheDocument()
+    // Totals come from the roll-up, not the sum or average of the rows
+    expect(within(total).getByText('12.5%')).toBeInTheDocument()
+    expect(within(total).getByText('6.2%')).toBeInTheDocument()
+  })
+
+  it('opens a sub-brand when its name is clicked', async () => {
+    const onBrandClick = vi.fn()
+    render(<BrandRollupBreakdown rows={rows} onBrandClick={onBrandClick} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Ken Onion' }))
+    expect(onBrandClick).toHaveBeenCalledWith('child')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { CannibalizationPanel } from '../CannibalizationPanel'
+import type { CannibalizationResult } from '@/services/dashboard/keyword-cannibalization-service'
+
+const mockResults: CannibalizationResult[] = [
+  {
+    searchQuery: 'knife sharpener',
+    searchQueryVolume: 1000,
+    asinCount: 2,
+    asins: [
+      { asin: 'B001', productTitle: 'Sharpener Pro', impressions: 1500, clicks: 100, purchases: 8, impressionShare: 15, clickShare: 10, purchaseShare: 8, brandClickPortion: 0.53 },
+      { asin: 'B002', impressions: 1500, clicks: 90, purchases: 7, impressionShare: 15, clickShare: 9, purchaseShare: 7, brandClickPortion: 0.47 }
+    ],
+    brandImpressionShare: 30,
+    brandClickShare: 19,
+    brandPurchaseShare: 15,
+    previousBrandPurchaseShare: 25,
+    purchaseShareChange: -10,
+    topAsinClickPortion: 0.53,
+    flagged: true
+  },
+  {
+    searchQuery: 'honing rod',
+    searchQueryVolume: 5000,
+    asinCount: 2,
+    asins: [],
+    brandImpressionShare: 2,
+    brandClickShare: 10,
+    brandPurchaseShare: 2,
+    previousBrandPurchaseShare: null,
+    purchaseShareChange: null,
+    topAsinClickPortion: 0.9,
+    flagged: false
+  }
+]
+
+describe('CannibalizationPanel', () => {
+  it('renders competing queries with brand shares and change', () => {
+    render(<CannibalizationPanel results={mockResults} />)
+
+    expect(screen.getByText('Keyword Cannibalization')).toBeInTheDocument()
+    expect(screen.getAllByTestId('cannibalization-row')).toHaveLength(2)
+    expect(screen.getByText('-10.0 pts')).toBeInTheDocument()
+    expect(screen.getByText('Flagged only (1)')).toBeInTheDocument()
+  })
+
+  it('filters to flagged queries', async () => {
+    const user = userEvent.setup()
+    render(<CannibalizationPanel results={mockResults} />)
+
+    await user.click(screen.getByRole('checkbox'))
+
+    expect(screen.getAllByTestId('cannibalization-row')).toHaveLength(1)
+    expect(screen.queryByText('honing rod')).not.toBeInTheDocument()
+  })
+
+  it('expands a query to show the per-ASIN breakdown', async () => {
+    const user = userEvent.setup()
+    const onAsinClick = vi.fn()
+    render(<CannibalizationPanel results={mockResults} onAsinClick={onAsinClick} />)
+
+    await user.click(screen.getByText('knife sharpener'))
+    expect(screen.getByText('Sharpener Pro')).toBeInTheDocument()
+
+    await user.click(screen.getByText('B002'))
+    expect(onAsinClick).toHaveBeenCalledWith('B002')
+  })
+
+  it('shows loading and empty states', () => {
+    const { rerender } = render(<CannibalizationPanel loading />)
+    expect(screen.getByTestId('cannibalization-panel-skeleton')).toBeInTheDocument()
+
+    rerender(<CannibalizationPanel results={[]} />)
+    expect(screen.getByText('No queries with competing ASINs found')).toBeInTheDocument()
+  })
+})
\ No newline at end of file
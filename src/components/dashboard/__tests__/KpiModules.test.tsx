@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import { KpiModules, KpiCard } from '../KpiModules'
 
 describe('KpiCard', () => {
@@ -200,4 +201,28 @@ describe('KpiModules', () => {
     // Cart Adds should be red (negative)
     expect(paths[2]).toHaveAttribute('stroke', '#ef4444')
   })
+
+  it('should switch the cards to a query segment', async () => {
+    const user = userEvent.setup()
+    const segmentKpis = (value: number) => ({
+      impressions: { value, trend: [value], comparison: null },
+      clicks: { value: 0, trend: [], comparison: null },
+      cartAdds: { value: 0, trend: [], comparison: null },
+      purchases: { value: 0, trend: [], comparison: null },
+    })
+    render(
+      <KpiModules
+        data={mockData}
+        segments={{ branded: segmentKpis(4321), competitor: segmentKpis(210), generic: segmentKpis(9876) }}
+      />
+    )
+
+    expect(screen.getByRole('button', { name: 'All queries' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.queryByText('4,321')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Branded' }))
+
+    expect(screen.getByText('4,321')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Branded' })).toHaveAttribute('aria-pressed', 'true')
+  })
 })
\ No newline at end of file
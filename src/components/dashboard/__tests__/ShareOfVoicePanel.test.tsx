@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ShareOfVoicePanel } from '../ShareOfVoicePanel'
+import type { ShareOfVoiceWeek } from '@/services/brands/share-of-voice'
+
+vi.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => <div data-testid="responsive-container">{children}</div>,
+  LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
+  Line: () => <div data-testid="line" />,
+  XAxis: () => <div />,
+  YAxis: () => <div />,
+  CartesianGrid: () => <div />,
+  Tooltip: () => <div />,
+  Legend: () => <div />,
+}))
+
+const metrics = (impressions: number, clicks: number, cartAdds: number, purchases: number) => ({
+  impressions,
+  clicks,
+  cartAdds,
+  purchases,
+})
+
+const weeks: ShareOfVoiceWeek[] = [
+  {
+    startDate: '2025-01-05',
+    brand: metrics(100, 10, 4, 4),
+    market: metrics(1000, 100, 40, 20),
+    restOfMarket: metrics(900, 90, 36, 16),
+    share: metrics(10, 10, 10, 20),
+    shareChange: { impressions: null, clicks: null, cartAdds: null, purchases: null },
+    marketChange: { impressions: null, clicks: null, cartAdds: null, purchases: null },
+    flags: [],
+  },
+  {
+    startDate: '2025-01-12',
+    brand: metrics(100, 10, 4, 2),
+    market: metrics(1000, 100, 40, 20),
+    restOfMarket: metrics(900, 90, 36, 18),
+    share: metrics(10, 10, 10, 10),
+    shareChange: { impressions: 0, clicks: 0, cartAdds: 0, purchases: -10 },
+    marketChange: { impressions: 0, clicks: 0, cartAdds: 0, purchases: 0 },
+    flags: ['purchases'],
+  },
+]
+
+describe('ShareOfVoicePanel', () => {
+  const renderPanel = (overrides = {}) => {
+    const props = {
+      weeks,
+      queries: ['knife sharpener'],
+      availableQueries: [
+        { query: 'knife sharpener', impressions: 200 },
+        { query: 'honing rod', impressions: 50 },
+      ],
+      shareChangeThreshold: 5,
+      onQueriesChange: vi.fn(),
+      onShareChangeThresholdChange: vi.fn(),
+      ...overrides,
+    }
+    render(<ShareOfVoicePanel {...props} />)
+    return props
+  }
+
+  it('shows rest-of-market volume and flags share moves on a flat market', () => {
+    renderPanel()
+
+    const flagged = screen.getByTestId('sov-week-2025-01-12')
+    expect(within(flagged).getByText('18')).toBeInTheDocument()
+    expect(within(flagged).getByText('-10.0 pts')).toBeInTheDocument()
+    expect(within(flagged).getByText('Purchases')).toBeInTheDocument()
+    expect(within(screen.getByTestId('sov-week-2025-01-05')).queryByText('Purchases')).not.toBeInTheDocument()
+  })
+
+  it('adds and removes tracked queries', async () => {
+    const props = renderPanel()
+
+    await userEvent.click(screen.getByRole('button', { name: 'honing rod' }))
+    expect(props.onQueriesChange).toHaveBeenCalledWith(['knife sharpener', 'honing rod'])
+
+    await userEvent.click(screen.getByRole('button', { name: 'knife sharpener' }))
+    expect(props.onQueriesChange).toHaveBeenLastCalledWith([])
+  })
+})
\ No newline at end of file
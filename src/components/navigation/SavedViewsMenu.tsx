@@ -0,0 +1,203 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Bookmark, ChevronDown, Link2, Star, Trash2, Users } from 'lucide-react'
+import {
+  SavedViewItem,
+  createSavedView,
+  deleteSavedView,
+  shareSavedView,
+  updateSavedView,
+  useInvalidateSavedViews,
+  useSavedViews
+} from '@/lib/api/saved-views'
+import type { SavedViewPage, ViewStates } from '@/services/saved-views/saved-view-schema'
+
+interface SavedViewsMenuProps<P extends SavedViewPage> {
+  page: P
+  // Current page state; null while there is nothing to save yet (e.g. no ASIN selected)
+  state: ViewStates[P] | null
+  // Opens the caller's default view once, for pages loaded without any state in the URL
+  applyDefault?: boolean
+  onApply: (view: SavedViewItem) => void
+}
+
+export function SavedViewsMenu<P extends SavedViewPage>({ page, state, applyDefault = false, onApply }: SavedViewsMenuProps<P>) {
+  const { data, isLoading, error } = useSavedViews(page)
+  const invalidateSavedViews = useInvalidateSavedViews()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [shared, setShared] = useState(false)
+  const [isDefault, setIsDefault] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const defaultApplied = useRef(false)
+
+  const views = data?.views || []
+
+  useEffect(() => {
+    if (!applyDefault || defaultApplied.current || !data) return
+    defaultApplied.current = true
+
+    // A brand's page only opens a default saved for that brand, so switching brands still works
+    const view = views.find(view => view.owned && view.is_default &&
+      (page !== 'brand' || view.state.brandId === (state as ViewStates['brand'] | null)?.brandId))
+    if (view) onApply(view)
+  }, [applyDefault, data, views, onApply, page, state])
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const success = await action()
+      if (success) setMessage({ type: 'success', text: success })
+      await invalidateSavedViews()
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to update saved views' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveView = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!state) return
+    run(async () => {
+      await createSavedView({
+        name,
+        page,
+        state,
+        visibility: shared ? 'shared' : 'private',
+        is_default: isDefault
+      })
+      setName('')
+      return `Saved "${name.trim()}"`
+    })
+  }
+
+  const copyLink = (view: SavedViewItem) => run(async () => {
+    const { path } = await shareSavedView(view.id)
+    const url = new URL(path, window.location.origin).toString()
+    await navigator.clipboard?.writeText(url).catch(() => undefined)
+    return `Link copied: ${url}`
+  })
+
+  return (
+    <div className="relative" data-testid="saved-views-menu">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+      >
+        <Bookmark className="w-4 h-4" />
+        Saved views
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 p-4 text-left">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading saved views...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{(error as Error).message}</p>
+          ) : views.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved views yet. Save the current view to come back to it or share it.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto" aria-label="Saved views">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center gap-2 py-2">
+                  <button
+                    onClick={() => {
+                      setOpen(false)
+                      onApply(view)
+                    }}
+                    className="flex-1 min-w-0 text-left text-sm text-gray-900 hover:text-blue-600 truncate"
+                  >
+                    {view.name}
+                  </button>
+                  {view.visibility === 'shared' && (
+                    <span title={view.owned ? 'Shared with everyone' : 'Shared by a colleague'}>
+                      <Users className="w-4 h-4 text-gray-400" />
+                    </span>
+                  )}
+                  {view.owned && (
+                    <button
+                      onClick={() => run(async () => {
+                        await updateSavedView(view.id, { is_default: !view.is_default })
+                        return null
+                      })}
+                      disabled={busy}
+                      aria-label={view.is_default ? `Unset ${view.name} as default` : `Open ${view.name} by default`}
+                      aria-pressed={view.is_default}
+                      className={view.is_default ? 'text-amber-500' : 'text-gray-300 hover:text-amber-500'}
+                    >
+                      <Star className="w-4 h-4" fill={view.is_default ? 'currentColor' : 'none'} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => copyLink(view)}
+                    disabled={busy}
+                    aria-label={`Copy link to ${view.name}`}
+                    className="text-gray-400 hover:text-blue-600"
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </button>
+                  {view.owned && (
+                    <button
+                      onClick={() => run(async () => {
+                        await deleteSavedView(view.id)
+                        return null
+                      })}
+                      disabled={busy}
+                      aria-label={`Delete ${view.name}`}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={saveView} className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+            <input
+              type="text"
+              aria-label="View name"
+              placeholder="Name this view"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex items-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                Share with everyone
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} />
+                Open by default
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={busy || !state || !name.trim()}
+              className="w-full px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save current view
+            </button>
+          </form>
+
+          {message && (
+            <div
+              className={`mt-3 p-2 rounded-md text-sm break-all ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+              role="status"
+            >
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
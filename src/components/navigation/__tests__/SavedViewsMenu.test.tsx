@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SavedViewsMenu } from '../SavedViewsMenu'
+import { createSavedView, useSavedViews, type SavedViewItem } from '@/lib/api/saved-views'
+
+vi.mock('@/lib/api/saved-views', () => ({
+  useSavedViews: vi.fn(),
+  useInvalidateSavedViews: vi.fn(() => vi.fn()),
+  createSavedView: vi.fn(() => Promise.resolve({ view: {} })),
+  updateSavedView: vi.fn(),
+  deleteSavedView: vi.fn(),
+  shareSavedView: vi.fn(),
+}))
+
+const view = (overrides: Partial<SavedViewItem>): SavedViewItem => ({
+  id: 'view-1',
+  name: 'August',
+  page: 'asin',
+  state: { asin: 'B001' },
+  visibility: 'private',
+  is_default: false,
+  share_token: null,
+  owner_id: 'user-1',
+  owned: true,
+  ...overrides
+})
+
+describe('SavedViewsMenu', () => {
+  beforeEach(() => {
+    vi.mocked(useSavedViews).mockReturnValue({
+      data: {
+        views: [
+          view({ id: 'shared-default', name: 'Team default', is_default: true, owned: false, visibility: 'shared' }),
+          view({ id: 'mine', name: 'My default', is_default: true })
+        ],
+        total: 2
+      },
+      isLoading: false,
+      error: null
+    } as any)
+  })
+
+  it('opens the caller\'s own default view once when the page has no state', () => {
+    const onApply = vi.fn()
+    const { rerender } = render(<SavedViewsMenu page="asin" state={null} applyDefault onApply={onApply} />)
+    rerender(<SavedViewsMenu page="asin" state={null} applyDefault onApply={onApply} />)
+
+    expect(onApply).toHaveBeenCalledTimes(1)
+    expect(onApply.mock.calls[0][0].id).toBe('mine')
+  })
+
+  it('saves the current state as a named view', async () => {
+    const user = userEvent.setup()
+    const onApply = vi.fn()
+    render(<SavedViewsMenu page="asin" state={{ asin: 'B002', chartType: 'bar' }} onApply={onApply} />)
+
+    await user.click(screen.getByRole('button', { name: /saved views/i }))
+    await user.type(screen.getByLabelText('View name'), 'Bar chart')
+    await user.click(screen.getByLabelText('Share with everyone'))
+    await user.click(screen.getByRole('button', { name: 'Save current view' }))
+
+    expect(createSavedView).toHaveBeenCalledWith({
+      name: 'Bar chart',
+      page: 'asin',
+      state: { asin: 'B002', chartType: 'bar' },
+      visibility: 'shared',
+      is_default: false
+    })
+    expect(await screen.findByRole('status')).toHaveTextContent('Saved "Bar chart"')
+    expect(onApply).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
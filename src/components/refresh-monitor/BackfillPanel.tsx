@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { DatabaseBackup, Pause, Play, XCircle } from 'lucide-react'
+
+type BackfillJobStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+type BackfillChunkStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+type BackfillAction = 'pause' | 'resume' | 'cancel'
+
+interface BackfillCell {
+  chunk_id: number
+  status: BackfillChunkStatus
+  attempts: number
+  rows: number
+  error?: string | null
+}
+
+export interface BackfillProgress {
+  job: {
+    id: number
+    tables: string[]
+    start_date: string
+    end_date: string
+    status: BackfillJobStatus
+    max_concurrency: number
+    error_message?: string | null
+    created_at: string
+  }
+  weeks: Array<{ start: string; end: string }>
+  tables: string[]
+  cells: Record<string, Record<string, BackfillCell>>
+  counts: Record<BackfillChunkStatus, number>
+  rows_processed: number
+}
+
+interface BackfillPanelProps {
+  // Defaults the range to the year before this date
+  now?: Date
+  // How often to refresh while a job is running
+  pollInterval?: number
+}
+
+const TABLES = [
+  { id: 'asin_performance_data', label: 'ASIN performance' },
+  { id: 'search_query_performance', label: 'Search query performance' }
+]
+
+const JOB_STATUS_STYLES: Record<BackfillJobStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+}
+
+const CELL_STYLES: Record<BackfillChunkStatus, string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  running: 'bg-blue-100 text-blue-800 animate-pulse',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-50 text-gray-400'
+}
+
+// Job states each action may be applied from, as enforced by the API
+const ACTIONS: Array<{ action: BackfillAction; label: string; icon: typeof Pause; from: BackfillJobStatus[] }> = [
+  { action: 'pause', label: 'Pause', icon: Pause, from: ['running'] },
+  { action: 'resume', label: 'Resume', icon: Play, from: ['paused', 'failed'] },
+  { action: 'cancel', label: 'Cancel', icon: XCircle, from: ['running', 'paused', 'failed'] }
+]
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0]
+
+const tableLabel = (table: string) => TABLES.find(t => t.id === table)?.label || table
+
+export function BackfillPanel({ now = new Date(), pollInterval = 5000 }: BackfillPanelProps) {
+  const [form, setForm] = useState(() => ({
+    start_date: toDateInput(new Date(now.getTime() - 364 * 24 * 60 * 60 * 1000)),
+    end_date: toDateInput(now),
+    tables: TABLES.map(table => table.id),
+    max_concurrency: 2
+  }))
+  const [jobs, setJobs] = useState<BackfillProgress[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [acting, setActing] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/refresh/backfill')
+      if (!response.ok) return
+      const data = await response.json()
+      setJobs(data.jobs || [])
+    } catch (error) {
+      console.error('Failed to load backfill jobs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  const hasRunningJob = jobs.some(progress => progress.job.status === 'running')
+  useEffect(() => {
+    if (!hasRunningJob) return
+    const interval = setInterval(loadJobs, pollInterval)
+    return () => clearInterval(interval)
+  }, [hasRunningJob, loadJobs, pollInterval])
+
+  const toggleTable = (table: string) => {
+    setForm(current => ({
+      ...current,
+      tables: current.tables.includes(table)
+        ? current.tables.filter(t => t !== table)
+        : [...current.tables, table]
+    }))
+  }
+
+  const createJob = async () => {
+    setIsCreating(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/refresh/backfill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details?.[0]?.message || data.details || data.error || 'Failed to start backfill' })
+        return
+      }
+      const chunks = data.weeks.length * data.tables.length
+      setMessage({ type: 'success', text: `Backfill #${data.job.id} started: ${chunks} chunks over ${data.weeks.length} weeks` })
+      setSelectedId(data.job.id)
+      await loadJobs()
+    } catch (error) {
+      console.error('Failed to start backfill:', error)
+      setMessage({ type: 'error', text: 'Failed to start backfill' })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const applyAction = async (jobId: number, action: BackfillAction) => {
+    setActing(jobId)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/refresh/backfill/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || `Failed to ${action} backfill` })
+      }
+      await loadJobs()
+    } catch (error) {
+      console.error(`Failed to ${action} backfill:`, error)
+      setMessage({ type: 'error', text: `Failed to ${action} backfill` })
+    } finally {
+      setActing(null)
+    }
+  }
+
+  const selected = jobs.find(progress => progress.job.id === selectedId) || jobs[0]
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6" data-testid="backfill-panel">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+        <DatabaseBackup className="w-5 h-5 text-gray-400" />
+        Historical Backfill
+      </h2>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">From</span>
+          <input
+            type="date"
+            aria-label="Backfill start date"
+            value={form.start_date}
+            onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">To</span>
+          <input
+            type="date"
+            aria-label="Backfill end date"
+            value={form.end_date}
+            onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </label>
+        <fieldset className="text-sm text-gray-700">
+          <legend className="mb-1">Tables</legend>
+          <div className="flex gap-3 py-2">
+            {TABLES.map(table => (
+              <label key={table.id} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={form.tables.includes(table.id)}
+                  onChange={() => toggleTable(table.id)}
+                />
+                {table.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Concurrency</span>
+          <select
+            aria-label="Concurrency"
+            value={form.max_concurrency}
+            onChange={(e) => setForm({ ...form, max_concurrency: parseInt(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {[1, 2, 3, 4, 6, 8].map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={createJob}
+          disabled={isCreating || form.tables.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isCreating ? 'Starting...' : 'Start backfill'}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+          role="status"
+        >
+          {message.text}
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No backfills yet. Each table is loaded one week at a time, and progress is kept if the worker restarts
+        </p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md mb-6">
+            {jobs.map(({ job, counts, weeks, tables, rows_processed }) => {
+              const total = weeks.length * tables.length
+              return (
+                <li
+                  key={job.id}
+                  data-testid={`backfill-job-${job.id}`}
+                  className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${selected?.job.id === job.id ? 'bg-blue-50' : ''}`}
+                  onClick={() => setSelectedId(job.id)}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium text-gray-900">#{job.id}</span>
+                    <span className="text-gray-700">{job.start_date} – {job.end_date}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${JOB_STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    <span className="text-gray-500">
+                      {counts.completed} of {total} chunks · {rows_processed.toLocaleString()} rows
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {ACTIONS.filter(({ from }) => from.includes(job.status)).map(({ action, label, icon: Icon }) => (
+                      <button
+                        key={action}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          applyAction(job.id, action)
+                        }}
+                        disabled={acting !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Icon className="w-3 h-3" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+
+          {selected && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                Backfill #{selected.job.id} progress
+                {selected.job.error_message && (
+                  <span className="ml-2 text-xs font-normal text-red-600">{selected.job.error_message}</span>
+                )}
+              </h3>
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-gray-500 uppercase border-b border-gray-200">
+                      <th className="text-left font-medium py-2">Week</th>
+                      {selected.tables.map(table => (
+                        <th key={table} className="text-left font-medium py-2">{tableLabel(table)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.weeks.map(week => (
+                      <tr key={week.start}>
+                        <td className="py-1 pr-2 text-gray-700 whitespace-nowrap">{week.start} – {week.end}</td>
+                        {selected.tables.map(table => {
+                          const cell = selected.cells[table]?.[week.start]
+                          return (
+                            <td key={table} className="py-1 pr-2">
+                              {cell && (
+                                <div
+                                  data-testid={`backfill-cell-${table}-${week.start}`}
+                                  className={`px-2 py-1 rounded ${CELL_STYLES[cell.status]}`}
+                                  title={cell.error || `${cell.attempts} attempt(s)`}
+                                >
+                                  {cell.status}
+                                  {cell.rows > 0 && ` · ${cell.rows.toLocaleString()} rows`}
+                                </div>
+                              )}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
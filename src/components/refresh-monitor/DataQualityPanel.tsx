@@ -0,0 +1,105 @@
+'use client'
+
+import { CheckCircle, AlertTriangle, ShieldCheck } from 'lucide-react'
+
+export interface DataQualityCheck {
+  metric_name: string
+  metric_value: number | null
+  expected_value: number | null
+  threshold_min: number | null
+  threshold_max: number | null
+  is_within_threshold: boolean
+}
+
+export interface DataQualityTable {
+  table_name: string
+  audit_log_id: number
+  checked_at: string
+  status: 'passed' | 'warning'
+  breached: number
+  checks: DataQualityCheck[]
+}
+
+export interface DataQualityData {
+  tables: DataQualityTable[]
+  breached_tables: string[]
+}
+
+interface DataQualityPanelProps {
+  dataQuality: DataQualityData | null | undefined
+}
+
+const formatValue = (value: number | null) => (value === null ? '—' : `${Math.round(value * 10000) / 10000}`)
+
+const formatThreshold = (check: DataQualityCheck) => {
+  if (check.threshold_min !== null && check.threshold_max !== null) {
+    return `${formatValue(check.threshold_min)} to ${formatValue(check.threshold_max)}`
+  }
+  if (check.threshold_max !== null) return `≤ ${formatValue(check.threshold_max)}`
+  if (check.threshold_min !== null) return `≥ ${formatValue(check.threshold_min)}`
+  return '—'
+}
+
+export function DataQualityPanel({ dataQuality }: DataQualityPanelProps) {
+  const tables = dataQuality?.tables || []
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6" data-testid="data-quality-panel">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-gray-400" />
+          Data Quality
+        </h2>
+        {tables.length > 0 && (
+          <span className="text-sm text-gray-600">
+            {dataQuality!.breached_tables.length > 0
+              ? `${dataQuality!.breached_tables.length} of ${tables.length} tables with warnings`
+              : `All ${tables.length} tables passed`}
+          </span>
+        )}
+      </div>
+
+      {tables.length === 0 ? (
+        <p className="text-sm text-gray-500">No data quality checks in the last 7 days</p>
+      ) : (
+        <div className="space-y-4">
+          {tables.map(table => (
+            <div key={table.table_name} data-testid={`data-quality-${table.table_name}`}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  {table.status === 'warning'
+                    ? <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                    : <CheckCircle className="w-4 h-4 text-green-500" />}
+                  <span className="text-sm font-medium text-gray-900">{table.table_name}</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  Checked {new Date(table.checked_at).toLocaleString()}
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="text-left font-medium py-1">Check</th>
+                    <th className="text-right font-medium py-1">Value</th>
+                    <th className="text-right font-medium py-1">Threshold</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {table.checks.map(check => (
+                    <tr key={check.metric_name} className={check.is_within_threshold ? '' : 'bg-yellow-50'}>
+                      <td className="py-1 text-gray-700 font-mono text-xs">{check.metric_name}</td>
+                      <td className={`py-1 text-right ${check.is_within_threshold ? 'text-gray-900' : 'text-yellow-700 font-medium'}`}>
+                        {formatValue(check.metric_value)}
+                      </td>
+                      <td className="py-1 text-right text-gray-500">{formatThreshold(check)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 'use client'
 
 import { ArrowRight, Database, Cloud, CheckCircle, XCircle, AlertCircle, Activity, Clock } from 'lucide-react'
+import type { RefreshRunProgress } from './RefreshDependencyGraph'
 
 interface PipelineData {
   source: {
@@ -45,6 +46,8 @@ interface PipelineData {
       progress?: number
     }>
   }
+  // Latest dependency-ordered refresh run from the orchestrator
+  refreshRun?: RefreshRunProgress | null
 }
 
 interface PipelineStatusCardProps {
@@ -224,6 +227,41 @@ export function PipelineStatusCard({ pipelineData }: PipelineStatusCardProps) {
           ))}
         </div>
 
+        {/* Refresh Run */}
+        {pipelineData.refreshRun && (
+          <div className="mt-6" data-testid="refresh-run">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">
+                {pipelineData.refreshRun.is_active ? 'Refresh run in progress' : 'Last refresh run'}
+              </span>
+              <span className="text-xs text-gray-500">
+                Wave {pipelineData.refreshRun.current_wave}
+                {pipelineData.refreshRun.total_waves ? ` of ${pipelineData.refreshRun.total_waves}` : ''}
+              </span>
+            </div>
+            {pipelineData.refreshRun.total_waves && (
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-full rounded-full transition-all duration-500 ${
+                    pipelineData.refreshRun.failed > 0 ? 'bg-yellow-500' : 'bg-blue-500'
+                  }`}
+                  style={{
+                    width: `${Math.round(
+                      ((pipelineData.refreshRun.is_active
+                        ? pipelineData.refreshRun.current_wave - 1
+                        : pipelineData.refreshRun.current_wave) / pipelineData.refreshRun.total_waves) * 100
+                    )}%`
+                  }}
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {pipelineData.refreshRun.running.length > 0 && `Running: ${pipelineData.refreshRun.running.join(', ')} • `}
+              {pipelineData.refreshRun.completed} succeeded, {pipelineData.refreshRun.failed} failed, {pipelineData.refreshRun.skipped} skipped
+            </p>
+          </div>
+        )}
+
         {/* Next Sync */}
         {pipelineData.pipeline.nextSync && (
           <div className="mt-4 p-3 bg-blue-50 rounded-md">
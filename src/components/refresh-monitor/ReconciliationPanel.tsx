@@ -0,0 +1,270 @@
+'use client'
+
+import { useState } from 'react'
+import { Scale, RefreshCw, CheckCircle, AlertTriangle } from 'lucide-react'
+
+interface ReconciliationMetrics {
+  asin_rows: number
+  query_rows: number
+  impressions: number
+  clicks: number
+  cart_adds: number
+  purchases: number
+}
+
+export interface ReconciliationSlice {
+  week_start: string
+  week_end: string
+  asin: string
+  status: 'match' | 'mismatch' | 'missing' | 'extra'
+  source: ReconciliationMetrics
+  target: ReconciliationMetrics
+  differences: string[]
+}
+
+export interface ReconciliationReport {
+  start: string
+  end: string
+  generated_at: string
+  weeks: Array<{
+    week_start: string
+    week_end: string
+    asins: number
+    mismatched_asins: number
+    source: ReconciliationMetrics
+    target: ReconciliationMetrics
+  }>
+  mismatches: ReconciliationSlice[]
+  summary: {
+    slices: number
+    mismatched_slices: number
+    mismatched_weeks: string[]
+  }
+}
+
+interface ReconciliationPanelProps {
+  // Defaults the range to the four weeks before this date
+  now?: Date
+}
+
+const STATUS_LABELS: Record<ReconciliationSlice['status'], string> = {
+  match: 'Match',
+  mismatch: 'Mismatch',
+  missing: 'Missing in Supabase',
+  extra: 'Not in BigQuery'
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0]
+
+const formatNumber = (value: number) => value.toLocaleString()
+
+export function ReconciliationPanel({ now = new Date() }: ReconciliationPanelProps) {
+  const [range, setRange] = useState(() => ({
+    start: toDateInput(new Date(now.getTime() - 27 * 24 * 60 * 60 * 1000)),
+    end: toDateInput(now)
+  }))
+  const [report, setReport] = useState<ReconciliationReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [resyncing, setResyncing] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const runReport = async () => {
+    setIsLoading(true)
+    setMessage(null)
+    try {
+      const params = new URLSearchParams(range)
+      const response = await fetch(`/api/refresh/reconcile?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details || data.error || 'Reconciliation failed' })
+        return
+      }
+      setReport(data)
+    } catch (error) {
+      console.error('Failed to run reconciliation:', error)
+      setMessage({ type: 'error', text: 'Reconciliation failed' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // `key` identifies the button that started the resync: a week start or 'all'
+  const resync = async (key: string, slices: ReconciliationSlice[]) => {
+    setResyncing(key)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/refresh/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slices: slices.map(({ week_start, asin }) => ({ week_start, asin })) })
+      })
+      const data = await response.json()
+
+      // Re-run the comparison first; it clears the message when it starts
+      if (response.ok || response.status === 207) await runReport()
+      setMessage({
+        type: data.success ? 'success' : 'error',
+        text: data.message || data.details || data.error || 'Resync failed'
+      })
+    } catch (error) {
+      console.error('Failed to resync slices:', error)
+      setMessage({ type: 'error', text: 'Resync failed' })
+    } finally {
+      setResyncing(null)
+    }
+  }
+
+  const mismatchesForWeek = (weekStart: string) =>
+    report?.mismatches.filter(slice => slice.week_start === weekStart) || []
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6" data-testid="reconciliation-panel">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-gray-400" />
+          BigQuery Reconciliation
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            aria-label="Start date"
+            value={range.start}
+            onChange={(e) => setRange({ ...range, start: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            aria-label="End date"
+            value={range.end}
+            onChange={(e) => setRange({ ...range, end: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            onClick={runReport}
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoading ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+          role="status"
+        >
+          {message.text}
+        </div>
+      )}
+
+      {!report ? (
+        <p className="text-sm text-gray-500">
+          Compare weekly row counts and funnel totals per ASIN between BigQuery and Supabase
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-sm">
+              {report.summary.mismatched_slices === 0 ? (
+                <>
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                  <span className="text-gray-700">All {report.summary.slices} week/ASIN slices match</span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                  <span className="text-gray-700">
+                    {report.summary.mismatched_slices} of {report.summary.slices} slices differ in{' '}
+                    {report.summary.mismatched_weeks.length} weeks
+                  </span>
+                </>
+              )}
+            </div>
+            {report.mismatches.length > 0 && (
+              <button
+                onClick={() => resync('all', report.mismatches)}
+                disabled={resyncing !== null}
+                className="flex items-center gap-2 px-3 py-1.5 bg-yellow-600 text-white text-sm rounded-md hover:bg-yellow-700 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${resyncing === 'all' ? 'animate-spin' : ''}`} />
+                Resync all mismatches
+              </button>
+            )}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                <th className="text-left font-medium py-2">Week</th>
+                <th className="text-right font-medium py-2">ASINs</th>
+                <th className="text-right font-medium py-2">Query rows (BQ / Supabase)</th>
+                <th className="text-right font-medium py-2">Impressions (BQ / Supabase)</th>
+                <th className="text-right font-medium py-2">Purchases (BQ / Supabase)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.weeks.map(week => {
+                const mismatches = mismatchesForWeek(week.week_start)
+                return (
+                  <tr
+                    key={week.week_start}
+                    data-testid={`reconciliation-week-${week.week_start}`}
+                    className={week.mismatched_asins > 0 ? 'bg-yellow-50' : ''}
+                  >
+                    <td className="py-2 text-gray-900">{week.week_start} – {week.week_end}</td>
+                    <td className="py-2 text-right text-gray-700">
+                      {week.mismatched_asins > 0 ? `${week.mismatched_asins} of ${week.asins} differ` : week.asins}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">
+                      {formatNumber(week.source.query_rows)} / {formatNumber(week.target.query_rows)}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">
+                      {formatNumber(week.source.impressions)} / {formatNumber(week.target.impressions)}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">
+                      {formatNumber(week.source.purchases)} / {formatNumber(week.target.purchases)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {mismatches.length > 0 && (
+                        <button
+                          onClick={() => resync(week.week_start, mismatches)}
+                          disabled={resyncing !== null}
+                          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          {resyncing === week.week_start ? 'Resyncing...' : `Resync ${mismatches.length} ASINs`}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          {report.mismatches.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Mismatched slices</h3>
+              <ul className="space-y-1 text-sm">
+                {report.mismatches.map(slice => (
+                  <li key={`${slice.week_start}-${slice.asin}`} className="flex items-center justify-between text-gray-700">
+                    <span>
+                      <span className="font-mono">{slice.asin}</span> · week of {slice.week_start}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {STATUS_LABELS[slice.status]}
+                      {slice.status === 'mismatch' && `: ${slice.differences.join(', ')}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, Fragment } from 'react'
 import { Save, RefreshCw, Clock, Zap, Shield, Edit2, X, Check } from 'lucide-react'
+import { RefreshScheduleEditor } from './RefreshScheduleEditor'
 
 export function RefreshConfigPanel() {
   const [configurations, setConfigurations] = useState<any[]>([])
@@ -32,7 +33,11 @@ export function RefreshConfigPanel() {
     setEditForm({
       enabled: config.enabled,
       frequency_hours: config.frequency_hours,
-      priority: config.priority
+      priority: config.priority,
+      schedule_cron: config.schedule_cron || '',
+      schedule_timezone: config.schedule_timezone || 'UTC',
+      blackout_windows: config.blackout_windows || [],
+      run_after_tables: config.run_after_tables || []
     })
   }
 
@@ -45,7 +50,11 @@ export function RefreshConfigPanel() {
           id,
           is_enabled: editForm.enabled,
           refresh_frequency_hours: editForm.frequency_hours,
-          priority: editForm.priority
+          priority: editForm.priority,
+          schedule_cron: editForm.schedule_cron.trim() || null,
+          schedule_timezone: editForm.schedule_timezone,
+          blackout_windows: editForm.blackout_windows,
+          run_after_tables: editForm.run_after_tables
         })
       })
 
@@ -55,7 +64,7 @@ export function RefreshConfigPanel() {
         setEditForm({})
       } else {
         const error = await response.json()
-        alert(`Failed to update: ${error.error}`)
+        alert(`Failed to update: ${error.error}${Array.isArray(error.details) ? ` (${error.details.join('; ')})` : ''}`)
       }
     } catch (error) {
       console.error('Failed to update configuration:', error)
@@ -173,128 +182,145 @@ export function RefreshConfigPanel() {
           </thead>
           <tbody className="divide-y divide-gray-200">
             {configurations.map((config) => (
-              <tr key={config.id} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="flex items-center">
-                    <Shield className="w-4 h-4 text-gray-400 mr-2" />
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{config.table_name}</div>
-                      <div className="text-xs text-gray-500">{config.table_schema}</div>
+              <Fragment key={config.id}>
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center">
+                      <Shield className="w-4 h-4 text-gray-400 mr-2" />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{config.table_name}</div>
+                        <div className="text-xs text-gray-500">{config.table_schema}</div>
+                      </div>
                     </div>
-                  </div>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {editingId === config.id ? (
-                    <select
-                      value={editForm.enabled}
-                      onChange={(e) => setEditForm({ ...editForm, enabled: e.target.value === 'true' })}
-                      className="text-sm border border-gray-300 rounded px-2 py-1"
-                    >
-                      <option value="true">Enabled</option>
-                      <option value="false">Disabled</option>
-                    </select>
-                  ) : (
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      config.enabled 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {config.enabled ? 'Enabled' : 'Disabled'}
-                    </span>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {editingId === config.id ? (
-                    <div className="flex items-center gap-1">
-                      <input
-                        type="number"
-                        value={editForm.frequency_hours}
-                        onChange={(e) => setEditForm({ ...editForm, frequency_hours: parseInt(e.target.value) })}
-                        className="text-sm border border-gray-300 rounded px-2 py-1 w-16"
-                        min="1"
-                        max="168"
-                      />
-                      <span className="text-sm text-gray-500">hours</span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center text-sm text-gray-900">
-                      <Clock className="w-4 h-4 text-gray-400 mr-1" />
-                      {config.frequency_hours}h
-                    </div>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {editingId === config.id ? (
-                    <input
-                      type="number"
-                      value={editForm.priority}
-                      onChange={(e) => setEditForm({ ...editForm, priority: parseInt(e.target.value) })}
-                      className="text-sm border border-gray-300 rounded px-2 py-1 w-20"
-                      min="0"
-                      max="1000"
-                    />
-                  ) : (
-                    <div className="flex items-center text-sm text-gray-900">
-                      <Zap className="w-4 h-4 text-gray-400 mr-1" />
-                      {config.priority}
-                    </div>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {config.last_refresh 
-                    ? new Date(config.last_refresh).toLocaleString()
-                    : 'Never'
-                  }
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {config.next_refresh
-                    ? new Date(config.next_refresh).toLocaleString()
-                    : 'Not scheduled'
-                  }
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                  {editingId === config.id ? (
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => handleSave(config.id)}
-                        className="text-green-600 hover:text-green-900"
-                        title="Save"
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {editingId === config.id ? (
+                      <select
+                        value={editForm.enabled}
+                        onChange={(e) => setEditForm({ ...editForm, enabled: e.target.value === 'true' })}
+                        className="text-sm border border-gray-300 rounded px-2 py-1"
                       >
-                        <Check className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={handleCancel}
-                        className="text-red-600 hover:text-red-900"
-                        title="Cancel"
-                      >
-                        <X className="w-4 h-4" />
-                      </button>
-                    </div>
-                  ) : (
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => handleEdit(config)}
-                        className="text-indigo-600 hover:text-indigo-900"
-                        title="Edit"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleTrigger(config.table_name, config.id)}
-                        disabled={!config.enabled || triggerLoading === config.id}
-                        className="text-blue-600 hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
-                        title="Trigger Refresh"
-                      >
-                        {triggerLoading === config.id ? (
-                          <RefreshCw className="w-4 h-4 animate-spin" />
+                        <option value="true">Enabled</option>
+                        <option value="false">Disabled</option>
+                      </select>
+                    ) : (
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        config.enabled 
+                          ? 'bg-green-100 text-green-800' 
+                          : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {config.enabled ? 'Enabled' : 'Disabled'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {editingId === config.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          value={editForm.frequency_hours}
+                          onChange={(e) => setEditForm({ ...editForm, frequency_hours: parseInt(e.target.value) })}
+                          className="text-sm border border-gray-300 rounded px-2 py-1 w-16"
+                          min="1"
+                          max="168"
+                        />
+                        <span className="text-sm text-gray-500">hours</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Clock className="w-4 h-4 text-gray-400 mr-1" />
+                        {config.schedule_cron ? (
+                          <span className="font-mono" title={config.schedule_timezone}>{config.schedule_cron}</span>
                         ) : (
-                          <RefreshCw className="w-4 h-4" />
+                          `${config.frequency_hours}h`
                         )}
-                      </button>
-                    </div>
-                  )}
-                </td>
-              </tr>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {editingId === config.id ? (
+                      <input
+                        type="number"
+                        value={editForm.priority}
+                        onChange={(e) => setEditForm({ ...editForm, priority: parseInt(e.target.value) })}
+                        className="text-sm border border-gray-300 rounded px-2 py-1 w-20"
+                        min="0"
+                        max="1000"
+                      />
+                    ) : (
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Zap className="w-4 h-4 text-gray-400 mr-1" />
+                        {config.priority}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {config.last_refresh 
+                      ? new Date(config.last_refresh).toLocaleString()
+                      : 'Never'
+                    }
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {config.next_refresh
+                      ? new Date(config.next_refresh).toLocaleString()
+                      : 'Not scheduled'
+                    }
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {editingId === config.id ? (
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => handleSave(config.id)}
+                          className="text-green-600 hover:text-green-900"
+                          title="Save"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={handleCancel}
+                          className="text-red-600 hover:text-red-900"
+                          title="Cancel"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(config)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          title="Edit"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleTrigger(config.table_name, config.id)}
+                          disabled={!config.enabled || triggerLoading === config.id}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Trigger Refresh"
+                        >
+                          {triggerLoading === config.id ? (
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="w-4 h-4" />
+                          )}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+                {editingId === config.id && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={7} className="px-6 py-4">
+                      <RefreshScheduleEditor
+                        value={editForm}
+                        onChange={(schedule) => setEditForm({ ...editForm, ...schedule })}
+                        tables={configurations.filter(c => c.id !== config.id).map(c => c.table_name)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
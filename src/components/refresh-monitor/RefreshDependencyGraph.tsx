@@ -0,0 +1,136 @@
+'use client'
+
+import { CheckCircle, XCircle, AlertCircle, Clock, Activity, SkipForward, GitBranch } from 'lucide-react'
+
+export interface DependencyGraphNode {
+  table_name: string
+  schema: string
+  priority: number
+  enabled: boolean
+  wave: number | null
+  status: string
+  skip_reason: string | null
+  depends_on: Array<{ table_name: string; type: 'hard' | 'soft' }>
+}
+
+export interface RefreshRunProgress {
+  id: string
+  started_at: string
+  total_waves: number | null
+  current_wave: number
+  is_active: boolean
+  running: string[]
+  completed: number
+  failed: number
+  skipped: number
+}
+
+export interface DependencyGraphData {
+  nodes: DependencyGraphNode[]
+  waves: string[][]
+  cycle: string[] | null
+  current_run: RefreshRunProgress | null
+}
+
+interface RefreshDependencyGraphProps {
+  graph: DependencyGraphData
+}
+
+export function RefreshDependencyGraph({ graph }: RefreshDependencyGraphProps) {
+  const nodesByTable = new Map(graph.nodes.map(node => [node.table_name, node]))
+  const run = graph.current_run
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'success':
+        return <CheckCircle className="w-4 h-4 text-green-500" />
+      case 'failed':
+        return <XCircle className="w-4 h-4 text-red-500" />
+      case 'running':
+        return <Activity className="w-4 h-4 text-blue-500 animate-pulse" />
+      case 'skipped':
+        return <SkipForward className="w-4 h-4 text-orange-500" />
+      case 'overdue':
+      case 'warning':
+        return <AlertCircle className="w-4 h-4 text-yellow-500" />
+      default:
+        return <Clock className="w-4 h-4 text-gray-400" />
+    }
+  }
+
+  // Without a valid order (cycle) every table is shown in a single group
+  const columns = graph.waves.length > 0
+    ? graph.waves.map((wave, index) => ({ label: `Wave ${index + 1}`, wave: index + 1, tables: wave }))
+    : [{ label: 'Tables', wave: null as number | null, tables: graph.nodes.map(node => node.table_name) }]
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-gray-400" />
+          Refresh Dependencies
+        </h2>
+        {run && (
+          <p className="text-sm text-gray-600" data-testid="refresh-run-progress">
+            {run.is_active
+              ? `Run in progress: wave ${run.current_wave}${run.total_waves ? ` of ${run.total_waves}` : ''}`
+              : 'Last run finished'}
+            {' • '}
+            {run.completed} succeeded, {run.failed} failed, {run.skipped} skipped
+          </p>
+        )}
+      </div>
+
+      {graph.cycle && (
+        <div className="mb-4 p-3 bg-red-50 rounded-md text-sm text-red-800">
+          Dependency cycle: {graph.cycle.join(' → ')}
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto">
+        {columns.map(column => {
+          const isCurrent = !!run?.is_active && column.wave === run.current_wave
+          return (
+            <div
+              key={column.label}
+              className={`min-w-[200px] flex-1 rounded-md p-3 ${isCurrent ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-gray-50'}`}
+            >
+              <p className="text-xs font-medium text-gray-500 uppercase mb-2">
+                {column.label}
+                {isCurrent && <span className="ml-2 text-blue-600 normal-case">current</span>}
+              </p>
+              <div className="space-y-2">
+                {column.tables.map(table => {
+                  const node = nodesByTable.get(table)
+                  if (!node) return null
+                  return (
+                    <div
+                      key={table}
+                      className={`bg-white rounded border p-2 ${node.enabled ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}
+                      data-testid={`dependency-node-${table}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">{table}</span>
+                        {getStatusIcon(node.status)}
+                      </div>
+                      {node.depends_on.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          After {node.depends_on
+                            .map(dep => (dep.type === 'soft' ? `${dep.table_name} (soft)` : dep.table_name))
+                            .join(', ')}
+                        </p>
+                      )}
+                      {node.skip_reason && (
+                        <p className="text-xs text-orange-600 mt-1">{node.skip_reason}</p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
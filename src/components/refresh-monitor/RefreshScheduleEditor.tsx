@@ -0,0 +1,206 @@
+'use client'
+
+import { useMemo } from 'react'
+import { formatInTimeZone } from 'date-fns-tz'
+import { CalendarClock, Plus, Trash2 } from 'lucide-react'
+import {
+  BlackoutWindow,
+  DEFAULT_SCHEDULE_TIMEZONE,
+  nextRunTimes,
+  validateSchedule
+} from '@/lib/refresh/schedule'
+
+export interface RefreshScheduleDraft {
+  frequency_hours: number
+  schedule_cron: string
+  schedule_timezone: string
+  blackout_windows: BlackoutWindow[]
+  run_after_tables: string[]
+}
+
+interface RefreshScheduleEditorProps {
+  value: RefreshScheduleDraft
+  onChange: (value: RefreshScheduleDraft) => void
+  // Tables that may trigger this one
+  tables: string[]
+  now?: Date
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const COMMON_TIMEZONES = ['UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'Europe/London']
+const PREVIEW_RUNS = 5
+
+export function RefreshScheduleEditor({ value, onChange, tables, now }: RefreshScheduleEditorProps) {
+  const timezone = value.schedule_timezone || DEFAULT_SCHEDULE_TIMEZONE
+
+  const { errors, runs } = useMemo(() => {
+    const schedule = {
+      frequency_hours: value.frequency_hours,
+      cron: value.schedule_cron.trim() || null,
+      timezone,
+      blackout_windows: value.blackout_windows
+    }
+    const errors = validateSchedule(schedule)
+    return {
+      errors,
+      runs: errors.length === 0 && value.frequency_hours > 0 ? nextRunTimes(schedule, now || new Date(), PREVIEW_RUNS) : []
+    }
+  }, [value.frequency_hours, value.schedule_cron, timezone, value.blackout_windows, now])
+
+  const updateWindow = (index: number, changes: Partial<BlackoutWindow>) => {
+    onChange({
+      ...value,
+      blackout_windows: value.blackout_windows.map((window, i) => (i === index ? { ...window, ...changes } : window))
+    })
+  }
+
+  const toggleDay = (index: number, day: number) => {
+    const days = value.blackout_windows[index].days || []
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() })
+  }
+
+  const toggleRunAfter = (table: string) => {
+    onChange({
+      ...value,
+      run_after_tables: value.run_after_tables.includes(table)
+        ? value.run_after_tables.filter(t => t !== table)
+        : [...value.run_after_tables, table]
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-sm" data-testid="refresh-schedule-editor">
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 uppercase">Cron expression</span>
+          <input
+            type="text"
+            value={value.schedule_cron}
+            onChange={(e) => onChange({ ...value, schedule_cron: e.target.value })}
+            placeholder={`Every ${value.frequency_hours}h`}
+            className="mt-1 w-full border border-gray-300 rounded px-2 py-1 font-mono"
+          />
+          <span className="text-xs text-gray-500">Leave empty to use the frequency</span>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 uppercase">Timezone</span>
+          <input
+            type="text"
+            list="refresh-schedule-timezones"
+            value={value.schedule_timezone}
+            onChange={(e) => onChange({ ...value, schedule_timezone: e.target.value })}
+            className="mt-1 w-full border border-gray-300 rounded px-2 py-1"
+          />
+          <datalist id="refresh-schedule-timezones">
+            {COMMON_TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+          </datalist>
+        </label>
+        {tables.length > 0 && (
+          <div>
+            <span className="text-xs font-medium text-gray-500 uppercase">Run after success of</span>
+            <div className="mt-1 max-h-32 overflow-y-auto space-y-1">
+              {tables.map(table => (
+                <label key={table} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={value.run_after_tables.includes(table)}
+                    onChange={() => toggleRunAfter(table)}
+                  />
+                  {table}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-500 uppercase">Blackout windows</span>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, blackout_windows: [...value.blackout_windows, { start: '00:00', end: '06:00' }] })}
+            className="flex items-center gap-1 text-indigo-600 hover:text-indigo-900"
+          >
+            <Plus className="w-3 h-3" />
+            Add window
+          </button>
+        </div>
+        {value.blackout_windows.length === 0 && (
+          <p className="text-gray-500">No blackout windows</p>
+        )}
+        {value.blackout_windows.map((window, index) => (
+          <div key={index} className="border border-gray-200 rounded p-2 space-y-2" data-testid={`blackout-window-${index}`}>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                aria-label={`Blackout ${index + 1} start`}
+                value={window.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                className="border border-gray-300 rounded px-1"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                aria-label={`Blackout ${index + 1} end`}
+                value={window.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value })}
+                className="border border-gray-300 rounded px-1"
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, blackout_windows: value.blackout_windows.filter((_, i) => i !== index) })}
+                className="ml-auto text-red-600 hover:text-red-900"
+                title="Remove window"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => {
+                const active = !!window.days?.includes(day)
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    aria-pressed={active}
+                    onClick={() => toggleDay(index, day)}
+                    className={`px-1.5 py-0.5 rounded text-xs ${active ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-600'}`}
+                  >
+                    {label}
+                  </button>
+                )
+              })}
+            </div>
+            {!window.days?.length && <p className="text-xs text-gray-500">Applies every day</p>}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <span className="text-xs font-medium text-gray-500 uppercase flex items-center gap-1">
+          <CalendarClock className="w-3 h-3" />
+          Next {PREVIEW_RUNS} runs ({timezone})
+        </span>
+        {errors.length > 0 ? (
+          <ul className="mt-1 text-red-600 space-y-1" data-testid="schedule-errors">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        ) : runs.length === 0 ? (
+          <p className="mt-1 text-orange-600">No runs outside the blackout windows</p>
+        ) : (
+          <ol className="mt-1 space-y-1 text-gray-900" data-testid="schedule-preview">
+            {runs.map(run => (
+              <li key={run.getTime()}>{formatInTimeZone(run, timezone, 'EEE MMM d, yyyy HH:mm')}</li>
+            ))}
+          </ol>
+        )}
+        {value.run_after_tables.length > 0 && (
+          <p className="mt-2 text-xs text-gray-500">
+            Also runs after {value.run_after_tables.join(', ')} refresh successfully
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import { CheckCircle, XCircle, AlertCircle, Clock, Database, Activity, TrendingUp, Heart, AlertTriangle, Info, ArrowRight } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
+import { RefreshDependencyGraph } from './RefreshDependencyGraph'
 
 interface StatusCardProps {
   statusData: any
@@ -169,6 +170,11 @@ export function RefreshStatusCard({ statusData }: StatusCardProps) {
         </div>
       )}
 
+      {/* Refresh order and progress of the latest orchestration run */}
+      {statusData.dependency_graph && (
+        <RefreshDependencyGraph graph={statusData.dependency_graph} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Core Table Status */}
         <div className="bg-white rounded-lg shadow-sm p-6">
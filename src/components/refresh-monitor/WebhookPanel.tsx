@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { Plus, Trash2, Edit2, Check, X, AlertCircle, Send, Eye, RefreshCw, CheckCircle, XCircle } from 'lucide-react'
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_EVENTS, WebhookEventType, buildSamplePayload } from '@/lib/webhooks/events'
 
 interface Webhook {
   id: number
@@ -33,6 +34,7 @@ export function WebhookPanel() {
     headers: {}
   })
   const [testResults, setTestResults] = useState<Record<number, any>>({})
+  const [previewEvent, setPreviewEvent] = useState<WebhookEventType | null>(null)
 
   useEffect(() => {
     fetchWebhooks()
@@ -122,14 +124,16 @@ export function WebhookPanel() {
     }
   }
 
-  const handleTest = async (webhookId: number) => {
+  const handleTest = async (webhook: Webhook) => {
+    const webhookId = webhook.id
     try {
       const response = await fetch('/api/refresh/webhooks/test', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           webhook_id: webhookId,
-          event_type: 'refresh.completed'
+          // Test with an event the webhook actually subscribes to
+          event_type: webhook.events[0]
         })
       })
 
@@ -147,11 +151,13 @@ export function WebhookPanel() {
     }
   }
 
-  const eventTypes = [
-    { value: 'refresh.completed', label: 'Refresh Completed', color: 'bg-green-100 text-green-800' },
-    { value: 'refresh.failed', label: 'Refresh Failed', color: 'bg-red-100 text-red-800' },
-    { value: 'refresh.warning', label: 'Refresh Warning', color: 'bg-yellow-100 text-yellow-800' }
-  ]
+  const eventTypes = WEBHOOK_EVENT_TYPES.map(type => ({
+    value: type,
+    label: WEBHOOK_EVENTS[type].label,
+    description: WEBHOOK_EVENTS[type].description,
+    version: WEBHOOK_EVENTS[type].version,
+    color: WEBHOOK_EVENTS[type].color
+  }))
 
   if (isLoading) {
     return (
@@ -221,25 +227,47 @@ export function WebhookPanel() {
               <label className="block text-sm font-medium text-gray-700 mb-1">Events</label>
               <div className="space-y-2">
                 {eventTypes.map(event => (
-                  <label key={event.value} className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      checked={formData.events.includes(event.value)}
-                      onChange={(e) => {
-                        if (e.target.checked) {
-                          setFormData({ ...formData, events: [...formData.events, event.value] })
-                        } else {
-                          setFormData({ ...formData, events: formData.events.filter(ev => ev !== event.value) })
-                        }
-                      }}
-                      className="rounded border-gray-300"
-                    />
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${event.color}`}>
-                      {event.label}
-                    </span>
-                  </label>
+                  <div key={event.value} className="flex items-center gap-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.events.includes(event.value)}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setFormData({ ...formData, events: [...formData.events, event.value] })
+                          } else {
+                            setFormData({ ...formData, events: formData.events.filter(ev => ev !== event.value) })
+                          }
+                        }}
+                        className="rounded border-gray-300"
+                      />
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${event.color}`}>
+                        {event.label}
+                      </span>
+                    </label>
+                    <span className="text-xs text-gray-500">{event.description} · v{event.version}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPreviewEvent(previewEvent === event.value ? null : event.value)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title={`Preview ${event.value} payload`}
+                      aria-label={`Preview ${event.value} payload`}
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                  </div>
                 ))}
               </div>
+              {previewEvent && (
+                <div className="mt-3" data-testid="webhook-payload-preview">
+                  <p className="text-xs font-medium text-gray-700 mb-1">
+                    Sample <code>{previewEvent}</code> payload (signed with X-Webhook-Signature when a secret is set)
+                  </p>
+                  <pre className="text-xs bg-gray-50 p-3 rounded border border-gray-200 overflow-x-auto">
+                    {JSON.stringify(buildSamplePayload(previewEvent, { delivery_id: 123, timestamp: '2025-09-15T06:05:00.000Z' }), null, 2)}
+                  </pre>
+                </div>
+              )}
             </div>
 
             <div className="flex gap-2">
@@ -354,7 +382,7 @@ export function WebhookPanel() {
                   <td className="px-6 py-4 text-right">
                     <div className="flex items-center justify-end gap-2">
                       <button
-                        onClick={() => handleTest(webhook.id)}
+                        onClick={() => handleTest(webhook)}
                         className="text-blue-600 hover:text-blue-900"
                         title="Test webhook"
                       >
@@ -0,0 +1,84 @@
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BackfillPanel, BackfillProgress } from '../BackfillPanel'
+
+const cell = (chunk_id: number, status: any, rows = 0) => ({ chunk_id, status, attempts: status === 'pending' ? 0 : 1, rows })
+
+const progress = (status: BackfillProgress['job']['status']): BackfillProgress => ({
+  job: {
+    id: 5,
+    tables: ['asin_performance_data', 'search_query_performance'],
+    start_date: '2025-08-31',
+    end_date: '2025-09-13',
+    status,
+    max_concurrency: 2,
+    created_at: '2025-09-14T10:00:00Z'
+  },
+  weeks: [
+    { start: '2025-08-31', end: '2025-09-06' },
+    { start: '2025-09-07', end: '2025-09-13' }
+  ],
+  tables: ['asin_performance_data', 'search_query_performance'],
+  cells: {
+    asin_performance_data: { '2025-08-31': cell(1, 'completed', 1200), '2025-09-07': cell(3, 'running') },
+    search_query_performance: { '2025-08-31': cell(2, 'failed'), '2025-09-07': cell(4, 'pending') }
+  },
+  counts: { pending: 1, running: 1, completed: 1, failed: 1, cancelled: 0 },
+  rows_processed: 1200
+})
+
+describe('BackfillPanel', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  it('starts a backfill for the chosen range and tables', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ jobs: [] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => progress('running') })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ jobs: [progress('running')] }) })
+    const user = userEvent.setup()
+
+    render(<BackfillPanel now={new Date('2025-09-13T12:00:00Z')} pollInterval={60000} />)
+    expect(await screen.findByText(/No backfills yet/)).toBeInTheDocument()
+    expect(screen.getByLabelText('Backfill start date')).toHaveValue('2024-09-14')
+
+    await user.click(screen.getByLabelText('ASIN performance'))
+    await user.selectOptions(screen.getByLabelText('Concurrency'), '4')
+    await user.click(screen.getByText('Start backfill'))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toEqual({
+      start_date: '2024-09-14',
+      end_date: '2025-09-13',
+      tables: ['search_query_performance'],
+      max_concurrency: 4
+    })
+    expect(await screen.findByRole('status')).toHaveTextContent('Backfill #5 started: 4 chunks over 2 weeks')
+    expect(screen.getByTestId('backfill-cell-asin_performance_data-2025-08-31')).toHaveTextContent('completed · 1,200 rows')
+    expect(screen.getByTestId('backfill-cell-search_query_performance-2025-08-31')).toHaveClass('bg-red-100')
+    expect(screen.getByTestId('backfill-cell-asin_performance_data-2025-09-07')).toHaveClass('bg-blue-100')
+  })
+
+  it('offers the actions that apply to each job and refreshes after one', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ jobs: [progress('running')] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => progress('paused') })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ jobs: [progress('paused')] }) })
+    const user = userEvent.setup()
+
+    render(<BackfillPanel pollInterval={60000} />)
+    const job = await screen.findByTestId('backfill-job-5')
+    expect(within(job).getByText('1 of 4 chunks · 1,200 rows')).toBeInTheDocument()
+    expect(within(job).queryByText('Resume')).not.toBeInTheDocument()
+
+    await user.click(within(job).getByText('Pause'))
+
+    expect((global.fetch as any).mock.calls[1]).toEqual([
+      '/api/refresh/backfill/5',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ action: 'pause' }) })
+    ])
+    await waitFor(() => expect(within(screen.getByTestId('backfill-job-5')).getByText('Resume')).toBeInTheDocument())
+    expect(within(screen.getByTestId('backfill-job-5')).queryByText('Pause')).not.toBeInTheDocument()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { render, screen, within } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { DataQualityPanel, DataQualityData } from '../DataQualityPanel'
+
+describe('DataQualityPanel', () => {
+  const dataQuality: DataQualityData = {
+    tables: [
+      {
+        table_name: 'search_query_performance',
+        audit_log_id: 12,
+        checked_at: '2025-09-08T10:00:00Z',
+        status: 'warning',
+        breached: 1,
+        checks: [
+          { metric_name: 'row_count_delta', metric_value: -0.62, expected_value: 1200, threshold_min: -0.5, threshold_max: 0.5, is_within_threshold: false },
+          { metric_name: 'share_range:asin_click_share', metric_value: 0, expected_value: 0, threshold_min: null, threshold_max: 0, is_within_threshold: true }
+        ]
+      },
+      {
+        table_name: 'asin_performance_data',
+        audit_log_id: 11,
+        checked_at: '2025-09-08T09:00:00Z',
+        status: 'passed',
+        breached: 0,
+        checks: [
+          { metric_name: 'week_completeness', metric_value: 1, expected_value: 40, threshold_min: 0.9, threshold_max: 1, is_within_threshold: true }
+        ]
+      }
+    ],
+    breached_tables: ['search_query_performance']
+  }
+
+  it('lists the latest checks per table with their thresholds', () => {
+    render(<DataQualityPanel dataQuality={dataQuality} />)
+
+    expect(screen.getByText('1 of 2 tables with warnings')).toBeInTheDocument()
+
+    const searchQueries = within(screen.getByTestId('data-quality-search_query_performance'))
+    const breached = searchQueries.getByText('row_count_delta').closest('tr')!
+    expect(breached).toHaveClass('bg-yellow-50')
+    expect(breached).toHaveTextContent('-0.62')
+    expect(breached).toHaveTextContent('-0.5 to 0.5')
+    expect(searchQueries.getByText('share_range:asin_click_share').closest('tr')).toHaveTextContent('≤ 0')
+  })
+
+  it('shows an empty state without recent checks', () => {
+    render(<DataQualityPanel dataQuality={{ tables: [], breached_tables: [] }} />)
+
+    expect(screen.getByText('No data quality checks in the last 7 days')).toBeInTheDocument()
+  })
+})
\ No newline at end of file
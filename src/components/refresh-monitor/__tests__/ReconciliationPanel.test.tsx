@@ -0,0 +1,76 @@
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ReconciliationPanel, ReconciliationReport } from '../ReconciliationPanel'
+
+const metrics = (query_rows: number, impressions: number) => ({
+  asin_rows: 7,
+  query_rows,
+  impressions,
+  clicks: 10,
+  cart_adds: 4,
+  purchases: 2
+})
+
+const report: ReconciliationReport = {
+  start: '2025-08-31',
+  end: '2025-09-13',
+  generated_at: '2025-09-14T10:00:00Z',
+  weeks: [
+    { week_start: '2025-08-31', week_end: '2025-09-06', asins: 2, mismatched_asins: 0, source: metrics(40, 4000), target: metrics(40, 4000) },
+    { week_start: '2025-09-07', week_end: '2025-09-13', asins: 2, mismatched_asins: 1, source: metrics(40, 4000), target: metrics(30, 3100) }
+  ],
+  mismatches: [
+    {
+      week_start: '2025-09-07',
+      week_end: '2025-09-13',
+      asin: 'B0CXYZ1234',
+      status: 'mismatch',
+      source: metrics(20, 2000),
+      target: metrics(10, 1100),
+      differences: ['query_rows', 'impressions']
+    }
+  ],
+  summary: { slices: 4, mismatched_slices: 1, mismatched_weeks: ['2025-09-07'] }
+}
+
+describe('ReconciliationPanel', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  it('compares the chosen range and highlights mismatched weeks', async () => {
+    ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => report })
+    const user = userEvent.setup()
+
+    render(<ReconciliationPanel now={new Date('2025-09-27T12:00:00Z')} />)
+    expect(screen.getByLabelText('Start date')).toHaveValue('2025-08-31')
+
+    await user.click(screen.getByText('Compare'))
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/refresh/reconcile?start=2025-08-31&end=2025-09-27')
+    expect(await screen.findByText('1 of 4 slices differ in 1 weeks')).toBeInTheDocument()
+    expect(screen.getByTestId('reconciliation-week-2025-09-07')).toHaveClass('bg-yellow-50')
+    expect(screen.getByTestId('reconciliation-week-2025-08-31')).not.toHaveClass('bg-yellow-50')
+    expect(screen.getByText('Mismatch: query_rows, impressions')).toBeInTheDocument()
+  })
+
+  it('resyncs a week\'s mismatched slices and re-runs the comparison', async () => {
+    const fixed = { ...report, weeks: report.weeks.map(week => ({ ...week, mismatched_asins: 0 })), mismatches: [], summary: { slices: 4, mismatched_slices: 0, mismatched_weeks: [] } }
+    ;(global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => report })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ success: true, message: 'Resynced 1 slices across 1 weeks' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => fixed })
+    const user = userEvent.setup()
+
+    render(<ReconciliationPanel now={new Date('2025-09-13T12:00:00Z')} />)
+    await user.click(screen.getByText('Compare'))
+    await user.click(await within(screen.getByTestId('reconciliation-week-2025-09-07')).findByText('Resync 1 ASINs'))
+
+    expect(JSON.parse((global.fetch as any).mock.calls[1][1].body)).toEqual({
+      slices: [{ week_start: '2025-09-07', asin: 'B0CXYZ1234' }]
+    })
+    await waitFor(() => expect(screen.getByText('All 4 week/ASIN slices match')).toBeInTheDocument())
+    expect(screen.getByRole('status')).toHaveTextContent('Resynced 1 slices across 1 weeks')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { render, screen, within } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { RefreshDependencyGraph, DependencyGraphData } from '../RefreshDependencyGraph'
+
+describe('RefreshDependencyGraph', () => {
+  const node = (table_name: string, wave: number | null, status: string, depends_on: any[] = [], skip_reason: string | null = null) => ({
+    table_name,
+    schema: 'sqp',
+    priority: 50,
+    enabled: true,
+    wave,
+    status,
+    skip_reason,
+    depends_on
+  })
+
+  const graph: DependencyGraphData = {
+    nodes: [
+      node('sync_log', 1, 'success'),
+      node('asin_performance_data', 2, 'running', [{ table_name: 'sync_log', type: 'hard' }]),
+      node('search_query_performance', 2, 'failed', [{ table_name: 'sync_log', type: 'soft' }]),
+      node('weekly_summary', 3, 'skipped', [{ table_name: 'search_query_performance', type: 'hard' }], 'Skipped: hard dependency search_query_performance failed')
+    ],
+    waves: [['sync_log'], ['asin_performance_data', 'search_query_performance'], ['weekly_summary']],
+    cycle: null,
+    current_run: {
+      id: 'run-1',
+      started_at: '2025-09-07T10:00:00Z',
+      total_waves: 3,
+      current_wave: 2,
+      is_active: true,
+      running: ['asin_performance_data'],
+      completed: 1,
+      failed: 1,
+      skipped: 1
+    }
+  }
+
+  it('renders tables grouped by wave with their dependencies', () => {
+    render(<RefreshDependencyGraph graph={graph} />)
+
+    expect(screen.getByText('Wave 1')).toBeInTheDocument()
+    expect(screen.getByText('Wave 3')).toBeInTheDocument()
+    expect(within(screen.getByTestId('dependency-node-search_query_performance')).getByText('After sync_log (soft)')).toBeInTheDocument()
+    expect(screen.getByText('Skipped: hard dependency search_query_performance failed')).toBeInTheDocument()
+  })
+
+  it('shows where the current run is', () => {
+    render(<RefreshDependencyGraph graph={graph} />)
+
+    expect(screen.getByTestId('refresh-run-progress')).toHaveTextContent(
+      'Run in progress: wave 2 of 3 • 1 succeeded, 1 failed, 1 skipped'
+    )
+    expect(screen.getByText('current')).toBeInTheDocument()
+  })
+
+  it('warns about dependency cycles', () => {
+    render(
+      <RefreshDependencyGraph
+        graph={{ ...graph, waves: [], cycle: ['a', 'b', 'a'], current_run: null }}
+      />
+    )
+
+    expect(screen.getByText('Dependency cycle: a → b → a')).toBeInTheDocument()
+    expect(screen.getByText('Tables')).toBeInTheDocument()
+    expect(screen.queryByTestId('refresh-run-progress')).not.toBeInTheDocument()
+  })
+})
\ No newline at end of file
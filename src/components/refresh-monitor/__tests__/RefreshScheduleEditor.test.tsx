@@ -0,0 +1,66 @@
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi } from 'vitest'
+import { RefreshScheduleEditor, RefreshScheduleDraft } from '../RefreshScheduleEditor'
+
+describe('RefreshScheduleEditor', () => {
+  const now = new Date('2025-09-08T12:00:00Z') // Monday
+  const draft: RefreshScheduleDraft = {
+    frequency_hours: 24,
+    schedule_cron: '0 6 * * 1-5',
+    schedule_timezone: 'America/Los_Angeles',
+    blackout_windows: [],
+    run_after_tables: []
+  }
+
+  it('previews the next 5 runs in the schedule timezone', () => {
+    render(<RefreshScheduleEditor value={draft} onChange={vi.fn()} tables={[]} now={now} />)
+
+    const runs = within(screen.getByTestId('schedule-preview')).getAllByRole('listitem')
+    expect(runs).toHaveLength(5)
+    expect(runs[0]).toHaveTextContent('Mon Sep 8, 2025 06:00')
+    expect(runs[4]).toHaveTextContent('Fri Sep 12, 2025 06:00')
+    expect(screen.getByText('Next 5 runs (America/Los_Angeles)')).toBeInTheDocument()
+  })
+
+  it('previews interval runs pushed out of blackout windows', () => {
+    render(
+      <RefreshScheduleEditor
+        value={{ ...draft, schedule_cron: '', schedule_timezone: 'UTC', frequency_hours: 12, blackout_windows: [{ start: '23:00', end: '01:00' }] }}
+        onChange={vi.fn()}
+        tables={[]}
+        now={now}
+      />
+    )
+
+    const runs = within(screen.getByTestId('schedule-preview')).getAllByRole('listitem')
+    expect(runs[0]).toHaveTextContent('Tue Sep 9, 2025 01:00')
+    expect(runs[1]).toHaveTextContent('Tue Sep 9, 2025 13:00')
+  })
+
+  it('shows validation errors instead of a preview', () => {
+    render(<RefreshScheduleEditor value={{ ...draft, schedule_cron: '0 25 * * *' }} onChange={vi.fn()} tables={[]} now={now} />)
+
+    expect(screen.getByTestId('schedule-errors')).toHaveTextContent('Invalid cron expression')
+    expect(screen.queryByTestId('schedule-preview')).not.toBeInTheDocument()
+  })
+
+  it('edits blackout windows and run-after triggers', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    const { rerender } = render(
+      <RefreshScheduleEditor value={draft} onChange={onChange} tables={['asin_performance_data']} now={now} />
+    )
+
+    await user.click(screen.getByRole('button', { name: /Add window/ }))
+    expect(onChange).toHaveBeenLastCalledWith({ ...draft, blackout_windows: [{ start: '00:00', end: '06:00' }] })
+
+    await user.click(screen.getByLabelText('asin_performance_data'))
+    expect(onChange).toHaveBeenLastCalledWith({ ...draft, run_after_tables: ['asin_performance_data'] })
+
+    const withWindow = { ...draft, blackout_windows: [{ start: '00:00', end: '06:00' }] }
+    rerender(<RefreshScheduleEditor value={withWindow} onChange={onChange} tables={[]} now={now} />)
+    await user.click(within(screen.getByTestId('blackout-window-0')).getByRole('button', { name: 'Sat' }))
+    expect(onChange).toHaveBeenLastCalledWith({ ...draft, blackout_windows: [{ start: '00:00', end: '06:00', days: [6] }] })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { WebhookPanel } from '../WebhookPanel'
+
+describe('WebhookPanel', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ webhooks: [], total: 0 })
+    }) as any
+  })
+
+  it('lists data-level events and previews their payloads', async () => {
+    const user = userEvent.setup()
+    render(<WebhookPanel />)
+
+    await waitFor(() => expect(screen.getByText('Webhook Notifications')).toBeInTheDocument())
+    await user.click(screen.getByRole('button', { name: /Add Webhook/ }))
+
+    expect(screen.getByText('New Week Available')).toBeInTheDocument()
+    expect(screen.getByText('Brand Mapping Changed')).toBeInTheDocument()
+    expect(screen.getByText('Data Quality Failed')).toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Preview data.week_available payload'))
+
+    const preview = screen.getByTestId('webhook-payload-preview')
+    expect(preview).toHaveTextContent('"event": "data.week_available"')
+    expect(preview).toHaveTextContent('"version": 1')
+    expect(preview).toHaveTextContent('"start_date": "2025-09-07"')
+
+    await user.click(screen.getByLabelText('Preview data.week_available payload'))
+    expect(screen.queryByTestId('webhook-payload-preview')).not.toBeInTheDocument()
+  })
+})
\ No newline at end of file
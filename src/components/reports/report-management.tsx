@@ -5,6 +5,8 @@ import {
   Calendar, Clock, Download, Mail, Plus, Settings, Trash2,
   FileText, CheckCircle, XCircle, AlertTriangle, Play, Pause, Eye
 } from 'lucide-react'
+import ReportPreview from './report-preview'
+import type { ReportSection } from '@/services/reports/report-generation-service'
 
 interface ReportConfiguration {
   id: string
@@ -58,6 +60,16 @@ interface ReportFormData {
   filters: {
     brand_id?: string
   }
+  config: {
+    sections?: Array<{ type: string; config?: Record<string, any> }>
+    [key: string]: any
+  }
+}
+
+interface SectionType {
+  type: string
+  label: string
+  description: string
 }
 
 const REPORT_TYPES = [
@@ -97,13 +109,17 @@ export default function ReportManagement() {
     include_charts: true,
     include_raw_data: false,
     recipients: [],
-    filters: {}
+    filters: {},
+    config: {}
   })
   const [brands, setBrands] = useState<Array<{ id: string; name: string }>>([])
+  const [sectionTypes, setSectionTypes] = useState<SectionType[]>([])
+  const [preview, setPreview] = useState<{ name: string; sections: ReportSection[] } | null>(null)
 
   useEffect(() => {
     fetchReports()
     fetchBrands()
+    fetchSectionTypes()
   }, [])
 
   const fetchReports = async () => {
@@ -133,6 +149,31 @@ export default function ReportManagement() {
     }
   }
 
+  const fetchSectionTypes = async () => {
+    try {
+      const response = await fetch('/api/reports/sections')
+      const data = await response.json()
+      if (data.sections) {
+        setSectionTypes(data.sections)
+      }
+    } catch (error) {
+      console.error('Error fetching report sections:', error)
+    }
+  }
+
+  const toggleSection = (type: string, checked: boolean) => {
+    const sections = formData.config.sections || []
+    setFormData({
+      ...formData,
+      config: {
+        ...formData.config,
+        sections: checked
+          ? [...sections, { type }]
+          : sections.filter(section => section.type !== type)
+      }
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -175,7 +216,8 @@ export default function ReportManagement() {
       include_charts: true,
       include_raw_data: false,
       recipients: [],
-      filters: {}
+      filters: {},
+      config: {}
     })
   }
 
@@ -196,7 +238,8 @@ export default function ReportManagement() {
         email: r.email, 
         name: r.name || '' 
       })) || [],
-      filters: report.filters || {}
+      filters: report.filters || {},
+      config: report.config || {}
     })
     setShowForm(true)
   }
@@ -251,7 +294,8 @@ export default function ReportManagement() {
       })
 
       if (response.ok) {
-        alert('Report generation started')
+        const data = await response.json()
+        setPreview({ name: report.name, sections: data.report?.sections || [] })
         await fetchReports()
       }
     } catch (error) {
@@ -523,6 +567,30 @@ export default function ReportManagement() {
                       ))}
                     </select>
                   </div>
+
+                  {formData.report_type === 'custom' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Sections
+                      </label>
+                      <div className="space-y-2">
+                        {sectionTypes.map(section => (
+                          <label key={section.type} className="flex items-start">
+                            <input
+                              type="checkbox"
+                              checked={!!formData.config.sections?.some(s => s.type === section.type)}
+                              onChange={(e) => toggleSection(section.type, e.target.checked)}
+                              className="mr-2 mt-1"
+                            />
+                            <span className="text-sm">
+                              {section.label}
+                              <span className="block text-xs text-gray-500">{section.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Schedule */}
@@ -741,6 +809,27 @@ export default function ReportManagement() {
           </div>
         </div>
       )}
+
+      {/* Report Preview Modal */}
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">{preview.name}</h3>
+                <button
+                  onClick={() => setPreview(null)}
+                  className="p-1 text-gray-500 hover:text-gray-700"
+                  title="Close"
+                >
+                  <XCircle className="w-5 h-5" />
+                </button>
+              </div>
+              <ReportPreview sections={preview.sections} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
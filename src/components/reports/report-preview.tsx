@@ -0,0 +1,112 @@
+'use client'
+
+import React from 'react'
+import type { ReportSection } from '@/services/reports/report-generation-service'
+import type { SectionMetric, SectionPreview } from '@/services/reports/sections/types'
+
+interface ReportPreviewProps {
+  sections: ReportSection[]
+}
+
+function formatLabel(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '-'
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(3)
+  }
+  return String(value)
+}
+
+function formatMetric(metric: SectionMetric): string {
+  if (metric.value === null) return '-'
+  if (typeof metric.value === 'string') return metric.value
+  switch (metric.format) {
+    case 'percent':
+      return `${(metric.value * 100).toFixed(1)}%`
+    case 'currency':
+      return `$${metric.value.toLocaleString()}`
+    default:
+      return metric.value.toLocaleString()
+  }
+}
+
+function SectionBody({ preview }: { preview: SectionPreview }) {
+  switch (preview.kind) {
+    case 'metrics':
+      return (
+        <div>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {preview.metrics.map(metric => (
+              <div key={metric.label} className="bg-gray-50 rounded-lg p-3">
+                <dt className="text-xs text-gray-500">{metric.label}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatMetric(metric)}</dd>
+              </div>
+            ))}
+          </dl>
+          {preview.notes.length > 0 && (
+            <ul className="mt-3 list-disc list-inside text-sm text-gray-700">
+              {preview.notes.map(note => <li key={note}>{note}</li>)}
+            </ul>
+          )}
+        </div>
+      )
+    case 'table':
+      return (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                {preview.columns.map(column => (
+                  <th key={column} className="text-left py-2 px-3 text-xs font-medium text-gray-500 uppercase">
+                    {formatLabel(column)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {preview.rows.map((row, index) => (
+                <tr key={index}>
+                  {preview.columns.map(column => (
+                    <td key={column} className="py-2 px-3 text-gray-900 whitespace-nowrap">
+                      {formatCell(row[column])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.total > preview.rows.length && (
+            <p className="mt-2 text-xs text-gray-500">
+              Showing {preview.rows.length} of {preview.total} rows
+            </p>
+          )}
+        </div>
+      )
+    default:
+      return <p className="text-sm text-gray-500">{preview.message}</p>
+  }
+}
+
+export default function ReportPreview({ sections }: ReportPreviewProps) {
+  if (sections.length === 0) {
+    return <p className="text-sm text-gray-500">This report has no sections</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section, index) => (
+        <section key={`${section.type}-${index}`}>
+          <h4 className="font-medium text-gray-900 mb-3">{section.title}</h4>
+          {section.preview ? (
+            <SectionBody preview={section.preview} />
+          ) : (
+            <p className="text-sm text-gray-500">No preview available</p>
+          )}
+        </section>
+      ))}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,5 +1,12 @@
 import { useRouter, useSearchParams, usePathname } from 'next/navigation'
 import { useCallback, useMemo } from 'react'
+import {
+  MAX_COMPARISON_ASINS,
+  parseComparisonAsins,
+  resolveBaseline,
+  SHARE_METRICS,
+  type ShareMetric,
+} from '@/components/asin-performance/utils/asinComparison'
 
 export interface BrandDashboardUrlState {
   // Pagination
@@ -25,6 +32,11 @@ export interface BrandDashboardUrlState {
   
   // Selected products
   selected?: string[]
+
+  // Brand roll-up and share-of-voice settings
+  includeChildren?: boolean
+  voiceQueries?: string[]
+  voiceShareChange?: number
 }
 
 export function useUrlState() {
@@ -47,6 +59,9 @@ export function useUrlState() {
       compareTo: searchParams.get('compareTo') || undefined,
       showComparison: searchParams.get('showComparison') === 'true',
       selected: searchParams.get('selected')?.split(',').filter(Boolean) || undefined,
+      includeChildren: searchParams.get('includeChildren') === 'true',
+      voiceQueries: searchParams.get('voiceQueries')?.split(',').filter(Boolean) || undefined,
+      voiceShareChange: searchParams.get('voiceShareChange') ? parseFloat(searchParams.get('voiceShareChange')!) : undefined,
     }
   }, [searchParams])
 
@@ -232,4 +247,65 @@ export function useNavigationContext() {
     hasPreservedDateRange: !!(context.preservedDateFrom && context.preservedDateTo),
     hasPreservedComparison: !!(context.preservedShowComparison && context.preservedCompareFrom && context.preservedCompareTo),
   }
+}
+
+export interface AsinComparisonUrlState {
+  asins: string[]
+  baseline: string | null
+  startDate?: string
+  endDate?: string
+  metric: ShareMetric
+}
+
+// URL state for the multi-ASIN comparison workspace so comparisons can be shared
+export function useAsinComparisonUrlState() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const urlState = useMemo((): AsinComparisonUrlState => {
+    const asins = parseComparisonAsins(searchParams.get('asins'))
+    const metric = searchParams.get('metric') as ShareMetric
+    return {
+      asins,
+      baseline: resolveBaseline(asins, searchParams.get('baseline')),
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      metric: metric && Object.hasOwn(SHARE_METRICS, metric) ? metric : 'purchaseShare',
+    }
+  }, [searchParams])
+
+  const updateComparison = useCallback((updates: Partial<AsinComparisonUrlState>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    const next = { ...urlState, ...updates }
+    const asins = next.asins.slice(0, MAX_COMPARISON_ASINS)
+    const baseline = resolveBaseline(asins, next.baseline)
+
+    if (asins.length > 0) params.set('asins', asins.join(','))
+    else params.delete('asins')
+    if (baseline) params.set('baseline', baseline)
+    else params.delete('baseline')
+    if (next.startDate) params.set('startDate', next.startDate)
+    if (next.endDate) params.set('endDate', next.endDate)
+    params.set('metric', next.metric)
+
+    router.replace(`${pathname}?${params.toString()}`)
+  }, [router, pathname, searchParams, urlState])
+
+  const addAsin = useCallback((asin: string) => {
+    if (urlState.asins.includes(asin) || urlState.asins.length >= MAX_COMPARISON_ASINS) return
+    updateComparison({ asins: [...urlState.asins, asin] })
+  }, [urlState.asins, updateComparison])
+
+  const removeAsin = useCallback((asin: string) => {
+    updateComparison({ asins: urlState.asins.filter(item => item !== asin) })
+  }, [urlState.asins, updateComparison])
+
+  return {
+    urlState,
+    updateComparison,
+    addAsin,
+    removeAsin,
+    canAddAsin: urlState.asins.length < MAX_COMPARISON_ASINS,
+  }
 }
\ No newline at end of file
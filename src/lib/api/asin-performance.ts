@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueries } from '@tanstack/react-query'
 
 export interface ASIN {
   asin: string
@@ -7,6 +7,10 @@ export interface ASIN {
 }
 
 import type { ComparisonPeriod } from '@/lib/date-utils/comparison-period'
+import type { OpportunityScore } from '@/services/dashboard/opportunity-scoring-service'
+import type { ForecastReport } from '@/services/dashboard/forecasting-service'
+import type { ShippingAnalysisReport } from '@/services/dashboard/shipping-speed-service'
+import type { QuerySegmentReport } from '@/services/brands/query-segments'
 
 export interface SuggestionMetadata {
   period: ComparisonPeriod
@@ -126,6 +130,8 @@ export interface ASINPerformanceData {
     clickShare: number
     cartAddShare?: number
     purchaseShare: number
+    opportunity?: OpportunityScore
+    watched?: boolean
   }>
   topQueriesComparison?: Array<{
     searchQuery: string
@@ -142,6 +148,11 @@ export interface ASINPerformanceData {
     cartAddShare?: number
     purchaseShare: number
   }>
+  // Queries the ASIN's keyword lists left out of every total above, and those pinned
+  keywordLists?: {
+    excludedQueries: string[]
+    watchedQueries: string[]
+  }
   comparisonSuggestions?: ComparisonSuggestions
   comparisonValidation?: ComparisonValidation
 }
@@ -160,6 +171,38 @@ export function useASINList() {
   })
 }
 
+async function fetchASINPerformance(
+  asin: string,
+  startDate: string,
+  endDate: string,
+  compareStartDate?: string,
+  compareEndDate?: string
+): Promise<ASINPerformanceData> {
+  if (!asin) {
+    throw new Error('ASIN is required')
+  }
+
+  const params = new URLSearchParams({
+    asin,
+    startDate,
+    endDate,
+    includeQueries: 'true',
+  })
+
+  if (compareStartDate && compareEndDate) {
+    params.append('compareStartDate', compareStartDate)
+    params.append('compareEndDate', compareEndDate)
+  }
+
+  const response = await fetch(`/api/dashboard/v2/asin-overview?${params.toString()}`)
+  
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch ASIN performance data')
+  }
+  return response.json()
+}
+
 export function useASINPerformance(
   asin: string,
   startDate: string,
@@ -169,37 +212,30 @@ export function useASINPerformance(
 ) {
   return useQuery<ASINPerformanceData>({
     queryKey: ['asin-performance', asin, startDate, endDate, compareStartDate, compareEndDate],
-    queryFn: async () => {
-      if (!asin) {
-        throw new Error('ASIN is required')
-      }
-
-      const params = new URLSearchParams({
-        asin,
-        startDate,
-        endDate,
-        includeQueries: 'true',
-      })
-
-      if (compareStartDate && compareEndDate) {
-        params.append('compareStartDate', compareStartDate)
-        params.append('compareEndDate', compareEndDate)
-      }
-
-      const response = await fetch(`/api/dashboard/v2/asin-overview?${params.toString()}`)
-      
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to fetch ASIN performance data')
-      }
-      return response.json()
-    },
+    queryFn: () => fetchASINPerformance(asin, startDate, endDate, compareStartDate, compareEndDate),
     enabled: !!asin && !!startDate && !!endDate,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   })
 }
 
+// Performance for several ASINs over the same range; shares the cache with useASINPerformance
+export function useMultiASINPerformance(
+  asins: string[],
+  startDate: string,
+  endDate: string
+) {
+  return useQueries({
+    queries: asins.map(asin => ({
+      queryKey: ['asin-performance', asin, startDate, endDate, undefined, undefined],
+      queryFn: () => fetchASINPerformance(asin, startDate, endDate),
+      enabled: !!asin && !!startDate && !!endDate,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      gcTime: 10 * 60 * 1000, // 10 minutes
+    })),
+  })
+}
+
 export function useSearchQueries(
   asin: string,
   startDate: string,
@@ -337,4 +373,115 @@ export function useASINDataAvailability(asin: string | null) {
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   })
+}
+
+export async function fetchASINForecast(
+  asin: string,
+  endDate: string,
+  keyword?: string | null,
+  horizon: number = 8
+): Promise<ForecastReport> {
+  const params = new URLSearchParams({
+    asin,
+    endDate,
+    horizon: horizon.toString(),
+    ...(keyword && { keyword }),
+  })
+
+  const response = await fetch(`/api/dashboard/v2/forecast?${params}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch forecast')
+  }
+
+  return response.json()
+}
+
+// Forecast for an ASIN, or one of its keywords, continuing from the week of endDate
+export function useASINForecast(
+  asin: string | null,
+  endDate: string,
+  keyword?: string | null,
+  horizon: number = 8
+) {
+  return useQuery<ForecastReport>({
+    queryKey: ['asin-forecast', asin, endDate, keyword ?? null, horizon],
+    queryFn: () => fetchASINForecast(asin!, endDate, keyword, horizon),
+    enabled: !!asin && !!endDate,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
+
+export async function fetchASINShippingAnalysis(
+  asin: string,
+  startDate: string,
+  endDate: string
+): Promise<ShippingAnalysisReport> {
+  const params = new URLSearchParams({ asin, startDate, endDate })
+
+  const response = await fetch(`/api/dashboard/v2/shipping-analysis?${params}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch shipping analysis')
+  }
+
+  return response.json()
+}
+
+// Market shipping-speed mix on the queries an ASIN shows up on
+export function useASINShippingAnalysis(
+  asin: string | null,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery<ShippingAnalysisReport>({
+    queryKey: ['asin-shipping-analysis', asin, startDate, endDate],
+    queryFn: () => fetchASINShippingAnalysis(asin!, startDate, endDate),
+    enabled: !!asin && !!startDate && !!endDate,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+export async function fetchASINQuerySegments(
+  asin: string,
+  startDate: string,
+  endDate: string,
+  compareStartDate?: string,
+  compareEndDate?: string
+): Promise<QuerySegmentReport> {
+  const params = new URLSearchParams({ asin, startDate, endDate })
+  if (compareStartDate && compareEndDate) {
+    params.append('compareStartDate', compareStartDate)
+    params.append('compareEndDate', compareEndDate)
+  }
+
+  const response = await fetch(`/api/dashboard/v2/query-segments?${params}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch query segments')
+  }
+
+  return response.json()
+}
+
+// Branded, competitor and generic split of the queries an ASIN shows up on
+export function useASINQuerySegments(
+  asin: string | null,
+  startDate: string,
+  endDate: string,
+  compareStartDate?: string,
+  compareEndDate?: string
+) {
+  return useQuery<QuerySegmentReport>({
+    queryKey: ['asin-query-segments', asin, startDate, endDate, compareStartDate, compareEndDate],
+    queryFn: () => fetchASINQuerySegments(asin!, startDate, endDate, compareStartDate, compareEndDate),
+    enabled: !!asin && !!startDate && !!endDate,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
+import type { CannibalizationResult } from '@/services/dashboard/keyword-cannibalization-service'
+import type { QueryVolume, ShareOfVoiceWeek } from '@/services/brands/share-of-voice'
+import type { ClassifiedQuery, QuerySegment, QuerySegmentWeek, SegmentBreakdown } from '@/services/brands/query-segments'
 
 interface KPIData {
   value: number
@@ -8,6 +11,8 @@ interface KPIData {
 
 interface ProductData {
   id: string
+  // Brand the ASIN is mapped to; a sub-brand when the dashboard is rolled up
+  brandId?: string
   name: string
   childAsin: string
   image: string
@@ -70,6 +75,28 @@ interface TimeSeriesPoint {
   purchases: number
 }
 
+// Shares are percentages of the query market, computed from summed counts
+export interface BrandShares {
+  impressionShare: number
+  clickShare: number
+  cartAddShare: number
+  purchaseShare: number
+}
+
+export interface BrandBreakdownRow extends BrandShares {
+  brandId: string
+  displayName: string
+  // The parent's own ASINs rather than a sub-brand
+  isParent: boolean
+  // Brands rolled into this row, the sub-brand and everything below it
+  brandCount: number
+  asinCount: number
+  impressions: number
+  clicks: number
+  cartAdds: number
+  purchases: number
+}
+
 interface BrandDashboardResponse {
   data: {
     kpis: {
@@ -81,6 +108,8 @@ interface BrandDashboardResponse {
     timeSeries: TimeSeriesPoint[]
     products: ProductData[]
     searchQueries: SearchQueryData[]
+    shares: BrandShares
+    breakdown: BrandBreakdownRow[]
   }
   meta: {
     brand: {
@@ -95,6 +124,8 @@ interface BrandDashboardResponse {
       from: string
       to: string
     }
+    includeChildren: boolean
+    brandIds: string[]
   }
 }
 
@@ -105,7 +136,8 @@ export function useBrandDashboard(
   comparisonDateFrom?: string,
   comparisonDateTo?: string,
   productLimit = 50,
-  queryLimit = 50
+  queryLimit = 50,
+  includeChildren = false
 ) {
   const params = new URLSearchParams({
     date_from: dateFrom,
@@ -119,8 +151,12 @@ export function useBrandDashboard(
     params.append('comparison_date_to', comparisonDateTo)
   }
 
+  if (includeChildren) {
+    params.append('include_children', 'true')
+  }
+
   return useQuery<BrandDashboardResponse>({
-    queryKey: ['brand-dashboard', brandId, dateFrom, dateTo, comparisonDateFrom, comparisonDateTo],
+    queryKey: ['brand-dashboard', brandId, dateFrom, dateTo, comparisonDateFrom, comparisonDateTo, includeChildren],
     queryFn: async () => {
       const response = await fetch(`/api/brands/${brandId}/dashboard?${params}`)
       if (!response.ok) {
@@ -131,4 +167,183 @@ export function useBrandDashboard(
     },
     enabled: !!brandId && !!dateFrom && !!dateTo,
   })
+}
+
+export interface BrandCannibalizationResponse {
+  data: CannibalizationResult[]
+  summary: {
+    brandAsins: number
+    queriesAnalyzed: number
+    cannibalizedQueries: number
+    flaggedQueries: number
+  }
+  meta: {
+    brand: {
+      id: string
+      display_name: string
+    }
+    dateRange: {
+      from: string
+      to: string
+    }
+    comparisonDateRange: {
+      from: string
+      to: string
+    }
+  }
+}
+
+export function useBrandCannibalization(
+  brandId: string,
+  dateFrom: string,
+  dateTo: string,
+  comparisonDateFrom?: string,
+  comparisonDateTo?: string,
+  limit = 50
+) {
+  const params = new URLSearchParams({
+    date_from: dateFrom,
+    date_to: dateTo,
+    limit: limit.toString(),
+  })
+
+  if (comparisonDateFrom && comparisonDateTo) {
+    params.append('comparison_date_from', comparisonDateFrom)
+    params.append('comparison_date_to', comparisonDateTo)
+  }
+
+  return useQuery<BrandCannibalizationResponse>({
+    queryKey: ['brand-cannibalization', brandId, dateFrom, dateTo, comparisonDateFrom, comparisonDateTo, limit],
+    queryFn: async () => {
+      const response = await fetch(`/api/brands/${brandId}/cannibalization?${params}`)
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error?.message || 'Failed to fetch keyword cannibalization data')
+      }
+      return response.json()
+    },
+    enabled: !!brandId && !!dateFrom && !!dateTo,
+  })
+}
+
+export interface BrandShareOfVoiceResponse {
+  data: ShareOfVoiceWeek[]
+  summary: {
+    queries: string[]
+    availableQueries: QueryVolume[]
+    flaggedWeeks: number
+  }
+  meta: {
+    brand: {
+      id: string
+      display_name: string
+    }
+    dateRange: {
+      from: string
+      to: string
+    }
+    shareChangeThreshold: number
+    flatMarketTolerance: number
+    includeChildren: boolean
+  }
+}
+
+export function useBrandShareOfVoice(
+  brandId: string,
+  dateFrom: string,
+  dateTo: string,
+  queries: string[] = [],
+  shareChangeThreshold = 5,
+  includeChildren = false
+) {
+  const params = new URLSearchParams({
+    date_from: dateFrom,
+    date_to: dateTo,
+    share_change: shareChangeThreshold.toString(),
+  })
+
+  queries.forEach(query => params.append('query', query))
+
+  if (includeChildren) {
+    params.append('include_children', 'true')
+  }
+
+  return useQuery<BrandShareOfVoiceResponse>({
+    queryKey: ['brand-share-of-voice', brandId, dateFrom, dateTo, queries, shareChangeThreshold, includeChildren],
+    queryFn: async () => {
+      const response = await fetch(`/api/brands/${brandId}/share-of-voice?${params}`)
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error?.message || 'Failed to fetch share of voice data')
+      }
+      return response.json()
+    },
+    // Keep the query picker on screen while a new selection loads
+    placeholderData: previous => previous,
+    enabled: !!brandId && !!dateFrom && !!dateTo,
+  })
+}
+
+export interface BrandQuerySegmentsResponse {
+  data: {
+    segments: SegmentBreakdown
+    // Dashboard KPIs restricted to each segment's queries
+    kpis: Record<QuerySegment, {
+      impressions: KPIData
+      clicks: KPIData
+      cartAdds: KPIData
+      purchases: KPIData
+    }>
+    weeks: QuerySegmentWeek[]
+    queries: ClassifiedQuery[]
+  }
+  comparison: SegmentBreakdown | null
+  meta: {
+    brand: {
+      id: string
+      display_name: string
+    }
+    dateRange: {
+      from: string
+      to: string
+    }
+    includeChildren: boolean
+  }
+}
+
+// Branded, competitor and generic split of the brand's search queries
+export function useBrandQuerySegments(
+  brandId: string,
+  dateFrom: string,
+  dateTo: string,
+  comparisonDateFrom?: string,
+  comparisonDateTo?: string,
+  includeChildren = false
+) {
+  const params = new URLSearchParams({
+    date_from: dateFrom,
+    date_to: dateTo,
+  })
+
+  if (comparisonDateFrom && comparisonDateTo) {
+    params.append('comparison_date_from', comparisonDateFrom)
+    params.append('comparison_date_to', comparisonDateTo)
+  }
+
+  if (includeChildren) {
+    params.append('include_children', 'true')
+  }
+
+  return useQuery<BrandQuerySegmentsResponse>({
+    queryKey: ['brand-query-segments', brandId, dateFrom, dateTo, comparisonDateFrom, comparisonDateTo, includeChildren],
+    queryFn: async () => {
+      const response = await fetch(`/api/brands/${brandId}/query-segments?${params}`)
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error?.message || 'Failed to fetch query segments')
+      }
+      return response.json()
+    },
+    enabled: !!brandId && !!dateFrom && !!dateTo,
+  })
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { KeywordGroup } from '@/services/keywords/keyword-group-schema'
+import type { KeywordGroupReport } from '@/services/keywords/keyword-group-service'
+import type { KeywordListType } from '@/services/keywords/keyword-list-schema'
 
 // Types
 export interface ASINKeywordsParams {
@@ -37,12 +40,22 @@ export interface KeywordPerformanceParams {
 export interface KeywordComparisonParams {
   asin: string
   keywords: string[]
+  // Keyword group ids, each compared as one series
+  groups?: string[]
   startDate: string
   endDate: string
   compareStartDate?: string
   compareEndDate?: string
 }
 
+export interface KeywordGroupReportParams {
+  asin: string
+  startDate: string
+  endDate: string
+  // All groups when omitted
+  groups?: string[]
+}
+
 export interface KeywordPerformanceData {
   summary: {
     impressions: number
@@ -120,6 +133,13 @@ export interface KeywordPerformanceData {
       purchaseShare: number
     }>
   }
+  // The watchlist or exclusion list entry that applies to the keyword for this ASIN
+  keywordList?: {
+    id: string
+    listType: KeywordListType
+    scope: 'asin' | 'brand'
+    alertEnabled: boolean
+  } | null
 }
 
 export interface KeywordComparisonData {
@@ -154,6 +174,11 @@ export interface KeywordComparisonData {
       }
     }
   }
+  groups?: Array<{
+    id: string
+    name: string
+    keywords: string[]
+  }>
 }
 
 // API functions
@@ -207,6 +232,10 @@ async function fetchKeywordComparison(params: KeywordComparisonParams): Promise<
     endDate: params.endDate,
   })
 
+  if (params.groups && params.groups.length > 0) {
+    searchParams.append('groups', params.groups.join(','))
+  }
+
   if (params.compareStartDate && params.compareEndDate) {
     searchParams.append('compareStartDate', params.compareStartDate)
     searchParams.append('compareEndDate', params.compareEndDate)
@@ -222,6 +251,39 @@ async function fetchKeywordComparison(params: KeywordComparisonParams): Promise<
   return response.json()
 }
 
+async function fetchKeywordGroups(): Promise<KeywordGroup[]> {
+  const response = await fetch('/api/keyword-groups')
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch keyword groups')
+  }
+
+  const data = await response.json()
+  return data.groups || []
+}
+
+async function fetchKeywordGroupReport(params: KeywordGroupReportParams): Promise<KeywordGroupReport> {
+  const searchParams = new URLSearchParams({
+    asin: params.asin,
+    startDate: params.startDate,
+    endDate: params.endDate,
+  })
+
+  if (params.groups && params.groups.length > 0) {
+    searchParams.append('groups', params.groups.join(','))
+  }
+
+  const response = await fetch(`/api/dashboard/v2/keyword-groups?${searchParams}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch keyword group report')
+  }
+
+  return response.json()
+}
+
 // Query key factories
 export const keywordQueryKeys = {
   all: ['keyword-analysis'] as const,
@@ -231,6 +293,9 @@ export const keywordQueryKeys = {
     [...keywordQueryKeys.all, 'performance', params] as const,
   comparison: (params: KeywordComparisonParams) => 
     [...keywordQueryKeys.all, 'comparison', params] as const,
+  groups: () => [...keywordQueryKeys.all, 'groups'] as const,
+  groupReport: (params: KeywordGroupReportParams) =>
+    [...keywordQueryKeys.all, 'group-report', params] as const,
 }
 
 // React Query hooks
@@ -260,13 +325,32 @@ export function useKeywordComparison(params: KeywordComparisonParams | null) {
   return useQuery({
     queryKey: params ? keywordQueryKeys.comparison(params) : ['keyword-comparison-disabled'],
     queryFn: () => params ? fetchKeywordComparison(params) : Promise.reject('No params'),
-    enabled: !!params && params.keywords.length > 0,
+    enabled: !!params && (params.keywords.length > 0 || (params.groups?.length ?? 0) > 0),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes (cacheTime renamed to gcTime in v5)
     retry: 2,
   })
 }
 
+export function useKeywordGroups() {
+  return useQuery({
+    queryKey: keywordQueryKeys.groups(),
+    queryFn: fetchKeywordGroups,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  })
+}
+
+export function useKeywordGroupReport(params: KeywordGroupReportParams | null) {
+  return useQuery({
+    queryKey: params ? keywordQueryKeys.groupReport(params) : ['keyword-group-report-disabled'],
+    queryFn: () => params ? fetchKeywordGroupReport(params) : Promise.reject('No params'),
+    enabled: !!params?.asin,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  })
+}
+
 // Prefetch functions for hover functionality
 export function usePrefetchKeywordPerformance() {
   const queryClient = useQueryClient()
@@ -0,0 +1,142 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { KeywordListEntry, KeywordListType } from '@/services/keywords/keyword-list-schema'
+
+// Lists belong to one ASIN or one brand
+export interface KeywordListScope {
+  asin?: string
+  brandId?: string
+}
+
+export interface KeywordListsResponse {
+  entries: KeywordListEntry[]
+  total: number
+}
+
+export interface KeywordListImportResponse {
+  message: string
+  created: number
+  updated: number
+  // Lines of the CSV that were skipped
+  errors: string[]
+}
+
+async function request<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    const details = Array.isArray(data?.details) ? data.details[0] : data?.details
+    throw new Error(details?.message || (typeof details === 'string' ? details : null) || data?.error || fallback)
+  }
+  return data
+}
+
+function scopeBody(scope: KeywordListScope) {
+  return scope.asin ? { asin: scope.asin } : { brand_id: scope.brandId }
+}
+
+export function keywordListsUrl(scope: KeywordListScope, format?: 'csv'): string {
+  const params = new URLSearchParams(scope.asin ? { asin: scope.asin } : { brand_id: scope.brandId || '' })
+  if (format) params.append('format', format)
+  return `/api/keyword-lists?${params}`
+}
+
+export async function fetchKeywordLists(scope: KeywordListScope): Promise<KeywordListsResponse> {
+  const response = await fetch(keywordListsUrl(scope))
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch keyword lists')
+  }
+
+  return response.json()
+}
+
+// Watchlist and exclusion list entries of an ASIN and its brand, or of a brand
+export function useKeywordLists(scope: KeywordListScope | null) {
+  return useQuery<KeywordListsResponse>({
+    queryKey: ['keyword-lists', scope?.asin, scope?.brandId],
+    queryFn: () => fetchKeywordLists(scope!),
+    enabled: !!(scope?.asin || scope?.brandId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// List changes alter the ASIN overview totals, so it is refetched as well
+export function useInvalidateKeywordLists() {
+  const queryClient = useQueryClient()
+
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['keyword-lists'] }),
+    queryClient.invalidateQueries({ queryKey: ['asin-performance'] }),
+  ])
+}
+
+export function updateKeywordListEntry(
+  id: string,
+  updates: Partial<Pick<KeywordListEntry, 'list_type' | 'alert_enabled' | 'note'>>
+): Promise<{ entry: KeywordListEntry }> {
+  return request(`/api/keyword-lists/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates)
+  }, 'Failed to update keyword list entry')
+}
+
+export function addKeywordListEntry(
+  scope: KeywordListScope,
+  keyword: string,
+  listType: KeywordListType
+): Promise<{ entry: KeywordListEntry }> {
+  return request('/api/keyword-lists', {
+    method: 'POST',
+    body: JSON.stringify({ ...scopeBody(scope), keyword, list_type: listType })
+  }, 'Failed to add keyword list entry')
+}
+
+export function deleteKeywordListEntry(id: string): Promise<{ message: string }> {
+  return request(`/api/keyword-lists/${id}`, { method: 'DELETE' }, 'Failed to delete keyword list entry')
+}
+
+/**
+ * Puts a keyword on an ASIN's watchlist or exclusion list, or takes it off
+ * (listType null). Taking a keyword off removes the entry that applies to
+ * the ASIN, which may be its brand's.
+ */
+export async function setKeywordList(
+  asin: string,
+  entries: KeywordListEntry[],
+  keyword: string,
+  listType: KeywordListType | null
+): Promise<void> {
+  const normalized = keyword.trim().replace(/\s+/g, ' ').toLowerCase()
+  const own = entries.find(entry => entry.asin === asin && entry.keyword === normalized)
+  const current = own || entries.find(entry => !entry.asin && entry.keyword === normalized)
+
+  if (listType === null) {
+    if (current) {
+      await deleteKeywordListEntry(current.id)
+    }
+    return
+  }
+  if (current?.list_type === listType) return
+
+  if (own) {
+    await updateKeywordListEntry(own.id, { list_type: listType })
+  } else {
+    await addKeywordListEntry({ asin }, normalized, listType)
+  }
+}
+
+export function importKeywordListCsv(
+  scope: KeywordListScope,
+  csv: string,
+  listType?: KeywordListType
+): Promise<KeywordListImportResponse> {
+  return request('/api/keyword-lists/import', {
+    method: 'POST',
+    body: JSON.stringify({ ...scopeBody(scope), csv, list_type: listType })
+  }, 'Failed to import keyword lists')
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { SavedView, SavedViewPage, SavedViewVisibility, ViewStates } from '@/services/saved-views/saved-view-schema'
+
+// Views come back flagged with whether the caller owns them
+export interface SavedViewItem extends SavedView {
+  owned: boolean
+}
+
+export interface SavedViewsResponse {
+  views: SavedViewItem[]
+  total: number
+}
+
+export interface SavedViewShareResponse {
+  shareToken: string
+  path: string
+}
+
+async function request<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    const details = Array.isArray(data?.details) ? data.details[0] : data?.details
+    throw new Error(details?.message || (typeof details === 'string' ? details : null) || data?.error || fallback)
+  }
+  return data
+}
+
+export async function fetchSavedViews(page: SavedViewPage): Promise<SavedViewsResponse> {
+  const response = await fetch(`/api/saved-views?page=${page}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch saved views')
+  }
+
+  return response.json()
+}
+
+// The caller's own views on a page and every shared one
+export function useSavedViews(page: SavedViewPage) {
+  return useQuery<SavedViewsResponse>({
+    queryKey: ['saved-views', page],
+    queryFn: () => fetchSavedViews(page),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+export function useInvalidateSavedViews() {
+  const queryClient = useQueryClient()
+
+  return () => queryClient.invalidateQueries({ queryKey: ['saved-views'] })
+}
+
+export function createSavedView<P extends SavedViewPage>(view: {
+  name: string
+  page: P
+  state: ViewStates[P]
+  visibility: SavedViewVisibility
+  is_default: boolean
+}): Promise<{ view: SavedViewItem }> {
+  return request('/api/saved-views', {
+    method: 'POST',
+    body: JSON.stringify(view)
+  }, 'Failed to save view')
+}
+
+export function updateSavedView(
+  id: string,
+  updates: Partial<Pick<SavedView, 'name' | 'state' | 'visibility' | 'is_default'>>
+): Promise<{ view: SavedViewItem }> {
+  return request(`/api/saved-views/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates)
+  }, 'Failed to update saved view')
+}
+
+export function deleteSavedView(id: string): Promise<{ message: string }> {
+  return request(`/api/saved-views/${id}`, { method: 'DELETE' }, 'Failed to delete saved view')
+}
+
+export function shareSavedView(id: string): Promise<SavedViewShareResponse> {
+  return request(`/api/saved-views/${id}/share`, { method: 'POST' }, 'Failed to create share link')
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAsinFromRequest,
+  getBrandIdFromPath,
+  getRequiredRole,
+  isPublicApiRoute
+} from '../policy'
+import { canAccessBrand, hasRole } from '../types'
+import { applyAuthHeaders, filterByBrandAccess, getRequestAuth } from '../request-context'
+
+describe('auth policy', () => {
+  describe('getRequiredRole', () => {
+    it('requires admin for sync and refresh trigger endpoints regardless of method', () => {
+      expect(getRequiredRole('/api/sync/bigquery', 'POST')).toBe('admin')
+      expect(getRequiredRole('/api/sync/cron', 'GET')).toBe('admin')
+      expect(getRequiredRole('/api/refresh/trigger', 'POST')).toBe('admin')
+      expect(getRequiredRole('/api/reports/cron', 'GET')).toBe('admin')
+    })
+
+    it('requires admin to run the report scheduler but only analyst to run one report', () => {
+      expect(getRequiredRole('/api/reports/generate', 'GET')).toBe('admin')
+      expect(getRequiredRole('/api/reports/generate', 'POST')).toBe('analyst')
+    })
+
+    it('requires admin to change refresh config but only viewer to read it', () => {
+      expect(getRequiredRole('/api/refresh/config', 'PUT')).toBe('admin')
+      expect(getRequiredRole('/api/refresh/config', 'GET')).toBe('viewer')
+    })
+
+    it('requires admin to author or apply brand extraction rules', () => {
+      expect(getRequiredRole('/api/brands/rules', 'POST')).toBe('admin')
+      expect(getRequiredRole('/api/brands/rules/test', 'POST')).toBe('admin')
+      expect(getRequiredRole('/api/brands/rules', 'GET')).toBe('viewer')
+    })
+
+    it('requires admin to record brand review decisions', () => {
+      expect(getRequiredRole('/api/brands/review', 'POST')).toBe('admin')
+      expect(getRequiredRole('/api/brands/review', 'GET')).toBe('viewer')
+    })
+
+    it('lets viewers save and share their own views', () => {
+      expect(getRequiredRole('/api/saved-views', 'POST')).toBe('viewer')
+      expect(getRequiredRole('/api/saved-views/view-1/share', 'POST')).toBe('viewer')
+    })
+
+    it('requires analyst for other writes', () => {
+      expect(getRequiredRole('/api/reports/configurations', 'POST')).toBe('analyst')
+      expect(getRequiredRole('/api/reports/configurations', 'GET')).toBe('viewer')
+    })
+  })
+
+  it('treats health and login routes as public', () => {
+    expect(isPublicApiRoute('/api/health')).toBe(true)
+    expect(isPublicApiRoute('/api/health/pipeline')).toBe(true)
+    expect(isPublicApiRoute('/api/auth/login')).toBe(true)
+    expect(isPublicApiRoute('/api/healthy')).toBe(false)
+    expect(isPublicApiRoute('/api/brands')).toBe(false)
+  })
+
+  it('extracts brand IDs from brand-scoped paths only', () => {
+    expect(getBrandIdFromPath('/api/brands/abc-123/dashboard')).toBe('abc-123')
+    expect(getBrandIdFromPath('/api/brands/abc-123')).toBe('abc-123')
+    expect(getBrandIdFromPath('/api/brands/hierarchy')).toBeNull()
+    expect(getBrandIdFromPath('/api/brands/rules/apply')).toBeNull()
+    expect(getBrandIdFromPath('/api/brands/review')).toBeNull()
+    expect(getBrandIdFromPath('/api/brands/competitors')).toBeNull()
+    expect(getBrandIdFromPath('/api/brands/competitors/abc-123')).toBeNull()
+    expect(getBrandIdFromPath('/api/brands')).toBeNull()
+  })
+
+  it('extracts ASINs from product paths and query params', () => {
+    expect(getAsinFromRequest('/api/products/B001/image', new URLSearchParams())).toBe('B001')
+    expect(getAsinFromRequest('/api/dashboard/v2/asin-overview', new URLSearchParams('asin=B002'))).toBe('B002')
+    expect(getAsinFromRequest('/api/brands', new URLSearchParams())).toBeNull()
+  })
+
+  it('ranks roles and checks brand scope', () => {
+    const analyst = { userId: 'u1', role: 'analyst' as const, brandIds: ['b1'], method: 'session' as const }
+
+    expect(hasRole(analyst, 'viewer')).toBe(true)
+    expect(hasRole(analyst, 'analyst')).toBe(true)
+    expect(hasRole(analyst, 'admin')).toBe(false)
+    expect(canAccessBrand(analyst, 'b1')).toBe(true)
+    expect(canAccessBrand(analyst, 'b2')).toBe(false)
+    expect(canAccessBrand({ ...analyst, brandIds: null }, 'b2')).toBe(true)
+  })
+})
+
+describe('auth request context', () => {
+  it('round-trips the context through request headers', () => {
+    const headers = new Headers({ 'x-sqp-role': 'admin' })
+    applyAuthHeaders(headers, { userId: 'u1', role: 'viewer', brandIds: ['b1', 'b2'], method: 'api_key' })
+
+    const auth = getRequestAuth(new Request('http://localhost/api/brands', { headers }))
+
+    expect(auth).toEqual({ userId: 'u1', role: 'viewer', brandIds: ['b1', 'b2'], method: 'api_key' })
+  })
+
+  it('uses null brandIds for unrestricted callers', () => {
+    const headers = new Headers()
+    applyAuthHeaders(headers, { userId: null, role: 'admin', brandIds: null, method: 'cron' })
+
+    expect(getRequestAuth(new Request('http://localhost', { headers }))?.brandIds).toBeNull()
+  })
+
+  it('returns null when the middleware did not run', () => {
+    expect(getRequestAuth(new Request('http://localhost'))).toBeNull()
+    expect(getRequestAuth(undefined)).toBeNull()
+  })
+
+  it('filters lists to the caller brand scope', () => {
+    const brands = [{ id: 'b1' }, { id: 'b2' }]
+    const scoped = { userId: 'u1', role: 'viewer' as const, brandIds: ['b2'], method: 'session' as const }
+
+    expect(filterByBrandAccess(brands, scoped, b => b.id)).toEqual([{ id: 'b2' }])
+    expect(filterByBrandAccess(brands, null, b => b.id)).toEqual(brands)
+  })
+})
\ No newline at end of file
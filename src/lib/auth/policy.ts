@@ -0,0 +1,86 @@
+import type { UserRole } from './types'
+
+/**
+ * Route access policy used by the middleware
+ * @module lib/auth/policy
+ */
+
+// Routes that never require credentials
+const PUBLIC_API_PREFIXES = ['/api/health', '/api/auth/login', '/api/auth/logout']
+
+// Routes where any method needs admin (they start syncs, refreshes or change access)
+const ADMIN_API_PREFIXES = [
+  '/api/sync',
+  '/api/refresh/trigger',
+  '/api/auth/api-keys',
+  '/api/auth/access',
+  '/api/alerts/evaluate',
+  '/api/reports/cron',
+  '/api/test'
+]
+
+// Routes whose reads run jobs (GET /api/reports/generate runs the scheduler); writes keep their usual role
+const ADMIN_READ_PREFIXES = ['/api/reports/generate']
+
+// Routes where mutating methods need admin; reads fall through to viewer
+const ADMIN_MUTATION_PREFIXES = ['/api/refresh', '/api/brands/hierarchy', '/api/brands/rules', '/api/brands/review']
+
+// Routes any signed-in user may write to (their own saved views)
+const VIEWER_MUTATION_PREFIXES = ['/api/saved-views']
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Segments under /api/brands that are not brand IDs
+const BRAND_COLLECTION_SEGMENTS = ['hierarchy', 'search', 'stats', 'rules', 'review', 'competitors']
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+export function isPublicApiRoute(pathname: string): boolean {
+  return PUBLIC_API_PREFIXES.some(prefix => matchesPrefix(pathname, prefix))
+}
+
+export function getRequiredRole(pathname: string, method: string): UserRole {
+  if (ADMIN_API_PREFIXES.some(prefix => matchesPrefix(pathname, prefix))) {
+    return 'admin'
+  }
+
+  const isRead = READ_METHODS.includes(method.toUpperCase())
+  if (isRead) {
+    return ADMIN_READ_PREFIXES.some(prefix => matchesPrefix(pathname, prefix)) ? 'admin' : 'viewer'
+  }
+
+  if (ADMIN_MUTATION_PREFIXES.some(prefix => matchesPrefix(pathname, prefix))) {
+    return 'admin'
+  }
+
+  if (VIEWER_MUTATION_PREFIXES.some(prefix => matchesPrefix(pathname, prefix))) {
+    return 'viewer'
+  }
+
+  // Creating reports, exports and other writes need at least analyst
+  return 'analyst'
+}
+
+/**
+ * Extracts the brand ID from /api/brands/[brandId]/... paths
+ */
+export function getBrandIdFromPath(pathname: string): string | null {
+  const match = pathname.match(/^\/api\/brands\/([^/]+)/)
+  if (!match || BRAND_COLLECTION_SEGMENTS.includes(match[1])) {
+    return null
+  }
+  return decodeURIComponent(match[1])
+}
+
+/**
+ * Extracts the ASIN a request is scoped to, from the path or the `asin` query parameter
+ */
+export function getAsinFromRequest(pathname: string, searchParams: URLSearchParams): string | null {
+  const productMatch = pathname.match(/\/products\/([^/]+)/)
+  if (productMatch) {
+    return decodeURIComponent(productMatch[1])
+  }
+  return searchParams.get('asin')
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { AuthContext, canAccessBrand, isUserRole } from './types'
+
+/**
+ * Passes the resolved AuthContext from the middleware to route handlers
+ * through request headers. Incoming copies of these headers are always
+ * stripped by the middleware so callers cannot spoof them.
+ * @module lib/auth/request-context
+ */
+
+export const AUTH_HEADERS = {
+  userId: 'x-sqp-user-id',
+  role: 'x-sqp-role',
+  brandIds: 'x-sqp-brand-ids',
+  method: 'x-sqp-auth-method'
+} as const
+
+export function stripAuthHeaders(headers: Headers): void {
+  Object.values(AUTH_HEADERS).forEach(name => headers.delete(name))
+}
+
+export function applyAuthHeaders(headers: Headers, context: AuthContext): void {
+  stripAuthHeaders(headers)
+  if (context.userId) {
+    headers.set(AUTH_HEADERS.userId, context.userId)
+  }
+  headers.set(AUTH_HEADERS.role, context.role)
+  headers.set(AUTH_HEADERS.method, context.method)
+  headers.set(AUTH_HEADERS.brandIds, context.brandIds === null ? '*' : context.brandIds.join(','))
+}
+
+/**
+ * Reads the AuthContext set by the middleware. Returns null when the request
+ * did not pass through the middleware (e.g. route handlers called directly in tests).
+ */
+export function getRequestAuth(request?: Request): AuthContext | null {
+  const role = request?.headers?.get(AUTH_HEADERS.role)
+  if (!request || !isUserRole(role)) {
+    return null
+  }
+
+  const brandHeader = request.headers.get(AUTH_HEADERS.brandIds)
+  return {
+    userId: request.headers.get(AUTH_HEADERS.userId),
+    role,
+    brandIds: !brandHeader || brandHeader === '*'
+      ? (brandHeader === '*' ? null : [])
+      : brandHeader.split(',').filter(Boolean),
+    method: (request.headers.get(AUTH_HEADERS.method) as AuthContext['method']) || 'session'
+  }
+}
+
+/**
+ * Filters a list to the brands the caller may see. Lists pass through untouched
+ * when there is no auth context or the caller is not brand-restricted.
+ */
+export function filterByBrandAccess<T>(
+  items: T[],
+  context: AuthContext | null,
+  getBrandId: (item: T) => string | null | undefined
+): T[] {
+  if (!context || context.brandIds === null) {
+    return items
+  }
+  return items.filter(item => {
+    const brandId = getBrandId(item)
+    return !!brandId && canAccessBrand(context, brandId)
+  })
+}
+
+export function unauthorizedResponse(message = 'Authentication required') {
+  return NextResponse.json(
+    { error: 'Unauthorized', message },
+    { status: 401 }
+  )
+}
+
+export function forbiddenResponse(message = 'You do not have access to this resource') {
+  return NextResponse.json(
+    { error: 'Forbidden', message },
+    { status: 403 }
+  )
+}
\ No newline at end of file
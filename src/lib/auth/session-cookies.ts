@@ -0,0 +1,28 @@
+import type { NextResponse } from 'next/server'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, SessionTokens } from './verify'
+
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+
+export function setSessionCookies(response: NextResponse, session: SessionTokens): void {
+  const secure = process.env.NODE_ENV === 'production'
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: session.expires_in
+  })
+  response.cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: REFRESH_TOKEN_MAX_AGE
+  })
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE)
+  response.cookies.delete(REFRESH_TOKEN_COOKIE)
+}
\ No newline at end of file
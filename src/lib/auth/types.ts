@@ -0,0 +1,40 @@
+/**
+ * Authentication and access control types
+ * @module lib/auth/types
+ */
+
+export type UserRole = 'viewer' | 'analyst' | 'admin'
+
+export type AuthMethod = 'session' | 'api_key' | 'cron' | 'service_role' | 'disabled'
+
+/**
+ * Resolved identity of the caller for a single request
+ * @interface AuthContext
+ */
+export interface AuthContext {
+  userId: string | null
+  role: UserRole
+  /** Brands the caller may see; null means every brand */
+  brandIds: string[] | null
+  method: AuthMethod
+}
+
+export const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 1,
+  analyst: 2,
+  admin: 3
+}
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'admin']
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value)
+}
+
+export function hasRole(context: AuthContext, required: UserRole): boolean {
+  return ROLE_RANK[context.role] >= ROLE_RANK[required]
+}
+
+export function canAccessBrand(context: AuthContext, brandId: string): boolean {
+  return context.brandIds === null || context.brandIds.includes(brandId)
+}
\ No newline at end of file
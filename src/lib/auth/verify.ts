@@ -0,0 +1,243 @@
+import type { NextRequest } from 'next/server'
+import { AuthContext, isUserRole } from './types'
+
+/**
+ * Credential verification for the middleware. Only uses fetch and Web Crypto
+ * so it runs in the Edge runtime; Supabase is called through its REST endpoints.
+ * @module lib/auth/verify
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'sqp-access-token'
+export const REFRESH_TOKEN_COOKIE = 'sqp-refresh-token'
+export const API_KEY_HEADER = 'x-api-key'
+export const API_KEY_PREFIX = 'sqp_'
+
+export interface SessionTokens {
+  access_token: string
+  refresh_token: string
+  expires_in: number
+  user?: { id: string; email?: string }
+}
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true'
+}
+
+function getAuthConfig() {
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !anonKey || !serviceRoleKey) {
+    throw new Error('Missing Supabase environment variables for authentication')
+  }
+
+  return { url, anonKey, serviceRoleKey }
+}
+
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+async function restSelect(path: string): Promise<any[] | null> {
+  const { url, serviceRoleKey } = getAuthConfig()
+  const response = await fetch(`${url}/rest/v1/${path}`, {
+    headers: {
+      apikey: serviceRoleKey,
+      Authorization: `Bearer ${serviceRoleKey}`
+    },
+    cache: 'no-store'
+  })
+  if (!response.ok) return null
+  return response.json()
+}
+
+async function restUpdate(path: string, values: Record<string, any>): Promise<boolean> {
+  const { url, serviceRoleKey } = getAuthConfig()
+  const response = await fetch(`${url}/rest/v1/${path}`, {
+    method: 'PATCH',
+    headers: {
+      apikey: serviceRoleKey,
+      Authorization: `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=minimal'
+    },
+    body: JSON.stringify(values),
+    cache: 'no-store'
+  })
+  return response.ok
+}
+
+async function restRpc(fn: string, args: Record<string, any>): Promise<any[] | null> {
+  const { url, serviceRoleKey } = getAuthConfig()
+  const response = await fetch(`${url}/rest/v1/rpc/${fn}`, {
+    method: 'POST',
+    headers: {
+      apikey: serviceRoleKey,
+      Authorization: `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(args),
+    cache: 'no-store'
+  })
+  if (!response.ok) return null
+  return response.json()
+}
+
+/**
+ * Validates a Supabase Auth access token and resolves the user's role and brands
+ */
+export async function verifySessionToken(accessToken: string): Promise<AuthContext | null> {
+  const { url, anonKey } = getAuthConfig()
+
+  const userResponse = await fetch(`${url}/auth/v1/user`, {
+    headers: {
+      apikey: anonKey,
+      Authorization: `Bearer ${accessToken}`
+    },
+    cache: 'no-store'
+  })
+  if (!userResponse.ok) return null
+
+  const user = await userResponse.json()
+  if (!user?.id) return null
+
+  const access = await restRpc('get_user_access', { p_user_id: user.id })
+  const row = access?.[0]
+
+  return {
+    userId: user.id,
+    role: isUserRole(row?.role) ? row.role : 'viewer',
+    brandIds: row?.all_brands ? null : (row?.brand_ids || []),
+    method: 'session'
+  }
+}
+
+/**
+ * Validates an API key against public.api_keys by its SHA-256 hash
+ */
+export async function verifyApiKey(apiKey: string): Promise<AuthContext | null> {
+  if (!apiKey.startsWith(API_KEY_PREFIX)) return null
+
+  const keyHash = await hashApiKey(apiKey)
+  const rows = await restSelect(
+    `api_keys?key_hash=eq.${keyHash}&revoked_at=is.null&select=id,role,brand_ids,created_by,expires_at`
+  )
+  const key = rows?.[0]
+  if (!key) return null
+
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) {
+    return null
+  }
+
+  // Usage tracking must never block an otherwise valid key
+  try {
+    await restUpdate(`api_keys?id=eq.${key.id}`, { last_used_at: new Date().toISOString() })
+  } catch (error) {
+    console.error('Failed to record API key usage:', error)
+  }
+
+  return {
+    userId: key.created_by || null,
+    role: isUserRole(key.role) ? key.role : 'viewer',
+    brandIds: key.brand_ids ?? null,
+    method: 'api_key'
+  }
+}
+
+/**
+ * Exchanges a refresh token for a new session
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  const { url, anonKey } = getAuthConfig()
+  const response = await fetch(`${url}/auth/v1/token?grant_type=refresh_token`, {
+    method: 'POST',
+    headers: {
+      apikey: anonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+    cache: 'no-store'
+  })
+  if (!response.ok) return null
+  return response.json()
+}
+
+/**
+ * Signs a user in with email and password
+ */
+export async function signInWithPassword(email: string, password: string): Promise<SessionTokens | null> {
+  const { url, anonKey } = getAuthConfig()
+  const response = await fetch(`${url}/auth/v1/token?grant_type=password`, {
+    method: 'POST',
+    headers: {
+      apikey: anonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ email, password }),
+    cache: 'no-store'
+  })
+  if (!response.ok) return null
+  return response.json()
+}
+
+/**
+ * Resolves the brand an ASIN is mapped to, for brand-scoped callers
+ */
+export async function getAsinBrandId(asin: string): Promise<string | null> {
+  const rows = await restSelect(
+    `asin_brand_mapping?asin=eq.${encodeURIComponent(asin)}&select=brand_id`
+  )
+  return rows?.[0]?.brand_id || null
+}
+
+/**
+ * Authenticates a request from, in order: the cron secret, the Supabase
+ * service-role key (sync jobs and edge functions), an API key, a bearer
+ * token, or the session cookie. A refreshed session is returned
+ * so the middleware can update the cookies.
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<{ context: AuthContext | null; refreshed?: SessionTokens }> {
+  const authHeader = request.headers.get('authorization')
+  const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null
+
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && bearer === cronSecret) {
+    return { context: { userId: null, role: 'admin', brandIds: null, method: 'cron' } }
+  }
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (serviceRoleKey && bearer === serviceRoleKey) {
+    return { context: { userId: null, role: 'admin', brandIds: null, method: 'service_role' } }
+  }
+
+  const apiKey = request.headers.get(API_KEY_HEADER)
+  if (apiKey) {
+    return { context: await verifyApiKey(apiKey) }
+  }
+
+  if (bearer) {
+    return { context: await verifySessionToken(bearer) }
+  }
+
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  if (accessToken) {
+    const context = await verifySessionToken(accessToken)
+    if (context) return { context }
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+  if (refreshToken) {
+    const refreshed = await refreshSession(refreshToken)
+    if (refreshed) {
+      return { context: await verifySessionToken(refreshed.access_token), refreshed }
+    }
+  }
+
+  return { context: null }
+}
\ No newline at end of file
@@ -220,8 +220,8 @@ export class PipelineMonitor {
     return alerts;
   }
 
-  async sendAlert(alert: Alert): Promise<void> {
-    for (const channelName of this.config.alertChannels) {
+  async sendAlert(alert: Alert, channels: string[] = this.config.alertChannels): Promise<void> {
+    for (const channelName of channels) {
       const channel = this.alertChannels.get(channelName);
       if (channel) {
         try {
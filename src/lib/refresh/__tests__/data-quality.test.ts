@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DATA_QUALITY_RULES, evaluateDataQuality, recordDataQuality } from '../data-quality'
+
+const row = (asin: string, start_date: string, search_query: string, overrides: Record<string, any> = {}) => ({
+  asin,
+  start_date,
+  search_query,
+  asin_click_count: 5,
+  total_click_count: 50,
+  asin_click_share: 0.1,
+  ...overrides
+})
+
+// Two weekly reporting periods starting on Sundays
+const healthyRows = [
+  row('B001', '2025-08-31', 'knife'),
+  row('B001', '2025-08-31', 'knife sharpener'),
+  row('B002', '2025-08-31', 'knife'),
+  row('B001', '2025-09-07', 'knife'),
+  row('B001', '2025-09-07', 'knife sharpener'),
+  row('B002', '2025-09-07', 'knife')
+]
+
+const byMetric = (results: ReturnType<typeof evaluateDataQuality>) =>
+  Object.fromEntries(results.map(result => [result.metric_name, result]))
+
+describe('data quality rules', () => {
+  const rules = DATA_QUALITY_RULES.search_query_performance
+
+  it('passes healthy data and skips checks for columns the table does not have', () => {
+    const results = byMetric(evaluateDataQuality(healthyRows, rules))
+
+    expect(Object.values(results).every(result => result.is_within_threshold)).toBe(true)
+    expect(results.row_count_delta).toMatchObject({ metric_value: 0, expected_value: 3, threshold_min: -0.5, threshold_max: 0.5 })
+    expect(results['null_rate:search_query'].metric_value).toBe(0)
+    expect(results['count_within_total:asin_click_count'].metric_value).toBe(0)
+    expect(results['null_rate:impressions']).toBeUndefined()
+    expect(results['count_within_total:asin_purchase_count']).toBeUndefined()
+  })
+
+  it('flags counts above totals, shares outside 0-1, nulls and duplicate keys', () => {
+    const results = byMetric(evaluateDataQuality([
+      ...healthyRows,
+      row('B002', '2025-09-07', 'knife', { asin_click_count: 60 }),
+      row('B003', '2025-09-07', 'knife block', { asin_click_share: 1.4, asin_click_count: null })
+    ], rules))
+
+    expect(results['count_within_total:asin_click_count'].metric_value).toBe(1)
+    expect(results['share_range:asin_click_share'].metric_value).toBe(1)
+    expect(results['null_rate:asin_click_count'].metric_value).toBe(0.125)
+    expect(results['duplicate_keys:asin,start_date,search_query'].metric_value).toBe(1)
+    expect(results['null_rate:search_query'].is_within_threshold).toBe(true)
+  })
+
+  it('compares row counts and ASIN coverage week over week', () => {
+    const results = byMetric(evaluateDataQuality(healthyRows.slice(0, 4), rules))
+
+    expect(results.row_count_delta).toMatchObject({ metric_value: -0.6667, is_within_threshold: false })
+    expect(results.week_completeness).toMatchObject({ metric_value: 0.5, expected_value: 2, is_within_threshold: false })
+  })
+
+  it('ignores a partial latest week of daily rows', () => {
+    const daily = [
+      ...['2025-08-31', '2025-09-01', '2025-09-02', '2025-09-03', '2025-09-04', '2025-09-05', '2025-09-06']
+        .map(date => row('B001', date, 'knife')),
+      ...['2025-09-07', '2025-09-08', '2025-09-09', '2025-09-10', '2025-09-11', '2025-09-12', '2025-09-13']
+        .map(date => row('B001', date, 'knife')),
+      row('B001', '2025-09-14', 'knife')
+    ]
+
+    const results = byMetric(evaluateDataQuality(daily, rules))
+    expect(results.row_count_delta).toMatchObject({ metric_value: 0, expected_value: 7 })
+  })
+
+  it('records results against the audit log row and reports breaches', async () => {
+    const insert = vi.fn().mockResolvedValue({ error: null })
+    const page = Promise.resolve({ data: healthyRows.slice(0, 4), error: null })
+    const builder: any = {
+      select: vi.fn(() => builder),
+      order: vi.fn(() => builder),
+      gte: vi.fn(() => builder),
+      limit: vi.fn().mockResolvedValue({ data: [{ start_date: '2025-09-07' }], error: null }),
+      range: vi.fn(() => page)
+    }
+    const supabase: any = {
+      from: vi.fn((table: string) => (table === 'refresh_data_quality' ? { insert } : builder))
+    }
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const summary = await recordDataQuality(supabase, 'search_query_performance', 42)
+
+    expect(builder.gte).toHaveBeenCalledWith('start_date', '2025-08-24')
+    expect(insert.mock.calls[0][0]).toContainEqual(expect.objectContaining({ audit_log_id: 42, metric_name: 'row_count_delta' }))
+    expect(summary.breached.map(result => result.metric_name)).toEqual(['row_count_delta', 'week_completeness'])
+  })
+
+  it('checks every page of recent rows in a stable order', async () => {
+    // A full first page, then a second page repeating one of its keys
+    const firstPage = Array.from({ length: 1000 }, (_, i) => row('B001', '2025-09-07', `query ${i}`, { id: i }))
+    const range = vi.fn()
+      .mockResolvedValueOnce({ data: firstPage, error: null })
+      .mockResolvedValueOnce({ data: [row('B001', '2025-09-07', 'query 0', { id: 1000 })], error: null })
+    const builder: any = {
+      select: vi.fn(() => builder),
+      order: vi.fn(() => builder),
+      gte: vi.fn(() => builder),
+      limit: vi.fn().mockResolvedValue({ data: [{ start_date: '2025-09-07' }], error: null }),
+      range
+    }
+    const supabase: any = { from: vi.fn(() => builder) }
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const summary = await recordDataQuality(supabase, 'search_query_performance', null)
+
+    expect(builder.order).toHaveBeenCalledWith('id', { ascending: true })
+    expect(range).toHaveBeenCalledTimes(2)
+    expect(byMetric(summary.results)['duplicate_keys:asin,start_date,search_query'].metric_value).toBe(1)
+  })
+
+  it('does nothing for tables without rules', async () => {
+    const supabase: any = { from: vi.fn() }
+
+    expect(await recordDataQuality(supabase, 'brands', 1)).toEqual({ results: [], breached: [] })
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
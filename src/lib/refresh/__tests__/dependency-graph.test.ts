@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  blockedByHardDependency,
+  buildDependencyEdges,
+  findDependencyCycle,
+  planRefreshWaves,
+  RefreshConfigNode
+} from '../dependency-graph'
+
+const config = (id: number, table_name: string, priority: number, dependencies: string[] = []): RefreshConfigNode => ({
+  id,
+  table_schema: 'sqp',
+  table_name,
+  priority,
+  dependencies
+})
+
+const configs = [
+  config(1, 'sync_log', 99),
+  config(2, 'asin_performance_data', 90),
+  config(3, 'search_query_performance', 95),
+  config(4, 'weekly_summary', 50, ['asin_performance_data', 'search_query_performance']),
+  config(5, 'monthly_summary', 40, ['weekly_summary'])
+]
+
+const dependencies = [
+  { parent_config_id: 1, dependent_config_id: 2, dependency_type: 'hard' as const },
+  { parent_config_id: 1, dependent_config_id: 3, dependency_type: 'soft' as const }
+]
+
+describe('buildDependencyEdges', () => {
+  it('merges the dependencies table with the dependencies column', () => {
+    const edges = buildDependencyEdges(configs, dependencies)
+
+    expect(edges).toContainEqual({ parent: 'sync_log', child: 'asin_performance_data', type: 'hard' })
+    expect(edges).toContainEqual({ parent: 'sync_log', child: 'search_query_performance', type: 'soft' })
+    expect(edges).toContainEqual({ parent: 'weekly_summary', child: 'monthly_summary', type: 'hard' })
+    expect(edges).toHaveLength(5)
+  })
+
+  it('prefers hard over soft for the same pair and drops unknown tables', () => {
+    const edges = buildDependencyEdges(
+      [config(1, 'brands', 80), config(2, 'asin_brand_mapping', 78, ['brands', 'missing_table'])],
+      [{ parent_config_id: 1, dependent_config_id: 2, dependency_type: 'soft' }]
+    )
+
+    expect(edges).toEqual([{ parent: 'brands', child: 'asin_brand_mapping', type: 'hard' }])
+  })
+})
+
+describe('findDependencyCycle', () => {
+  it('returns null for an acyclic graph', () => {
+    expect(findDependencyCycle(configs.map(c => c.table_name), buildDependencyEdges(configs, dependencies))).toBeNull()
+  })
+
+  it('returns the cycle path', () => {
+    const cyclic = [...configs.slice(0, 4), config(5, 'monthly_summary', 40, ['weekly_summary'])]
+    cyclic[1] = config(2, 'asin_performance_data', 90, ['monthly_summary'])
+
+    expect(findDependencyCycle(cyclic.map(c => c.table_name), buildDependencyEdges(cyclic))).toEqual([
+      'asin_performance_data',
+      'weekly_summary',
+      'monthly_summary',
+      'asin_performance_data'
+    ])
+  })
+})
+
+describe('planRefreshWaves', () => {
+  it('groups tables into topological waves ordered by priority', () => {
+    const waves = planRefreshWaves(configs, buildDependencyEdges(configs, dependencies))
+
+    expect(waves).toEqual([
+      ['sync_log'],
+      ['search_query_performance', 'asin_performance_data'],
+      ['weekly_summary'],
+      ['monthly_summary']
+    ])
+  })
+
+  it('ignores parents that are not part of the run', () => {
+    const due = configs.filter(c => c.table_name !== 'sync_log' && c.table_name !== 'weekly_summary')
+
+    expect(planRefreshWaves(due, buildDependencyEdges(configs, dependencies))).toEqual([
+      ['search_query_performance', 'asin_performance_data', 'monthly_summary']
+    ])
+  })
+
+  it('throws on a cycle', () => {
+    const cyclic = [config(1, 'a', 1, ['b']), config(2, 'b', 1, ['a'])]
+
+    expect(() => planRefreshWaves(cyclic, buildDependencyEdges(cyclic))).toThrow('Refresh dependency cycle: a -> b -> a')
+  })
+})
+
+describe('blockedByHardDependency', () => {
+  const edges = buildDependencyEdges(configs, dependencies)
+
+  it('skips children of failed or skipped hard dependencies', () => {
+    const blocked = blockedByHardDependency(
+      ['asin_performance_data', 'search_query_performance'],
+      edges,
+      new Map([['sync_log', 'failed' as const]])
+    )
+
+    expect(blocked).toEqual(new Map([['asin_performance_data', 'Skipped: hard dependency sync_log failed']]))
+    expect(
+      blockedByHardDependency(['monthly_summary'], edges, new Map([['weekly_summary', 'skipped' as const]])).get('monthly_summary')
+    ).toBe('Skipped: hard dependency weekly_summary was skipped')
+  })
+
+  it('runs children when hard dependencies succeeded', () => {
+    expect(blockedByHardDependency(['weekly_summary'], edges, new Map([
+      ['asin_performance_data', 'success' as const],
+      ['search_query_performance', 'success' as const]
+    ])).size).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { blackoutEnd, nextRunAt, nextRunTimes, validateSchedule } from '../schedule'
+
+describe('refresh schedule', () => {
+  describe('validateSchedule', () => {
+    it('accepts interval and cron schedules', () => {
+      expect(validateSchedule({ frequency_hours: 24 })).toEqual([])
+      expect(validateSchedule({
+        frequency_hours: 24,
+        cron: '0 6 * * 1-5',
+        timezone: 'America/Los_Angeles',
+        blackout_windows: [{ days: [0, 6], start: '22:00', end: '02:00' }]
+      })).toEqual([])
+    })
+
+    it('reports bad cron expressions, timezones and windows', () => {
+      const errors = validateSchedule({
+        frequency_hours: 24,
+        cron: '61 * * * *',
+        timezone: 'Mars/Olympus_Mons',
+        blackout_windows: [{ start: '25:00', end: '01:00' }, { days: [7], start: '01:00', end: '01:00' }]
+      })
+
+      expect(errors).toHaveLength(5)
+      expect(errors[0]).toBe('Unknown timezone: Mars/Olympus_Mons')
+      expect(errors[1]).toMatch(/^Invalid cron expression/)
+      expect(errors.slice(2)).toEqual([
+        'Blackout window 1: times must be HH:mm',
+        'Blackout window 2: start and end must differ',
+        'Blackout window 2: days must be 0 (Sunday) to 6'
+      ])
+    })
+
+    it('rejects blackout windows that leave no time in the week', () => {
+      expect(validateSchedule({
+        frequency_hours: 24,
+        blackout_windows: [
+          { start: '00:00', end: '12:00' },
+          { days: [1, 2, 3, 4, 5], start: '12:00', end: '00:00' },
+          { days: [6], start: '12:00', end: '00:00' },
+          { days: [0], start: '11:00', end: '00:00' }
+        ]
+      })).toEqual(['Blackout windows cover the whole week, so no refresh could ever start'])
+
+      // One free minute on Sunday is enough
+      expect(validateSchedule({
+        frequency_hours: 24,
+        blackout_windows: [
+          { start: '00:00', end: '12:00' },
+          { days: [1, 2, 3, 4, 5, 6], start: '12:00', end: '00:00' },
+          { days: [0], start: '12:01', end: '00:00' }
+        ]
+      })).toEqual([])
+    })
+  })
+
+  describe('blackoutEnd', () => {
+    const windows = [{ start: '01:00', end: '03:00' }]
+
+    it('returns null outside every window', () => {
+      expect(blackoutEnd(new Date('2025-09-08T04:00:00Z'), windows, 'UTC')).toBeNull()
+      expect(blackoutEnd(new Date('2025-09-08T04:00:00Z'), [], 'UTC')).toBeNull()
+    })
+
+    it('returns the end of the window in the schedule timezone', () => {
+      // 01:30 in Los Angeles (PDT) is 08:30 UTC
+      expect(blackoutEnd(new Date('2025-09-08T08:30:00Z'), windows, 'America/Los_Angeles'))
+        .toEqual(new Date('2025-09-08T10:00:00Z'))
+      expect(blackoutEnd(new Date('2025-09-08T01:30:00Z'), windows, 'America/Los_Angeles')).toBeNull()
+    })
+
+    it('handles windows that wrap past midnight and follows adjacent windows', () => {
+      // Friday 23:00 into Saturday 02:00, then Saturday 02:00-04:00
+      const wrapping = [{ days: [5], start: '23:00', end: '02:00' }, { days: [6], start: '02:00', end: '04:00' }]
+
+      expect(blackoutEnd(new Date('2025-09-13T00:30:00Z'), wrapping, 'UTC'))
+        .toEqual(new Date('2025-09-13T04:00:00Z'))
+      // The wrap only applies after a Friday
+      expect(blackoutEnd(new Date('2025-09-14T00:30:00Z'), wrapping, 'UTC')).toBeNull()
+    })
+  })
+
+  describe('nextRunTimes', () => {
+    const from = new Date('2025-09-08T12:00:00Z') // Monday
+
+    it('adds the interval for interval schedules', () => {
+      expect(nextRunTimes({ frequency_hours: 6 }, from, 3)).toEqual([
+        new Date('2025-09-08T18:00:00Z'),
+        new Date('2025-09-09T00:00:00Z'),
+        new Date('2025-09-09T06:00:00Z')
+      ])
+    })
+
+    it('pushes interval runs out of blackout windows', () => {
+      const runs = nextRunTimes({ frequency_hours: 12, blackout_windows: [{ start: '23:00', end: '01:00' }] }, from, 2)
+
+      expect(runs).toEqual([new Date('2025-09-09T01:00:00Z'), new Date('2025-09-09T13:00:00Z')])
+    })
+
+    it('evaluates cron expressions in the schedule timezone', () => {
+      const runs = nextRunTimes({ frequency_hours: 24, cron: '0 6 * * *', timezone: 'America/Los_Angeles' }, from)
+
+      expect(runs).toHaveLength(5)
+      expect(runs[0]).toEqual(new Date('2025-09-08T13:00:00Z'))
+      expect(runs[4]).toEqual(new Date('2025-09-12T13:00:00Z'))
+    })
+
+    it('skips cron runs inside blackout windows', () => {
+      const runs = nextRunTimes({
+        frequency_hours: 24,
+        cron: '0 */4 * * *',
+        blackout_windows: [{ start: '00:00', end: '08:00' }]
+      }, from, 4)
+
+      expect(runs.map(run => run.toISOString())).toEqual([
+        '2025-09-08T16:00:00.000Z',
+        '2025-09-08T20:00:00.000Z',
+        '2025-09-09T08:00:00.000Z',
+        '2025-09-09T12:00:00.000Z'
+      ])
+    })
+
+    it('returns no runs when every cron run is blacked out', () => {
+      const schedule = { frequency_hours: 24, cron: '0 3 * * *', blackout_windows: [{ start: '02:00', end: '04:00' }] }
+
+      expect(nextRunTimes(schedule, from)).toEqual([])
+      expect(nextRunAt(schedule, from)).toBeNull()
+    })
+  })
+})
\ No newline at end of file
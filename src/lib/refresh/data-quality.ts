@@ -0,0 +1,361 @@
+/**
+ * Declarative data quality rules checked after a table is refreshed. Results
+ * are stored in sqp.refresh_data_quality against the refresh's audit log row,
+ * and any breach marks that row as 'warning'. The edge refresh functions run a
+ * Deno copy of this module (supabase/functions/_shared/data-quality.ts); keep
+ * the two in step.
+ * @module lib/refresh/data-quality
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type DataQualityRule =
+  // Relative change in row count between the latest complete week and the week before
+  | { type: 'row_count_delta'; max_change: number }
+  | { type: 'null_rate'; columns: string[]; max_rate: number }
+  // ASIN-level counts can never exceed the market totals they are part of
+  | { type: 'count_within_total'; pairs: Array<[string, string]> }
+  | { type: 'share_range'; columns: string[] }
+  | { type: 'unique_key'; columns: string[] }
+  // Share of the previous week's ASINs that also have rows in the latest week
+  | { type: 'week_completeness'; min_rate: number }
+
+export interface DataQualityResult {
+  metric_name: string
+  metric_value: number
+  expected_value: number | null
+  threshold_min: number | null
+  threshold_max: number | null
+  is_within_threshold: boolean
+}
+
+export interface DataQualitySummary {
+  results: DataQualityResult[]
+  breached: DataQualityResult[]
+}
+
+const FUNNEL_PAIRS: Array<[string, string]> = [
+  ['asin_impression_count', 'total_query_impression_count'],
+  ['asin_click_count', 'total_click_count'],
+  ['asin_cart_add_count', 'total_cart_add_count'],
+  ['asin_purchase_count', 'total_purchase_count']
+]
+
+// Checks whose columns a table does not have are skipped, so one rule set
+// covers both the sync service and edge function schemas
+export const DATA_QUALITY_RULES: Record<string, DataQualityRule[]> = {
+  search_query_performance: [
+    { type: 'row_count_delta', max_change: 0.5 },
+    {
+      type: 'null_rate',
+      columns: ['search_query', 'asin_impression_count', 'asin_click_count', 'asin_purchase_count', 'impressions', 'clicks', 'purchases'],
+      max_rate: 0.01
+    },
+    { type: 'count_within_total', pairs: FUNNEL_PAIRS },
+    { type: 'share_range', columns: ['asin_impression_share', 'asin_click_share', 'asin_cart_add_share', 'asin_purchase_share'] },
+    { type: 'unique_key', columns: ['asin', 'start_date', 'search_query'] },
+    { type: 'week_completeness', min_rate: 0.9 }
+  ],
+  asin_performance_data: [
+    { type: 'row_count_delta', max_change: 0.5 },
+    { type: 'unique_key', columns: ['asin', 'start_date', 'end_date'] },
+    { type: 'week_completeness', min_rate: 0.9 }
+  ]
+}
+
+// Rows fetched per page when checking the recent weeks of a table
+const PAGE_SIZE = 1000
+// The two weeks before the newest one, so two complete weeks remain when it is partial
+const LOOKBACK_DAYS = 14
+
+const toDate = (value: any): string | null => {
+  const raw = value?.value || value
+  if (!raw) return null
+  return String(raw).split('T')[0]
+}
+
+const shiftDate = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+// Reporting weeks start on Sunday
+const weekStart = (date: string) => shiftDate(date, -new Date(`${date}T00:00:00Z`).getUTCDay())
+
+const isMissing = (value: any) =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && Number.isNaN(value))
+
+const result = (
+  metric_name: string,
+  metric_value: number,
+  { expected = null, min = null, max = null }: { expected?: number | null; min?: number | null; max?: number | null }
+): DataQualityResult => ({
+  metric_name,
+  metric_value: Math.round(metric_value * 10000) / 10000,
+  expected_value: expected,
+  threshold_min: min,
+  threshold_max: max,
+  is_within_threshold: (min === null || metric_value >= min) && (max === null || metric_value <= max)
+})
+
+interface WeekTally {
+  rows: number
+  dates: Set<string>
+  asins: Set<string>
+}
+
+/**
+ * Running totals for a rule set, so a table can be checked page by page
+ * without holding every row in memory
+ */
+interface DataQualityTally {
+  rows: number
+  // Rule columns seen on at least one row
+  columns: Set<string>
+  missing: Map<string, number>
+  violations: Map<string, number>
+  keys: Map<string, Set<string>>
+  duplicates: Map<string, number>
+  weeks: Map<string, WeekTally>
+}
+
+const createTally = (): DataQualityTally => ({
+  rows: 0,
+  columns: new Set(),
+  missing: new Map(),
+  violations: new Map(),
+  keys: new Map(),
+  duplicates: new Map(),
+  weeks: new Map()
+})
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1)
+
+function ruleColumns(rule: DataQualityRule): string[] {
+  switch (rule.type) {
+    case 'null_rate':
+    case 'share_range':
+    case 'unique_key':
+      return rule.columns
+    case 'count_within_total':
+      return rule.pairs.flat()
+    case 'week_completeness':
+      return ['asin']
+    default:
+      return []
+  }
+}
+
+function tallyRows(tally: DataQualityTally, rows: any[], rules: DataQualityRule[]) {
+  const columns = Array.from(new Set(rules.flatMap(ruleColumns)))
+
+  rows.forEach(row => {
+    tally.rows += 1
+    columns.forEach(column => {
+      if (column in row) tally.columns.add(column)
+    })
+
+    const date = toDate(row.start_date)
+    if (date) {
+      const week = weekStart(date)
+      if (!tally.weeks.has(week)) tally.weeks.set(week, { rows: 0, dates: new Set(), asins: new Set() })
+      const weekTally = tally.weeks.get(week)!
+      weekTally.rows += 1
+      weekTally.dates.add(date)
+      weekTally.asins.add(row.asin)
+    }
+
+    rules.forEach(rule => {
+      switch (rule.type) {
+        case 'null_rate':
+          rule.columns.forEach(column => {
+            if (isMissing(row[column])) increment(tally.missing, column)
+          })
+          break
+        case 'count_within_total':
+          rule.pairs.forEach(([asinColumn, totalColumn]) => {
+            if (Number(row[asinColumn]) > Number(row[totalColumn])) increment(tally.violations, `count_within_total:${asinColumn}`)
+          })
+          break
+        case 'share_range':
+          rule.columns.forEach(column => {
+            const value = Number(row[column])
+            if (!isMissing(row[column]) && (value < 0 || value > 1)) increment(tally.violations, `share_range:${column}`)
+          })
+          break
+        case 'unique_key': {
+          const name = rule.columns.join(',')
+          const key = rule.columns.map(column => (column.endsWith('_date') ? toDate(row[column]) : String(row[column]))).join('|')
+          if (!tally.keys.has(name)) tally.keys.set(name, new Set())
+          const seen = tally.keys.get(name)!
+          if (seen.has(key)) {
+            increment(tally.duplicates, name)
+          } else {
+            seen.add(key)
+          }
+          break
+        }
+      }
+    })
+  })
+}
+
+/**
+ * The latest two complete weeks. With daily rows the newest week only counts
+ * once it reaches its Saturday; weekly rows are always complete.
+ */
+function lastTwoWeeks(weeks: Map<string, WeekTally>): { latest: WeekTally; previous: WeekTally } | null {
+  const ordered = Array.from(weeks.keys()).sort()
+  const daily = Array.from(weeks.values()).some(week => week.dates.size > 1)
+  const newest = ordered[ordered.length - 1]
+  if (daily && newest) {
+    const lastDate = Array.from(weeks.get(newest)!.dates).sort().pop()!
+    if (lastDate < shiftDate(newest, 6)) ordered.pop()
+  }
+
+  if (ordered.length < 2) return null
+  return {
+    latest: weeks.get(ordered[ordered.length - 1])!,
+    previous: weeks.get(ordered[ordered.length - 2])!
+  }
+}
+
+function evaluateTally(tally: DataQualityTally, rules: DataQualityRule[]): DataQualityResult[] {
+  if (tally.rows === 0) return []
+  const results: DataQualityResult[] = []
+  const weeks = lastTwoWeeks(tally.weeks)
+  const hasColumn = (column: string) => tally.columns.has(column)
+
+  rules.forEach(rule => {
+    switch (rule.type) {
+      case 'row_count_delta': {
+        if (!weeks || weeks.previous.rows === 0) break
+        const change = (weeks.latest.rows - weeks.previous.rows) / weeks.previous.rows
+        results.push(result('row_count_delta', change, {
+          expected: weeks.previous.rows,
+          min: -rule.max_change,
+          max: rule.max_change
+        }))
+        break
+      }
+      case 'null_rate':
+        rule.columns.filter(hasColumn).forEach(column => {
+          results.push(result(`null_rate:${column}`, (tally.missing.get(column) || 0) / tally.rows, { expected: 0, min: 0, max: rule.max_rate }))
+        })
+        break
+      case 'count_within_total':
+        rule.pairs
+          .filter(([asinColumn, totalColumn]) => hasColumn(asinColumn) && hasColumn(totalColumn))
+          .forEach(([asinColumn]) => {
+            const name = `count_within_total:${asinColumn}`
+            results.push(result(name, tally.violations.get(name) || 0, { expected: 0, max: 0 }))
+          })
+        break
+      case 'share_range':
+        rule.columns.filter(hasColumn).forEach(column => {
+          const name = `share_range:${column}`
+          results.push(result(name, tally.violations.get(name) || 0, { expected: 0, max: 0 }))
+        })
+        break
+      case 'unique_key': {
+        if (!rule.columns.every(hasColumn)) break
+        const name = rule.columns.join(',')
+        results.push(result(`duplicate_keys:${name}`, tally.duplicates.get(name) || 0, { expected: 0, max: 0 }))
+        break
+      }
+      case 'week_completeness': {
+        if (!weeks || !hasColumn('asin')) break
+        const expected = weeks.previous.asins
+        const covered = Array.from(expected).filter(asin => weeks.latest.asins.has(asin)).length
+        results.push(result('week_completeness', expected.size > 0 ? covered / expected.size : 1, {
+          expected: expected.size,
+          min: rule.min_rate,
+          max: 1
+        }))
+        break
+      }
+    }
+  })
+
+  return results
+}
+
+/**
+ * Evaluates `rules` against recent rows of a table. Checks that need columns
+ * the rows do not have, or two complete weeks that are not there, are left out.
+ */
+export function evaluateDataQuality(rows: any[], rules: DataQualityRule[]): DataQualityResult[] {
+  const tally = createTally()
+  tallyRows(tally, rows, rules)
+  return evaluateTally(tally, rules)
+}
+
+/**
+ * Tallies every row since two weeks before the newest week, one page at a
+ * time. Pages are ordered by start_date and id so no row is skipped or read
+ * twice between pages.
+ */
+async function checkRecentRows(supabase: SupabaseClient, tableName: string, rules: DataQualityRule[]): Promise<DataQualityResult[]> {
+  const { data: latest, error } = await supabase
+    .from(tableName)
+    .select('start_date')
+    .order('start_date', { ascending: false })
+    .limit(1)
+
+  if (error) throw new Error(error.message)
+  const latestDate = toDate(latest?.[0]?.start_date)
+  if (!latestDate) return []
+
+  const tally = createTally()
+  const since = shiftDate(weekStart(latestDate), -LOOKBACK_DAYS)
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error: pageError } = await supabase
+      .from(tableName)
+      .select('*')
+      .gte('start_date', since)
+      .order('start_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (pageError) throw new Error(pageError.message)
+    tallyRows(tally, data || [], rules)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return evaluateTally(tally, rules)
+}
+
+/**
+ * Runs the rules for `tableName` against its recent weeks and records the
+ * results for the audit log row. Failures are logged rather than thrown so a
+ * broken check never fails the refresh itself.
+ */
+export async function recordDataQuality(
+  supabase: SupabaseClient,
+  tableName: string,
+  auditLogId: number | null | undefined
+): Promise<DataQualitySummary> {
+  const rules = DATA_QUALITY_RULES[tableName]
+  if (!rules) return { results: [], breached: [] }
+
+  try {
+    const results = await checkRecentRows(supabase, tableName, rules)
+
+    if (auditLogId && results.length > 0) {
+      const { error } = await supabase
+        .from('refresh_data_quality')
+        .insert(results.map(check => ({ audit_log_id: auditLogId, ...check })))
+
+      if (error) console.error(`Failed to record data quality for ${tableName}:`, error)
+    }
+
+    const breached = results.filter(check => !check.is_within_threshold)
+    if (breached.length > 0) {
+      console.warn(`Data quality breached for ${tableName}: ${breached.map(check => check.metric_name).join(', ')}`)
+    }
+    return { results, breached }
+  } catch (error) {
+    console.error(`Data quality checks failed for ${tableName}:`, error)
+    return { results: [], breached: [] }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,206 @@
+/**
+ * Refresh schedules for refresh_config: a fixed interval or a cron expression
+ * evaluated in the config's timezone, with optional blackout windows. The
+ * daily-refresh-orchestrator runs a Deno copy of this module
+ * (supabase/functions/_shared/refresh-schedule.ts); keep the two in step.
+ * @module lib/refresh/schedule
+ */
+
+import { CronExpressionParser } from 'cron-parser'
+import { formatInTimeZone } from 'date-fns-tz'
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'UTC'
+
+// Bounds the search for runs outside the blackout windows; cron-parser is slow with timezones
+const MAX_CRON_CANDIDATES = 100
+
+/**
+ * A recurring local-time window in which refreshes must not start. `days` are
+ * 0 (Sunday) to 6 and default to every day; an `end` before `start` wraps past
+ * midnight into the next day.
+ */
+export interface BlackoutWindow {
+  days?: number[]
+  start: string
+  end: string
+}
+
+export interface RefreshSchedule {
+  frequency_hours: number
+  cron?: string | null
+  timezone?: string | null
+  blackout_windows?: BlackoutWindow[] | null
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Whether the windows leave no minute of the week free to start a refresh.
+ * blackoutEnd cannot find the end of a window that never ends.
+ */
+function coversWholeWeek(windows: BlackoutWindow[]): boolean {
+  const blocked = new Array<boolean>(7 * MINUTES_PER_DAY).fill(false)
+  const block = (day: number, from: number, to: number) => {
+    blocked.fill(true, day * MINUTES_PER_DAY + from, day * MINUTES_PER_DAY + to)
+  }
+
+  windows.forEach(window => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+    const days = window.days && window.days.length > 0 ? window.days : [0, 1, 2, 3, 4, 5, 6]
+    days.forEach(day => {
+      if (start < end) {
+        block(day, start, end)
+      } else {
+        block(day, start, MINUTES_PER_DAY)
+        block((day + 1) % 7, 0, end)
+      }
+    })
+  })
+
+  return blocked.every(Boolean)
+}
+
+/**
+ * Returns a message per problem with the schedule; empty when it is valid.
+ */
+export function validateSchedule(schedule: RefreshSchedule): string[] {
+  const errors: string[] = []
+  const timezone = schedule.timezone || DEFAULT_SCHEDULE_TIMEZONE
+
+  if (!isValidTimezone(timezone)) {
+    errors.push(`Unknown timezone: ${timezone}`)
+  }
+
+  if (schedule.cron) {
+    try {
+      CronExpressionParser.parse(schedule.cron, { tz: isValidTimezone(timezone) ? timezone : DEFAULT_SCHEDULE_TIMEZONE })
+    } catch (error) {
+      errors.push(`Invalid cron expression: ${error instanceof Error ? error.message : schedule.cron}`)
+    }
+  }
+
+  ;(schedule.blackout_windows || []).forEach((window, index) => {
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      errors.push(`Blackout window ${index + 1}: times must be HH:mm`)
+    } else if (window.start === window.end) {
+      errors.push(`Blackout window ${index + 1}: start and end must differ`)
+    }
+    if (window.days && window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors.push(`Blackout window ${index + 1}: days must be 0 (Sunday) to 6`)
+    }
+  })
+
+  const windows = schedule.blackout_windows || []
+  if (errors.length === 0 && windows.length > 0 && coversWholeWeek(windows)) {
+    errors.push('Blackout windows cover the whole week, so no refresh could ever start')
+  }
+
+  return errors
+}
+
+/**
+ * End of the blackout window containing `date`, or null when `date` is
+ * outside every window. Back-to-back windows are followed to the last one.
+ */
+export function blackoutEnd(date: Date, windows: BlackoutWindow[] | null | undefined, timezone: string): Date | null {
+  if (!windows || windows.length === 0) return null
+
+  let current = date
+  let moved = false
+  // Each step leaves one window; more steps than windows means they cover the whole week
+  for (let step = 0; step <= windows.length * 7; step++) {
+    const [isoDay, time] = formatInTimeZone(current, timezone, 'i HH:mm').split(' ')
+    const day = Number(isoDay) % 7
+    const minutes = toMinutes(time)
+
+    let remaining = 0
+    for (const window of windows) {
+      const start = toMinutes(window.start)
+      const end = toMinutes(window.end)
+      const appliesTo = (d: number) => !window.days || window.days.length === 0 || window.days.includes(d)
+
+      if (start < end) {
+        if (appliesTo(day) && minutes >= start && minutes < end) remaining = end - minutes
+      } else if (appliesTo(day) && minutes >= start) {
+        remaining = 24 * 60 - minutes + end
+      } else if (appliesTo((day + 6) % 7) && minutes < end) {
+        remaining = end - minutes
+      }
+      if (remaining > 0) break
+    }
+
+    if (remaining === 0) return moved ? current : null
+    // Windows are minute-precise, so drop any seconds before stepping
+    current = new Date(Math.floor(current.getTime() / 60000) * 60000 + remaining * 60000)
+    moved = true
+  }
+
+  return null
+}
+
+/**
+ * The next `count` run times after `from`. Cron runs that fall in a blackout
+ * window are skipped; interval runs are pushed to the end of the window.
+ */
+export function nextRunTimes(schedule: RefreshSchedule, from: Date = new Date(), count: number = 5): Date[] {
+  const timezone = schedule.timezone || DEFAULT_SCHEDULE_TIMEZONE
+  const runs: Date[] = []
+
+  if (schedule.cron) {
+    const expression = CronExpressionParser.parse(schedule.cron, { currentDate: from, tz: timezone })
+    for (let i = 0; i < MAX_CRON_CANDIDATES && runs.length < count && expression.hasNext(); i++) {
+      const candidate = expression.next().toDate()
+      if (!blackoutEnd(candidate, schedule.blackout_windows, timezone)) {
+        runs.push(candidate)
+      }
+    }
+    return runs
+  }
+
+  let previous = from
+  while (runs.length < count) {
+    const candidate = new Date(previous.getTime() + schedule.frequency_hours * 60 * 60 * 1000)
+    const next = blackoutEnd(candidate, schedule.blackout_windows, timezone) || candidate
+    runs.push(next)
+    previous = next
+  }
+  return runs
+}
+
+export function nextRunAt(schedule: RefreshSchedule, from: Date = new Date()): Date | null {
+  return nextRunTimes(schedule, from, 1)[0] ?? null
+}
+
+/**
+ * Reads the schedule columns of a refresh_config row.
+ */
+export function scheduleFromConfig(config: {
+  refresh_frequency_hours: number
+  schedule_cron?: string | null
+  schedule_timezone?: string | null
+  blackout_windows?: BlackoutWindow[] | null
+}): RefreshSchedule {
+  return {
+    frequency_hours: config.refresh_frequency_hours,
+    cron: config.schedule_cron || null,
+    timezone: config.schedule_timezone || DEFAULT_SCHEDULE_TIMEZONE,
+    blackout_windows: config.blackout_windows || []
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+-- Migration: Add Report Scheduler Functions
+-- Description: Adds queue locking and claim functions so several scheduler workers can
+-- drain sqp.report_queue without picking up the same row twice
+
+-- Queue locking columns
+ALTER TABLE sqp.report_queue
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+-- Link every execution attempt back to its queue row
+ALTER TABLE sqp.report_execution_history
+  ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES sqp.report_queue(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS attempt_number INTEGER,
+  ADD COLUMN IF NOT EXISTS worker_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_report_queue_next_attempt
+  ON sqp.report_queue(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_report_queue_locked
+  ON sqp.report_queue(locked_at) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_report_execution_history_queue
+  ON sqp.report_execution_history(queue_id);
+
+-- Claim due queue rows for a worker
+-- Rows are locked with SKIP LOCKED so concurrent workers never claim the same row.
+-- Rows stuck in 'processing' longer than p_lock_timeout_minutes are treated as abandoned.
+CREATE OR REPLACE FUNCTION sqp.claim_report_queue_items(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_lock_timeout_minutes INTEGER DEFAULT 30
+)
+RETURNS SETOF sqp.report_queue AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE sqp.report_queue q
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      attempts = q.attempts + 1,
+      last_attempt_at = NOW(),
+      updated_at = NOW()
+  WHERE q.id IN (
+    SELECT id
+    FROM sqp.report_queue
+    WHERE (
+        status = 'pending'
+        AND scheduled_for <= NOW()
+        AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+      ) OR (
+        status = 'processing'
+        AND locked_at < NOW() - (p_lock_timeout_minutes || ' minutes')::INTERVAL
+      )
+    ORDER BY priority ASC, scheduled_for ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public wrappers so the scheduler can call these through the REST API
+CREATE OR REPLACE FUNCTION public.claim_report_queue_items(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_lock_timeout_minutes INTEGER DEFAULT 30
+)
+RETURNS SETOF sqp.report_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM sqp.claim_report_queue_items(p_worker_id, p_limit, p_lock_timeout_minutes);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_scheduled_reports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN sqp.enqueue_scheduled_reports();
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION sqp.claim_report_queue_items(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_report_queue_items(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_scheduled_reports() TO service_role;
+
+COMMENT ON FUNCTION sqp.claim_report_queue_items IS 'Atomically claims due report queue rows for a scheduler worker';
\ No newline at end of file
@@ -0,0 +1,98 @@
+-- Migration: Create Access Control Tables
+-- Description: Roles, per-brand access scopes and API keys used by the API middleware
+
+-- User roles (one row per Supabase Auth user)
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'analyst', 'admin')),
+  -- When true the user can see every brand and brand_access rows are ignored
+  all_brands BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Brands a user has been assigned to
+CREATE TABLE IF NOT EXISTS public.user_brand_access (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  brand_id UUID NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+  granted_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+  UNIQUE(user_id, brand_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_brand_access_user ON public.user_brand_access(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_brand_access_brand ON public.user_brand_access(brand_id);
+
+-- Signed API keys for service-to-service access
+-- Only the SHA-256 hash of the key is stored; the plaintext is shown once on creation
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash VARCHAR(64) NOT NULL UNIQUE,
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'analyst', 'admin')),
+  -- NULL means the key is not restricted to specific brands
+  brand_ids UUID[],
+  created_by UUID,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_active ON public.api_keys(key_hash) WHERE revoked_at IS NULL;
+
+-- Keep updated_at current on role changes
+CREATE TRIGGER update_user_roles_timestamp
+BEFORE UPDATE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION update_brands_updated_at();
+
+-- Resolve the role and brand scope for a user in a single call
+CREATE OR REPLACE FUNCTION public.get_user_access(p_user_id UUID)
+RETURNS TABLE (
+  role VARCHAR,
+  all_brands BOOLEAN,
+  brand_ids UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(ur.role, 'viewer')::VARCHAR,
+    COALESCE(ur.all_brands, false),
+    COALESCE(
+      (SELECT ARRAY_AGG(uba.brand_id) FROM public.user_brand_access uba WHERE uba.user_id = p_user_id),
+      ARRAY[]::UUID[]
+    )
+  FROM (SELECT p_user_id AS user_id) u
+  LEFT JOIN public.user_roles ur ON ur.user_id = u.user_id;
+END;
+$$;
+
+-- Access tables are only read and written with the service role
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_brand_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own role" ON public.user_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own brand access" ON public.user_brand_access
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT ALL ON public.user_roles TO service_role;
+GRANT ALL ON public.user_brand_access TO service_role;
+GRANT ALL ON public.api_keys TO service_role;
+GRANT SELECT ON public.user_roles TO authenticated;
+GRANT SELECT ON public.user_brand_access TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_access(UUID) TO service_role;
+
+COMMENT ON TABLE public.user_roles IS 'Application role (viewer, analyst, admin) per Supabase Auth user';
+COMMENT ON TABLE public.user_brand_access IS 'Brands each user is allowed to see';
+COMMENT ON TABLE public.api_keys IS 'Hashed API keys with role and optional brand scope';
\ No newline at end of file
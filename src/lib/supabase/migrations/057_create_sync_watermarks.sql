@@ -0,0 +1,43 @@
+-- Migration: Create Sync Watermarks
+-- Description: Per-table high-water marks for incremental BigQuery syncs
+
+-- One row per synced table; tracks the latest BigQuery `Date` committed to Supabase
+CREATE TABLE IF NOT EXISTS sqp.sync_watermarks (
+  id SERIAL PRIMARY KEY,
+  refresh_config_id INTEGER REFERENCES sqp.refresh_config(id) ON DELETE CASCADE,
+  table_schema TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  -- Latest source date fully committed by a successful incremental run
+  high_water_mark DATE,
+  -- Days before the watermark that are re-read on every run to pick up late corrections
+  lookback_days INTEGER NOT NULL DEFAULT 7 CHECK (lookback_days >= 0),
+  last_run_started_at TIMESTAMP WITH TIME ZONE,
+  last_committed_at TIMESTAMP WITH TIME ZONE,
+  last_rows_synced BIGINT DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(table_schema, table_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_watermarks_config
+ON sqp.sync_watermarks(refresh_config_id);
+
+-- Seed a watermark row for every BigQuery-backed table already in refresh_config
+INSERT INTO sqp.sync_watermarks (refresh_config_id, table_schema, table_name)
+SELECT id, table_schema, table_name
+FROM sqp.refresh_config
+WHERE table_name IN ('asin_performance_data', 'search_query_performance')
+ON CONFLICT (table_schema, table_name) DO NOTHING;
+
+-- Public view so the sync service can read and upsert through the REST API
+CREATE OR REPLACE VIEW public.sync_watermarks AS
+SELECT * FROM sqp.sync_watermarks;
+
+GRANT ALL ON sqp.sync_watermarks TO service_role;
+GRANT ALL ON public.sync_watermarks TO service_role;
+GRANT SELECT ON public.sync_watermarks TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE sqp.sync_watermarks_id_seq TO service_role;
+
+COMMENT ON TABLE sqp.sync_watermarks IS 'High-water marks and lookback windows for incremental BigQuery syncs';
+COMMENT ON COLUMN sqp.sync_watermarks.high_water_mark IS 'Latest BigQuery Date committed; incremental runs read from high_water_mark - lookback_days';
\ No newline at end of file
@@ -0,0 +1,137 @@
+-- Migration: Create Alert Rules
+-- Description: User-defined keyword alert rules, the alerts they raise, and delivery plumbing
+
+-- Alert rules
+CREATE TABLE IF NOT EXISTS sqp.alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- Scope: every ASIN of a brand, a list of ASINs, or a list of keywords (optionally within a brand)
+  scope_type VARCHAR(20) NOT NULL CHECK (scope_type IN ('brand', 'asin', 'keywords')),
+  brand_id UUID REFERENCES public.brands(id) ON DELETE CASCADE,
+  asins TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  keywords TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+  -- Condition
+  metric VARCHAR(30) NOT NULL CHECK (metric IN (
+    'impressions',
+    'clicks',
+    'cart_adds',
+    'purchases',
+    'ctr',
+    'cvr',
+    'impression_share',
+    'click_share',
+    'cart_add_share',
+    'purchase_share'
+  )),
+  condition_type VARCHAR(20) NOT NULL CHECK (condition_type IN ('zscore', 'pct_change', 'share_drop')),
+  threshold NUMERIC NOT NULL CHECK (threshold > 0),
+  direction VARCHAR(10) NOT NULL DEFAULT 'both' CHECK (direction IN ('up', 'down', 'both')),
+  -- Number of prior weeks used as the baseline / comparison period
+  comparison_weeks INTEGER NOT NULL DEFAULT 6 CHECK (comparison_weeks BETWEEN 1 AND 26),
+  -- Baseline values below this are ignored to avoid alerting on noise
+  min_baseline NUMERIC NOT NULL DEFAULT 0,
+  severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  -- Minimum time between notifications for the same ASIN and keyword
+  cooldown_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (cooldown_minutes >= 0),
+
+  -- Delivery
+  channels TEXT[] NOT NULL DEFAULT ARRAY['webhook']::TEXT[],
+  email_recipients TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  pipeline_channels TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+  last_evaluated_at TIMESTAMP WITH TIME ZONE,
+  last_triggered_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT alert_rules_channels_check CHECK (channels <@ ARRAY['webhook', 'email', 'pipeline']::TEXT[]),
+  CONSTRAINT alert_rules_brand_scope_check CHECK (scope_type <> 'brand' OR brand_id IS NOT NULL),
+  CONSTRAINT alert_rules_asin_scope_check CHECK (scope_type <> 'asin' OR cardinality(asins) > 0),
+  CONSTRAINT alert_rules_keyword_scope_check CHECK (scope_type <> 'keywords' OR cardinality(keywords) > 0)
+);
+
+-- Alerts raised by rules; one unresolved alert per rule, ASIN and keyword
+CREATE TABLE IF NOT EXISTS sqp.alert_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES sqp.alert_rules(id) ON DELETE CASCADE,
+  dedupe_key TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'snoozed', 'resolved')),
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+
+  brand_id UUID,
+  asin VARCHAR(20) NOT NULL,
+  search_query TEXT NOT NULL,
+  metric VARCHAR(30) NOT NULL,
+  week_start DATE NOT NULL,
+  current_value NUMERIC,
+  baseline_value NUMERIC,
+  -- z-score, percent change or share-point drop depending on the rule condition
+  change_value NUMERIC,
+  message TEXT NOT NULL,
+  details JSONB DEFAULT '{}',
+
+  occurrence_count INTEGER NOT NULL DEFAULT 1,
+  first_triggered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_triggered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_notified_at TIMESTAMP WITH TIME ZONE,
+  delivered_channels TEXT[] DEFAULT ARRAY[]::TEXT[],
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID,
+  snoozed_until TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_events_unresolved_key
+ON sqp.alert_events(dedupe_key)
+WHERE status <> 'resolved';
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_status ON sqp.alert_events(status, last_triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_events_rule ON sqp.alert_events(rule_id);
+CREATE INDEX IF NOT EXISTS idx_alert_events_brand ON sqp.alert_events(brand_id);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON sqp.alert_rules(is_enabled) WHERE is_enabled = true;
+
+CREATE TRIGGER update_alert_rules_updated_at
+BEFORE UPDATE ON sqp.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+CREATE TRIGGER update_alert_events_updated_at
+BEFORE UPDATE ON sqp.alert_events
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+-- Public views for API access
+CREATE OR REPLACE VIEW public.alert_rules AS
+SELECT * FROM sqp.alert_rules;
+
+CREATE OR REPLACE VIEW public.alert_events AS
+SELECT * FROM sqp.alert_events;
+
+-- Lets the API queue webhook deliveries for events that are not raised by triggers
+CREATE OR REPLACE FUNCTION public.queue_webhook_delivery(
+  p_event_type TEXT,
+  p_event_data JSONB
+) RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT sqp.queue_webhook_delivery(p_event_type, p_event_data);
+$$;
+
+GRANT ALL ON sqp.alert_rules TO service_role;
+GRANT ALL ON sqp.alert_events TO service_role;
+GRANT ALL ON public.alert_rules TO service_role;
+GRANT ALL ON public.alert_events TO service_role;
+GRANT SELECT ON public.alert_rules TO authenticated;
+GRANT SELECT ON public.alert_events TO authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_webhook_delivery(TEXT, JSONB) TO service_role;
+
+COMMENT ON TABLE sqp.alert_rules IS 'User-defined keyword alert rules evaluated after each successful refresh';
+COMMENT ON TABLE sqp.alert_events IS 'Alerts raised by alert rules, with acknowledgement, snooze and resolution state';
\ No newline at end of file
@@ -0,0 +1,229 @@
+-- Migration: Add Webhook Data Events
+-- Description: Versioned webhook event catalog and triggers for data-level events
+--   data.week_available, anomaly.detected, report.generated,
+--   brand.mapping_changed and data_quality.failed.
+--   Payload documentation: docs/webhook-events.md
+
+-- Event catalog; payload_version is sent with every delivery
+CREATE TABLE IF NOT EXISTS sqp.webhook_event_types (
+  event_type TEXT PRIMARY KEY,
+  payload_version INTEGER NOT NULL DEFAULT 1,
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO sqp.webhook_event_types (event_type, payload_version, description) VALUES
+  ('refresh.completed', 1, 'A table refresh finished successfully'),
+  ('refresh.failed', 1, 'A table refresh failed'),
+  ('refresh.warning', 1, 'A table refresh finished with warnings'),
+  ('alert.triggered', 1, 'An alert rule fired and is outside its cooldown'),
+  ('data.week_available', 1, 'A new week of SQP data landed for an ASIN'),
+  ('anomaly.detected', 1, 'A keyword metric moved outside its normal range for the first time'),
+  ('report.generated', 1, 'A scheduled or on-demand report finished generating'),
+  ('brand.mapping_changed', 1, 'An ASIN was mapped, remapped or unmapped from a brand'),
+  ('data_quality.failed', 1, 'A data quality check fell outside its thresholds')
+ON CONFLICT (event_type) DO UPDATE SET
+  payload_version = EXCLUDED.payload_version,
+  description = EXCLUDED.description,
+  updated_at = CURRENT_TIMESTAMP;
+
+ALTER TABLE sqp.webhook_deliveries
+ADD COLUMN IF NOT EXISTS payload_version INTEGER NOT NULL DEFAULT 1;
+
+-- Recreate the delivery views so they pick up the new column
+CREATE OR REPLACE VIEW public.webhook_deliveries AS
+SELECT * FROM sqp.webhook_deliveries;
+
+CREATE OR REPLACE VIEW public.webhook_event_types AS
+SELECT * FROM sqp.webhook_event_types;
+
+-- Queue deliveries with the current payload version of the event
+CREATE OR REPLACE FUNCTION sqp.queue_webhook_delivery(
+    p_event_type TEXT,
+    p_event_data JSONB
+) RETURNS void AS $$
+DECLARE
+    v_version INTEGER;
+BEGIN
+    SELECT payload_version INTO v_version
+    FROM sqp.webhook_event_types
+    WHERE event_type = p_event_type;
+
+    INSERT INTO sqp.webhook_deliveries (
+        webhook_config_id,
+        event_type,
+        event_data,
+        payload_version,
+        status,
+        attempt_count
+    )
+    SELECT
+        id,
+        p_event_type,
+        p_event_data,
+        COALESCE(v_version, 1),
+        'pending',
+        0
+    FROM sqp.webhook_configs
+    WHERE is_enabled = true
+    AND p_event_type = ANY(events);
+END;
+$$ LANGUAGE plpgsql;
+
+-- data.week_available: first row for an ASIN and week
+CREATE OR REPLACE FUNCTION sqp.trigger_week_available_webhook() RETURNS trigger AS $$
+BEGIN
+    PERFORM sqp.queue_webhook_delivery('data.week_available', jsonb_build_object(
+        'asin', NEW.asin,
+        'start_date', NEW.start_date,
+        'end_date', NEW.end_date
+    ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS asin_performance_week_webhook_trigger ON sqp.asin_performance_data;
+CREATE TRIGGER asin_performance_week_webhook_trigger
+AFTER INSERT ON sqp.asin_performance_data
+FOR EACH ROW
+EXECUTE FUNCTION sqp.trigger_week_available_webhook();
+
+-- anomaly.detected: a new alert was opened (repeat firings update the existing alert)
+CREATE OR REPLACE FUNCTION sqp.trigger_anomaly_webhook() RETURNS trigger AS $$
+BEGIN
+    PERFORM sqp.queue_webhook_delivery('anomaly.detected', jsonb_build_object(
+        'alert_id', NEW.id,
+        'rule_id', NEW.rule_id,
+        'severity', NEW.severity,
+        'brand_id', NEW.brand_id,
+        'asin', NEW.asin,
+        'search_query', NEW.search_query,
+        'metric', NEW.metric,
+        'week_start', NEW.week_start,
+        'current_value', NEW.current_value,
+        'baseline_value', NEW.baseline_value,
+        'change_value', NEW.change_value,
+        'message', NEW.message
+    ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS alert_events_anomaly_webhook_trigger ON sqp.alert_events;
+CREATE TRIGGER alert_events_anomaly_webhook_trigger
+AFTER INSERT ON sqp.alert_events
+FOR EACH ROW
+EXECUTE FUNCTION sqp.trigger_anomaly_webhook();
+
+-- report.generated: an execution reached 'completed'
+CREATE OR REPLACE FUNCTION sqp.trigger_report_generated_webhook() RETURNS trigger AS $$
+DECLARE
+    v_config RECORD;
+BEGIN
+    IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+        SELECT name, report_type INTO v_config
+        FROM sqp.report_configurations
+        WHERE id = NEW.report_configuration_id;
+
+        PERFORM sqp.queue_webhook_delivery('report.generated', jsonb_build_object(
+            'execution_id', NEW.id,
+            'report_configuration_id', NEW.report_configuration_id,
+            'report_name', v_config.name,
+            'report_type', v_config.report_type,
+            'started_at', NEW.started_at,
+            'completed_at', NEW.completed_at,
+            'execution_time_ms', NEW.execution_time_ms,
+            'generated_files', NEW.generated_files
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS report_execution_webhook_trigger ON sqp.report_execution_history;
+CREATE TRIGGER report_execution_webhook_trigger
+AFTER INSERT OR UPDATE OF status ON sqp.report_execution_history
+FOR EACH ROW
+EXECUTE FUNCTION sqp.trigger_report_generated_webhook();
+
+-- brand.mapping_changed: ASIN mapped, remapped or unmapped
+CREATE OR REPLACE FUNCTION sqp.trigger_brand_mapping_webhook() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM sqp.queue_webhook_delivery('brand.mapping_changed', jsonb_build_object(
+            'change', 'deleted',
+            'asin', OLD.asin,
+            'brand_id', NULL,
+            'previous_brand_id', OLD.brand_id,
+            'extraction_method', OLD.extraction_method,
+            'confidence_score', OLD.confidence_score,
+            'verified', OLD.verified
+        ));
+        RETURN OLD;
+    END IF;
+
+    -- Ignore updates that only touch timestamps or titles
+    IF TG_OP = 'UPDATE'
+        AND NEW.brand_id IS NOT DISTINCT FROM OLD.brand_id
+        AND NEW.extraction_method IS NOT DISTINCT FROM OLD.extraction_method
+        AND NEW.verified IS NOT DISTINCT FROM OLD.verified THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM sqp.queue_webhook_delivery('brand.mapping_changed', jsonb_build_object(
+        'change', CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+        'asin', NEW.asin,
+        'brand_id', NEW.brand_id,
+        'previous_brand_id', CASE WHEN TG_OP = 'UPDATE' THEN OLD.brand_id ELSE NULL END,
+        'extraction_method', NEW.extraction_method,
+        'confidence_score', NEW.confidence_score,
+        'verified', NEW.verified
+    ));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS asin_brand_mapping_webhook_trigger ON public.asin_brand_mapping;
+CREATE TRIGGER asin_brand_mapping_webhook_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.asin_brand_mapping
+FOR EACH ROW
+EXECUTE FUNCTION sqp.trigger_brand_mapping_webhook();
+
+-- data_quality.failed: a check outside its thresholds
+CREATE OR REPLACE FUNCTION sqp.trigger_data_quality_webhook() RETURNS trigger AS $$
+DECLARE
+    v_table_name TEXT;
+BEGIN
+    IF NEW.is_within_threshold = false THEN
+        SELECT table_name INTO v_table_name
+        FROM sqp.refresh_audit_log
+        WHERE id = NEW.audit_log_id;
+
+        PERFORM sqp.queue_webhook_delivery('data_quality.failed', jsonb_build_object(
+            'check_id', NEW.id,
+            'audit_log_id', NEW.audit_log_id,
+            'table_name', v_table_name,
+            'metric_name', NEW.metric_name,
+            'metric_value', NEW.metric_value,
+            'expected_value', NEW.expected_value,
+            'threshold_min', NEW.threshold_min,
+            'threshold_max', NEW.threshold_max
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_data_quality_webhook_trigger ON sqp.refresh_data_quality;
+CREATE TRIGGER refresh_data_quality_webhook_trigger
+AFTER INSERT ON sqp.refresh_data_quality
+FOR EACH ROW
+EXECUTE FUNCTION sqp.trigger_data_quality_webhook();
+
+GRANT SELECT ON sqp.webhook_event_types TO service_role;
+GRANT SELECT ON public.webhook_event_types TO service_role;
+GRANT SELECT ON public.webhook_event_types TO authenticated;
+GRANT ALL ON public.webhook_deliveries TO service_role;
+
+COMMENT ON TABLE sqp.webhook_event_types IS 'Webhook events and the payload version sent with each delivery';
\ No newline at end of file
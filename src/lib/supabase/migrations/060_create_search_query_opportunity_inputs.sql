@@ -0,0 +1,33 @@
+-- Migration: Create Search Query Opportunity Inputs View
+-- Description: Weekly ASIN/search query rows with the market rate and price columns
+--   needed by opportunity scoring (src/services/dashboard/opportunity-scoring-service.ts).
+--   search_performance_summary does not expose total_purchase_rate or median prices.
+
+CREATE OR REPLACE VIEW public.search_query_opportunity_inputs AS
+SELECT
+    apd.asin,
+    apd.start_date,
+    apd.end_date,
+    apd.product_title,
+    sqp.search_query,
+    sqp.search_query_volume,
+    sqp.asin_impression_count,
+    sqp.asin_click_count,
+    sqp.asin_purchase_count,
+    sqp.asin_impression_share,
+    sqp.asin_purchase_share,
+    sqp.total_query_impression_count,
+    sqp.total_click_count,
+    sqp.total_purchase_count,
+    sqp.total_purchase_rate,
+    sqp.asin_median_purchase_price,
+    sqp.total_median_purchase_price
+FROM sqp.asin_performance_data apd
+JOIN sqp.search_query_performance sqp
+    ON apd.id = sqp.asin_performance_id
+WHERE sqp.search_query IS NOT NULL;
+
+GRANT SELECT ON public.search_query_opportunity_inputs TO anon, authenticated;
+GRANT SELECT ON public.search_query_opportunity_inputs TO service_role;
+
+COMMENT ON VIEW public.search_query_opportunity_inputs IS 'Inputs for search query opportunity scoring per ASIN and week';
\ No newline at end of file
@@ -0,0 +1,22 @@
+-- Migration: Add Refresh Orchestration Support
+-- Description: Lets the daily-refresh-orchestrator run tables in dependency order.
+--   Tables whose hard dependency failed are logged with status 'skipped', and each
+--   audit row records its orchestration run and wave in sync_metadata.
+
+ALTER TABLE sqp.refresh_audit_log
+DROP CONSTRAINT IF EXISTS refresh_audit_log_status_check;
+
+ALTER TABLE sqp.refresh_audit_log
+ADD CONSTRAINT refresh_audit_log_status_check
+CHECK (status IN ('running', 'success', 'failed', 'warning', 'skipped'));
+
+-- Finds every table of an orchestration run for the refresh monitor
+CREATE INDEX IF NOT EXISTS idx_audit_log_orchestration_run
+ON sqp.refresh_audit_log ((sync_metadata->>'orchestration_run_id'), refresh_started_at DESC);
+
+-- The orchestrator and the refresh API read dependencies through the public schema
+CREATE OR REPLACE VIEW public.refresh_dependencies AS
+SELECT * FROM sqp.refresh_dependencies;
+
+GRANT ALL ON public.refresh_dependencies TO service_role;
+GRANT SELECT ON public.refresh_dependencies TO authenticated;
\ No newline at end of file
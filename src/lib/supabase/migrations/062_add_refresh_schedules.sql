@@ -0,0 +1,24 @@
+-- Migration: Add Refresh Schedules
+-- Description: Lets each refresh_config use a cron expression evaluated in its own
+--   timezone instead of refresh_frequency_hours, declare blackout windows in which
+--   refreshes must not start, and be triggered when other tables refresh successfully.
+
+ALTER TABLE sqp.refresh_config
+ADD COLUMN IF NOT EXISTS schedule_cron TEXT,
+ADD COLUMN IF NOT EXISTS schedule_timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS blackout_windows JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS run_after_tables TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN sqp.refresh_config.schedule_cron IS
+  'Cron expression for refreshes; NULL falls back to refresh_frequency_hours';
+COMMENT ON COLUMN sqp.refresh_config.blackout_windows IS
+  'Array of {days?: 0-6, start: HH:mm, end: HH:mm} in schedule_timezone';
+COMMENT ON COLUMN sqp.refresh_config.run_after_tables IS
+  'Tables whose successful refresh makes this table due';
+
+-- Recreate the view so it picks up the new columns
+CREATE OR REPLACE VIEW public.refresh_config AS
+SELECT * FROM sqp.refresh_config;
+
+GRANT ALL ON public.refresh_config TO service_role;
+GRANT SELECT ON public.refresh_config TO authenticated;
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Migration: Expose Refresh Data Quality Results
+-- Description: The sync service and edge refresh functions record data quality
+--   checks in sqp.refresh_data_quality after each refresh; the refresh monitor
+--   reads them back. Both go through the public schema.
+
+CREATE OR REPLACE VIEW public.refresh_data_quality AS
+SELECT * FROM sqp.refresh_data_quality;
+
+GRANT ALL ON public.refresh_data_quality TO service_role;
+GRANT SELECT ON public.refresh_data_quality TO authenticated;
+
+-- Latest checks per table for the refresh monitor
+CREATE INDEX IF NOT EXISTS idx_quality_created
+ON sqp.refresh_data_quality(created_at DESC);
\ No newline at end of file
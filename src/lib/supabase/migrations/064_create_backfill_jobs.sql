@@ -0,0 +1,140 @@
+-- Migration: Create Backfill Jobs
+-- Description: Historical loads split into week-sized chunks per table. Each
+--   chunk is a row in sqp.refresh_checkpoints so its progress survives restarts,
+--   and workers claim chunks through sqp.claim_backfill_chunks, which caps the
+--   number running at once per job.
+
+CREATE TABLE IF NOT EXISTS sqp.backfill_jobs (
+  id SERIAL PRIMARY KEY,
+  table_schema TEXT NOT NULL DEFAULT 'sqp',
+  tables TEXT[] NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'paused', 'completed', 'failed', 'cancelled')),
+  -- Chunks of this job that may run at the same time, across all workers
+  max_concurrency INTEGER NOT NULL DEFAULT 2 CHECK (max_concurrency BETWEEN 1 AND 8),
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts >= 1),
+  created_by TEXT,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE,
+
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_status
+ON sqp.backfill_jobs(status, created_at DESC);
+
+-- Backfill chunks live alongside the sync checkpoints
+ALTER TABLE sqp.refresh_checkpoints
+  ADD COLUMN IF NOT EXISTS backfill_job_id INTEGER REFERENCES sqp.backfill_jobs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS chunk_start DATE,
+  ADD COLUMN IF NOT EXISTS chunk_end DATE,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+ALTER TABLE sqp.refresh_checkpoints DROP CONSTRAINT IF EXISTS refresh_checkpoints_status_check;
+ALTER TABLE sqp.refresh_checkpoints ADD CONSTRAINT refresh_checkpoints_status_check
+  CHECK (status IN ('active', 'completed', 'expired', 'pending', 'running', 'failed', 'cancelled'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_checkpoints_backfill_chunk
+ON sqp.refresh_checkpoints(backfill_job_id, table_name, chunk_start)
+WHERE backfill_job_id IS NOT NULL;
+
+-- Claim the next chunks of a running job for a worker
+-- Chunks stuck in 'running' longer than p_lock_timeout_minutes belonged to a
+-- worker that stopped and are claimed again.
+CREATE OR REPLACE FUNCTION sqp.claim_backfill_chunks(
+  p_job_id INTEGER,
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 2,
+  p_lock_timeout_minutes INTEGER DEFAULT 15
+)
+RETURNS SETOF sqp.refresh_checkpoints AS $$
+DECLARE
+  v_max_concurrency INTEGER;
+  v_running INTEGER;
+BEGIN
+  -- Lock the job so concurrent workers count running chunks one at a time
+  SELECT max_concurrency INTO v_max_concurrency
+  FROM sqp.backfill_jobs
+  WHERE id = p_job_id AND status = 'running'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_running
+  FROM sqp.refresh_checkpoints
+  WHERE backfill_job_id = p_job_id
+    AND status = 'running'
+    AND locked_at >= NOW() - (p_lock_timeout_minutes || ' minutes')::INTERVAL;
+
+  IF v_running >= v_max_concurrency THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE sqp.refresh_checkpoints c
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      attempts = c.attempts + 1,
+      updated_at = NOW()
+  WHERE c.id IN (
+    SELECT id
+    FROM sqp.refresh_checkpoints
+    WHERE backfill_job_id = p_job_id
+      AND (
+        status = 'pending'
+        OR (status = 'running' AND locked_at < NOW() - (p_lock_timeout_minutes || ' minutes')::INTERVAL)
+      )
+    -- Oldest weeks first; asin_performance_data sorts before search_query_performance
+    ORDER BY chunk_start ASC, table_name ASC
+    LIMIT LEAST(p_limit, v_max_concurrency - v_running)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public wrapper so workers can call it through the REST API
+CREATE OR REPLACE FUNCTION public.claim_backfill_chunks(
+  p_job_id INTEGER,
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 2,
+  p_lock_timeout_minutes INTEGER DEFAULT 15
+)
+RETURNS SETOF sqp.refresh_checkpoints
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM sqp.claim_backfill_chunks(p_job_id, p_worker_id, p_limit, p_lock_timeout_minutes);
+END;
+$$;
+
+-- Public views; refresh_checkpoints is recreated to pick up the new columns
+CREATE OR REPLACE VIEW public.backfill_jobs AS
+SELECT * FROM sqp.backfill_jobs;
+
+CREATE OR REPLACE VIEW public.refresh_checkpoints AS
+SELECT * FROM sqp.refresh_checkpoints;
+
+GRANT ALL ON sqp.backfill_jobs TO service_role;
+GRANT ALL ON public.backfill_jobs TO service_role;
+GRANT SELECT ON public.backfill_jobs TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE sqp.backfill_jobs_id_seq TO service_role;
+GRANT ALL ON public.refresh_checkpoints TO service_role;
+GRANT SELECT ON public.refresh_checkpoints TO authenticated;
+GRANT EXECUTE ON FUNCTION sqp.claim_backfill_chunks(INTEGER, TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_backfill_chunks(INTEGER, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON TABLE sqp.backfill_jobs IS 'Historical BigQuery loads; chunks are tracked in sqp.refresh_checkpoints';
+COMMENT ON FUNCTION sqp.claim_backfill_chunks IS 'Atomically claims backfill chunks for a worker within the job concurrency limit';
\ No newline at end of file
@@ -0,0 +1,107 @@
+-- Migration: Add Brand Rule Sandbox Support
+-- Description: Draft extraction rules are tested against every known product
+--   title before they are saved. Applying a rule moves the ASINs it wins to its
+--   brand and records each move in public.asin_brand_mapping_history, in one
+--   transaction so a mapping never changes without its history row.
+
+-- Latest title per ASIN, from performance data and any ASIN already mapped
+CREATE OR REPLACE VIEW public.asin_product_titles AS
+SELECT DISTINCT ON (asin) asin, product_title
+FROM (
+  SELECT asin, product_title, end_date
+  FROM sqp.asin_performance_data
+  WHERE product_title IS NOT NULL AND product_title <> ''
+  UNION ALL
+  SELECT asin, product_title, NULL::DATE AS end_date
+  FROM public.asin_brand_mapping
+  WHERE product_title IS NOT NULL AND product_title <> ''
+) titles
+ORDER BY asin, end_date DESC NULLS LAST;
+
+GRANT SELECT ON public.asin_product_titles TO authenticated, service_role;
+
+-- Assigns ASINs to the brand of p_rule_id. p_assignments is a JSON array of
+-- {asin, product_title, confidence}. Manual, override and verified mappings are
+-- left alone. Returns the number of ASINs whose brand changed.
+CREATE OR REPLACE FUNCTION public.apply_brand_rule_assignments(
+  p_rule_id UUID,
+  p_assignments JSONB,
+  p_changed_by UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule RECORD;
+  v_item JSONB;
+  v_existing RECORD;
+  v_mapped BOOLEAN;
+  v_changed INTEGER := 0;
+BEGIN
+  SELECT id, brand_id, rule_type, pattern INTO v_rule
+  FROM public.brand_extraction_rules
+  WHERE id = p_rule_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Active extraction rule % not found', p_rule_id;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_assignments)
+  LOOP
+    SELECT brand_id, extraction_method, verified, is_verified INTO v_existing
+    FROM public.asin_brand_mapping
+    WHERE asin = v_item->>'asin'
+    FOR UPDATE;
+    v_mapped := FOUND;
+
+    IF v_mapped AND (
+      v_existing.extraction_method IN ('manual', 'override')
+      OR COALESCE(v_existing.verified, false)
+      OR COALESCE(v_existing.is_verified, false)
+      OR v_existing.brand_id = v_rule.brand_id
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.asin_brand_mapping (
+      asin, brand_id, product_title, extraction_method, confidence_score,
+      extraction_rule_id, extraction_confidence
+    ) VALUES (
+      v_item->>'asin',
+      v_rule.brand_id,
+      v_item->>'product_title',
+      'automatic',
+      (v_item->>'confidence')::NUMERIC,
+      v_rule.id,
+      (v_item->>'confidence')::NUMERIC
+    )
+    ON CONFLICT (asin) DO UPDATE SET
+      brand_id = EXCLUDED.brand_id,
+      extraction_method = 'automatic',
+      confidence_score = EXCLUDED.confidence_score,
+      extraction_rule_id = EXCLUDED.extraction_rule_id,
+      extraction_confidence = EXCLUDED.extraction_confidence,
+      updated_at = CURRENT_TIMESTAMP;
+
+    INSERT INTO public.asin_brand_mapping_history (
+      asin, old_brand_id, new_brand_id, change_reason, changed_by, metadata
+    ) VALUES (
+      v_item->>'asin',
+      CASE WHEN v_mapped THEN v_existing.brand_id END,
+      v_rule.brand_id,
+      'extraction_rule',
+      p_changed_by,
+      jsonb_build_object(
+        'rule_id', v_rule.id,
+        'rule_type', v_rule.rule_type,
+        'pattern', v_rule.pattern,
+        'confidence', (v_item->>'confidence')::NUMERIC
+      )
+    );
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.apply_brand_rule_assignments(UUID, JSONB, UUID) TO service_role;
\ No newline at end of file
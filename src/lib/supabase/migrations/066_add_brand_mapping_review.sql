@@ -0,0 +1,193 @@
+-- Migration: Add Brand Mapping Review Queue
+-- Description: ASINs with no brand, or mapped automatically below the
+--   threshold of the rule that mapped them, are queued for manual review.
+--   Reviewed mappings are locked: the automatic matchers (040/041 and
+--   apply_brand_extractions) can still touch the row, but the lock trigger keeps
+--   its brand. Every review decision is recorded in asin_brand_mapping_history.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.asin_brand_mapping
+  ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Manual and override mappings made before this migration are locked too
+UPDATE public.asin_brand_mapping
+SET is_locked = true
+WHERE extraction_method IN ('manual', 'override');
+
+CREATE OR REPLACE FUNCTION public.protect_locked_brand_mappings()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only public.review_brand_mappings may change a locked brand
+  IF OLD.is_locked AND COALESCE(current_setting('app.brand_mapping_review', true), '') <> 'on' THEN
+    NEW.brand_id := OLD.brand_id;
+    NEW.extraction_method := OLD.extraction_method;
+    NEW.confidence_score := OLD.confidence_score;
+    NEW.is_locked := OLD.is_locked;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_locked_brand_mappings ON public.asin_brand_mapping;
+CREATE TRIGGER protect_locked_brand_mappings
+BEFORE UPDATE ON public.asin_brand_mapping
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_locked_brand_mappings();
+
+-- ASINs waiting for review, with the threshold they fell short of
+CREATE OR REPLACE VIEW public.brand_mapping_review_queue AS
+SELECT
+  t.asin,
+  t.product_title,
+  m.brand_id AS current_brand_id,
+  m.confidence_score,
+  m.extraction_rule_id,
+  COALESCE(r.confidence_threshold, 0.80) AS confidence_threshold,
+  CASE WHEN m.asin IS NULL THEN 'unmapped' ELSE 'low_confidence' END AS reason
+FROM public.asin_product_titles t
+LEFT JOIN public.asin_brand_mapping m ON m.asin = t.asin
+LEFT JOIN public.brand_extraction_rules r ON r.id = m.extraction_rule_id
+WHERE m.asin IS NULL
+   OR (
+     NOT m.is_locked
+     AND m.extraction_method = 'automatic'
+     AND NOT COALESCE(m.verified, false)
+     AND NOT COALESCE(m.is_verified, false)
+     AND COALESCE(m.confidence_score, 0) < COALESCE(r.confidence_threshold, 0.80)
+   );
+
+GRANT SELECT ON public.brand_mapping_review_queue TO authenticated, service_role;
+
+-- Brands whose name best matches each title, by trigram word similarity
+CREATE OR REPLACE FUNCTION public.suggest_brands_by_title(
+  p_asins TEXT[],
+  p_limit INTEGER DEFAULT 3,
+  p_min_similarity NUMERIC DEFAULT 0.3
+)
+RETURNS TABLE (
+  asin TEXT,
+  brand_id UUID,
+  similarity NUMERIC
+) AS $$
+  SELECT ranked.asin, ranked.brand_id, ranked.similarity
+  FROM (
+    SELECT
+      t.asin::TEXT AS asin,
+      b.id AS brand_id,
+      ROUND(GREATEST(
+        word_similarity(lower(b.brand_name), lower(t.product_title)),
+        word_similarity(lower(b.display_name), lower(t.product_title))
+      )::NUMERIC, 2) AS similarity,
+      ROW_NUMBER() OVER (
+        PARTITION BY t.asin
+        ORDER BY GREATEST(
+          word_similarity(lower(b.brand_name), lower(t.product_title)),
+          word_similarity(lower(b.display_name), lower(t.product_title))
+        ) DESC
+      ) AS rank
+    FROM public.asin_product_titles t
+    CROSS JOIN public.brands b
+    WHERE t.asin = ANY(p_asins)
+      AND b.is_active = true
+  ) ranked
+  WHERE ranked.rank <= p_limit
+    AND ranked.similarity >= p_min_similarity
+  ORDER BY ranked.asin, ranked.similarity DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Applies review decisions, a JSON array of {asin, brand_id, action, note}
+-- where action is 'approve' or 'override'. Mappings are upserted and locked,
+-- and each decision gets a history row. Returns the number of decisions applied.
+CREATE OR REPLACE FUNCTION public.review_brand_mappings(
+  p_decisions JSONB,
+  p_reviewed_by UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_decision JSONB;
+  v_action TEXT;
+  v_brand_id UUID;
+  v_title TEXT;
+  v_existing RECORD;
+  v_mapped BOOLEAN;
+  v_count INTEGER := 0;
+BEGIN
+  PERFORM set_config('app.brand_mapping_review', 'on', true);
+
+  FOR v_decision IN SELECT * FROM jsonb_array_elements(p_decisions)
+  LOOP
+    v_action := v_decision->>'action';
+    v_brand_id := (v_decision->>'brand_id')::UUID;
+
+    IF v_action NOT IN ('approve', 'override') THEN
+      RAISE EXCEPTION 'Unknown review action % for ASIN %', v_action, v_decision->>'asin';
+    END IF;
+
+    SELECT brand_id, confidence_score, extraction_method INTO v_existing
+    FROM public.asin_brand_mapping
+    WHERE asin = v_decision->>'asin'
+    FOR UPDATE;
+    v_mapped := FOUND;
+
+    SELECT product_title INTO v_title
+    FROM public.asin_product_titles
+    WHERE asin = v_decision->>'asin';
+
+    INSERT INTO public.asin_brand_mapping (
+      asin, brand_id, product_title, extraction_method, confidence_score,
+      verified, is_verified, is_locked, reviewed_by, reviewed_at
+    ) VALUES (
+      v_decision->>'asin',
+      v_brand_id,
+      COALESCE(v_title, v_decision->>'asin'),
+      CASE WHEN v_action = 'approve' THEN 'manual' ELSE 'override' END,
+      1.00,
+      true,
+      true,
+      true,
+      p_reviewed_by,
+      CURRENT_TIMESTAMP
+    )
+    ON CONFLICT (asin) DO UPDATE SET
+      brand_id = EXCLUDED.brand_id,
+      extraction_method = EXCLUDED.extraction_method,
+      confidence_score = EXCLUDED.confidence_score,
+      verified = true,
+      is_verified = true,
+      is_locked = true,
+      reviewed_by = EXCLUDED.reviewed_by,
+      reviewed_at = EXCLUDED.reviewed_at,
+      updated_at = CURRENT_TIMESTAMP;
+
+    INSERT INTO public.asin_brand_mapping_history (
+      asin, old_brand_id, new_brand_id, change_reason, changed_by, metadata
+    ) VALUES (
+      v_decision->>'asin',
+      CASE WHEN v_mapped THEN v_existing.brand_id END,
+      v_brand_id,
+      'manual_review_' || v_action,
+      p_reviewed_by,
+      jsonb_build_object(
+        'action', v_action,
+        'previous_method', CASE WHEN v_mapped THEN v_existing.extraction_method END,
+        'previous_confidence', CASE WHEN v_mapped THEN v_existing.confidence_score END,
+        'note', v_decision->>'note'
+      )
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.suggest_brands_by_title(TEXT[], INTEGER, NUMERIC) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.review_brand_mappings(JSONB, UUID) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_asin_brand_mapping_review
+ON public.asin_brand_mapping(confidence_score)
+WHERE extraction_method = 'automatic' AND is_locked = false;
\ No newline at end of file
@@ -0,0 +1,38 @@
+-- Migration: Create Search Query Shipping Weekly View
+-- Description: Market shipping-speed counts per ASIN, search query and data week
+--   for the shipping analysis (src/services/dashboard/shipping-speed-service.ts).
+--   search_performance_summary does not expose the total_*_shipping_* columns,
+--   and the base table has no ASIN or data week of its own.
+
+CREATE OR REPLACE VIEW public.search_query_shipping_weekly AS
+SELECT
+    apd.asin,
+    apd.start_date,
+    apd.end_date,
+    apd.product_title,
+    sqp.search_query,
+    sqp.search_query_volume,
+    sqp.asin_click_count,
+    sqp.asin_cart_add_count,
+    sqp.asin_purchase_count,
+    sqp.total_click_count,
+    sqp.total_cart_add_count,
+    sqp.total_purchase_count,
+    sqp.total_same_day_shipping_click_count,
+    sqp.total_one_day_shipping_click_count,
+    sqp.total_two_day_shipping_click_count,
+    sqp.total_same_day_shipping_cart_add_count,
+    sqp.total_one_day_shipping_cart_add_count,
+    sqp.total_two_day_shipping_cart_add_count,
+    sqp.total_same_day_shipping_purchase_count,
+    sqp.total_one_day_shipping_purchase_count,
+    sqp.total_two_day_shipping_purchase_count
+FROM sqp.asin_performance_data apd
+JOIN sqp.search_query_performance sqp
+    ON apd.id = sqp.asin_performance_id
+WHERE sqp.search_query IS NOT NULL;
+
+GRANT SELECT ON public.search_query_shipping_weekly TO anon, authenticated;
+GRANT SELECT ON public.search_query_shipping_weekly TO service_role;
+
+COMMENT ON VIEW public.search_query_shipping_weekly IS 'Market shipping-speed counts per ASIN, search query and week';
\ No newline at end of file
@@ -0,0 +1,43 @@
+-- Migration: Create Keyword Groups
+-- Description: User-defined keyword groups ("sizes", "gift", competitor brand
+--   terms). Membership is rule based: a search query belongs to a group when it
+--   matches any of the group's rules (contains, regex or an exact list) and is
+--   not in its excluded keywords. Rules are evaluated in the API, so new search
+--   queries join matching groups without a backfill.
+
+CREATE TABLE IF NOT EXISTS sqp.keyword_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  -- Optional; groups without a brand are shared across brands
+  brand_id UUID REFERENCES public.brands(id) ON DELETE CASCADE,
+  -- [{type: 'contains' | 'regex', pattern, case_sensitive} | {type: 'exact', keywords}]
+  rules JSONB NOT NULL DEFAULT '[]',
+  excluded_keywords TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  color VARCHAR(7),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT keyword_groups_rules_check CHECK (jsonb_typeof(rules) = 'array' AND jsonb_array_length(rules) > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_groups_name
+ON sqp.keyword_groups(COALESCE(brand_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_keyword_groups_brand ON sqp.keyword_groups(brand_id);
+
+CREATE TRIGGER update_keyword_groups_updated_at
+BEFORE UPDATE ON sqp.keyword_groups
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+-- Public view for API access
+CREATE OR REPLACE VIEW public.keyword_groups AS
+SELECT * FROM sqp.keyword_groups;
+
+GRANT ALL ON sqp.keyword_groups TO service_role;
+GRANT ALL ON public.keyword_groups TO service_role;
+GRANT SELECT ON public.keyword_groups TO authenticated;
+
+COMMENT ON TABLE sqp.keyword_groups IS 'User-defined keyword groups with rule-based search query membership';
\ No newline at end of file
@@ -0,0 +1,38 @@
+-- Migration: Create Competitor Brands
+-- Description: Editable list of competitor brand names used to classify search
+--   queries as branded (our brands and extraction rule patterns), competitor
+--   (a name or alias from this list) or generic. Classification runs in the API,
+--   so edits apply to past weeks without a backfill.
+
+CREATE TABLE IF NOT EXISTS sqp.competitor_brands (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  -- Other spellings shoppers search for ("work sharp", "worksharp")
+  aliases TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  -- Optional; competitors without a brand apply to every brand
+  brand_id UUID REFERENCES public.brands(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_competitor_brands_name
+ON sqp.competitor_brands(COALESCE(brand_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_competitor_brands_brand ON sqp.competitor_brands(brand_id);
+
+CREATE TRIGGER update_competitor_brands_updated_at
+BEFORE UPDATE ON sqp.competitor_brands
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+-- Public view for API access
+CREATE OR REPLACE VIEW public.competitor_brands AS
+SELECT * FROM sqp.competitor_brands;
+
+GRANT ALL ON sqp.competitor_brands TO service_role;
+GRANT ALL ON public.competitor_brands TO service_role;
+GRANT SELECT ON public.competitor_brands TO authenticated;
+
+COMMENT ON TABLE sqp.competitor_brands IS 'Competitor brand names and aliases for branded, competitor and generic query classification';
\ No newline at end of file
@@ -0,0 +1,51 @@
+-- Migration: Create Keyword Lists
+-- Description: Per-ASIN and per-brand keyword watchlists and exclusion lists.
+--   Watched keywords are pinned in the search query table and can be monitored
+--   by 'watchlist' alert rules; excluded keywords are left out of tables, charts
+--   and KPI totals. An ASIN's own entry for a keyword overrides its brand's.
+
+CREATE TABLE IF NOT EXISTS sqp.keyword_list_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_type VARCHAR(10) NOT NULL CHECK (list_type IN ('watch', 'exclude')),
+  -- Stored trimmed and lower-cased, like search queries in the SQP reports
+  keyword TEXT NOT NULL,
+  -- Exactly one of asin or brand_id sets the scope
+  asin VARCHAR(20),
+  brand_id UUID REFERENCES public.brands(id) ON DELETE CASCADE,
+  -- Watched keywords only: include the keyword in 'watchlist' alert rules
+  alert_enabled BOOLEAN NOT NULL DEFAULT true,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT keyword_list_entries_scope_check CHECK ((asin IS NULL) <> (brand_id IS NULL)),
+  CONSTRAINT keyword_list_entries_keyword_check CHECK (keyword = lower(btrim(keyword)) AND keyword <> '')
+);
+
+-- A keyword is on at most one list per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_list_entries_scope_keyword
+ON sqp.keyword_list_entries(COALESCE(asin, ''), COALESCE(brand_id, '00000000-0000-0000-0000-000000000000'::UUID), keyword);
+
+CREATE INDEX IF NOT EXISTS idx_keyword_list_entries_asin ON sqp.keyword_list_entries(asin) WHERE asin IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_keyword_list_entries_brand ON sqp.keyword_list_entries(brand_id) WHERE brand_id IS NOT NULL;
+
+CREATE TRIGGER update_keyword_list_entries_updated_at
+BEFORE UPDATE ON sqp.keyword_list_entries
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+-- Public view for API access
+CREATE OR REPLACE VIEW public.keyword_list_entries AS
+SELECT * FROM sqp.keyword_list_entries;
+
+GRANT ALL ON sqp.keyword_list_entries TO service_role;
+GRANT ALL ON public.keyword_list_entries TO service_role;
+GRANT SELECT ON public.keyword_list_entries TO authenticated;
+
+COMMENT ON TABLE sqp.keyword_list_entries IS 'Per-ASIN and per-brand keyword watchlists and exclusion lists';
+
+-- Alert rules can monitor the alert-enabled watched keywords of a brand or ASIN list
+ALTER TABLE sqp.alert_rules DROP CONSTRAINT IF EXISTS alert_rules_scope_type_check;
+ALTER TABLE sqp.alert_rules ADD CONSTRAINT alert_rules_scope_type_check
+CHECK (scope_type IN ('brand', 'asin', 'keywords', 'watchlist'));
\ No newline at end of file
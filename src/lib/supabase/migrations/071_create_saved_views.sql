@@ -0,0 +1,47 @@
+-- Migration: Create Saved Views
+-- Description: Named snapshots of dashboard state (ASIN, dates, comparison,
+--   chart type, keyword selections) for the ASIN, brand and keyword-analysis
+--   pages. Views are private to their owner or shared with everyone, each user
+--   may mark one view per page as their default, and a view's short share
+--   token resolves to the page URL that restores its state.
+
+CREATE TABLE IF NOT EXISTS sqp.saved_views (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  page VARCHAR(50) NOT NULL CHECK (page IN ('asin', 'brand', 'keyword_analysis')),
+  -- Page state as written to the URL, validated per page by the API
+  state JSONB NOT NULL DEFAULT '{}'::JSONB,
+  visibility VARCHAR(20) NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'shared')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  -- Created on first share; short links are /v/<share_token>
+  share_token VARCHAR(32) UNIQUE,
+  -- NULL when authentication is disabled
+  owner_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_name
+ON sqp.saved_views(COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::UUID), page, lower(name));
+
+-- One default view per user and page
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_default
+ON sqp.saved_views(COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::UUID), page)
+WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_page ON sqp.saved_views(page, visibility);
+
+CREATE TRIGGER update_saved_views_updated_at
+BEFORE UPDATE ON sqp.saved_views
+FOR EACH ROW
+EXECUTE FUNCTION sqp.update_updated_at_column();
+
+-- Public view for API access
+CREATE OR REPLACE VIEW public.saved_views AS
+SELECT * FROM sqp.saved_views;
+
+GRANT ALL ON sqp.saved_views TO service_role;
+GRANT ALL ON public.saved_views TO service_role;
+GRANT SELECT ON public.saved_views TO authenticated;
+
+COMMENT ON TABLE sqp.saved_views IS 'Named dashboard state snapshots with owner/shared visibility, per-user defaults and share links';
\ No newline at end of file
@@ -0,0 +1,31 @@
+-- Migration: Add ID to Search Query Opportunity Inputs View
+-- Description: Exposes the search_query_performance row ID so callers paging
+--   through the view with .range() can order by a unique key. Rows sharing a
+--   start_date otherwise come back in no fixed order and pages can overlap.
+
+CREATE OR REPLACE VIEW public.search_query_opportunity_inputs AS
+SELECT
+    apd.asin,
+    apd.start_date,
+    apd.end_date,
+    apd.product_title,
+    sqp.search_query,
+    sqp.search_query_volume,
+    sqp.asin_impression_count,
+    sqp.asin_click_count,
+    sqp.asin_purchase_count,
+    sqp.asin_impression_share,
+    sqp.asin_purchase_share,
+    sqp.total_query_impression_count,
+    sqp.total_click_count,
+    sqp.total_purchase_count,
+    sqp.total_purchase_rate,
+    sqp.asin_median_purchase_price,
+    sqp.total_median_purchase_price,
+    sqp.id
+FROM sqp.asin_performance_data apd
+JOIN sqp.search_query_performance sqp
+    ON apd.id = sqp.asin_performance_id
+WHERE sqp.search_query IS NOT NULL;
+
+COMMENT ON COLUMN public.search_query_opportunity_inputs.id IS 'sqp.search_query_performance ID, a unique sort key for paging';
\ No newline at end of file
@@ -0,0 +1,34 @@
+-- Migration: Add ID to search_performance_summary View
+-- Description: Exposes the search_query_performance row ID so callers paging
+--   through the view with .range() can order by a unique key. Rows sharing a
+--   start_date otherwise come back in no fixed order and pages can overlap.
+--   The column is appended, so dependent views are left in place.
+
+CREATE OR REPLACE VIEW public.search_performance_summary AS
+SELECT 
+    apd.asin,
+    apd.start_date,
+    apd.end_date,
+    apd.product_title,
+    sqp.search_query,
+    sqp.search_query_score,
+    sqp.search_query_volume,
+    sqp.asin_impression_count,
+    sqp.asin_click_count,
+    sqp.asin_cart_add_count,
+    sqp.asin_purchase_count,
+    sqp.asin_impression_share,
+    sqp.asin_click_share,
+    sqp.asin_cart_add_share,
+    sqp.asin_purchase_share,
+    sqp.total_query_impression_count,
+    sqp.total_click_count,
+    sqp.total_cart_add_count,
+    sqp.total_purchase_count,
+    sqp.id
+FROM sqp.asin_performance_data apd
+LEFT JOIN sqp.search_query_performance sqp 
+    ON apd.id = sqp.asin_performance_id
+WHERE sqp.search_query IS NOT NULL;
+
+COMMENT ON COLUMN public.search_performance_summary.id IS 'sqp.search_query_performance ID, a unique sort key for paging';
\ No newline at end of file
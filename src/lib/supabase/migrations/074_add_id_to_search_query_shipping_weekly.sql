@@ -0,0 +1,35 @@
+-- Migration: Add ID to Search Query Shipping Weekly View
+-- Description: Exposes the search_query_performance row ID so the shipping
+--   analysis can page through the view ordered by start_date and a unique key.
+--   The column is appended, so the view is replaced in place.
+
+CREATE OR REPLACE VIEW public.search_query_shipping_weekly AS
+SELECT
+    apd.asin,
+    apd.start_date,
+    apd.end_date,
+    apd.product_title,
+    sqp.search_query,
+    sqp.search_query_volume,
+    sqp.asin_click_count,
+    sqp.asin_cart_add_count,
+    sqp.asin_purchase_count,
+    sqp.total_click_count,
+    sqp.total_cart_add_count,
+    sqp.total_purchase_count,
+    sqp.total_same_day_shipping_click_count,
+    sqp.total_one_day_shipping_click_count,
+    sqp.total_two_day_shipping_click_count,
+    sqp.total_same_day_shipping_cart_add_count,
+    sqp.total_one_day_shipping_cart_add_count,
+    sqp.total_two_day_shipping_cart_add_count,
+    sqp.total_same_day_shipping_purchase_count,
+    sqp.total_one_day_shipping_purchase_count,
+    sqp.total_two_day_shipping_purchase_count,
+    sqp.id AS id
+FROM sqp.asin_performance_data apd
+JOIN sqp.search_query_performance sqp
+    ON apd.id = sqp.asin_performance_id
+WHERE sqp.search_query IS NOT NULL;
+
+COMMENT ON COLUMN public.search_query_shipping_weekly.id IS 'sqp.search_query_performance ID, a unique sort key for paging';
\ No newline at end of file
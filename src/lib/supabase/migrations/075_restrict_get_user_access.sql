@@ -0,0 +1,8 @@
+-- Migration: Restrict get_user_access to the Service Role
+-- Description: get_user_access runs as SECURITY DEFINER and returns any user's
+--   role and brand scope. Functions are executable by PUBLIC by default, so
+--   anon and authenticated callers could read other users' access through
+--   /rest/v1/rpc. Only the middleware calls it, with the service role.
+
+REVOKE EXECUTE ON FUNCTION public.get_user_access(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_access(UUID) TO service_role;
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Migration: Create ASIN Weekly History Function
+-- Description: Weekly impression, click and purchase totals for one ASIN,
+--   optionally narrowed to a single search query. Forecasts read up to three
+--   years of history, which is one row per week here instead of one row per
+--   search query and week from search_query_opportunity_inputs.
+
+CREATE OR REPLACE FUNCTION public.get_asin_weekly_history(
+    p_asin TEXT,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_search_query TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    start_date DATE,
+    impressions BIGINT,
+    clicks BIGINT,
+    purchases BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        apd.start_date,
+        COALESCE(SUM(sqp.asin_impression_count), 0)::BIGINT,
+        COALESCE(SUM(sqp.asin_click_count), 0)::BIGINT,
+        COALESCE(SUM(sqp.asin_purchase_count), 0)::BIGINT
+    FROM sqp.asin_performance_data apd
+    JOIN sqp.search_query_performance sqp
+        ON apd.id = sqp.asin_performance_id
+    WHERE apd.asin = p_asin
+      AND apd.start_date BETWEEN p_start_date AND p_end_date
+      AND sqp.search_query IS NOT NULL
+      AND (p_search_query IS NULL OR sqp.search_query = p_search_query)
+    GROUP BY apd.start_date
+    ORDER BY apd.start_date;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_asin_weekly_history(TEXT, DATE, DATE, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.get_asin_weekly_history IS 'Weekly ASIN totals across search queries, or for one search query, used by forecasting';
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { buildSamplePayload, isWebhookEventType, WEBHOOK_EVENT_TYPES, WEBHOOK_EVENTS } from '../events'
+
+describe('webhook event catalog', () => {
+  it('defines every event type with a version and sample data', () => {
+    WEBHOOK_EVENT_TYPES.forEach(type => {
+      expect(WEBHOOK_EVENTS[type].type).toBe(type)
+      expect(WEBHOOK_EVENTS[type].version).toBeGreaterThanOrEqual(1)
+      expect(Object.keys(WEBHOOK_EVENTS[type].sampleData).length).toBeGreaterThan(0)
+    })
+  })
+
+  it('includes the data-level events', () => {
+    const dataEvents = ['data.week_available', 'anomaly.detected', 'report.generated', 'brand.mapping_changed', 'data_quality.failed']
+    dataEvents.forEach(type => expect(isWebhookEventType(type)).toBe(true))
+    expect(isWebhookEventType('refresh.started')).toBe(false)
+  })
+
+  it('builds the envelope sent by the webhook processor', () => {
+    expect(buildSamplePayload('data.week_available', { delivery_id: 7, timestamp: '2025-09-15T00:00:00.000Z' })).toEqual({
+      event: 'data.week_available',
+      version: 1,
+      data: { asin: 'B0C1234567', start_date: '2025-09-07', end_date: '2025-09-13' },
+      delivery_id: 7,
+      timestamp: '2025-09-15T00:00:00.000Z'
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,209 @@
+/**
+ * Catalog of webhook events. Versions must match sqp.webhook_event_types so the
+ * `version` field sent by the webhook-processor agrees with these samples.
+ * @module lib/webhooks/events
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'refresh.completed',
+  'refresh.failed',
+  'refresh.warning',
+  'alert.triggered',
+  'data.week_available',
+  'anomaly.detected',
+  'report.generated',
+  'brand.mapping_changed',
+  'data_quality.failed'
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+export interface WebhookEventDefinition {
+  type: WebhookEventType
+  label: string
+  description: string
+  // Bumped whenever fields are removed or change meaning; adding fields keeps the version
+  version: number
+  color: string
+  sampleData: Record<string, unknown>
+}
+
+export interface WebhookPayload {
+  event: WebhookEventType
+  version: number
+  data: Record<string, unknown>
+  delivery_id: string | number
+  timestamp: string
+}
+
+const refreshSample = (status: string, errorMessage: string | null) => ({
+  audit_log_id: 1042,
+  table_schema: 'sqp',
+  table_name: 'search_query_performance',
+  status,
+  refresh_type: 'scheduled',
+  started_at: '2025-09-15T06:00:00.000Z',
+  completed_at: '2025-09-15T06:04:12.000Z',
+  duration_ms: 252000,
+  rows_processed: 18250,
+  error_message: errorMessage,
+  function_name: 'daily-refresh-orchestrator'
+})
+
+export const WEBHOOK_EVENTS: Record<WebhookEventType, WebhookEventDefinition> = {
+  'refresh.completed': {
+    type: 'refresh.completed',
+    label: 'Refresh Completed',
+    description: 'A table refresh finished successfully',
+    version: 1,
+    color: 'bg-green-100 text-green-800',
+    sampleData: refreshSample('success', null)
+  },
+  'refresh.failed': {
+    type: 'refresh.failed',
+    label: 'Refresh Failed',
+    description: 'A table refresh failed',
+    version: 1,
+    color: 'bg-red-100 text-red-800',
+    sampleData: refreshSample('failed', 'BigQuery job timed out')
+  },
+  'refresh.warning': {
+    type: 'refresh.warning',
+    label: 'Refresh Warning',
+    description: 'A table refresh finished with warnings',
+    version: 1,
+    color: 'bg-yellow-100 text-yellow-800',
+    sampleData: refreshSample('warning', null)
+  },
+  'alert.triggered': {
+    type: 'alert.triggered',
+    label: 'Alert Triggered',
+    description: 'An alert rule fired and is outside its cooldown',
+    version: 1,
+    color: 'bg-orange-100 text-orange-800',
+    sampleData: {
+      alert_id: '3f0c2a4e-1d7b-4c51-9a8e-5b6f7c8d9e01',
+      rule_id: '8a1b2c3d-4e5f-4a6b-9c8d-7e6f5a4b3c2d',
+      rule_name: 'Purchase share drop',
+      severity: 'warning',
+      status: 'open',
+      brand_id: 'a1b2c3d4-e5f6-4789-abcd-ef0123456789',
+      asin: 'B0C1234567',
+      search_query: 'knife sharpener',
+      metric: 'purchase_share',
+      condition_type: 'share_drop',
+      threshold: 5,
+      week_start: '2025-09-07',
+      current_value: 12.4,
+      baseline_value: 19.8,
+      change_value: -7.4,
+      occurrence_count: 1,
+      message: 'Purchase share for B0C1234567 on "knife sharpener" fell 7.4 pts vs the 6-week average (19.8% → 12.4%)',
+      trigger: 'refresh.full'
+    }
+  },
+  'data.week_available': {
+    type: 'data.week_available',
+    label: 'New Week Available',
+    description: 'A new week of SQP data landed for an ASIN',
+    version: 1,
+    color: 'bg-blue-100 text-blue-800',
+    sampleData: {
+      asin: 'B0C1234567',
+      start_date: '2025-09-07',
+      end_date: '2025-09-13'
+    }
+  },
+  'anomaly.detected': {
+    type: 'anomaly.detected',
+    label: 'Anomaly Detected',
+    description: 'A keyword metric moved outside its normal range for the first time',
+    version: 1,
+    color: 'bg-purple-100 text-purple-800',
+    sampleData: {
+      alert_id: '3f0c2a4e-1d7b-4c51-9a8e-5b6f7c8d9e01',
+      rule_id: '8a1b2c3d-4e5f-4a6b-9c8d-7e6f5a4b3c2d',
+      severity: 'warning',
+      brand_id: 'a1b2c3d4-e5f6-4789-abcd-ef0123456789',
+      asin: 'B0C1234567',
+      search_query: 'knife sharpener',
+      metric: 'impressions',
+      week_start: '2025-09-07',
+      current_value: 4200,
+      baseline_value: 9800,
+      change_value: -3.1,
+      message: 'Impressions for B0C1234567 on "knife sharpener" is -3.1 standard deviations from its 6-week average (9,800 → 4,200)'
+    }
+  },
+  'report.generated': {
+    type: 'report.generated',
+    label: 'Report Generated',
+    description: 'A scheduled or on-demand report finished generating',
+    version: 1,
+    color: 'bg-indigo-100 text-indigo-800',
+    sampleData: {
+      execution_id: '5c6d7e8f-9a0b-4c1d-8e2f-3a4b5c6d7e8f',
+      report_configuration_id: '0a1b2c3d-4e5f-4061-8293-a4b5c6d7e8f9',
+      report_name: 'Weekly Brand Performance',
+      report_type: 'comprehensive_dashboard',
+      started_at: '2025-09-15T07:00:00.000Z',
+      completed_at: '2025-09-15T07:00:41.000Z',
+      execution_time_ms: 41000,
+      generated_files: [{ format: 'pdf', file_path: 'reports/weekly-brand-performance.pdf', size_bytes: 248311 }]
+    }
+  },
+  'brand.mapping_changed': {
+    type: 'brand.mapping_changed',
+    label: 'Brand Mapping Changed',
+    description: 'An ASIN was mapped, remapped or unmapped from a brand',
+    version: 1,
+    color: 'bg-teal-100 text-teal-800',
+    sampleData: {
+      change: 'updated',
+      asin: 'B0C1234567',
+      brand_id: 'a1b2c3d4-e5f6-4789-abcd-ef0123456789',
+      previous_brand_id: 'f9e8d7c6-b5a4-4321-9876-543210fedcba',
+      extraction_method: 'manual',
+      confidence_score: 1,
+      verified: true
+    }
+  },
+  'data_quality.failed': {
+    type: 'data_quality.failed',
+    label: 'Data Quality Failed',
+    description: 'A data quality check fell outside its thresholds',
+    version: 1,
+    color: 'bg-rose-100 text-rose-800',
+    sampleData: {
+      check_id: 311,
+      audit_log_id: 1042,
+      table_name: 'search_query_performance',
+      metric_name: 'row_count_change_pct',
+      metric_value: -62.5,
+      expected_value: 0,
+      threshold_min: -25,
+      threshold_max: 50
+    }
+  }
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Sample of the exact JSON body the webhook-processor POSTs for an event
+ */
+export function buildSamplePayload(
+  type: WebhookEventType,
+  overrides: Partial<Pick<WebhookPayload, 'delivery_id' | 'timestamp'>> = {}
+): WebhookPayload {
+  const definition = WEBHOOK_EVENTS[type]
+  return {
+    event: type,
+    version: definition.version,
+    data: definition.sampleData,
+    delivery_id: overrides.delivery_id ?? 'sample',
+    timestamp: overrides.timestamp ?? new Date().toISOString()
+  }
+}
\ No newline at end of file
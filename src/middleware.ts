@@ -1,28 +1,118 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import {
+  getAsinFromRequest,
+  getBrandIdFromPath,
+  getRequiredRole,
+  isPublicApiRoute
+} from '@/lib/auth/policy'
+import {
+  applyAuthHeaders,
+  forbiddenResponse,
+  stripAuthHeaders,
+  unauthorizedResponse
+} from '@/lib/auth/request-context'
+import { setSessionCookies } from '@/lib/auth/session-cookies'
+import { AuthContext, canAccessBrand, hasRole } from '@/lib/auth/types'
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  SessionTokens,
+  authenticateRequest,
+  getAsinBrandId,
+  isAuthDisabled
+} from '@/lib/auth/verify'
 
-export function middleware(request: NextRequest) {
-  // Skip middleware for static assets and build files
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  // Skip middleware for static assets and build files. API paths are always
+  // checked, even when they contain a dot.
   if (
-    request.nextUrl.pathname.startsWith('/_next') ||
-    request.nextUrl.pathname.startsWith('/static') ||
-    request.nextUrl.pathname.includes('.') // Skip files with extensions
+    pathname.startsWith('/_next') ||
+    pathname.startsWith('/static') ||
+    (!pathname.startsWith('/api/') && pathname.includes('.')) // Skip files with extensions
   ) {
     return NextResponse.next()
   }
 
-  // Add environment check header for debugging
-  const response = NextResponse.next()
-  
-  // Log environment availability for debugging (remove in production)
-  if (request.nextUrl.pathname.startsWith('/api/')) {
-    response.headers.set('X-Env-Check', JSON.stringify({
-      hasSupabaseUrl: !!process.env.SUPABASE_URL || !!process.env.NEXT_PUBLIC_SUPABASE_URL,
-      hasSupabaseKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY || !!process.env.SUPABASE_ANON_KEY || !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-      nodeEnv: process.env.NODE_ENV
-    }))
+  // Pages only need a session cookie; the API calls they make are fully verified below
+  if (!pathname.startsWith('/api/')) {
+    const hasSession = request.cookies.has(ACCESS_TOKEN_COOKIE) || request.cookies.has(REFRESH_TOKEN_COOKIE)
+    if (isAuthDisabled() || pathname === '/login' || hasSession) {
+      return NextResponse.next()
+    }
+
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const requestHeaders = new Headers(request.headers)
+  stripAuthHeaders(requestHeaders)
+
+  if (isPublicApiRoute(pathname)) {
+    return withEnvCheck(NextResponse.next({ request: { headers: requestHeaders } }))
   }
 
+  let context: AuthContext | null
+  let refreshed: SessionTokens | undefined
+
+  if (isAuthDisabled()) {
+    context = { userId: null, role: 'admin', brandIds: null, method: 'disabled' }
+  } else {
+    try {
+      ;({ context, refreshed } = await authenticateRequest(request))
+    } catch (error) {
+      console.error('Authentication error:', error)
+      return NextResponse.json(
+        { error: 'Authentication unavailable' },
+        { status: 500 }
+      )
+    }
+  }
+
+  if (!context) {
+    return unauthorizedResponse()
+  }
+
+  const requiredRole = getRequiredRole(pathname, request.method)
+  if (!hasRole(context, requiredRole)) {
+    return forbiddenResponse(`This action requires the ${requiredRole} role`)
+  }
+
+  if (context.brandIds !== null) {
+    const brandId = getBrandIdFromPath(pathname)
+    if (brandId && !canAccessBrand(context, brandId)) {
+      return forbiddenResponse('You do not have access to this brand')
+    }
+
+    const asin = getAsinFromRequest(pathname, request.nextUrl.searchParams)
+    if (asin) {
+      const asinBrandId = await getAsinBrandId(asin)
+      if (!asinBrandId || !canAccessBrand(context, asinBrandId)) {
+        return forbiddenResponse('You do not have access to this ASIN')
+      }
+    }
+  }
+
+  applyAuthHeaders(requestHeaders, context)
+  const response = withEnvCheck(NextResponse.next({ request: { headers: requestHeaders } }))
+
+  if (refreshed) {
+    setSessionCookies(response, refreshed)
+  }
+
+  return response
+}
+
+function withEnvCheck(response: NextResponse) {
+  // Log environment availability for debugging (remove in production)
+  response.headers.set('X-Env-Check', JSON.stringify({
+    hasSupabaseUrl: !!process.env.SUPABASE_URL || !!process.env.NEXT_PUBLIC_SUPABASE_URL,
+    hasSupabaseKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY || !!process.env.SUPABASE_ANON_KEY || !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    nodeEnv: process.env.NODE_ENV
+  }))
   return response
 }
 
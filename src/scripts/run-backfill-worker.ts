@@ -0,0 +1,73 @@
+#!/usr/bin/env npx tsx
+
+import { config } from 'dotenv'
+import { BackfillService } from '../services/bigquery-sync/backfill-service'
+
+// Load environment variables
+config()
+
+if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY')
+  process.exit(1)
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+async function runOnce(backfill: BackfillService) {
+  const results = await backfill.runOnce()
+
+  if (results.length === 0) {
+    console.log('💤 No running backfill jobs')
+  }
+  for (const result of results) {
+    console.log(`📦 Job ${result.jobId}: ${result.processed.length} chunk(s) processed, job is ${result.status}`)
+    for (const chunk of result.processed) {
+      const icon = chunk.status === 'completed' ? '✅' : chunk.status === 'retrying' ? '🔁' : chunk.status === 'paused' ? '⏸️' : '❌'
+      console.log(
+        `  ${icon} ${chunk.table} week of ${chunk.weekStart}: ${chunk.status} (${chunk.rowsProcessed} rows)` +
+        (chunk.error ? ` - ${chunk.error}` : '')
+      )
+    }
+  }
+
+  return results
+}
+
+async function main() {
+  const intervalMinutes = getArg('interval') ? parseInt(getArg('interval')!) : undefined
+  const backfill = new BackfillService({}, {
+    workerId: getArg('worker-id'),
+    batchSize: getArg('batch-size') ? parseInt(getArg('batch-size')!) : undefined
+  })
+
+  console.log(`🚀 Starting backfill worker (worker ${backfill.workerId})...\n`)
+
+  await runOnce(backfill)
+
+  if (!intervalMinutes) return
+
+  // Keep polling until the process is stopped
+  let stopped = false
+  process.on('SIGINT', () => { stopped = true })
+  process.on('SIGTERM', () => { stopped = true })
+
+  while (!stopped) {
+    await new Promise(resolve => setTimeout(resolve, intervalMinutes * 60000))
+    if (stopped) break
+    try {
+      await runOnce(backfill)
+    } catch (error) {
+      console.error('❌ Backfill run failed:', error)
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Backfill worker failed:', error)
+    process.exit(1)
+  })
+}
\ No newline at end of file
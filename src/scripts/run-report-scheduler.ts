@@ -0,0 +1,69 @@
+#!/usr/bin/env npx tsx
+
+import { config } from 'dotenv'
+import { ReportSchedulerService } from '../services/reports/report-scheduler-service'
+
+// Load environment variables
+config()
+
+if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY')
+  process.exit(1)
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+async function runOnce(scheduler: ReportSchedulerService) {
+  const result = await scheduler.runOnce()
+
+  console.log(`📬 Enqueued ${result.enqueuedCount} due report(s)`)
+  for (const item of result.processed) {
+    const icon = item.status === 'completed' ? '✅' : item.status === 'retrying' ? '🔁' : '❌'
+    console.log(
+      `${icon} ${item.configurationId} (queue ${item.queueId}, attempt ${item.attempt}): ${item.status}` +
+      (item.nextAttemptAt ? ` - next attempt at ${item.nextAttemptAt}` : '') +
+      (item.error ? ` - ${item.error}` : '')
+    )
+  }
+
+  return result
+}
+
+async function main() {
+  const intervalMinutes = getArg('interval') ? parseInt(getArg('interval')!) : undefined
+  const scheduler = new ReportSchedulerService({}, {
+    workerId: getArg('worker-id'),
+    batchSize: getArg('batch-size') ? parseInt(getArg('batch-size')!) : undefined
+  })
+
+  console.log(`🚀 Starting report scheduler (worker ${scheduler.workerId})...\n`)
+
+  await runOnce(scheduler)
+
+  if (!intervalMinutes) return
+
+  // Keep polling until the process is stopped
+  let stopped = false
+  process.on('SIGINT', () => { stopped = true })
+  process.on('SIGTERM', () => { stopped = true })
+
+  while (!stopped) {
+    await new Promise(resolve => setTimeout(resolve, intervalMinutes * 60000))
+    if (stopped) break
+    try {
+      await runOnce(scheduler)
+    } catch (error) {
+      console.error('❌ Scheduler run failed:', error)
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Report scheduler failed:', error)
+    process.exit(1)
+  })
+}
\ No newline at end of file
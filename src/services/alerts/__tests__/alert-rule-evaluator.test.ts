@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { buildDedupeKey, evaluateAlertRule, getMetricValue, PerformanceRow } from '../alert-rule-evaluator'
+import { AlertRule, validateAlertRule } from '../alert-rule-schema'
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule-1',
+  name: 'Impression swings',
+  is_enabled: true,
+  scope_type: 'asin',
+  brand_id: null,
+  asins: ['B001'],
+  keywords: [],
+  metric: 'impressions',
+  condition_type: 'zscore',
+  threshold: 2,
+  direction: 'both',
+  comparison_weeks: 6,
+  min_baseline: 0,
+  severity: 'warning',
+  cooldown_minutes: 1440,
+  channels: ['webhook'],
+  email_recipients: [],
+  pipeline_channels: [],
+  ...overrides
+})
+
+const row = (startDate: string, overrides: Partial<PerformanceRow> = {}): PerformanceRow => ({
+  asin: 'B001',
+  search_query: 'knife sharpener',
+  start_date: startDate,
+  asin_impression_count: 1000,
+  asin_click_count: 100,
+  asin_cart_add_count: 20,
+  asin_purchase_count: 10,
+  asin_impression_share: 0.1,
+  asin_click_share: 0.2,
+  asin_cart_add_share: 0.15,
+  asin_purchase_share: 0.25,
+  ...overrides
+})
+
+const WEEKS = ['2025-08-04', '2025-08-11', '2025-08-18', '2025-08-25', '2025-09-01', '2025-09-08']
+const LATEST = '2025-09-15'
+
+// Fills the weeks immediately before LATEST
+const history = (values: number[], field: keyof PerformanceRow = 'asin_impression_count') =>
+  values.map((value, i) => row(WEEKS[WEEKS.length - values.length + i], { [field]: value }))
+
+describe('getMetricValue', () => {
+  it('returns rates and shares as percentages', () => {
+    const r = row(LATEST)
+    expect(getMetricValue(r, 'ctr')).toBeCloseTo(10)
+    expect(getMetricValue(r, 'cvr')).toBeCloseTo(10)
+    expect(getMetricValue(r, 'purchase_share')).toBeCloseTo(25)
+    expect(getMetricValue(row(LATEST, { asin_impression_count: 0 }), 'ctr')).toBe(0)
+  })
+})
+
+describe('evaluateAlertRule', () => {
+  it('flags a z-score outlier against the comparison weeks', () => {
+    const rows = [...history([1000, 1100, 900, 1000, 1050, 950]), row(LATEST, { asin_impression_count: 400 })]
+
+    const { alerts, evaluatedKeys } = evaluateAlertRule(rule(), rows, LATEST)
+
+    expect(evaluatedKeys).toEqual([buildDedupeKey('rule-1', 'B001', 'knife sharpener')])
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0]).toMatchObject({
+      dedupeKey: 'rule-1:B001:knife sharpener',
+      weekStart: LATEST,
+      currentValue: 400,
+      baselineValue: 1000
+    })
+    expect(alerts[0].changeValue).toBeLessThan(-2)
+    expect(alerts[0].details.history).toHaveLength(6)
+  })
+
+  it('respects the rule direction', () => {
+    const rows = [...history([1000, 1100, 900, 1000, 1050, 950]), row(LATEST, { asin_impression_count: 400 })]
+
+    expect(evaluateAlertRule(rule({ direction: 'up' }), rows, LATEST).alerts).toHaveLength(0)
+    expect(evaluateAlertRule(rule({ direction: 'down' }), rows, LATEST).alerts).toHaveLength(1)
+  })
+
+  it('skips z-scores with too little or flat history', () => {
+    const short = [...history([1000, 1100]), row(LATEST, { asin_impression_count: 100 })]
+    const flat = [...history([1000, 1000, 1000, 1000]), row(LATEST, { asin_impression_count: 100 })]
+
+    expect(evaluateAlertRule(rule(), short, LATEST).alerts).toHaveLength(0)
+    expect(evaluateAlertRule(rule(), flat, LATEST).alerts).toHaveLength(0)
+  })
+
+  it('compares percent change with the comparison period average', () => {
+    const rows = [...history([100, 100], 'asin_click_count'), row(LATEST, { asin_click_count: 160 })]
+    const pctRule = rule({ metric: 'clicks', condition_type: 'pct_change', threshold: 50, comparison_weeks: 2 })
+
+    const { alerts } = evaluateAlertRule(pctRule, rows, LATEST)
+
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].changeValue).toBeCloseTo(60)
+    expect(alerts[0].message).toContain('rose 60.0%')
+  })
+
+  it('only looks back comparison_weeks weeks', () => {
+    const rows = [...history([5000, 100, 100, 100, 100, 100], 'asin_click_count'), row(LATEST, { asin_click_count: 100 })]
+    const pctRule = rule({ metric: 'clicks', condition_type: 'pct_change', threshold: 10, comparison_weeks: 3 })
+
+    expect(evaluateAlertRule(pctRule, rows, LATEST).alerts).toHaveLength(0)
+  })
+
+  it('flags share drops in percentage points and ignores small baselines', () => {
+    const rows = [
+      ...history([0.3, 0.3, 0.3], 'asin_purchase_share'),
+      row(LATEST, { asin_purchase_share: 0.22 })
+    ]
+    const shareRule = rule({ metric: 'purchase_share', condition_type: 'share_drop', threshold: 5, comparison_weeks: 3 })
+
+    const { alerts } = evaluateAlertRule(shareRule, rows, LATEST)
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].changeValue).toBeCloseTo(-8)
+
+    expect(evaluateAlertRule({ ...shareRule, min_baseline: 40 }, rows, LATEST).alerts).toHaveLength(0)
+  })
+
+  it('filters keyword-scoped rules case-insensitively and skips pairs missing the latest week', () => {
+    const rows = [
+      ...history([100, 100, 100]),
+      row(LATEST, { asin_impression_count: 10 }),
+      ...history([100, 100, 100]).map(r => ({ ...r, search_query: 'whetstone' })),
+      row(WEEKS[3], { asin: 'B002', search_query: 'Knife Sharpener' })
+    ]
+    const keywordRule = rule({
+      scope_type: 'keywords',
+      asins: [],
+      keywords: ['Knife Sharpener'],
+      condition_type: 'pct_change',
+      threshold: 50
+    })
+
+    const { alerts, evaluatedKeys } = evaluateAlertRule(keywordRule, rows, LATEST)
+
+    expect(evaluatedKeys).toEqual(['rule-1:B001:knife sharpener'])
+    expect(alerts).toHaveLength(1)
+  })
+})
+
+describe('validateAlertRule', () => {
+  it('requires a scope target and share metrics for share drops', () => {
+    const result = validateAlertRule({
+      name: 'Bad rule',
+      scope_type: 'brand',
+      metric: 'clicks',
+      condition_type: 'share_drop',
+      threshold: 5,
+      channels: ['email']
+    })
+
+    expect(result.success).toBe(false)
+    const paths = result.error!.issues.map(issue => issue.path.join('.'))
+    expect(paths).toEqual(expect.arrayContaining(['brand_id', 'metric', 'email_recipients']))
+  })
+
+  it('applies defaults', () => {
+    const result = validateAlertRule({
+      name: 'Clicks',
+      scope_type: 'asin',
+      asins: ['B001'],
+      metric: 'clicks',
+      condition_type: 'pct_change',
+      threshold: 30
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ direction: 'both', comparison_weeks: 6, cooldown_minutes: 1440, channels: ['webhook'] })
+  })
+})
\ No newline at end of file
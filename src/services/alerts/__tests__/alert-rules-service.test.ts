@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AlertRulesService } from '../alert-rules-service'
+import type { AlertEvent, AlertRule } from '../alert-rule-schema'
+
+vi.mock('@/services/reports/email-delivery-service', () => ({
+  emailDeliveryService: { sendNotificationEmail: vi.fn() }
+}))
+
+const NOW = new Date('2025-09-20T12:00:00Z')
+const LATEST = '2025-09-15'
+
+const baseRule: AlertRule = {
+  id: 'rule-1',
+  name: 'Click drop',
+  is_enabled: true,
+  scope_type: 'asin',
+  brand_id: 'brand-1',
+  asins: ['B001'],
+  keywords: [],
+  metric: 'clicks',
+  condition_type: 'pct_change',
+  threshold: 30,
+  direction: 'down',
+  comparison_weeks: 2,
+  min_baseline: 0,
+  severity: 'critical',
+  cooldown_minutes: 60,
+  channels: ['webhook', 'email', 'pipeline'],
+  email_recipients: ['ops@example.com'],
+  pipeline_channels: ['slack']
+}
+
+const perfRow = (startDate: string, clicks: number, searchQuery = 'knife sharpener') => ({
+  asin: 'B001',
+  search_query: searchQuery,
+  start_date: startDate,
+  asin_impression_count: 1000,
+  asin_click_count: clicks,
+  asin_cart_add_count: 0,
+  asin_purchase_count: 0,
+  asin_impression_share: 0,
+  asin_click_share: 0,
+  asin_cart_add_share: 0,
+  asin_purchase_share: 0
+})
+
+const event = (overrides: Partial<AlertEvent>): AlertEvent => ({
+  id: 'event-1',
+  rule_id: 'rule-1',
+  dedupe_key: 'rule-1:B001:knife sharpener',
+  status: 'open',
+  severity: 'critical',
+  asin: 'B001',
+  search_query: 'knife sharpener',
+  metric: 'clicks',
+  week_start: '2025-09-08',
+  current_value: 50,
+  baseline_value: 100,
+  change_value: -50,
+  message: '',
+  occurrence_count: 1,
+  first_triggered_at: '2025-09-13T00:00:00Z',
+  last_triggered_at: '2025-09-13T00:00:00Z',
+  ...overrides
+})
+
+interface RecordedQuery {
+  table: string
+  ops: Array<[string, any[]]>
+}
+
+/**
+ * Chainable Supabase stand-in; `respond` decides each query's result from the
+ * table and the recorded builder calls.
+ */
+function createSupabase(respond: (query: RecordedQuery) => { data: any; error: any }) {
+  const queries: RecordedQuery[] = []
+  const rpc = vi.fn().mockResolvedValue({ error: null })
+
+  const from = (table: string) => {
+    const query: RecordedQuery = { table, ops: [] }
+    queries.push(query)
+    const builder: any = new Proxy({}, {
+      get(_target, prop: string) {
+        if (prop === 'then') {
+          const result = respond(query)
+          return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+        }
+        return (...args: any[]) => {
+          query.ops.push([prop, args])
+          return builder
+        }
+      }
+    })
+    return builder
+  }
+
+  return { client: { from, rpc }, queries, rpc }
+}
+
+const hasOp = (query: RecordedQuery, op: string) => query.ops.some(([name]) => name === op)
+const opArgs = (query: RecordedQuery, op: string) => query.ops.find(([name]) => name === op)?.[1]
+
+function setup(existing: AlertEvent[], latestClicks = 50, rule: AlertRule = baseRule) {
+  const rows = [perfRow('2025-09-01', 100), perfRow('2025-09-08', 100), perfRow(LATEST, latestClicks)]
+  const supabase = createSupabase(query => {
+    if (query.table === 'alert_rules') {
+      return { data: hasOp(query, 'update') ? null : [rule], error: null }
+    }
+    if (query.table === 'search_performance_summary') {
+      return { data: hasOp(query, 'limit') ? [{ start_date: LATEST }] : rows, error: null }
+    }
+    if (query.table === 'alert_events') {
+      if (hasOp(query, 'insert')) {
+        return { data: { ...event({ id: 'event-new' }), ...opArgs(query, 'insert')![0] }, error: null }
+      }
+      if (hasOp(query, 'update') && hasOp(query, 'single')) {
+        return { data: { ...existing[0], ...opArgs(query, 'update')![0] }, error: null }
+      }
+      if (hasOp(query, 'update')) {
+        return { data: null, error: null }
+      }
+      return { data: existing, error: null }
+    }
+    return { data: [], error: null }
+  })
+
+  const mailer = { sendNotificationEmail: vi.fn().mockResolvedValue({ success: true }) }
+  const monitor = { sendAlert: vi.fn().mockResolvedValue(undefined) }
+  const service = new AlertRulesService({ supabase: supabase.client, mailer, monitor })
+
+  return { service, supabase, mailer, monitor }
+}
+
+const eventUpdates = (queries: RecordedQuery[]) =>
+  queries.filter(q => q.table === 'alert_events' && hasOp(q, 'update')).map(q => opArgs(q, 'update')![0])
+
+describe('AlertRulesService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('creates a new alert and delivers it on every channel', async () => {
+    const { service, supabase, mailer, monitor } = setup([])
+
+    const result = await service.evaluateRules({ trigger: 'refresh', now: NOW })
+
+    expect(result).toMatchObject({ latestWeek: LATEST, rulesEvaluated: 1, alertsTriggered: 1, notificationsSent: 1 })
+
+    const insert = supabase.queries.find(q => hasOp(q, 'insert'))!
+    expect(opArgs(insert, 'insert')![0]).toMatchObject({
+      rule_id: 'rule-1',
+      dedupe_key: 'rule-1:B001:knife sharpener',
+      status: 'open',
+      brand_id: 'brand-1',
+      current_value: 50,
+      baseline_value: 100
+    })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('queue_webhook_delivery', expect.objectContaining({
+      p_event_type: 'alert.triggered',
+      p_event_data: expect.objectContaining({ rule_id: 'rule-1', asin: 'B001', trigger: 'refresh' })
+    }))
+    expect(mailer.sendNotificationEmail).toHaveBeenCalledWith(
+      [{ email: 'ops@example.com' }],
+      expect.objectContaining({ subject: '[CRITICAL] Click drop: knife sharpener' })
+    )
+    expect(monitor.sendAlert).toHaveBeenCalledWith(expect.objectContaining({ type: 'custom', severity: 'critical' }), ['slack'])
+    expect(eventUpdates(supabase.queries)).toContainEqual({
+      last_notified_at: NOW.toISOString(),
+      delivered_channels: ['webhook', 'email', 'pipeline']
+    })
+  })
+
+  it('escapes rule names in the email body', async () => {
+    const { service, mailer } = setup([], 50, { ...baseRule, name: '<img src=x onerror=alert(1)> & drops' })
+
+    await service.evaluateRules({ trigger: 'refresh', now: NOW })
+
+    const [, email] = mailer.sendNotificationEmail.mock.calls[0]
+    expect(email.html).toContain('&lt;img src=x onerror=alert(1)&gt; &amp; drops')
+    expect(email.html).not.toContain('<img')
+  })
+
+  it('deduplicates into the unresolved alert and honours the cooldown', async () => {
+    const { service, supabase } = setup([event({ last_notified_at: '2025-09-20T11:30:00Z' })])
+
+    const result = await service.evaluateRules({ now: NOW })
+
+    expect(result.notificationsSent).toBe(0)
+    expect(supabase.queries.some(q => hasOp(q, 'insert'))).toBe(false)
+    expect(eventUpdates(supabase.queries)[0]).toMatchObject({ occurrence_count: 2, week_start: LATEST })
+    expect(supabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('keeps acknowledged and snoozed alerts quiet', async () => {
+    const acknowledged = setup([event({ status: 'acknowledged' })])
+    expect((await acknowledged.service.evaluateRules({ now: NOW })).notificationsSent).toBe(0)
+
+    const snoozed = setup([event({ status: 'snoozed', snoozed_until: '2025-09-21T00:00:00Z' })])
+    expect((await snoozed.service.evaluateRules({ now: NOW })).notificationsSent).toBe(0)
+    expect(eventUpdates(snoozed.supabase.queries)[0].status).toBeUndefined()
+  })
+
+  it('reopens and notifies when a snooze has expired', async () => {
+    const { service, supabase } = setup([event({ status: 'snoozed', snoozed_until: '2025-09-20T00:00:00Z', last_notified_at: '2025-09-20T11:59:00Z' })])
+
+    const result = await service.evaluateRules({ now: NOW })
+
+    expect(result.notificationsSent).toBe(1)
+    expect(eventUpdates(supabase.queries)[0]).toMatchObject({ status: 'open', snoozed_until: null })
+  })
+
+  it('resolves alerts whose condition has cleared', async () => {
+    const { service, supabase } = setup([event({ status: 'acknowledged' })], 100)
+
+    const result = await service.evaluateRules({ now: NOW })
+
+    expect(result).toMatchObject({ alertsTriggered: 0, alertsResolved: 1 })
+    const resolve = supabase.queries.find(q => q.table === 'alert_events' && hasOp(q, 'in'))!
+    expect(opArgs(resolve, 'update')![0]).toMatchObject({ status: 'resolved' })
+    expect(opArgs(resolve, 'in')).toEqual(['id', ['event-1']])
+  })
+
+  it('does not fail the refresh when evaluation throws', async () => {
+    const supabase = createSupabase(() => ({ data: null, error: new Error('boom') }))
+    const service = new AlertRulesService({ supabase: supabase.client })
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(service.evaluateAfterRefresh('refresh')).resolves.toBeNull()
+
+    consoleSpy.mockRestore()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { format, parseISO, subWeeks } from 'date-fns'
+import { AlertMetric, AlertRule, SHARE_METRICS } from './alert-rule-schema'
+
+// Row shape of public.search_performance_summary used by the evaluator
+export interface PerformanceRow {
+  asin: string
+  search_query: string
+  start_date: string
+  asin_impression_count: number | null
+  asin_click_count: number | null
+  asin_cart_add_count: number | null
+  asin_purchase_count: number | null
+  asin_impression_share: number | null
+  asin_click_share: number | null
+  asin_cart_add_share: number | null
+  asin_purchase_share: number | null
+}
+
+export interface AlertCandidate {
+  ruleId: string
+  dedupeKey: string
+  asin: string
+  searchQuery: string
+  metric: AlertMetric
+  weekStart: string
+  currentValue: number
+  baselineValue: number
+  // z-score, percent change or share-point change depending on the rule condition
+  changeValue: number
+  message: string
+  details: {
+    conditionType: AlertRule['condition_type']
+    threshold: number
+    history: Array<{ weekStart: string; value: number }>
+  }
+}
+
+export interface RuleEvaluation {
+  alerts: AlertCandidate[]
+  // Dedupe keys of every ASIN/keyword pair that had data for the latest week
+  evaluatedKeys: string[]
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  impressions: 'Impressions',
+  clicks: 'Clicks',
+  cart_adds: 'Cart adds',
+  purchases: 'Purchases',
+  ctr: 'CTR',
+  cvr: 'CVR',
+  impression_share: 'Impression share',
+  click_share: 'Click share',
+  cart_add_share: 'Cart add share',
+  purchase_share: 'Purchase share'
+}
+
+// z-scores are meaningless on fewer history points than this
+const MIN_ZSCORE_HISTORY = 3
+
+export function buildDedupeKey(ruleId: string, asin: string, searchQuery: string): string {
+  return `${ruleId}:${asin}:${searchQuery.toLowerCase()}`
+}
+
+/**
+ * Earliest week start needed to evaluate a rule against the latest week
+ */
+export function getHistoryStart(latestWeek: string, comparisonWeeks: number): string {
+  return format(subWeeks(parseISO(latestWeek), comparisonWeeks), 'yyyy-MM-dd')
+}
+
+function ratio(numerator: number | null, denominator: number | null): number {
+  return denominator ? ((numerator || 0) / denominator) * 100 : 0
+}
+
+/**
+ * Metric value for one ASIN/keyword week. Rates and shares are percentages.
+ */
+export function getMetricValue(row: PerformanceRow, metric: AlertMetric): number {
+  switch (metric) {
+    case 'impressions':
+      return row.asin_impression_count || 0
+    case 'clicks':
+      return row.asin_click_count || 0
+    case 'cart_adds':
+      return row.asin_cart_add_count || 0
+    case 'purchases':
+      return row.asin_purchase_count || 0
+    case 'ctr':
+      return ratio(row.asin_click_count, row.asin_impression_count)
+    case 'cvr':
+      return ratio(row.asin_purchase_count, row.asin_click_count)
+    case 'impression_share':
+      return (row.asin_impression_share || 0) * 100
+    case 'click_share':
+      return (row.asin_click_share || 0) * 100
+    case 'cart_add_share':
+      return (row.asin_cart_add_share || 0) * 100
+    case 'purchase_share':
+      return (row.asin_purchase_share || 0) * 100
+  }
+}
+
+function formatValue(value: number, metric: AlertMetric): string {
+  if (metric === 'ctr' || metric === 'cvr' || (SHARE_METRICS as readonly string[]).includes(metric)) {
+    return `${value.toFixed(1)}%`
+  }
+  return Math.round(value).toLocaleString('en-US')
+}
+
+function crossesThreshold(change: number, threshold: number, direction: AlertRule['direction']): boolean {
+  if (direction === 'up') return change >= threshold
+  if (direction === 'down') return change <= -threshold
+  return Math.abs(change) >= threshold
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[], avg: number): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length)
+}
+
+function matchesScope(rule: AlertRule, row: PerformanceRow): boolean {
+  if (rule.scope_type === 'asin' && !rule.asins.includes(row.asin)) return false
+  if (rule.scope_type === 'keywords') {
+    const keywords = rule.keywords.map(keyword => keyword.toLowerCase())
+    if (!keywords.includes(row.search_query.toLowerCase())) return false
+  }
+  // Watchlist rules get only watched keyword rows from AlertRulesService
+  return true
+}
+
+function describe(
+  rule: AlertRule,
+  asin: string,
+  searchQuery: string,
+  current: number,
+  baseline: number,
+  change: number,
+  weeks: number
+): string {
+  const label = `${METRIC_LABELS[rule.metric]} for ${asin} on "${searchQuery}"`
+  const values = `${formatValue(baseline, rule.metric)} → ${formatValue(current, rule.metric)}`
+
+  switch (rule.condition_type) {
+    case 'zscore':
+      return `${label} is ${change.toFixed(1)} standard deviations from its ${weeks}-week average (${values})`
+    case 'pct_change':
+      return `${label} ${change >= 0 ? 'rose' : 'fell'} ${Math.abs(change).toFixed(1)}% vs the ${weeks}-week average (${values})`
+    case 'share_drop':
+      return `${label} fell ${Math.abs(change).toFixed(1)} pts vs the ${weeks}-week average (${values})`
+  }
+}
+
+/**
+ * Evaluates one rule against the latest week of data. Each ASIN/keyword pair
+ * with data in the latest week is compared with up to `comparison_weeks` prior
+ * weeks; pairs whose baseline is below `min_baseline` are skipped.
+ */
+export function evaluateAlertRule(rule: AlertRule, rows: PerformanceRow[], latestWeek: string): RuleEvaluation {
+  const historyStart = getHistoryStart(latestWeek, rule.comparison_weeks)
+  const series = new Map<string, PerformanceRow[]>()
+
+  rows.forEach(row => {
+    if (row.start_date > latestWeek || row.start_date < historyStart) return
+    if (!matchesScope(rule, row)) return
+    const key = `${row.asin}|${row.search_query}`
+    const group = series.get(key) || []
+    group.push(row)
+    series.set(key, group)
+  })
+
+  const alerts: AlertCandidate[] = []
+  const evaluatedKeys: string[] = []
+
+  series.forEach(group => {
+    const sorted = [...group].sort((a, b) => a.start_date.localeCompare(b.start_date))
+    const latest = sorted[sorted.length - 1]
+    if (latest.start_date !== latestWeek) return
+
+    const { asin, search_query: searchQuery } = latest
+    const dedupeKey = buildDedupeKey(rule.id, asin, searchQuery)
+    evaluatedKeys.push(dedupeKey)
+
+    const history = sorted.slice(0, -1).map(row => ({
+      weekStart: row.start_date,
+      value: getMetricValue(row, rule.metric)
+    }))
+    if (history.length === 0) return
+
+    const current = getMetricValue(latest, rule.metric)
+    const baseline = mean(history.map(point => point.value))
+    if (baseline < rule.min_baseline) return
+
+    let change: number
+    let triggered: boolean
+
+    switch (rule.condition_type) {
+      case 'zscore': {
+        if (history.length < MIN_ZSCORE_HISTORY) return
+        const sd = standardDeviation(history.map(point => point.value), baseline)
+        if (sd === 0) return
+        change = (current - baseline) / sd
+        triggered = crossesThreshold(change, rule.threshold, rule.direction)
+        break
+      }
+      case 'pct_change':
+        if (baseline === 0) return
+        change = ((current - baseline) / baseline) * 100
+        triggered = crossesThreshold(change, rule.threshold, rule.direction)
+        break
+      case 'share_drop':
+        // Share drops only ever alert downwards, whatever the rule direction
+        change = current - baseline
+        triggered = crossesThreshold(change, rule.threshold, 'down')
+        break
+    }
+
+    if (!triggered) return
+
+    alerts.push({
+      ruleId: rule.id,
+      dedupeKey,
+      asin,
+      searchQuery,
+      metric: rule.metric,
+      weekStart: latestWeek,
+      currentValue: current,
+      baselineValue: baseline,
+      changeValue: change,
+      message: describe(rule, asin, searchQuery, current, baseline, change, history.length),
+      details: {
+        conditionType: rule.condition_type,
+        threshold: rule.threshold,
+        history
+      }
+    })
+  })
+
+  return { alerts, evaluatedKeys }
+}
\ No newline at end of file
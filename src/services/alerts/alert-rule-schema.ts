@@ -0,0 +1,132 @@
+import { z } from 'zod'
+
+export const ALERT_METRICS = [
+  'impressions',
+  'clicks',
+  'cart_adds',
+  'purchases',
+  'ctr',
+  'cvr',
+  'impression_share',
+  'click_share',
+  'cart_add_share',
+  'purchase_share'
+] as const
+
+export const SHARE_METRICS = ['impression_share', 'click_share', 'cart_add_share', 'purchase_share'] as const
+
+// 'watchlist' rules follow the alert-enabled watched keywords of their ASINs or brand
+export const ALERT_SCOPES = ['brand', 'asin', 'keywords', 'watchlist'] as const
+
+export const ALERT_CONDITIONS = ['zscore', 'pct_change', 'share_drop'] as const
+export const ALERT_CHANNELS = ['webhook', 'email', 'pipeline'] as const
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const
+export const ALERT_STATUSES = ['open', 'acknowledged', 'snoozed', 'resolved'] as const
+
+export type AlertMetric = typeof ALERT_METRICS[number]
+export type AlertScopeType = typeof ALERT_SCOPES[number]
+export type AlertConditionType = typeof ALERT_CONDITIONS[number]
+export type AlertChannelType = typeof ALERT_CHANNELS[number]
+export type AlertSeverity = typeof ALERT_SEVERITIES[number]
+export type AlertStatus = typeof ALERT_STATUSES[number]
+
+const alertRuleFields = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional().nullable(),
+  is_enabled: z.boolean().default(true),
+  scope_type: z.enum(ALERT_SCOPES),
+  brand_id: z.string().uuid().optional().nullable(),
+  asins: z.array(z.string().min(1)).default([]),
+  keywords: z.array(z.string().min(1)).default([]),
+  metric: z.enum(ALERT_METRICS),
+  condition_type: z.enum(ALERT_CONDITIONS),
+  threshold: z.number().positive(),
+  direction: z.enum(['up', 'down', 'both']).default('both'),
+  comparison_weeks: z.number().int().min(1).max(26).default(6),
+  min_baseline: z.number().min(0).default(0),
+  severity: z.enum(ALERT_SEVERITIES).default('warning'),
+  cooldown_minutes: z.number().int().min(0).default(1440),
+  channels: z.array(z.enum(ALERT_CHANNELS)).default(['webhook']),
+  email_recipients: z.array(z.string().email()).default([]),
+  pipeline_channels: z.array(z.string().min(1)).default([])
+})
+
+function validateRule(rule: Partial<z.infer<typeof alertRuleFields>>, ctx: z.RefinementCtx) {
+  if (rule.scope_type === 'brand' && !rule.brand_id) {
+    ctx.addIssue({ code: 'custom', path: ['brand_id'], message: 'brand_id is required for brand-scoped rules' })
+  }
+  if (rule.scope_type === 'asin' && !rule.asins?.length) {
+    ctx.addIssue({ code: 'custom', path: ['asins'], message: 'At least one ASIN is required for ASIN-scoped rules' })
+  }
+  if (rule.scope_type === 'keywords' && !rule.keywords?.length) {
+    ctx.addIssue({ code: 'custom', path: ['keywords'], message: 'At least one keyword is required for keyword-scoped rules' })
+  }
+  if (rule.condition_type === 'share_drop' && rule.metric && !(SHARE_METRICS as readonly string[]).includes(rule.metric)) {
+    ctx.addIssue({ code: 'custom', path: ['metric'], message: 'share_drop rules need a share metric' })
+  }
+  if (rule.channels?.includes('email') && !rule.email_recipients?.length) {
+    ctx.addIssue({ code: 'custom', path: ['email_recipients'], message: 'Email delivery needs at least one recipient' })
+  }
+  if (rule.channels?.includes('pipeline') && !rule.pipeline_channels?.length) {
+    ctx.addIssue({ code: 'custom', path: ['pipeline_channels'], message: 'Pipeline delivery needs at least one alert channel' })
+  }
+}
+
+export const alertRuleSchema = alertRuleFields.superRefine(validateRule)
+
+// Updates are validated against the stored rule merged with the patch
+export const alertRuleUpdateSchema = alertRuleFields.partial()
+
+export const alertActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('acknowledge') }),
+  z.object({ action: z.literal('resolve') }),
+  z.object({ action: z.literal('reopen') }),
+  z.object({
+    action: z.literal('snooze'),
+    minutes: z.number().int().positive().max(60 * 24 * 30)
+  })
+])
+
+export type AlertRuleInput = z.infer<typeof alertRuleSchema>
+
+export interface AlertRule extends AlertRuleInput {
+  id: string
+  description?: string | null
+  brand_id?: string | null
+  last_evaluated_at?: string | null
+  last_triggered_at?: string | null
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface AlertEvent {
+  id: string
+  rule_id: string
+  dedupe_key: string
+  status: AlertStatus
+  severity: AlertSeverity
+  brand_id?: string | null
+  asin: string
+  search_query: string
+  metric: AlertMetric
+  week_start: string
+  current_value: number | null
+  baseline_value: number | null
+  change_value: number | null
+  message: string
+  details?: Record<string, any>
+  occurrence_count: number
+  first_triggered_at: string
+  last_triggered_at: string
+  last_notified_at?: string | null
+  delivered_channels?: string[]
+  acknowledged_at?: string | null
+  acknowledged_by?: string | null
+  snoozed_until?: string | null
+  resolved_at?: string | null
+}
+
+export function validateAlertRule(rule: unknown) {
+  return alertRuleSchema.safeParse(rule)
+}
\ No newline at end of file
@@ -0,0 +1,505 @@
+import { createClient } from '@supabase/supabase-js'
+import {
+  EmailDeliveryService,
+  emailDeliveryService
+} from '@/services/reports/email-delivery-service'
+import type { PipelineMonitor } from '@/lib/bigquery/monitor'
+import { AlertCandidate, PerformanceRow, evaluateAlertRule, getHistoryStart } from './alert-rule-evaluator'
+import { AlertChannelType, AlertEvent, AlertRule } from './alert-rule-schema'
+import { KeywordListService } from '@/services/keywords/keyword-list-service'
+
+export interface EvaluateRulesOptions {
+  // What started the evaluation, e.g. 'refresh' or 'manual'; included in notifications
+  trigger?: string
+  ruleIds?: string[]
+  now?: Date
+}
+
+export interface RuleEvaluationSummary {
+  ruleId: string
+  ruleName: string
+  triggered: number
+  notified: number
+  resolved: number
+  error?: string
+}
+
+export interface EvaluateRulesResult {
+  latestWeek: string | null
+  rulesEvaluated: number
+  alertsTriggered: number
+  notificationsSent: number
+  alertsResolved: number
+  rules: RuleEvaluationSummary[]
+  timestamp: string
+}
+
+interface AlertRulesDependencies {
+  supabase?: any
+  mailer?: Pick<EmailDeliveryService, 'sendNotificationEmail'>
+  monitor?: Pick<PipelineMonitor, 'sendAlert'>
+}
+
+const PERFORMANCE_COLUMNS = [
+  'asin',
+  'search_query',
+  'start_date',
+  'asin_impression_count',
+  'asin_click_count',
+  'asin_cart_add_count',
+  'asin_purchase_count',
+  'asin_impression_share',
+  'asin_click_share',
+  'asin_cart_add_share',
+  'asin_purchase_share'
+].join(', ')
+
+const PAGE_SIZE = 1000
+
+// Rule names and messages (which quote search queries) are user-controlled
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Evaluates enabled alert rules against the latest week of search performance
+ * data, keeps one unresolved alert per rule, ASIN and keyword in sqp.alert_events,
+ * and notifies through each rule's channels (webhook deliveries, email or
+ * PipelineMonitor alert channels) subject to the rule cooldown.
+ */
+export class AlertRulesService {
+  private supabase: any
+  private mailer: Pick<EmailDeliveryService, 'sendNotificationEmail'>
+  private monitor?: Pick<PipelineMonitor, 'sendAlert'>
+
+  constructor(deps: AlertRulesDependencies = {}) {
+    this.supabase = deps.supabase
+    this.mailer = deps.mailer || emailDeliveryService
+    this.monitor = deps.monitor
+  }
+
+  private getSupabaseClient() {
+    if (!this.supabase) {
+      const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('Missing Supabase environment variables')
+      }
+
+      this.supabase = createClient(supabaseUrl, supabaseKey)
+    }
+    return this.supabase
+  }
+
+  // PipelineMonitor needs its own Supabase connection, so only build it when a rule uses it
+  private async getMonitor(): Promise<Pick<PipelineMonitor, 'sendAlert'>> {
+    if (!this.monitor) {
+      const { PipelineMonitor } = await import('@/lib/bigquery/monitor')
+      this.monitor = new PipelineMonitor({
+        pipelineId: 'alert-rules',
+        enableCloudLogging: false,
+        enableMetrics: false,
+        enableAlerts: true,
+        // Only used for its alert channel registry; threshold checks never run
+        alertThresholds: { errorRate: 1, executionTime: Number.MAX_SAFE_INTEGER, dataFreshness: Number.MAX_SAFE_INTEGER },
+        alertChannels: [],
+        logLevel: 'warning'
+      })
+    }
+    return this.monitor
+  }
+
+  async evaluateRules(options: EvaluateRulesOptions = {}): Promise<EvaluateRulesResult> {
+    const now = options.now || new Date()
+    const trigger = options.trigger || 'manual'
+    const rules = await this.getEnabledRules(options.ruleIds)
+    const latestWeek = rules.length > 0 ? await this.getLatestWeek() : null
+
+    const result: EvaluateRulesResult = {
+      latestWeek,
+      rulesEvaluated: 0,
+      alertsTriggered: 0,
+      notificationsSent: 0,
+      alertsResolved: 0,
+      rules: [],
+      timestamp: now.toISOString()
+    }
+
+    if (!latestWeek) {
+      return result
+    }
+
+    for (const rule of rules) {
+      try {
+        const summary = await this.evaluateRule(rule, latestWeek, trigger, now)
+        result.rules.push(summary)
+        result.alertsTriggered += summary.triggered
+        result.notificationsSent += summary.notified
+        result.alertsResolved += summary.resolved
+      } catch (error) {
+        console.error(`Failed to evaluate alert rule ${rule.id}:`, error)
+        result.rules.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          triggered: 0,
+          notified: 0,
+          resolved: 0,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+      result.rulesEvaluated++
+    }
+
+    return result
+  }
+
+  /**
+   * Evaluation hook for refresh paths: failures are logged and never fail the refresh
+   */
+  async evaluateAfterRefresh(trigger: string): Promise<EvaluateRulesResult | null> {
+    try {
+      return await this.evaluateRules({ trigger })
+    } catch (error) {
+      console.error('Alert rule evaluation after refresh failed:', error)
+      return null
+    }
+  }
+
+  async evaluateRule(rule: AlertRule, latestWeek: string, trigger: string, now: Date): Promise<RuleEvaluationSummary> {
+    const supabase = this.getSupabaseClient()
+    const rows = await this.getPerformanceRows(rule, latestWeek)
+    const { alerts, evaluatedKeys } = evaluateAlertRule(rule, rows, latestWeek)
+    const brandIds = await this.resolveBrandIds(rule, alerts)
+
+    const { data: unresolved, error } = await supabase
+      .from('alert_events')
+      .select('*')
+      .eq('rule_id', rule.id)
+      .neq('status', 'resolved')
+
+    if (error) throw error
+
+    const existingByKey = new Map<string, AlertEvent>(
+      (unresolved || []).map((event: AlertEvent) => [event.dedupe_key, event])
+    )
+    const summary: RuleEvaluationSummary = { ruleId: rule.id, ruleName: rule.name, triggered: 0, notified: 0, resolved: 0 }
+
+    for (const alert of alerts) {
+      const event = await this.recordAlert(rule, alert, existingByKey.get(alert.dedupeKey), brandIds.get(alert.asin) || null, now)
+      summary.triggered++
+
+      if (this.shouldNotify(rule, event.previous, now)) {
+        const delivered = await this.notify(rule, event.current, trigger)
+        await supabase
+          .from('alert_events')
+          .update({ last_notified_at: now.toISOString(), delivered_channels: delivered })
+          .eq('id', event.current.id)
+        summary.notified++
+      }
+    }
+
+    // Alerts whose condition cleared on data we evaluated are resolved automatically
+    const triggeredKeys = new Set(alerts.map(alert => alert.dedupeKey))
+    const cleared = Array.from(existingByKey.values()).filter(
+      event => !triggeredKeys.has(event.dedupe_key) && evaluatedKeys.includes(event.dedupe_key)
+    )
+    if (cleared.length > 0) {
+      const { error: resolveError } = await supabase
+        .from('alert_events')
+        .update({ status: 'resolved', resolved_at: now.toISOString() })
+        .in('id', cleared.map(event => event.id))
+
+      if (resolveError) throw resolveError
+      summary.resolved = cleared.length
+    }
+
+    await supabase
+      .from('alert_rules')
+      .update({
+        last_evaluated_at: now.toISOString(),
+        ...(alerts.length > 0 && { last_triggered_at: now.toISOString() })
+      })
+      .eq('id', rule.id)
+
+    return summary
+  }
+
+  /**
+   * Open alerts notify once per cooldown, snoozed alerts stay quiet until the
+   * snooze ends, and acknowledged alerts stay quiet until they resolve.
+   */
+  shouldNotify(rule: AlertRule, existing: AlertEvent | undefined, now: Date): boolean {
+    if (!existing) return true
+    if (existing.status === 'acknowledged') return false
+    if (existing.status === 'snoozed') {
+      return !existing.snoozed_until || new Date(existing.snoozed_until) <= now
+    }
+    if (!existing.last_notified_at) return true
+
+    const elapsedMinutes = (now.getTime() - new Date(existing.last_notified_at).getTime()) / 60000
+    return elapsedMinutes >= rule.cooldown_minutes
+  }
+
+  private async recordAlert(
+    rule: AlertRule,
+    alert: AlertCandidate,
+    existing: AlertEvent | undefined,
+    brandId: string | null,
+    now: Date
+  ): Promise<{ current: AlertEvent; previous?: AlertEvent }> {
+    const supabase = this.getSupabaseClient()
+    const values = {
+      severity: rule.severity,
+      brand_id: brandId,
+      asin: alert.asin,
+      search_query: alert.searchQuery,
+      metric: alert.metric,
+      week_start: alert.weekStart,
+      current_value: alert.currentValue,
+      baseline_value: alert.baselineValue,
+      change_value: alert.changeValue,
+      message: alert.message,
+      details: alert.details,
+      last_triggered_at: now.toISOString()
+    }
+
+    if (existing) {
+      const snoozeExpired = existing.status === 'snoozed' &&
+        (!existing.snoozed_until || new Date(existing.snoozed_until) <= now)
+      const update = {
+        ...values,
+        // Re-evaluating the same week after another refresh is not a new occurrence
+        occurrence_count: existing.week_start === alert.weekStart
+          ? existing.occurrence_count
+          : existing.occurrence_count + 1,
+        ...(snoozeExpired && { status: 'open', snoozed_until: null })
+      }
+
+      const { data, error } = await supabase
+        .from('alert_events')
+        .update(update)
+        .eq('id', existing.id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return { current: data, previous: existing }
+    }
+
+    const { data, error } = await supabase
+      .from('alert_events')
+      .insert({
+        ...values,
+        rule_id: rule.id,
+        dedupe_key: alert.dedupeKey,
+        status: 'open',
+        first_triggered_at: now.toISOString()
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return { current: data }
+  }
+
+  private async notify(rule: AlertRule, event: AlertEvent, trigger: string): Promise<AlertChannelType[]> {
+    const delivered: AlertChannelType[] = []
+
+    for (const channel of rule.channels) {
+      try {
+        switch (channel) {
+          case 'webhook': {
+            const { error } = await this.getSupabaseClient().rpc('queue_webhook_delivery', {
+              p_event_type: 'alert.triggered',
+              p_event_data: this.buildPayload(rule, event, trigger)
+            })
+            if (error) throw error
+            break
+          }
+          case 'email': {
+            const result = await this.mailer.sendNotificationEmail(
+              rule.email_recipients.map(email => ({ email })),
+              this.buildEmail(rule, event)
+            )
+            if (!result.success) throw new Error(result.errors?.join(', ') || 'Email delivery failed')
+            break
+          }
+          case 'pipeline': {
+            const monitor = await this.getMonitor()
+            await monitor.sendAlert({
+              type: 'custom',
+              severity: event.severity,
+              message: event.message,
+              timestamp: new Date(event.last_triggered_at),
+              metadata: this.buildPayload(rule, event, trigger)
+            }, rule.pipeline_channels)
+            break
+          }
+        }
+        delivered.push(channel)
+      } catch (error) {
+        console.error(`Failed to deliver alert ${event.id} via ${channel}:`, error)
+      }
+    }
+
+    return delivered
+  }
+
+  private buildPayload(rule: AlertRule, event: AlertEvent, trigger: string) {
+    return {
+      alert_id: event.id,
+      rule_id: rule.id,
+      rule_name: rule.name,
+      severity: event.severity,
+      status: event.status,
+      brand_id: event.brand_id,
+      asin: event.asin,
+      search_query: event.search_query,
+      metric: event.metric,
+      condition_type: rule.condition_type,
+      threshold: rule.threshold,
+      week_start: event.week_start,
+      current_value: event.current_value,
+      baseline_value: event.baseline_value,
+      change_value: event.change_value,
+      occurrence_count: event.occurrence_count,
+      message: event.message,
+      trigger
+    }
+  }
+
+  private buildEmail(rule: AlertRule, event: AlertEvent) {
+    const subject = `[${event.severity.toUpperCase()}] ${rule.name}: ${event.search_query}`
+    const text = `${event.message}\n\nRule: ${rule.name}\nWeek starting: ${event.week_start}\nOccurrences: ${event.occurrence_count}`
+    const html = `
+<p>${escapeHtml(event.message)}</p>
+<ul>
+  <li><strong>Rule:</strong> ${escapeHtml(rule.name)}</li>
+  <li><strong>Week starting:</strong> ${escapeHtml(event.week_start)}</li>
+  <li><strong>Occurrences:</strong> ${escapeHtml(event.occurrence_count)}</li>
+</ul>
+    `
+    return { subject, text, html }
+  }
+
+  private async getEnabledRules(ruleIds?: string[]): Promise<AlertRule[]> {
+    let query = this.getSupabaseClient()
+      .from('alert_rules')
+      .select('*')
+      .eq('is_enabled', true)
+
+    if (ruleIds && ruleIds.length > 0) {
+      query = query.in('id', ruleIds)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+
+  private async getLatestWeek(): Promise<string | null> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('search_performance_summary')
+      .select('start_date')
+      .order('start_date', { ascending: false })
+      .limit(1)
+
+    if (error) throw error
+    return data?.[0]?.start_date || null
+  }
+
+  private async getBrandAsins(brandId: string): Promise<string[]> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('asin_brand_mapping')
+      .select('asin')
+      .eq('brand_id', brandId)
+
+    if (error) throw error
+    return (data || []).map((row: { asin: string }) => row.asin)
+  }
+
+  private async getPerformanceRows(rule: AlertRule, latestWeek: string): Promise<PerformanceRow[]> {
+    let asins: string[] | null = null
+    if (rule.scope_type === 'asin' || (rule.scope_type === 'watchlist' && rule.asins.length > 0)) {
+      asins = rule.asins
+    } else if (rule.brand_id) {
+      asins = await this.getBrandAsins(rule.brand_id)
+    }
+    if (asins && asins.length === 0) {
+      return []
+    }
+
+    let keywords = rule.scope_type === 'keywords' ? rule.keywords : null
+    let isWatched: ((row: PerformanceRow) => boolean) | null = null
+    if (rule.scope_type === 'watchlist') {
+      const { entries, lookup } = await new KeywordListService(this.getSupabaseClient()).getKeywordLists(asins || undefined)
+      keywords = Array.from(new Set(
+        entries.filter(entry => entry.list_type === 'watch' && entry.alert_enabled).map(entry => entry.keyword)
+      ))
+      if (keywords.length === 0) {
+        return []
+      }
+      // A keyword watched for one ASIN or brand is not watched for the others
+      isWatched = row => {
+        const entry = lookup(row.search_query, row.asin)
+        return entry?.list_type === 'watch' && entry.alert_enabled
+      }
+    }
+
+    const rows: PerformanceRow[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.getSupabaseClient()
+        .from('search_performance_summary')
+        .select(PERFORMANCE_COLUMNS)
+        .gte('start_date', getHistoryStart(latestWeek, rule.comparison_weeks))
+        .lte('start_date', latestWeek)
+
+      if (asins) {
+        query = query.in('asin', asins)
+      }
+      if (keywords) {
+        query = query.in('search_query', keywords)
+      }
+
+      const { data, error } = await query
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) throw error
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return isWatched ? rows.filter(isWatched) : rows
+  }
+
+  private async resolveBrandIds(rule: AlertRule, alerts: AlertCandidate[]): Promise<Map<string, string>> {
+    const brandIds = new Map<string, string>()
+    if (rule.brand_id) {
+      alerts.forEach(alert => brandIds.set(alert.asin, rule.brand_id!))
+      return brandIds
+    }
+    if (alerts.length === 0) {
+      return brandIds
+    }
+
+    const { data } = await this.getSupabaseClient()
+      .from('asin_brand_mapping')
+      .select('asin, brand_id')
+      .in('asin', Array.from(new Set(alerts.map(alert => alert.asin))))
+
+    for (const row of (data || []) as Array<{ asin: string; brand_id: string }>) {
+      brandIds.set(row.asin, row.brand_id)
+    }
+    return brandIds
+  }
+}
+
+export const alertRulesService = new AlertRulesService()
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BackfillService, canApplyAction, splitIntoWeeks } from '../backfill-service'
+
+// In-memory tables with just enough of the query builder for the backfill service
+function createFakeSupabase() {
+  const tables: Record<string, any[]> = { backfill_jobs: [], refresh_checkpoints: [] }
+  let nextId = 1
+
+  const from = vi.fn((table: string) => {
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select'
+    let payload: any
+    let range: [number, number] | null = null
+    const filters: Array<(row: any) => boolean> = []
+
+    const run = () => {
+      if (operation === 'insert') {
+        const inserted = (Array.isArray(payload) ? payload : [payload]).map(row => ({ id: nextId++, attempts: 0, ...row }))
+        tables[table].push(...inserted)
+        return inserted
+      }
+      const matched = tables[table].filter(row => filters.every(filter => filter(row)))
+      if (operation === 'update') matched.forEach(row => Object.assign(row, payload))
+      if (operation === 'delete') tables[table] = tables[table].filter(row => !matched.includes(row))
+      return range ? matched.slice(range[0], range[1] + 1) : matched
+    }
+
+    const builder: any = {
+      select: () => builder,
+      insert: (rows: any) => {
+        operation = 'insert'
+        payload = rows
+        return builder
+      },
+      update: (fields: any) => {
+        operation = 'update'
+        payload = fields
+        return builder
+      },
+      delete: () => {
+        operation = 'delete'
+        return builder
+      },
+      eq: (column: string, value: any) => {
+        filters.push(row => row[column] === value)
+        return builder
+      },
+      in: (column: string, values: any[]) => {
+        filters.push(row => values.includes(row[column]))
+        return builder
+      },
+      order: () => builder,
+      limit: () => builder,
+      range: (start: number, end: number) => {
+        range = [start, end]
+        return builder
+      },
+      single: async () => {
+        const [row] = run()
+        return row ? { data: { ...row }, error: null } : { data: null, error: { message: 'No rows' } }
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: run().map(row => ({ ...row })), error: null }).then(resolve, reject)
+    }
+    return builder
+  })
+
+  // Mirrors sqp.claim_backfill_chunks
+  const rpc = vi.fn(async (_name: string, { p_job_id, p_worker_id, p_limit }: any) => {
+    const job = tables.backfill_jobs.find(row => row.id === p_job_id && row.status === 'running')
+    if (!job) return { data: [], error: null }
+
+    const chunks = tables.refresh_checkpoints.filter(row => row.backfill_job_id === p_job_id)
+    const running = chunks.filter(row => row.status === 'running').length
+    const claimed = chunks
+      .filter(row => row.status === 'pending')
+      .slice(0, Math.max(0, Math.min(p_limit, job.max_concurrency - running)))
+    claimed.forEach(row => Object.assign(row, { status: 'running', locked_by: p_worker_id, attempts: row.attempts + 1 }))
+    return { data: claimed.map(row => ({ ...row })), error: null }
+  })
+
+  return { client: { from, rpc }, tables }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('BackfillService', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>
+
+  beforeEach(() => {
+    supabase = createFakeSupabase()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('splits ranges into reporting weeks clipped to the range', () => {
+    expect(splitIntoWeeks('2025-09-03', '2025-09-20')).toEqual([
+      { start: '2025-09-03', end: '2025-09-06' },
+      { start: '2025-09-07', end: '2025-09-13' },
+      { start: '2025-09-14', end: '2025-09-20' }
+    ])
+    expect(splitIntoWeeks('2025-09-07', '2025-09-07')).toEqual([{ start: '2025-09-07', end: '2025-09-07' }])
+  })
+
+  it('creates one pending chunk per week and table', async () => {
+    const service = new BackfillService({ supabase: supabase.client, syncService: { syncWindow: vi.fn() } })
+
+    const progress = await service.createJob({
+      start_date: '2025-08-31',
+      end_date: '2025-09-13',
+      tables: ['asin_performance_data', 'search_query_performance']
+    })
+
+    expect(progress.job).toMatchObject({ status: 'running', max_concurrency: 2 })
+    expect(progress.weeks).toEqual([
+      { start: '2025-08-31', end: '2025-09-06' },
+      { start: '2025-09-07', end: '2025-09-13' }
+    ])
+    expect(progress.counts.pending).toBe(4)
+    expect(progress.cells.search_query_performance['2025-09-07']).toMatchObject({ status: 'pending', rows: 0 })
+    expect(supabase.tables.refresh_checkpoints[0]).toMatchObject({
+      function_name: 'backfill',
+      table_name: 'asin_performance_data',
+      chunk_start: '2025-08-31',
+      checkpoint_data: { window: { start: '2025-08-31', end: '2025-09-06' } }
+    })
+  })
+
+  it('rejects tables that are not loaded from BigQuery', async () => {
+    const service = new BackfillService({ supabase: supabase.client })
+
+    await expect(service.createJob({ start_date: '2025-09-07', end_date: '2025-09-13', tables: ['brands'] }))
+      .rejects.toThrow('Tables cannot be backfilled: brands')
+  })
+
+  it('runs every chunk within the concurrency limit and completes the job', async () => {
+    let active = 0
+    let peak = 0
+    const syncWindow = vi.fn(async (table: string, window: any, { onBatch }: any) => {
+      active += 1
+      peak = Math.max(peak, active)
+      await tick()
+      await onBatch(250)
+      active -= 1
+      return { success: true, table, rowsProcessed: 250, duration: 1 }
+    })
+    const service = new BackfillService({ supabase: supabase.client, syncService: { syncWindow } as any }, { workerId: 'worker-1' })
+    const { job } = await service.createJob({
+      start_date: '2025-08-17',
+      end_date: '2025-09-13',
+      tables: ['asin_performance_data', 'search_query_performance'],
+      max_concurrency: 3
+    })
+
+    const result = await service.runJob(job.id)
+
+    expect(syncWindow).toHaveBeenCalledTimes(8)
+    expect(peak).toBe(3)
+    expect(result.status).toBe('completed')
+    expect(result.processed.every(chunk => chunk.status === 'completed')).toBe(true)
+
+    const progress = (await service.getProgress(job.id))!
+    expect(progress.counts.completed).toBe(8)
+    expect(progress.rows_processed).toBe(2000)
+    expect(supabase.tables.refresh_checkpoints.every(chunk => chunk.locked_by === null)).toBe(true)
+  })
+
+  it('resumes a chunk from its last committed row', async () => {
+    const syncWindow = vi.fn().mockResolvedValue({ success: true, table: 'asin_performance_data', rowsProcessed: 500, duration: 1 })
+    const service = new BackfillService({ supabase: supabase.client, syncService: { syncWindow } })
+    const { job } = await service.createJob({ start_date: '2025-09-07', end_date: '2025-09-13', tables: ['asin_performance_data'] })
+    supabase.tables.refresh_checkpoints[0].last_processed_row = 3000
+
+    await service.runJob(job.id)
+
+    expect(syncWindow).toHaveBeenCalledWith(
+      'asin_performance_data',
+      { start: '2025-09-07', end: '2025-09-13' },
+      expect.objectContaining({ resumeFromRow: 3000 })
+    )
+    expect(supabase.tables.refresh_checkpoints[0]).toMatchObject({ status: 'completed', total_rows: 3500 })
+  })
+
+  it('retries failed chunks up to max_attempts, then fails the job', async () => {
+    const syncWindow = vi.fn().mockResolvedValue({ success: false, table: 'asin_performance_data', rowsProcessed: 0, duration: 1, error: 'quota exceeded' })
+    const service = new BackfillService({ supabase: supabase.client, syncService: { syncWindow } })
+    const { job } = await service.createJob({
+      start_date: '2025-09-07',
+      end_date: '2025-09-13',
+      tables: ['asin_performance_data'],
+      max_attempts: 2
+    })
+
+    const result = await service.runJob(job.id)
+
+    expect(result.processed.map(chunk => chunk.status)).toEqual(['retrying', 'failed'])
+    expect(result.status).toBe('failed')
+    expect(supabase.tables.backfill_jobs[0].error_message).toBe('1 of 1 chunks failed')
+    expect(supabase.tables.refresh_checkpoints[0]).toMatchObject({ status: 'failed', attempts: 2, error_message: 'quota exceeded' })
+
+    // Resuming a failed job gives its failed chunks a fresh set of attempts
+    await service.applyAction(job.id, 'resume')
+    expect(supabase.tables.refresh_checkpoints[0]).toMatchObject({ status: 'pending', attempts: 0 })
+  })
+
+  it('stops a running chunk after its current batch when the job is paused', async () => {
+    let service: BackfillService
+    const syncWindow = vi.fn(async (table: string, window: any, { onBatch }: any) => {
+      await service.applyAction(1, 'pause')
+      const keepGoing = await onBatch(1200)
+      return { success: true, table, rowsProcessed: 1200, duration: 1, interrupted: keepGoing === false }
+    })
+    service = new BackfillService({ supabase: supabase.client, syncService: { syncWindow } as any })
+    const { job } = await service.createJob({ start_date: '2025-09-07', end_date: '2025-09-13', tables: ['asin_performance_data'] })
+
+    const result = await service.runJob(job.id)
+
+    expect(result.status).toBe('paused')
+    expect(result.processed[0].status).toBe('paused')
+    expect(supabase.tables.refresh_checkpoints[0]).toMatchObject({ status: 'pending', last_processed_row: 1200, locked_by: null })
+  })
+
+  it('cancels pending chunks and only allows valid transitions', async () => {
+    const service = new BackfillService({ supabase: supabase.client })
+    const { job } = await service.createJob({ start_date: '2025-08-31', end_date: '2025-09-13', tables: ['asin_performance_data'] })
+
+    await service.applyAction(job.id, 'cancel')
+
+    expect(supabase.tables.backfill_jobs[0].status).toBe('cancelled')
+    expect(supabase.tables.refresh_checkpoints.map(chunk => chunk.status)).toEqual(['cancelled', 'cancelled'])
+    expect(canApplyAction('cancelled', 'resume')).toBe(false)
+    expect(canApplyAction('paused', 'resume')).toBe(true)
+    await expect(service.applyAction(job.id, 'pause')).rejects.toThrow(/Failed to pause backfill/)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ReconciliationService } from '../reconciliation-service'
+
+// Serves each table's rows in pages and records the filters applied
+function createMockSupabase(tableRows: Record<string, any[]>) {
+  const filters: Record<string, any[]> = {}
+
+  const from = vi.fn((table: string) => {
+    let offset = 0
+    let size = Infinity
+    const builder: any = {
+      select: vi.fn(() => builder),
+      gte: vi.fn((...args: any[]) => {
+        ;(filters[table] ||= []).push(['gte', ...args])
+        return builder
+      }),
+      lte: vi.fn((...args: any[]) => {
+        ;(filters[table] ||= []).push(['lte', ...args])
+        return builder
+      }),
+      in: vi.fn((...args: any[]) => {
+        ;(filters[table] ||= []).push(['in', ...args])
+        return builder
+      }),
+      order: vi.fn(() => builder),
+      range: vi.fn((from: number, to: number) => {
+        offset = from
+        size = to - from + 1
+        return builder
+      }),
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: (tableRows[table] || []).slice(offset, offset + size), error: null }).then(resolve, reject)
+    }
+    return builder
+  })
+
+  return { client: { from }, filters }
+}
+
+// Fake BigQuery client returning pre-aggregated week/ASIN rows
+function createStubBigQuery(rows: any[]) {
+  const queries: string[] = []
+  const query = vi.fn(async ({ query: sql }: { query: string }) => {
+    queries.push(sql)
+    return [rows]
+  })
+  return { client: { query } as any, queries }
+}
+
+const sourceRow = (weekStart: string, asin: string, overrides: Record<string, any> = {}) => ({
+  week_start: { value: weekStart },
+  asin,
+  asin_rows: 1,
+  query_rows: 2,
+  impressions: 300,
+  clicks: 30,
+  cart_adds: 6,
+  purchases: 3,
+  ...overrides
+})
+
+const queryRow = (asin: string, start_date: string, overrides: Record<string, any> = {}) => ({
+  asin,
+  start_date,
+  asin_impression_count: 150,
+  asin_click_count: 15,
+  asin_cart_add_count: 3,
+  asin_purchase_count: 1.5,
+  ...overrides
+})
+
+describe('ReconciliationService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('aggregates the source by reporting week and ASIN', async () => {
+    const bigquery = createStubBigQuery([])
+    const supabase = createMockSupabase({})
+    const service = new ReconciliationService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    await service.reconcile({ start: '2025-08-31', end: '2025-09-13', asins: ['B001'] })
+
+    expect(bigquery.queries[0]).toContain('DATE_TRUNC(DATE(`Date`), WEEK(SUNDAY))')
+    expect(bigquery.queries[0]).toContain("BETWEEN '2025-08-31' AND '2025-09-13'")
+    expect(bigquery.queries[0]).toContain("IN ('B001')")
+    expect(supabase.filters.search_query_performance).toEqual([
+      ['gte', 'start_date', '2025-08-31'],
+      ['lte', 'start_date', '2025-09-13'],
+      ['in', 'asin', ['B001']]
+    ])
+  })
+
+  it('lists mismatched slices and weeks', async () => {
+    const bigquery = createStubBigQuery([
+      sourceRow('2025-08-31', 'B001'),
+      sourceRow('2025-09-07', 'B001'),
+      sourceRow('2025-09-07', 'B002')
+    ])
+    const supabase = createMockSupabase({
+      asin_performance_data: [
+        { asin: 'B001', start_date: '2025-08-31' },
+        { asin: 'B001', start_date: '2025-09-07' },
+        { asin: 'B003', start_date: '2025-09-09' }
+      ],
+      search_query_performance: [
+        queryRow('B001', '2025-08-31'),
+        queryRow('B001', '2025-08-31'),
+        // A lost row: counts and sums both come up short
+        queryRow('B001', '2025-09-07'),
+        queryRow('B003', '2025-09-09')
+      ]
+    })
+    const service = new ReconciliationService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const report = await service.reconcile({ start: '2025-08-31', end: '2025-09-13' })
+
+    expect(report.summary).toEqual({
+      slices: 4,
+      mismatched_slices: 3,
+      mismatched_weeks: ['2025-09-07']
+    })
+    expect(report.weeks[0]).toMatchObject({ week_start: '2025-08-31', week_end: '2025-09-06', asins: 1, mismatched_asins: 0 })
+    expect(report.mismatches.map(slice => [slice.asin, slice.status])).toEqual([
+      ['B001', 'mismatch'],
+      ['B002', 'missing'],
+      ['B003', 'extra']
+    ])
+    expect(report.mismatches[0].differences).toEqual(['query_rows', 'impressions', 'clicks', 'cart_adds', 'purchases'])
+    expect(report.mismatches[0].target).toMatchObject({ asin_rows: 1, query_rows: 1, impressions: 150 })
+  })
+
+  it('pages through large tables', async () => {
+    const rows = Array.from({ length: 1500 }, () => queryRow('B001', '2025-09-07', { asin_impression_count: 1 }))
+    const bigquery = createStubBigQuery([sourceRow('2025-09-07', 'B001', { query_rows: 1500, impressions: 1500 })])
+    const supabase = createMockSupabase({ search_query_performance: rows })
+    const service = new ReconciliationService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const report = await service.reconcile({ start: '2025-09-07', end: '2025-09-13' })
+
+    expect(report.mismatches[0].differences).toEqual(['asin_rows', 'clicks', 'cart_adds', 'purchases'])
+    expect(report.mismatches[0].target.query_rows).toBe(1500)
+  })
+
+  it('resyncs each mismatched week once for just its ASINs', async () => {
+    const syncTable = vi.fn().mockResolvedValue({ success: true, table: 'search_query_performance', rowsProcessed: 4, duration: 1 })
+    const service = new ReconciliationService({
+      bigquery: createStubBigQuery([]).client,
+      supabase: createMockSupabase({}).client,
+      syncService: { syncTable } as any
+    })
+
+    const results = await service.resync([
+      { week_start: '2025-09-07', asin: 'B002' },
+      { week_start: '2025-08-31', asin: 'B001' },
+      { week_start: '2025-09-07', asin: 'B001' }
+    ])
+
+    expect(syncTable.mock.calls).toEqual([
+      ['search_query_performance', { tableSchema: 'sqp', dateRange: { start: '2025-08-31', end: '2025-09-06' }, asins: ['B001'], replace: true }],
+      ['search_query_performance', { tableSchema: 'sqp', dateRange: { start: '2025-09-07', end: '2025-09-13' }, asins: ['B001', 'B002'], replace: true }]
+    ])
+    expect(results.map(result => result.week_start)).toEqual(['2025-08-31', '2025-09-07'])
+  })
+
+  it('splits a week with many mismatched ASINs into several syncs', async () => {
+    const syncTable = vi.fn().mockResolvedValue({ success: true, table: 'search_query_performance', rowsProcessed: 4, duration: 1 })
+    const service = new ReconciliationService({
+      bigquery: createStubBigQuery([]).client,
+      supabase: createMockSupabase({}).client,
+      syncService: { syncTable } as any
+    })
+    const asins = Array.from({ length: 30 }, (_, i) => `B${String(i).padStart(3, '0')}`)
+
+    const results = await service.resync(asins.map(asin => ({ week_start: '2025-09-07', asin })))
+
+    expect(syncTable).toHaveBeenCalledTimes(2)
+    expect(results.map(result => result.asins.length)).toEqual([25, 5])
+    expect(results.flatMap(result => result.asins)).toEqual(asins)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { diffRecords, syncDiffToCsv } from '../sync-diff'
+
+const window = { start: '2025-09-07', end: '2025-09-13' }
+const keyColumns = ['asin', 'start_date', 'search_query']
+
+const row = (asin: string, search_query: string, overrides: Record<string, any> = {}) => ({
+  asin,
+  start_date: '2025-09-07',
+  search_query,
+  asin_impression_count: 100,
+  asin_click_share: 0.25,
+  ...overrides
+})
+
+describe('diffRecords', () => {
+  it('splits rows into inserts, updates, unchanged and missing from source', () => {
+    const existing = [
+      // Supabase returns numerics as strings and dates with a time part
+      { id: 1, ...row('B001', 'knife', { asin_impression_count: '100', asin_click_share: '0.25', start_date: '2025-09-07T00:00:00' }) },
+      { id: 2, ...row('B001', 'sharpener', { asin_impression_count: 80 }) },
+      { id: 3, ...row('B002', 'whetstone') }
+    ]
+    const incoming = [
+      row('B001', 'knife'),
+      row('B001', 'sharpener', { asin_click_share: 0.3 }),
+      row('B003', 'honing rod')
+    ]
+
+    const diff = diffRecords(incoming, existing, { table: 'search_query_performance', window, keyColumns })
+
+    expect(diff.summary).toEqual({ inserts: 1, updates: 1, unchanged: 1, missingFromSource: 1 })
+    expect(diff.changedColumns).toEqual({ asin_impression_count: 1, asin_click_share: 1 })
+    expect(diff.samples.updates).toEqual([{
+      key: { asin: 'B001', start_date: '2025-09-07', search_query: 'sharpener' },
+      changes: [
+        { column: 'asin_impression_count', before: 80, after: 100 },
+        { column: 'asin_click_share', before: 0.25, after: 0.3 }
+      ]
+    }])
+    expect(diff.samples.inserts[0].asin).toBe('B003')
+    expect(diff.samples.missingFromSource[0].id).toBe(3)
+    expect(diff.deletesMissing).toBe(false)
+  })
+
+  it('counts every change but keeps only sampleSize samples', () => {
+    const incoming = Array.from({ length: 5 }, (_, i) => row('B001', `query ${i}`))
+
+    const diff = diffRecords(incoming, [], { table: 'search_query_performance', window, keyColumns, sampleSize: 2 })
+
+    expect(diff.summary.inserts).toBe(5)
+    expect(diff.samples.inserts).toHaveLength(2)
+  })
+
+  it('exports one CSV line per insert, changed column and missing row', () => {
+    const diff = diffRecords(
+      [row('B001', 'knife', { asin_impression_count: 120 }), row('B003', 'rod')],
+      [row('B001', 'knife'), row('B002', 'stone')],
+      { table: 'search_query_performance', window, keyColumns, deletesMissing: true }
+    )
+
+    const lines = syncDiffToCsv([diff]).trim().split('\n')
+
+    expect(lines[0]).toBe('table,change,key,column,before,after')
+    expect(lines).toContain('search_query_performance,update,B001 / 2025-09-07 / knife,asin_impression_count,100,120')
+    expect(lines.some(line => line.startsWith('search_query_performance,insert,B003 / 2025-09-07 / rod'))).toBe(true)
+    expect(lines.some(line => line.startsWith('search_query_performance,delete,B002 / 2025-09-07 / stone'))).toBe(true)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BigQuerySyncService } from '../sync-service'
+
+// Chainable query builder that records inserts, updates, upserts and deletes per table
+function createMockSupabase(tableResults: Record<string, any> = {}) {
+  const inserts: Record<string, any[]> = {}
+  const updates: Record<string, any[]> = {}
+  const upserts: Record<string, { payload: any; options: any }[]> = {}
+  // Filters applied to each delete
+  const deletes: Record<string, any[][]> = {}
+
+  const from = vi.fn((table: string) => {
+    let deleteFilters: any[] | null = null
+    const filter = (name: string) => vi.fn((...args: any[]) => {
+      deleteFilters?.push([name, ...args])
+      return builder
+    })
+    const builder: any = {
+      insert: vi.fn((payload: any) => {
+        ;(inserts[table] ||= []).push(payload)
+        return builder
+      }),
+      update: vi.fn((payload: any) => {
+        ;(updates[table] ||= []).push(payload)
+        return builder
+      }),
+      upsert: vi.fn((payload: any, options: any) => {
+        ;(upserts[table] ||= []).push({ payload, options })
+        return builder
+      }),
+      delete: vi.fn(() => {
+        deleteFilters = []
+        ;(deletes[table] ||= []).push(deleteFilters)
+        return builder
+      }),
+      select: vi.fn(() => builder),
+      eq: vi.fn(() => builder),
+      gt: vi.fn(() => builder),
+      gte: filter('gte'),
+      lte: filter('lte'),
+      in: filter('in'),
+      order: vi.fn(() => builder),
+      limit: vi.fn(() => builder),
+      range: vi.fn(() => builder),
+      single: vi.fn(() => Promise.resolve(tableResults[`${table}:single`] || { data: null, error: null })),
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(tableResults[table] || { data: null, error: null }).then(resolve, reject)
+    }
+    return builder
+  })
+
+  return { client: { from }, inserts, updates, upserts, deletes }
+}
+
+const bigQueryRow = (date: string, asin: string, query = 'knife sharpener') => ({
+  Date: { value: date },
+  'Parent ASIN': asin,
+  'Search Query': query
+})
+
+// Returns one page of rows per query call, then empty pages
+function createStubBigQuery(pages: any[][]) {
+  const queries: string[] = []
+  const query = vi.fn(async ({ query: sql }: { query: string }) => {
+    queries.push(sql)
+    return [pages[queries.length - 1] || []]
+  })
+  return { client: { query } as any, queries }
+}
+
+const baseResults = {
+  'refresh_config:single': { data: { id: 7, table_schema: 'sqp', table_name: 'asin_performance_data' }, error: null },
+  'refresh_audit_log:single': { data: { id: 1 }, error: null },
+  'refresh_checkpoints:single': { data: { id: 99 }, error: null }
+}
+
+describe('BigQuerySyncService incremental sync', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('reads from the watermark minus the lookback window and advances the watermark', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-09-10', lookback_days: 7 }], error: null },
+      refresh_checkpoints: { data: [], error: null }
+    })
+    const bigquery = createStubBigQuery([
+      [bigQueryRow('2025-09-05', 'B001'), bigQueryRow('2025-09-12', 'B002')],
+      [bigQueryRow('2025-09-14', 'B001')]
+    ])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', { incremental: true, batchSize: 2 })
+
+    expect(result.success).toBe(true)
+    expect(result.rowsProcessed).toBe(3)
+    expect(result.window?.start).toBe('2025-09-03')
+    expect(result.watermark).toBe('2025-09-14')
+
+    expect(bigquery.queries).toHaveLength(2)
+    expect(bigquery.queries[0]).toContain("BETWEEN '2025-09-03'")
+    expect(bigquery.queries[0]).toContain('OFFSET 0')
+    expect(bigquery.queries[1]).toContain('OFFSET 2')
+
+    // Corrections inside the lookback window overwrite existing rows
+    expect(supabase.upserts.asin_performance_data[0].options).toEqual({ onConflict: 'asin,start_date,end_date' })
+
+    const committed = supabase.upserts.sync_watermarks.map(u => u.payload).find(p => p.last_committed_at)
+    expect(committed).toMatchObject({ table_name: 'asin_performance_data', high_water_mark: '2025-09-14', last_rows_synced: 3 })
+    expect(supabase.updates.refresh_checkpoints).toContainEqual(expect.objectContaining({ status: 'completed' }))
+  })
+
+  it('never moves the watermark backwards when only older rows are corrected', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-09-10', lookback_days: 3 }], error: null },
+      refresh_checkpoints: { data: [], error: null }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-08', 'B001')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', { incremental: true, batchSize: 10 })
+
+    expect(result.watermark).toBe('2025-09-10')
+    expect(bigquery.queries[0]).toContain("BETWEEN '2025-09-07'")
+  })
+
+  it('resumes from the last checkpointed batch using the original window', async () => {
+    const window = { start: '2025-08-01', end: '2025-08-31' }
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-08-01', lookback_days: 7 }], error: null },
+      refresh_checkpoints: {
+        data: [{ id: 42, last_processed_row: 4, checkpoint_data: { window, max_date: '2025-08-20' } }],
+        error: null
+      }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-08-15', 'B003')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', { incremental: true, batchSize: 2 })
+
+    expect(result.success).toBe(true)
+    expect(result.resumedFromRow).toBe(4)
+    expect(result.window).toEqual(window)
+    expect(result.watermark).toBe('2025-08-20')
+    expect(bigquery.queries[0]).toContain("BETWEEN '2025-08-01' AND '2025-08-31'")
+    expect(bigquery.queries[0]).toContain('OFFSET 4')
+
+    // The existing checkpoint is updated rather than a new one inserted
+    expect(supabase.inserts.refresh_checkpoints).toBeUndefined()
+    expect(supabase.updates.refresh_checkpoints[0]).toMatchObject({ last_processed_row: 5 })
+  })
+
+  it('keeps the checkpoint and watermark when a batch fails', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-09-10', lookback_days: 7 }], error: null },
+      refresh_checkpoints: { data: [], error: null },
+      asin_performance_data: { data: null, error: { message: 'connection reset' } }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-12', 'B001')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', { incremental: true, batchSize: 1 })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('connection reset')
+    expect(supabase.upserts.sync_watermarks.some(u => 'high_water_mark' in u.payload)).toBe(false)
+    expect(supabase.updates.refresh_checkpoints).toBeUndefined()
+    expect(supabase.updates.refresh_audit_log).toContainEqual(expect.objectContaining({ status: 'failed' }))
+  })
+
+  it('records data quality results and marks the audit log as a warning on breaches', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-09-10', lookback_days: 7 }], error: null },
+      refresh_checkpoints: { data: [], error: null },
+      // B002 reported the previous week but is missing from the latest one
+      asin_performance_data: {
+        data: [
+          { asin: 'B001', start_date: '2025-09-07', end_date: '2025-09-13' },
+          { asin: 'B001', start_date: '2025-08-31', end_date: '2025-09-06' },
+          { asin: 'B002', start_date: '2025-08-31', end_date: '2025-09-06' }
+        ],
+        error: null
+      }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-12', 'B001')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', { incremental: true, batchSize: 10 })
+
+    expect(result.success).toBe(true)
+    expect(result.dataQualityWarnings).toEqual(['week_completeness'])
+    expect(supabase.inserts.refresh_data_quality[0]).toContainEqual(
+      expect.objectContaining({ audit_log_id: 1, metric_name: 'week_completeness', metric_value: 0.5, is_within_threshold: false })
+    )
+    expect(supabase.updates.refresh_audit_log).toContainEqual(expect.objectContaining({ status: 'warning', rows_processed: 1 }))
+  })
+
+  it('starts from the default initial window when a table has no watermark', () => {
+    const service = new BigQuerySyncService({ bigquery: {} as any, supabase: {} })
+
+    expect(service.getIncrementalWindow(null, 7, '2025-09-30')).toEqual({ start: '2025-08-31', end: '2025-09-30' })
+    expect(service.getIncrementalWindow('2025-09-20', 0, '2025-09-30')).toEqual({ start: '2025-09-20', end: '2025-09-30' })
+  })
+})
+
+describe('BigQuerySyncService targeted resync', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('replaces only the requested ASINs within the date range', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      asin_performance_data: {
+        data: [
+          { id: 1, asin: 'B001', start_date: '2025-09-08', end_date: '2025-09-08' },
+          { id: 2, asin: 'B001', start_date: '2025-09-09', end_date: '2025-09-09' }
+        ],
+        error: null
+      }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-08', 'B001')], [{ row_count: 1 }]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', {
+      dateRange: { start: '2025-09-07', end: '2025-09-13' },
+      asins: ['B001'],
+      replace: true
+    })
+
+    expect(result.success).toBe(true)
+    expect(bigquery.queries[0]).toContain("BETWEEN '2025-09-07' AND '2025-09-13'")
+    expect(bigquery.queries[0]).toContain("COALESCE(`Parent ASIN`, `Child ASIN`) IN ('B001')")
+    expect(supabase.upserts.asin_performance_data[0]).toEqual({
+      payload: [{ asin: 'B001', start_date: '2025-09-08', end_date: '2025-09-08' }],
+      options: { onConflict: 'asin,start_date,end_date' }
+    })
+    expect(supabase.inserts.asin_performance_data).toBeUndefined()
+    // Only the row BigQuery no longer returns is removed, after the upsert
+    expect(supabase.deletes.asin_performance_data).toEqual([[['in', 'id', [2]]]])
+  })
+
+  it('keeps the existing slice when an upsert fails', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      asin_performance_data: { data: null, error: { message: 'connection reset' } }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-08', 'B001')], [{ row_count: 1 }]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', {
+      dateRange: { start: '2025-09-07', end: '2025-09-13' },
+      asins: ['B001'],
+      replace: true
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('connection reset')
+    expect(supabase.deletes).toEqual({})
+  })
+
+  it('pages through the slice and keeps existing rows when the source count differs', async () => {
+    const supabase = createMockSupabase(baseResults)
+    const bigquery = createStubBigQuery([
+      [bigQueryRow('2025-09-08', 'B001'), bigQueryRow('2025-09-09', 'B001')],
+      [bigQueryRow('2025-09-10', 'B001')],
+      [{ row_count: 4 }]
+    ])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', {
+      dateRange: { start: '2025-09-07', end: '2025-09-13' },
+      asins: ['B001'],
+      replace: true,
+      batchSize: 2
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Read 3 of 4 source rows')
+    expect(bigquery.queries[1]).toContain('OFFSET 2')
+    expect(bigquery.queries.some(query => query.includes('LIMIT 10000'))).toBe(false)
+    expect(supabase.deletes).toEqual({})
+  })
+})
+
+describe('BigQuerySyncService dry run', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('diffs the transformed source against Supabase without writing anything', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      asin_performance_data: {
+        data: [
+          { id: 1, asin: 'B001', start_date: '2025-09-08', end_date: '2025-09-08' },
+          { id: 2, asin: 'B003', start_date: '2025-09-09', end_date: '2025-09-09' }
+        ],
+        error: null
+      }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-08', 'B001'), bigQueryRow('2025-09-10', 'B002')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('asin_performance_data', {
+      dateRange: { start: '2025-09-07', end: '2025-09-13' },
+      replace: true,
+      dryRun: true
+    })
+
+    expect(result).toMatchObject({ success: true, dryRun: true, rowsProcessed: 0 })
+    expect(result.diff?.summary).toEqual({ inserts: 1, updates: 0, unchanged: 1, missingFromSource: 1 })
+    expect(result.diff?.deletesMissing).toBe(true)
+    expect(bigquery.queries).toHaveLength(1)
+    expect(bigquery.queries[0]).toContain('LIMIT 10000')
+    expect(supabase.inserts).toEqual({})
+    expect(supabase.upserts).toEqual({})
+    expect(supabase.updates).toEqual({})
+    expect(supabase.deletes).toEqual({})
+  })
+
+  it('previews the incremental window from the watermark', async () => {
+    const supabase = createMockSupabase({
+      ...baseResults,
+      sync_watermarks: { data: [{ high_water_mark: '2025-09-10', lookback_days: 7 }], error: null },
+      search_query_performance: { data: [], error: null }
+    })
+    const bigquery = createStubBigQuery([[bigQueryRow('2025-09-05', 'B001'), bigQueryRow('2025-09-06', 'B001', 'whetstone')]])
+    const service = new BigQuerySyncService({ bigquery: bigquery.client, supabase: supabase.client })
+
+    const result = await service.syncTable('search_query_performance', { incremental: true, dryRun: true, batchSize: 5 })
+
+    expect(result.window?.start).toBe('2025-09-03')
+    expect(result.diff?.summary.inserts).toBe(2)
+    // No parent records are created ahead of a dry run
+    expect(bigquery.queries).toHaveLength(1)
+    expect(result.diff?.samples.inserts[0]).not.toHaveProperty('_temp_asin')
+    expect(supabase.upserts).toEqual({})
+  })
+})
\ No newline at end of file
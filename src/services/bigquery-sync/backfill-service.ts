@@ -0,0 +1,562 @@
+import { createClient } from '@supabase/supabase-js'
+import { hostname } from 'os'
+import { getSupabaseConfig } from '../../config/supabase.config'
+import { BigQuerySyncService } from './sync-service'
+
+// Tables a backfill can load; both are pulled from the BigQuery SQP source
+export const BACKFILL_TABLES = ['asin_performance_data', 'search_query_performance'] as const
+
+// function_name of backfill chunks in refresh_checkpoints
+export const BACKFILL_FUNCTION_NAME = 'backfill'
+
+export type BackfillJobStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+export type BackfillChunkStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+export type BackfillAction = 'pause' | 'resume' | 'cancel'
+
+export interface BackfillJob {
+  id: number
+  table_schema: string
+  tables: string[]
+  start_date: string
+  end_date: string
+  status: BackfillJobStatus
+  max_concurrency: number
+  max_attempts: number
+  created_by?: string | null
+  error_message?: string | null
+  created_at: string
+  updated_at: string
+  completed_at?: string | null
+}
+
+// A refresh_checkpoints row belonging to a backfill
+export interface BackfillChunk {
+  id: number
+  backfill_job_id: number
+  table_name: string
+  chunk_start: string
+  chunk_end: string
+  status: BackfillChunkStatus
+  attempts: number
+  last_processed_row: number | null
+  total_rows: number | null
+  error_message?: string | null
+  locked_by?: string | null
+  locked_at?: string | null
+  updated_at?: string
+}
+
+export interface CreateBackfillInput {
+  start_date: string
+  end_date: string
+  tables: string[]
+  table_schema?: string
+  max_concurrency?: number
+  max_attempts?: number
+  created_by?: string | null
+}
+
+export interface BackfillCell {
+  chunk_id: number
+  status: BackfillChunkStatus
+  attempts: number
+  rows: number
+  error?: string | null
+}
+
+export interface BackfillProgress {
+  job: BackfillJob
+  weeks: Array<{ start: string; end: string }>
+  tables: string[]
+  // cells[table][week start]
+  cells: Record<string, Record<string, BackfillCell>>
+  counts: Record<BackfillChunkStatus, number>
+  rows_processed: number
+}
+
+export interface ProcessedChunk {
+  chunkId: number
+  table: string
+  weekStart: string
+  status: 'completed' | 'retrying' | 'failed' | 'paused' | 'cancelled'
+  rowsProcessed: number
+  error?: string
+}
+
+export interface BackfillRunResult {
+  jobId: number
+  workerId: string
+  processed: ProcessedChunk[]
+  status: BackfillJobStatus | null
+}
+
+export interface BackfillOptions {
+  workerId?: string
+  batchSize?: number
+  lockTimeoutMinutes?: number
+  // Stop claiming new chunks after this long; chunks already running are finished
+  maxDurationMs?: number
+}
+
+interface BackfillDependencies {
+  supabase?: any
+  syncService?: Pick<BigQuerySyncService, 'syncWindow'>
+}
+
+const DEFAULT_OPTIONS: Required<Omit<BackfillOptions, 'workerId' | 'maxDurationMs'>> = {
+  batchSize: 1000,
+  lockTimeoutMinutes: 15
+}
+
+// Job states each action may be applied from
+const ACTION_SOURCES: Record<BackfillAction, BackfillJobStatus[]> = {
+  pause: ['running'],
+  resume: ['paused', 'failed'],
+  cancel: ['running', 'paused', 'failed']
+}
+
+const CHUNK_INSERT_BATCH = 500
+const CHUNK_PAGE_SIZE = 1000
+
+function shiftDate(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+/**
+ * Splits a date range into reporting weeks (Sunday to Saturday), clipping the
+ * first and last week to the range.
+ */
+export function splitIntoWeeks(start: string, end: string): Array<{ start: string; end: string }> {
+  const weeks: Array<{ start: string; end: string }> = []
+  let chunkStart = start
+  while (chunkStart <= end) {
+    const saturday = shiftDate(chunkStart, 6 - new Date(`${chunkStart}T00:00:00Z`).getUTCDay())
+    const chunkEnd = saturday < end ? saturday : end
+    weeks.push({ start: chunkStart, end: chunkEnd })
+    chunkStart = shiftDate(chunkEnd, 1)
+  }
+  return weeks
+}
+
+export function canApplyAction(status: BackfillJobStatus, action: BackfillAction): boolean {
+  return ACTION_SOURCES[action].includes(status)
+}
+
+export function buildBackfillProgress(job: BackfillJob, chunks: BackfillChunk[]): BackfillProgress {
+  const counts: Record<BackfillChunkStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 }
+  const cells: Record<string, Record<string, BackfillCell>> = {}
+  const weeks = new Map<string, string>()
+  let rowsProcessed = 0
+
+  chunks.forEach(chunk => {
+    const rows = chunk.total_rows ?? chunk.last_processed_row ?? 0
+    counts[chunk.status] += 1
+    rowsProcessed += rows
+    weeks.set(chunk.chunk_start, chunk.chunk_end)
+    ;(cells[chunk.table_name] ||= {})[chunk.chunk_start] = {
+      chunk_id: chunk.id,
+      status: chunk.status,
+      attempts: chunk.attempts,
+      rows,
+      error: chunk.error_message
+    }
+  })
+
+  return {
+    job,
+    weeks: Array.from(weeks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, end]) => ({ start, end })),
+    tables: job.tables.filter(table => cells[table]),
+    cells,
+    counts,
+    rows_processed: rowsProcessed
+  }
+}
+
+/**
+ * Loads history from BigQuery in week-sized chunks per table. Jobs live in
+ * sqp.backfill_jobs and their chunks in sqp.refresh_checkpoints, so any worker
+ * can pick a job up again after a restart: chunks resume from their last
+ * committed batch, and chunks left running by a stopped worker are reclaimed
+ * once their lock times out.
+ */
+export class BackfillService {
+  private supabase: any
+  private syncService?: Pick<BigQuerySyncService, 'syncWindow'>
+  private options: Required<Omit<BackfillOptions, 'maxDurationMs'>> & Pick<BackfillOptions, 'maxDurationMs'>
+
+  constructor(deps: BackfillDependencies = {}, options: BackfillOptions = {}) {
+    this.supabase = deps.supabase
+    this.syncService = deps.syncService
+    this.options = {
+      ...options,
+      workerId: options.workerId || `${hostname()}-${process.pid}`,
+      batchSize: options.batchSize || DEFAULT_OPTIONS.batchSize,
+      lockTimeoutMinutes: options.lockTimeoutMinutes || DEFAULT_OPTIONS.lockTimeoutMinutes
+    }
+  }
+
+  private getSupabaseClient() {
+    if (!this.supabase) {
+      const supabaseConfig = getSupabaseConfig()
+      this.supabase = createClient(
+        supabaseConfig.url,
+        supabaseConfig.serviceRoleKey || supabaseConfig.anonKey
+      )
+    }
+    return this.supabase
+  }
+
+  // Created on first use so listing and managing jobs never needs BigQuery credentials
+  private getSyncService() {
+    if (!this.syncService) {
+      this.syncService = new BigQuerySyncService({ supabase: this.getSupabaseClient() })
+    }
+    return this.syncService
+  }
+
+  get workerId(): string {
+    return this.options.workerId
+  }
+
+  async createJob(input: CreateBackfillInput): Promise<BackfillProgress> {
+    const supabase = this.getSupabaseClient()
+    const unknown = input.tables.filter(table => !(BACKFILL_TABLES as readonly string[]).includes(table))
+    if (unknown.length > 0) {
+      throw new Error(`Tables cannot be backfilled: ${unknown.join(', ')}`)
+    }
+
+    const { data: job, error } = await supabase
+      .from('backfill_jobs')
+      .insert({
+        table_schema: input.table_schema || 'sqp',
+        tables: input.tables,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        status: 'running',
+        max_concurrency: input.max_concurrency ?? 2,
+        max_attempts: input.max_attempts ?? 3,
+        created_by: input.created_by || null
+      })
+      .select()
+      .single()
+
+    if (error || !job) {
+      throw new Error(`Failed to create backfill job: ${error?.message || 'no row returned'}`)
+    }
+
+    const chunks = splitIntoWeeks(input.start_date, input.end_date).flatMap(week =>
+      input.tables.map(table => ({
+        function_name: BACKFILL_FUNCTION_NAME,
+        table_schema: job.table_schema,
+        table_name: table,
+        backfill_job_id: job.id,
+        chunk_start: week.start,
+        chunk_end: week.end,
+        checkpoint_data: { window: week },
+        last_processed_row: 0,
+        status: 'pending',
+        expires_at: null
+      }))
+    )
+
+    for (let i = 0; i < chunks.length; i += CHUNK_INSERT_BATCH) {
+      const { error: chunkError } = await supabase
+        .from('refresh_checkpoints')
+        .insert(chunks.slice(i, i + CHUNK_INSERT_BATCH))
+
+      if (chunkError) {
+        await supabase.from('backfill_jobs').delete().eq('id', job.id)
+        throw new Error(`Failed to create backfill chunks: ${chunkError.message}`)
+      }
+    }
+
+    return (await this.getProgress(job.id))!
+  }
+
+  async listJobs(limit = 20): Promise<BackfillProgress[]> {
+    const { data: jobs, error } = await this.getSupabaseClient()
+      .from('backfill_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load backfill jobs: ${error.message}`)
+    }
+    if (!jobs || jobs.length === 0) return []
+
+    const chunks = await this.getChunks(jobs.map((job: BackfillJob) => job.id))
+    return jobs.map((job: BackfillJob) =>
+      buildBackfillProgress(job, chunks.filter(chunk => chunk.backfill_job_id === job.id))
+    )
+  }
+
+  async getProgress(jobId: number): Promise<BackfillProgress | null> {
+    const job = await this.getJob(jobId)
+    if (!job) return null
+    return buildBackfillProgress(job, await this.getChunks([jobId]))
+  }
+
+  async getJob(jobId: number): Promise<BackfillJob | null> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('backfill_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+
+    if (error || !data) return null
+    return data
+  }
+
+  /**
+   * Pausing and cancelling stop claims at once; chunks already running stop
+   * after their current batch. Resuming also retries failed chunks.
+   */
+  async applyAction(jobId: number, action: BackfillAction): Promise<BackfillJob> {
+    const supabase = this.getSupabaseClient()
+    const now = new Date().toISOString()
+    const status: BackfillJobStatus = action === 'pause' ? 'paused' : action === 'resume' ? 'running' : 'cancelled'
+
+    const { data: job, error } = await supabase
+      .from('backfill_jobs')
+      .update({
+        status,
+        updated_at: now,
+        completed_at: action === 'cancel' ? now : null,
+        error_message: null
+      })
+      .eq('id', jobId)
+      .in('status', ACTION_SOURCES[action])
+      .select()
+      .single()
+
+    if (error || !job) {
+      throw new Error(`Failed to ${action} backfill ${jobId}: ${error?.message || 'job is not in a state that allows it'}`)
+    }
+
+    if (action === 'cancel') {
+      await supabase
+        .from('refresh_checkpoints')
+        .update({ status: 'cancelled', updated_at: now })
+        .eq('backfill_job_id', jobId)
+        .eq('status', 'pending')
+    } else if (action === 'resume') {
+      await supabase
+        .from('refresh_checkpoints')
+        .update({ status: 'pending', attempts: 0, error_message: null, updated_at: now })
+        .eq('backfill_job_id', jobId)
+        .eq('status', 'failed')
+    }
+
+    return job
+  }
+
+  /**
+   * Runs every job that is currently running, one after another.
+   */
+  async runOnce(): Promise<BackfillRunResult[]> {
+    const { data: jobs, error } = await this.getSupabaseClient()
+      .from('backfill_jobs')
+      .select('id')
+      .eq('status', 'running')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load running backfill jobs: ${error.message}`)
+    }
+
+    const results: BackfillRunResult[] = []
+    for (const job of jobs || []) {
+      results.push(await this.runJob(job.id))
+    }
+    return results
+  }
+
+  /**
+   * Claims and runs chunks of a job until none are left, keeping up to the
+   * job's max_concurrency running. The claim function applies the same limit
+   * across workers.
+   */
+  async runJob(jobId: number): Promise<BackfillRunResult> {
+    const processed: ProcessedChunk[] = []
+    const job = await this.getJob(jobId)
+    if (!job) {
+      return { jobId, workerId: this.workerId, processed, status: null }
+    }
+
+    const deadline = this.options.maxDurationMs ? Date.now() + this.options.maxDurationMs : Infinity
+    const running = new Set<Promise<void>>()
+
+    while (true) {
+      const slots = job.max_concurrency - running.size
+      if (slots > 0 && Date.now() < deadline) {
+        const chunks = await this.claimChunks(jobId, slots)
+        chunks.forEach(chunk => {
+          const task: Promise<void> = this.runChunk(job, chunk)
+            .then(result => {
+              processed.push(result)
+            })
+            .finally(() => {
+              running.delete(task)
+            })
+          running.add(task)
+        })
+      }
+
+      if (running.size === 0) break
+      await Promise.race(running)
+    }
+
+    return { jobId, workerId: this.workerId, processed, status: await this.finalizeJob(jobId) }
+  }
+
+  private async claimChunks(jobId: number, limit: number): Promise<BackfillChunk[]> {
+    const { data, error } = await this.getSupabaseClient().rpc('claim_backfill_chunks', {
+      p_job_id: jobId,
+      p_worker_id: this.workerId,
+      p_limit: limit,
+      p_lock_timeout_minutes: this.options.lockTimeoutMinutes
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim backfill chunks: ${error.message}`)
+    }
+    return data || []
+  }
+
+  private async runChunk(job: BackfillJob, chunk: BackfillChunk): Promise<ProcessedChunk> {
+    const summary = { chunkId: chunk.id, table: chunk.table_name, weekStart: chunk.chunk_start }
+    const resumeFromRow = chunk.last_processed_row || 0
+
+    // Reclaimed from a stopped worker after the last allowed attempt
+    if (chunk.attempts > job.max_attempts) {
+      const error = `Gave up after ${job.max_attempts} attempts`
+      await this.releaseChunk(chunk.id, { status: 'failed', error_message: error })
+      return { ...summary, status: 'failed', rowsProcessed: 0, error }
+    }
+
+    // Set by onBatch when the job is paused or cancelled mid-chunk
+    let stoppedBy = null as BackfillJobStatus | null
+    const result = await this.getSyncService().syncWindow(
+      chunk.table_name,
+      { start: chunk.chunk_start, end: chunk.chunk_end },
+      {
+        batchSize: this.options.batchSize,
+        resumeFromRow,
+        onBatch: async committedRows => {
+          const status = await this.saveChunkProgress(job.id, chunk.id, committedRows)
+          if (status !== 'running') {
+            stoppedBy = status
+            return false
+          }
+        }
+      }
+    )
+
+    const committedRows = resumeFromRow + result.rowsProcessed
+
+    if (result.success && result.interrupted) {
+      // Paused chunks keep their progress and go back in the queue
+      const paused = stoppedBy === 'paused'
+      await this.releaseChunk(chunk.id, { status: paused ? 'pending' : 'cancelled', last_processed_row: committedRows })
+      return { ...summary, status: paused ? 'paused' : 'cancelled', rowsProcessed: result.rowsProcessed }
+    }
+
+    if (result.success) {
+      await this.releaseChunk(chunk.id, {
+        status: 'completed',
+        last_processed_row: committedRows,
+        total_rows: committedRows,
+        error_message: null
+      })
+      return { ...summary, status: 'completed', rowsProcessed: result.rowsProcessed }
+    }
+
+    // Batches committed before the failure are kept in last_processed_row by onBatch
+    const retry = chunk.attempts < job.max_attempts
+    await this.releaseChunk(chunk.id, { status: retry ? 'pending' : 'failed', error_message: result.error || 'Unknown error' })
+    return { ...summary, status: retry ? 'retrying' : 'failed', rowsProcessed: 0, error: result.error }
+  }
+
+  // Records a committed batch, refreshes the lock and returns the job's current status
+  private async saveChunkProgress(jobId: number, chunkId: number, committedRows: number): Promise<BackfillJobStatus | null> {
+    const supabase = this.getSupabaseClient()
+    const now = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('refresh_checkpoints')
+      .update({ last_processed_row: committedRows, locked_at: now, updated_at: now })
+      .eq('id', chunkId)
+      .eq('locked_by', this.workerId)
+
+    if (error) {
+      throw new Error(`Failed to save backfill progress: ${error.message}`)
+    }
+
+    const { data: job } = await supabase
+      .from('backfill_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single()
+
+    return job?.status || null
+  }
+
+  private async releaseChunk(chunkId: number, fields: Record<string, any>) {
+    await this.getSupabaseClient()
+      .from('refresh_checkpoints')
+      .update({ ...fields, locked_by: null, locked_at: null, updated_at: new Date().toISOString() })
+      .eq('id', chunkId)
+      .eq('locked_by', this.workerId)
+  }
+
+  // Marks a running job completed or failed once none of its chunks are left to run
+  private async finalizeJob(jobId: number): Promise<BackfillJobStatus | null> {
+    const job = await this.getJob(jobId)
+    if (!job || job.status !== 'running') return job?.status || null
+
+    const chunks = await this.getChunks([jobId])
+    if (chunks.some(chunk => chunk.status === 'pending' || chunk.status === 'running')) {
+      return job.status
+    }
+
+    const failed = chunks.filter(chunk => chunk.status === 'failed').length
+    const status: BackfillJobStatus = failed > 0 ? 'failed' : 'completed'
+    const now = new Date().toISOString()
+
+    await this.getSupabaseClient()
+      .from('backfill_jobs')
+      .update({
+        status,
+        error_message: failed > 0 ? `${failed} of ${chunks.length} chunks failed` : null,
+        completed_at: now,
+        updated_at: now
+      })
+      .eq('id', jobId)
+      .eq('status', 'running')
+
+    return status
+  }
+
+  private async getChunks(jobIds: number[]): Promise<BackfillChunk[]> {
+    const chunks: BackfillChunk[] = []
+    for (let offset = 0; ; offset += CHUNK_PAGE_SIZE) {
+      const { data, error } = await this.getSupabaseClient()
+        .from('refresh_checkpoints')
+        .select('id, backfill_job_id, table_name, chunk_start, chunk_end, status, attempts, last_processed_row, total_rows, error_message, locked_by, locked_at, updated_at')
+        .in('backfill_job_id', jobIds)
+        .order('id', { ascending: true })
+        .range(offset, offset + CHUNK_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load backfill chunks: ${error.message}`)
+      }
+      chunks.push(...(data || []))
+      if (!data || data.length < CHUNK_PAGE_SIZE) return chunks
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,363 @@
+import { BigQuery } from '@google-cloud/bigquery'
+import { createClient } from '@supabase/supabase-js'
+import { getBigQueryConfig } from '../../config/bigquery.config'
+import { getFileBigQueryClient } from '../../config/bigquery-file-auth.config'
+import { getSupabaseConfig } from '../../config/supabase.config'
+import { BigQuerySyncService, SyncResult, SyncServiceDeps } from './sync-service'
+
+export interface ReconciliationMetrics {
+  // Distinct dates, i.e. expected asin_performance_data rows
+  asin_rows: number
+  // Distinct date/search query pairs, i.e. expected search_query_performance rows
+  query_rows: number
+  impressions: number
+  clicks: number
+  cart_adds: number
+  purchases: number
+}
+
+export type ReconciliationMetric = keyof ReconciliationMetrics
+
+export interface ReconciliationSlice {
+  week_start: string
+  week_end: string
+  asin: string
+  // 'missing': only in BigQuery, 'extra': only in Supabase
+  status: 'match' | 'mismatch' | 'missing' | 'extra'
+  source: ReconciliationMetrics
+  target: ReconciliationMetrics
+  differences: ReconciliationMetric[]
+}
+
+export interface ReconciliationWeek {
+  week_start: string
+  week_end: string
+  asins: number
+  mismatched_asins: number
+  source: ReconciliationMetrics
+  target: ReconciliationMetrics
+}
+
+export interface ReconciliationReport {
+  start: string
+  end: string
+  generated_at: string
+  weeks: ReconciliationWeek[]
+  // Only slices that differ; matching slices are summarised in weeks
+  mismatches: ReconciliationSlice[]
+  summary: {
+    slices: number
+    mismatched_slices: number
+    mismatched_weeks: string[]
+  }
+}
+
+export interface ReconciliationOptions {
+  start: string
+  end: string
+  asins?: string[]
+}
+
+export interface ResyncSlice {
+  week_start: string
+  asin: string
+}
+
+export interface ResyncResult {
+  week_start: string
+  week_end: string
+  asins: string[]
+  result: SyncResult
+}
+
+export interface ReconciliationDeps extends SyncServiceDeps {
+  syncService?: BigQuerySyncService
+}
+
+const METRICS: ReconciliationMetric[] = ['asin_rows', 'query_rows', 'impressions', 'clicks', 'cart_adds', 'purchases']
+
+// Rows fetched per page from Supabase, and the most read for one report
+const PAGE_SIZE = 1000
+const MAX_ROWS = 200000
+
+// ASINs resynced per sync call, so each replaced slice stays small
+const RESYNC_ASIN_BATCH = 25
+
+const emptyMetrics = (): ReconciliationMetrics => ({
+  asin_rows: 0,
+  query_rows: 0,
+  impressions: 0,
+  clicks: 0,
+  cart_adds: 0,
+  purchases: 0
+})
+
+function toDateString(value: any): string | null {
+  const raw = value?.value || value
+  if (!raw) return null
+  return typeof raw === 'string' ? raw.split('T')[0] : new Date(raw).toISOString().split('T')[0]
+}
+
+function shiftDate(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+// Reporting weeks start on Sunday
+export function weekStartOf(date: string): string {
+  return shiftDate(date, -new Date(`${date}T00:00:00Z`).getUTCDay())
+}
+
+const sliceKey = (weekStart: string, asin: string) => `${weekStart}|${asin}`
+
+function addMetrics(total: ReconciliationMetrics, metrics: ReconciliationMetrics) {
+  METRICS.forEach(metric => {
+    total[metric] += metrics[metric]
+  })
+}
+
+/**
+ * Joins per-slice metrics from both sides. Every metric is an exact count, so
+ * any difference marks the slice as mismatched.
+ */
+export function compareSlices(
+  source: Map<string, ReconciliationMetrics>,
+  target: Map<string, ReconciliationMetrics>
+): ReconciliationSlice[] {
+  const keys = Array.from(new Set([...source.keys(), ...target.keys()])).sort()
+
+  return keys.map(key => {
+    const [weekStart, asin] = key.split('|')
+    const sourceMetrics = source.get(key) || emptyMetrics()
+    const targetMetrics = target.get(key) || emptyMetrics()
+    const differences = METRICS.filter(metric => sourceMetrics[metric] !== targetMetrics[metric])
+
+    let status: ReconciliationSlice['status'] = differences.length > 0 ? 'mismatch' : 'match'
+    if (!target.has(key)) status = 'missing'
+    if (!source.has(key)) status = 'extra'
+
+    return {
+      week_start: weekStart,
+      week_end: shiftDate(weekStart, 6),
+      asin,
+      status,
+      source: sourceMetrics,
+      target: targetMetrics,
+      differences
+    }
+  })
+}
+
+export function buildReport(
+  { start, end }: ReconciliationOptions,
+  slices: ReconciliationSlice[]
+): ReconciliationReport {
+  const weeks = new Map<string, ReconciliationWeek>()
+
+  slices.forEach(slice => {
+    if (!weeks.has(slice.week_start)) {
+      weeks.set(slice.week_start, {
+        week_start: slice.week_start,
+        week_end: slice.week_end,
+        asins: 0,
+        mismatched_asins: 0,
+        source: emptyMetrics(),
+        target: emptyMetrics()
+      })
+    }
+    const week = weeks.get(slice.week_start)!
+    week.asins += 1
+    if (slice.status !== 'match') week.mismatched_asins += 1
+    addMetrics(week.source, slice.source)
+    addMetrics(week.target, slice.target)
+  })
+
+  const mismatches = slices.filter(slice => slice.status !== 'match')
+  const orderedWeeks = Array.from(weeks.values()).sort((a, b) => a.week_start.localeCompare(b.week_start))
+
+  return {
+    start,
+    end,
+    generated_at: new Date().toISOString(),
+    weeks: orderedWeeks,
+    mismatches,
+    summary: {
+      slices: slices.length,
+      mismatched_slices: mismatches.length,
+      mismatched_weeks: orderedWeeks.filter(week => week.mismatched_asins > 0).map(week => week.week_start)
+    }
+  }
+}
+
+/**
+ * Compares the BigQuery source with what the sync has written to
+ * sqp.asin_performance_data and sqp.search_query_performance, one slice per
+ * reporting week (Sunday start) and ASIN, and resyncs mismatched slices.
+ */
+export class ReconciliationService {
+  private bigquery: BigQuery
+  private supabase: any
+  private syncService: BigQuerySyncService
+
+  constructor(deps: ReconciliationDeps = {}) {
+    this.bigquery = deps.bigquery || getFileBigQueryClient()
+
+    if (deps.supabase) {
+      this.supabase = deps.supabase
+    } else {
+      const supabaseConfig = getSupabaseConfig()
+      this.supabase = createClient(
+        supabaseConfig.url,
+        supabaseConfig.serviceRoleKey || supabaseConfig.anonKey
+      )
+    }
+
+    this.syncService = deps.syncService || new BigQuerySyncService({ bigquery: this.bigquery, supabase: this.supabase })
+  }
+
+  async reconcile(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    const [source, target] = await Promise.all([
+      this.loadSourceMetrics(options),
+      this.loadTargetMetrics(options)
+    ])
+
+    return buildReport(options, compareSlices(source, target))
+  }
+
+  /**
+   * Resyncs search_query_performance (and the parent asin_performance_data
+   * rows it needs) for each slice, one sync per week and batch of up to
+   * RESYNC_ASIN_BATCH of that week's ASINs. Existing rows in the slice are
+   * replaced, not appended to.
+   */
+  async resync(slices: ResyncSlice[]): Promise<ResyncResult[]> {
+    const byWeek = new Map<string, Set<string>>()
+    slices.forEach(slice => {
+      const weekStart = weekStartOf(slice.week_start)
+      if (!byWeek.has(weekStart)) byWeek.set(weekStart, new Set())
+      byWeek.get(weekStart)!.add(slice.asin)
+    })
+
+    const results: ResyncResult[] = []
+    for (const weekStart of Array.from(byWeek.keys()).sort()) {
+      const weekAsins = Array.from(byWeek.get(weekStart)!).sort()
+      const weekEnd = shiftDate(weekStart, 6)
+      for (let i = 0; i < weekAsins.length; i += RESYNC_ASIN_BATCH) {
+        const asins = weekAsins.slice(i, i + RESYNC_ASIN_BATCH)
+        const result = await this.syncService.syncTable('search_query_performance', {
+          tableSchema: 'sqp',
+          dateRange: { start: weekStart, end: weekEnd },
+          asins,
+          replace: true
+        })
+        results.push({ week_start: weekStart, week_end: weekEnd, asins, result })
+      }
+    }
+    return results
+  }
+
+  private async loadSourceMetrics({ start, end, asins }: ReconciliationOptions): Promise<Map<string, ReconciliationMetrics>> {
+    const config = getBigQueryConfig()
+    const asinFilter = asins && asins.length > 0
+      ? `AND COALESCE(\`Parent ASIN\`, \`Child ASIN\`) IN (${asins.map(asin => `'${asin.replace(/[^A-Za-z0-9]/g, '')}'`).join(', ')})`
+      : ''
+
+    // Keyed the same way transformData keys rows, so both sides group alike
+    const query = `
+      SELECT
+        DATE_TRUNC(DATE(\`Date\`), WEEK(SUNDAY)) AS week_start,
+        COALESCE(\`Parent ASIN\`, \`Child ASIN\`) AS asin,
+        COUNT(DISTINCT DATE(\`Date\`)) AS asin_rows,
+        COUNT(DISTINCT CONCAT(CAST(DATE(\`Date\`) AS STRING), '|', IFNULL(\`Search Query\`, ''))) AS query_rows,
+        SUM(IFNULL(\`ASIN Impression Count\`, 0)) AS impressions,
+        SUM(IFNULL(\`ASIN Click Count\`, 0)) AS clicks,
+        SUM(IFNULL(\`ASIN Cart Add Count\`, 0)) AS cart_adds,
+        SUM(IFNULL(\`ASIN Purchase Count\`, 0)) AS purchases
+      FROM \`${config.projectId}.${config.datasets.production}.seller-search_query_performance\`
+      WHERE DATE(\`Date\`) BETWEEN '${start}' AND '${end}'
+        AND (\`Parent ASIN\` IS NOT NULL OR \`Child ASIN\` IS NOT NULL)
+        ${asinFilter}
+      GROUP BY week_start, asin
+    `
+
+    const [rows] = await this.bigquery.query({ query, location: config.location || 'US' })
+
+    const metrics = new Map<string, ReconciliationMetrics>()
+    rows.forEach((row: any) => {
+      const weekStart = toDateString(row.week_start)
+      if (!weekStart || !row.asin) return
+      metrics.set(sliceKey(weekStart, row.asin), {
+        asin_rows: Number(row.asin_rows) || 0,
+        query_rows: Number(row.query_rows) || 0,
+        impressions: Number(row.impressions) || 0,
+        clicks: Number(row.clicks) || 0,
+        cart_adds: Number(row.cart_adds) || 0,
+        purchases: Number(row.purchases) || 0
+      })
+    })
+    return metrics
+  }
+
+  private async loadTargetMetrics(options: ReconciliationOptions): Promise<Map<string, ReconciliationMetrics>> {
+    const metrics = new Map<string, ReconciliationMetrics>()
+    const slice = (row: any) => {
+      const date = toDateString(row.start_date)
+      if (!date || !row.asin) return null
+      const key = sliceKey(weekStartOf(date), row.asin)
+      if (!metrics.has(key)) metrics.set(key, emptyMetrics())
+      return metrics.get(key)!
+    }
+
+    const asinRows = await this.loadRows('asin_performance_data', 'asin, start_date', options)
+    asinRows.forEach(row => {
+      const total = slice(row)
+      if (total) total.asin_rows += 1
+    })
+
+    const queryRows = await this.loadRows(
+      'search_query_performance',
+      'asin, start_date, asin_impression_count, asin_click_count, asin_cart_add_count, asin_purchase_count',
+      options
+    )
+    queryRows.forEach(row => {
+      const total = slice(row)
+      if (!total) return
+      total.query_rows += 1
+      total.impressions += Number(row.asin_impression_count) || 0
+      total.clicks += Number(row.asin_click_count) || 0
+      total.cart_adds += Number(row.asin_cart_add_count) || 0
+      total.purchases += Number(row.asin_purchase_count) || 0
+    })
+
+    return metrics
+  }
+
+  private async loadRows(tableName: string, columns: string, { start, end, asins }: ReconciliationOptions): Promise<any[]> {
+    const rows: any[] = []
+    for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+      let query = this.supabase
+        .from(tableName)
+        .select(columns)
+        .gte('start_date', start)
+        .lte('start_date', end)
+
+      if (asins && asins.length > 0) {
+        query = query.in('asin', asins)
+      }
+
+      const { data, error } = await query
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to read ${tableName}: ${error.message}`)
+      }
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) return rows
+    }
+
+    throw new Error(`${tableName} has more than ${MAX_ROWS} rows in ${start} to ${end}; narrow the date range`)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { stringify } from 'csv-stringify/sync'
+
+export interface SyncColumnChange {
+  column: string
+  before: any
+  after: any
+}
+
+export interface SyncRowUpdate {
+  key: Record<string, any>
+  changes: SyncColumnChange[]
+}
+
+export interface SyncDiff {
+  table: string
+  window: { start: string; end: string }
+  keyColumns: string[]
+  sourceRows: number
+  summary: {
+    inserts: number
+    updates: number
+    unchanged: number
+    missingFromSource: number
+  }
+  // Number of updated rows each column changes in
+  changedColumns: Record<string, number>
+  // Up to sampleSize rows of each kind
+  samples: {
+    inserts: Record<string, any>[]
+    updates: SyncRowUpdate[]
+    missingFromSource: Record<string, any>[]
+  }
+  // True when the real run would delete the rows missing from the source (replace or truncate)
+  deletesMissing: boolean
+}
+
+export interface DiffOptions {
+  table: string
+  window: { start: string; end: string }
+  keyColumns: string[]
+  sampleSize?: number
+  deletesMissing?: boolean
+}
+
+const DEFAULT_SAMPLE_SIZE = 20
+
+// Supabase returns numerics as strings and timestamps with a time part
+function normalizeValue(value: any): any {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'string') {
+    if (/^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(value)) return Number(value)
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return value.split('T')[0]
+  }
+  return value
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  const left = normalizeValue(a)
+  const right = normalizeValue(b)
+  if (typeof left === 'number' && typeof right === 'number') {
+    return Math.abs(left - right) <= 1e-9 * Math.max(1, Math.abs(left), Math.abs(right))
+  }
+  return left === right
+}
+
+function rowKey(row: Record<string, any>, keyColumns: string[]): string {
+  return keyColumns.map(column => normalizeValue(row[column])).join('|')
+}
+
+function pickKey(row: Record<string, any>, keyColumns: string[]): Record<string, any> {
+  return Object.fromEntries(keyColumns.map(column => [column, normalizeValue(row[column])]))
+}
+
+/**
+ * Compares transformed source rows with the rows already in Supabase. Only the
+ * columns the sync writes are compared; ids and timestamps on existing rows are
+ * ignored. Later source rows win when a key repeats, as they do on upsert.
+ */
+export function diffRecords(incoming: Record<string, any>[], existing: Record<string, any>[], options: DiffOptions): SyncDiff {
+  const { table, window, keyColumns, sampleSize = DEFAULT_SAMPLE_SIZE, deletesMissing = false } = options
+
+  const source = new Map<string, Record<string, any>>()
+  incoming.forEach(row => source.set(rowKey(row, keyColumns), row))
+
+  const current = new Map<string, Record<string, any>>()
+  existing.forEach(row => current.set(rowKey(row, keyColumns), row))
+
+  const diff: SyncDiff = {
+    table,
+    window,
+    keyColumns,
+    sourceRows: incoming.length,
+    summary: { inserts: 0, updates: 0, unchanged: 0, missingFromSource: 0 },
+    changedColumns: {},
+    samples: { inserts: [], updates: [], missingFromSource: [] },
+    deletesMissing
+  }
+
+  source.forEach((row, key) => {
+    const before = current.get(key)
+    if (!before) {
+      diff.summary.inserts += 1
+      if (diff.samples.inserts.length < sampleSize) diff.samples.inserts.push(row)
+      return
+    }
+
+    const changes = Object.keys(row)
+      .filter(column => !keyColumns.includes(column) && !valuesEqual(before[column], row[column]))
+      .map(column => ({ column, before: normalizeValue(before[column]), after: normalizeValue(row[column]) }))
+
+    if (changes.length === 0) {
+      diff.summary.unchanged += 1
+      return
+    }
+
+    diff.summary.updates += 1
+    changes.forEach(({ column }) => {
+      diff.changedColumns[column] = (diff.changedColumns[column] || 0) + 1
+    })
+    if (diff.samples.updates.length < sampleSize) {
+      diff.samples.updates.push({ key: pickKey(row, keyColumns), changes })
+    }
+  })
+
+  current.forEach((row, key) => {
+    if (source.has(key)) return
+    diff.summary.missingFromSource += 1
+    if (diff.samples.missingFromSource.length < sampleSize) diff.samples.missingFromSource.push(row)
+  })
+
+  return diff
+}
+
+/**
+ * Flattens the sampled rows of one or more diffs into CSV, one line per changed
+ * column for updates and one line per row for inserts and missing rows.
+ */
+export function syncDiffToCsv(diffs: SyncDiff[]): string {
+  const records: any[][] = []
+
+  diffs.forEach(diff => {
+    const key = (row: Record<string, any>) => diff.keyColumns.map(column => normalizeValue(row[column])).join(' / ')
+
+    diff.samples.inserts.forEach(row => {
+      records.push([diff.table, 'insert', key(row), '', '', JSON.stringify(row)])
+    })
+    diff.samples.updates.forEach(update => {
+      update.changes.forEach(change => {
+        records.push([diff.table, 'update', key(update.key), change.column, change.before, change.after])
+      })
+    })
+    diff.samples.missingFromSource.forEach(row => {
+      records.push([diff.table, diff.deletesMissing ? 'delete' : 'missing_from_source', key(row), '', JSON.stringify(row), ''])
+    })
+  })
+
+  return stringify(records, {
+    header: true,
+    columns: ['table', 'change', 'key', 'column', 'before', 'after']
+  })
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js'
 import { getBigQueryConfig } from '../../config/bigquery.config'
 import { getFileBigQueryClient } from '../../config/bigquery-file-auth.config'
 import { getSupabaseConfig } from '../../config/supabase.config'
+import { recordDataQuality } from '../../lib/refresh/data-quality'
+import { diffRecords, SyncDiff } from './sync-diff'
 
 export interface SyncResult {
   success: boolean
@@ -10,38 +12,126 @@ export interface SyncResult {
   rowsProcessed: number
   error?: string
   duration: number
+  // Set by incremental syncs
+  watermark?: string | null
+  window?: { start: string; end: string }
+  resumedFromRow?: number
+  // Data quality checks outside their thresholds; the audit log row is marked 'warning'
+  dataQualityWarnings?: string[]
+  // Set when onBatch stopped a window sync before the window was finished
+  interrupted?: boolean
+  // Set by dry runs, which write nothing
+  dryRun?: boolean
+  diff?: SyncDiff
+}
+
+export interface SyncOptions {
+  batchSize?: number
+  dateRange?: { start: string; end: string }
+  truncate?: boolean
+  tableSchema?: string
+  // Pull only rows after the stored high-water mark (minus the lookback window)
+  incremental?: boolean
+  // Overrides sync_watermarks.lookback_days for this run
+  lookbackDays?: number
+  // Only pull these ASINs (parent ASIN, or child ASIN when there is no parent)
+  asins?: string[]
+  // Delete the table's rows in dateRange (and asins) before inserting, so a slice can be resynced in place
+  replace?: boolean
+  // Run the source query and transformation, then return a diff against Supabase instead of writing
+  dryRun?: boolean
+  // Rows of each change kind kept as samples in the dry-run diff
+  diffSampleSize?: number
+}
+
+export interface WindowSyncOptions {
+  batchSize?: number
+  // Rows of the window already committed by an earlier attempt
+  resumeFromRow?: number
+  // Called after each committed batch with the rows committed so far; return false to stop
+  onBatch?: (committedRows: number) => Promise<boolean | void>
+}
+
+export interface SyncServiceDeps {
+  bigquery?: BigQuery
+  supabase?: any
+}
+
+// Tables that are maintained in Supabase and never pulled from BigQuery
+const NON_BIGQUERY_TABLES = ['brands', 'asin_brand_mapping', 'brand_hierarchy', 'sync_log', 'data_quality_checks']
+
+// Checkpoint owner name in refresh_checkpoints
+const CHECKPOINT_FUNCTION_NAME = 'bigquery-sync'
+const CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000
+
+// Used when a table has no watermark yet (matches the full-pull default)
+const DEFAULT_INITIAL_DAYS = 30
+const DEFAULT_LOOKBACK_DAYS = 7
+
+// Page size when reading existing rows for a dry-run diff or a replaced slice
+const DIFF_PAGE_SIZE = 1000
+
+function toDateString(value: any): string | null {
+  const raw = value?.value || value
+  if (!raw) return null
+  return typeof raw === 'string' ? raw.split('T')[0] : new Date(raw).toISOString().split('T')[0]
+}
+
+function shiftDate(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+function laterDate(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a) return b || null
+  if (!b) return a
+  return a > b ? a : b
+}
+
+// Restricts a source query to the given ASINs, matching how rows are keyed on transform
+function asinCondition(asins?: string[]): string {
+  if (!asins || asins.length === 0) return ''
+  const list = asins.map(asin => `'${asin.replace(/[^A-Za-z0-9]/g, '')}'`).join(', ')
+  return `AND COALESCE(\`Parent ASIN\`, \`Child ASIN\`) IN (${list})`
 }
 
 export class BigQuerySyncService {
   private bigquery: BigQuery
   private supabase: any
   
-  constructor() {
+  constructor(deps: SyncServiceDeps = {}) {
     // Use the file-based BigQuery client which is more reliable in production
-    this.bigquery = getFileBigQueryClient()
+    this.bigquery = deps.bigquery || getFileBigQueryClient()
     
-    const supabaseConfig = getSupabaseConfig()
-    this.supabase = createClient(
-      supabaseConfig.url,
-      supabaseConfig.serviceRoleKey || supabaseConfig.anonKey
-    )
+    if (deps.supabase) {
+      this.supabase = deps.supabase
+    } else {
+      const supabaseConfig = getSupabaseConfig()
+      this.supabase = createClient(
+        supabaseConfig.url,
+        supabaseConfig.serviceRoleKey || supabaseConfig.anonKey
+      )
+    }
   }
   
-  async syncTable(tableName: string, options: {
-    batchSize?: number
-    dateRange?: { start: string; end: string }
-    truncate?: boolean
-    tableSchema?: string
-  } = {}): Promise<SyncResult> {
+  async syncTable(tableName: string, options: SyncOptions = {}): Promise<SyncResult> {
+    if (options.dryRun) {
+      return this.previewSync(tableName, options)
+    }
+    
+    if (options.incremental && !options.dateRange) {
+      return this.syncTableIncremental(tableName, options)
+    }
+    
     const startTime = Date.now()
-    const { batchSize = 1000, dateRange, truncate = false, tableSchema = 'sqp' } = options
+    const { batchSize = 1000, dateRange, truncate = false, tableSchema = 'sqp', asins, replace = false } = options
     
     try {
       console.log(`Starting sync for table: ${tableSchema}.${tableName}`)
       
       // Skip tables that shouldn't be synced from BigQuery
-      const skipTables = ['brands', 'asin_brand_mapping', 'brand_hierarchy', 'sync_log', 'data_quality_checks']
-      if (skipTables.includes(tableName)) {
+      if (NON_BIGQUERY_TABLES.includes(tableName)) {
         console.log(`Skipping ${tableName} - this table is not synced from BigQuery`)
         return {
           success: true,
@@ -54,7 +144,7 @@ export class BigQuerySyncService {
       // For search_query_performance, we need to ensure parent records exist first
       if (tableName === 'search_query_performance') {
         console.log('Syncing search_query_performance - ensuring parent records exist...')
-        await this.ensureParentRecords(dateRange)
+        await this.ensureParentRecords(dateRange, asins)
       } else if (tableName === 'asin_performance_data') {
         console.log('Syncing asin_performance_data - this will create parent records')
         // When syncing asin_performance_data, we'll create the parent records
@@ -93,7 +183,7 @@ export class BigQuerySyncService {
       
       try {
         // Build BigQuery query based on table type
-        const query = this.buildQuery(tableName, dateRange)
+        const query = this.buildQuery(tableName, dateRange, asins)
         console.log(`Executing query: ${query}`)
         
         // Execute BigQuery query
@@ -107,7 +197,10 @@ export class BigQuerySyncService {
           console.log('Query options:', queryOptions)
           
           const startQueryTime = Date.now()
-          ;[rows] = await this.bigquery.query(queryOptions)
+          // A replaced slice is read in full, since its rows are deleted before the reload
+          ;[rows] = replace && dateRange
+            ? [await this.fetchSliceRows(dateRange, asins, batchSize, queryOptions.location)]
+            : await this.bigquery.query(queryOptions)
           const queryDuration = Date.now() - startQueryTime
           
           console.log(`✅ BigQuery query completed in ${queryDuration}ms`)
@@ -131,7 +224,10 @@ export class BigQuerySyncService {
           throw queryError
         }
         
-        if (rows.length === 0) {
+        // A replaced slice still has to drop its stale rows when BigQuery returns nothing
+        const replacing = replace && !!dateRange
+        
+        if (rows.length === 0 && !replacing) {
           await this.updateAuditLog(auditLogId, 'success', 0)
           return {
             success: true,
@@ -157,6 +253,9 @@ export class BigQuerySyncService {
           }
         }
         
+        // Conflict keys written by a replace; anything else in the slice is stale afterwards
+        const keptKeys = new Set<string>()
+        
         // Insert in batches
         for (let i = 0; i < rows.length; i += batchSize) {
           const batch = rows.slice(i, i + batchSize)
@@ -169,10 +268,19 @@ export class BigQuerySyncService {
             transformedBatch = await this.resolveParentIds(transformedBatch)
           }
           
-          // Insert batch
-          const { error: insertError } = await this.supabase
-            .from(tableName)
-            .insert(transformedBatch)
+          // Replaced slices are upserted in place so a failed batch never leaves the slice empty
+          let insertError
+          if (replacing) {
+            const records = this.dedupeByConflictKey(tableName, transformedBatch)
+            records.forEach(record => keptKeys.add(this.conflictKey(tableName, record)))
+            ;({ error: insertError } = await this.supabase
+              .from(tableName)
+              .upsert(records, { onConflict: this.getConflictColumns(tableName) }))
+          } else {
+            ;({ error: insertError } = await this.supabase
+              .from(tableName)
+              .insert(transformedBatch))
+          }
           
           if (insertError) {
             throw new Error(`Insert failed at batch ${i / batchSize}: ${insertError.message}`)
@@ -182,15 +290,22 @@ export class BigQuerySyncService {
           console.log(`Processed ${totalProcessed}/${rows.length} rows`)
         }
         
+        // Only once every batch has landed are rows that no longer exist in BigQuery removed
+        if (replacing) {
+          await this.deleteStaleRows(tableName, dateRange!, keptKeys, asins)
+        }
+        
         // Update audit log and config
-        await this.updateAuditLog(auditLogId, 'success', totalProcessed)
+        const quality = await recordDataQuality(this.supabase, tableName, auditLogId)
+        await this.updateAuditLog(auditLogId, quality.breached.length > 0 ? 'warning' : 'success', totalProcessed)
         await this.updateRefreshConfig(refreshConfig.id)
         
         return {
           success: true,
           table: tableName,
           rowsProcessed: totalProcessed,
-          duration: Date.now() - startTime
+          duration: Date.now() - startTime,
+          dataQualityWarnings: quality.breached.map(check => check.metric_name)
         }
         
       } catch (error) {
@@ -210,7 +325,513 @@ export class BigQuerySyncService {
     }
   }
   
-  private buildQuery(tableName: string, dateRange?: { start: string; end: string }): string {
+  /**
+   * Pulls only rows on or after (high-water mark - lookback days), upserting them
+   * batch by batch. Progress is checkpointed after every batch so a failed run
+   * resumes from the last committed batch, and the watermark only advances once
+   * the whole window has been committed.
+   */
+  async syncTableIncremental(tableName: string, options: SyncOptions = {}): Promise<SyncResult> {
+    const startTime = Date.now()
+    const { batchSize = 1000, tableSchema = 'sqp', lookbackDays } = options
+    let auditLogId: number | undefined
+    
+    try {
+      console.log(`Starting incremental sync for table: ${tableSchema}.${tableName}`)
+      
+      if (NON_BIGQUERY_TABLES.includes(tableName)) {
+        console.log(`Skipping ${tableName} - this table is not synced from BigQuery`)
+        return {
+          success: true,
+          table: tableName,
+          rowsProcessed: 0,
+          duration: Date.now() - startTime
+        }
+      }
+      
+      const { data: refreshConfig, error: configError } = await this.supabase
+        .from('refresh_config')
+        .select('*')
+        .eq('table_schema', tableSchema)
+        .eq('table_name', tableName)
+        .single()
+      
+      if (configError || !refreshConfig) {
+        throw new Error(`Table configuration not found for ${tableName}`)
+      }
+      
+      const watermark = await this.getWatermark(tableSchema, tableName)
+      const checkpoint = await this.getActiveCheckpoint(tableSchema, tableName)
+      
+      // An interrupted run is resumed with its original window so batch offsets still line up
+      const window: { start: string; end: string } = checkpoint?.checkpoint_data?.window ||
+        this.getIncrementalWindow(
+          watermark?.high_water_mark,
+          lookbackDays ?? watermark?.lookback_days ?? DEFAULT_LOOKBACK_DAYS
+        )
+      const resumedFromRow: number = checkpoint?.last_processed_row || 0
+      let offset = resumedFromRow
+      let maxDate: string | null = checkpoint?.checkpoint_data?.max_date || null
+      let checkpointId: number | undefined = checkpoint?.id
+      
+      if (checkpoint) {
+        console.log(`Resuming ${tableName} from checkpoint at row ${offset} (${window.start} to ${window.end})`)
+      } else {
+        console.log(`Syncing ${tableName} from ${window.start} to ${window.end} (watermark: ${watermark?.high_water_mark || 'none'})`)
+      }
+      
+      const { data: auditLog } = await this.supabase
+        .from('refresh_audit_log')
+        .insert({
+          table_schema: refreshConfig.table_schema,
+          table_name: tableName,
+          status: 'in_progress',
+          refresh_started_at: new Date().toISOString(),
+          refresh_type: 'incremental_sync'
+        })
+        .select()
+        .single()
+      
+      auditLogId = auditLog?.id
+      
+      await this.saveWatermark(tableSchema, tableName, {
+        refresh_config_id: refreshConfig.id,
+        last_run_started_at: new Date().toISOString()
+      })
+      
+      if (tableName === 'search_query_performance') {
+        await this.ensureParentRecords(window)
+      }
+      
+      const committed = await this.upsertWindow(
+        tableName,
+        window,
+        { batchSize, offset, maxDate, location: refreshConfig.location || 'US' },
+        async (committedRows, latestDate) => {
+          checkpointId = await this.saveCheckpoint(checkpointId, tableSchema, tableName, {
+            window,
+            max_date: latestDate,
+            batch_size: batchSize
+          }, committedRows)
+        }
+      )
+      offset = committed.offset
+      maxDate = committed.maxDate
+      const totalProcessed = committed.offset - resumedFromRow
+      
+      const newWatermark = laterDate(watermark?.high_water_mark, maxDate)
+      
+      await this.saveWatermark(tableSchema, tableName, {
+        refresh_config_id: refreshConfig.id,
+        high_water_mark: newWatermark,
+        last_committed_at: new Date().toISOString(),
+        last_rows_synced: offset
+      })
+      
+      if (checkpointId) {
+        await this.supabase
+          .from('refresh_checkpoints')
+          .update({ status: 'completed', updated_at: new Date().toISOString() })
+          .eq('id', checkpointId)
+      }
+      
+      const quality = await recordDataQuality(this.supabase, tableName, auditLogId)
+      await this.updateAuditLog(auditLogId, quality.breached.length > 0 ? 'warning' : 'success', totalProcessed)
+      await this.updateRefreshConfig(refreshConfig.id)
+      
+      return {
+        success: true,
+        table: tableName,
+        rowsProcessed: totalProcessed,
+        duration: Date.now() - startTime,
+        watermark: newWatermark,
+        window,
+        resumedFromRow,
+        dataQualityWarnings: quality.breached.map(check => check.metric_name)
+      }
+    
+    } catch (error) {
+      // The checkpoint stays active so the next run picks up from the last committed batch
+      console.error(`Incremental sync failed for ${tableName}:`, error)
+      await this.updateAuditLog(auditLogId, 'failed', 0, error instanceof Error ? error.message : 'Unknown error')
+      return {
+        success: false,
+        table: tableName,
+        rowsProcessed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime
+      }
+    }
+  }
+  
+  /**
+   * Runs the same source query and transformation a real sync would, and diffs
+   * the result against the rows already in Supabase. Nothing is written: no
+   * parent records, audit log, watermark or checkpoint.
+   */
+  async previewSync(tableName: string, options: SyncOptions = {}): Promise<SyncResult> {
+    const startTime = Date.now()
+    const {
+      batchSize = 1000,
+      tableSchema = 'sqp',
+      dateRange,
+      asins,
+      incremental = false,
+      lookbackDays,
+      replace = false,
+      truncate = false,
+      diffSampleSize
+    } = options
+    
+    try {
+      if (NON_BIGQUERY_TABLES.includes(tableName)) {
+        return {
+          success: true,
+          table: tableName,
+          rowsProcessed: 0,
+          duration: Date.now() - startTime,
+          dryRun: true
+        }
+      }
+      
+      const location = getBigQueryConfig().location || 'US'
+      const windowed = incremental && !dateRange
+      let window: { start: string; end: string }
+      let rows: any[] = []
+      
+      if (windowed) {
+        const watermark = await this.getWatermark(tableSchema, tableName)
+        window = this.getIncrementalWindow(
+          watermark?.high_water_mark,
+          lookbackDays ?? watermark?.lookback_days ?? DEFAULT_LOOKBACK_DAYS
+        )
+        for (let offset = 0; ; offset += batchSize) {
+          const [page] = await this.bigquery.query({ query: this.buildIncrementalQuery(window, batchSize, offset), location })
+          rows.push(...page)
+          if (page.length < batchSize) break
+        }
+      } else {
+        // Without a date range the full sync reads the last DEFAULT_INITIAL_DAYS days
+        window = dateRange || this.getIncrementalWindow(null, 0)
+        ;[rows] = await this.bigquery.query({ query: this.buildQuery(tableName, dateRange, asins), location })
+      }
+      
+      console.log(`Dry run for ${tableName}: ${rows.length} source rows between ${window.start} and ${window.end}`)
+      
+      const incoming = this.transformData(tableName, rows).map(({ _temp_asin, _temp_date, ...row }) => row)
+      const existing = await this.fetchExistingRows(tableName, window, windowed ? undefined : asins)
+      
+      return {
+        success: true,
+        table: tableName,
+        rowsProcessed: 0,
+        duration: Date.now() - startTime,
+        window,
+        dryRun: true,
+        diff: diffRecords(incoming, existing, {
+          table: tableName,
+          window,
+          keyColumns: this.getDiffKeyColumns(tableName),
+          sampleSize: diffSampleSize,
+          deletesMissing: !windowed && (truncate || (replace && !!dateRange))
+        })
+      }
+    } catch (error) {
+      console.error(`Dry run failed for ${tableName}:`, error)
+      return {
+        success: false,
+        table: tableName,
+        rowsProcessed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime,
+        dryRun: true
+      }
+    }
+  }
+  
+  /**
+   * Upserts every row of a fixed date window without touching the watermark,
+   * the audit log or the table's incremental checkpoint. Backfills use this and
+   * keep their own per-window progress through onBatch.
+   */
+  async syncWindow(
+    tableName: string,
+    window: { start: string; end: string },
+    options: WindowSyncOptions = {}
+  ): Promise<SyncResult> {
+    const startTime = Date.now()
+    const { batchSize = 1000, resumeFromRow = 0, onBatch } = options
+    
+    try {
+      if (NON_BIGQUERY_TABLES.includes(tableName)) {
+        return {
+          success: true,
+          table: tableName,
+          rowsProcessed: 0,
+          duration: Date.now() - startTime
+        }
+      }
+      
+      if (tableName === 'search_query_performance') {
+        await this.ensureParentRecords(window)
+      }
+      
+      let interrupted = false
+      const committed = await this.upsertWindow(
+        tableName,
+        window,
+        { batchSize, offset: resumeFromRow, maxDate: null, location: getBigQueryConfig().location || 'US' },
+        async committedRows => {
+          if (onBatch && (await onBatch(committedRows)) === false) {
+            interrupted = true
+            return false
+          }
+        }
+      )
+      
+      return {
+        success: true,
+        table: tableName,
+        rowsProcessed: committed.offset - resumeFromRow,
+        duration: Date.now() - startTime,
+        window,
+        resumedFromRow: resumeFromRow,
+        interrupted
+      }
+    } catch (error) {
+      console.error(`Window sync failed for ${tableName} (${window.start} to ${window.end}):`, error)
+      return {
+        success: false,
+        table: tableName,
+        rowsProcessed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime,
+        window,
+        resumedFromRow: resumeFromRow
+      }
+    }
+  }
+  
+  /**
+   * Pages through a window in a stable order, upserting each batch. onBatch runs
+   * after every committed batch and can return false to stop early.
+   */
+  private async upsertWindow(
+    tableName: string,
+    window: { start: string; end: string },
+    { batchSize, offset, maxDate, location }: { batchSize: number; offset: number; maxDate: string | null; location: string },
+    onBatch: (committedRows: number, maxDate: string | null) => Promise<boolean | void>
+  ): Promise<{ offset: number; maxDate: string | null }> {
+    while (true) {
+      const query = this.buildIncrementalQuery(window, batchSize, offset)
+      const [rows] = await this.bigquery.query({ query, location })
+      
+      if (rows.length > 0) {
+        let transformedBatch = this.transformData(tableName, rows)
+        
+        if (tableName === 'search_query_performance') {
+          transformedBatch = await this.resolveParentIds(transformedBatch)
+        }
+        
+        // Rows inside the window may already exist, so corrections overwrite them
+        const { error: upsertError } = await this.supabase
+          .from(tableName)
+          .upsert(this.dedupeByConflictKey(tableName, transformedBatch), {
+            onConflict: this.getConflictColumns(tableName)
+          })
+        
+        if (upsertError) {
+          throw new Error(`Upsert failed at row ${offset}: ${upsertError.message}`)
+        }
+        
+        offset += rows.length
+        maxDate = rows.reduce(
+          (latest: string | null, row: any) => laterDate(latest, toDateString(row.Date)),
+          maxDate
+        )
+        
+        console.log(`Committed ${offset} rows for ${tableName}`)
+        if ((await onBatch(offset, maxDate)) === false) break
+      }
+      
+      if (rows.length < batchSize) break
+    }
+    
+    return { offset, maxDate }
+  }
+  
+  getIncrementalWindow(
+    highWaterMark: string | null | undefined,
+    lookbackDays: number,
+    today: string = new Date().toISOString().split('T')[0]
+  ): { start: string; end: string } {
+    return {
+      start: highWaterMark
+        ? shiftDate(highWaterMark, -Math.max(0, lookbackDays))
+        : shiftDate(today, -DEFAULT_INITIAL_DAYS),
+      end: today
+    }
+  }
+  
+  /**
+   * Pages through every source row of a date range (and ASINs), then checks the
+   * total against a count of the same rows so a replace never deletes rows it
+   * did not read back.
+   */
+  private async fetchSliceRows(
+    dateRange: { start: string; end: string },
+    asins: string[] | undefined,
+    batchSize: number,
+    location: string
+  ): Promise<any[]> {
+    const rows: any[] = []
+    while (true) {
+      const [page] = await this.bigquery.query({
+        query: this.buildIncrementalQuery(dateRange, batchSize, rows.length, asins),
+        location
+      })
+      rows.push(...page)
+      if (page.length < batchSize) break
+    }
+    
+    const config = getBigQueryConfig()
+    const [[count]] = await this.bigquery.query({
+      query: `
+        SELECT COUNT(*) AS row_count
+        FROM \`${config.projectId}.${config.datasets.production}.seller-search_query_performance\`
+        WHERE DATE(\`Date\`) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+        ${asinCondition(asins)}
+      `,
+      location
+    })
+    
+    const expected = Number(count?.row_count) || 0
+    if (rows.length !== expected) {
+      throw new Error(`Read ${rows.length} of ${expected} source rows between ${dateRange.start} and ${dateRange.end}; existing rows were left in place`)
+    }
+    return rows
+  }
+  
+  private buildIncrementalQuery(
+    window: { start: string; end: string },
+    batchSize: number,
+    offset: number,
+    asins?: string[]
+  ): string {
+    const config = getBigQueryConfig()
+    const dataset = config.datasets.production
+    
+    // A stable ORDER BY keeps LIMIT/OFFSET pages identical between a failed run and its resume
+    return `
+      SELECT *
+      FROM \`${config.projectId}.${dataset}.seller-search_query_performance\`
+      WHERE DATE(\`Date\`) BETWEEN '${window.start}' AND '${window.end}'
+      ${asinCondition(asins)}
+      ORDER BY \`Date\`, \`Parent ASIN\`, \`Child ASIN\`, \`Search Query\`
+      LIMIT ${batchSize}
+      OFFSET ${offset}
+    `
+  }
+  
+  private async getWatermark(tableSchema: string, tableName: string): Promise<any | null> {
+    const { data } = await this.supabase
+      .from('sync_watermarks')
+      .select('*')
+      .eq('table_schema', tableSchema)
+      .eq('table_name', tableName)
+      .limit(1)
+    
+    return data?.[0] || null
+  }
+  
+  private async saveWatermark(tableSchema: string, tableName: string, fields: Record<string, any>) {
+    const { error } = await this.supabase
+      .from('sync_watermarks')
+      .upsert({
+        table_schema: tableSchema,
+        table_name: tableName,
+        ...fields,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'table_schema,table_name' })
+    
+    if (error) {
+      throw new Error(`Failed to update watermark for ${tableName}: ${error.message}`)
+    }
+  }
+  
+  private async getActiveCheckpoint(tableSchema: string, tableName: string): Promise<any | null> {
+    const { data } = await this.supabase
+      .from('refresh_checkpoints')
+      .select('*')
+      .eq('function_name', CHECKPOINT_FUNCTION_NAME)
+      .eq('table_schema', tableSchema)
+      .eq('table_name', tableName)
+      .eq('status', 'active')
+      .gt('expires_at', new Date().toISOString())
+      .order('updated_at', { ascending: false })
+      .limit(1)
+    
+    return data?.[0] || null
+  }
+  
+  private async saveCheckpoint(
+    checkpointId: number | undefined,
+    tableSchema: string,
+    tableName: string,
+    checkpointData: Record<string, any>,
+    lastProcessedRow: number
+  ): Promise<number | undefined> {
+    const fields = {
+      checkpoint_data: checkpointData,
+      last_processed_row: lastProcessedRow,
+      updated_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + CHECKPOINT_TTL_MS).toISOString()
+    }
+    
+    if (checkpointId) {
+      const { error } = await this.supabase
+        .from('refresh_checkpoints')
+        .update(fields)
+        .eq('id', checkpointId)
+      
+      if (error) {
+        throw new Error(`Failed to save checkpoint: ${error.message}`)
+      }
+      return checkpointId
+    }
+    
+    const { data, error } = await this.supabase
+      .from('refresh_checkpoints')
+      .insert({
+        function_name: CHECKPOINT_FUNCTION_NAME,
+        table_schema: tableSchema,
+        table_name: tableName,
+        status: 'active',
+        ...fields
+      })
+      .select()
+      .single()
+    
+    if (error) {
+      throw new Error(`Failed to save checkpoint: ${error.message}`)
+    }
+    return data?.id
+  }
+  
+  private conflictKey(tableName: string, record: any): string {
+    return this.getConflictColumns(tableName).split(',').map(column => String(record[column])).join('|')
+  }
+  
+  // Postgres rejects an upsert that touches the same conflict key twice in one statement
+  private dedupeByConflictKey(tableName: string, records: any[]): any[] {
+    const unique = new Map<string, any>()
+    records.forEach(record => {
+      unique.set(this.conflictKey(tableName, record), record)
+    })
+    return Array.from(unique.values())
+  }
+  
+  private buildQuery(tableName: string, dateRange?: { start: string; end: string }, asins?: string[]): string {
     const config = getBigQueryConfig()
     const dataset = config.datasets.production
     
@@ -230,6 +851,7 @@ export class BigQuerySyncService {
       SELECT *
       FROM \`${config.projectId}.${dataset}.${bigQueryTable}\`
       ${dateRange ? `WHERE DATE(\`Date\`) BETWEEN '${dateRange.start}' AND '${dateRange.end}'` : 'WHERE DATE(\`Date\`) >= DATE_SUB(CURRENT_DATE(), INTERVAL 30 DAY)'}
+      ${asinCondition(asins)}
       LIMIT 10000
     `
     
@@ -237,7 +859,7 @@ export class BigQuerySyncService {
     return query
   }
   
-  private async ensureParentRecords(dateRange?: { start: string; end: string }) {
+  private async ensureParentRecords(dateRange?: { start: string; end: string }, asins?: string[]) {
     console.log('Ensuring parent ASIN records exist...')
     
     const config = getBigQueryConfig()
@@ -259,6 +881,7 @@ export class BigQuerySyncService {
       FROM \`${config.projectId}.${dataset}.${tableName}\`
       ${whereClause}
       AND (\`Parent ASIN\` IS NOT NULL OR \`Child ASIN\` IS NOT NULL)
+      ${asinCondition(asins)}
     `
     
     console.log('Executing parent records query:', query)
@@ -334,6 +957,64 @@ export class BigQuerySyncService {
     console.log('Parent records ensured')
   }
   
+  private async deleteStaleRows(
+    tableName: string,
+    dateRange: { start: string; end: string },
+    keptKeys: Set<string>,
+    asins?: string[]
+  ) {
+    const existing = await this.fetchExistingRows(tableName, dateRange, asins)
+    const staleIds = existing
+      .filter(row => !keptKeys.has(this.conflictKey(tableName, row)))
+      .map(row => row.id)
+    
+    console.log(`Removing ${staleIds.length} stale ${tableName} rows between ${dateRange.start} and ${dateRange.end}`)
+    
+    for (let i = 0; i < staleIds.length; i += DIFF_PAGE_SIZE) {
+      const { error } = await this.supabase
+        .from(tableName)
+        .delete()
+        .in('id', staleIds.slice(i, i + DIFF_PAGE_SIZE))
+      
+      if (error) {
+        throw new Error(`Failed to remove stale rows: ${error.message}`)
+      }
+    }
+  }
+  
+  private async fetchExistingRows(
+    tableName: string,
+    window: { start: string; end: string },
+    asins?: string[]
+  ): Promise<any[]> {
+    const rows: any[] = []
+    
+    for (let from = 0; ; from += DIFF_PAGE_SIZE) {
+      let query = this.supabase
+        .from(tableName)
+        .select('*')
+        .gte('start_date', window.start)
+        .lte('start_date', window.end)
+      
+      if (asins && asins.length > 0) {
+        query = query.in('asin', asins)
+      }
+      
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .range(from, from + DIFF_PAGE_SIZE - 1)
+      
+      if (error) {
+        throw new Error(`Failed to read existing ${tableName} rows: ${error.message}`)
+      }
+      
+      rows.push(...(data || []))
+      if (!data || data.length < DIFF_PAGE_SIZE) break
+    }
+    
+    return rows
+  }
+  
   private async resolveParentIds(records: any[]): Promise<any[]> {
     // Group by ASIN and date to minimize queries
     const lookupKeys = [...new Set(records.map(r => `${r._temp_asin}_${r._temp_date}`))]
@@ -490,8 +1171,7 @@ export class BigQuerySyncService {
   }
   
   private getConflictColumns(tableName: string): string {
-    // No longer used since we're using INSERT instead of UPSERT
-    // Keeping for potential future use
+    // Full syncs INSERT; incremental syncs UPSERT on these keys
     const conflictColumns: Record<string, string> = {
       asin_performance_data: 'asin,start_date,end_date',
       search_query_performance: 'asin_performance_id,search_query',
@@ -501,6 +1181,16 @@ export class BigQuerySyncService {
     return conflictColumns[tableName] || 'id'
   }
   
+  // Natural keys for dry-run diffs; parent ids are not resolved because a dry run creates no parents
+  private getDiffKeyColumns(tableName: string): string[] {
+    const keyColumns: Record<string, string[]> = {
+      asin_performance_data: ['asin', 'start_date', 'end_date'],
+      search_query_performance: ['asin', 'start_date', 'search_query']
+    }
+    
+    return keyColumns[tableName] || this.getConflictColumns(tableName).split(',')
+  }
+  
   private async updateAuditLog(
     id: number | undefined, 
     status: string, 
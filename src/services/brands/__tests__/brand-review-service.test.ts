@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BrandReviewService, mergeCandidates } from '../brand-review-service'
+
+const rule = (id: string, brand_id: string, pattern: string) => ({
+  id,
+  brand_id,
+  rule_type: 'contains' as const,
+  pattern,
+  priority: 0,
+  is_case_sensitive: false,
+  is_active: true,
+  confidence_threshold: 0.8
+})
+
+function createFakeSupabase(queue: any[], similarities: any[]) {
+  const builder: any = {
+    select: vi.fn(() => builder),
+    order: vi.fn(() => builder),
+    range: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    then: (resolve: any, reject: any) =>
+      Promise.resolve({ data: queue, error: null, count: 42 }).then(resolve, reject)
+  }
+  const rpc = vi.fn(async (name: string, args: any) => {
+    if (name === 'suggest_brands_by_title') {
+      return { data: similarities.filter(row => args.p_asins.includes(row.asin)), error: null }
+    }
+    return { data: args.p_decisions.length, error: null }
+  })
+  return { from: vi.fn(() => builder), rpc, builder }
+}
+
+describe('BrandReviewService', () => {
+  it('merges rule matches and title similarity into one entry per brand', () => {
+    const candidates = mergeCandidates(
+      [{ rule_id: 'rule-a', brand_id: 'brand-a', rule_type: 'contains', pattern: 'work sharp', priority: 2, confidence: 0.9 }],
+      [
+        { brand_id: 'brand-b', similarity: 0.95 },
+        { brand_id: 'brand-a', similarity: 0.6 },
+        { brand_id: 'brand-c', similarity: 0.4 },
+        { brand_id: 'brand-d', similarity: 0.3 }
+      ]
+    )
+
+    expect(candidates).toEqual([
+      { brand_id: 'brand-b', score: 0.95, sources: ['similarity'] },
+      {
+        brand_id: 'brand-a',
+        score: 0.9,
+        sources: ['rule', 'similarity'],
+        rule: { rule_id: 'rule-a', rule_type: 'contains', pattern: 'work sharp', priority: 2 }
+      },
+      { brand_id: 'brand-c', score: 0.4, sources: ['similarity'] }
+    ])
+  })
+
+  it('returns the queue with candidate brands for each ASIN', async () => {
+    const supabase = createFakeSupabase(
+      [
+        { asin: 'B001', product_title: 'Work Sharp Belt', current_brand_id: null, confidence_score: null, confidence_threshold: '0.80', reason: 'unmapped' },
+        { asin: 'B002', product_title: 'Sharp Co Stone', current_brand_id: 'brand-a', confidence_score: '0.50', confidence_threshold: '0.85', reason: 'low_confidence' }
+      ],
+      [{ asin: 'B002', brand_id: 'brand-b', similarity: '0.88' }]
+    )
+    const getActiveRules = vi.fn().mockResolvedValue([rule('rule-a', 'brand-a', 'work sharp')])
+    const service = new BrandReviewService({ supabase, ruleService: { getActiveRules } })
+
+    const page = await service.getQueue({ reason: 'low_confidence', limit: 2, offset: 4 })
+
+    expect(supabase.builder.eq).toHaveBeenCalledWith('reason', 'low_confidence')
+    expect(supabase.builder.range).toHaveBeenCalledWith(4, 5)
+    expect(supabase.rpc).toHaveBeenCalledWith('suggest_brands_by_title', { p_asins: ['B001', 'B002'], p_limit: 3 })
+    expect(page.total).toBe(42)
+    expect(page.items[0]).toMatchObject({ asin: 'B001', confidence_score: null, candidates: [{ brand_id: 'brand-a', score: 0.9 }] })
+    expect(page.items[1]).toMatchObject({
+      confidence_score: 0.5,
+      confidence_threshold: 0.85,
+      candidates: [{ brand_id: 'brand-b', score: 0.88, sources: ['similarity'] }]
+    })
+  })
+
+  it('applies decisions through review_brand_mappings', async () => {
+    const supabase = createFakeSupabase([], [])
+    const service = new BrandReviewService({ supabase, ruleService: { getActiveRules: vi.fn() } })
+    const decisions = [{ asin: 'B001', brand_id: 'brand-a', action: 'override' as const, note: 'Private label' }]
+
+    await expect(service.review(decisions, 'user-1')).resolves.toBe(1)
+    expect(supabase.rpc).toHaveBeenCalledWith('review_brand_mappings', { p_decisions: decisions, p_reviewed_by: 'user-1' })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  BrandHierarchyNode,
+  BrandRollupService,
+  SearchQueryWeekRow,
+  aggregateShareTotals,
+  calculateShares,
+  getDescendantBrandIds,
+  getRollupGroups
+} from '../brand-rollup'
+
+const node = (id: string, parent: string | null = null): BrandHierarchyNode => ({
+  id,
+  display_name: id,
+  parent_brand_id: parent
+})
+
+const row = (overrides: Partial<SearchQueryWeekRow>): SearchQueryWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  search_query: 'knife sharpener',
+  asin_impression_count: 0,
+  asin_click_count: 0,
+  asin_cart_add_count: 0,
+  asin_purchase_count: 0,
+  total_query_impression_count: 1000,
+  total_click_count: 100,
+  total_cart_add_count: 50,
+  total_purchase_count: 20,
+  ...overrides
+})
+
+describe('brand roll-up', () => {
+  const nodes = [
+    node('parent'),
+    node('child-a', 'parent'),
+    node('child-b', 'parent'),
+    node('grandchild', 'child-a'),
+    node('other')
+  ]
+
+  it('collects every descendant of a brand and survives cycles', () => {
+    expect(getDescendantBrandIds('parent', nodes)).toEqual(['parent', 'child-a', 'child-b', 'grandchild'])
+    expect(getDescendantBrandIds('child-b', nodes)).toEqual(['child-b'])
+
+    const cyclic = [node('a', 'b'), node('b', 'a')]
+    expect(getDescendantBrandIds('a', cyclic)).toEqual(['a', 'b'])
+  })
+
+  it('rolls grandchildren into their direct child of the parent', () => {
+    expect(Object.fromEntries(getRollupGroups('parent', nodes))).toEqual({
+      parent: 'parent',
+      'child-a': 'child-a',
+      grandchild: 'child-a',
+      'child-b': 'child-b'
+    })
+  })
+
+  it('computes shares from summed counts over market totals counted once per query and week', () => {
+    const rows = [
+      row({ asin: 'B001', asin_impression_count: 300, asin_purchase_count: 6 }),
+      row({ asin: 'B002', asin_impression_count: 100, asin_purchase_count: 2 }),
+      // A second query where only one ASIN shows up
+      row({ asin: 'B002', search_query: 'honing rod', asin_impression_count: 10, total_query_impression_count: 9000, asin_purchase_count: 0, total_purchase_count: 180 })
+    ]
+
+    const all = calculateShares(aggregateShareTotals(rows, () => 'all').get('all'))
+    // (300 + 100 + 10) / (1000 + 9000), not the average of the per-ASIN shares
+    expect(all.impressionShare).toBeCloseTo(0.041)
+    expect(all.purchaseShare).toBeCloseTo(8 / 200)
+
+    const byAsin = aggregateShareTotals(rows, r => r.asin)
+    expect(calculateShares(byAsin.get('B001')).impressionShare).toBeCloseTo(0.3)
+    expect(calculateShares(byAsin.get('B002')).impressionShare).toBeCloseTo(110 / 10000)
+
+    expect(calculateShares(undefined)).toEqual({ impressionShare: 0, clickShare: 0, cartAddShare: 0, purchaseShare: 0 })
+  })
+})
+
+describe('BrandRollupService.getScope', () => {
+  it('pages through the brand ASIN mappings', async () => {
+    const mappings = Array.from({ length: 1500 }, (_, i) => ({ asin: `B${String(i).padStart(4, '0')}`, brand_id: 'brand-1' }))
+    const ranges: Array<[number, number]> = []
+    const from = vi.fn((table: string) => {
+      let range: [number, number] = [0, 0]
+      const builder: any = {
+        select: vi.fn(() => builder),
+        eq: vi.fn(() => builder),
+        in: vi.fn(() => builder),
+        order: vi.fn(() => builder),
+        range: vi.fn((start: number, end: number) => {
+          range = [start, end]
+          ranges.push(range)
+          return builder
+        }),
+        single: vi.fn(() => Promise.resolve({ data: node('brand-1'), error: null })),
+        then: (resolve: any, reject: any) =>
+          Promise.resolve({ data: table === 'asin_brand_mapping' ? mappings.slice(range[0], range[1] + 1) : [], error: null })
+            .then(resolve, reject)
+      }
+      return builder
+    })
+
+    const scope = await new BrandRollupService({ from }).getScope('brand-1', false)
+
+    expect(ranges).toEqual([[0, 999], [1000, 1999]])
+    expect(scope?.asinBrands.size).toBe(1500)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { DRAFT_RULE_ID, ExtractionRule, previewRule, rankMatches, scoreRule } from '../brand-rule-engine'
+
+const rule = (overrides: Partial<ExtractionRule>): ExtractionRule => ({
+  id: 'rule-1',
+  brand_id: 'brand-a',
+  rule_type: 'contains',
+  pattern: 'work sharp',
+  priority: 0,
+  is_case_sensitive: false,
+  is_active: true,
+  confidence_threshold: 0.8,
+  ...overrides
+})
+
+describe('brand rule engine', () => {
+  it('scores matches the way extract_brand_from_title does', () => {
+    expect(scoreRule(rule({ rule_type: 'exact', pattern: 'Work Sharp' }), '  work sharp ')).toBe(1)
+    expect(scoreRule(rule({ rule_type: 'contains' }), 'WORK SHARP Knife Sharpener')).toBe(0.9)
+    expect(scoreRule(rule({ rule_type: 'prefix', pattern: 'work' }), 'Work Sharp Guided System')).toBe(0.85)
+    expect(scoreRule(rule({ rule_type: 'suffix', pattern: 'by work sharp' }), 'Knife Sharpener by Work Sharp')).toBe(0.85)
+    expect(scoreRule(rule({ rule_type: 'regex', pattern: '^work\\s+sharp', confidence_threshold: 0.75 }), 'Work  Sharp MK2')).toBe(0.75)
+    expect(scoreRule(rule({ rule_type: 'contains', is_case_sensitive: true, pattern: 'Work Sharp' }), 'work sharp mk2')).toBeNull()
+    expect(scoreRule(rule({ rule_type: 'contains' }), 'Ken Onion Edition')).toBeNull()
+  })
+
+  it('keeps the highest-priority rule per brand, then ranks brands by confidence and priority', () => {
+    const rules = [
+      rule({ id: 'a-contains', brand_id: 'brand-a', rule_type: 'contains', pattern: 'sharp', priority: 1 }),
+      rule({ id: 'a-exact', brand_id: 'brand-a', rule_type: 'exact', pattern: 'work sharp mk2', priority: 0 }),
+      rule({ id: 'b-prefix', brand_id: 'brand-b', rule_type: 'prefix', pattern: 'work', priority: 5 }),
+      rule({ id: 'c-inactive', brand_id: 'brand-c', pattern: 'mk2', is_active: false })
+    ]
+
+    expect(rankMatches('Work Sharp MK2', rules).map(match => [match.rule_id, match.confidence])).toEqual([
+      ['a-contains', 0.9],
+      ['b-prefix', 0.85]
+    ])
+  })
+
+  it('reports what a draft would do to each ASIN it matches', () => {
+    const saved = [
+      rule({ id: 'rule-b', brand_id: 'brand-b', rule_type: 'exact', pattern: 'sharp pro' }),
+      rule({ id: 'rule-c', brand_id: 'brand-c', rule_type: 'prefix', pattern: 'sharp', priority: 3 })
+    ]
+    const titles = [
+      { asin: 'B001', product_title: 'Sharp Pro' },
+      { asin: 'B002', product_title: 'Sharp Edge Knife' },
+      { asin: 'B003', product_title: 'Mini Sharp Kit' },
+      { asin: 'B004', product_title: 'Budget Sharp Stone' },
+      { asin: 'B005', product_title: 'Work Sharp Belt' },
+      { asin: 'B006', product_title: 'Ceramic Rod' }
+    ]
+    const mappings = [
+      { asin: 'B002', brand_id: 'brand-c', extraction_method: 'automatic' as const },
+      { asin: 'B004', brand_id: 'brand-b', extraction_method: 'manual' as const },
+      { asin: 'B005', brand_id: 'brand-a', extraction_method: 'automatic' as const }
+    ]
+
+    const preview = previewRule(
+      { brand_id: 'brand-a', rule_type: 'contains', pattern: 'sharp', priority: 10, is_case_sensitive: false, is_active: true, confidence_threshold: 0.8 },
+      saved,
+      titles,
+      mappings
+    )
+
+    expect(preview.titles_scanned).toBe(6)
+    expect(preview.summary).toMatchObject({ matched: 5, reassign: 1, new: 1, protected: 1, outranked: 1, unchanged: 1, conflicts: 2 })
+    expect(preview.items.map(item => [item.asin, item.status])).toEqual([
+      ['B002', 'reassign'],
+      ['B003', 'new'],
+      ['B004', 'protected'],
+      ['B001', 'outranked'],
+      ['B005', 'unchanged']
+    ])
+
+    const reassigned = preview.items[0]
+    expect(reassigned.winner).toMatchObject({ rule_id: DRAFT_RULE_ID, confidence: 0.9 })
+    expect(reassigned.competing).toEqual([expect.objectContaining({ rule_id: 'rule-c', brand_id: 'brand-c', priority: 3, confidence: 0.85 })])
+    expect(preview.items[3].winner).toMatchObject({ rule_id: 'rule-b', confidence: 1 })
+  })
+
+  it('replaces the saved version of a rule being edited', () => {
+    const saved = [rule({ id: 'rule-a', rule_type: 'contains', pattern: 'sharp', confidence_threshold: 0.8 })]
+    const titles = [{ asin: 'B001', product_title: 'Sharp Stone' }]
+
+    const preview = previewRule(
+      { ...saved[0], rule_type: 'regex', pattern: 'sharp\\s+stone', confidence_threshold: 0.7 },
+      saved,
+      titles,
+      []
+    )
+
+    expect(preview.items[0]).toMatchObject({ status: 'new', winner: { rule_id: 'rule-a', rule_type: 'regex', confidence: 0.7 }, competing: [] })
+  })
+})
\ No newline at end of file
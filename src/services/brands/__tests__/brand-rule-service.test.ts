@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BrandRuleService } from '../brand-rule-service'
+
+// Returns fixed rows per table and records writes
+function createFakeSupabase(tables: Record<string, any[]>) {
+  const writes: Array<{ table: string; operation: string; payload?: any; filters: any[] }> = []
+
+  const from = vi.fn((table: string) => {
+    let operation = 'select'
+    let payload: any
+    const filters: any[] = []
+
+    const result = () => {
+      if (operation === 'insert') return [{ id: 'rule-new', created_at: 'now', updated_at: 'now', ...payload }]
+      if (operation === 'update') return [{ ...tables[table]?.[0], ...payload }]
+      return tables[table] || []
+    }
+
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      range: () => builder,
+      eq: (column: string, value: any) => {
+        filters.push([column, value])
+        return builder
+      },
+      insert: (row: any) => {
+        operation = 'insert'
+        payload = row
+        writes.push({ table, operation, payload, filters })
+        return builder
+      },
+      update: (fields: any) => {
+        operation = 'update'
+        payload = fields
+        writes.push({ table, operation, payload, filters })
+        return builder
+      },
+      delete: () => {
+        operation = 'delete'
+        writes.push({ table, operation, filters })
+        return builder
+      },
+      single: async () => ({ data: result()[0], error: null }),
+      maybeSingle: async () => ({ data: result()[0] || null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: result(), error: null }).then(resolve, reject)
+    }
+    return builder
+  })
+
+  const rpc = vi.fn(async (_name: string, args: any) => ({ data: args.p_assignments.length, error: null }))
+
+  return { client: { from, rpc }, writes }
+}
+
+const savedRule = {
+  id: 'rule-b',
+  brand_id: '22222222-2222-4222-8222-222222222222',
+  rule_type: 'contains',
+  pattern: 'sharp',
+  priority: '0',
+  is_case_sensitive: false,
+  is_active: true,
+  confidence_threshold: '0.80',
+  brands: { is_active: true }
+}
+
+const draft = {
+  brand_id: '11111111-1111-4111-8111-111111111111',
+  rule_type: 'contains' as const,
+  pattern: 'work sharp',
+  priority: 5,
+  is_case_sensitive: false,
+  is_active: true,
+  confidence_threshold: 0.8
+}
+
+describe('BrandRuleService', () => {
+  let supabase: ReturnType<typeof createFakeSupabase>
+
+  beforeEach(() => {
+    supabase = createFakeSupabase({
+      brand_extraction_rules: [savedRule],
+      asin_product_titles: [
+        { asin: 'B001', product_title: 'Work Sharp Knife Sharpener' },
+        { asin: 'B002', product_title: 'Work Sharp Belt' },
+        { asin: 'B003', product_title: 'Work Sharp Stone' },
+        { asin: 'B004', product_title: 'Sharp Stone' }
+      ],
+      asin_brand_mapping: [
+        { asin: 'B002', brand_id: savedRule.brand_id, extraction_method: 'automatic', verified: false },
+        { asin: 'B003', brand_id: savedRule.brand_id, extraction_method: 'automatic', verified: true }
+      ]
+    })
+  })
+
+  it('previews a draft against the saved rules with numeric columns normalized', async () => {
+    const service = new BrandRuleService({ supabase: supabase.client })
+
+    const preview = await service.previewRule(draft)
+
+    expect(preview.summary).toMatchObject({ matched: 3, new: 1, reassign: 1, protected: 1, conflicts: 3 })
+    expect(preview.items[0].competing[0]).toMatchObject({ rule_id: 'rule-b', priority: 0, confidence: 0.9 })
+    expect(supabase.writes).toEqual([])
+  })
+
+  it('saves the draft and assigns only the selected new or reassigned ASINs', async () => {
+    const service = new BrandRuleService({ supabase: supabase.client })
+
+    const result = await service.applyRule(draft, { asins: ['B002', 'B003'], userId: 'user-1' })
+
+    expect(supabase.writes[0]).toMatchObject({ table: 'brand_extraction_rules', operation: 'insert', payload: { ...draft, created_by: 'user-1' } })
+    expect(supabase.client.rpc).toHaveBeenCalledWith('apply_brand_rule_assignments', {
+      p_rule_id: 'rule-new',
+      p_assignments: [{ asin: 'B002', product_title: 'Work Sharp Belt', confidence: 0.9 }],
+      p_changed_by: 'user-1'
+    })
+    expect(result).toMatchObject({ assignable: 1, applied: 1, rule: { id: 'rule-new' } })
+  })
+
+  it('detaches mappings from a rule before deleting it', async () => {
+    const service = new BrandRuleService({ supabase: supabase.client })
+
+    await service.deleteRule('rule-b')
+
+    expect(supabase.writes.map(write => [write.table, write.operation, write.payload])).toEqual([
+      ['asin_brand_mapping', 'update', { extraction_rule_id: null }],
+      ['brand_extraction_rules', 'delete', undefined]
+    ])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { SearchQueryWeekRow } from '../brand-rollup'
+import {
+  aggregateSegments,
+  buildSegmentTerms,
+  buildSegmentWeeks,
+  classifyQueries,
+  classifyQuery
+} from '../query-segments'
+
+const row = (overrides: Partial<SearchQueryWeekRow>): SearchQueryWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  search_query: 'knife sharpener',
+  asin_impression_count: 100,
+  asin_click_count: 10,
+  asin_cart_add_count: 4,
+  asin_purchase_count: 2,
+  total_query_impression_count: 1000,
+  total_click_count: 100,
+  total_cart_add_count: 40,
+  total_purchase_count: 20,
+  ...overrides
+})
+
+const terms = buildSegmentTerms(
+  [{ id: 'brand-1', display_name: 'Work Sharp', brand_name: 'WORK SHARP', normalized_name: 'work sharp' }],
+  [
+    { brand_id: 'brand-1', rule_type: 'regex', pattern: '\\bken onion\\b', is_case_sensitive: false, is_active: true },
+    { brand_id: 'brand-1', rule_type: 'contains', pattern: 'ws', is_case_sensitive: false, is_active: true }
+  ],
+  [
+    { name: 'Lansky', aliases: ['lanskey'], is_active: true },
+    { name: 'Smiths', aliases: [], is_active: false }
+  ]
+)
+
+describe('query segments', () => {
+  it('matches brand names regardless of spacing and punctuation', () => {
+    expect(classifyQuery('worksharp knife sharpener', terms)).toEqual({ segment: 'branded', label: 'Work Sharp', term: 'Work Sharp' })
+    expect(classifyQuery('work-sharp belts', terms).segment).toBe('branded')
+    expect(classifyQuery('Ken Onion edition', terms)).toMatchObject({ segment: 'branded', term: '\\bken onion\\b' })
+    expect(classifyQuery('lanskey sharpening kit', terms)).toEqual({ segment: 'competitor', label: 'Lansky', term: 'lanskey' })
+  })
+
+  it('counts queries naming both sides as branded and leaves short or inactive terms out', () => {
+    expect(classifyQuery('work sharp vs lansky', terms).segment).toBe('branded')
+    // "ws" is under the minimum term length and Smiths is inactive
+    expect(classifyQuery('ws sharpener', terms).segment).toBe('generic')
+    expect(classifyQuery('smiths sharpener', terms).segment).toBe('generic')
+    // Terms line up with whole tokens, so "work sharpener" does not contain "work sharp"
+    expect(classifyQuery('work sharpener', terms).segment).toBe('generic')
+  })
+
+  it('splits totals by segment and tracks the weekly branded share', () => {
+    const rows = [
+      row({ search_query: 'work sharp', asin_impression_count: 300 }),
+      row({ search_query: 'work sharp', asin: 'B002', asin_impression_count: 100 }),
+      row({ search_query: 'lansky', asin_impression_count: 100 }),
+      row({ search_query: 'knife sharpener', asin_impression_count: 400 }),
+      row({ start_date: '2025-01-12', search_query: 'work sharp', asin_impression_count: 100 }),
+      row({ start_date: '2025-01-12', search_query: 'knife sharpener', asin_impression_count: 300 })
+    ]
+    const classifications = classifyQueries(rows.map(r => r.search_query), terms)
+
+    const segments = aggregateSegments(rows, classifications)
+    expect(segments.branded.totals.impressions).toBe(500)
+    // Market totals are counted once per query and week, not once per ASIN
+    expect(segments.branded.totals.marketImpressions).toBe(2000)
+    expect(segments.branded.queryCount).toBe(1)
+    expect(segments.competitor.totals.impressions).toBe(100)
+    expect(segments.generic.totals.impressions).toBe(700)
+    expect(segments.generic.rates.clickThroughRate).toBeCloseTo(20 / 700)
+
+    const weeks = buildSegmentWeeks(rows, classifications)
+    expect(weeks.map(week => week.startDate)).toEqual(['2025-01-05', '2025-01-12'])
+    expect(weeks[0].brandedShare.impressions).toBeCloseTo((400 / 900) * 100)
+    expect(weeks[1].brandedShare.impressions).toBeCloseTo(25)
+    expect(weeks[1].totals.competitor.impressions).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SearchQueryWeekRow } from '../brand-rollup'
+import { ShareOfVoiceService, buildShareOfVoice, rankQueries } from '../share-of-voice'
+
+const row = (overrides: Partial<SearchQueryWeekRow>): SearchQueryWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  search_query: 'knife sharpener',
+  asin_impression_count: 100,
+  asin_click_count: 10,
+  asin_cart_add_count: 4,
+  asin_purchase_count: 2,
+  total_query_impression_count: 1000,
+  total_click_count: 100,
+  total_cart_add_count: 40,
+  total_purchase_count: 20,
+  ...overrides
+})
+
+describe('share of voice', () => {
+  it('charts weekly share and the rest of the market on the tracked queries only', () => {
+    const rows = [
+      row({ asin: 'B001' }),
+      row({ asin: 'B002', asin_impression_count: 50 }),
+      row({ search_query: 'honing rod', total_query_impression_count: 5000 })
+    ]
+
+    const [week] = buildShareOfVoice(rows, ['knife sharpener'])
+
+    expect(week.brand.impressions).toBe(150)
+    // The market total is counted once even though two ASINs report it
+    expect(week.market.impressions).toBe(1000)
+    expect(week.restOfMarket.impressions).toBe(850)
+    expect(week.share.impressions).toBeCloseTo(15)
+    expect(week.shareChange.impressions).toBeNull()
+  })
+
+  it('flags share moves on a flat market but not moves that follow demand', () => {
+    const rows = [
+      row({ start_date: '2025-01-05', asin_purchase_count: 4, asin_impression_count: 100 }),
+      // Purchase market flat (+5%) while purchase share falls from 20% to under 10%
+      row({ start_date: '2025-01-12', asin_purchase_count: 2, total_purchase_count: 21, asin_impression_count: 50, total_query_impression_count: 500 }),
+    ]
+
+    const [, week] = buildShareOfVoice(rows, ['knife sharpener'], { shareChangeThreshold: 5, flatMarketTolerance: 0.1 })
+
+    expect(week.shareChange.purchases).toBeCloseTo(2 / 21 * 100 - 20)
+    expect(week.marketChange.purchases).toBeCloseTo(0.05)
+    // Impression share held at 10% while the market halved: not flagged
+    expect(week.flags).toEqual(['purchases'])
+  })
+
+  it('tracks the brand top queries when none are chosen', async () => {
+    const rows = [
+      row({ search_query: 'honing rod', asin_impression_count: 500 }),
+      row({ search_query: 'knife sharpener', asin_impression_count: 300 }),
+      row({ search_query: 'whetstone', asin_impression_count: 0 })
+    ]
+    const rollup = {
+      getScope: vi.fn().mockResolvedValue({
+        brand: { id: 'brand-1', display_name: 'Work Sharp', parent_brand_id: null },
+        brandIds: ['brand-1'],
+        asinBrands: new Map([['B001', 'brand-1']]),
+        groups: new Map([['brand-1', 'brand-1']]),
+        nodes: []
+      }),
+      getSearchQueryRows: vi.fn().mockResolvedValue(rows)
+    }
+
+    const report = await new ShareOfVoiceService(rollup).getReport('brand-1', { startDate: '2025-01-01', endDate: '2025-03-31' })
+
+    expect(rollup.getSearchQueryRows).toHaveBeenCalledWith(['B001'], '2025-01-01', '2025-03-31')
+    expect(rankQueries(rows).map(q => q.query)).toEqual(['honing rod', 'knife sharpener'])
+    expect(report?.queries).toEqual(['honing rod', 'knife sharpener'])
+    expect(report?.weeks).toHaveLength(1)
+  })
+})
\ No newline at end of file
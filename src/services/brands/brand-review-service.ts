@@ -0,0 +1,206 @@
+import { createClient } from '@supabase/supabase-js'
+import { ExtractionRule, RuleMatch, rankMatches } from './brand-rule-engine'
+import { BrandRuleService, brandRuleService } from './brand-rule-service'
+import type { BrandReviewDecision } from './brand-rule-schema'
+
+export type ReviewReason = 'unmapped' | 'low_confidence'
+
+export interface BrandCandidate {
+  brand_id: string
+  // Best of the rule confidence and the title similarity
+  score: number
+  sources: Array<'rule' | 'similarity'>
+  rule?: Pick<RuleMatch, 'rule_id' | 'rule_type' | 'pattern' | 'priority'>
+}
+
+export interface ReviewQueueItem {
+  asin: string
+  product_title: string
+  current_brand_id: string | null
+  confidence_score: number | null
+  confidence_threshold: number
+  reason: ReviewReason
+  candidates: BrandCandidate[]
+}
+
+export interface ReviewQueueOptions {
+  reason?: ReviewReason
+  limit?: number
+  offset?: number
+}
+
+export interface ReviewQueuePage {
+  items: ReviewQueueItem[]
+  total: number
+}
+
+export interface TitleSimilarity {
+  asin: string
+  brand_id: string
+  similarity: number
+}
+
+interface BrandReviewDependencies {
+  supabase?: any
+  ruleService?: Pick<BrandRuleService, 'getActiveRules'>
+}
+
+const MAX_CANDIDATES = 3
+
+/**
+ * Combines rule matches and title similarity into one ranked list of brands,
+ * one entry per brand
+ */
+export function mergeCandidates(
+  ruleMatches: RuleMatch[],
+  similarities: Array<Pick<TitleSimilarity, 'brand_id' | 'similarity'>>,
+  limit = MAX_CANDIDATES
+): BrandCandidate[] {
+  const byBrand = new Map<string, BrandCandidate>()
+
+  ruleMatches.forEach(match => {
+    byBrand.set(match.brand_id, {
+      brand_id: match.brand_id,
+      score: match.confidence,
+      sources: ['rule'],
+      rule: { rule_id: match.rule_id, rule_type: match.rule_type, pattern: match.pattern, priority: match.priority }
+    })
+  })
+
+  similarities.forEach(({ brand_id, similarity }) => {
+    const candidate = byBrand.get(brand_id)
+    if (candidate) {
+      candidate.score = Math.max(candidate.score, similarity)
+      candidate.sources.push('similarity')
+    } else {
+      byBrand.set(brand_id, { brand_id, score: similarity, sources: ['similarity'] })
+    }
+  })
+
+  return Array.from(byBrand.values())
+    .sort((a, b) => b.score - a.score || b.sources.length - a.sources.length)
+    .slice(0, limit)
+}
+
+/**
+ * Lists ASINs that need a person to confirm their brand and applies the
+ * decisions through public.review_brand_mappings, which locks each mapping
+ * against the automatic matchers and records it in asin_brand_mapping_history.
+ */
+export class BrandReviewService {
+  private supabase: any
+  private ruleService: Pick<BrandRuleService, 'getActiveRules'>
+
+  constructor(deps: BrandReviewDependencies = {}) {
+    this.supabase = deps.supabase
+    this.ruleService = deps.ruleService || brandRuleService
+  }
+
+  private getSupabaseClient() {
+    if (!this.supabase) {
+      const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('Missing Supabase environment variables')
+      }
+
+      this.supabase = createClient(supabaseUrl, supabaseKey)
+    }
+    return this.supabase
+  }
+
+  async getQueue(options: ReviewQueueOptions = {}): Promise<ReviewQueuePage> {
+    const limit = options.limit || 50
+    const offset = options.offset || 0
+
+    // Unmapped ASINs first, then the least confident mappings
+    let query = this.getSupabaseClient()
+      .from('brand_mapping_review_queue')
+      .select('asin, product_title, current_brand_id, confidence_score, confidence_threshold, reason', { count: 'exact' })
+      .order('reason', { ascending: false })
+      .order('confidence_score', { ascending: true, nullsFirst: true })
+      .order('asin')
+      .range(offset, offset + limit - 1)
+
+    if (options.reason) {
+      query = query.eq('reason', options.reason)
+    }
+
+    const { data, error, count } = await query
+    if (error) {
+      throw new Error(`Failed to fetch review queue: ${error.message}`)
+    }
+
+    const rows = data || []
+    if (rows.length === 0) {
+      return { items: [], total: count || 0 }
+    }
+
+    const [rules, similarities] = await Promise.all([
+      this.ruleService.getActiveRules(),
+      this.getTitleSimilarities(rows.map((row: any) => row.asin))
+    ])
+
+    return {
+      items: rows.map((row: any) => this.toQueueItem(row, rules, similarities)),
+      total: count || 0
+    }
+  }
+
+  // Current brand of each ASIN, for checking the caller may change it
+  async getCurrentBrands(asins: string[]): Promise<Map<string, string>> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('asin_brand_mapping')
+      .select('asin, brand_id')
+      .in('asin', asins)
+
+    if (error) {
+      throw new Error(`Failed to fetch brand mappings: ${error.message}`)
+    }
+    return new Map((data || []).map((row: any) => [row.asin, row.brand_id]))
+  }
+
+  async review(decisions: BrandReviewDecision[], reviewedBy?: string | null): Promise<number> {
+    const { data, error } = await this.getSupabaseClient().rpc('review_brand_mappings', {
+      p_decisions: decisions,
+      p_reviewed_by: reviewedBy || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to apply review decisions: ${error.message}`)
+    }
+    return data || 0
+  }
+
+  private async getTitleSimilarities(asins: string[]): Promise<TitleSimilarity[]> {
+    const { data, error } = await this.getSupabaseClient().rpc('suggest_brands_by_title', {
+      p_asins: asins,
+      p_limit: MAX_CANDIDATES
+    })
+
+    // Suggestions are a convenience; the queue is still useful without them
+    if (error) {
+      console.error('Failed to fetch title similarity suggestions:', error)
+      return []
+    }
+    return (data || []).map((row: any) => ({ ...row, similarity: Number(row.similarity) }))
+  }
+
+  private toQueueItem(row: any, rules: ExtractionRule[], similarities: TitleSimilarity[]): ReviewQueueItem {
+    return {
+      asin: row.asin,
+      product_title: row.product_title,
+      current_brand_id: row.current_brand_id,
+      confidence_score: row.confidence_score === null ? null : Number(row.confidence_score),
+      confidence_threshold: Number(row.confidence_threshold),
+      reason: row.reason,
+      candidates: mergeCandidates(
+        rankMatches(row.product_title, rules),
+        similarities.filter(similarity => similarity.asin === row.asin)
+      )
+    }
+  }
+}
+
+export const brandReviewService = new BrandReviewService()
\ No newline at end of file
@@ -0,0 +1,258 @@
+// Row shape of public.brand_hierarchy used for roll-ups
+export interface BrandHierarchyNode {
+  id: string
+  display_name: string
+  parent_brand_id: string | null
+}
+
+// Columns of public.search_performance_summary used for shares
+export interface SearchQueryWeekRow {
+  asin: string
+  start_date: string
+  search_query: string
+  asin_impression_count: number | null
+  asin_click_count: number | null
+  asin_cart_add_count: number | null
+  asin_purchase_count: number | null
+  total_query_impression_count: number | null
+  total_click_count: number | null
+  total_cart_add_count: number | null
+  total_purchase_count: number | null
+}
+
+export interface ShareTotals {
+  impressions: number
+  clicks: number
+  cartAdds: number
+  purchases: number
+  // Market totals, counted once per query and week
+  marketImpressions: number
+  marketClicks: number
+  marketCartAdds: number
+  marketPurchases: number
+}
+
+// Fractions (0-1) of the market the group captured
+export interface Shares {
+  impressionShare: number
+  clickShare: number
+  cartAddShare: number
+  purchaseShare: number
+}
+
+export interface BrandScope {
+  brand: BrandHierarchyNode
+  // The brand first, then its descendants when sub-brands are included
+  brandIds: string[]
+  // Brand of every ASIN in scope
+  asinBrands: Map<string, string>
+  // Breakdown row of each brand in scope: the brand itself or its direct child
+  groups: Map<string, string>
+  nodes: BrandHierarchyNode[]
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * Ids of the brand and every brand below it, breadth first. Cycles in
+ * parent_brand_id are ignored rather than followed.
+ */
+export function getDescendantBrandIds(brandId: string, nodes: BrandHierarchyNode[]): string[] {
+  const children = new Map<string, string[]>()
+  nodes.forEach(node => {
+    if (!node.parent_brand_id) return
+    children.set(node.parent_brand_id, [...(children.get(node.parent_brand_id) || []), node.id])
+  })
+
+  const seen = new Set<string>([brandId])
+  const queue = [brandId]
+  for (let i = 0; i < queue.length; i++) {
+    for (const childId of children.get(queue[i]) || []) {
+      if (seen.has(childId)) continue
+      seen.add(childId)
+      queue.push(childId)
+    }
+  }
+  return queue
+}
+
+/**
+ * Maps each brand in the roll-up to the breakdown row it counts towards:
+ * grandchildren and below roll into their direct child of the parent.
+ */
+export function getRollupGroups(brandId: string, nodes: BrandHierarchyNode[]): Map<string, string> {
+  const groups = new Map<string, string>([[brandId, brandId]])
+  nodes
+    .filter(node => node.parent_brand_id === brandId && node.id !== brandId)
+    .forEach(child => {
+      getDescendantBrandIds(child.id, nodes).forEach(id => {
+        if (!groups.has(id)) groups.set(id, child.id)
+      })
+    })
+  return groups
+}
+
+/**
+ * Sums ASIN counts and market totals per group. The market total of a query
+ * and week is the same on every ASIN row, so it is counted once per group
+ * (the largest reported value wins) instead of once per ASIN.
+ */
+export function aggregateShareTotals(
+  rows: SearchQueryWeekRow[],
+  groupOf: (row: SearchQueryWeekRow) => string | null | undefined
+): Map<string, ShareTotals> {
+  const totals = new Map<string, ShareTotals>()
+  const markets = new Map<string, Map<string, SearchQueryWeekRow>>()
+
+  rows.forEach(row => {
+    const group = groupOf(row)
+    if (!group) return
+
+    const total = totals.get(group) || emptyTotals()
+    total.impressions += Number(row.asin_impression_count) || 0
+    total.clicks += Number(row.asin_click_count) || 0
+    total.cartAdds += Number(row.asin_cart_add_count) || 0
+    total.purchases += Number(row.asin_purchase_count) || 0
+    totals.set(group, total)
+
+    const groupMarkets = markets.get(group) || new Map<string, SearchQueryWeekRow>()
+    const key = `${row.search_query}|${row.start_date}`
+    const market = groupMarkets.get(key)
+    groupMarkets.set(key, market ? maxMarket(market, row) : row)
+    markets.set(group, groupMarkets)
+  })
+
+  markets.forEach((groupMarkets, group) => {
+    const total = totals.get(group)!
+    groupMarkets.forEach(market => {
+      total.marketImpressions += Number(market.total_query_impression_count) || 0
+      total.marketClicks += Number(market.total_click_count) || 0
+      total.marketCartAdds += Number(market.total_cart_add_count) || 0
+      total.marketPurchases += Number(market.total_purchase_count) || 0
+    })
+  })
+
+  return totals
+}
+
+export function calculateShares(totals?: ShareTotals): Shares {
+  const share = (count: number, market: number) => (market > 0 ? count / market : 0)
+  return {
+    impressionShare: share(totals?.impressions || 0, totals?.marketImpressions || 0),
+    clickShare: share(totals?.clicks || 0, totals?.marketClicks || 0),
+    cartAddShare: share(totals?.cartAdds || 0, totals?.marketCartAdds || 0),
+    purchaseShare: share(totals?.purchases || 0, totals?.marketPurchases || 0)
+  }
+}
+
+function emptyTotals(): ShareTotals {
+  return {
+    impressions: 0,
+    clicks: 0,
+    cartAdds: 0,
+    purchases: 0,
+    marketImpressions: 0,
+    marketClicks: 0,
+    marketCartAdds: 0,
+    marketPurchases: 0
+  }
+}
+
+function maxMarket(a: SearchQueryWeekRow, b: SearchQueryWeekRow): SearchQueryWeekRow {
+  return {
+    ...a,
+    total_query_impression_count: Math.max(Number(a.total_query_impression_count) || 0, Number(b.total_query_impression_count) || 0),
+    total_click_count: Math.max(Number(a.total_click_count) || 0, Number(b.total_click_count) || 0),
+    total_cart_add_count: Math.max(Number(a.total_cart_add_count) || 0, Number(b.total_cart_add_count) || 0),
+    total_purchase_count: Math.max(Number(a.total_purchase_count) || 0, Number(b.total_purchase_count) || 0)
+  }
+}
+
+/**
+ * Resolves which brands and ASINs a brand dashboard covers. With sub-brands
+ * included, every brand below the parent in public.brand_hierarchy is rolled up.
+ */
+export class BrandRollupService {
+  constructor(private supabase: any) {}
+
+  async getScope(brandId: string, includeChildren: boolean): Promise<BrandScope | null> {
+    const nodes = includeChildren ? await this.getHierarchy() : []
+    let brand = nodes.find(node => node.id === brandId)
+
+    if (!brand) {
+      const { data, error } = await this.supabase
+        .from('brands')
+        .select('id, display_name, parent_brand_id')
+        .eq('id', brandId)
+        .single()
+
+      if (error || !data) return null
+      brand = data as BrandHierarchyNode
+    }
+
+    const brandIds = includeChildren ? getDescendantBrandIds(brandId, nodes) : [brandId]
+    const groups = includeChildren ? getRollupGroups(brandId, nodes) : new Map([[brandId, brandId]])
+
+    const asinBrands = new Map<string, string>()
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('asin_brand_mapping')
+        .select('asin, brand_id')
+        .in('brand_id', brandIds)
+        .order('asin', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      ;(data || []).forEach((row: { asin: string; brand_id: string }) => asinBrands.set(row.asin, row.brand_id))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return {
+      brand,
+      brandIds,
+      asinBrands,
+      groups,
+      nodes: nodes.length > 0 ? nodes : [brand]
+    }
+  }
+
+  async getSearchQueryRows(asins: string[], startDate: string, endDate: string): Promise<SearchQueryWeekRow[]> {
+    if (asins.length === 0) return []
+
+    const rows: SearchQueryWeekRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('search_performance_summary')
+        .select('asin, start_date, search_query, asin_impression_count, asin_click_count, asin_cart_add_count, asin_purchase_count, total_query_impression_count, total_click_count, total_cart_add_count, total_purchase_count')
+        .in('asin', asins)
+        .gte('start_date', startDate)
+        .lte('end_date', endDate)
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  private async getHierarchy(): Promise<BrandHierarchyNode[]> {
+    const { data, error } = await this.supabase
+      .from('brand_hierarchy')
+      .select('id, display_name, parent_brand_id')
+
+    if (error) {
+      throw error
+    }
+    return data || []
+  }
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+import type { BrandRuleType } from './brand-rule-schema'
+
+export interface ExtractionRule {
+  id: string
+  brand_id: string
+  rule_type: BrandRuleType
+  pattern: string
+  priority: number
+  is_case_sensitive: boolean
+  is_active: boolean
+  confidence_threshold: number
+}
+
+export interface ProductTitle {
+  asin: string
+  product_title: string
+}
+
+export interface CurrentMapping {
+  asin: string
+  brand_id: string
+  extraction_method: 'automatic' | 'manual' | 'override'
+  verified?: boolean | null
+  is_verified?: boolean | null
+  is_locked?: boolean | null
+}
+
+export interface RuleMatch {
+  rule_id: string
+  brand_id: string
+  rule_type: BrandRuleType
+  pattern: string
+  priority: number
+  confidence: number
+}
+
+export type RulePreviewStatus =
+  | 'new'              // unmapped ASIN the draft would map
+  | 'reassign'         // mapped to another brand, the draft would move it
+  | 'unchanged'        // already mapped to the draft's brand
+  | 'protected'        // the draft wins, but the mapping is manual, override, verified or locked
+  | 'outranked'        // a rule for another brand wins
+  | 'below_threshold'  // the draft wins, but under its confidence threshold
+
+export interface RulePreviewItem {
+  asin: string
+  product_title: string
+  current_brand_id: string | null
+  winner: RuleMatch
+  status: RulePreviewStatus
+  // Rules for other brands that also match, highest ranked first
+  competing: RuleMatch[]
+}
+
+export interface RulePreview {
+  titles_scanned: number
+  summary: Record<RulePreviewStatus, number> & { matched: number; conflicts: number }
+  items: RulePreviewItem[]
+}
+
+// Stands in for the id of a rule that has not been saved yet
+export const DRAFT_RULE_ID = 'draft'
+
+const PREVIEW_STATUSES: RulePreviewStatus[] = ['reassign', 'new', 'protected', 'outranked', 'below_threshold', 'unchanged']
+
+const regexCache = new Map<string, RegExp | null>()
+
+function compile(pattern: string, flags = ''): RegExp | null {
+  const key = `${flags}/${pattern}`
+  if (!regexCache.has(key)) {
+    try {
+      regexCache.set(key, new RegExp(pattern, flags))
+    } catch {
+      regexCache.set(key, null)
+    }
+  }
+  return regexCache.get(key)!
+}
+
+function matchesPattern(title: string, pattern: string, ruleType: BrandRuleType, flags = ''): boolean {
+  switch (ruleType) {
+    case 'exact':
+      return title === pattern
+    case 'contains':
+      return title.includes(pattern)
+    case 'prefix':
+      return title.startsWith(pattern)
+    case 'suffix':
+      return title.endsWith(pattern)
+    case 'regex':
+      return compile(pattern, flags)?.test(title) || false
+  }
+}
+
+/**
+ * Whether a rule matches a title and the confidence it gives, following
+ * public.extract_brand_from_title: case-insensitive rules compare the trimmed,
+ * lowercased title, and confidence is always scored on that normalized title.
+ * Returns null when the rule does not match.
+ */
+export function scoreRule(rule: ExtractionRule, title: string): number | null {
+  const normalized = title.trim().toLowerCase()
+  const matched = rule.is_case_sensitive
+    ? matchesPattern(title, rule.pattern, rule.rule_type)
+    : matchesPattern(normalized, rule.rule_type === 'regex' ? rule.pattern : rule.pattern.toLowerCase(), rule.rule_type, 'i')
+
+  if (!matched) return null
+
+  const lowerPattern = rule.pattern.toLowerCase()
+  switch (rule.rule_type) {
+    case 'exact':
+      return normalized === lowerPattern ? 1 : 0
+    case 'contains':
+      return normalized.includes(lowerPattern) ? 0.9 : 0
+    case 'prefix':
+      return normalized.startsWith(lowerPattern) ? 0.85 : 0
+    case 'suffix':
+      return normalized.endsWith(lowerPattern) ? 0.85 : 0
+    case 'regex':
+      return matchesPattern(normalized, rule.pattern, 'regex') ? Number(rule.confidence_threshold) : 0
+  }
+}
+
+/**
+ * Ranks the brands whose active rules match a title, as the database does:
+ * each brand is represented by its highest-priority matching rule, brands
+ * whose representative scores zero drop out, and the rest are ordered by
+ * confidence and then priority. The first entry is the brand that wins.
+ */
+export function rankMatches(title: string, rules: ExtractionRule[]): RuleMatch[] {
+  const byBrand = new Map<string, RuleMatch>()
+
+  rules.forEach(rule => {
+    if (!rule.is_active) return
+    const confidence = scoreRule(rule, title)
+    if (confidence === null) return
+
+    const current = byBrand.get(rule.brand_id)
+    if (current && (current.priority > rule.priority || (current.priority === rule.priority && current.confidence >= confidence))) {
+      return
+    }
+    byBrand.set(rule.brand_id, {
+      rule_id: rule.id,
+      brand_id: rule.brand_id,
+      rule_type: rule.rule_type,
+      pattern: rule.pattern,
+      priority: rule.priority,
+      confidence
+    })
+  })
+
+  return Array.from(byBrand.values())
+    .filter(match => match.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence || b.priority - a.priority)
+}
+
+function isProtected(mapping: CurrentMapping): boolean {
+  return mapping.extraction_method !== 'automatic' || !!mapping.verified || !!mapping.is_verified || !!mapping.is_locked
+}
+
+/**
+ * Runs a draft rule against every title alongside the saved rules (the draft
+ * replaces the saved rule with the same id) and reports what would happen to
+ * each ASIN the draft matches.
+ */
+export function previewRule(
+  draft: Omit<ExtractionRule, 'id'> & { id?: string },
+  rules: ExtractionRule[],
+  titles: ProductTitle[],
+  mappings: CurrentMapping[]
+): RulePreview {
+  const draftRule: ExtractionRule = { ...draft, id: draft.id || DRAFT_RULE_ID, is_active: true }
+  const ruleSet = [...rules.filter(rule => rule.id !== draftRule.id), draftRule]
+  const mappingByAsin = new Map(mappings.map(mapping => [mapping.asin, mapping]))
+
+  const summary = Object.fromEntries(PREVIEW_STATUSES.map(status => [status, 0])) as RulePreview['summary']
+  summary.matched = 0
+  summary.conflicts = 0
+  const items: RulePreviewItem[] = []
+
+  titles.forEach(({ asin, product_title }) => {
+    if (!product_title || scoreRule(draftRule, product_title) === null) return
+
+    const ranked = rankMatches(product_title, ruleSet)
+    const mapping = mappingByAsin.get(asin)
+    const draftMatch: RuleMatch = ranked.find(match => match.brand_id === draftRule.brand_id) || {
+      rule_id: draftRule.id,
+      brand_id: draftRule.brand_id,
+      rule_type: draftRule.rule_type,
+      pattern: draftRule.pattern,
+      priority: draftRule.priority,
+      confidence: 0
+    }
+    const winner = ranked[0] || draftMatch
+
+    let status: RulePreviewStatus
+    if (winner.brand_id !== draftRule.brand_id) {
+      status = 'outranked'
+    } else if (winner.confidence < draftRule.confidence_threshold) {
+      status = 'below_threshold'
+    } else if (!mapping) {
+      status = 'new'
+    } else if (mapping.brand_id === draftRule.brand_id) {
+      status = 'unchanged'
+    } else if (isProtected(mapping)) {
+      status = 'protected'
+    } else {
+      status = 'reassign'
+    }
+
+    const competing = ranked.filter(match => match.brand_id !== draftRule.brand_id)
+
+    summary.matched += 1
+    summary[status] += 1
+    if (competing.length > 0) summary.conflicts += 1
+
+    items.push({
+      asin,
+      product_title,
+      current_brand_id: mapping?.brand_id || null,
+      winner,
+      status,
+      competing
+    })
+  })
+
+  // Changes first, then the ASINs the draft matches but leaves alone
+  items.sort((a, b) => PREVIEW_STATUSES.indexOf(a.status) - PREVIEW_STATUSES.indexOf(b.status))
+
+  return { titles_scanned: titles.length, summary, items }
+}
+
+export function isAssignable(item: RulePreviewItem): boolean {
+  return item.status === 'new' || item.status === 'reassign'
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+
+export const BRAND_RULE_TYPES = ['exact', 'contains', 'regex', 'prefix', 'suffix'] as const
+
+export type BrandRuleType = typeof BRAND_RULE_TYPES[number]
+
+export const BRAND_REVIEW_ACTIONS = ['approve', 'override'] as const
+
+export type BrandReviewAction = typeof BRAND_REVIEW_ACTIONS[number]
+
+const brandRuleFields = z.object({
+  brand_id: z.string().uuid(),
+  rule_type: z.enum(BRAND_RULE_TYPES),
+  pattern: z.string().trim().min(1).max(500),
+  priority: z.number().int().min(0).max(1000).default(0),
+  is_case_sensitive: z.boolean().default(false),
+  is_active: z.boolean().default(true),
+  confidence_threshold: z.number().min(0).max(1).default(0.8)
+})
+
+function validateRule(rule: Partial<z.infer<typeof brandRuleFields>>, ctx: z.RefinementCtx) {
+  if (rule.rule_type === 'regex' && rule.pattern) {
+    try {
+      new RegExp(rule.pattern)
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', path: ['pattern'], message: `Invalid regular expression: ${(error as Error).message}` })
+    }
+  }
+}
+
+export const brandRuleSchema = brandRuleFields.superRefine(validateRule)
+
+// Updates are validated against the stored rule merged with the patch
+export const brandRuleUpdateSchema = brandRuleFields.partial()
+
+// A rule being edited carries its id so the preview replaces the saved version
+export const brandRuleDraftSchema = brandRuleFields.extend({
+  id: z.string().uuid().optional()
+}).superRefine(validateRule)
+
+export const brandRuleApplySchema = z.object({
+  rule: brandRuleDraftSchema,
+  // Limits the change to these ASINs; all reassignable ASINs otherwise
+  asins: z.array(z.string().min(1)).optional()
+})
+
+// Approve accepts a suggested or current brand, override picks another; both lock the mapping
+export const brandReviewSchema = z.object({
+  decisions: z.array(z.object({
+    asin: z.string().min(1),
+    brand_id: z.string().uuid(),
+    action: z.enum(BRAND_REVIEW_ACTIONS),
+    note: z.string().max(500).optional()
+  })).min(1).max(500)
+})
+
+export type BrandRuleInput = z.infer<typeof brandRuleSchema>
+export type BrandRuleDraft = z.infer<typeof brandRuleDraftSchema>
+export type BrandReviewDecision = z.infer<typeof brandReviewSchema>['decisions'][number]
\ No newline at end of file
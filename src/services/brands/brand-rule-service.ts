@@ -0,0 +1,252 @@
+import { createClient } from '@supabase/supabase-js'
+import {
+  CurrentMapping,
+  ExtractionRule,
+  ProductTitle,
+  RulePreview,
+  isAssignable,
+  previewRule
+} from './brand-rule-engine'
+import type { BrandRuleDraft, BrandRuleInput } from './brand-rule-schema'
+
+export interface BrandRule extends ExtractionRule {
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ApplyRuleOptions {
+  // Limits the change to these ASINs
+  asins?: string[]
+  userId?: string | null
+}
+
+export interface ApplyRuleResult {
+  rule: BrandRule
+  preview: RulePreview
+  // ASINs the preview offered to map or move
+  assignable: number
+  // ASINs whose brand actually changed
+  applied: number
+}
+
+interface BrandRuleDependencies {
+  supabase?: any
+}
+
+const RULE_COLUMNS = 'id, brand_id, rule_type, pattern, priority, is_case_sensitive, is_active, confidence_threshold, created_by, created_at, updated_at'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Manages brand extraction rules and lets a draft rule be tried against every
+ * known product title before it is saved. Applying a draft saves it and moves
+ * the ASINs it wins through public.apply_brand_rule_assignments, which records
+ * each move in asin_brand_mapping_history.
+ */
+export class BrandRuleService {
+  private supabase: any
+
+  constructor(deps: BrandRuleDependencies = {}) {
+    this.supabase = deps.supabase
+  }
+
+  private getSupabaseClient() {
+    if (!this.supabase) {
+      const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('Missing Supabase environment variables')
+      }
+
+      this.supabase = createClient(supabaseUrl, supabaseKey)
+    }
+    return this.supabase
+  }
+
+  async listRules(brandId?: string): Promise<BrandRule[]> {
+    let query = this.getSupabaseClient()
+      .from('brand_extraction_rules')
+      .select(RULE_COLUMNS)
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true })
+
+    if (brandId) {
+      query = query.eq('brand_id', brandId)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch extraction rules: ${error.message}`)
+    }
+    return (data || []).map(normalizeRule)
+  }
+
+  async getRule(id: string): Promise<BrandRule | null> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('brand_extraction_rules')
+      .select(RULE_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch extraction rule: ${error.message}`)
+    }
+    return data ? normalizeRule(data) : null
+  }
+
+  async createRule(input: BrandRuleInput, userId?: string | null): Promise<BrandRule> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('brand_extraction_rules')
+      .insert({ ...input, created_by: userId || null })
+      .select(RULE_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create extraction rule: ${error.message}`)
+    }
+    return normalizeRule(data)
+  }
+
+  async updateRule(id: string, updates: Partial<BrandRuleInput>): Promise<BrandRule> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('brand_extraction_rules')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(RULE_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update extraction rule: ${error.message}`)
+    }
+    return normalizeRule(data)
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const supabase = this.getSupabaseClient()
+
+    // Mappings keep their brand but no longer point at the rule that made them
+    const { error: detachError } = await supabase
+      .from('asin_brand_mapping')
+      .update({ extraction_rule_id: null })
+      .eq('extraction_rule_id', id)
+
+    if (detachError) {
+      throw new Error(`Failed to detach mappings from extraction rule: ${detachError.message}`)
+    }
+
+    const { error } = await supabase
+      .from('brand_extraction_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete extraction rule: ${error.message}`)
+    }
+  }
+
+  async previewRule(draft: BrandRuleDraft): Promise<RulePreview> {
+    const [rules, titles, mappings] = await Promise.all([
+      this.getActiveRules(),
+      this.getProductTitles(),
+      this.getMappings()
+    ])
+    return previewRule(draft, rules, titles, mappings)
+  }
+
+  /**
+   * Saves the draft (creating it when it has no id) and moves the ASINs the
+   * preview marks as new or reassigned to its brand. The preview is rebuilt
+   * here rather than trusted from the client.
+   */
+  async applyRule(draft: BrandRuleDraft, options: ApplyRuleOptions = {}): Promise<ApplyRuleResult> {
+    const preview = await this.previewRule(draft)
+    const { id, ...fields } = draft
+    const rule = id ? await this.updateRule(id, fields) : await this.createRule(fields, options.userId)
+
+    const selected = options.asins ? new Set(options.asins) : null
+    const assignments = preview.items
+      .filter(item => isAssignable(item) && (!selected || selected.has(item.asin)))
+      .map(item => ({
+        asin: item.asin,
+        product_title: item.product_title,
+        confidence: item.winner.confidence
+      }))
+
+    let applied = 0
+    if (assignments.length > 0 && rule.is_active) {
+      const { data, error } = await this.getSupabaseClient().rpc('apply_brand_rule_assignments', {
+        p_rule_id: rule.id,
+        p_assignments: assignments,
+        p_changed_by: options.userId || null
+      })
+
+      if (error) {
+        throw new Error(`Extraction rule saved, but applying it failed: ${error.message}`)
+      }
+      applied = data || 0
+    }
+
+    return { rule, preview, assignable: assignments.length, applied }
+  }
+
+  // Active rules of active brands, the set extract_brand_from_title uses
+  async getActiveRules(): Promise<ExtractionRule[]> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('brand_extraction_rules')
+      .select(`${RULE_COLUMNS}, brands!inner(is_active)`)
+      .eq('is_active', true)
+      .eq('brands.is_active', true)
+
+    if (error) {
+      throw new Error(`Failed to fetch extraction rules: ${error.message}`)
+    }
+    return (data || []).map(normalizeRule)
+  }
+
+  private async getProductTitles(): Promise<ProductTitle[]> {
+    return this.fetchAll('asin_product_titles', 'asin, product_title', 'Failed to fetch product titles')
+  }
+
+  private async getMappings(): Promise<CurrentMapping[]> {
+    return this.fetchAll(
+      'asin_brand_mapping',
+      'asin, brand_id, extraction_method, verified, is_verified, is_locked',
+      'Failed to fetch brand mappings'
+    )
+  }
+
+  private async fetchAll<T>(table: string, columns: string, message: string): Promise<T[]> {
+    const rows: T[] = []
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.getSupabaseClient()
+        .from(table)
+        .select(columns)
+        .order('asin')
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`${message}: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+}
+
+// Supabase returns NUMERIC columns as strings
+function normalizeRule(row: any): BrandRule {
+  const { brands, ...rule } = row
+  return {
+    ...rule,
+    priority: Number(rule.priority) || 0,
+    confidence_threshold: Number(rule.confidence_threshold)
+  }
+}
+
+export const brandRuleService = new BrandRuleService()
\ No newline at end of file
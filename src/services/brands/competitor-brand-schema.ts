@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+const competitorBrandFields = z.object({
+  name: z.string().trim().min(1).max(255),
+  aliases: z.array(z.string().trim().min(1).max(255)).max(50).default([]),
+  brand_id: z.string().uuid().optional().nullable(),
+  is_active: z.boolean().default(true)
+})
+
+export const competitorBrandSchema = competitorBrandFields
+
+// Updates are validated against the stored competitor merged with the patch
+export const competitorBrandUpdateSchema = competitorBrandFields.partial()
+
+// Limits the listing to one brand's competitors plus the shared ones
+export const competitorBrandQuerySchema = z.object({
+  brand_id: z.string().uuid().optional()
+})
+
+export type CompetitorBrandInput = z.infer<typeof competitorBrandSchema>
+
+export interface CompetitorBrand extends CompetitorBrandInput {
+  id: string
+  created_at?: string
+  updated_at?: string
+}
\ No newline at end of file
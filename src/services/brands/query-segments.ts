@@ -0,0 +1,390 @@
+import {
+  BrandRollupService,
+  SearchQueryWeekRow,
+  ShareTotals,
+  Shares,
+  aggregateShareTotals,
+  calculateShares
+} from './brand-rollup'
+import type { ExtractionRule } from './brand-rule-engine'
+import type { CompetitorBrand } from './competitor-brand-schema'
+import { MetricValues, SHARE_METRICS, rankQueries } from './share-of-voice'
+
+export const QUERY_SEGMENTS = ['branded', 'competitor', 'generic'] as const
+
+export type QuerySegment = typeof QUERY_SEGMENTS[number]
+
+export interface SegmentTerm {
+  segment: Exclude<QuerySegment, 'generic'>
+  // Brand or competitor the term stands for
+  label: string
+  term: string
+  // The term's tokens joined, so "work sharp" also matches "worksharp"
+  compact: string
+  // Set for regex extraction rules, which are tested against the raw query
+  regex?: RegExp
+}
+
+export interface BrandNameRow {
+  id: string
+  display_name: string
+  brand_name?: string | null
+  normalized_name?: string | null
+}
+
+export interface QueryClassification {
+  segment: QuerySegment
+  // Brand or competitor matched; null for generic queries
+  label: string | null
+  term: string | null
+}
+
+export interface ClassifiedQuery extends QueryClassification {
+  query: string
+  impressions: number
+  purchases: number
+}
+
+export interface SegmentRates {
+  clickThroughRate: number
+  cartAddRate: number
+  purchaseRate: number
+  overallConversionRate: number
+}
+
+export interface SegmentMetrics {
+  segment: QuerySegment
+  // Queries with data in the period
+  queryCount: number
+  totals: ShareTotals
+  rates: SegmentRates
+  shares: Shares
+}
+
+export type SegmentBreakdown = Record<QuerySegment, SegmentMetrics>
+
+export interface QuerySegmentWeek {
+  startDate: string
+  totals: Record<QuerySegment, MetricValues>
+  // Percent of the week's own volume that came from branded queries
+  brandedShare: MetricValues
+}
+
+export interface QuerySegmentReport {
+  segments: SegmentBreakdown
+  weeks: QuerySegmentWeek[]
+  // Busiest queries with the segment and term that classified them
+  queries: ClassifiedQuery[]
+  // Same breakdown for the comparison period, when one was requested
+  comparison: SegmentBreakdown | null
+}
+
+export interface QuerySegmentParams {
+  asins: string[]
+  startDate: string
+  endDate: string
+  compareStartDate?: string
+  compareEndDate?: string
+  // Brands whose competitor list applies; null applies every competitor
+  brandIds: string[] | null
+  queryLimit?: number
+}
+
+// Shorter names ("ge", "hp") match too many unrelated queries
+const MIN_TERM_LENGTH = 3
+
+const DEFAULT_QUERY_LIMIT = 50
+
+export function tokenizeQuery(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function literalTerm(segment: SegmentTerm['segment'], label: string, term: string): SegmentTerm | null {
+  const compact = tokenizeQuery(term).join('')
+  return compact.length >= MIN_TERM_LENGTH ? { segment, label, term, compact } : null
+}
+
+function regexTerm(label: string, rule: Pick<ExtractionRule, 'pattern' | 'is_case_sensitive'>): SegmentTerm | null {
+  try {
+    return {
+      segment: 'branded',
+      label,
+      term: rule.pattern,
+      compact: '',
+      regex: new RegExp(rule.pattern, rule.is_case_sensitive ? '' : 'i')
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Terms that make a query branded or competitor. Our brands contribute their
+ * names and the patterns of their active extraction rules (regex rules are
+ * tested as written, other rule types as plain terms); active competitors
+ * contribute their name and aliases. Branded terms come first.
+ */
+export function buildSegmentTerms(
+  brands: BrandNameRow[],
+  rules: Array<Pick<ExtractionRule, 'brand_id' | 'rule_type' | 'pattern' | 'is_case_sensitive' | 'is_active'>>,
+  competitors: Array<Pick<CompetitorBrand, 'name' | 'aliases' | 'is_active'>>
+): SegmentTerm[] {
+  const terms: SegmentTerm[] = []
+  const seen = new Set<string>()
+  const add = (term: SegmentTerm | null) => {
+    if (!term) return
+    const key = term.regex ? `regex/${term.regex.source}` : term.compact
+    if (seen.has(key)) return
+    seen.add(key)
+    terms.push(term)
+  }
+
+  brands.forEach(brand => {
+    [brand.display_name, brand.brand_name, brand.normalized_name].forEach(name => {
+      if (name) add(literalTerm('branded', brand.display_name, name))
+    })
+  })
+
+  const brandNames = new Map(brands.map(brand => [brand.id, brand.display_name]))
+  rules.filter(rule => rule.is_active).forEach(rule => {
+    const label = brandNames.get(rule.brand_id) || rule.pattern
+    add(rule.rule_type === 'regex' ? regexTerm(label, rule) : literalTerm('branded', label, rule.pattern))
+  })
+
+  competitors.filter(competitor => competitor.is_active).forEach(competitor => {
+    [competitor.name, ...(competitor.aliases || [])].forEach(name => add(literalTerm('competitor', competitor.name, name)))
+  })
+
+  return terms
+}
+
+/**
+ * Whether a run of consecutive query tokens spells the term, ignoring spaces
+ * and punctuation between them
+ */
+function containsTerm(tokens: string[], compact: string): boolean {
+  for (let start = 0; start < tokens.length; start++) {
+    let run = ''
+    for (let end = start; end < tokens.length && run.length < compact.length; end++) {
+      run += tokens[end]
+      if (run === compact) return true
+    }
+  }
+  return false
+}
+
+/**
+ * Branded wins over competitor, so a query naming both counts as branded.
+ * Queries matching no term are generic.
+ */
+export function classifyQuery(query: string, terms: SegmentTerm[]): QueryClassification {
+  const tokens = tokenizeQuery(query)
+
+  for (const segment of ['branded', 'competitor'] as const) {
+    const match = terms.find(term =>
+      term.segment === segment && (term.regex ? term.regex.test(query) : containsTerm(tokens, term.compact))
+    )
+    if (match) {
+      return { segment, label: match.label, term: match.term }
+    }
+  }
+
+  return { segment: 'generic', label: null, term: null }
+}
+
+export function classifyQueries(queries: string[], terms: SegmentTerm[]): Map<string, QueryClassification> {
+  return new Map(Array.from(new Set(queries)).map(query => [query, classifyQuery(query, terms)]))
+}
+
+function toRates(totals: ShareTotals): SegmentRates {
+  return {
+    clickThroughRate: totals.impressions > 0 ? totals.clicks / totals.impressions : 0,
+    cartAddRate: totals.clicks > 0 ? totals.cartAdds / totals.clicks : 0,
+    purchaseRate: totals.cartAdds > 0 ? totals.purchases / totals.cartAdds : 0,
+    overallConversionRate: totals.impressions > 0 ? totals.purchases / totals.impressions : 0
+  }
+}
+
+function emptyTotals(): ShareTotals {
+  return {
+    impressions: 0,
+    clicks: 0,
+    cartAdds: 0,
+    purchases: 0,
+    marketImpressions: 0,
+    marketClicks: 0,
+    marketCartAdds: 0,
+    marketPurchases: 0
+  }
+}
+
+function toMetricValues(totals?: ShareTotals): MetricValues {
+  return {
+    impressions: totals?.impressions || 0,
+    clicks: totals?.clicks || 0,
+    cartAdds: totals?.cartAdds || 0,
+    purchases: totals?.purchases || 0
+  }
+}
+
+/**
+ * Totals, rates and market shares per segment. Counts are summed over the
+ * segment's queries and market totals are counted once per query and week.
+ */
+export function aggregateSegments(
+  rows: SearchQueryWeekRow[],
+  classifications: Map<string, QueryClassification>
+): SegmentBreakdown {
+  const segmentOf = (row: SearchQueryWeekRow) => classifications.get(row.search_query)?.segment
+  const totals = aggregateShareTotals(rows, segmentOf)
+
+  const queryCounts = new Map<QuerySegment, Set<string>>()
+  rows.forEach(row => {
+    const segment = segmentOf(row)
+    if (!segment) return
+    queryCounts.set(segment, (queryCounts.get(segment) || new Set()).add(row.search_query))
+  })
+
+  return Object.fromEntries(QUERY_SEGMENTS.map(segment => {
+    const segmentTotals = totals.get(segment) || emptyTotals()
+    return [segment, {
+      segment,
+      queryCount: queryCounts.get(segment)?.size || 0,
+      totals: segmentTotals,
+      rates: toRates(segmentTotals),
+      shares: calculateShares(segmentTotals)
+    }]
+  })) as SegmentBreakdown
+}
+
+/**
+ * Weekly own volume per segment and the percent of it from branded queries
+ */
+export function buildSegmentWeeks(
+  rows: SearchQueryWeekRow[],
+  classifications: Map<string, QueryClassification>
+): QuerySegmentWeek[] {
+  const totals = aggregateShareTotals(rows, row => {
+    const segment = classifications.get(row.search_query)?.segment
+    return segment ? `${row.start_date}|${segment}` : null
+  })
+  const weeks = Array.from(new Set(rows.map(row => row.start_date))).sort()
+
+  return weeks.map(startDate => {
+    const bySegment = Object.fromEntries(
+      QUERY_SEGMENTS.map(segment => [segment, toMetricValues(totals.get(`${startDate}|${segment}`))])
+    ) as Record<QuerySegment, MetricValues>
+
+    const brandedShare = Object.fromEntries(SHARE_METRICS.map(metric => {
+      const all = QUERY_SEGMENTS.reduce((sum, segment) => sum + bySegment[segment][metric], 0)
+      return [metric, all > 0 ? (bySegment.branded[metric] / all) * 100 : 0]
+    })) as MetricValues
+
+    return { startDate, totals: bySegment, brandedShare }
+  })
+}
+
+export function rankClassifiedQueries(
+  rows: SearchQueryWeekRow[],
+  classifications: Map<string, QueryClassification>,
+  limit = DEFAULT_QUERY_LIMIT
+): ClassifiedQuery[] {
+  const purchases = new Map<string, number>()
+  rows.forEach(row => {
+    purchases.set(row.search_query, (purchases.get(row.search_query) || 0) + (Number(row.asin_purchase_count) || 0))
+  })
+
+  return rankQueries(rows).slice(0, limit).map(({ query, impressions }) => ({
+    query,
+    impressions,
+    purchases: purchases.get(query) || 0,
+    ...(classifications.get(query) || { segment: 'generic' as const, label: null, term: null })
+  }))
+}
+
+/**
+ * Splits an ASIN set's search query performance into branded, competitor and
+ * generic queries
+ */
+export class QuerySegmentService {
+  constructor(
+    private supabase: any,
+    private rollup: Pick<BrandRollupService, 'getSearchQueryRows'> = new BrandRollupService(supabase)
+  ) {}
+
+  async getTerms(brandIds: string[] | null): Promise<SegmentTerm[]> {
+    let competitorQuery = this.supabase
+      .from('competitor_brands')
+      .select('name, aliases, brand_id, is_active')
+      .eq('is_active', true)
+
+    if (brandIds && brandIds.length > 0) {
+      competitorQuery = competitorQuery.or(`brand_id.is.null,brand_id.in.(${brandIds.join(',')})`)
+    } else if (brandIds) {
+      competitorQuery = competitorQuery.is('brand_id', null)
+    }
+
+    const [brands, rules, competitors] = await Promise.all([
+      this.supabase
+        .from('brands')
+        .select('id, display_name, brand_name, normalized_name')
+        .eq('is_active', true),
+      this.supabase
+        .from('brand_extraction_rules')
+        .select('brand_id, rule_type, pattern, is_case_sensitive, is_active')
+        .eq('is_active', true),
+      competitorQuery
+    ])
+
+    const error = brands.error || rules.error || competitors.error
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return buildSegmentTerms(brands.data || [], rules.data || [], competitors.data || [])
+  }
+
+  // Brands the ASINs are mapped to, for picking the competitor list
+  async getAsinBrandIds(asins: string[]): Promise<string[]> {
+    if (asins.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('asin_brand_mapping')
+      .select('brand_id')
+      .in('asin', asins)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return Array.from(new Set((data || []).map((row: { brand_id: string }) => row.brand_id)))
+  }
+
+  async getReport(params: QuerySegmentParams): Promise<QuerySegmentReport> {
+    const { asins, startDate, endDate, compareStartDate, compareEndDate, brandIds, queryLimit } = params
+    const compare = !!compareStartDate && !!compareEndDate
+
+    const [terms, rows, comparisonRows] = await Promise.all([
+      this.getTerms(brandIds),
+      this.rollup.getSearchQueryRows(asins, startDate, endDate),
+      compare ? this.rollup.getSearchQueryRows(asins, compareStartDate!, compareEndDate!) : Promise.resolve([])
+    ])
+
+    const classifications = classifyQueries(
+      [...rows, ...comparisonRows].map(row => row.search_query),
+      terms
+    )
+
+    return {
+      segments: aggregateSegments(rows, classifications),
+      weeks: buildSegmentWeeks(rows, classifications),
+      queries: rankClassifiedQueries(rows, classifications, queryLimit),
+      comparison: compare ? aggregateSegments(comparisonRows, classifications) : null
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { BrandRollupService, SearchQueryWeekRow, ShareTotals, aggregateShareTotals } from './brand-rollup'
+
+export const SHARE_METRICS = ['impressions', 'clicks', 'cartAdds', 'purchases'] as const
+
+export type ShareMetric = typeof SHARE_METRICS[number]
+
+export type MetricValues<T = number> = Record<ShareMetric, T>
+
+export interface ShareOfVoiceWeek {
+  startDate: string
+  // Brand counts on the selected queries
+  brand: MetricValues
+  // Market totals of the selected queries, counted once per query
+  market: MetricValues
+  // Volume captured by everyone else
+  restOfMarket: MetricValues
+  // Percent of the market
+  share: MetricValues
+  // Percentage points against the previous week; null for the first week
+  shareChange: MetricValues<number | null>
+  // Fractional change of the market total against the previous week
+  marketChange: MetricValues<number | null>
+  // Metrics whose share moved by the threshold while their market stayed flat
+  flags: ShareMetric[]
+}
+
+export interface ShareOfVoiceOptions {
+  // Percentage points the share must move by to flag a week
+  shareChangeThreshold?: number
+  // Largest fractional market change still counted as flat
+  flatMarketTolerance?: number
+}
+
+export interface QueryVolume {
+  query: string
+  impressions: number
+}
+
+export interface ShareOfVoiceParams extends ShareOfVoiceOptions {
+  startDate: string
+  endDate: string
+  // Defaults to the brand's top queries by impressions
+  queries?: string[]
+  includeChildren?: boolean
+}
+
+export interface ShareOfVoiceReport {
+  brand: { id: string; display_name: string }
+  queries: string[]
+  weeks: ShareOfVoiceWeek[]
+  // Queries the brand had impressions on, for picking the tracked set
+  availableQueries: QueryVolume[]
+  flaggedWeeks: number
+}
+
+const DEFAULT_OPTIONS: Required<ShareOfVoiceOptions> = {
+  shareChangeThreshold: 5,
+  flatMarketTolerance: 0.1
+}
+
+const DEFAULT_QUERY_COUNT = 5
+const AVAILABLE_QUERY_LIMIT = 50
+
+function toMetrics(totals: ShareTotals): { brand: MetricValues; market: MetricValues } {
+  return {
+    brand: {
+      impressions: totals.impressions,
+      clicks: totals.clicks,
+      cartAdds: totals.cartAdds,
+      purchases: totals.purchases
+    },
+    market: {
+      impressions: totals.marketImpressions,
+      clicks: totals.marketClicks,
+      cartAdds: totals.marketCartAdds,
+      purchases: totals.marketPurchases
+    }
+  }
+}
+
+function mapMetrics<T>(fn: (metric: ShareMetric) => T): MetricValues<T> {
+  return Object.fromEntries(SHARE_METRICS.map(metric => [metric, fn(metric)])) as MetricValues<T>
+}
+
+/**
+ * Queries ranked by the brand's impressions on them
+ */
+export function rankQueries(rows: SearchQueryWeekRow[]): QueryVolume[] {
+  const volumes = new Map<string, number>()
+  rows.forEach(row => {
+    volumes.set(row.search_query, (volumes.get(row.search_query) || 0) + (Number(row.asin_impression_count) || 0))
+  })
+
+  return Array.from(volumes.entries())
+    .map(([query, impressions]) => ({ query, impressions }))
+    .filter(query => query.impressions > 0)
+    .sort((a, b) => b.impressions - a.impressions || a.query.localeCompare(b.query))
+}
+
+/**
+ * Weekly share of voice of the brand on a set of queries. A week is flagged
+ * when a share moved by at least the threshold while the matching market
+ * total stayed within the tolerance, i.e. the brand won or lost share rather
+ * than demand changing.
+ */
+export function buildShareOfVoice(
+  rows: SearchQueryWeekRow[],
+  queries: string[],
+  options: ShareOfVoiceOptions = {}
+): ShareOfVoiceWeek[] {
+  const { shareChangeThreshold, flatMarketTolerance } = { ...DEFAULT_OPTIONS, ...options }
+  const tracked = new Set(queries)
+  const byWeek = aggregateShareTotals(rows.filter(row => tracked.has(row.search_query)), row => row.start_date)
+
+  const weeks: ShareOfVoiceWeek[] = []
+  Array.from(byWeek.keys()).sort().forEach(startDate => {
+    const { brand, market } = toMetrics(byWeek.get(startDate)!)
+    const share = mapMetrics(metric => (market[metric] > 0 ? (brand[metric] / market[metric]) * 100 : 0))
+    const previous = weeks[weeks.length - 1]
+
+    const shareChange = mapMetrics(metric => (previous ? share[metric] - previous.share[metric] : null))
+    const marketChange = mapMetrics(metric =>
+      previous && previous.market[metric] > 0
+        ? (market[metric] - previous.market[metric]) / previous.market[metric]
+        : null
+    )
+
+    weeks.push({
+      startDate,
+      brand,
+      market,
+      restOfMarket: mapMetrics(metric => Math.max(market[metric] - brand[metric], 0)),
+      share,
+      shareChange,
+      marketChange,
+      flags: SHARE_METRICS.filter(metric => {
+        const moved = shareChange[metric]
+        const change = marketChange[metric]
+        return moved !== null && change !== null &&
+          Math.abs(moved) >= shareChangeThreshold &&
+          Math.abs(change) <= flatMarketTolerance
+      })
+    })
+  })
+
+  return weeks
+}
+
+/**
+ * Tracks a brand's share of voice week by week on a chosen set of queries,
+ * using the same ASIN scope as the brand dashboard
+ */
+export class ShareOfVoiceService {
+  constructor(private rollup: Pick<BrandRollupService, 'getScope' | 'getSearchQueryRows'>) {}
+
+  async getReport(brandId: string, params: ShareOfVoiceParams): Promise<ShareOfVoiceReport | null> {
+    const { startDate, endDate, includeChildren = false, queries: tracked, ...options } = params
+
+    const scope = await this.rollup.getScope(brandId, includeChildren)
+    if (!scope) return null
+
+    const rows = await this.rollup.getSearchQueryRows(Array.from(scope.asinBrands.keys()), startDate, endDate)
+    const availableQueries = rankQueries(rows)
+    const queries = tracked && tracked.length > 0
+      ? tracked
+      : availableQueries.slice(0, DEFAULT_QUERY_COUNT).map(query => query.query)
+
+    const weeks = buildShareOfVoice(rows, queries, options)
+
+    return {
+      brand: { id: scope.brand.id, display_name: scope.brand.display_name },
+      queries,
+      weeks,
+      availableQueries: availableQueries.slice(0, AVAILABLE_QUERY_LIMIT),
+      flaggedWeeks: weeks.filter(week => week.flags.length > 0).length
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest'
+import { addDays, format, parseISO } from 'date-fns'
+import {
+  backtestForecast,
+  ForecastingService,
+  forecastValues,
+  forecastWeeklyMetrics,
+  seasonalIndices,
+  toContiguousWeeks,
+  WeeklyMetrics
+} from '../forecasting-service'
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseClient: vi.fn(() => ({}))
+}))
+
+// Weekly history starting on a Sunday, with values from `value(i)`
+function weeks(count: number, value: (i: number) => number, start = '2023-01-01'): WeeklyMetrics[] {
+  return Array.from({ length: count }, (_, i) => ({
+    date: format(addDays(parseISO(start), 7 * i), 'yyyy-MM-dd'),
+    impressions: value(i),
+    clicks: value(i) / 10,
+    purchases: value(i) / 100
+  }))
+}
+
+// Yearly peak around week 47 on a slowly growing base
+const seasonalValue = (i: number) =>
+  (1000 + i * 2) * (1 + 0.5 * Math.exp(-Math.pow(((i % 52) - 47) / 3, 2)))
+
+
+describe('seasonalIndices', () => {
+  it('needs more than a year of history', () => {
+    expect(seasonalIndices(Array(60).fill(100))).toBeNull()
+  })
+
+  it('finds the yearly peak and normalizes to a mean of 1', () => {
+    const indices = seasonalIndices(weeks(104, seasonalValue).map(week => week.impressions))!
+
+    expect(indices).toHaveLength(52)
+    expect(indices.reduce((sum, index) => sum + index, 0) / 52).toBeCloseTo(1, 1)
+    expect(indices.indexOf(Math.max(...indices))).toBe(47)
+  })
+})
+
+describe('forecastValues', () => {
+  it('returns null without enough history', () => {
+    expect(forecastValues([1, 2, 3], 4)).toBeNull()
+  })
+
+  it('follows a linear trend and widens the interval with the horizon', () => {
+    const result = forecastValues(Array.from({ length: 20 }, (_, i) => 100 + i * 10 + (i % 2) * 5), 6)!
+
+    expect(result.method).toBe('trend')
+    expect(result.values).toHaveLength(6)
+    expect(result.values[0].value).toBeGreaterThan(280)
+    const widths = result.values.map(point => point.upper - point.lower)
+    widths.slice(1).forEach((width, i) => expect(width).toBeGreaterThan(widths[i]))
+  })
+
+  it('narrows the interval at lower confidence', () => {
+    const values = Array.from({ length: 20 }, (_, i) => 100 + (i % 3) * 20)
+    const wide = forecastValues(values, 4, 0.95)!.values[0]
+    const narrow = forecastValues(values, 4, 0.8)!.values[0]
+
+    expect(narrow.upper - narrow.lower).toBeLessThan(wide.upper - wide.lower)
+  })
+
+  it('never forecasts below zero', () => {
+    const result = forecastValues(Array.from({ length: 12 }, (_, i) => Math.max(0, 110 - i * 10)), 8)!
+
+    result.values.forEach(point => {
+      expect(point.value).toBeGreaterThanOrEqual(0)
+      expect(point.lower).toBeGreaterThanOrEqual(0)
+    })
+  })
+
+  it('projects the seasonal peak from the previous years', () => {
+    // Two years of history ending just before the peak
+    const history = weeks(96, seasonalValue).map(week => week.impressions)
+    const result = forecastValues(history, 8)!
+
+    expect(result.method).toBe('seasonal')
+    const peak = result.values[47 - (96 % 52)].value
+    expect(peak).toBeGreaterThan(result.values[0].value * 1.2)
+  })
+})
+
+describe('toContiguousWeeks', () => {
+  it('fills missing weeks with zeros', () => {
+    const [first, , third] = weeks(3, () => 100)
+    const result = toContiguousWeeks([third, first])
+
+    expect(result.map(week => week.date)).toEqual(['2023-01-01', '2023-01-08', '2023-01-15'])
+    expect(result[1]).toEqual({ date: '2023-01-08', impressions: 0, clicks: 0, purchases: 0 })
+  })
+})
+
+describe('backtestForecast', () => {
+  it('scores held-out weeks against the forecast', () => {
+    const result = backtestForecast(weeks(96, seasonalValue), 'impressions', 4)!
+
+    expect(result.heldOutWeeks).toBe(4)
+    expect(result.points.map(point => point.date)).toEqual(weeks(96, seasonalValue).slice(-4).map(week => week.date))
+    expect(result.mape).toBeLessThan(0.1)
+    expect(result.mae).toBeGreaterThan(0)
+    expect(result.intervalCoverage).toBeGreaterThanOrEqual(0)
+    expect(result.intervalCoverage).toBeLessThanOrEqual(1)
+  })
+
+  it('returns null when there is nothing left to train on', () => {
+    expect(backtestForecast(weeks(10, () => 100), 'clicks', 4)).toBeNull()
+  })
+})
+
+describe('forecastWeeklyMetrics', () => {
+  it('forecasts each metric on the weeks after the history', () => {
+    const metrics = forecastWeeklyMetrics(weeks(30, i => 1000 + i), 4)
+
+    expect(Object.keys(metrics)).toEqual(['impressions', 'clicks', 'purchases'])
+    expect(metrics.clicks!.points.map(point => point.date)).toEqual([
+      '2023-07-30',
+      '2023-08-06',
+      '2023-08-13',
+      '2023-08-20'
+    ])
+    expect(metrics.purchases!.backtest).not.toBeNull()
+  })
+
+  it('leaves metrics out when history is too short', () => {
+    expect(forecastWeeklyMetrics(weeks(5, () => 100), 4)).toEqual({})
+  })
+})
+
+describe('ForecastingService', () => {
+  it('reads weekly totals for the keyword over three years', async () => {
+    const supabase: any = {
+      rpc: vi.fn().mockResolvedValue({
+        data: [
+          { start_date: '2025-09-14', impressions: 120, clicks: 12, purchases: 2 },
+          { start_date: '2025-09-07', impressions: 150, clicks: 15, purchases: 1 }
+        ],
+        error: null
+      })
+    }
+
+    const history = await new ForecastingService(supabase).getWeeklyHistory('B001', 'knife sharpener', '2025-09-20')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_asin_weekly_history', {
+      p_asin: 'B001',
+      p_start_date: '2022-09-24',
+      p_end_date: '2025-09-20',
+      p_search_query: 'knife sharpener'
+    })
+    expect(history).toEqual([
+      { date: '2025-09-07', impressions: 150, clicks: 15, purchases: 1 },
+      { date: '2025-09-14', impressions: 120, clicks: 12, purchases: 2 }
+    ])
+  })
+
+  it('throws when the history query fails', async () => {
+    const supabase: any = { rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }) }
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(new ForecastingService(supabase).forecast({
+      asin: 'B001',
+      horizon: 8,
+      confidence: 0.95
+    })).rejects.toEqual({ message: 'boom' })
+  })
+})
\ No newline at end of file
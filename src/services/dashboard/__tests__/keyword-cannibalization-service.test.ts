@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  detectCannibalization,
+  getPreviousPeriod,
+  KeywordCannibalizationService
+} from '../keyword-cannibalization-service'
+import type { AsinQueryWeekShare } from '../sqp-nested-service'
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseClient: vi.fn(() => ({}))
+}))
+
+const row = (overrides: Partial<AsinQueryWeekShare>): AsinQueryWeekShare => ({
+  asin: 'B001',
+  searchQuery: 'knife sharpener',
+  startDate: '2025-09-01',
+  endDate: '2025-09-07',
+  searchQueryVolume: 1000,
+  asinImpressions: 0,
+  asinClicks: 0,
+  asinPurchases: 0,
+  totalMarketImpressions: 10000,
+  totalMarketClicks: 1000,
+  totalMarketPurchases: 100,
+  impressionShare: 0,
+  clickShare: 0,
+  purchaseShare: 0,
+  ...overrides
+})
+
+describe('detectCannibalization', () => {
+  it('combines brand share across competing ASINs', () => {
+    const results = detectCannibalization([
+      row({ asin: 'B001', asinImpressions: 2000, asinClicks: 150, asinPurchases: 10 }),
+      row({ asin: 'B002', asinImpressions: 1000, asinClicks: 50, asinPurchases: 5 }),
+      row({ asin: 'B001', searchQuery: 'whetstone', asinImpressions: 500, asinClicks: 20, asinPurchases: 2 })
+    ])
+
+    // Queries with a single brand ASIN are not cannibalized
+    expect(results).toHaveLength(1)
+    const [result] = results
+    expect(result.searchQuery).toBe('knife sharpener')
+    expect(result.asinCount).toBe(2)
+    expect(result.brandImpressionShare).toBeCloseTo(30)
+    expect(result.brandClickShare).toBeCloseTo(20)
+    expect(result.brandPurchaseShare).toBeCloseTo(15)
+    expect(result.asins[0]).toMatchObject({ asin: 'B001', clickShare: 15, purchaseShare: 10, brandClickPortion: 0.75 })
+    expect(result.topAsinClickPortion).toBeCloseTo(0.75)
+    expect(result.previousBrandPurchaseShare).toBeNull()
+    expect(result.flagged).toBe(false)
+  })
+
+  it('counts market totals once per week when aggregating multiple weeks', () => {
+    const [result] = detectCannibalization([
+      row({ asin: 'B001', asinImpressions: 100, asinPurchases: 10 }),
+      row({ asin: 'B002', asinImpressions: 100, asinPurchases: 10 }),
+      row({ asin: 'B001', startDate: '2025-09-08', asinImpressions: 100, asinPurchases: 20 })
+    ])
+
+    // 40 brand purchases out of 200 market purchases over two weeks
+    expect(result.brandPurchaseShare).toBeCloseTo(20)
+    expect(result.searchQueryVolume).toBe(2000)
+  })
+
+  it('flags queries where purchase share fell while clicks are spread across ASINs', () => {
+    const previous = [
+      row({ asin: 'B001', startDate: '2025-08-25', asinImpressions: 3000, asinClicks: 200, asinPurchases: 25 })
+    ]
+    const results = detectCannibalization([
+      row({ asin: 'B001', searchQuery: 'knife sharpener', asinImpressions: 1500, asinClicks: 100, asinPurchases: 8 }),
+      row({ asin: 'B002', searchQuery: 'knife sharpener', asinImpressions: 1500, asinClicks: 90, asinPurchases: 7 }),
+      row({ asin: 'B001', searchQuery: 'honing rod', searchQueryVolume: 5000, asinImpressions: 100, asinClicks: 90, asinPurchases: 1 }),
+      row({ asin: 'B002', searchQuery: 'honing rod', searchQueryVolume: 5000, asinImpressions: 100, asinClicks: 10, asinPurchases: 1 })
+    ], [
+      ...previous,
+      row({ asin: 'B001', searchQuery: 'honing rod', startDate: '2025-08-25', asinImpressions: 200, asinClicks: 150, asinPurchases: 10 })
+    ])
+
+    // Flagged queries sort ahead of higher-volume ones
+    expect(results.map(r => r.searchQuery)).toEqual(['knife sharpener', 'honing rod'])
+    expect(results[0].purchaseShareChange).toBeCloseTo(-10)
+    expect(results[0].flagged).toBe(true)
+
+    // Share fell on 'honing rod' too, but one ASIN still takes 90% of brand clicks
+    expect(results[1].purchaseShareChange).toBeLessThan(0)
+    expect(results[1].flagged).toBe(false)
+  })
+
+  it('respects the minimum ASIN count', () => {
+    const rows = [
+      row({ asin: 'B001', asinImpressions: 100 }),
+      row({ asin: 'B002', asinImpressions: 100 })
+    ]
+
+    expect(detectCannibalization(rows, [], { minAsins: 3 })).toHaveLength(0)
+  })
+})
+
+describe('getPreviousPeriod', () => {
+  it('returns the window of equal length immediately before the range', () => {
+    expect(getPreviousPeriod('2025-09-08', '2025-09-14')).toEqual({
+      startDate: '2025-09-01',
+      endDate: '2025-09-07'
+    })
+  })
+})
+
+describe('KeywordCannibalizationService', () => {
+  it('compares the brand ASINs against the previous period by default', async () => {
+    const nestedService = {
+      getAsinsByBrand: vi.fn().mockResolvedValue(['B001', 'B002']),
+      getMarketShareByAsins: vi.fn().mockResolvedValue([
+        row({ asin: 'B001', asinImpressions: 100, asinClicks: 10 }),
+        row({ asin: 'B002', asinImpressions: 100, asinClicks: 10 })
+      ])
+    }
+    const service = new KeywordCannibalizationService(nestedService as any)
+
+    const report = await service.analyzeBrand('brand-1', { startDate: '2025-09-08', endDate: '2025-09-14' })
+
+    expect(nestedService.getMarketShareByAsins).toHaveBeenCalledWith(['B001', 'B002'], '2025-09-08', '2025-09-14')
+    expect(nestedService.getMarketShareByAsins).toHaveBeenCalledWith(['B001', 'B002'], '2025-09-01', '2025-09-07')
+    expect(report.summary).toEqual({
+      brandAsins: 2,
+      queriesAnalyzed: 1,
+      cannibalizedQueries: 1,
+      flaggedQueries: 0
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  OpportunityInputRow,
+  OpportunityScoringService,
+  scoreOpportunities,
+  trendKey,
+  TrendClassification
+} from '../opportunity-scoring-service'
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseClient: vi.fn(() => ({}))
+}))
+
+const row = (overrides: Partial<OpportunityInputRow>): OpportunityInputRow => ({
+  asin: 'B001',
+  start_date: '2025-09-07',
+  end_date: '2025-09-13',
+  search_query: 'knife sharpener',
+  search_query_volume: 10000,
+  asin_impression_count: 1000,
+  asin_click_count: 100,
+  asin_purchase_count: 10,
+  asin_impression_share: 0.1,
+  asin_purchase_share: 0.1,
+  total_query_impression_count: 10000,
+  total_click_count: 1000,
+  total_purchase_count: 100,
+  total_purchase_rate: 0.01,
+  asin_median_purchase_price: 30,
+  total_median_purchase_price: 30,
+  ...overrides
+})
+
+// Chainable query builder that resolves to the given result
+function query(result: { data: any; error: any }) {
+  const builder: any = {}
+  for (const method of ['select', 'eq', 'in', 'gte', 'lte', 'order', 'range']) {
+    builder[method] = vi.fn(() => builder)
+  }
+  builder.maybeSingle = vi.fn(() => Promise.resolve(result))
+  builder.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return builder
+}
+
+describe('scoreOpportunities', () => {
+  it('scores a pair at market parity as neutral apart from volume', () => {
+    const [result] = scoreOpportunities([row({})])
+
+    expect(result.components.shareGap).toBeCloseTo(0.5)
+    expect(result.components.conversion).toBeCloseTo(0.5)
+    expect(result.components.price).toBeCloseTo(0.5)
+    expect(result.components.trend).toBe(0.5)
+    expect(result.components.volume).toBeGreaterThan(0.6)
+    expect(result.score).toBeCloseTo(
+      Object.values(result.contributions).reduce((sum, points) => sum + points, 0),
+      1
+    )
+  })
+
+  it('rewards under-exposed, better-converting and cheaper ASINs', () => {
+    const results = scoreOpportunities([
+      row({ search_query: 'parity' }),
+      row({
+        search_query: 'opportunity',
+        asin_impression_count: 500,
+        asin_purchase_count: 20,
+        asin_median_purchase_price: 24
+      })
+    ])
+
+    expect(results.map(result => result.searchQuery)).toEqual(['opportunity', 'parity'])
+    const [opportunity] = results
+    expect(opportunity.inputs.impressionShare).toBeCloseTo(0.05)
+    expect(opportunity.inputs.purchaseShare).toBeCloseTo(0.2)
+    expect(opportunity.components.shareGap).toBeGreaterThan(0.8)
+    // 2x the market CVR
+    expect(opportunity.components.conversion).toBeCloseTo(0.75)
+    // 20% below market price
+    expect(opportunity.components.price).toBeCloseTo(0.7)
+  })
+
+  it('aggregates weeks and recomputes shares from counts', () => {
+    const [result] = scoreOpportunities([
+      row({ start_date: '2025-08-31', end_date: '2025-09-06', asin_impression_count: 1000, asin_purchase_count: 10 }),
+      row({ asin_impression_count: 3000, asin_purchase_count: 30 })
+    ])
+
+    expect(result.inputs.searchQueryVolume).toBe(20000)
+    expect(result.inputs.impressionShare).toBeCloseTo(0.2)
+    expect(result.inputs.purchaseShare).toBeCloseTo(0.2)
+  })
+
+  it('falls back to total_purchase_rate and stays neutral without prices', () => {
+    const [result] = scoreOpportunities([
+      row({
+        total_click_count: 0,
+        total_purchase_rate: 0.05,
+        asin_median_purchase_price: null,
+        total_median_purchase_price: null
+      })
+    ])
+
+    expect(result.inputs.marketCvr).toBe(0.05)
+    expect(result.inputs.asinCvr).toBeCloseTo(0.1)
+    expect(result.components.conversion).toBeCloseTo(0.75)
+    expect(result.inputs.asinPrice).toBeNull()
+    expect(result.components.price).toBe(0.5)
+  })
+
+  it('applies keyword trends by ASIN and query', () => {
+    const trends = new Map<string, TrendClassification>([
+      [trendKey('B001', 'Knife Sharpener'), 'emerging'],
+      [trendKey('B002', 'knife sharpener'), 'plummeting']
+    ])
+    const results = scoreOpportunities([row({}), row({ asin: 'B002' })], trends)
+
+    expect(results[0]).toMatchObject({ asin: 'B001', inputs: { trend: 'emerging' } })
+    expect(results[0].components.trend).toBe(1)
+    expect(results[1]).toMatchObject({ asin: 'B002', inputs: { trend: 'plummeting' } })
+    expect(results[0].score - results[1].score).toBeCloseTo(15)
+  })
+})
+
+describe('OpportunityScoringService.rankBrandOpportunities', () => {
+  it('ranks brand queries and scores without trends when the trend RPC fails', async () => {
+    const supabase: any = {
+      from: vi.fn((table: string) => table === 'asin_brand_mapping'
+        ? query({ data: [{ asin: 'B001' }, { asin: 'B002' }], error: null })
+        : query({
+          data: [
+            row({ search_query_volume: 50 }),
+            row({ asin: 'B002', search_query: 'whetstone', asin_purchase_count: 30 })
+          ],
+          error: null
+        })),
+      rpc: vi.fn(() => Promise.resolve({ data: null, error: { message: 'function does not exist' } }))
+    }
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const service = new OpportunityScoringService(supabase)
+    const report = await service.rankBrandOpportunities('brand-1', {
+      startDate: '2025-09-07',
+      endDate: '2025-09-13',
+      minVolume: 100
+    })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('analyze_keyword_trends', expect.objectContaining({ p_brand_id: 'brand-1' }))
+    expect(report.results).toHaveLength(1)
+    expect(report.results[0]).toMatchObject({ asin: 'B002', searchQuery: 'whetstone' })
+    expect(report.summary).toMatchObject({ brandAsins: 2, queriesScored: 1, trendsAvailable: false })
+    consoleError.mockRestore()
+  })
+})
\ No newline at end of file
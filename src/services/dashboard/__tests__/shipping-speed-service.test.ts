@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import { analyzeShippingSpeed, ShippingSpeedService, ShippingWeekRow } from '../shipping-speed-service'
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseClient: vi.fn(() => ({}))
+}))
+
+const row = (overrides: Partial<ShippingWeekRow>): ShippingWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  end_date: '2025-01-11',
+  product_title: 'Knife Sharpener',
+  search_query: 'knife sharpener',
+  search_query_volume: 1000,
+  asin_purchase_count: 2,
+  total_same_day_shipping_click_count: 10,
+  total_one_day_shipping_click_count: 20,
+  total_two_day_shipping_click_count: 70,
+  total_same_day_shipping_cart_add_count: 5,
+  total_one_day_shipping_cart_add_count: 10,
+  total_two_day_shipping_cart_add_count: 25,
+  total_same_day_shipping_purchase_count: 6,
+  total_one_day_shipping_purchase_count: 8,
+  total_two_day_shipping_purchase_count: 6,
+  ...overrides
+})
+
+describe('analyzeShippingSpeed', () => {
+  it('counts the market mix of a query week once and flags fast purchase dominance', () => {
+    const { queries, asins } = analyzeShippingSpeed([
+      row({ asin: 'B001' }),
+      row({ asin: 'B002', asin_purchase_count: 1 })
+    ])
+
+    const [query] = queries
+    expect(query.mix.purchases.total).toBe(20)
+    expect(query.mix.purchases.fastRatio).toBeCloseTo(0.7)
+    expect(query.mix.clicks.fastRatio).toBeCloseTo(0.3)
+    expect(query.fastPurchaseLift).toBeCloseTo(40)
+    expect(query.asins).toEqual(['B001', 'B002'])
+    expect(query.flagged).toBe(true)
+
+    expect(asins.map(asin => asin.asin).sort()).toEqual(['B001', 'B002'])
+    expect(asins.every(asin => asin.flaggedQueries === 1 && asin.mix.purchases.total === 20)).toBe(true)
+  })
+
+  it('tracks the weekly mix and does not flag thin or slow queries', () => {
+    const { queries, weeks } = analyzeShippingSpeed([
+      row({ start_date: '2025-01-05' }),
+      row({
+        start_date: '2025-01-12',
+        total_same_day_shipping_purchase_count: 2,
+        total_one_day_shipping_purchase_count: 4,
+        total_two_day_shipping_purchase_count: 14
+      }),
+      row({
+        search_query: 'whetstone',
+        total_same_day_shipping_purchase_count: 3,
+        total_one_day_shipping_purchase_count: 3,
+        total_two_day_shipping_purchase_count: 0
+      })
+    ])
+
+    const sharpener = queries.find(query => query.searchQuery === 'knife sharpener')!
+    expect(sharpener.weeks.map(week => week.startDate)).toEqual(['2025-01-05', '2025-01-12'])
+    expect(sharpener.fastPurchaseTrend).toBeCloseTo(-40)
+    expect(sharpener.mix.purchases.fastRatio).toBeCloseTo(0.5)
+    expect(sharpener.flagged).toBe(false)
+
+    // All fast, but only six purchases
+    expect(queries.find(query => query.searchQuery === 'whetstone')!.flagged).toBe(false)
+
+    expect(weeks).toHaveLength(2)
+    expect(weeks[0].mix.purchases.total).toBe(26)
+  })
+})
+
+describe('ShippingSpeedService', () => {
+  it('reads the data weeks of the ASINs and limits the query list', async () => {
+    const builder: any = {}
+    for (const method of ['select', 'in', 'gte', 'lte', 'order', 'range']) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.then = (resolve: any, reject: any) =>
+      Promise.resolve({
+        data: [row({}), row({ search_query: 'honing rod' })],
+        error: null
+      }).then(resolve, reject)
+    const supabase: any = { from: vi.fn(() => builder) }
+
+    const report = await new ShippingSpeedService(supabase).analyze({
+      asins: ['B001'],
+      startDate: '2025-01-01',
+      endDate: '2025-01-31',
+      limit: 1
+    })
+
+    expect(supabase.from).toHaveBeenCalledWith('search_query_shipping_weekly')
+    expect(builder.in).toHaveBeenCalledWith('asin', ['B001'])
+    expect(builder.gte).toHaveBeenCalledWith('start_date', '2025-01-01')
+    expect(builder.lte).toHaveBeenCalledWith('end_date', '2025-01-31')
+    expect(report.queries).toHaveLength(1)
+    expect(report.summary).toEqual({ queriesAnalyzed: 2, flaggedQueries: 2 })
+  })
+})
\ No newline at end of file
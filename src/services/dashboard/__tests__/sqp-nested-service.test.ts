@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getSupabaseClient } from '@/config/supabase.config'
+import { SQPNestedService } from '../sqp-nested-service'
+
+vi.mock('@/config/supabase.config', () => ({
+  getSupabaseClient: vi.fn()
+}))
+
+// Serves `total` rows of a view in the pages .range() asks for
+function mockPagedView(total: number) {
+  const orders: string[] = []
+  const range = vi.fn(async (from: number, to: number) => ({
+    data: Array.from({ length: Math.max(0, Math.min(to + 1, total) - from) }, (_, i) => ({
+      asin: 'B001',
+      search_query: `query ${from + i}`,
+      start_date: '2025-09-07',
+      end_date: '2025-09-13'
+    })),
+    error: null
+  }))
+  const builder: any = {
+    select: vi.fn(() => builder),
+    in: vi.fn(() => builder),
+    gte: vi.fn(() => builder),
+    lte: vi.fn(() => builder),
+    order: vi.fn((column: string) => {
+      orders.push(column)
+      return builder
+    }),
+    range
+  }
+  vi.mocked(getSupabaseClient).mockReturnValue({ from: vi.fn(() => builder) } as any)
+  return { range, orders }
+}
+
+describe('SQPNestedService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('reads every page of market share rows in a stable order', async () => {
+    const view = mockPagedView(2500)
+
+    const rows = await new SQPNestedService().getMarketShareByAsins(['B001'], '2025-09-07', '2025-09-13')
+
+    expect(rows).toHaveLength(2500)
+    expect(view.range.mock.calls).toEqual([[0, 999], [1000, 1999], [2000, 2999]])
+    expect(view.orders.slice(0, 2)).toEqual(['start_date', 'id'])
+  })
+
+  it('counts the shipping mix over every page of the data week', async () => {
+    const view = mockPagedView(1500)
+
+    await new SQPNestedService().getShippingPreferences('2025-09-07', '2025-09-13')
+
+    expect(view.range.mock.calls).toEqual([[0, 999], [1000, 1999]])
+    expect(view.orders).toEqual(['start_date', 'id', 'start_date', 'id'])
+  })
+})
\ No newline at end of file
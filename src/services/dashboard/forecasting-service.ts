@@ -0,0 +1,293 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, format, parseISO, subWeeks } from 'date-fns';
+import { getSupabaseClient } from '@/config/supabase.config';
+
+export const FORECAST_METRICS = ['impressions', 'clicks', 'purchases'] as const;
+export type ForecastMetric = typeof FORECAST_METRICS[number];
+
+export const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95] as const;
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
+
+export const MIN_HORIZON_WEEKS = 4;
+export const MAX_HORIZON_WEEKS = 12;
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BacktestResult {
+  heldOutWeeks: number;
+  // Mean absolute percentage error over held-out weeks with a non-zero actual (0-1)
+  mape: number | null;
+  mae: number;
+  // Portion of held-out actuals inside the forecast interval (0-1)
+  intervalCoverage: number;
+  points: Array<{ date: string; actual: number; forecast: number; lower: number; upper: number }>;
+}
+
+export interface MetricForecast {
+  // 'seasonal' when a year of history allowed week-of-year seasonal indices
+  method: 'seasonal' | 'trend';
+  points: ForecastPoint[];
+  backtest: BacktestResult | null;
+}
+
+export interface WeeklyMetrics {
+  date: string;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+}
+
+export interface ForecastParams {
+  asin: string;
+  keyword?: string | null;
+  horizon: number;
+  confidence: ConfidenceLevel;
+  // Last week of history to use; defaults to the latest available week
+  endDate?: string;
+}
+
+export interface ForecastReport {
+  asin: string;
+  keyword: string | null;
+  horizon: number;
+  confidence: ConfidenceLevel;
+  historyWeeks: number;
+  history: WeeklyMetrics[];
+  metrics: Partial<Record<ForecastMetric, MetricForecast>>;
+}
+
+const SEASON_LENGTH = 52;
+// Centered moving average window used as the local level for seasonal ratios
+const LEVEL_WINDOW = 13;
+export const MIN_HISTORY_WEEKS = 8;
+// Three years covers two year-over-year cycles for the seasonal indices
+const HISTORY_WEEKS = 156;
+
+// Damped Holt smoothing parameters
+const ALPHA = 0.4;
+const BETA = 0.1;
+const PHI = 0.9;
+
+const Z_SCORES: Record<ConfidenceLevel, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Week-of-year seasonal indices from the ratio of each week to its centered
+ * moving average, averaged across years and normalized to a mean of 1.
+ * Returns null without a full year of history beyond the averaging window.
+ */
+export function seasonalIndices(values: number[]): number[] | null {
+  if (values.length < SEASON_LENGTH + LEVEL_WINDOW) return null;
+
+  const half = Math.floor(LEVEL_WINDOW / 2);
+  const ratios: number[][] = Array.from({ length: SEASON_LENGTH }, () => []);
+  for (let i = half; i < values.length - half; i++) {
+    const level = average(values.slice(i - half, i + half + 1));
+    if (level > 0) {
+      ratios[i % SEASON_LENGTH].push(values[i] / level);
+    }
+  }
+
+  const indices = ratios.map(weekRatios => (weekRatios.length > 0 ? average(weekRatios) : 1));
+  const mean = average(indices);
+  if (mean <= 0) return null;
+
+  // Floor keeps deseasonalizing from dividing by zero for dead weeks
+  return indices.map(index => Math.max(index / mean, 0.05));
+}
+
+/**
+ * Forecasts a contiguous weekly series `horizon` weeks ahead. The series is
+ * deseasonalized with week-of-year indices when a year of history exists,
+ * smoothed with a damped Holt trend, then reseasonalized. Interval width
+ * grows with the square root of the horizon from the one-step-ahead error.
+ */
+export function forecastValues(
+  values: number[],
+  horizon: number,
+  confidence: ConfidenceLevel = 0.95
+): { method: MetricForecast['method']; values: Array<Omit<ForecastPoint, 'date'>> } | null {
+  if (values.length < MIN_HISTORY_WEEKS) return null;
+
+  const indices = seasonalIndices(values);
+  const seasonal = (i: number) => (indices ? indices[i % SEASON_LENGTH] : 1);
+  const deseasonalized = values.map((value, i) => value / seasonal(i));
+
+  let level = deseasonalized[0];
+  let trend = deseasonalized[1] - deseasonalized[0];
+  const errors: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const expected = (level + PHI * trend) * seasonal(i);
+    // The first steps only warm up the trend
+    if (i > 2) errors.push(values[i] - expected);
+
+    const previousLevel = level;
+    level = ALPHA * deseasonalized[i] + (1 - ALPHA) * (level + PHI * trend);
+    trend = BETA * (level - previousLevel) + (1 - BETA) * PHI * trend;
+  }
+
+  const sigma = Math.sqrt(average(errors.map(error => error * error)));
+  const z = Z_SCORES[confidence];
+
+  const forecast: Array<Omit<ForecastPoint, 'date'>> = [];
+  let dampedTrend = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedTrend += Math.pow(PHI, h) * trend;
+    const value = Math.max(0, (level + dampedTrend) * seasonal(values.length - 1 + h));
+    const margin = z * sigma * Math.sqrt(h);
+    forecast.push({
+      value,
+      lower: Math.max(0, value - margin),
+      upper: value + margin,
+    });
+  }
+
+  return { method: indices ? 'seasonal' : 'trend', values: forecast };
+}
+
+/**
+ * Fills missing weeks with zero so the series is contiguous. Weeks are keyed
+ * by their start date and assumed to be seven days apart.
+ */
+export function toContiguousWeeks(rows: WeeklyMetrics[]): WeeklyMetrics[] {
+  if (rows.length === 0) return [];
+
+  const byDate = new Map(rows.map(row => [row.date, row]));
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  const last = sorted[sorted.length - 1].date;
+
+  const weeks: WeeklyMetrics[] = [];
+  for (let date = parseISO(sorted[0].date); format(date, 'yyyy-MM-dd') <= last; date = addDays(date, 7)) {
+    const key = format(date, 'yyyy-MM-dd');
+    weeks.push(byDate.get(key) || { date: key, impressions: 0, clicks: 0, purchases: 0 });
+  }
+  return weeks;
+}
+
+function futureWeeks(lastDate: string, horizon: number): string[] {
+  return Array.from({ length: horizon }, (_, i) => format(addDays(parseISO(lastDate), 7 * (i + 1)), 'yyyy-MM-dd'));
+}
+
+/**
+ * Holds out the last `horizon` weeks, forecasts them from the rest and
+ * compares against the actuals.
+ */
+export function backtestForecast(
+  weeks: WeeklyMetrics[],
+  metric: ForecastMetric,
+  horizon: number,
+  confidence: ConfidenceLevel = 0.95
+): BacktestResult | null {
+  if (weeks.length < horizon + MIN_HISTORY_WEEKS) return null;
+
+  const training = weeks.slice(0, weeks.length - horizon);
+  const heldOut = weeks.slice(weeks.length - horizon);
+  const result = forecastValues(training.map(week => week[metric]), horizon, confidence);
+  if (!result) return null;
+
+  const points = heldOut.map((week, i) => ({
+    date: week.date,
+    actual: week[metric],
+    forecast: result.values[i].value,
+    lower: result.values[i].lower,
+    upper: result.values[i].upper,
+  }));
+
+  const nonZero = points.filter(point => point.actual > 0);
+  return {
+    heldOutWeeks: horizon,
+    mape: nonZero.length > 0
+      ? average(nonZero.map(point => Math.abs(point.actual - point.forecast) / point.actual))
+      : null,
+    mae: average(points.map(point => Math.abs(point.actual - point.forecast))),
+    intervalCoverage: points.filter(point => point.actual >= point.lower && point.actual <= point.upper).length / points.length,
+    points,
+  };
+}
+
+/**
+ * Forecasts every metric of a weekly history, with a backtest per metric.
+ * Metrics are left out when there is not enough history to forecast.
+ */
+export function forecastWeeklyMetrics(
+  history: WeeklyMetrics[],
+  horizon: number,
+  confidence: ConfidenceLevel = 0.95
+): Partial<Record<ForecastMetric, MetricForecast>> {
+  const weeks = toContiguousWeeks(history);
+  const metrics: Partial<Record<ForecastMetric, MetricForecast>> = {};
+  if (weeks.length === 0) return metrics;
+
+  const dates = futureWeeks(weeks[weeks.length - 1].date, horizon);
+  FORECAST_METRICS.forEach(metric => {
+    const result = forecastValues(weeks.map(week => week[metric]), horizon, confidence);
+    if (!result) return;
+
+    metrics[metric] = {
+      method: result.method,
+      points: result.values.map((point, i) => ({ date: dates[i], ...point })),
+      backtest: backtestForecast(weeks, metric, horizon, confidence),
+    };
+  });
+
+  return metrics;
+}
+
+export class ForecastingService {
+  constructor(private supabase: SupabaseClient = getSupabaseClient()) {}
+
+  /**
+   * Weekly ASIN totals across search queries, or a single search query when
+   * `keyword` is given, for up to three years ending at `endDate`.
+   */
+  async getWeeklyHistory(asin: string, keyword: string | null, endDate?: string): Promise<WeeklyMetrics[]> {
+    const end = endDate ? parseISO(endDate) : new Date();
+
+    // Summed per week in the database, so three years is at most 157 rows
+    const { data, error } = await this.supabase.rpc('get_asin_weekly_history', {
+      p_asin: asin,
+      p_start_date: format(subWeeks(end, HISTORY_WEEKS), 'yyyy-MM-dd'),
+      p_end_date: format(end, 'yyyy-MM-dd'),
+      p_search_query: keyword,
+    });
+
+    if (error) {
+      console.error('Error fetching forecast history:', error);
+      throw error;
+    }
+
+    return ((data || []) as any[])
+      .map(row => ({
+        date: row.start_date,
+        impressions: Number(row.impressions) || 0,
+        clicks: Number(row.clicks) || 0,
+        purchases: Number(row.purchases) || 0,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async forecast(params: ForecastParams): Promise<ForecastReport> {
+    const { asin, keyword = null, horizon, confidence, endDate } = params;
+    const history = await this.getWeeklyHistory(asin, keyword, endDate);
+
+    return {
+      asin,
+      keyword,
+      horizon,
+      confidence,
+      historyWeeks: toContiguousWeeks(history).length,
+      history,
+      metrics: forecastWeeklyMetrics(history, horizon, confidence),
+    };
+  }
+}
\ No newline at end of file
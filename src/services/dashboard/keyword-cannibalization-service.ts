@@ -0,0 +1,244 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { AsinQueryWeekShare, SQPNestedService } from './sqp-nested-service';
+
+export interface CannibalizingAsin {
+  asin: string;
+  productTitle?: string;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+  impressionShare: number;
+  clickShare: number;
+  purchaseShare: number;
+  // Portion of the brand's own clicks on this query (0-1)
+  brandClickPortion: number;
+}
+
+export interface CannibalizationResult {
+  searchQuery: string;
+  searchQueryVolume: number;
+  asinCount: number;
+  asins: CannibalizingAsin[];
+  brandImpressionShare: number;
+  brandClickShare: number;
+  brandPurchaseShare: number;
+  previousBrandPurchaseShare: number | null;
+  purchaseShareChange: number | null;
+  // Largest single-ASIN portion of brand clicks; low values mean clicks are spread out
+  topAsinClickPortion: number;
+  flagged: boolean;
+}
+
+export interface CannibalizationOptions {
+  // Minimum number of brand ASINs with impressions on a query
+  minAsins?: number;
+  // Clicks count as spread when no ASIN holds more than this portion of brand clicks
+  clickSpreadThreshold?: number;
+  // Percentage points the brand purchase share must fall by to flag
+  minShareDrop?: number;
+}
+
+export interface BrandCannibalizationParams extends CannibalizationOptions {
+  startDate: string;
+  endDate: string;
+  compareStartDate?: string;
+  compareEndDate?: string;
+  limit?: number;
+  flaggedOnly?: boolean;
+}
+
+export interface BrandCannibalizationReport {
+  results: CannibalizationResult[];
+  summary: {
+    brandAsins: number;
+    queriesAnalyzed: number;
+    cannibalizedQueries: number;
+    flaggedQueries: number;
+  };
+  comparisonDateRange: { startDate: string; endDate: string };
+}
+
+const DEFAULT_OPTIONS: Required<CannibalizationOptions> = {
+  minAsins: 2,
+  clickSpreadThreshold: 0.7,
+  minShareDrop: 0,
+};
+
+interface QueryTotals {
+  volume: number;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+}
+
+function percentOf(value: number, total: number): number {
+  return total > 0 ? (value / total) * 100 : 0;
+}
+
+// Market totals repeat on every ASIN row, so take them once per week
+function getMarketTotals(rows: AsinQueryWeekShare[]): QueryTotals {
+  const weeks = new Map<string, QueryTotals>();
+  rows.forEach(row => {
+    const existing = weeks.get(row.startDate) || { volume: 0, impressions: 0, clicks: 0, purchases: 0 };
+    weeks.set(row.startDate, {
+      volume: Math.max(existing.volume, row.searchQueryVolume),
+      impressions: Math.max(existing.impressions, row.totalMarketImpressions),
+      clicks: Math.max(existing.clicks, row.totalMarketClicks),
+      purchases: Math.max(existing.purchases, row.totalMarketPurchases),
+    });
+  });
+
+  return Array.from(weeks.values()).reduce(
+    (acc, week) => ({
+      volume: acc.volume + week.volume,
+      impressions: acc.impressions + week.impressions,
+      clicks: acc.clicks + week.clicks,
+      purchases: acc.purchases + week.purchases,
+    }),
+    { volume: 0, impressions: 0, clicks: 0, purchases: 0 }
+  );
+}
+
+function groupByQuery(rows: AsinQueryWeekShare[]): Map<string, AsinQueryWeekShare[]> {
+  const groups = new Map<string, AsinQueryWeekShare[]>();
+  rows.forEach(row => {
+    const group = groups.get(row.searchQuery) || [];
+    group.push(row);
+    groups.set(row.searchQuery, group);
+  });
+  return groups;
+}
+
+function getBrandPurchaseShare(rows: AsinQueryWeekShare[]): number {
+  const market = getMarketTotals(rows);
+  const purchases = rows.reduce((sum, row) => sum + row.asinPurchases, 0);
+  return percentOf(purchases, market.purchases);
+}
+
+/**
+ * Finds queries where two or more ASINs of the same brand compete, and flags
+ * those where the brand's combined purchase share fell against the comparison
+ * period while its clicks were spread across ASINs.
+ */
+export function detectCannibalization(
+  currentRows: AsinQueryWeekShare[],
+  previousRows: AsinQueryWeekShare[] = [],
+  options: CannibalizationOptions = {}
+): CannibalizationResult[] {
+  const { minAsins, clickSpreadThreshold, minShareDrop } = { ...DEFAULT_OPTIONS, ...options };
+  const previousByQuery = groupByQuery(previousRows);
+  const results: CannibalizationResult[] = [];
+
+  groupByQuery(currentRows).forEach((rows, searchQuery) => {
+    const market = getMarketTotals(rows);
+
+    const byAsin = new Map<string, CannibalizingAsin>();
+    rows.forEach(row => {
+      const existing = byAsin.get(row.asin) || {
+        asin: row.asin,
+        productTitle: row.productTitle,
+        impressions: 0,
+        clicks: 0,
+        purchases: 0,
+        impressionShare: 0,
+        clickShare: 0,
+        purchaseShare: 0,
+        brandClickPortion: 0,
+      };
+      existing.impressions += row.asinImpressions;
+      existing.clicks += row.asinClicks;
+      existing.purchases += row.asinPurchases;
+      byAsin.set(row.asin, existing);
+    });
+
+    const competing = Array.from(byAsin.values()).filter(asin => asin.impressions > 0);
+    if (competing.length < minAsins) return;
+
+    const brandImpressions = competing.reduce((sum, asin) => sum + asin.impressions, 0);
+    const brandClicks = competing.reduce((sum, asin) => sum + asin.clicks, 0);
+    const brandPurchases = competing.reduce((sum, asin) => sum + asin.purchases, 0);
+
+    const asins = competing
+      .map(asin => ({
+        ...asin,
+        impressionShare: percentOf(asin.impressions, market.impressions),
+        clickShare: percentOf(asin.clicks, market.clicks),
+        purchaseShare: percentOf(asin.purchases, market.purchases),
+        brandClickPortion: brandClicks > 0 ? asin.clicks / brandClicks : 0,
+      }))
+      .sort((a, b) => b.clicks - a.clicks);
+
+    const brandPurchaseShare = percentOf(brandPurchases, market.purchases);
+    const previous = previousByQuery.get(searchQuery);
+    const previousBrandPurchaseShare = previous ? getBrandPurchaseShare(previous) : null;
+    const purchaseShareChange = previousBrandPurchaseShare === null
+      ? null
+      : brandPurchaseShare - previousBrandPurchaseShare;
+    const topAsinClickPortion = asins[0]?.brandClickPortion || 0;
+
+    const shareFell = purchaseShareChange !== null && purchaseShareChange < -minShareDrop;
+    const clicksSpread = brandClicks > 0 && topAsinClickPortion < clickSpreadThreshold;
+
+    results.push({
+      searchQuery,
+      searchQueryVolume: market.volume,
+      asinCount: asins.length,
+      asins,
+      brandImpressionShare: percentOf(brandImpressions, market.impressions),
+      brandClickShare: percentOf(brandClicks, market.clicks),
+      brandPurchaseShare,
+      previousBrandPurchaseShare,
+      purchaseShareChange,
+      topAsinClickPortion,
+      flagged: shareFell && clicksSpread,
+    });
+  });
+
+  return results.sort((a, b) => {
+    if (a.flagged !== b.flagged) return a.flagged ? -1 : 1;
+    return b.searchQueryVolume - a.searchQueryVolume;
+  });
+}
+
+/**
+ * Default comparison window: the period of equal length immediately before the selected one
+ */
+export function getPreviousPeriod(startDate: string, endDate: string): { startDate: string; endDate: string } {
+  const start = parseISO(startDate);
+  const days = differenceInCalendarDays(parseISO(endDate), start) + 1;
+  return {
+    startDate: format(subDays(start, days), 'yyyy-MM-dd'),
+    endDate: format(subDays(start, 1), 'yyyy-MM-dd'),
+  };
+}
+
+export class KeywordCannibalizationService {
+  constructor(private nestedService: SQPNestedService = new SQPNestedService()) {}
+
+  async analyzeBrand(brandId: string, params: BrandCannibalizationParams): Promise<BrandCannibalizationReport> {
+    const { startDate, endDate, limit = 50, flaggedOnly = false, ...options } = params;
+    const comparisonDateRange = params.compareStartDate && params.compareEndDate
+      ? { startDate: params.compareStartDate, endDate: params.compareEndDate }
+      : getPreviousPeriod(startDate, endDate);
+
+    const asins = await this.nestedService.getAsinsByBrand(brandId);
+    const [currentRows, previousRows] = await Promise.all([
+      this.nestedService.getMarketShareByAsins(asins, startDate, endDate),
+      this.nestedService.getMarketShareByAsins(asins, comparisonDateRange.startDate, comparisonDateRange.endDate),
+    ]);
+
+    const detected = detectCannibalization(currentRows, previousRows, options);
+    const flaggedQueries = detected.filter(result => result.flagged).length;
+
+    return {
+      results: (flaggedOnly ? detected.filter(result => result.flagged) : detected).slice(0, limit),
+      summary: {
+        brandAsins: asins.length,
+        queriesAnalyzed: new Set(currentRows.map(row => row.searchQuery)).size,
+        cannibalizedQueries: detected.length,
+        flaggedQueries,
+      },
+      comparisonDateRange,
+    };
+  }
+}
\ No newline at end of file
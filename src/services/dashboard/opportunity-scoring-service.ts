@@ -0,0 +1,357 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from '@/config/supabase.config';
+
+// Row shape of public.search_query_opportunity_inputs
+export interface OpportunityInputRow {
+  asin: string;
+  start_date: string;
+  end_date: string;
+  product_title?: string | null;
+  search_query: string;
+  search_query_volume: number | null;
+  asin_impression_count: number | null;
+  asin_click_count: number | null;
+  asin_purchase_count: number | null;
+  asin_impression_share: number | null;
+  asin_purchase_share: number | null;
+  total_query_impression_count: number | null;
+  total_click_count: number | null;
+  total_purchase_count: number | null;
+  total_purchase_rate: number | null;
+  asin_median_purchase_price: number | null;
+  total_median_purchase_price: number | null;
+}
+
+export type TrendClassification = 'emerging' | 'surging' | 'stable' | 'volatile' | 'declining' | 'plummeting';
+
+// Each component is 0-1, where 0.5 is neutral
+export interface OpportunityComponents {
+  volume: number;
+  shareGap: number;
+  conversion: number;
+  price: number;
+  trend: number;
+}
+
+export interface OpportunityScore {
+  // Weighted sum of the components, 0-100
+  score: number;
+  components: OpportunityComponents;
+  // Points each component adds to the score; they sum to the score
+  contributions: OpportunityComponents;
+  inputs: {
+    searchQueryVolume: number;
+    // Shares and conversion rates are fractions (0-1)
+    impressionShare: number;
+    purchaseShare: number;
+    asinCvr: number | null;
+    marketCvr: number | null;
+    asinPrice: number | null;
+    marketPrice: number | null;
+    trend: TrendClassification | null;
+  };
+}
+
+export interface QueryOpportunity extends OpportunityScore {
+  asin: string;
+  searchQuery: string;
+  productTitle?: string;
+}
+
+export interface RankOpportunitiesParams {
+  startDate: string;
+  endDate: string;
+  limit?: number;
+  // Queries below this total search volume for the period are left out
+  minVolume?: number;
+}
+
+export interface BrandOpportunityReport {
+  results: QueryOpportunity[];
+  summary: {
+    brandAsins: number;
+    queriesScored: number;
+    averageScore: number;
+    trendsAvailable: boolean;
+  };
+}
+
+export const OPPORTUNITY_WEIGHTS: OpportunityComponents = {
+  volume: 0.3,
+  shareGap: 0.25,
+  conversion: 0.2,
+  price: 0.1,
+  trend: 0.15,
+};
+
+// Search volume (summed over the period) that scores a full volume component
+const VOLUME_CEILING = 1_000_000;
+
+const TREND_SCORES: Record<TrendClassification, number> = {
+  emerging: 1,
+  surging: 0.9,
+  stable: 0.5,
+  volatile: 0.4,
+  declining: 0.2,
+  plummeting: 0,
+};
+
+// Weeks of history passed to analyze_keyword_trends
+const TREND_WEEKS = 8;
+const PAGE_SIZE = 1000;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+export function trendKey(asin: string, searchQuery: string): string {
+  return `${asin}|${searchQuery.toLowerCase()}`;
+}
+
+interface AggregatedQuery {
+  asin: string;
+  searchQuery: string;
+  productTitle?: string;
+  volume: number;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+  marketImpressions: number;
+  marketClicks: number;
+  marketPurchases: number;
+  impressionShares: number[];
+  purchaseShares: number[];
+  purchaseRates: number[];
+  asinPrices: number[];
+  marketPrices: number[];
+}
+
+function aggregateRows(rows: OpportunityInputRow[]): AggregatedQuery[] {
+  const groups = new Map<string, AggregatedQuery>();
+
+  rows.forEach(row => {
+    const key = trendKey(row.asin, row.search_query);
+    const group = groups.get(key) || {
+      asin: row.asin,
+      searchQuery: row.search_query,
+      productTitle: row.product_title || undefined,
+      volume: 0,
+      impressions: 0,
+      clicks: 0,
+      purchases: 0,
+      marketImpressions: 0,
+      marketClicks: 0,
+      marketPurchases: 0,
+      impressionShares: [],
+      purchaseShares: [],
+      purchaseRates: [],
+      asinPrices: [],
+      marketPrices: [],
+    };
+
+    group.volume += row.search_query_volume || 0;
+    group.impressions += row.asin_impression_count || 0;
+    group.clicks += row.asin_click_count || 0;
+    group.purchases += row.asin_purchase_count || 0;
+    group.marketImpressions += row.total_query_impression_count || 0;
+    group.marketClicks += row.total_click_count || 0;
+    group.marketPurchases += row.total_purchase_count || 0;
+    group.impressionShares.push(row.asin_impression_share || 0);
+    group.purchaseShares.push(row.asin_purchase_share || 0);
+    if (row.total_purchase_rate) group.purchaseRates.push(row.total_purchase_rate);
+    if (row.asin_median_purchase_price) group.asinPrices.push(row.asin_median_purchase_price);
+    if (row.total_median_purchase_price) group.marketPrices.push(row.total_median_purchase_price);
+
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Scores one aggregated ASIN/query pair. Missing inputs (no clicks, no prices,
+ * no trend) score a neutral 0.5 so they neither help nor hurt.
+ */
+function scoreQuery(query: AggregatedQuery, trend: TrendClassification | null): OpportunityScore {
+  // Recompute shares from counts over multi-week periods; fall back to the weekly average
+  const impressionShare = query.marketImpressions > 0
+    ? query.impressions / query.marketImpressions
+    : average(query.impressionShares) || 0;
+  const purchaseShare = query.marketPurchases > 0
+    ? query.purchases / query.marketPurchases
+    : average(query.purchaseShares) || 0;
+
+  const asinCvr = query.clicks > 0 ? query.purchases / query.clicks : null;
+  const marketCvr = query.marketClicks > 0
+    ? query.marketPurchases / query.marketClicks
+    : average(query.purchaseRates);
+
+  const asinPrice = average(query.asinPrices);
+  const marketPrice = average(query.marketPrices);
+
+  const volume = query.volume > 0 ? clamp(Math.log10(1 + query.volume) / Math.log10(1 + VOLUME_CEILING)) : 0;
+
+  // Buyers pick the ASIN more often than they see it: more visibility should pay off
+  const maxShare = Math.max(impressionShare, purchaseShare);
+  const shareGap = maxShare > 0 ? clamp(0.5 + (purchaseShare - impressionShare) / (2 * maxShare)) : 0.5;
+
+  // 2x the market CVR scores 0.75, 4x scores 1
+  const conversion = asinCvr !== null && marketCvr
+    ? clamp(0.5 + Math.log2(Math.max(asinCvr, 0.0001) / marketCvr) / 4)
+    : 0.5;
+
+  // 20% below the market median price scores 0.7
+  const price = asinPrice && marketPrice ? clamp(0.5 - (asinPrice / marketPrice - 1)) : 0.5;
+
+  const trendScore = trend ? TREND_SCORES[trend] : 0.5;
+
+  const components: OpportunityComponents = { volume, shareGap, conversion, price, trend: trendScore };
+  const contributions = { ...components };
+  (Object.keys(OPPORTUNITY_WEIGHTS) as Array<keyof OpportunityComponents>).forEach(component => {
+    contributions[component] = OPPORTUNITY_WEIGHTS[component] * components[component] * 100;
+  });
+  const score = Object.values(contributions).reduce((sum, points) => sum + points, 0);
+
+  return {
+    score: Math.round(score * 10) / 10,
+    components,
+    contributions,
+    inputs: {
+      searchQueryVolume: query.volume,
+      impressionShare,
+      purchaseShare,
+      asinCvr,
+      marketCvr,
+      asinPrice,
+      marketPrice,
+      trend,
+    },
+  };
+}
+
+/**
+ * Scores every ASIN/search query pair in the rows, highest score first.
+ * `trends` is keyed by `trendKey(asin, searchQuery)`.
+ */
+export function scoreOpportunities(
+  rows: OpportunityInputRow[],
+  trends: Map<string, TrendClassification> = new Map()
+): QueryOpportunity[] {
+  return aggregateRows(rows)
+    .map(query => ({
+      asin: query.asin,
+      searchQuery: query.searchQuery,
+      productTitle: query.productTitle,
+      ...scoreQuery(query, trends.get(trendKey(query.asin, query.searchQuery)) || null),
+    }))
+    .sort((a, b) => b.score - a.score || b.inputs.searchQueryVolume - a.inputs.searchQueryVolume);
+}
+
+export class OpportunityScoringService {
+  constructor(private supabase: SupabaseClient = getSupabaseClient()) {}
+
+  async getOpportunityInputs(asins: string[], startDate: string, endDate: string): Promise<OpportunityInputRow[]> {
+    if (asins.length === 0) return [];
+
+    const rows: OpportunityInputRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('search_query_opportunity_inputs')
+        .select('*')
+        .in('asin', asins)
+        .gte('start_date', startDate)
+        .lte('end_date', endDate)
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching opportunity inputs:', error);
+        throw error;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Trend classifications from analyze_keyword_trends. Trends are optional to
+   * the score, so failures are logged and an empty map is returned.
+   */
+  async getTrends(brandId: string): Promise<Map<string, TrendClassification>> {
+    const trends = new Map<string, TrendClassification>();
+
+    const { data, error } = await this.supabase.rpc('analyze_keyword_trends', {
+      p_brand_id: brandId,
+      p_weeks: TREND_WEEKS,
+      p_min_impressions: 0,
+    });
+
+    if (error) {
+      console.error('Error fetching keyword trends for opportunity scoring:', error);
+      return trends;
+    }
+
+    (data || []).forEach((row: any) => {
+      if (row.o_trend_classification in TREND_SCORES) {
+        trends.set(trendKey(row.o_asin, row.o_search_query), row.o_trend_classification);
+      }
+    });
+
+    return trends;
+  }
+
+  async scoreAsin(asin: string, startDate: string, endDate: string): Promise<QueryOpportunity[]> {
+    const [rows, mapping] = await Promise.all([
+      this.getOpportunityInputs([asin], startDate, endDate),
+      this.supabase.from('asin_brand_mapping').select('brand_id').eq('asin', asin).maybeSingle(),
+    ]);
+
+    const brandId = mapping.data?.brand_id;
+    const trends = brandId ? await this.getTrends(brandId) : new Map<string, TrendClassification>();
+
+    return scoreOpportunities(rows, trends);
+  }
+
+  async rankBrandOpportunities(brandId: string, params: RankOpportunitiesParams): Promise<BrandOpportunityReport> {
+    const { startDate, endDate, limit = 50, minVolume = 0 } = params;
+
+    const { data: mappings, error } = await this.supabase
+      .from('asin_brand_mapping')
+      .select('asin')
+      .eq('brand_id', brandId);
+
+    if (error) {
+      console.error('Error fetching ASINs by brand:', error);
+      throw error;
+    }
+
+    const asins = (mappings || []).map(row => row.asin);
+    const [rows, trends] = await Promise.all([
+      this.getOpportunityInputs(asins, startDate, endDate),
+      asins.length > 0 ? this.getTrends(brandId) : Promise.resolve(new Map<string, TrendClassification>()),
+    ]);
+
+    const scored = scoreOpportunities(rows, trends)
+      .filter(opportunity => opportunity.inputs.searchQueryVolume >= minVolume);
+
+    return {
+      results: scored.slice(0, limit),
+      summary: {
+        brandAsins: asins.length,
+        queriesScored: scored.length,
+        averageScore: scored.length > 0
+          ? Math.round((scored.reduce((sum, opportunity) => sum + opportunity.score, 0) / scored.length) * 10) / 10
+          : 0,
+        trendsAvailable: trends.size > 0,
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,318 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from '@/config/supabase.config';
+
+// Row shape of public.search_query_shipping_weekly
+export interface ShippingWeekRow {
+  asin: string;
+  start_date: string;
+  end_date: string;
+  product_title?: string | null;
+  search_query: string;
+  search_query_volume: number | null;
+  asin_purchase_count: number | null;
+  total_same_day_shipping_click_count: number | null;
+  total_one_day_shipping_click_count: number | null;
+  total_two_day_shipping_click_count: number | null;
+  total_same_day_shipping_cart_add_count: number | null;
+  total_one_day_shipping_cart_add_count: number | null;
+  total_two_day_shipping_cart_add_count: number | null;
+  total_same_day_shipping_purchase_count: number | null;
+  total_one_day_shipping_purchase_count: number | null;
+  total_two_day_shipping_purchase_count: number | null;
+}
+
+export const SHIPPING_STAGES = ['clicks', 'cartAdds', 'purchases'] as const;
+
+export type ShippingStage = typeof SHIPPING_STAGES[number];
+
+interface SpeedCounts {
+  sameDay: number;
+  oneDay: number;
+  twoDay: number;
+}
+
+type StageCounts = Record<ShippingStage, SpeedCounts>;
+
+export interface ShippingMix extends SpeedCounts {
+  // Market events with a same-, one- or two-day offer
+  total: number;
+  sameDayRatio: number;
+  oneDayRatio: number;
+  twoDayRatio: number;
+  // Same-day and one-day together (0-1)
+  fastRatio: number;
+}
+
+export type StageMix = Record<ShippingStage, ShippingMix>;
+
+export interface ShippingWeek {
+  startDate: string;
+  mix: StageMix;
+}
+
+export interface QueryShippingAnalysis {
+  searchQuery: string;
+  searchQueryVolume: number;
+  asins: string[];
+  mix: StageMix;
+  // Fast share of purchases minus fast share of clicks, in points. Positive
+  // when shoppers click slower offers but end up buying fast ones.
+  fastPurchaseLift: number;
+  // Change of the fast share of purchases from the first to the last week, in points
+  fastPurchaseTrend: number | null;
+  weeks: ShippingWeek[];
+  flagged: boolean;
+}
+
+export interface AsinShippingAnalysis {
+  asin: string;
+  productTitle?: string;
+  queryCount: number;
+  flaggedQueries: number;
+  asinPurchases: number;
+  // Market mix across the queries the ASIN shows up on
+  mix: StageMix;
+}
+
+export interface ShippingAnalysisOptions {
+  // Fast share of market purchases (0-1) at which a query is flagged
+  fastPurchaseThreshold?: number;
+  // Market purchases with a known shipping speed needed before flagging
+  minPurchases?: number;
+}
+
+export interface ShippingAnalysisParams extends ShippingAnalysisOptions {
+  asins: string[];
+  startDate: string;
+  endDate: string;
+  limit?: number;
+}
+
+export interface ShippingAnalysisReport {
+  queries: QueryShippingAnalysis[];
+  asins: AsinShippingAnalysis[];
+  // Market mix of all analyzed queries, week by week
+  weeks: ShippingWeek[];
+  summary: {
+    queriesAnalyzed: number;
+    flaggedQueries: number;
+  };
+}
+
+const DEFAULT_OPTIONS: Required<ShippingAnalysisOptions> = {
+  fastPurchaseThreshold: 0.6,
+  minPurchases: 10,
+};
+
+const PAGE_SIZE = 1000;
+
+interface QueryWeekMarket {
+  searchQuery: string;
+  startDate: string;
+  volume: number;
+  counts: StageCounts;
+}
+
+function emptyCounts(): StageCounts {
+  return {
+    clicks: { sameDay: 0, oneDay: 0, twoDay: 0 },
+    cartAdds: { sameDay: 0, oneDay: 0, twoDay: 0 },
+    purchases: { sameDay: 0, oneDay: 0, twoDay: 0 },
+  };
+}
+
+function rowCounts(row: ShippingWeekRow): StageCounts {
+  return {
+    clicks: {
+      sameDay: Number(row.total_same_day_shipping_click_count) || 0,
+      oneDay: Number(row.total_one_day_shipping_click_count) || 0,
+      twoDay: Number(row.total_two_day_shipping_click_count) || 0,
+    },
+    cartAdds: {
+      sameDay: Number(row.total_same_day_shipping_cart_add_count) || 0,
+      oneDay: Number(row.total_one_day_shipping_cart_add_count) || 0,
+      twoDay: Number(row.total_two_day_shipping_cart_add_count) || 0,
+    },
+    purchases: {
+      sameDay: Number(row.total_same_day_shipping_purchase_count) || 0,
+      oneDay: Number(row.total_one_day_shipping_purchase_count) || 0,
+      twoDay: Number(row.total_two_day_shipping_purchase_count) || 0,
+    },
+  };
+}
+
+function combineCounts(a: StageCounts, b: StageCounts, combine: (x: number, y: number) => number): StageCounts {
+  const stage = (x: SpeedCounts, y: SpeedCounts): SpeedCounts => ({
+    sameDay: combine(x.sameDay, y.sameDay),
+    oneDay: combine(x.oneDay, y.oneDay),
+    twoDay: combine(x.twoDay, y.twoDay),
+  });
+  return {
+    clicks: stage(a.clicks, b.clicks),
+    cartAdds: stage(a.cartAdds, b.cartAdds),
+    purchases: stage(a.purchases, b.purchases),
+  };
+}
+
+const sumCounts = (markets: QueryWeekMarket[]): StageCounts =>
+  markets.reduce((acc, market) => combineCounts(acc, market.counts, (x, y) => x + y), emptyCounts());
+
+export function toShippingMix(counts: SpeedCounts): ShippingMix {
+  const total = counts.sameDay + counts.oneDay + counts.twoDay;
+  const ratio = (value: number) => (total > 0 ? value / total : 0);
+  return {
+    ...counts,
+    total,
+    sameDayRatio: ratio(counts.sameDay),
+    oneDayRatio: ratio(counts.oneDay),
+    twoDayRatio: ratio(counts.twoDay),
+    fastRatio: ratio(counts.sameDay + counts.oneDay),
+  };
+}
+
+function toStageMix(counts: StageCounts): StageMix {
+  return {
+    clicks: toShippingMix(counts.clicks),
+    cartAdds: toShippingMix(counts.cartAdds),
+    purchases: toShippingMix(counts.purchases),
+  };
+}
+
+function toWeeks(markets: QueryWeekMarket[]): ShippingWeek[] {
+  const byWeek = new Map<string, QueryWeekMarket[]>();
+  markets.forEach(market => byWeek.set(market.startDate, [...(byWeek.get(market.startDate) || []), market]));
+  return Array.from(byWeek.keys())
+    .sort()
+    .map(startDate => ({ startDate, mix: toStageMix(sumCounts(byWeek.get(startDate)!)) }));
+}
+
+/**
+ * Market shipping-speed mix per query and per ASIN. The shipping columns are
+ * market totals repeated on every ASIN row of a query and week, so each query
+ * week is counted once. A query is flagged when fast (same- or one-day)
+ * offers take at least the threshold share of its market purchases.
+ */
+export function analyzeShippingSpeed(
+  rows: ShippingWeekRow[],
+  options: ShippingAnalysisOptions = {}
+): Omit<ShippingAnalysisReport, 'summary'> {
+  const { fastPurchaseThreshold, minPurchases } = { ...DEFAULT_OPTIONS, ...options };
+
+  const markets = new Map<string, QueryWeekMarket>();
+  const queryAsins = new Map<string, Set<string>>();
+  const asinMarkets = new Map<string, Set<string>>();
+  const asinInfo = new Map<string, { productTitle?: string; purchases: number }>();
+
+  rows.forEach(row => {
+    const key = `${row.search_query}|${row.start_date}`;
+    const existing = markets.get(key);
+    markets.set(key, {
+      searchQuery: row.search_query,
+      startDate: row.start_date,
+      volume: Math.max(existing?.volume || 0, Number(row.search_query_volume) || 0),
+      counts: existing ? combineCounts(existing.counts, rowCounts(row), Math.max) : rowCounts(row),
+    });
+
+    queryAsins.set(row.search_query, (queryAsins.get(row.search_query) || new Set()).add(row.asin));
+    asinMarkets.set(row.asin, (asinMarkets.get(row.asin) || new Set()).add(key));
+
+    const info = asinInfo.get(row.asin) || { productTitle: row.product_title || undefined, purchases: 0 };
+    info.purchases += Number(row.asin_purchase_count) || 0;
+    asinInfo.set(row.asin, info);
+  });
+
+  const byQuery = new Map<string, QueryWeekMarket[]>();
+  markets.forEach(market => byQuery.set(market.searchQuery, [...(byQuery.get(market.searchQuery) || []), market]));
+
+  const queries: QueryShippingAnalysis[] = Array.from(byQuery.entries()).map(([searchQuery, queryMarkets]) => {
+    const mix = toStageMix(sumCounts(queryMarkets));
+    const weeks = toWeeks(queryMarkets);
+    const first = weeks[0];
+    const last = weeks[weeks.length - 1];
+
+    return {
+      searchQuery,
+      searchQueryVolume: queryMarkets.reduce((sum, market) => sum + market.volume, 0),
+      asins: Array.from(queryAsins.get(searchQuery) || []).sort(),
+      mix,
+      fastPurchaseLift: (mix.purchases.fastRatio - mix.clicks.fastRatio) * 100,
+      fastPurchaseTrend: weeks.length > 1
+        ? (last.mix.purchases.fastRatio - first.mix.purchases.fastRatio) * 100
+        : null,
+      weeks,
+      flagged: mix.purchases.total >= minPurchases && mix.purchases.fastRatio >= fastPurchaseThreshold,
+    };
+  });
+
+  const flaggedQueries = new Set(queries.filter(query => query.flagged).map(query => query.searchQuery));
+
+  const asins: AsinShippingAnalysis[] = Array.from(asinMarkets.entries()).map(([asin, keys]) => {
+    const asinQueryMarkets = Array.from(keys).map(key => markets.get(key)!);
+    const asinQueries = new Set(asinQueryMarkets.map(market => market.searchQuery));
+    const info = asinInfo.get(asin)!;
+
+    return {
+      asin,
+      productTitle: info.productTitle,
+      queryCount: asinQueries.size,
+      flaggedQueries: Array.from(asinQueries).filter(query => flaggedQueries.has(query)).length,
+      asinPurchases: info.purchases,
+      mix: toStageMix(sumCounts(asinQueryMarkets)),
+    };
+  });
+
+  return {
+    queries: queries.sort((a, b) => {
+      if (a.flagged !== b.flagged) return a.flagged ? -1 : 1;
+      return b.mix.purchases.total - a.mix.purchases.total;
+    }),
+    asins: asins.sort((a, b) => b.mix.purchases.fastRatio - a.mix.purchases.fastRatio),
+    weeks: toWeeks(Array.from(markets.values())),
+  };
+}
+
+export class ShippingSpeedService {
+  constructor(private supabase: SupabaseClient = getSupabaseClient()) {}
+
+  async getShippingRows(asins: string[], startDate: string, endDate: string): Promise<ShippingWeekRow[]> {
+    if (asins.length === 0) return [];
+
+    const rows: ShippingWeekRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('search_query_shipping_weekly')
+        .select('*')
+        .in('asin', asins)
+        .gte('start_date', startDate)
+        .lte('end_date', endDate)
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching shipping data:', error);
+        throw error;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  async analyze(params: ShippingAnalysisParams): Promise<ShippingAnalysisReport> {
+    const { asins, startDate, endDate, limit = 50, ...options } = params;
+    const rows = await this.getShippingRows(asins, startDate, endDate);
+    const analysis = analyzeShippingSpeed(rows, options);
+
+    return {
+      ...analysis,
+      queries: analysis.queries.slice(0, limit),
+      summary: {
+        queriesAnalyzed: analysis.queries.length,
+        flaggedQueries: analysis.queries.filter(query => query.flagged).length,
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -35,6 +35,24 @@ export interface MarketShareData {
   trend?: number; // Week over week change
 }
 
+export interface AsinQueryWeekShare {
+  asin: string;
+  searchQuery: string;
+  startDate: string;
+  endDate: string;
+  productTitle?: string;
+  searchQueryVolume: number;
+  asinImpressions: number;
+  asinClicks: number;
+  asinPurchases: number;
+  totalMarketImpressions: number;
+  totalMarketClicks: number;
+  totalMarketPurchases: number;
+  impressionShare: number;
+  clickShare: number;
+  purchaseShare: number;
+}
+
 export interface FunnelAnalysis {
   asin: string;
   searchQuery: string;
@@ -65,9 +83,28 @@ export interface ShippingPreferences {
   totalCount: number;
 }
 
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
 export class SQPNestedService {
   private supabase = getSupabaseClient();
   
+  /**
+   * Reads every row of a query page by page. `build` must order by a unique
+   * key last so rows never move between pages.
+   */
+  private async readAllPages(build: () => any): Promise<any[]> {
+    const rows: any[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return rows;
+  }
+  
   async getAsinsByBrand(brandId: string): Promise<string[]> {
     try {
       const { data, error } = await this.supabase
@@ -187,6 +224,51 @@ export class SQPNestedService {
     }));
   }
 
+  /**
+   * Get weekly market share rows for a set of ASINs across every search query
+   * they appear on. Market totals are kept so shares can be re-aggregated.
+   */
+  async getMarketShareByAsins(
+    asins: string[],
+    startDate: string,
+    endDate: string
+  ): Promise<AsinQueryWeekShare[]> {
+    if (asins.length === 0) return [];
+
+    let data: any[];
+    try {
+      data = await this.readAllPages(() => this.supabase
+        .from('search_performance_summary')
+        .select('*')
+        .in('asin', asins)
+        .gte('start_date', startDate)
+        .lte('end_date', endDate)
+        .order('start_date', { ascending: true })
+        .order('id', { ascending: true }));
+    } catch (error) {
+      console.error('Error fetching market share by ASIN:', error);
+      throw error;
+    }
+
+    return data.map(row => ({
+      asin: row.asin,
+      searchQuery: row.search_query,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      productTitle: row.product_title || undefined,
+      searchQueryVolume: row.search_query_volume || 0,
+      asinImpressions: row.asin_impression_count || 0,
+      asinClicks: row.asin_click_count || 0,
+      asinPurchases: row.asin_purchase_count || 0,
+      totalMarketImpressions: row.total_query_impression_count || 0,
+      totalMarketClicks: row.total_click_count || 0,
+      totalMarketPurchases: row.total_purchase_count || 0,
+      impressionShare: (row.asin_impression_share || 0) * 100,
+      clickShare: (row.asin_click_share || 0) * 100,
+      purchaseShare: (row.asin_purchase_share || 0) * 100,
+    }));
+  }
+
   /**
    * Get funnel analysis for ASINs
    */
@@ -265,31 +347,52 @@ export class SQPNestedService {
   }
 
   /**
-   * Get shipping preferences analysis
+   * Get shipping preferences analysis for the data weeks in the range,
+   * optionally limited to the queries of some ASINs
    */
   async getShippingPreferences(
     startDate: string,
     endDate: string,
-    metric: 'click' | 'cart_add' | 'purchase' = 'purchase'
+    metric: 'click' | 'cart_add' | 'purchase' = 'purchase',
+    asins?: string[]
   ): Promise<ShippingPreferences> {
-    const { data, error } = await this.supabase
-      .from('search_query_performance')
-      .select(`
-        total_same_day_shipping_${metric}_count,
-        total_one_day_shipping_${metric}_count,
-        total_two_day_shipping_${metric}_count
-      `)
-      .gte('created_at', startDate)
-      .lte('created_at', endDate);
+    let data: any[];
+    try {
+      data = await this.readAllPages(() => {
+        let query = this.supabase
+          .from('search_query_shipping_weekly')
+          .select(`
+            search_query,
+            start_date,
+            total_same_day_shipping_${metric}_count,
+            total_one_day_shipping_${metric}_count,
+            total_two_day_shipping_${metric}_count
+          `)
+          .gte('start_date', startDate)
+          .lte('end_date', endDate);
+
+        if (asins && asins.length > 0) {
+          query = query.in('asin', asins);
+        }
 
-    if (error) {
+        return query
+          .order('start_date', { ascending: true })
+          .order('id', { ascending: true });
+      });
+    } catch (error) {
       console.error('Error fetching shipping preferences:', error);
       throw error;
     }
 
-    // Aggregate shipping counts
-    const totals = (data || []).reduce((acc, row) => {
+    // Market counts repeat on every ASIN row of a query and week, so count each once
+    const queryWeeks = new Map<string, any>();
+    data.forEach(row => {
       const rowData = row as any;
+      queryWeeks.set(`${rowData.search_query}|${rowData.start_date}`, rowData);
+    });
+
+    // Aggregate shipping counts
+    const totals = Array.from(queryWeeks.values()).reduce((acc, rowData) => {
       acc.sameDay += rowData[`total_same_day_shipping_${metric}_count`] || 0;
       acc.oneDay += rowData[`total_one_day_shipping_${metric}_count`] || 0;
       acc.twoDay += rowData[`total_two_day_shipping_${metric}_count`] || 0;
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { KeywordGroup } from '../keyword-group-schema'
+import { KeywordGroupService, filterVisibleGroups } from '../keyword-group-service'
+
+const BRAND_A = '11111111-1111-1111-1111-111111111111'
+const BRAND_B = '22222222-2222-2222-2222-222222222222'
+
+const group = (name: string, brand_id: string | null): KeywordGroup => ({
+  id: name,
+  name,
+  brand_id,
+  rules: [{ type: 'contains', pattern: name, case_sensitive: false }],
+  excluded_keywords: []
+})
+
+// Each keyword_groups read resolves with the groups matching its brand filter
+function mockSupabase(groups: KeywordGroup[]) {
+  const filters: Array<[string, string | null]> = []
+  const from = vi.fn(() => {
+    const builder: any = {
+      select: vi.fn(() => builder),
+      order: vi.fn(() => builder),
+      is: vi.fn((column: string, value: null) => {
+        filters.push(['is', value])
+        return Promise.resolve({ data: groups.filter(g => g.brand_id === value), error: null })
+      }),
+      eq: vi.fn((column: string, value: string) => {
+        filters.push(['eq', value])
+        return Promise.resolve({ data: groups.filter(g => g.brand_id === value), error: null })
+      })
+    }
+    return builder
+  })
+  return { client: { from } as any, filters }
+}
+
+describe('KeywordGroupService.listGroups', () => {
+  const groups = [group('whetstone', BRAND_A), group('knives', null), group('blades', BRAND_B)]
+
+  it('returns the brand\'s groups and shared groups by name', async () => {
+    const supabase = mockSupabase(groups)
+
+    const result = await new KeywordGroupService(supabase.client).listGroups(BRAND_A)
+
+    expect(result.map(g => g.name)).toEqual(['knives', 'whetstone'])
+    expect(supabase.filters).toEqual([['is', null], ['eq', BRAND_A]])
+  })
+})
+
+describe('filterVisibleGroups', () => {
+  it('keeps shared groups and groups of brands the caller can access', () => {
+    const groups = [group('whetstone', BRAND_A), group('knives', null), group('blades', BRAND_B)]
+    const auth = { userId: 'u1', role: 'viewer' as const, brandIds: [BRAND_A], method: 'session' as const }
+
+    expect(filterVisibleGroups(groups, auth).map(g => g.name)).toEqual(['whetstone', 'knives'])
+    expect(filterVisibleGroups(groups, null)).toHaveLength(3)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import type { KeywordListEntry } from '../keyword-list-schema'
+import {
+  createKeywordListLookup,
+  excludeKeywords,
+  keywordListsToCsv,
+  parseKeywordListCsv
+} from '../keyword-lists'
+
+const entry = (overrides: Partial<KeywordListEntry>): KeywordListEntry => ({
+  id: 'entry-1',
+  list_type: 'exclude',
+  keyword: 'knife sharpener',
+  asin: null,
+  brand_id: 'brand-1',
+  alert_enabled: true,
+  note: null,
+  ...overrides
+})
+
+describe('createKeywordListLookup', () => {
+  const asinBrands = new Map([['B001', 'brand-1'], ['B002', 'brand-1'], ['B003', 'brand-2']])
+
+  it('applies brand entries to the brand\'s ASINs and lets an ASIN entry override them', () => {
+    const lookup = createKeywordListLookup([
+      entry({ id: 'brand-exclude' }),
+      entry({ id: 'asin-watch', list_type: 'watch', asin: 'B002', brand_id: null })
+    ], asinBrands)
+
+    expect(lookup('Knife  Sharpener', 'B001')?.id).toBe('brand-exclude')
+    expect(lookup('knife sharpener', 'B002')?.id).toBe('asin-watch')
+    expect(lookup('knife sharpener', 'B003')).toBeUndefined()
+  })
+
+  it('drops excluded rows per ASIN and reports the excluded queries', () => {
+    const lookup = createKeywordListLookup([entry({ asin: 'B001', brand_id: null })], asinBrands)
+    const rows = [
+      { asin: 'B001', query: 'knife sharpener' },
+      { asin: 'B001', query: 'whetstone' },
+      { asin: 'B002', query: 'knife sharpener' }
+    ]
+
+    const result = excludeKeywords(rows, lookup, row => row.query, row => row.asin)
+
+    expect(result.rows).toEqual([rows[1], rows[2]])
+    expect(result.excludedQueries).toEqual(['knife sharpener'])
+  })
+})
+
+describe('keyword list CSV', () => {
+  it('reads back what it exports', () => {
+    const csv = keywordListsToCsv([
+      entry({ keyword: 'sharpener, "pro"', note: 'irrelevant' }),
+      entry({ id: 'entry-2', list_type: 'watch', keyword: 'whetstone', alert_enabled: false })
+    ])
+
+    const { rows, errors } = parseKeywordListCsv(csv)
+
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      { keyword: 'sharpener, "pro"', list_type: 'exclude', alert_enabled: true, note: 'irrelevant' },
+      { keyword: 'whetstone', list_type: 'watch', alert_enabled: false, note: null }
+    ])
+  })
+
+  it('takes a plain keyword column into the default list and reports bad lines', () => {
+    const headerless = parseKeywordListCsv('Knife Sharpener\r\nwhetstone\r\n\r\nknife sharpener\r\n', 'watch')
+    expect(headerless.rows.map(row => row.keyword)).toEqual(['knife sharpener', 'whetstone'])
+    expect(headerless.errors).toEqual(['Line 4: "knife sharpener" is listed more than once'])
+
+    const invalid = parseKeywordListCsv('keyword,list\nwhetstone,ignore\n,watch')
+    expect(invalid.rows).toEqual([])
+    expect(invalid.errors).toEqual([
+      'Line 2: list must be one of watch, exclude',
+      'Line 3: missing keyword'
+    ])
+  })
+})
\ No newline at end of file
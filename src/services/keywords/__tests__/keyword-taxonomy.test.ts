@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchQueryWeekRow } from '../../brands/brand-rollup'
+import type { KeywordGroup } from '../keyword-group-schema'
+import {
+  aggregateKeywordGroups,
+  aggregateKeywordGroupsByWeek,
+  assignKeywordGroups,
+  matchesGroup,
+  suggestKeywordClusters
+} from '../keyword-taxonomy'
+
+const row = (overrides: Partial<SearchQueryWeekRow>): SearchQueryWeekRow => ({
+  asin: 'B001',
+  start_date: '2025-01-05',
+  search_query: 'knife sharpener',
+  asin_impression_count: 100,
+  asin_click_count: 10,
+  asin_cart_add_count: 4,
+  asin_purchase_count: 2,
+  total_query_impression_count: 1000,
+  total_click_count: 100,
+  total_cart_add_count: 40,
+  total_purchase_count: 20,
+  ...overrides
+})
+
+const group = (overrides: Partial<KeywordGroup>): KeywordGroup => ({
+  id: 'group-1',
+  name: 'Electric',
+  rules: [{ type: 'contains', pattern: 'electric', case_sensitive: false }],
+  excluded_keywords: [],
+  ...overrides
+})
+
+describe('keyword taxonomy', () => {
+  it('matches contains, regex and exact rules and honours exclusions', () => {
+    const sizes = group({
+      id: 'sizes',
+      rules: [
+        { type: 'regex', pattern: '\\b(small|large)\\b', case_sensitive: false },
+        { type: 'exact', keywords: ['XL Knife Sharpener'] }
+      ],
+      excluded_keywords: ['large knife block']
+    })
+
+    expect(matchesGroup('Electric Knife Sharpener', group({}))).toBe(true)
+    expect(matchesGroup('small knife sharpener', sizes)).toBe(true)
+    expect(matchesGroup('xl knife sharpener', sizes)).toBe(true)
+    expect(matchesGroup('large knife block', sizes)).toBe(false)
+    expect(matchesGroup('smaller sharpener', sizes)).toBe(false)
+
+    const members = assignKeywordGroups(['small electric sharpener', 'whetstone'], [group({}), sizes])
+    // Groups may overlap
+    expect(members.get('group-1')).toEqual(['small electric sharpener'])
+    expect(members.get('sizes')).toEqual(['small electric sharpener'])
+  })
+
+  it('computes group share from summed counts rather than averaging keyword shares', () => {
+    const rows = [
+      // 10% impression share on a big query
+      row({ search_query: 'electric knife sharpener', asin_impression_count: 1000, total_query_impression_count: 10000 }),
+      // 50% impression share on a small one
+      row({ search_query: 'electric sharpener', asin_impression_count: 50, total_query_impression_count: 100 }),
+      // Second ASIN on the same query and week: market counted once
+      row({ asin: 'B002', search_query: 'electric sharpener', asin_impression_count: 10, total_query_impression_count: 100 }),
+      row({ search_query: 'whetstone' })
+    ]
+
+    const [electric] = aggregateKeywordGroups(rows, [group({})])
+
+    expect(electric.keywords).toEqual(['electric knife sharpener', 'electric sharpener'])
+    expect(electric.impressions).toBe(1060)
+    expect(electric.marketImpressions).toBe(10100)
+    expect(electric.impressionShare).toBeCloseTo(1060 / 10100)
+    expect(electric.ctr).toBeCloseTo(30 / 1060)
+
+    const weeks = aggregateKeywordGroupsByWeek([...rows, row({ start_date: '2025-01-12', search_query: 'electric sharpener' })], [group({})])
+    expect(weeks.map(week => week.startDate)).toEqual(['2025-01-05', '2025-01-12'])
+    expect(weeks[1].groups[0].impressions).toBe(100)
+  })
+
+  it('suggests clusters of keywords with overlapping tokens', () => {
+    const suggestions = suggestKeywordClusters([
+      { keyword: 'electric knife sharpener', impressions: 500 },
+      { keyword: 'knife sharpener electric', impressions: 100 },
+      { keyword: 'electric sharpener for knives', impressions: 50 },
+      { keyword: 'whetstone', impressions: 300 },
+      { keyword: 'whetstone kit', impressions: 200 },
+      { keyword: 'honing rod', impressions: 400 }
+    ], { exclude: ['whetstone kit'] })
+
+    expect(suggestions).toHaveLength(1)
+    // "knives" is not "knife": only the shared tokens name the cluster
+    expect(suggestions[0].name).toBe('electric sharpener')
+    expect(suggestions[0].keywords).toEqual([
+      'electric knife sharpener',
+      'knife sharpener electric',
+      'electric sharpener for knives'
+    ])
+    expect(suggestions[0].impressions).toBe(650)
+    expect(suggestions[0].rules).toEqual([{ type: 'exact', keywords: suggestions[0].keywords }])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { z } from 'zod'
+
+export const KEYWORD_RULE_TYPES = ['contains', 'regex', 'exact'] as const
+
+export type KeywordRuleType = typeof KEYWORD_RULE_TYPES[number]
+
+export const keywordGroupRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('contains'),
+    pattern: z.string().trim().min(1).max(200),
+    case_sensitive: z.boolean().default(false)
+  }),
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1).max(500),
+    case_sensitive: z.boolean().default(false)
+  }),
+  z.object({
+    type: z.literal('exact'),
+    keywords: z.array(z.string().trim().min(1)).min(1).max(1000)
+  })
+])
+
+const keywordGroupFields = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().optional().nullable(),
+  brand_id: z.string().uuid().optional().nullable(),
+  rules: z.array(keywordGroupRuleSchema).min(1).max(50),
+  excluded_keywords: z.array(z.string().trim().min(1)).default([]),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().nullable()
+})
+
+function validateGroup(group: Partial<z.infer<typeof keywordGroupFields>>, ctx: z.RefinementCtx) {
+  group.rules?.forEach((rule, index) => {
+    if (rule.type !== 'regex') return
+    try {
+      new RegExp(rule.pattern)
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', path: ['rules', index, 'pattern'], message: `Invalid regular expression: ${(error as Error).message}` })
+    }
+  })
+}
+
+export const keywordGroupSchema = keywordGroupFields.superRefine(validateGroup)
+
+// Updates are validated against the stored group merged with the patch
+export const keywordGroupUpdateSchema = keywordGroupFields.partial()
+
+// Query parameters of the group listing
+export const keywordGroupQuerySchema = z.object({
+  brand_id: z.string().uuid().optional()
+})
+
+export type KeywordGroupRule = z.infer<typeof keywordGroupRuleSchema>
+export type KeywordGroupInput = z.infer<typeof keywordGroupSchema>
+
+export interface KeywordGroup extends KeywordGroupInput {
+  id: string
+  created_at?: string
+  updated_at?: string
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { AuthContext, canAccessBrand } from '@/lib/auth/types'
+import { BrandRollupService, SearchQueryWeekRow } from '../brands/brand-rollup'
+import { rankQueries } from '../brands/share-of-voice'
+import type { KeywordGroup } from './keyword-group-schema'
+import {
+  ClusterOptions,
+  KeywordClusterSuggestion,
+  KeywordGroupMetrics,
+  aggregateKeywordGroups,
+  assignKeywordGroups,
+  suggestKeywordClusters
+} from './keyword-taxonomy'
+import { KeywordListLookup, excludeKeywords } from './keyword-lists'
+
+export interface KeywordGroupReport {
+  groups: KeywordGroupMetrics[]
+  // Keywords with data in the period that no group claims
+  ungroupedKeywords: number
+  totalKeywords: number
+}
+
+// Groups without a brand are shared with everyone
+export function filterVisibleGroups(groups: KeywordGroup[], auth: AuthContext | null): KeywordGroup[] {
+  return groups.filter(group => !group.brand_id || !auth || canAccessBrand(auth, group.brand_id))
+}
+
+/**
+ * Loads keyword groups and aggregates an ASIN set's search query data by group
+ */
+export class KeywordGroupService {
+  constructor(
+    private supabase: any,
+    private rollup: Pick<BrandRollupService, 'getSearchQueryRows'> = new BrandRollupService(supabase)
+  ) {}
+
+  /**
+   * Groups visible for a brand: its own plus those shared across brands.
+   * Without a brand every group is returned.
+   */
+  async listGroups(brandId?: string | null): Promise<KeywordGroup[]> {
+    const select = () => this.supabase
+      .from('keyword_groups')
+      .select('*')
+      .order('name', { ascending: true })
+
+    // Shared and brand groups are read separately so the brand ID is only ever a filter value
+    const results = await Promise.all(brandId
+      ? [select().is('brand_id', null), select().eq('brand_id', brandId)]
+      : [select()])
+
+    const failed = results.find(result => result.error)
+    if (failed) {
+      throw new Error(failed.error.message)
+    }
+
+    return results
+      .flatMap(result => (result.data || []) as KeywordGroup[])
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getGroups(ids: string[]): Promise<KeywordGroup[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('keyword_groups')
+      .select('*')
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    // Keep the requested order
+    const byId = new Map<string, KeywordGroup>((data || []).map((group: KeywordGroup) => [group.id, group]))
+    return ids.map(id => byId.get(id)).filter((group): group is KeywordGroup => !!group)
+  }
+
+  getRows(asins: string[], startDate: string, endDate: string): Promise<SearchQueryWeekRow[]> {
+    return this.rollup.getSearchQueryRows(asins, startDate, endDate)
+  }
+
+  async getReport(
+    asins: string[],
+    startDate: string,
+    endDate: string,
+    groups: KeywordGroup[],
+    keywordLists?: KeywordListLookup
+  ): Promise<KeywordGroupReport> {
+    const fetched = await this.getRows(asins, startDate, endDate)
+    // Excluded keywords count towards no group
+    const rows = keywordLists
+      ? excludeKeywords(fetched, keywordLists, row => row.search_query, row => row.asin).rows
+      : fetched
+    const keywords = Array.from(new Set(rows.map(row => row.search_query)))
+    const grouped = new Set(Array.from(assignKeywordGroups(keywords, groups).values()).flat())
+
+    return {
+      groups: aggregateKeywordGroups(rows, groups),
+      ungroupedKeywords: keywords.filter(keyword => !grouped.has(keyword)).length,
+      totalKeywords: keywords.length
+    }
+  }
+
+  /**
+   * Cluster suggestions from the keywords the ASINs got impressions on,
+   * leaving out keywords the given groups already cover
+   */
+  async suggestClusters(
+    asins: string[],
+    startDate: string,
+    endDate: string,
+    groups: KeywordGroup[],
+    options: Omit<ClusterOptions, 'exclude'> = {}
+  ): Promise<KeywordClusterSuggestion[]> {
+    const rows = await this.getRows(asins, startDate, endDate)
+    const keywords = rankQueries(rows).map(({ query, impressions }) => ({ keyword: query, impressions }))
+    const grouped = Array.from(assignKeywordGroups(keywords.map(item => item.keyword), groups).values()).flat()
+
+    return suggestKeywordClusters(keywords, { ...options, exclude: grouped })
+  }
+}
\ No newline at end of file
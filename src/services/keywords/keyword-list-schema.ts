@@ -0,0 +1,47 @@
+import { z } from 'zod'
+
+export const KEYWORD_LIST_TYPES = ['watch', 'exclude'] as const
+
+export type KeywordListType = typeof KEYWORD_LIST_TYPES[number]
+
+// Search queries in the SQP reports are lower-case with single spaces
+export const keywordSchema = z.string()
+  .transform(keyword => keyword.trim().replace(/\s+/g, ' ').toLowerCase())
+  .pipe(z.string().min(1).max(500))
+
+const keywordListEntryFields = z.object({
+  list_type: z.enum(KEYWORD_LIST_TYPES),
+  keyword: keywordSchema,
+  asin: z.string().trim().min(1).max(20).optional().nullable(),
+  brand_id: z.string().uuid().optional().nullable(),
+  alert_enabled: z.boolean().default(true),
+  note: z.string().max(1000).optional().nullable()
+})
+
+function validateEntry(entry: Partial<z.infer<typeof keywordListEntryFields>>, ctx: z.RefinementCtx) {
+  if (!entry.asin === !entry.brand_id) {
+    ctx.addIssue({ code: 'custom', path: ['asin'], message: 'An entry needs either an asin or a brand_id' })
+  }
+}
+
+export const keywordListEntrySchema = keywordListEntryFields.superRefine(validateEntry)
+
+// Updates are validated against the stored entry merged with the patch
+export const keywordListEntryUpdateSchema = keywordListEntryFields.partial()
+
+export const keywordListImportSchema = z.object({
+  asin: z.string().trim().min(1).max(20).optional().nullable(),
+  brand_id: z.string().uuid().optional().nullable(),
+  csv: z.string().min(1).max(1_000_000),
+  // List for rows without a list column
+  list_type: z.enum(KEYWORD_LIST_TYPES).optional()
+}).superRefine(validateEntry)
+
+export type KeywordListEntryInput = z.infer<typeof keywordListEntrySchema>
+
+export interface KeywordListEntry extends KeywordListEntryInput {
+  id: string
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
\ No newline at end of file
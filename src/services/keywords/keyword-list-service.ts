@@ -0,0 +1,179 @@
+import type { KeywordListEntry, KeywordListType } from './keyword-list-schema'
+import { KeywordListCsvRow, KeywordListLookup, createKeywordListLookup } from './keyword-lists'
+
+export interface KeywordListScope {
+  asin?: string | null
+  brandId?: string | null
+}
+
+export interface KeywordLists {
+  entries: KeywordListEntry[]
+  lookup: KeywordListLookup
+}
+
+export interface KeywordListImportResult {
+  created: number
+  updated: number
+}
+
+/**
+ * Loads and saves per-ASIN and per-brand keyword watchlists and exclusion lists
+ */
+export class KeywordListService {
+  constructor(private supabase: any) {}
+
+  /**
+   * Entries for an ASIN include its brand's entries, since both apply to it.
+   * Entries for a brand are the brand-level entries only. Without a scope
+   * every entry is returned.
+   */
+  async listEntries(scope: KeywordListScope = {}, listType?: KeywordListType): Promise<KeywordListEntry[]> {
+    let query = this.supabase
+      .from('keyword_list_entries')
+      .select('*')
+      .order('list_type', { ascending: true })
+      .order('keyword', { ascending: true })
+
+    if (scope.asin) {
+      const brandIds = Array.from(new Set((await this.getAsinBrands([scope.asin])).values()))
+      query = brandIds.length > 0
+        ? query.or(`asin.eq.${scope.asin},brand_id.in.(${brandIds.join(',')})`)
+        : query.eq('asin', scope.asin)
+    } else if (scope.brandId) {
+      query = query.eq('brand_id', scope.brandId)
+    }
+    if (listType) {
+      query = query.eq('list_type', listType)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Brand of each ASIN. Without ASINs the whole mapping is loaded, for
+   * callers filtering rows across every ASIN.
+   */
+  async getAsinBrands(asins?: string[]): Promise<Map<string, string>> {
+    if (asins && asins.length === 0) return new Map()
+
+    let query = this.supabase
+      .from('asin_brand_mapping')
+      .select('asin, brand_id')
+
+    if (asins) {
+      query = query.in('asin', asins)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return new Map((data || []).map((row: { asin: string; brand_id: string }) => [row.asin, row.brand_id]))
+  }
+
+  // Brand an entry belongs to: its own, or its ASIN's
+  async getScopeBrandId(scope: { asin?: string | null; brand_id?: string | null }): Promise<string | null> {
+    if (scope.brand_id) return scope.brand_id
+    if (!scope.asin) return null
+    return (await this.getAsinBrands([scope.asin])).get(scope.asin) || null
+  }
+
+  /**
+   * Entries that apply to the given ASINs (or to every ASIN) and a lookup
+   * resolving each ASIN's effective list for a keyword
+   */
+  async getKeywordLists(asins?: string[]): Promise<KeywordLists> {
+    if (asins && asins.length === 0) {
+      return { entries: [], lookup: createKeywordListLookup([], new Map()) }
+    }
+    const asinBrands = await this.getAsinBrands(asins)
+
+    let query = this.supabase
+      .from('keyword_list_entries')
+      .select('*')
+
+    if (asins) {
+      const brandIds = Array.from(new Set(asinBrands.values()))
+      query = brandIds.length > 0
+        ? query.or(`asin.in.(${asins.join(',')}),brand_id.in.(${brandIds.join(',')})`)
+        : query.in('asin', asins)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const entries: KeywordListEntry[] = data || []
+    return { entries, lookup: createKeywordListLookup(entries, asinBrands) }
+  }
+
+  /**
+   * Adds imported rows to one ASIN's or brand's lists. Keywords already listed
+   * for the scope move to the imported list and take its alert flag and note.
+   */
+  async importEntries(
+    scope: KeywordListScope,
+    rows: KeywordListCsvRow[],
+    createdBy: string | null = null
+  ): Promise<KeywordListImportResult> {
+    if (!scope.asin === !scope.brandId) {
+      throw new Error('Imports need either an ASIN or a brand')
+    }
+    if (rows.length === 0) return { created: 0, updated: 0 }
+
+    let existingQuery = this.supabase
+      .from('keyword_list_entries')
+      .select('*')
+    existingQuery = scope.asin ? existingQuery.eq('asin', scope.asin) : existingQuery.eq('brand_id', scope.brandId)
+
+    const { data: existing, error: fetchError } = await existingQuery
+    if (fetchError) {
+      throw new Error(fetchError.message)
+    }
+
+    const byKeyword = new Map<string, KeywordListEntry>(
+      (existing || []).map((entry: KeywordListEntry) => [entry.keyword, entry])
+    )
+    const toRecord = (row: KeywordListCsvRow) => ({
+      list_type: row.list_type,
+      keyword: row.keyword,
+      asin: scope.asin || null,
+      brand_id: scope.asin ? null : scope.brandId,
+      alert_enabled: row.alert_enabled,
+      note: row.note
+    })
+
+    const updates = rows
+      .filter(row => byKeyword.has(row.keyword))
+      .map(row => ({ ...byKeyword.get(row.keyword)!, ...toRecord(row) }))
+    const inserts = rows
+      .filter(row => !byKeyword.has(row.keyword))
+      .map(row => ({ ...toRecord(row), created_by: createdBy }))
+
+    if (updates.length > 0) {
+      const { error } = await this.supabase
+        .from('keyword_list_entries')
+        .upsert(updates, { onConflict: 'id' })
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+    if (inserts.length > 0) {
+      const { error } = await this.supabase
+        .from('keyword_list_entries')
+        .insert(inserts)
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+
+    return { created: inserts.length, updated: updates.length }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { stringify } from 'csv-stringify/sync'
+import { KEYWORD_LIST_TYPES, KeywordListEntry, KeywordListType } from './keyword-list-schema'
+
+export type KeywordListLookup = (keyword: string, asin: string) => KeywordListEntry | undefined
+
+export interface KeywordListCsvRow {
+  keyword: string
+  list_type: KeywordListType
+  alert_enabled: boolean
+  note: string | null
+}
+
+export interface KeywordListCsvParseResult {
+  rows: KeywordListCsvRow[]
+  // One message per skipped line
+  errors: string[]
+}
+
+export const KEYWORD_LIST_CSV_COLUMNS = ['keyword', 'list', 'scope', 'alert_enabled', 'note']
+
+export function normalizeKeyword(keyword: string): string {
+  return keyword.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Finds the list a keyword is on for an ASIN. The ASIN's own entry overrides
+ * its brand's. Without an ASIN to brand map every brand-level entry applies,
+ * for callers that only loaded the entries of one ASIN and its brand.
+ */
+export function createKeywordListLookup(
+  entries: KeywordListEntry[],
+  asinBrands?: Map<string, string>
+): KeywordListLookup {
+  const byScope = new Map<string, KeywordListEntry>()
+  const anyBrand = new Map<string, KeywordListEntry>()
+
+  entries.forEach(entry => {
+    const keyword = normalizeKeyword(entry.keyword)
+    if (entry.asin) {
+      byScope.set(`asin:${entry.asin}|${keyword}`, entry)
+    } else {
+      byScope.set(`brand:${entry.brand_id}|${keyword}`, entry)
+      if (!anyBrand.has(keyword)) anyBrand.set(keyword, entry)
+    }
+  })
+
+  return (keyword, asin) => {
+    const key = normalizeKeyword(keyword)
+    const own = byScope.get(`asin:${asin}|${key}`)
+    if (own) return own
+    if (!asinBrands) return anyBrand.get(key)
+
+    const brandId = asinBrands.get(asin)
+    return brandId ? byScope.get(`brand:${brandId}|${key}`) : undefined
+  }
+}
+
+export function getKeywordListType(lookup: KeywordListLookup, keyword: string, asin: string): KeywordListType | null {
+  return lookup(keyword, asin)?.list_type || null
+}
+
+/**
+ * Drops rows whose keyword is on the exclusion list for the row's ASIN and
+ * reports which keywords were dropped
+ */
+export function excludeKeywords<T>(
+  rows: T[],
+  lookup: KeywordListLookup,
+  keywordOf: (row: T) => string,
+  asinOf: (row: T) => string
+): { rows: T[]; excludedQueries: string[] } {
+  const excluded = new Set<string>()
+  const kept = rows.filter(row => {
+    if (getKeywordListType(lookup, keywordOf(row), asinOf(row)) !== 'exclude') return true
+    excluded.add(keywordOf(row))
+    return false
+  })
+
+  return { rows: kept, excludedQueries: Array.from(excluded).sort() }
+}
+
+export function keywordListsToCsv(entries: KeywordListEntry[]): string {
+  return stringify(
+    entries.map(entry => ({
+      keyword: entry.keyword,
+      list: entry.list_type,
+      scope: entry.asin || entry.brand_id,
+      alert_enabled: entry.list_type === 'watch' ? String(entry.alert_enabled) : '',
+      note: entry.note || ''
+    })),
+    { header: true, columns: KEYWORD_LIST_CSV_COLUMNS }
+  )
+}
+
+// RFC 4180 fields: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsvRecords(text: string): Array<{ fields: string[]; line: number }> {
+  const records: Array<{ fields: string[]; line: number }> = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      records.push({ fields: [...record, field], line: recordLine })
+      record = []
+      field = ''
+      recordLine = ++line
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    records.push({ fields: [...record, field], line: recordLine })
+  }
+
+  return records.filter(({ fields }) => fields.some(value => value.trim() !== ''))
+}
+
+function parseBoolean(value: string | undefined): boolean | null {
+  const normalized = (value || '').trim().toLowerCase()
+  if (normalized === '') return true
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false
+  return null
+}
+
+/**
+ * Reads a keyword list CSV. A header row naming a `keyword` column is
+ * optional; without one the first column holds the keywords. Rows without a
+ * `list` value go to defaultList, and are reported as errors when there is none.
+ */
+export function parseKeywordListCsv(text: string, defaultList?: KeywordListType): KeywordListCsvParseResult {
+  const records = parseCsvRecords(text)
+  const header = (records[0]?.fields || []).map(value => value.trim().toLowerCase())
+  const hasHeader = header.includes('keyword')
+  const column = (name: string) => hasHeader ? header.indexOf(name) : (name === 'keyword' ? 0 : -1)
+  const [keywordColumn, listColumn, alertColumn, noteColumn] =
+    ['keyword', 'list', 'alert_enabled', 'note'].map(column)
+
+  const rows: KeywordListCsvRow[] = []
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  records.slice(hasHeader ? 1 : 0).forEach(({ fields, line }) => {
+    const keyword = normalizeKeyword(fields[keywordColumn] || '')
+    const listValue = listColumn >= 0 ? (fields[listColumn] || '').trim().toLowerCase() : ''
+    const listType = (listValue || defaultList) as KeywordListType | undefined
+    const alertEnabled = parseBoolean(alertColumn >= 0 ? fields[alertColumn] : undefined)
+
+    if (!keyword) {
+      errors.push(`Line ${line}: missing keyword`)
+    } else if (!listType || !KEYWORD_LIST_TYPES.includes(listType)) {
+      errors.push(`Line ${line}: list must be one of ${KEYWORD_LIST_TYPES.join(', ')}`)
+    } else if (alertEnabled === null) {
+      errors.push(`Line ${line}: alert_enabled must be true or false`)
+    } else if (seen.has(keyword)) {
+      errors.push(`Line ${line}: "${keyword}" is listed more than once`)
+    } else {
+      seen.add(keyword)
+      rows.push({
+        keyword,
+        list_type: listType,
+        alert_enabled: alertEnabled,
+        note: noteColumn >= 0 ? (fields[noteColumn] || '').trim() || null : null
+      })
+    }
+  })
+
+  return { rows, errors }
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import {
+  SearchQueryWeekRow,
+  ShareTotals,
+  Shares,
+  aggregateShareTotals,
+  calculateShares
+} from '../brands/brand-rollup'
+import type { KeywordGroup, KeywordGroupRule } from './keyword-group-schema'
+
+export interface KeywordGroupMetrics extends ShareTotals, Shares {
+  groupId: string
+  name: string
+  color?: string | null
+  // Member keywords with data in the period
+  keywords: string[]
+  ctr: number
+  cvr: number
+}
+
+export interface KeywordClusterSuggestion {
+  name: string
+  // Tokens every member shares
+  tokens: string[]
+  keywords: string[]
+  impressions: number
+  rules: KeywordGroupRule[]
+}
+
+export interface ClusterOptions {
+  // Jaccard overlap of a keyword's tokens with the cluster seed needed to join (0-1)
+  minOverlap?: number
+  minSize?: number
+  limit?: number
+  // Keywords already in a group are not suggested again
+  exclude?: string[]
+}
+
+const DEFAULT_CLUSTER_OPTIONS: Required<Omit<ClusterOptions, 'exclude'>> = {
+  minOverlap: 0.5,
+  minSize: 2,
+  limit: 20
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with'])
+
+const regexCache = new Map<string, RegExp | null>()
+
+function compile(pattern: string, flags: string): RegExp | null {
+  const key = `${flags}/${pattern}`
+  if (!regexCache.has(key)) {
+    try {
+      regexCache.set(key, new RegExp(pattern, flags))
+    } catch {
+      regexCache.set(key, null)
+    }
+  }
+  return regexCache.get(key)!
+}
+
+export function matchesRule(keyword: string, rule: KeywordGroupRule): boolean {
+  switch (rule.type) {
+    case 'contains':
+      return rule.case_sensitive
+        ? keyword.includes(rule.pattern)
+        : keyword.toLowerCase().includes(rule.pattern.toLowerCase())
+    case 'regex':
+      return compile(rule.pattern, rule.case_sensitive ? '' : 'i')?.test(keyword) ?? false
+    case 'exact':
+      return rule.keywords.some(candidate => candidate.toLowerCase() === keyword.toLowerCase())
+  }
+}
+
+/**
+ * A keyword belongs to a group when any rule matches and it is not excluded
+ */
+export function matchesGroup(keyword: string, group: Pick<KeywordGroup, 'rules' | 'excluded_keywords'>): boolean {
+  const excluded = (group.excluded_keywords || []).some(candidate => candidate.toLowerCase() === keyword.toLowerCase())
+  return !excluded && group.rules.some(rule => matchesRule(keyword, rule))
+}
+
+/**
+ * Member keywords per group id. Groups may overlap, so a keyword can be in
+ * more than one group.
+ */
+export function assignKeywordGroups(keywords: string[], groups: KeywordGroup[]): Map<string, string[]> {
+  const unique = Array.from(new Set(keywords))
+  return new Map(groups.map(group => [group.id, unique.filter(keyword => matchesGroup(keyword, group))]))
+}
+
+/**
+ * Group-level totals. Shares, CTR and CVR come from the summed counts of the
+ * member keywords rather than from averaging per-keyword rates, so a
+ * high-volume keyword weighs in proportion to its volume.
+ */
+export function aggregateKeywordGroups(rows: SearchQueryWeekRow[], groups: KeywordGroup[]): KeywordGroupMetrics[] {
+  const members = assignKeywordGroups(rows.map(row => row.search_query), groups)
+
+  return groups.map(group => {
+    const keywords = new Set(members.get(group.id) || [])
+    const totals = aggregateShareTotals(rows.filter(row => keywords.has(row.search_query)), () => group.id).get(group.id)
+    const counts: ShareTotals = totals || {
+      impressions: 0,
+      clicks: 0,
+      cartAdds: 0,
+      purchases: 0,
+      marketImpressions: 0,
+      marketClicks: 0,
+      marketCartAdds: 0,
+      marketPurchases: 0
+    }
+
+    return {
+      groupId: group.id,
+      name: group.name,
+      color: group.color,
+      keywords: Array.from(keywords).sort(),
+      ...counts,
+      ...calculateShares(counts),
+      ctr: counts.impressions > 0 ? counts.clicks / counts.impressions : 0,
+      cvr: counts.clicks > 0 ? counts.purchases / counts.clicks : 0
+    }
+  })
+}
+
+export function aggregateKeywordGroupsByWeek(
+  rows: SearchQueryWeekRow[],
+  groups: KeywordGroup[]
+): Array<{ startDate: string; groups: KeywordGroupMetrics[] }> {
+  const byWeek = new Map<string, SearchQueryWeekRow[]>()
+  rows.forEach(row => byWeek.set(row.start_date, [...(byWeek.get(row.start_date) || []), row]))
+
+  return Array.from(byWeek.keys())
+    .sort()
+    .map(startDate => ({ startDate, groups: aggregateKeywordGroups(byWeek.get(startDate)!, groups) }))
+}
+
+export function tokenize(keyword: string): string[] {
+  return Array.from(new Set(
+    keyword.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token))
+  ))
+}
+
+function overlap(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b])
+  if (union.size === 0) return 0
+  return a.filter(token => b.includes(token)).length / union.size
+}
+
+/**
+ * Suggests groups of keywords with overlapping tokens. The busiest keyword not
+ * yet clustered seeds each cluster, and every remaining keyword whose tokens
+ * overlap the seed's by at least minOverlap (Jaccard) joins it.
+ */
+export function suggestKeywordClusters(
+  keywords: Array<{ keyword: string; impressions: number }>,
+  options: ClusterOptions = {}
+): KeywordClusterSuggestion[] {
+  const { minOverlap, minSize, limit } = { ...DEFAULT_CLUSTER_OPTIONS, ...options }
+  const excluded = new Set((options.exclude || []).map(keyword => keyword.toLowerCase()))
+
+  const candidates = keywords
+    .filter(item => !excluded.has(item.keyword.toLowerCase()))
+    .map(item => ({ ...item, tokens: tokenize(item.keyword) }))
+    .filter(item => item.tokens.length > 0)
+    .sort((a, b) => b.impressions - a.impressions || a.keyword.localeCompare(b.keyword))
+
+  const clustered = new Set<string>()
+  const suggestions: KeywordClusterSuggestion[] = []
+
+  for (const seed of candidates) {
+    if (clustered.has(seed.keyword)) continue
+
+    const members = candidates.filter(item =>
+      !clustered.has(item.keyword) && overlap(seed.tokens, item.tokens) >= minOverlap
+    )
+    if (members.length < minSize) continue
+
+    members.forEach(member => clustered.add(member.keyword))
+    const shared = seed.tokens.filter(token => members.every(member => member.tokens.includes(token)))
+
+    suggestions.push({
+      name: (shared.length > 0 ? shared : seed.tokens).join(' '),
+      tokens: shared,
+      keywords: members.map(member => member.keyword),
+      impressions: members.reduce((sum, member) => sum + member.impressions, 0),
+      rules: [{ type: 'exact', keywords: members.map(member => member.keyword) }]
+    })
+  }
+
+  return suggestions
+    .sort((a, b) => b.impressions - a.impressions)
+    .slice(0, limit)
+}
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ReportSchedulerService, ReportQueueItem } from '../report-scheduler-service'
+
+vi.mock('../report-generation-service', () => ({
+  ReportGenerationService: vi.fn(),
+  reportGenerationService: { generateReport: vi.fn() }
+}))
+
+vi.mock('../email-delivery-service', () => ({
+  EmailDeliveryService: vi.fn(),
+  emailDeliveryService: { sendReportEmail: vi.fn() }
+}))
+
+// Minimal chainable query builder that records every update per table
+function createMockSupabase(tableResults: Record<string, any> = {}) {
+  const updates: Record<string, any[]> = {}
+  const inserts: Record<string, any[]> = {}
+
+  const from = vi.fn((table: string) => {
+    const builder: any = {
+      insert: vi.fn((payload: any) => {
+        ;(inserts[table] ||= []).push(payload)
+        return builder
+      }),
+      update: vi.fn((payload: any) => {
+        ;(updates[table] ||= []).push(payload)
+        return builder
+      }),
+      select: vi.fn(() => builder),
+      eq: vi.fn(() => builder),
+      in: vi.fn(() => builder),
+      single: vi.fn(() => Promise.resolve(tableResults[`${table}:single`] || { data: null, error: null })),
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(tableResults[table] || { data: null, error: null }).then(resolve, reject)
+    }
+    return builder
+  })
+
+  return {
+    client: { from, rpc: vi.fn() },
+    updates,
+    inserts
+  }
+}
+
+const queueItem = (overrides: Partial<ReportQueueItem> = {}): ReportQueueItem => ({
+  id: 'queue-1',
+  report_configuration_id: 'config-1',
+  scheduled_for: '2025-09-01T00:00:00Z',
+  priority: 5,
+  status: 'processing',
+  attempts: 1,
+  max_attempts: 3,
+  ...overrides
+})
+
+const report = {
+  configuration: {
+    id: 'config-1',
+    name: 'Weekly Report',
+    report_type: 'period_comparison',
+    frequency: 'weekly',
+    config: {},
+    filters: {},
+    export_formats: ['pdf', 'csv'],
+    include_charts: true,
+    include_raw_data: false
+  },
+  sections: [{ type: 'top_movers', title: 'Top Movers', config: {}, data: [{}, {}] }],
+  metadata: {
+    generated_at: new Date(),
+    period_start: new Date(),
+    period_end: new Date(),
+    filters_applied: {}
+  }
+}
+
+describe('ReportSchedulerService', () => {
+  let generator: { generateReport: ReturnType<typeof vi.fn> }
+  let mailer: { sendReportEmail: ReturnType<typeof vi.fn> }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    generator = { generateReport: vi.fn().mockResolvedValue(report) }
+    mailer = { sendReportEmail: vi.fn().mockResolvedValue({ success: true }) }
+  })
+
+  describe('runOnce', () => {
+    it('enqueues due reports and claims rows for this worker', async () => {
+      const mock = createMockSupabase({
+        'report_execution_history:single': { data: { id: 'exec-1' }, error: null },
+        report_recipients: { data: [], error: null }
+      })
+      mock.client.rpc
+        .mockResolvedValueOnce({ data: 2, error: null })
+        .mockResolvedValueOnce({ data: [queueItem()], error: null })
+
+      const scheduler = new ReportSchedulerService(
+        { supabase: mock.client, generator, mailer },
+        { workerId: 'worker-a', batchSize: 10 }
+      )
+
+      const result = await scheduler.runOnce()
+
+      expect(mock.client.rpc).toHaveBeenNthCalledWith(1, 'enqueue_scheduled_reports')
+      expect(mock.client.rpc).toHaveBeenNthCalledWith(2, 'claim_report_queue_items', {
+        p_worker_id: 'worker-a',
+        p_limit: 10,
+        p_lock_timeout_minutes: 30
+      })
+      expect(result.enqueuedCount).toBe(2)
+      expect(result.processed).toEqual([
+        expect.objectContaining({ queueId: 'queue-1', executionId: 'exec-1', status: 'completed' })
+      ])
+    })
+
+    it('throws when the queue cannot be claimed', async () => {
+      const mock = createMockSupabase()
+      mock.client.rpc
+        .mockResolvedValueOnce({ data: 0, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+
+      const scheduler = new ReportSchedulerService({ supabase: mock.client, generator, mailer })
+
+      await expect(scheduler.runOnce()).rejects.toThrow('Failed to claim report queue items: permission denied')
+    })
+  })
+
+  describe('processQueueItem', () => {
+    it('emails active recipients and records the attempt as completed', async () => {
+      const mock = createMockSupabase({
+        'report_execution_history:single': { data: { id: 'exec-1' }, error: null },
+        report_recipients: {
+          data: [
+            { id: 'r1', email: 'a@example.com', name: 'A' },
+            { id: 'r2', email: 'b@example.com', name: null }
+          ],
+          error: null
+        }
+      })
+
+      const scheduler = new ReportSchedulerService(
+        { supabase: mock.client, generator, mailer },
+        { workerId: 'worker-a' }
+      )
+
+      const result = await scheduler.processQueueItem(queueItem())
+
+      expect(result.status).toBe('completed')
+      expect(mailer.sendReportEmail).toHaveBeenCalledWith(
+        report,
+        [{ email: 'a@example.com', name: 'A' }, { email: 'b@example.com', name: undefined }],
+        ['pdf', 'csv']
+      )
+      expect(mock.inserts.report_execution_history[0]).toMatchObject({
+        report_configuration_id: 'config-1',
+        queue_id: 'queue-1',
+        attempt_number: 1,
+        worker_id: 'worker-a',
+        status: 'running'
+      })
+      expect(mock.updates.report_execution_history[0]).toMatchObject({
+        status: 'completed',
+        rows_processed: 2,
+        delivery_status: {
+          'a@example.com': expect.objectContaining({ status: 'delivered' }),
+          'b@example.com': expect.objectContaining({ status: 'delivered' })
+        }
+      })
+      expect(mock.updates.report_queue[0]).toMatchObject({
+        status: 'completed',
+        execution_history_id: 'exec-1',
+        locked_by: null
+      })
+    })
+
+    it('puts the row back to pending with backoff when attempts remain', async () => {
+      generator.generateReport.mockRejectedValue(new Error('View not found'))
+      const mock = createMockSupabase({
+        'report_execution_history:single': { data: { id: 'exec-2' }, error: null }
+      })
+
+      const scheduler = new ReportSchedulerService(
+        { supabase: mock.client, generator, mailer },
+        { retryBaseDelayMs: 1000 }
+      )
+
+      const before = Date.now()
+      const result = await scheduler.processQueueItem(queueItem({ attempts: 2 }))
+
+      expect(result.status).toBe('retrying')
+      expect(result.error).toBe('View not found')
+      expect(new Date(result.nextAttemptAt!).getTime()).toBeGreaterThanOrEqual(before + 2000)
+      expect(mock.updates.report_execution_history[0]).toMatchObject({
+        status: 'failed',
+        error_message: 'View not found'
+      })
+      expect(mock.updates.report_queue[0]).toMatchObject({
+        status: 'pending',
+        next_attempt_at: result.nextAttemptAt
+      })
+    })
+
+    it('marks the row failed once max attempts are used up', async () => {
+      mailer.sendReportEmail.mockResolvedValue({ success: false, errors: ['SMTP down'] })
+      const mock = createMockSupabase({
+        'report_execution_history:single': { data: { id: 'exec-3' }, error: null },
+        report_recipients: { data: [{ id: 'r1', email: 'a@example.com' }], error: null }
+      })
+
+      const scheduler = new ReportSchedulerService({ supabase: mock.client, generator, mailer })
+
+      const result = await scheduler.processQueueItem(queueItem({ attempts: 3, max_attempts: 3 }))
+
+      expect(result.status).toBe('failed')
+      expect(result.error).toBe('Email delivery failed: SMTP down')
+      expect(mock.updates.report_queue[0]).toMatchObject({
+        status: 'failed',
+        next_attempt_at: null
+      })
+    })
+  })
+
+  describe('calculateRetryDelay', () => {
+    it('doubles the delay per attempt up to the cap', () => {
+      const scheduler = new ReportSchedulerService(
+        { supabase: {}, generator, mailer },
+        { retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 }
+      )
+
+      expect(scheduler.calculateRetryDelay(1)).toBe(1000)
+      expect(scheduler.calculateRetryDelay(2)).toBe(2000)
+      expect(scheduler.calculateRetryDelay(3)).toBe(4000)
+      expect(scheduler.calculateRetryDelay(4)).toBe(5000)
+    })
+  })
+})
\ No newline at end of file
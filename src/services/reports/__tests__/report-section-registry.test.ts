@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { createReportSectionRegistry, ReportSectionRegistry } from '../sections/registry'
+import { tableRenderers } from '../sections/renderers'
+import { ReportGenerationService } from '../report-generation-service'
+import { CsvExcelExportService } from '../csv-excel-export-service'
+
+const context = {
+  periodStart: new Date('2025-08-04T00:00:00'),
+  periodEnd: new Date('2025-08-31T00:00:00'),
+  filters: {}
+}
+
+// Chainable query builder resolving every query to the given result
+function createMockSupabase(results: Record<string, any> = {}, rpcResults: Record<string, any> = {}) {
+  const from = vi.fn((table: string) => {
+    const builder: any = {}
+    for (const method of ['select', 'eq', 'gte', 'lte', 'in', 'order', 'limit']) {
+      builder[method] = vi.fn(() => builder)
+    }
+    builder.single = vi.fn(() => Promise.resolve(results[`${table}:single`] || { data: null, error: null }))
+    builder.then = (resolve: any, reject: any) =>
+      Promise.resolve(results[table] || { data: [], error: null }).then(resolve, reject)
+    return builder
+  })
+  const rpc = vi.fn((name: string) => Promise.resolve(rpcResults[name] || { data: [], error: null }))
+  return { from, rpc }
+}
+
+describe('ReportSectionRegistry', () => {
+  const registry = createReportSectionRegistry()
+
+  it('should apply config defaults and derive the title from the config', () => {
+    const resolution = registry.resolve({ type: 'trending_keywords', config: { classification: 'declining' } })
+
+    expect(resolution.success).toBe(true)
+    if (!resolution.success) return
+    expect(resolution.config).toEqual({ classification: 'declining', limit: 20, window_size: 6 })
+    expect(resolution.title).toBe('Declining Keywords')
+  })
+
+  it('should resolve the section types used by the seeded templates', () => {
+    expect(registry.get('top_keywords')?.type).toBe('trending_keywords')
+    expect(registry.get('market_share')?.type).toBe('market_share_overview')
+    expect(registry.has('revenue_analysis')).toBe(false)
+  })
+
+  it('should report unknown types and invalid configs per section', () => {
+    const errors = registry.validate([
+      { type: 'cvr_gap', config: { min_clicks: 10 } },
+      { type: 'revenue_analysis' },
+      { type: 'rank_correlation', config: { metric: 'revenue' } }
+    ])
+
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toBe('sections[1]: Unknown report section type: revenue_analysis')
+    expect(errors[1]).toMatch(/^sections\[2\]: Invalid config for rank_correlation section: metric:/)
+  })
+
+  it('should reject duplicate registrations', () => {
+    const custom = new ReportSectionRegistry()
+    const definition = {
+      type: 'custom_table',
+      label: 'Custom Table',
+      description: 'Test section',
+      configSchema: z.object({}),
+      title: () => 'Custom Table',
+      fetchData: async () => [],
+      renderers: tableRenderers((data: any[]) => data)
+    }
+
+    custom.register(definition)
+    expect(() => custom.register(definition)).toThrow('Report section type already registered: custom_table')
+    expect(() => custom.alias('other', 'missing')).toThrow('Cannot alias unknown report section type: missing')
+  })
+
+  it('should fetch CVR gaps for the report period and render them as rows', async () => {
+    const supabase = createMockSupabase({}, {
+      calculate_cvr_gaps: {
+        data: [{
+          query: 'knife sharpener',
+          asin: 'B001',
+          total_clicks: 500,
+          total_purchases: 10,
+          avg_cvr: 0.02,
+          market_avg_cvr: 0.05,
+          competitor_best_cvr: 0.06,
+          category_avg_cvr: 0.04,
+          historical_avg_cvr: 0.03,
+          total_impressions: 8000
+        }],
+        error: null
+      }
+    })
+    const resolution = registry.resolve({ type: 'cvr_gap', config: { asin: 'B001' } })
+    if (!resolution.success) throw new Error(resolution.error)
+
+    const data = await resolution.definition.fetchData(resolution.config, { ...context, supabase })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('calculate_cvr_gaps', {
+      p_start_date: '2025-08-04',
+      p_end_date: '2025-08-31',
+      p_keywords: null,
+      p_asin: 'B001',
+      p_min_clicks: 50,
+      p_benchmark_type: 'market_average'
+    })
+    const rows = resolution.definition.renderers.table(data, resolution.config)
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({ query: 'knife sharpener', priority_level: 'critical' })
+    expect(rows[0].market_gap).toBeCloseTo(-0.03)
+    expect(resolution.definition.renderers.preview(data, resolution.config)).toMatchObject({ kind: 'table', total: 1 })
+  })
+})
+
+describe('ReportGenerationService with registered sections', () => {
+  const configuration = (overrides: Record<string, any>) => ({
+    id: 'config-1',
+    name: 'Custom Report',
+    frequency: 'weekly',
+    filters: {},
+    export_formats: ['csv'],
+    include_charts: false,
+    include_raw_data: false,
+    ...overrides
+  })
+
+  function createService(config: Record<string, any>, results: Record<string, any> = {}) {
+    const service = new ReportGenerationService()
+    const supabase = createMockSupabase({
+      'report_configurations:single': { data: config, error: null },
+      ...results
+    })
+    ;(service as any).supabase = supabase
+    return { service, supabase }
+  }
+
+  it('should build custom reports from the listed sections with previews', async () => {
+    const { service } = createService(configuration({
+      report_type: 'custom',
+      config: {
+        sections: [
+          { type: 'executive_summary' },
+          { type: 'purchase_velocity', title: 'Velocity', config: { limit: 5 } }
+        ]
+      }
+    }))
+
+    const report = await service.generateReport('config-1')
+
+    expect(report.sections.map(section => section.type)).toEqual(['executive_summary', 'purchase_velocity'])
+    expect(report.sections[1].title).toBe('Velocity')
+    expect(report.sections[1].config).toMatchObject({ aggregate: 'weekly', limit: 5 })
+    expect(report.sections[0].preview).toMatchObject({ kind: 'metrics' })
+    expect(report.sections[1].preview).toEqual({ kind: 'empty', message: 'No keywords met the purchase threshold' })
+  })
+
+  it('should reject custom reports with invalid sections', async () => {
+    const { service } = createService(configuration({
+      report_type: 'custom',
+      config: { sections: [{ type: 'purchase_velocity', config: { aggregate: 'daily' } }] }
+    }))
+
+    await expect(service.generateReport('config-1')).rejects.toThrow(/Invalid custom report sections/)
+  })
+
+  it('should skip template sections that are not registered and unavailable data', async () => {
+    const { service } = createService(configuration({
+      report_type: 'custom',
+      config: { template_id: 'template-1' }
+    }), {
+      'report_templates:single': {
+        data: {
+          sections: [
+            { type: 'period_comparison', title: 'Monthly Performance', config: { period: 'month' } },
+            { type: 'revenue_analysis', title: 'Revenue Analysis', config: {} },
+            { type: 'market_share', title: 'Market Share Overview', config: {} }
+          ]
+        },
+        error: null
+      },
+      month_over_month_comparison: { data: null, error: { message: 'relation does not exist' } }
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const report = await service.generateReport('config-1')
+
+    expect(report.sections.map(section => section.type)).toEqual(['market_share_overview'])
+  })
+
+  it('should expand report type presets and export sections through their table renderers', async () => {
+    const { service } = createService(configuration({ report_type: 'anomaly_detection', config: { threshold: 3 } }))
+
+    const report = await service.generateReport('config-1')
+
+    expect(report.sections.map(section => section.title)).toEqual([
+      'Anomaly Detection Summary',
+      'Recent Anomalies',
+      'Anomaly Patterns'
+    ])
+    expect(report.sections[1].config).toEqual({ days: 7, threshold: 3 })
+
+    const csv = (await new CsvExcelExportService().exportToCsv(report)).toString()
+    expect(csv).toContain('"=== Anomaly Detection Summary ==="')
+    expect(csv).toContain('"Total Anomalies","0"')
+  })
+})
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { GeneratedReport, ReportSection } from './report-generation-service'
 import { stringify } from 'csv-stringify/sync'
 import * as XLSX from 'xlsx'
+import { reportSectionRegistry } from './sections/registry'
+import type { SectionRow } from './sections/types'
 
 export class CsvExcelExportService {
   async exportToCsv(report: GeneratedReport): Promise<Buffer> {
@@ -98,83 +100,13 @@ export class CsvExcelExportService {
     return Buffer.from(excelBuffer)
   }
   
-  private extractSectionData(section: ReportSection): any[] {
-    const { data } = section
-    
-    if (!data) return []
-    
-    // Handle different data structures
-    if (Array.isArray(data)) {
-      return data
-    }
-    
-    if (data.keywords && Array.isArray(data.keywords)) {
-      return data.keywords
-    }
-    
-    if (data.data && Array.isArray(data.data)) {
-      return data.data
-    }
-    
-    if (data.trends && Array.isArray(data.trends)) {
-      return data.trends
-    }
-    
-    if (data.anomalies && Array.isArray(data.anomalies)) {
-      return data.anomalies
+  // Rows come from the section type's table renderer
+  private extractSectionData(section: ReportSection): SectionRow[] {
+    const definition = reportSectionRegistry.get(section.type)
+    if (!definition || section.data === undefined || section.data === null) {
+      return []
     }
-    
-    // Handle period comparison data
-    if (data.topGainers || data.topDecliners) {
-      const results: any[] = []
-      
-      if (data.topGainers) {
-        data.topGainers.forEach((item: any) => {
-          results.push({
-            type: 'Gainer',
-            ...item
-          })
-        })
-      }
-      
-      if (data.topDecliners) {
-        data.topDecliners.forEach((item: any) => {
-          results.push({
-            type: 'Decliner',
-            ...item
-          })
-        })
-      }
-      
-      return results
-    }
-    
-    // Handle metrics/summary data
-    if (data.metrics) {
-      // Convert metrics object to array format
-      return Object.entries(data.metrics).map(([key, value]) => ({
-        metric: key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-        value
-      }))
-    }
-    
-    // Handle single object data
-    if (typeof data === 'object' && !Array.isArray(data)) {
-      // Check if it has numeric properties that should be converted to rows
-      const hasNumericProps = Object.values(data).some(v => typeof v === 'number')
-      
-      if (hasNumericProps) {
-        return Object.entries(data).map(([key, value]) => ({
-          metric: key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-          value
-        }))
-      }
-      
-      // Otherwise, return as single row
-      return [data]
-    }
-    
-    return []
+    return definition.renderers.table(section.data, section.config)
   }
   
   private sanitizeSheetName(name: string, index: number): string {
@@ -78,6 +78,29 @@ export class EmailDeliveryService {
     }
   }
 
+  async sendNotificationEmail(
+    recipients: EmailRecipient[],
+    content: { subject: string; text: string; html: string }
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      this.initialize()
+
+      if (this.useSendGrid) {
+        return await this.sendViaSendGrid(recipients, content, [])
+      } else if (this.transporter) {
+        return await this.sendViaSMTP(recipients, content, [])
+      } else {
+        throw new Error('No email service configured. Please set up SendGrid or SMTP.')
+      }
+    } catch (error) {
+      console.error('Email delivery error:', error)
+      return {
+        success: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error']
+      }
+    }
+  }
+
   private async generateAttachments(
     report: GeneratedReport,
     formats: string[]
@@ -226,7 +249,7 @@ This report was automatically generated by SQP Intelligence.
     recipients: EmailRecipient[],
     content: { subject: string; text: string; html: string },
     attachments: EmailAttachment[],
-    report: GeneratedReport
+    report?: GeneratedReport
   ): Promise<{ success: boolean; errors?: string[] }> {
     const errors: string[] = []
 
@@ -261,7 +284,7 @@ This report was automatically generated by SQP Intelligence.
     recipients: EmailRecipient[],
     content: { subject: string; text: string; html: string },
     attachments: EmailAttachment[],
-    report: GeneratedReport
+    report?: GeneratedReport
   ): Promise<{ success: boolean; errors?: string[] }> {
     if (!this.transporter) {
       return { success: false, errors: ['SMTP transporter not configured'] }
@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
-import { GeneratedReport } from './report-generation-service'
+import { GeneratedReport, ReportSection } from './report-generation-service'
+import { reportSectionRegistry } from './sections/registry'
+import type { PdfSectionContent } from './sections/types'
 
 export class PdfExportService {
   async generatePdf(report: GeneratedReport): Promise<Buffer> {
@@ -56,8 +58,8 @@ export class PdfExportService {
       doc.text(section.title, 20, yPosition)
       yPosition += 8
 
-      // Section content
-      const sectionData = this.extractSectionData(section)
+      // Section content comes from the section type's PDF renderer
+      const { rows: sectionData, lines } = this.renderSection(section)
       
       if (sectionData && sectionData.length > 0) {
         // Create table
@@ -90,15 +92,16 @@ export class PdfExportService {
         })
 
         yPosition = (doc as any).lastAutoTable.finalY + 10
-      } else if (section.data && typeof section.data === 'object') {
+      }
+
+      if (lines && lines.length > 0) {
         // Handle summary data
         doc.setFontSize(10)
         doc.setTextColor(50)
         
-        const summaryText = this.formatSummaryData(section.data)
-        const lines = doc.splitTextToSize(summaryText, 170)
-        doc.text(lines, 20, yPosition)
-        yPosition += lines.length * 5 + 5
+        const wrapped = doc.splitTextToSize(lines.join('\n'), 170)
+        doc.text(wrapped, 20, yPosition)
+        yPosition += wrapped.length * 5 + 5
       }
     }
 
@@ -139,59 +142,12 @@ export class PdfExportService {
     return styles
   }
 
-  private extractSectionData(section: any): any[] {
-    const { data } = section
-    
-    if (!data) return []
-    
-    // Handle different data structures
-    if (Array.isArray(data)) {
-      return data
-    }
-    
-    if (data.keywords && Array.isArray(data.keywords)) {
-      return data.keywords
-    }
-    
-    if (data.data && Array.isArray(data.data)) {
-      return data.data
-    }
-    
-    if (data.trends && Array.isArray(data.trends)) {
-      return data.trends
-    }
-    
-    if (data.anomalies && Array.isArray(data.anomalies)) {
-      return data.anomalies
+  private renderSection(section: ReportSection): PdfSectionContent {
+    const definition = reportSectionRegistry.get(section.type)
+    if (!definition || section.data === undefined || section.data === null) {
+      return {}
     }
-    
-    return []
-  }
-
-  private formatSummaryData(data: any): string {
-    const lines: string[] = []
-    
-    if (data.total_impressions !== undefined) {
-      lines.push(`Total Impressions: ${data.total_impressions.toLocaleString()}`)
-    }
-    if (data.total_clicks !== undefined) {
-      lines.push(`Total Clicks: ${data.total_clicks.toLocaleString()}`)
-    }
-    if (data.total_purchases !== undefined) {
-      lines.push(`Total Purchases: ${data.total_purchases.toLocaleString()}`)
-    }
-    if (data.total_revenue !== undefined) {
-      lines.push(`Total Revenue: $${data.total_revenue.toLocaleString()}`)
-    }
-    
-    if (data.key_insights && Array.isArray(data.key_insights)) {
-      lines.push('\nKey Insights:')
-      data.key_insights.forEach((insight: string) => {
-        lines.push(`• ${insight}`)
-      })
-    }
-    
-    return lines.join('\n')
+    return definition.renderers.pdf(section.data, section.config)
   }
 }
 
@@ -0,0 +1,396 @@
+/**
+ * Shared calculations behind the performance report APIs and the matching
+ * report sections. Inputs are the raw rows returned by the sqp functions
+ * and summary tables; outputs are the enriched rows the APIs return.
+ */
+
+// CVR gap analysis
+
+export interface CVRData {
+  query: string
+  asin: string
+  total_clicks: number
+  total_purchases: number
+  avg_cvr: number
+  market_avg_cvr: number
+  competitor_best_cvr: number
+  category_avg_cvr: number
+  historical_avg_cvr: number
+  total_impressions: number
+}
+
+export function calculateCVRGaps(data: CVRData[]): any[] {
+  return data.map(row => {
+    // Calculate various gap metrics
+    const marketGap = row.avg_cvr - (row.market_avg_cvr || 0)
+    const competitorGap = row.avg_cvr - (row.competitor_best_cvr || 0)
+    const categoryGap = row.avg_cvr - (row.category_avg_cvr || 0)
+    const historicalGap = row.avg_cvr - (row.historical_avg_cvr || 0)
+
+    // Calculate potential impact
+    const marketGapImpact = marketGap < 0 ? Math.abs(marketGap) * row.total_clicks : 0
+    const competitorGapImpact = competitorGap < 0 ? Math.abs(competitorGap) * row.total_clicks : 0
+
+    // Determine priority level
+    const priorityScore = calculatePriorityScore(row, marketGap, competitorGap)
+    const priorityLevel = getPriorityLevel(priorityScore)
+
+    // Calculate confidence level based on data quality
+    const confidenceLevel = calculateConfidenceLevel(row)
+
+    // Identify gap type and recommendations
+    const gapAnalysis = analyzeGapType(marketGap, competitorGap, categoryGap, historicalGap)
+
+    return {
+      ...row,
+      market_gap: marketGap,
+      market_gap_percentage: row.market_avg_cvr > 0 ? (marketGap / row.market_avg_cvr) * 100 : 0,
+      competitor_gap: competitorGap,
+      competitor_gap_percentage: row.competitor_best_cvr > 0 ? (competitorGap / row.competitor_best_cvr) * 100 : 0,
+      category_gap: categoryGap,
+      historical_gap: historicalGap,
+      
+      // Impact metrics
+      market_gap_impact: marketGapImpact,
+      competitor_gap_impact: competitorGapImpact,
+      missed_conversions_estimate: Math.max(marketGapImpact, competitorGapImpact),
+      
+      // Priority and confidence
+      priority_score: priorityScore,
+      priority_level: priorityLevel,
+      confidence_level: confidenceLevel,
+      
+      // Analysis
+      gap_type: gapAnalysis.type,
+      primary_benchmark_gap: gapAnalysis.primaryGap,
+      improvement_opportunity: gapAnalysis.opportunity,
+      recommended_actions: gapAnalysis.recommendations,
+      
+      // Additional metrics
+      traffic_quality_score: row.total_clicks > 0 ? (row.total_purchases / row.total_clicks) * 100 : 0,
+      conversion_efficiency: row.avg_cvr / (row.category_avg_cvr || 0.01), // Relative to category
+    }
+  }).sort((a: any, b: any) => b.priority_score - a.priority_score)
+}
+
+function calculatePriorityScore(row: CVRData, marketGap: number, competitorGap: number): number {
+  // Weighted scoring based on multiple factors
+  const volumeScore = Math.min(row.total_clicks / 1000, 1) * 30; // Max 30 points for volume
+  const gapScore = Math.max(Math.abs(marketGap), Math.abs(competitorGap)) * 100 * 25; // Max 25 points for gap size
+  const impressionScore = Math.min(row.total_impressions / 10000, 1) * 20; // Max 20 points for visibility
+  const opportunityScore = (marketGap < 0 || competitorGap < 0) ? 25 : 0; // 25 points if below benchmarks
+
+  return volumeScore + gapScore + impressionScore + opportunityScore
+}
+
+function getPriorityLevel(score: number): string {
+  if (score >= 70) return 'critical'
+  if (score >= 50) return 'high'
+  if (score >= 30) return 'medium'
+  return 'low'
+}
+
+function calculateConfidenceLevel(row: CVRData): string {
+  // Base confidence on sample size and data recency
+  const sampleSizeScore = Math.min(row.total_clicks / 100, 1)
+  const conversionsSizeScore = Math.min(row.total_purchases / 20, 1)
+  
+  const overallConfidence = (sampleSizeScore + conversionsSizeScore) / 2
+  
+  if (overallConfidence >= 0.8) return 'high'
+  if (overallConfidence >= 0.5) return 'medium'
+  return 'low'
+}
+
+function analyzeGapType(
+  marketGap: number, 
+  competitorGap: number, 
+  categoryGap: number, 
+  historicalGap: number
+): any {
+  let type = 'underperforming'
+  let primaryGap = 'market'
+  let opportunity = 'low'
+  let recommendations = []
+
+  // Determine gap type
+  if (marketGap > 0 && competitorGap > 0) {
+    type = 'outperforming'
+    opportunity = 'optimization'
+    recommendations.push('Monitor for competitive threats', 'Test conversion optimization')
+  } else if (marketGap < 0 || competitorGap < 0) {
+    type = 'underperforming'
+    
+    // Find primary gap
+    if (Math.abs(competitorGap) > Math.abs(marketGap)) {
+      primaryGap = 'competitor'
+      opportunity = 'high'
+      recommendations.push(
+        'Analyze top competitor product listings',
+        'Improve product images and descriptions',
+        'Review pricing strategy'
+      )
+    } else {
+      primaryGap = 'market'
+      opportunity = 'medium'
+      recommendations.push(
+        'Optimize product listing',
+        'Improve customer reviews',
+        'Enhance product imagery'
+      )
+    }
+    
+    // Historical comparison
+    if (historicalGap < -0.01) {
+      recommendations.push('Investigate recent changes that may have impacted conversion')
+    }
+    
+    // Category comparison
+    if (categoryGap < -0.02) {
+      recommendations.push('Study category best practices', 'Consider product positioning changes')
+    }
+  } else {
+    type = 'stable'
+    opportunity = 'incremental'
+    recommendations.push('Test incremental improvements', 'Monitor conversion trends')
+  }
+
+  return {
+    type,
+    primaryGap,
+    opportunity,
+    recommendations
+  }
+}
+
+export function calculateCVRGapSummary(data: any[]): any {
+  const criticalCount = data.filter((d: any) => d.priority_level === 'critical').length
+  const highCount = data.filter((d: any) => d.priority_level === 'high').length
+  const underperformingCount = data.filter((d: any) => d.gap_type === 'underperforming').length
+  
+  const totalMissedConversions = data.reduce((sum: number, d: any) => sum + (d.missed_conversions_estimate || 0), 0)
+  const avgMarketGap = data.length > 0 
+    ? data.reduce((sum: number, d: any) => sum + d.market_gap, 0) / data.length 
+    : 0
+
+  return {
+    total_analyzed: data.length,
+    critical_issues: criticalCount,
+    high_priority: highCount,
+    underperforming_keywords: underperformingCount,
+    total_missed_conversions_estimate: totalMissedConversions,
+    avg_market_gap_percentage: avgMarketGap * 100,
+    improvement_opportunities: criticalCount + highCount,
+    quick_wins_available: data.filter((d: any) => 
+      d.priority_level === 'high' && d.confidence_level === 'high'
+    ).length,
+  }
+}
+
+// Rank correlation analysis
+
+export interface CorrelationData {
+  query: string
+  asin: string
+  period_end: string
+  organic_rank: number
+  total_purchases: number
+  total_clicks: number
+  total_impressions: number
+}
+
+export function calculateCorrelations(data: CorrelationData[], metric: string): any[] {
+  // Group by query and ASIN
+  const grouped = data.reduce((acc: any, row: any) => {
+    const key = `${row.query}:${row.asin}`
+    if (!acc[key]) {
+      acc[key] = []
+    }
+    acc[key].push(row)
+    return acc
+  }, {} as Record<string, CorrelationData[]>)
+
+  const results = []
+
+  for (const [key, rows] of Object.entries(grouped)) {
+    const typedRows = rows as CorrelationData[]
+    if (typedRows.length < 4) continue; // Need at least 4 data points for meaningful correlation
+
+    const [query, asin] = key.split(':')
+    
+    // Extract ranks and metric values
+    const ranks = typedRows.map(r => r.organic_rank).filter(r => r && r > 0)
+    const metricValues = typedRows.map(r => {
+      switch (metric) {
+        case 'clicks': return r.total_clicks
+        case 'impressions': return r.total_impressions
+        default: return r.total_purchases
+      }
+    }).filter(v => v >= 0)
+
+    if (ranks.length !== metricValues.length || ranks.length < 4) continue
+
+    // Calculate Pearson correlation coefficient
+    const correlation = calculatePearsonCorrelation(ranks, metricValues)
+    
+    // Calculate additional statistics
+    const avgRank = ranks.reduce((sum: number, r) => sum + r, 0) / ranks.length
+    const avgMetric = metricValues.reduce((sum: number, v: any) => sum + v, 0) / metricValues.length
+    const rankRange = Math.max(...ranks) - Math.min(...ranks)
+    const metricRange = Math.max(...metricValues) - Math.min(...metricValues)
+    
+    // Determine correlation strength and significance
+    const absCorrelation = Math.abs(correlation)
+    let strength = 'weak'
+    let significance = 'not_significant'
+    
+    if (absCorrelation >= 0.7) {
+      strength = 'strong'
+      significance = 'highly_significant'
+    } else if (absCorrelation >= 0.5) {
+      strength = 'moderate'
+      significance = 'significant'
+    } else if (absCorrelation >= 0.3) {
+      strength = 'weak'
+      significance = 'marginally_significant'
+    }
+
+    results.push({
+      query,
+      asin,
+      correlation_coefficient: correlation,
+      correlation_strength: strength,
+      significance_level: significance,
+      data_points: ranks.length,
+      avg_rank: avgRank,
+      avg_metric_value: avgMetric,
+      rank_volatility: rankRange,
+      metric_volatility: metricRange,
+      rank_improvement_opportunity: avgRank > 10 ? 'high' : avgRank > 5 ? 'medium' : 'low',
+      data_quality_score: Math.min(1, ranks.length / 12) * (rankRange > 5 ? 1 : 0.7),
+    })
+  }
+
+  return results.sort((a: any, b: any) => Math.abs(b.correlation_coefficient) - Math.abs(a.correlation_coefficient))
+}
+
+function calculatePearsonCorrelation(x: number[], y: number[]): number {
+  const n = x.length
+  if (n === 0) return 0
+
+  const sumX = x.reduce((sum: number, val) => sum + val, 0)
+  const sumY = y.reduce((sum: number, val) => sum + val, 0)
+  const sumXY = x.reduce((sum: number, val, i) => sum + val * y[i], 0)
+  const sumX2 = x.reduce((sum: number, val) => sum + val * val, 0)
+  const sumY2 = y.reduce((sum: number, val) => sum + val * val, 0)
+
+  const numerator = n * sumXY - sumX * sumY
+  const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY))
+
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+// Purchase velocity analysis
+
+export function calculateVelocityMetrics(data: any[]): any[] {
+  // Group by query and asin
+  const grouped = data.reduce((acc: any, row: any) => {
+    const key = `${row.query}:${row.asin}`
+    if (!acc[key]) {
+      acc[key] = []
+    }
+    acc[key].push(row)
+    return acc
+  }, {} as Record<string, any[]>)
+
+  const results = []
+
+  for (const [key, rows] of Object.entries(grouped)) {
+    const sortedRows = (rows as any[]).sort((a: any, b: any) => 
+      new Date(b.period_end).getTime() - new Date(a.period_end).getTime()
+    )
+
+    for (let i = 0; i < sortedRows.length; i++) {
+      const current = sortedRows[i]
+      const previous = sortedRows[i + 1]
+      
+      let velocityChange = null
+      let velocityTrend = 'unknown'
+      let weekOverWeekGrowth = null
+
+      if (previous) {
+        velocityChange = ((current.total_purchases - previous.total_purchases) / previous.total_purchases) * 100
+        weekOverWeekGrowth = (current.total_purchases - previous.total_purchases) / previous.total_purchases
+        
+        if (velocityChange > 10) {
+          velocityTrend = 'accelerating'
+        } else if (velocityChange < -10) {
+          velocityTrend = 'decelerating'
+        } else {
+          velocityTrend = 'stable'
+        }
+      }
+
+      // Calculate trend strength based on multiple periods
+      let trendDirection = 'neutral'
+      let trendStrength = 0
+
+      if (sortedRows.length >= 3) {
+        const recent3 = sortedRows.slice(Math.max(0, i - 2), i + 1)
+        const changes = []
+        
+        for (let j = 0; j < recent3.length - 1; j++) {
+          const change = (recent3[j].total_purchases - recent3[j + 1].total_purchases) / recent3[j + 1].total_purchases
+          changes.push(change)
+        }
+
+        const avgChange = changes.reduce((sum: number, c: any) => sum + c, 0) / changes.length
+        trendStrength = Math.abs(avgChange)
+        
+        if (avgChange > 0.05) {
+          trendDirection = 'upward'
+        } else if (avgChange < -0.05) {
+          trendDirection = 'downward'
+        }
+      }
+
+      results.push({
+        ...current,
+        previous_week_purchases: previous?.total_purchases || null,
+        velocity_change: velocityChange,
+        velocity_trend: velocityTrend,
+        week_over_week_growth: weekOverWeekGrowth,
+        trend_direction: trendDirection,
+        trend_strength: trendStrength,
+      })
+    }
+  }
+
+  return results.sort((a: any, b: any) => 
+    new Date(b.period_end).getTime() - new Date(a.period_end).getTime()
+  )
+}
+
+export function calculateVelocityStatistics(data: any[]) {
+  const validChanges = data
+    .map(d => d.velocity_change)
+    .filter(v => v !== null && !isNaN(v))
+
+  const accelerating = data.filter((d: any) => d.velocity_trend === 'accelerating').length
+  const decelerating = data.filter((d: any) => d.velocity_trend === 'decelerating').length
+  const stable = data.filter((d: any) => d.velocity_trend === 'stable').length
+
+  return {
+    total_items: data.length,
+    avg_velocity_change: validChanges.length > 0 
+      ? validChanges.reduce((sum: number, v: any) => sum + v, 0) / validChanges.length 
+      : null,
+    max_velocity_change: validChanges.length > 0 ? Math.max(...validChanges) : null,
+    min_velocity_change: validChanges.length > 0 ? Math.min(...validChanges) : null,
+    accelerating_count: accelerating,
+    decelerating_count: decelerating,
+    stable_count: stable,
+    accelerating_percentage: accelerating / data.length * 100,
+    decelerating_percentage: decelerating / data.length * 100,
+  }
+}
\ No newline at end of file
@@ -1,11 +1,17 @@
 import { createClient } from '@supabase/supabase-js'
-import { format, subDays, startOfWeek, startOfMonth, startOfQuarter } from 'date-fns'
+import { subDays, startOfWeek, startOfMonth, startOfQuarter } from 'date-fns'
+import { reportSectionRegistry } from './sections/registry'
+import { REPORT_TYPE_PRESETS } from './sections/presets'
+import { KeywordListService } from '../keywords/keyword-list-service'
+import type { KeywordListLookup } from '../keywords/keyword-lists'
+import type { ReportSectionSpec, SectionContext, SectionPreview } from './sections/types'
 
 export interface ReportSection {
   type: string
   title: string
   config: Record<string, any>
   data?: any
+  preview?: SectionPreview
 }
 
 export interface ReportConfiguration {
@@ -70,31 +76,15 @@ export class ReportGenerationService {
     // Calculate date range based on frequency
     const { period_start, period_end } = this.calculateDateRange(config.frequency)
 
-    // Generate report based on type
-    let sections: ReportSection[] = []
-
-    switch (config.report_type) {
-      case 'period_comparison':
-        sections = await this.generatePeriodComparisonReport(config, period_start, period_end)
-        break
-      case 'keyword_trends':
-        sections = await this.generateKeywordTrendsReport(config, period_start, period_end)
-        break
-      case 'market_share_analysis':
-        sections = await this.generateMarketShareReport(config, period_start, period_end)
-        break
-      case 'anomaly_detection':
-        sections = await this.generateAnomalyReport(config, period_start, period_end)
-        break
-      case 'comprehensive_dashboard':
-        sections = await this.generateComprehensiveReport(config, period_start, period_end)
-        break
-      case 'custom':
-        sections = await this.generateCustomReport(config, period_start, period_end)
-        break
-      default:
-        throw new Error(`Unknown report type: ${config.report_type}`)
-    }
+    // Resolve the report's sections and fetch their data through the section registry
+    const specs = await this.resolveSectionSpecs(config)
+    const sections = await this.buildSections(specs, {
+      supabase: this.getSupabaseClient(),
+      periodStart: period_start,
+      periodEnd: period_end,
+      filters: config.filters || {},
+      keywordLists: await this.loadKeywordLists(config.filters || {})
+    })
 
     return {
       configuration: config,
@@ -141,201 +131,27 @@ export class ReportGenerationService {
     return { period_start, period_end }
   }
 
-  private async generatePeriodComparisonReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-    const filters = config.filters || {}
-
-    // Executive Summary
-    sections.push({
-      type: 'executive_summary',
-      title: 'Executive Summary',
-      config: {},
-      data: await this.fetchExecutiveSummary(period_start, period_end, filters)
-    })
-
-    // Period Comparisons
-    for (const period of ['week', 'month', 'quarter']) {
-      const comparisonData = await this.fetchPeriodComparison(period, filters)
-      if (comparisonData) {
-        sections.push({
-          type: 'period_comparison',
-          title: `${period.charAt(0).toUpperCase() + period.slice(1)}-over-${period.charAt(0).toUpperCase() + period.slice(1)} Comparison`,
-          config: { period },
-          data: comparisonData
-        })
+  /**
+   * Sections for the configured report type. Custom reports list their own
+   * sections in `config.sections` or point at a report template.
+   */
+  private async resolveSectionSpecs(config: ReportConfiguration): Promise<ReportSectionSpec[]> {
+    if (config.report_type !== 'custom') {
+      const preset = REPORT_TYPE_PRESETS[config.report_type]
+      if (!preset) {
+        throw new Error(`Unknown report type: ${config.report_type}`)
       }
+      return preset(config.config || {})
     }
 
-    // Top Movers
-    sections.push({
-      type: 'top_movers',
-      title: 'Top Movers',
-      config: { limit: 10 },
-      data: await this.fetchTopMovers(period_start, period_end, filters)
-    })
-
-    return sections
-  }
-
-  private async generateKeywordTrendsReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-    const filters = config.filters || {}
-    const windowSize = config.config?.window_size || 6
-
-    // Trend Distribution
-    sections.push({
-      type: 'trend_distribution',
-      title: 'Keyword Trend Distribution',
-      config: { window_size: windowSize },
-      data: await this.fetchTrendDistribution(windowSize, filters)
-    })
-
-    // Top Trending Keywords
-    sections.push({
-      type: 'trending_keywords',
-      title: 'Top Trending Keywords',
-      config: { limit: 20, classification: 'emerging' },
-      data: await this.fetchTrendingKeywords('emerging', 20, windowSize, filters)
-    })
-
-    // Declining Keywords
-    sections.push({
-      type: 'declining_keywords',
-      title: 'Declining Keywords',
-      config: { limit: 20, classification: 'declining' },
-      data: await this.fetchTrendingKeywords('declining', 20, windowSize, filters)
-    })
-
-    // Volatile Keywords
-    sections.push({
-      type: 'volatile_keywords',
-      title: 'Volatile Keywords',
-      config: { limit: 10, classification: 'volatile' },
-      data: await this.fetchTrendingKeywords('volatile', 10, windowSize, filters)
-    })
-
-    // Statistical Anomalies
-    sections.push({
-      type: 'statistical_anomalies',
-      title: 'Statistical Anomalies',
-      config: { z_score_threshold: 2 },
-      data: await this.fetchStatisticalAnomalies(windowSize, filters)
-    })
-
-    return sections
-  }
-
-  private async generateMarketShareReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-    const filters = config.filters || {}
-
-    // Market Share Overview
-    sections.push({
-      type: 'market_share_overview',
-      title: 'Market Share Overview',
-      config: {},
-      data: await this.fetchMarketShareOverview(period_start, period_end, filters)
-    })
-
-    // Market Share Trends
-    sections.push({
-      type: 'market_share_trends',
-      title: 'Market Share Trends',
-      config: { periods: 12 },
-      data: await this.fetchMarketShareTrends(12, filters)
-    })
-
-    // Competitive Analysis
-    sections.push({
-      type: 'competitive_analysis',
-      title: 'Competitive Analysis',
-      config: {},
-      data: await this.fetchCompetitiveAnalysis(period_start, period_end, filters)
-    })
-
-    // Category Performance
-    sections.push({
-      type: 'category_performance',
-      title: 'Performance by Product Category',
-      config: {},
-      data: await this.fetchCategoryPerformance(period_start, period_end, filters)
-    })
-
-    return sections
-  }
-
-  private async generateAnomalyReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-    const filters = config.filters || {}
-    const threshold = config.config?.threshold || 2
-
-    // Anomaly Summary
-    sections.push({
-      type: 'anomaly_summary',
-      title: 'Anomaly Detection Summary',
-      config: { threshold },
-      data: await this.fetchAnomalySummary(threshold, filters)
-    })
-
-    // Recent Anomalies
-    sections.push({
-      type: 'recent_anomalies',
-      title: 'Recent Anomalies',
-      config: { days: 7, threshold },
-      data: await this.fetchRecentAnomalies(7, threshold, filters)
-    })
-
-    // Anomaly Patterns
-    sections.push({
-      type: 'anomaly_patterns',
-      title: 'Anomaly Patterns',
-      config: {},
-      data: await this.fetchAnomalyPatterns(period_start, period_end, filters)
-    })
-
-    return sections
-  }
-
-  private async generateComprehensiveReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-
-    // Include all major sections
-    sections.push(...await this.generatePeriodComparisonReport(config, period_start, period_end))
-    sections.push(...await this.generateKeywordTrendsReport(config, period_start, period_end))
-    sections.push(...await this.generateMarketShareReport(config, period_start, period_end))
-    sections.push(...await this.generateAnomalyReport(config, period_start, period_end))
-
-    return sections
-  }
+    if (Array.isArray(config.config?.sections)) {
+      const errors = reportSectionRegistry.validate(config.config.sections)
+      if (errors.length > 0) {
+        throw new Error(`Invalid custom report sections: ${errors.join('; ')}`)
+      }
+      return config.config.sections
+    }
 
-  private async generateCustomReport(
-    config: ReportConfiguration,
-    period_start: Date,
-    period_end: Date
-  ): Promise<ReportSection[]> {
-    const sections: ReportSection[] = []
-    
-    // Use template if specified
     if (config.config?.template_id) {
       const { data: template } = await this.getSupabaseClient()
         .from('report_templates')
@@ -343,199 +159,48 @@ export class ReportGenerationService {
         .eq('id', config.config.template_id)
         .single()
 
-      if (template?.sections) {
-        for (const sectionConfig of template.sections) {
-          const data = await this.fetchSectionData(
-            sectionConfig.type,
-            sectionConfig.config,
-            period_start,
-            period_end,
-            config.filters
-          )
-          
-          sections.push({
-            ...sectionConfig,
-            data
-          })
-        }
-      }
-    }
-
-    return sections
-  }
-
-  // Data fetching methods
-  private async fetchExecutiveSummary(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would fetch summary metrics
-    return {
-      total_impressions: 0,
-      total_clicks: 0,
-      total_purchases: 0,
-      total_revenue: 0,
-      period_comparison: {},
-      key_insights: []
-    }
-  }
-
-  private async fetchPeriodComparison(period: string, filters: Record<string, any>) {
-    const viewName = `${period}_over_${period}_comparison`
-    
-    let query = this.getSupabaseClient().from(viewName).select('*')
-    
-    if (filters.brand_id) {
-      query = query.eq('brand_id', filters.brand_id)
-    }
-    
-    const { data, error } = await query.limit(100)
-    
-    if (error) {
-      console.error(`Error fetching ${period} comparison:`, error)
-      return null
-    }
-    
-    return data
-  }
-
-  private async fetchTopMovers(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would identify top gaining/declining keywords
-    return {
-      gainers: [],
-      decliners: []
+      return template?.sections || []
     }
-  }
 
-  private async fetchTrendDistribution(windowSize: number, filters: Record<string, any>) {
-    // Implementation would fetch keyword trend distribution
-    return {
-      distribution: [],
-      total_keywords: 0
-    }
+    return []
   }
 
-  private async fetchTrendingKeywords(
-    classification: string,
-    limit: number,
-    windowSize: number,
-    filters: Record<string, any>
-  ) {
-    // Implementation would fetch trending keywords by classification
-    return {
-      keywords: [],
-      count: 0
+  // Reports still generate, without exclusions, if the keyword lists cannot be loaded
+  private async loadKeywordLists(filters: Record<string, any>): Promise<KeywordListLookup | undefined> {
+    try {
+      const asins = filters.asin ? [filters.asin] : undefined
+      return (await new KeywordListService(this.getSupabaseClient()).getKeywordLists(asins)).lookup
+    } catch (error) {
+      console.error('Error loading keyword lists for report:', error)
+      return undefined
     }
   }
 
-  private async fetchStatisticalAnomalies(windowSize: number, filters: Record<string, any>) {
-    // Implementation would detect statistical anomalies
-    return {
-      anomalies: [],
-      total_detected: 0
-    }
-  }
-
-  private async fetchMarketShareOverview(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would calculate market share metrics
-    return {
-      current_share: 0,
-      share_change: 0,
-      category_breakdown: []
-    }
-  }
-
-  private async fetchMarketShareTrends(periods: number, filters: Record<string, any>) {
-    // Implementation would fetch market share trend data
-    return {
-      trends: [],
-      average_share: 0
-    }
-  }
-
-  private async fetchCompetitiveAnalysis(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would analyze competitive positioning
-    return {
-      position: '',
-      competitors: [],
-      opportunities: []
-    }
-  }
-
-  private async fetchCategoryPerformance(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would fetch performance by product category
-    return {
-      categories: [],
-      total_categories: 0
-    }
-  }
+  private async buildSections(specs: ReportSectionSpec[], context: SectionContext): Promise<ReportSection[]> {
+    const sections: ReportSection[] = []
 
-  private async fetchAnomalySummary(threshold: number, filters: Record<string, any>) {
-    // Implementation would summarize detected anomalies
-    return {
-      total_anomalies: 0,
-      by_type: {},
-      severity_distribution: {}
-    }
-  }
+    for (const spec of specs) {
+      const resolution = reportSectionRegistry.resolve(spec)
+      if (!resolution.success) {
+        // Templates may reference section types that are not implemented yet
+        console.warn(`Skipping report section: ${resolution.error}`)
+        continue
+      }
 
-  private async fetchRecentAnomalies(days: number, threshold: number, filters: Record<string, any>) {
-    // Implementation would fetch recent anomalies
-    return {
-      anomalies: [],
-      count: 0
-    }
-  }
+      const { definition, config, title } = resolution
+      const data = await definition.fetchData(config, context)
+      if (data === null) continue
 
-  private async fetchAnomalyPatterns(
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Implementation would analyze anomaly patterns
-    return {
-      patterns: [],
-      recurring_anomalies: []
+      sections.push({
+        type: definition.type,
+        title,
+        config,
+        data,
+        preview: definition.renderers.preview(data, config)
+      })
     }
-  }
 
-  private async fetchSectionData(
-    type: string,
-    config: Record<string, any>,
-    period_start: Date,
-    period_end: Date,
-    filters: Record<string, any>
-  ) {
-    // Generic section data fetcher for custom reports
-    switch (type) {
-      case 'period_comparison':
-        return this.fetchPeriodComparison(config.period, filters)
-      case 'top_keywords':
-        return this.fetchTrendingKeywords('emerging', config.limit || 20, 6, filters)
-      case 'keyword_trends':
-        return this.fetchTrendDistribution(config.window_size || 6, filters)
-      case 'market_share':
-        return this.fetchMarketShareOverview(period_start, period_end, filters)
-      default:
-        return null
-    }
+    return sections
   }
 }
 
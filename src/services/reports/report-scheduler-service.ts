@@ -0,0 +1,329 @@
+import { createClient } from '@supabase/supabase-js'
+import { hostname } from 'os'
+import {
+  GeneratedReport,
+  ReportGenerationService,
+  reportGenerationService
+} from './report-generation-service'
+import {
+  EmailDeliveryService,
+  EmailRecipient,
+  emailDeliveryService
+} from './email-delivery-service'
+
+export interface ReportQueueItem {
+  id: string
+  report_configuration_id: string
+  scheduled_for: string
+  priority: number
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  attempts: number
+  max_attempts: number
+  last_attempt_at?: string | null
+  next_attempt_at?: string | null
+  locked_by?: string | null
+  locked_at?: string | null
+}
+
+export interface ProcessedQueueItem {
+  queueId: string
+  configurationId: string
+  executionId?: string
+  attempt: number
+  status: 'completed' | 'retrying' | 'failed'
+  nextAttemptAt?: string
+  error?: string
+}
+
+export interface SchedulerRunResult {
+  workerId: string
+  enqueuedCount: number
+  processed: ProcessedQueueItem[]
+  timestamp: string
+}
+
+export interface ReportSchedulerOptions {
+  workerId?: string
+  batchSize?: number
+  lockTimeoutMinutes?: number
+  retryBaseDelayMs?: number
+  retryMaxDelayMs?: number
+}
+
+interface ReportSchedulerDependencies {
+  supabase?: any
+  generator?: Pick<ReportGenerationService, 'generateReport'>
+  mailer?: Pick<EmailDeliveryService, 'sendReportEmail'>
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ReportSchedulerOptions, 'workerId'>> = {
+  batchSize: 5,
+  lockTimeoutMinutes: 30,
+  retryBaseDelayMs: 60000,
+  retryMaxDelayMs: 6 * 60 * 60 * 1000
+}
+
+/**
+ * Drains sqp.report_queue: enqueues due report configurations, claims queue rows
+ * for this worker, generates and emails each report, and records every attempt
+ * in sqp.report_execution_history.
+ */
+export class ReportSchedulerService {
+  private supabase: any
+  private generator: Pick<ReportGenerationService, 'generateReport'>
+  private mailer: Pick<EmailDeliveryService, 'sendReportEmail'>
+  private options: Required<ReportSchedulerOptions>
+
+  constructor(deps: ReportSchedulerDependencies = {}, options: ReportSchedulerOptions = {}) {
+    this.supabase = deps.supabase
+    this.generator = deps.generator || reportGenerationService
+    this.mailer = deps.mailer || emailDeliveryService
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      workerId: `${hostname()}-${process.pid}`,
+      ...options
+    }
+  }
+
+  private getSupabaseClient() {
+    if (!this.supabase) {
+      const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('Missing Supabase environment variables')
+      }
+
+      this.supabase = createClient(supabaseUrl, supabaseKey, {
+        db: { schema: 'sqp' }
+      })
+    }
+    return this.supabase
+  }
+
+  get workerId(): string {
+    return this.options.workerId
+  }
+
+  async runOnce(): Promise<SchedulerRunResult> {
+    const enqueuedCount = await this.enqueueDueReports()
+    const items = await this.claimQueueItems()
+
+    const processed: ProcessedQueueItem[] = []
+    for (const item of items) {
+      processed.push(await this.processQueueItem(item))
+    }
+
+    return {
+      workerId: this.options.workerId,
+      enqueuedCount,
+      processed,
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  async enqueueDueReports(): Promise<number> {
+    const { data, error } = await this.getSupabaseClient().rpc('enqueue_scheduled_reports')
+
+    if (error) {
+      throw new Error(`Failed to enqueue scheduled reports: ${error.message}`)
+    }
+
+    return data || 0
+  }
+
+  async claimQueueItems(): Promise<ReportQueueItem[]> {
+    const { data, error } = await this.getSupabaseClient().rpc('claim_report_queue_items', {
+      p_worker_id: this.options.workerId,
+      p_limit: this.options.batchSize,
+      p_lock_timeout_minutes: this.options.lockTimeoutMinutes
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim report queue items: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async processQueueItem(item: ReportQueueItem): Promise<ProcessedQueueItem> {
+    const supabase = this.getSupabaseClient()
+    const startTime = Date.now()
+    // The claim function has already incremented attempts for this run
+    const attempt = item.attempts
+
+    const { data: execution, error: execError } = await supabase
+      .from('report_execution_history')
+      .insert({
+        report_configuration_id: item.report_configuration_id,
+        queue_id: item.id,
+        attempt_number: attempt,
+        worker_id: this.options.workerId,
+        status: 'running',
+        started_at: new Date().toISOString()
+      })
+      .select()
+      .single()
+
+    if (execError) {
+      console.error('Error creating execution history:', execError)
+    }
+
+    try {
+      const report = await this.generator.generateReport(item.report_configuration_id)
+      const deliveryStatus = await this.deliverReport(report)
+
+      await this.updateExecution(execution?.id, {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        execution_time_ms: Date.now() - startTime,
+        rows_processed: this.countRows(report),
+        delivery_status: deliveryStatus
+      })
+
+      await supabase
+        .from('report_queue')
+        .update({
+          status: 'completed',
+          execution_history_id: execution?.id || null,
+          error_message: null,
+          locked_by: null,
+          locked_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', item.id)
+        .eq('locked_by', this.options.workerId)
+
+      return {
+        queueId: item.id,
+        configurationId: item.report_configuration_id,
+        executionId: execution?.id,
+        attempt,
+        status: 'completed'
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      const shouldRetry = attempt < item.max_attempts
+      const nextAttemptAt = shouldRetry
+        ? new Date(Date.now() + this.calculateRetryDelay(attempt)).toISOString()
+        : undefined
+
+      await this.updateExecution(execution?.id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        execution_time_ms: Date.now() - startTime,
+        error_message: errorMessage
+      })
+
+      await supabase
+        .from('report_queue')
+        .update({
+          status: shouldRetry ? 'pending' : 'failed',
+          error_message: errorMessage,
+          execution_history_id: execution?.id || null,
+          next_attempt_at: nextAttemptAt || null,
+          locked_by: null,
+          locked_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', item.id)
+        .eq('locked_by', this.options.workerId)
+
+      return {
+        queueId: item.id,
+        configurationId: item.report_configuration_id,
+        executionId: execution?.id,
+        attempt,
+        status: shouldRetry ? 'retrying' : 'failed',
+        nextAttemptAt,
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ... capped at retryMaxDelayMs
+   */
+  calculateRetryDelay(attempt: number): number {
+    const delay = this.options.retryBaseDelayMs * Math.pow(2, Math.max(attempt - 1, 0))
+    return Math.min(delay, this.options.retryMaxDelayMs)
+  }
+
+  private async deliverReport(report: GeneratedReport): Promise<Record<string, any>> {
+    const supabase = this.getSupabaseClient()
+
+    const { data: recipients, error } = await supabase
+      .from('report_recipients')
+      .select('id, email, name')
+      .eq('report_configuration_id', report.configuration.id)
+      .eq('is_active', true)
+      .eq('delivery_method', 'email')
+
+    if (error) {
+      throw new Error(`Failed to fetch report recipients: ${error.message}`)
+    }
+
+    if (!recipients || recipients.length === 0) {
+      return {}
+    }
+
+    const emailRecipients: EmailRecipient[] = recipients.map((r: any) => ({
+      email: r.email,
+      name: r.name || undefined
+    }))
+
+    const result = await this.mailer.sendReportEmail(
+      report,
+      emailRecipients,
+      report.configuration.export_formats || ['pdf']
+    )
+
+    if (!result.success) {
+      throw new Error(`Email delivery failed: ${(result.errors || []).join('; ') || 'Unknown error'}`)
+    }
+
+    const failedEmails = new Set(
+      (result.errors || []).map(e => e.split(':')[0].trim())
+    )
+    const deliveredAt = new Date().toISOString()
+    const deliveryStatus: Record<string, any> = {}
+
+    for (const recipient of recipients) {
+      deliveryStatus[recipient.email] = failedEmails.has(recipient.email)
+        ? { status: 'failed' }
+        : { status: 'delivered', delivered_at: deliveredAt }
+    }
+
+    const deliveredIds = recipients
+      .filter((r: any) => !failedEmails.has(r.email))
+      .map((r: any) => r.id)
+
+    if (deliveredIds.length > 0) {
+      await supabase
+        .from('report_recipients')
+        .update({ last_delivered_at: deliveredAt })
+        .in('id', deliveredIds)
+    }
+
+    return deliveryStatus
+  }
+
+  private async updateExecution(id: string | undefined, updates: Record<string, any>) {
+    if (!id) return
+
+    await this.getSupabaseClient()
+      .from('report_execution_history')
+      .update(updates)
+      .eq('id', id)
+  }
+
+  private countRows(report: GeneratedReport): number {
+    return report.sections.reduce((total: number, section: any) => {
+      if (Array.isArray(section.data)) return total + section.data.length
+      if (section.data?.rows) return total + section.data.rows
+      return total
+    }, 0)
+  }
+}
+
+export const reportSchedulerService = new ReportSchedulerService()
\ No newline at end of file
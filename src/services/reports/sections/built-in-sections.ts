@@ -0,0 +1,329 @@
+import { z } from 'zod'
+import { summaryRenderers, tableRenderers } from './renderers'
+import type { ReportSectionDefinition, SectionContext } from './types'
+
+// Sections that predate the registry. Most fetchers are still placeholders
+// returning empty structures until the underlying aggregations exist.
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+const executiveSummary: ReportSectionDefinition<Record<string, never>, {
+  total_impressions: number
+  total_clicks: number
+  total_purchases: number
+  total_revenue: number
+  period_comparison: Record<string, any>
+  key_insights: string[]
+}> = {
+  type: 'executive_summary',
+  label: 'Executive Summary',
+  description: 'Headline totals and key insights for the period',
+  configSchema: z.object({}),
+  title: () => 'Executive Summary',
+  fetchData: async () => {
+    // Implementation would fetch summary metrics
+    return {
+      total_impressions: 0,
+      total_clicks: 0,
+      total_purchases: 0,
+      total_revenue: 0,
+      period_comparison: {},
+      key_insights: []
+    }
+  },
+  renderers: summaryRenderers(
+    data => [
+      { label: 'Total Impressions', value: data.total_impressions },
+      { label: 'Total Clicks', value: data.total_clicks },
+      { label: 'Total Purchases', value: data.total_purchases },
+      { label: 'Total Revenue', value: data.total_revenue, format: 'currency' }
+    ],
+    data => data.key_insights
+  )
+}
+
+const periodComparison: ReportSectionDefinition<{ period: 'week' | 'month' | 'quarter'; limit: number }, any[]> = {
+  type: 'period_comparison',
+  label: 'Period Comparison',
+  description: 'Week, month or quarter over prior period comparison',
+  configSchema: z.object({
+    period: z.enum(['week', 'month', 'quarter']).default('week'),
+    limit: z.number().int().min(1).max(1000).default(100)
+  }),
+  title: ({ period }) => `${capitalize(period)}-over-${capitalize(period)} Comparison`,
+  fetchData: async ({ period, limit }, { supabase, filters }: SectionContext) => {
+    const viewName = `${period}_over_${period}_comparison`
+
+    let query = supabase.from(viewName).select('*')
+
+    if (filters.brand_id) {
+      query = query.eq('brand_id', filters.brand_id)
+    }
+
+    const { data, error } = await query.limit(limit)
+
+    if (error) {
+      console.error(`Error fetching ${period} comparison:`, error)
+      return null
+    }
+
+    return data
+  },
+  renderers: tableRenderers(data => data)
+}
+
+const topMovers: ReportSectionDefinition<{ limit: number }, { gainers: any[]; decliners: any[] }> = {
+  type: 'top_movers',
+  label: 'Top Movers',
+  description: 'Keywords with the largest gains and declines',
+  configSchema: z.object({
+    limit: z.number().int().min(1).max(100).default(10)
+  }),
+  title: () => 'Top Movers',
+  fetchData: async () => {
+    // Implementation would identify top gaining/declining keywords
+    return {
+      gainers: [],
+      decliners: []
+    }
+  },
+  renderers: tableRenderers(data => [
+    ...data.gainers.map(item => ({ type: 'Gainer', ...item })),
+    ...data.decliners.map(item => ({ type: 'Decliner', ...item }))
+  ])
+}
+
+const trendDistribution: ReportSectionDefinition<{ window_size: number }, { distribution: any[]; total_keywords: number }> = {
+  type: 'trend_distribution',
+  label: 'Keyword Trend Distribution',
+  description: 'How keywords split across trend classifications',
+  configSchema: z.object({
+    window_size: z.number().int().min(2).max(52).default(6)
+  }),
+  title: () => 'Keyword Trend Distribution',
+  fetchData: async () => {
+    // Implementation would fetch keyword trend distribution
+    return {
+      distribution: [],
+      total_keywords: 0
+    }
+  },
+  renderers: tableRenderers(data => data.distribution)
+}
+
+const trendingKeywords: ReportSectionDefinition<{
+  classification: 'emerging' | 'declining' | 'volatile' | 'stable'
+  limit: number
+  window_size: number
+}, { keywords: any[]; count: number }> = {
+  type: 'trending_keywords',
+  label: 'Trending Keywords',
+  description: 'Keywords matching a trend classification',
+  configSchema: z.object({
+    classification: z.enum(['emerging', 'declining', 'volatile', 'stable']).default('emerging'),
+    limit: z.number().int().min(1).max(100).default(20),
+    window_size: z.number().int().min(2).max(52).default(6)
+  }),
+  title: ({ classification }) => {
+    switch (classification) {
+      case 'emerging':
+        return 'Top Trending Keywords'
+      default:
+        return `${capitalize(classification)} Keywords`
+    }
+  },
+  fetchData: async () => {
+    // Implementation would fetch trending keywords by classification
+    return {
+      keywords: [],
+      count: 0
+    }
+  },
+  renderers: tableRenderers(data => data.keywords)
+}
+
+const statisticalAnomalies: ReportSectionDefinition<{ window_size: number; z_score_threshold: number }, {
+  anomalies: any[]
+  total_detected: number
+}> = {
+  type: 'statistical_anomalies',
+  label: 'Statistical Anomalies',
+  description: 'Keywords deviating from their rolling average',
+  configSchema: z.object({
+    window_size: z.number().int().min(2).max(52).default(6),
+    z_score_threshold: z.number().positive().default(2)
+  }),
+  title: () => 'Statistical Anomalies',
+  fetchData: async () => {
+    // Implementation would detect statistical anomalies
+    return {
+      anomalies: [],
+      total_detected: 0
+    }
+  },
+  renderers: tableRenderers(data => data.anomalies)
+}
+
+const marketShareOverview: ReportSectionDefinition<Record<string, never>, {
+  current_share: number
+  share_change: number
+  category_breakdown: any[]
+}> = {
+  type: 'market_share_overview',
+  label: 'Market Share Overview',
+  description: 'Current market share and its change over the period',
+  configSchema: z.object({}),
+  title: () => 'Market Share Overview',
+  fetchData: async () => {
+    // Implementation would calculate market share metrics
+    return {
+      current_share: 0,
+      share_change: 0,
+      category_breakdown: []
+    }
+  },
+  renderers: summaryRenderers(data => [
+    { label: 'Current Share', value: data.current_share, format: 'percent' },
+    { label: 'Share Change', value: data.share_change, format: 'percent' }
+  ])
+}
+
+const marketShareTrends: ReportSectionDefinition<{ periods: number }, { trends: any[]; average_share: number }> = {
+  type: 'market_share_trends',
+  label: 'Market Share Trends',
+  description: 'Market share over recent periods',
+  configSchema: z.object({
+    periods: z.number().int().min(1).max(52).default(12)
+  }),
+  title: () => 'Market Share Trends',
+  fetchData: async () => {
+    // Implementation would fetch market share trend data
+    return {
+      trends: [],
+      average_share: 0
+    }
+  },
+  renderers: tableRenderers(data => data.trends)
+}
+
+const competitiveAnalysis: ReportSectionDefinition<Record<string, never>, {
+  position: string
+  competitors: any[]
+  opportunities: any[]
+}> = {
+  type: 'competitive_analysis',
+  label: 'Competitive Analysis',
+  description: 'Competitive positioning against other brands',
+  configSchema: z.object({}),
+  title: () => 'Competitive Analysis',
+  fetchData: async () => {
+    // Implementation would analyze competitive positioning
+    return {
+      position: '',
+      competitors: [],
+      opportunities: []
+    }
+  },
+  renderers: tableRenderers(data => data.competitors)
+}
+
+const categoryPerformance: ReportSectionDefinition<Record<string, never>, { categories: any[]; total_categories: number }> = {
+  type: 'category_performance',
+  label: 'Category Performance',
+  description: 'Performance broken down by product category',
+  configSchema: z.object({}),
+  title: () => 'Performance by Product Category',
+  fetchData: async () => {
+    // Implementation would fetch performance by product category
+    return {
+      categories: [],
+      total_categories: 0
+    }
+  },
+  renderers: tableRenderers(data => data.categories)
+}
+
+const anomalySummary: ReportSectionDefinition<{ threshold: number }, {
+  total_anomalies: number
+  by_type: Record<string, number>
+  severity_distribution: Record<string, number>
+}> = {
+  type: 'anomaly_summary',
+  label: 'Anomaly Summary',
+  description: 'Count of detected anomalies by type',
+  configSchema: z.object({
+    threshold: z.number().positive().default(2)
+  }),
+  title: () => 'Anomaly Detection Summary',
+  fetchData: async () => {
+    // Implementation would summarize detected anomalies
+    return {
+      total_anomalies: 0,
+      by_type: {},
+      severity_distribution: {}
+    }
+  },
+  renderers: summaryRenderers(data => [
+    { label: 'Total Anomalies', value: data.total_anomalies },
+    ...Object.entries(data.by_type).map(([type, count]) => ({ label: type, value: count }))
+  ])
+}
+
+const recentAnomalies: ReportSectionDefinition<{ days: number; threshold: number }, { anomalies: any[]; count: number }> = {
+  type: 'recent_anomalies',
+  label: 'Recent Anomalies',
+  description: 'Anomalies detected in the last few days',
+  configSchema: z.object({
+    days: z.number().int().min(1).max(90).default(7),
+    threshold: z.number().positive().default(2)
+  }),
+  title: () => 'Recent Anomalies',
+  fetchData: async () => {
+    // Implementation would fetch recent anomalies
+    return {
+      anomalies: [],
+      count: 0
+    }
+  },
+  renderers: tableRenderers(data => data.anomalies)
+}
+
+const anomalyPatterns: ReportSectionDefinition<Record<string, never>, { patterns: any[]; recurring_anomalies: any[] }> = {
+  type: 'anomaly_patterns',
+  label: 'Anomaly Patterns',
+  description: 'Recurring anomaly patterns over the period',
+  configSchema: z.object({}),
+  title: () => 'Anomaly Patterns',
+  fetchData: async () => {
+    // Implementation would analyze anomaly patterns
+    return {
+      patterns: [],
+      recurring_anomalies: []
+    }
+  },
+  renderers: tableRenderers(data => data.patterns)
+}
+
+export const builtInSections: ReportSectionDefinition[] = [
+  executiveSummary,
+  periodComparison,
+  topMovers,
+  trendDistribution,
+  trendingKeywords,
+  statisticalAnomalies,
+  marketShareOverview,
+  marketShareTrends,
+  competitiveAnalysis,
+  categoryPerformance,
+  anomalySummary,
+  recentAnomalies,
+  anomalyPatterns
+]
+
+// Section types used by the seeded report templates, mapped to their registered type
+export const builtInSectionAliases: Record<string, string> = {
+  top_keywords: 'trending_keywords',
+  keyword_trends: 'trend_distribution',
+  market_share: 'market_share_overview',
+  anomaly_detection: 'anomaly_summary'
+}
\ No newline at end of file
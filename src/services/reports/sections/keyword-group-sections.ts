@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { BrandRollupService } from '../../brands/brand-rollup'
+import { KeywordGroupService } from '../../keywords/keyword-group-service'
+import type { KeywordGroupMetrics } from '../../keywords/keyword-taxonomy'
+import { tableRenderers } from './renderers'
+import type { ReportSectionDefinition } from './types'
+
+// Sections aggregating search query data by user-defined keyword group
+
+const keywordGroupPerformance: ReportSectionDefinition<{
+  asin?: string
+  brand_id?: string
+  group_ids?: string[]
+  limit: number
+}, KeywordGroupMetrics[]> = {
+  type: 'keyword_groups',
+  label: 'Keyword Groups',
+  description: 'Funnel and market share per keyword group, from the summed counts of its keywords',
+  configSchema: z.object({
+    asin: z.string().min(1).optional(),
+    brand_id: z.string().uuid().optional(),
+    group_ids: z.array(z.string().uuid()).optional(),
+    limit: z.number().int().min(1).max(200).default(50)
+  }),
+  title: () => 'Keyword Group Performance',
+  fetchData: async (config, { supabase, periodStart, periodEnd, filters, keywordLists }) => {
+    const brandId = config.brand_id || filters.brand_id || null
+    const service = new KeywordGroupService(supabase)
+
+    try {
+      // One ASIN when the section or report names one, otherwise every ASIN of the brand
+      let asins: string[] = []
+      const asin = config.asin || filters.asin
+      if (asin) {
+        asins = [asin]
+      } else if (brandId) {
+        const scope = await new BrandRollupService(supabase).getScope(brandId, false)
+        asins = scope ? Array.from(scope.asinBrands.keys()) : []
+      }
+      if (asins.length === 0) return null
+
+      const groups = config.group_ids?.length
+        ? await service.getGroups(config.group_ids)
+        : await service.listGroups(brandId)
+
+      const report = await service.getReport(
+        asins,
+        format(periodStart, 'yyyy-MM-dd'),
+        format(periodEnd, 'yyyy-MM-dd'),
+        groups,
+        keywordLists
+      )
+
+      return report.groups
+        .sort((a, b) => b.impressions - a.impressions)
+        .slice(0, config.limit)
+    } catch (error) {
+      console.error('Error aggregating keyword groups:', error)
+      return null
+    }
+  },
+  renderers: tableRenderers(
+    data => data.map(group => ({
+      group: group.name,
+      keywords: group.keywords.length,
+      impressions: group.impressions,
+      clicks: group.clicks,
+      cart_adds: group.cartAdds,
+      purchases: group.purchases,
+      impression_share: group.impressionShare,
+      click_share: group.clickShare,
+      purchase_share: group.purchaseShare,
+      ctr: group.ctr,
+      cvr: group.cvr
+    })),
+    'No keyword groups defined for this scope'
+  )
+}
+
+export const keywordGroupSections: ReportSectionDefinition[] = [
+  keywordGroupPerformance
+]
\ No newline at end of file
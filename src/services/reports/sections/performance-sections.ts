@@ -0,0 +1,194 @@
+import { z } from 'zod'
+import { format } from 'date-fns'
+import {
+  calculateCVRGaps,
+  calculateCVRGapSummary,
+  calculateCorrelations,
+  calculateVelocityMetrics
+} from '../performance-analysis'
+import { excludeKeywords } from '../../keywords/keyword-lists'
+import { tableRenderers } from './renderers'
+import type { ReportSectionDefinition, SectionContext } from './types'
+
+// Sections backed by the same sqp functions as the /api/reports/performance endpoints
+
+const keywordFilter = z.array(z.string().min(1)).optional()
+
+function periodParams({ periodStart, periodEnd }: SectionContext) {
+  return {
+    p_start_date: format(periodStart, 'yyyy-MM-dd'),
+    p_end_date: format(periodEnd, 'yyyy-MM-dd')
+  }
+}
+
+function withoutExcluded<T extends { query: string; asin: string }>(rows: T[], { keywordLists }: SectionContext): T[] {
+  return keywordLists ? excludeKeywords(rows, keywordLists, row => row.query, row => row.asin).rows : rows
+}
+
+// The section config wins over the report filters so one report can focus sections on different ASINs
+function resolveAsin(asin: string | undefined, filters: Record<string, any>): string | null {
+  return asin || filters.asin || null
+}
+
+const cvrGap: ReportSectionDefinition<{
+  asin?: string
+  keywords?: string[]
+  min_clicks: number
+  benchmark: 'market_average' | 'competitor_best' | 'category_average' | 'historical'
+  limit: number
+}, { rows: any[]; summary: Record<string, any> }> = {
+  type: 'cvr_gap',
+  label: 'CVR Gap',
+  description: 'Keywords converting below the market or best competitor, ranked by priority',
+  configSchema: z.object({
+    asin: z.string().min(1).optional(),
+    keywords: keywordFilter,
+    min_clicks: z.number().int().min(0).default(50),
+    benchmark: z.enum(['market_average', 'competitor_best', 'category_average', 'historical']).default('market_average'),
+    limit: z.number().int().min(1).max(500).default(25)
+  }),
+  title: () => 'Conversion Rate Gaps',
+  fetchData: async (config, context) => {
+    const { data, error } = await context.supabase.rpc('calculate_cvr_gaps', {
+      ...periodParams(context),
+      p_keywords: config.keywords || null,
+      p_asin: resolveAsin(config.asin, context.filters),
+      p_min_clicks: config.min_clicks,
+      p_benchmark_type: config.benchmark
+    })
+
+    if (error) {
+      console.error('Error fetching CVR gaps:', error)
+      return null
+    }
+
+    const rows = calculateCVRGaps(withoutExcluded(data || [], context))
+    return {
+      rows: rows.slice(0, config.limit),
+      summary: calculateCVRGapSummary(rows)
+    }
+  },
+  renderers: tableRenderers(
+    data => data.rows.map(row => ({
+      query: row.query,
+      asin: row.asin,
+      total_clicks: row.total_clicks,
+      avg_cvr: row.avg_cvr,
+      market_avg_cvr: row.market_avg_cvr,
+      market_gap: row.market_gap,
+      missed_conversions_estimate: row.missed_conversions_estimate,
+      priority_level: row.priority_level
+    })),
+    'No keywords met the click threshold'
+  )
+}
+
+const rankCorrelation: ReportSectionDefinition<{
+  asin?: string
+  keywords?: string[]
+  metric: 'purchases' | 'clicks' | 'impressions'
+  limit: number
+}, any[]> = {
+  type: 'rank_correlation',
+  label: 'Rank Correlation',
+  description: 'How strongly organic rank moves with purchases, clicks or impressions',
+  configSchema: z.object({
+    asin: z.string().min(1).optional(),
+    keywords: keywordFilter,
+    metric: z.enum(['purchases', 'clicks', 'impressions']).default('purchases'),
+    limit: z.number().int().min(1).max(500).default(25)
+  }),
+  title: ({ metric }) => `Rank vs ${metric.charAt(0).toUpperCase() + metric.slice(1)} Correlation`,
+  fetchData: async (config, context) => {
+    const { data, error } = await context.supabase.rpc('get_ranking_correlation_data', {
+      ...periodParams(context),
+      p_keywords: config.keywords || null,
+      p_asin: resolveAsin(config.asin, context.filters),
+      p_correlation_metric: config.metric
+    })
+
+    if (error) {
+      console.error('Error fetching ranking correlation data:', error)
+      return null
+    }
+
+    return calculateCorrelations(withoutExcluded(data || [], context), config.metric).slice(0, config.limit)
+  },
+  renderers: tableRenderers(
+    data => data.map(row => ({
+      query: row.query,
+      asin: row.asin,
+      correlation_coefficient: row.correlation_coefficient,
+      correlation_strength: row.correlation_strength,
+      avg_rank: row.avg_rank,
+      data_points: row.data_points
+    })),
+    'Not enough ranking history to correlate'
+  )
+}
+
+const purchaseVelocity: ReportSectionDefinition<{
+  asin?: string
+  keywords?: string[]
+  aggregate: 'weekly' | 'monthly'
+  min_purchases: number
+  limit: number
+}, any[]> = {
+  type: 'purchase_velocity',
+  label: 'Purchase Velocity',
+  description: 'Period-over-period purchase growth per keyword and ASIN',
+  configSchema: z.object({
+    asin: z.string().min(1).optional(),
+    keywords: keywordFilter,
+    aggregate: z.enum(['weekly', 'monthly']).default('weekly'),
+    min_purchases: z.number().int().min(0).default(5),
+    limit: z.number().int().min(1).max(500).default(50)
+  }),
+  title: () => 'Purchase Velocity',
+  fetchData: async (config, context) => {
+    const { p_start_date, p_end_date } = periodParams(context)
+
+    let query = context.supabase
+      .from(config.aggregate === 'monthly' ? 'monthly_summary' : 'weekly_summary')
+      .select('period_end, query, asin, total_purchases, total_clicks, total_impressions')
+      .gte('period_end', p_start_date)
+      .lte('period_end', p_end_date)
+      .gte('total_purchases', config.min_purchases)
+      .order('period_end', { ascending: false })
+
+    const asin = resolveAsin(config.asin, context.filters)
+    if (asin) {
+      query = query.eq('asin', asin)
+    }
+    if (config.keywords) {
+      query = query.in('query', config.keywords)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching purchase velocity data:', error)
+      return null
+    }
+
+    return calculateVelocityMetrics(withoutExcluded(data || [], context)).slice(0, config.limit)
+  },
+  renderers: tableRenderers(
+    data => data.map(row => ({
+      period_end: row.period_end,
+      query: row.query,
+      asin: row.asin,
+      total_purchases: row.total_purchases,
+      previous_week_purchases: row.previous_week_purchases,
+      velocity_change: row.velocity_change,
+      velocity_trend: row.velocity_trend
+    })),
+    'No keywords met the purchase threshold'
+  )
+}
+
+export const performanceSections: ReportSectionDefinition[] = [
+  cvrGap,
+  rankCorrelation,
+  purchaseVelocity
+]
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { ReportSectionSpec } from './types'
+
+type PresetBuilder = (config: Record<string, any>) => ReportSectionSpec[]
+
+const periodComparison: PresetBuilder = () => [
+  { type: 'executive_summary' },
+  { type: 'period_comparison', config: { period: 'week' } },
+  { type: 'period_comparison', config: { period: 'month' } },
+  { type: 'period_comparison', config: { period: 'quarter' } },
+  { type: 'top_movers', config: { limit: 10 } }
+]
+
+const keywordTrends: PresetBuilder = config => {
+  const window_size = config.window_size || 6
+  return [
+    { type: 'trend_distribution', config: { window_size } },
+    { type: 'trending_keywords', config: { classification: 'emerging', limit: 20, window_size } },
+    { type: 'trending_keywords', config: { classification: 'declining', limit: 20, window_size } },
+    { type: 'trending_keywords', config: { classification: 'volatile', limit: 10, window_size } },
+    { type: 'statistical_anomalies', config: { window_size, z_score_threshold: 2 } }
+  ]
+}
+
+const marketShareAnalysis: PresetBuilder = () => [
+  { type: 'market_share_overview' },
+  { type: 'market_share_trends', config: { periods: 12 } },
+  { type: 'competitive_analysis' },
+  { type: 'category_performance' }
+]
+
+const anomalyDetection: PresetBuilder = config => {
+  const threshold = config.threshold || 2
+  return [
+    { type: 'anomaly_summary', config: { threshold } },
+    { type: 'recent_anomalies', config: { days: 7, threshold } },
+    { type: 'anomaly_patterns' }
+  ]
+}
+
+// Sections making up each fixed report type; `custom` reports list their own
+export const REPORT_TYPE_PRESETS: Record<string, PresetBuilder> = {
+  period_comparison: periodComparison,
+  keyword_trends: keywordTrends,
+  market_share_analysis: marketShareAnalysis,
+  anomaly_detection: anomalyDetection,
+  comprehensive_dashboard: config => [
+    ...periodComparison(config),
+    ...keywordTrends(config),
+    ...marketShareAnalysis(config),
+    ...anomalyDetection(config)
+  ]
+}
\ No newline at end of file
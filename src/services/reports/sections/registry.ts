@@ -0,0 +1,98 @@
+import { builtInSectionAliases, builtInSections } from './built-in-sections'
+import { keywordGroupSections } from './keyword-group-sections'
+import { performanceSections } from './performance-sections'
+import type { ReportSectionDefinition, ReportSectionSpec } from './types'
+
+export type SectionResolution =
+  | { success: true; definition: ReportSectionDefinition; config: any; title: string }
+  | { success: false; error: string }
+
+/**
+ * Registry of report section types. Report type presets, templates and
+ * custom reports are all lists of section specs resolved through here, and
+ * the exporters look renderers up by the generated section's type.
+ */
+export class ReportSectionRegistry {
+  private definitions = new Map<string, ReportSectionDefinition>()
+  private aliases = new Map<string, string>()
+
+  register<TConfig, TData>(definition: ReportSectionDefinition<TConfig, TData>): void {
+    if (this.definitions.has(definition.type) || this.aliases.has(definition.type)) {
+      throw new Error(`Report section type already registered: ${definition.type}`)
+    }
+    this.definitions.set(definition.type, definition)
+  }
+
+  alias(alias: string, type: string): void {
+    if (!this.definitions.has(type)) {
+      throw new Error(`Cannot alias unknown report section type: ${type}`)
+    }
+    if (this.definitions.has(alias)) {
+      throw new Error(`Report section type already registered: ${alias}`)
+    }
+    this.aliases.set(alias, type)
+  }
+
+  get(type: string): ReportSectionDefinition | undefined {
+    return this.definitions.get(this.aliases.get(type) || type)
+  }
+
+  has(type: string): boolean {
+    return this.get(type) !== undefined
+  }
+
+  list(): ReportSectionDefinition[] {
+    return Array.from(this.definitions.values())
+  }
+
+  /**
+   * Look up a section spec's definition and validate its config
+   * @param spec - Section type with optional title and config
+   * @returns The definition with the parsed config, or a readable error
+   */
+  resolve(spec: ReportSectionSpec): SectionResolution {
+    const definition = this.get(spec.type)
+    if (!definition) {
+      return { success: false, error: `Unknown report section type: ${spec.type}` }
+    }
+
+    const parsed = definition.configSchema.safeParse(spec.config ?? {})
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+        .join('; ')
+      return { success: false, error: `Invalid config for ${spec.type} section: ${issues}` }
+    }
+
+    return {
+      success: true,
+      definition,
+      config: parsed.data,
+      title: spec.title || definition.title(parsed.data)
+    }
+  }
+
+  /**
+   * Validate a list of section specs, e.g. before saving a custom report
+   * @returns One message per invalid section; empty when all are valid
+   */
+  validate(specs: ReportSectionSpec[]): string[] {
+    return specs.flatMap((spec, index) => {
+      const resolution = this.resolve(spec)
+      return resolution.success ? [] : [`sections[${index}]: ${resolution.error}`]
+    })
+  }
+}
+
+export function createReportSectionRegistry(): ReportSectionRegistry {
+  const registry = new ReportSectionRegistry()
+  for (const definition of [...builtInSections, ...performanceSections, ...keywordGroupSections]) {
+    registry.register(definition)
+  }
+  for (const [alias, type] of Object.entries(builtInSectionAliases)) {
+    registry.alias(alias, type)
+  }
+  return registry
+}
+
+export const reportSectionRegistry = createReportSectionRegistry()
\ No newline at end of file
@@ -0,0 +1,75 @@
+import type { SectionMetric, SectionRenderers, SectionRow } from './types'
+
+const PREVIEW_ROW_LIMIT = 10
+
+export function formatLabel(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+export function formatMetricValue(metric: SectionMetric): string {
+  if (metric.value === null) return '-'
+  if (typeof metric.value === 'string') return metric.value
+
+  switch (metric.format) {
+    case 'percent':
+      return `${(metric.value * 100).toFixed(1)}%`
+    case 'currency':
+      return `$${metric.value.toLocaleString()}`
+    default:
+      return metric.value.toLocaleString()
+  }
+}
+
+/**
+ * Renderers for sections whose data is a list of rows. The same rows feed the
+ * PDF table, the CSV/Excel export and the (truncated) web preview.
+ */
+export function tableRenderers<TConfig, TData>(
+  toRows: (data: TData, config: TConfig) => SectionRow[],
+  emptyMessage = 'No data for this period'
+): SectionRenderers<TConfig, TData> {
+  return {
+    pdf: (data, config) => ({ rows: toRows(data, config) }),
+    table: toRows,
+    preview: (data, config) => {
+      const rows = toRows(data, config)
+      if (rows.length === 0) {
+        return { kind: 'empty', message: emptyMessage }
+      }
+      return {
+        kind: 'table',
+        columns: Object.keys(rows[0]),
+        rows: rows.slice(0, PREVIEW_ROW_LIMIT),
+        total: rows.length
+      }
+    }
+  }
+}
+
+/**
+ * Renderers for summary sections made of headline metrics and optional notes
+ */
+export function summaryRenderers<TConfig, TData>(
+  toMetrics: (data: TData, config: TConfig) => SectionMetric[],
+  toNotes: (data: TData, config: TConfig) => string[] = () => []
+): SectionRenderers<TConfig, TData> {
+  return {
+    pdf: (data, config) => {
+      const lines = toMetrics(data, config).map(metric => `${metric.label}: ${formatMetricValue(metric)}`)
+      const notes = toNotes(data, config)
+      if (notes.length > 0) {
+        lines.push('', 'Key Insights:', ...notes.map(note => `• ${note}`))
+      }
+      return { lines }
+    },
+    table: (data, config) => toMetrics(data, config).map(metric => ({
+      metric: metric.label,
+      value: metric.value
+    })),
+    preview: (data, config) => ({
+      kind: 'metrics',
+      metrics: toMetrics(data, config),
+      notes: toNotes(data, config)
+    })
+  }
+}
\ No newline at end of file
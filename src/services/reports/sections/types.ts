@@ -0,0 +1,56 @@
+import type { z } from 'zod'
+import type { KeywordListLookup } from '../../keywords/keyword-lists'
+
+export type SectionRow = Record<string, unknown>
+
+export interface SectionContext {
+  supabase: any
+  periodStart: Date
+  periodEnd: Date
+  filters: Record<string, any>
+  // Sections leave out keywords on the exclusion list of the row's ASIN or its brand
+  keywordLists?: KeywordListLookup
+}
+
+export interface SectionMetric {
+  label: string
+  value: number | string | null
+  format?: 'number' | 'percent' | 'currency'
+}
+
+// Serializable description of how a section is shown in the web preview
+export type SectionPreview =
+  | { kind: 'table'; columns: string[]; rows: SectionRow[]; total: number }
+  | { kind: 'metrics'; metrics: SectionMetric[]; notes: string[] }
+  | { kind: 'empty'; message: string }
+
+// Content of a section in the PDF export: a table, text lines, or both
+export interface PdfSectionContent {
+  rows?: SectionRow[]
+  lines?: string[]
+}
+
+export interface SectionRenderers<TConfig, TData> {
+  pdf: (data: TData, config: TConfig) => PdfSectionContent
+  // Rows written to the CSV export and to the section's Excel sheet
+  table: (data: TData, config: TConfig) => SectionRow[]
+  preview: (data: TData, config: TConfig) => SectionPreview
+}
+
+export interface ReportSectionDefinition<TConfig = any, TData = any> {
+  type: string
+  label: string
+  description: string
+  configSchema: z.ZodType<TConfig>
+  title: (config: TConfig) => string
+  // Resolves to null when the source data is unavailable; the section is then left out
+  fetchData: (config: TConfig, context: SectionContext) => Promise<TData | null>
+  renderers: SectionRenderers<TConfig, TData>
+}
+
+// A section as requested by a report type preset, a template or a custom report
+export interface ReportSectionSpec {
+  type: string
+  title?: string
+  config?: Record<string, any>
+}
\ No newline at end of file
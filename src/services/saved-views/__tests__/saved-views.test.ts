@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { savedViewSchema } from '../saved-view-schema'
+import { savedViewPath, viewStateSearch } from '../saved-views'
+
+describe('saved view URLs', () => {
+  it('writes the ASIN dashboard state over the URL and keeps unrelated parameters', () => {
+    const search = viewStateSearch('asin', {
+      asin: 'B001',
+      dateFrom: '2025-08-01',
+      dateTo: '2025-08-31',
+      showComparison: false,
+      chartType: 'bar'
+    }, 'source=brand-dashboard&asin=B999&keyword=old')
+
+    expect(Object.fromEntries(new URLSearchParams(search))).toEqual({
+      source: 'brand-dashboard',
+      asin: 'B001',
+      dateFrom: '2025-08-01',
+      dateTo: '2025-08-31',
+      chartType: 'bar'
+    })
+  })
+
+  it('keeps the keywords ticked on the ASIN dashboard', () => {
+    expect(savedViewPath({
+      page: 'asin',
+      state: { asin: 'B001', keywords: ['whetstone', 'knife sharpener'] }
+    })).toBe('/?asin=B001&keywords=whetstone%2Cknife+sharpener')
+  })
+
+  it('links brand views to the brand page and joins lists', () => {
+    const path = savedViewPath({
+      page: 'brand',
+      state: {
+        brandId: '2f1b5c0e-7d1a-4c39-9a57-3c2f6f0e8b11',
+        dateFrom: '2025-08-01',
+        dateTo: '2025-08-31',
+        includeChildren: true,
+        voiceQueries: ['knife sharpener', 'whetstone']
+      }
+    })
+
+    expect(path).toBe(
+      '/brands/2f1b5c0e-7d1a-4c39-9a57-3c2f6f0e8b11?dateFrom=2025-08-01&dateTo=2025-08-31&includeChildren=true&voiceQueries=knife+sharpener%2Cwhetstone'
+    )
+    expect(savedViewPath({
+      page: 'keyword_analysis',
+      state: { asin: 'B001', keyword: 'whetstone', startDate: '2025-08-01', endDate: '2025-08-07' }
+    })).toBe('/keyword-analysis?asin=B001&keyword=whetstone&startDate=2025-08-01&endDate=2025-08-07')
+  })
+})
+
+describe('savedViewSchema', () => {
+  it('validates the state against the page it belongs to', () => {
+    const result = savedViewSchema.safeParse({
+      name: 'August',
+      page: 'keyword_analysis',
+      state: { asin: 'B001', startDate: '2025-08-01', endDate: 'August', brandId: 'b1' }
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map(issue => issue.path)).toEqual(
+      expect.arrayContaining([['state', 'endDate'], ['state']])
+    )
+  })
+
+  it('defaults new views to private and not default', () => {
+    const result = savedViewSchema.parse({ name: ' Weekly ', page: 'asin', state: { asin: 'B001' } })
+
+    expect(result).toMatchObject({ name: 'Weekly', visibility: 'private', is_default: false })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { z } from 'zod'
+
+export const SAVED_VIEW_PAGES = ['asin', 'brand', 'keyword_analysis'] as const
+
+export type SavedViewPage = typeof SAVED_VIEW_PAGES[number]
+
+export const SAVED_VIEW_VISIBILITIES = ['private', 'shared'] as const
+
+export type SavedViewVisibility = typeof SAVED_VIEW_VISIBILITIES[number]
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+const asin = z.string().trim().min(1).max(20)
+const keywords = z.array(z.string().trim().min(1)).max(50)
+
+// Field names match the page URL parameters so a state maps straight onto a link
+export const asinViewStateSchema = z.object({
+  asin,
+  dateFrom: date.optional(),
+  dateTo: date.optional(),
+  compareFrom: date.optional(),
+  compareTo: date.optional(),
+  showComparison: z.boolean().optional(),
+  chartType: z.enum(['line', 'bar']).optional(),
+  // Queries ticked in the search query table
+  keywords: keywords.optional(),
+  // Keyword open in the analysis modal
+  keyword: z.string().trim().min(1).optional()
+}).strict()
+
+export const brandViewStateSchema = z.object({
+  brandId: z.string().uuid(),
+  dateFrom: date.optional(),
+  dateTo: date.optional(),
+  compareFrom: date.optional(),
+  compareTo: date.optional(),
+  showComparison: z.boolean().optional(),
+  includeChildren: z.boolean().optional(),
+  voiceQueries: keywords.optional(),
+  voiceShareChange: z.number().positive().max(100).optional()
+}).strict()
+
+export const keywordAnalysisViewStateSchema = z.object({
+  asin,
+  keyword: z.string().trim().min(1).optional(),
+  keywords: keywords.optional(),
+  groups: z.array(z.string().uuid()).max(10).optional(),
+  startDate: date,
+  endDate: date,
+  compareStartDate: date.optional(),
+  compareEndDate: date.optional()
+}).strict()
+
+export const VIEW_STATE_SCHEMAS = {
+  asin: asinViewStateSchema,
+  brand: brandViewStateSchema,
+  keyword_analysis: keywordAnalysisViewStateSchema
+} as const
+
+export type AsinViewState = z.infer<typeof asinViewStateSchema>
+export type BrandViewState = z.infer<typeof brandViewStateSchema>
+export type KeywordAnalysisViewState = z.infer<typeof keywordAnalysisViewStateSchema>
+
+export interface ViewStates {
+  asin: AsinViewState
+  brand: BrandViewState
+  keyword_analysis: KeywordAnalysisViewState
+}
+
+export type ViewState = ViewStates[SavedViewPage]
+
+const savedViewFields = z.object({
+  name: z.string().trim().min(1).max(255),
+  page: z.enum(SAVED_VIEW_PAGES),
+  state: z.record(z.string(), z.unknown()),
+  visibility: z.enum(SAVED_VIEW_VISIBILITIES),
+  is_default: z.boolean()
+})
+
+function validateState(view: Partial<z.infer<typeof savedViewFields>>, ctx: z.RefinementCtx) {
+  if (!view.page || !view.state) return
+  const result = VIEW_STATE_SCHEMAS[view.page].safeParse(view.state)
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      ctx.addIssue({ code: 'custom', path: ['state', ...issue.path], message: issue.message })
+    })
+  }
+}
+
+export const savedViewSchema = savedViewFields.extend({
+  visibility: savedViewFields.shape.visibility.default('private'),
+  is_default: savedViewFields.shape.is_default.default(false)
+}).superRefine(validateState)
+
+// Updates are validated against the stored view merged with the patch. No
+// defaults here, so the parsed patch holds only the fields that were sent.
+export const savedViewUpdateSchema = savedViewFields.partial()
+
+export type SavedViewUpdate = z.infer<typeof savedViewUpdateSchema>
+
+export type SavedViewInput = z.infer<typeof savedViewSchema>
+
+export interface SavedView extends SavedViewInput {
+  id: string
+  share_token: string | null
+  owner_id: string | null
+  created_at?: string
+  updated_at?: string
+}
\ No newline at end of file
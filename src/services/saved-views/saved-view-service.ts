@@ -0,0 +1,137 @@
+import { randomBytes } from 'crypto'
+import type { SavedView, SavedViewPage } from './saved-view-schema'
+import { getViewAsin } from './saved-views'
+
+// 8 URL-safe characters
+const SHARE_TOKEN_BYTES = 6
+const SHARE_TOKEN_ATTEMPTS = 3
+
+/**
+ * Loads and saves named dashboard views, their per-user defaults and share tokens
+ */
+export class SavedViewService {
+  constructor(private supabase: any) {}
+
+  /**
+   * Views the owner may open on a page: their own and every shared view.
+   * A null owner (authentication disabled) sees the views without an owner.
+   */
+  async listViews(ownerId: string | null, page?: SavedViewPage): Promise<SavedView[]> {
+    let query = this.supabase
+      .from('saved_views')
+      .select('*')
+      .or(`${ownerId ? `owner_id.eq.${ownerId}` : 'owner_id.is.null'},visibility.eq.shared`)
+      .order('name', { ascending: true })
+
+    if (page) {
+      query = query.eq('page', page)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return data || []
+  }
+
+  async getViewByShareToken(token: string): Promise<SavedView | null> {
+    const { data, error } = await this.supabase
+      .from('saved_views')
+      .select('*')
+      .eq('share_token', token)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return data || null
+  }
+
+  // Unsets the owner's other default on the page so the new one can take its place
+  async clearDefault(ownerId: string | null, page: SavedViewPage, exceptId?: string): Promise<void> {
+    let query = this.supabase
+      .from('saved_views')
+      .update({ is_default: false })
+      .eq('page', page)
+      .eq('is_default', true)
+
+    query = ownerId ? query.eq('owner_id', ownerId) : query.is('owner_id', null)
+    if (exceptId) {
+      query = query.neq('id', exceptId)
+    }
+
+    const { error } = await query
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  /**
+   * Share token of a view, created on first use. Tokens are short, so a
+   * collision with an existing one is retried with a fresh token.
+   */
+  async getShareToken(view: SavedView): Promise<string> {
+    if (view.share_token) return view.share_token
+
+    for (let attempt = 0; attempt < SHARE_TOKEN_ATTEMPTS; attempt++) {
+      const token = randomBytes(SHARE_TOKEN_BYTES).toString('base64url')
+      const { data, error } = await this.supabase
+        .from('saved_views')
+        .update({ share_token: token })
+        .eq('id', view.id)
+        .is('share_token', null)
+        .select('share_token')
+        .maybeSingle()
+
+      if (error) {
+        if (error.code === '23505') continue
+        throw new Error(error.message)
+      }
+      if (data?.share_token) return data.share_token
+
+      // Another request shared the view first
+      const { data: current, error: fetchError } = await this.supabase
+        .from('saved_views')
+        .select('share_token')
+        .eq('id', view.id)
+        .single()
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+      return current.share_token
+    }
+
+    throw new Error('Could not create a unique share token')
+  }
+
+  // Brand each view belongs to, for filtering views by brand access
+  async getViewBrands(views: Array<Pick<SavedView, 'id' | 'page' | 'state'>>): Promise<Map<string, string | null>> {
+    const asins = Array.from(new Set(views.map(getViewAsin).filter((asin): asin is string => !!asin)))
+    const asinBrands = new Map<string, string>()
+
+    if (asins.length > 0) {
+      const { data, error } = await this.supabase
+        .from('asin_brand_mapping')
+        .select('asin, brand_id')
+        .in('asin', asins)
+      if (error) {
+        throw new Error(error.message)
+      }
+      for (const row of (data || []) as Array<{ asin: string; brand_id: string }>) {
+        asinBrands.set(row.asin, row.brand_id)
+      }
+    }
+
+    return new Map(views.map(view => {
+      const asin = getViewAsin(view)
+      const brandId = asin ? asinBrands.get(asin) : view.state.brandId as string | undefined
+      return [view.id, brandId || null]
+    }))
+  }
+
+  async getViewBrandId(view: Pick<SavedView, 'page' | 'state'>): Promise<string | null> {
+    return (await this.getViewBrands([{ ...view, id: '' }])).get('') || null
+  }
+}
\ No newline at end of file
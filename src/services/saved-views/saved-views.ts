@@ -0,0 +1,59 @@
+import {
+  SavedView,
+  SavedViewPage,
+  VIEW_STATE_SCHEMAS,
+  ViewStates
+} from './saved-view-schema'
+
+export const SAVED_VIEW_PAGE_LABELS: Record<SavedViewPage, string> = {
+  asin: 'ASIN dashboard',
+  brand: 'Brand dashboard',
+  keyword_analysis: 'Keyword analysis'
+}
+
+// Short links resolve through the /v/[token] route
+export function shareLinkPath(token: string): string {
+  return `/v/${token}`
+}
+
+/**
+ * Writes a view state into URL parameters, replacing every state parameter
+ * of the page already in `current` and keeping unrelated ones (pagination,
+ * navigation source). Arrays are comma-separated; empty and false values are
+ * left out.
+ */
+export function viewStateSearch<P extends SavedViewPage>(page: P, state: ViewStates[P], current: string = ''): string {
+  const params = new URLSearchParams(current)
+  Object.keys(VIEW_STATE_SCHEMAS[page].shape).forEach(key => params.delete(key))
+
+  Object.entries(state).forEach(([key, value]) => {
+    // The brand page carries its brand in the path
+    if (page === 'brand' && key === 'brandId') return
+    if (value === undefined || value === null || value === false || value === '') return
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','))
+    } else {
+      params.set(key, String(value))
+    }
+  })
+
+  return params.toString()
+}
+
+export function viewStatePath<P extends SavedViewPage>(page: P, state: ViewStates[P]): string {
+  const path = page === 'brand'
+    ? `/brands/${(state as ViewStates['brand']).brandId}`
+    : page === 'keyword_analysis' ? '/keyword-analysis' : '/'
+  const search = viewStateSearch(page, state)
+  return search ? `${path}?${search}` : path
+}
+
+// Page URL that restores a saved view
+export function savedViewPath(view: Pick<SavedView, 'page' | 'state'>): string {
+  return viewStatePath(view.page, view.state as ViewStates[typeof view.page])
+}
+
+// ASIN whose brand decides who may see a view; brand views name the brand directly
+export function getViewAsin(view: Pick<SavedView, 'page' | 'state'>): string | null {
+  return view.page === 'brand' ? null : (view.state.asin as string | undefined) || null
+}
\ No newline at end of file
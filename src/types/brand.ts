@@ -60,12 +60,13 @@ export interface ASINBrandMapping {
 export interface BrandExtractionRule {
   id: string
   brand_id: string
-  rule_type: 'pattern' | 'prefix' | 'suffix' | 'exact' | 'regex'
-  rule_value: string
-  case_sensitive?: boolean
-  priority?: number
-  min_confidence?: number
+  rule_type: 'exact' | 'contains' | 'regex' | 'prefix' | 'suffix'
+  pattern: string
+  is_case_sensitive: boolean
+  priority: number
+  confidence_threshold: number
   is_active: boolean
+  created_by?: string | null
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,157 @@
+// Deno copy of src/lib/refresh/dependency-graph.ts for the refresh orchestrator.
+// Edge functions cannot import from src, so changes must be made in both files.
+
+export type DependencyType = 'hard' | 'soft'
+
+export interface RefreshConfigNode {
+  id: number
+  table_schema: string
+  table_name: string
+  priority: number
+  dependencies?: string[] | null
+}
+
+export interface RefreshDependencyRow {
+  parent_config_id: number
+  dependent_config_id: number
+  dependency_type: DependencyType | null
+}
+
+// Edges are keyed by table name; `child` refreshes after `parent`
+export interface DependencyEdge {
+  parent: string
+  child: string
+  type: DependencyType
+}
+
+/**
+ * Merges both dependency sources into one edge list. Names in the
+ * `dependencies` column are hard dependencies; when a pair appears in both
+ * sources, hard wins. Edges to tables without a config are dropped.
+ */
+export function buildDependencyEdges(
+  configs: RefreshConfigNode[],
+  dependencies: RefreshDependencyRow[] = []
+): DependencyEdge[] {
+  const namesById = new Map(configs.map(config => [config.id, config.table_name]))
+  const known = new Set(configs.map(config => config.table_name))
+  const edges = new Map<string, DependencyEdge>()
+
+  const add = (parent: string | undefined, child: string | undefined, type: DependencyType) => {
+    if (!parent || !child || !known.has(parent) || !known.has(child)) return
+    const key = `${parent}->${child}`
+    const existing = edges.get(key)
+    if (!existing || (existing.type === 'soft' && type === 'hard')) {
+      edges.set(key, { parent, child, type })
+    }
+  }
+
+  dependencies.forEach(row => {
+    add(namesById.get(row.parent_config_id), namesById.get(row.dependent_config_id), row.dependency_type || 'hard')
+  })
+  configs.forEach(config => {
+    (config.dependencies || []).forEach(parent => add(parent, config.table_name, 'hard'))
+  })
+
+  return Array.from(edges.values())
+}
+
+/**
+ * Returns the first dependency cycle found as a path that starts and ends on
+ * the same table (e.g. `['a', 'b', 'a']`), or null when the graph is acyclic.
+ */
+export function findDependencyCycle(tables: string[], edges: DependencyEdge[]): string[] | null {
+  const children = new Map<string, string[]>()
+  edges.forEach(edge => {
+    children.set(edge.parent, [...(children.get(edge.parent) || []), edge.child])
+  })
+
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (table: string): string[] | null => {
+    if (state.get(table) === 'done') return null
+    if (state.get(table) === 'visiting') {
+      return [...path.slice(path.indexOf(table)), table]
+    }
+
+    state.set(table, 'visiting')
+    path.push(table)
+    for (const child of children.get(table) || []) {
+      const cycle = visit(child)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(table, 'done')
+    return null
+  }
+
+  for (const table of tables) {
+    const cycle = visit(table)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Groups tables into topological waves: every table's parents are in an
+ * earlier wave. Within a wave tables are ordered by priority, highest first.
+ * Edges to tables outside `tables` are ignored, so a run only waits on
+ * parents that are refreshing in the same run.
+ */
+export function planRefreshWaves(
+  tables: Array<{ table_name: string; priority: number }>,
+  edges: DependencyEdge[]
+): string[][] {
+  const priorities = new Map(tables.map(table => [table.table_name, table.priority]))
+  const remaining = new Map<string, number>(tables.map(table => [table.table_name, 0]))
+  const inRun = edges.filter(edge => remaining.has(edge.parent) && remaining.has(edge.child))
+  inRun.forEach(edge => remaining.set(edge.child, remaining.get(edge.child)! + 1))
+
+  const waves: string[][] = []
+  while (remaining.size > 0) {
+    const wave = Array.from(remaining.entries())
+      .filter(([, parents]) => parents === 0)
+      .map(([table]) => table)
+      .sort((a, b) => priorities.get(b)! - priorities.get(a)!)
+
+    if (wave.length === 0) {
+      const cycle = findDependencyCycle(Array.from(remaining.keys()), inRun)
+      throw new Error(`Refresh dependency cycle: ${(cycle || Array.from(remaining.keys())).join(' -> ')}`)
+    }
+
+    wave.forEach(table => remaining.delete(table))
+    inRun
+      .filter(edge => wave.includes(edge.parent))
+      .forEach(edge => remaining.set(edge.child, remaining.get(edge.child)! - 1))
+    waves.push(wave)
+  }
+
+  return waves
+}
+
+/**
+ * Tables that must be skipped because a hard parent failed or was itself
+ * skipped, mapped to the reason recorded in the audit log.
+ */
+export function blockedByHardDependency(
+  tables: string[],
+  edges: DependencyEdge[],
+  outcomes: Map<string, 'success' | 'failed' | 'skipped'>
+): Map<string, string> {
+  const blocked = new Map<string, string>()
+  tables.forEach(table => {
+    const parent = edges.find(edge =>
+      edge.child === table &&
+      edge.type === 'hard' &&
+      (outcomes.get(edge.parent) === 'failed' || outcomes.get(edge.parent) === 'skipped')
+    )
+    if (parent) {
+      blocked.set(
+        table,
+        `Skipped: hard dependency ${parent.parent} ${outcomes.get(parent.parent) === 'failed' ? 'failed' : 'was skipped'}`
+      )
+    }
+  })
+  return blocked
+}
\ No newline at end of file
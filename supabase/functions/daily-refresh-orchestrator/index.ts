@@ -1,8 +1,13 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { createErrorResponse, createSuccessResponse } from '../_shared/utils.ts'
+import { createErrorResponse, createSuccessResponse, logError } from '../_shared/utils.ts'
+import { blockedByHardDependency, buildDependencyEdges, planRefreshWaves } from '../_shared/refresh-dag.ts'
+import { blackoutEnd, nextRunAt, scheduleFromConfig } from '../_shared/refresh-schedule.ts'
 
 const FUNCTION_TIMEOUT = 540000 // 9 minutes (leaving 1 minute buffer)
+const MAX_PARALLEL = Number(Deno.env.get('REFRESH_MAX_PARALLEL') ?? '3') // Tables refreshed at once within a wave
+
+type Outcome = 'success' | 'failed' | 'skipped'
 
 serve(async (req) => {
   try {
@@ -14,9 +19,10 @@ serve(async (req) => {
 
     console.log('Daily refresh orchestrator starting...')
     const startTime = Date.now()
+    const runId = crypto.randomUUID()
 
     // Get tables that need refresh
-    const { data: tablesToRefresh, error: configError } = await supabase
+    const { data: dueTables, error: configError } = await supabase
       .from('refresh_config')
       .select('*')
       .eq('is_enabled', true)
@@ -27,104 +33,223 @@ serve(async (req) => {
       return createErrorResponse('Failed to fetch refresh configs', configError)
     }
 
-    if (!tablesToRefresh || tablesToRefresh.length === 0) {
+    // Tables inside a blackout window wait for the window to end
+    const tablesToRefresh = []
+    for (const config of dueTables || []) {
+      const schedule = scheduleFromConfig(config)
+      const windowEnd = blackoutEnd(new Date(), schedule.blackout_windows, schedule.timezone!)
+      if (windowEnd) {
+        console.log(`${config.table_name}: in blackout window until ${windowEnd.toISOString()}`)
+        await supabase
+          .from('refresh_config')
+          .update({ next_refresh_at: windowEnd.toISOString() })
+          .eq('id', config.id)
+      } else {
+        tablesToRefresh.push(config)
+      }
+    }
+
+    if (tablesToRefresh.length === 0) {
       console.log('No tables need refresh at this time')
       return createSuccessResponse({ tablesProcessed: 0 }, 'No tables need refresh')
     }
 
     console.log(`Found ${tablesToRefresh.length} tables to refresh`)
 
-    // Process tables in parallel batches
-    const BATCH_SIZE = 3 // Process 3 tables at a time
-    const results = []
-    
-    for (let i = 0; i < tablesToRefresh.length; i += BATCH_SIZE) {
+    // Edges come from every config so dependencies on tables that are not due are still known
+    const { data: allConfigs, error: allConfigsError } = await supabase
+      .from('refresh_config')
+      .select('id, table_schema, table_name, priority, dependencies, is_enabled, run_after_tables')
+
+    if (allConfigsError) {
+      return createErrorResponse('Failed to fetch refresh configs', allConfigsError)
+    }
+
+    const { data: dependencyRows, error: dependencyError } = await supabase
+      .from('refresh_dependencies')
+      .select('parent_config_id, dependent_config_id, dependency_type')
+
+    if (dependencyError) {
+      return createErrorResponse('Failed to fetch refresh dependencies', dependencyError)
+    }
+
+    const edges = buildDependencyEdges(allConfigs || [], dependencyRows || [])
+    let waves: string[][]
+    try {
+      waves = planRefreshWaves(tablesToRefresh, edges)
+    } catch (error) {
+      return createErrorResponse('Invalid refresh dependencies', error.message)
+    }
+
+    const configsByTable = new Map(tablesToRefresh.map(config => [config.table_name, config]))
+    const outcomes = new Map<string, Outcome>()
+    let continued = false
+
+    const runMetadata = (wave: number) => ({
+      orchestration_run_id: runId,
+      wave: wave + 1,
+      total_waves: waves.length
+    })
+
+    const refreshTable = async (config: any, wave: number): Promise<Outcome> => {
+      const functionName = config.function_name || 'refresh-generic-table'
+
+      // Create audit log entry
+      const { data: auditLog, error: auditError } = await supabase
+        .from('refresh_audit_log')
+        .insert({
+          refresh_config_id: config.id,
+          table_schema: config.table_schema,
+          table_name: config.table_name,
+          refresh_type: 'scheduled',
+          status: 'running',
+          refresh_started_at: new Date().toISOString(),
+          function_name: functionName,
+          sync_metadata: runMetadata(wave)
+        })
+        .select()
+        .single()
+
+      if (auditError) {
+        console.error(`Failed to create audit log for ${config.table_name}:`, auditError)
+        return 'failed'
+      }
+
+      try {
+        // Invoke specific refresh function
+        console.log(`Invoking ${functionName} for ${config.table_name}`)
+
+        const { error: invokeError } = await supabase.functions.invoke(functionName, {
+          body: { config, auditLogId: auditLog.id }
+        })
+
+        if (invokeError) {
+          throw invokeError
+        }
+
+        // Update next refresh time from the table's interval or cron schedule
+        const nextRefreshAt = nextRunAt(scheduleFromConfig(config), new Date())
+
+        await supabase
+          .from('refresh_config')
+          .update({
+            last_refresh_at: new Date().toISOString(),
+            next_refresh_at: nextRefreshAt ? nextRefreshAt.toISOString() : null
+          })
+          .eq('id', config.id)
+
+        return 'success'
+      } catch (error) {
+        console.error(`Error refreshing ${config.table_name}:`, error)
+        await logError(supabase, auditLog.id, error.message)
+        return 'failed'
+      }
+    }
+
+    // Skipped tables keep their next_refresh_at so the next run retries them
+    const recordSkip = async (config: any, wave: number, reason: string) => {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('refresh_audit_log')
+        .insert({
+          refresh_config_id: config.id,
+          table_schema: config.table_schema,
+          table_name: config.table_name,
+          refresh_type: 'scheduled',
+          status: 'skipped',
+          refresh_started_at: now,
+          refresh_completed_at: now,
+          function_name: config.function_name || 'refresh-generic-table',
+          error_message: reason,
+          sync_metadata: runMetadata(wave)
+        })
+
+      if (error) {
+        console.error(`Failed to record skip for ${config.table_name}:`, error)
+      }
+    }
+
+    for (let wave = 0; wave < waves.length; wave++) {
       // Check if we're approaching timeout
       if (Date.now() - startTime > FUNCTION_TIMEOUT) {
         console.log('Approaching timeout, scheduling continuation...')
-        // Schedule another run for remaining tables
+        // Remaining tables are still due; completed parents are not, so the next run starts where this stopped
         await supabase.functions.invoke('daily-refresh-orchestrator')
+        continued = true
         break
       }
 
-      const batch = tablesToRefresh.slice(i, i + BATCH_SIZE)
-      console.log(`Processing batch ${i / BATCH_SIZE + 1}: ${batch.map(t => t.table_name).join(', ')}`)
-
-      const batchPromises = batch.map(async (config) => {
-        try {
-          // Create audit log entry
-          const { data: auditLog, error: auditError } = await supabase
-            .from('refresh_audit_log')
-            .insert({
-              table_schema: config.table_schema,
-              table_name: config.table_name,
-              refresh_type: 'scheduled',
-              status: 'in_progress',
-              refresh_started_at: new Date().toISOString(),
-              function_name: config.function_name || 'refresh-generic-table'
-            })
-            .select()
-            .single()
-
-          if (auditError) {
-            console.error(`Failed to create audit log for ${config.table_name}:`, auditError)
-            return { status: 'rejected', reason: auditError }
-          }
-
-          // Invoke specific refresh function
-          const functionName = config.function_name || 'refresh-generic-table'
-          console.log(`Invoking ${functionName} for ${config.table_name}`)
-
-          const { data, error: invokeError } = await supabase.functions.invoke(functionName, {
-            body: { config, auditLogId: auditLog.id }
-          })
+      const blocked = blockedByHardDependency(waves[wave], edges, outcomes)
+      for (const [table, reason] of blocked) {
+        console.log(`${table}: ${reason}`)
+        outcomes.set(table, 'skipped')
+        await recordSkip(configsByTable.get(table), wave, reason)
+      }
+
+      const runnable = waves[wave].filter(table => !blocked.has(table))
+      console.log(`Processing wave ${wave + 1} of ${waves.length}: ${runnable.join(', ') || 'nothing to run'}`)
 
-          if (invokeError) {
-            throw invokeError
-          }
-
-          // Update next refresh time
-          const nextRefreshAt = new Date()
-          nextRefreshAt.setHours(nextRefreshAt.getHours() + config.refresh_frequency_hours)
-
-          await supabase
-            .from('refresh_config')
-            .update({
-              last_refresh_at: new Date().toISOString(),
-              next_refresh_at: nextRefreshAt.toISOString()
-            })
-            .eq('id', config.id)
-
-          return { status: 'fulfilled', value: data }
-        } catch (error) {
-          console.error(`Error refreshing ${config.table_name}:`, error)
-          return { status: 'rejected', reason: error.message }
+      // Bounded parallelism: a fixed number of workers drain the wave
+      const queue = [...runnable]
+      const workers = Array.from({ length: Math.min(MAX_PARALLEL, queue.length) }, async () => {
+        while (queue.length > 0) {
+          const table = queue.shift()!
+          outcomes.set(table, await refreshTable(configsByTable.get(table), wave))
         }
       })
+      await Promise.all(workers)
+    }
+
+    // Tables with a run_after_tables trigger on a table that just succeeded become due now,
+    // unless this run already processed them. The config API rejects trigger loops.
+    const triggered = (allConfigs || [])
+      .filter(config =>
+        config.is_enabled &&
+        !outcomes.has(config.table_name) &&
+        (config.run_after_tables || []).some((table: string) => outcomes.get(table) === 'success')
+      )
+      .map(config => config.table_name)
 
-      const batchResults = await Promise.allSettled(batchPromises)
-      results.push(...batchResults)
+    if (triggered.length > 0) {
+      console.log(`Triggered by successful refreshes: ${triggered.join(', ')}`)
+      await supabase
+        .from('refresh_config')
+        .update({ next_refresh_at: new Date().toISOString() })
+        .in('table_name', triggered)
+
+      if (!continued) {
+        await supabase.functions.invoke('daily-refresh-orchestrator').catch(err =>
+          console.error('Failed to start triggered refreshes:', err)
+        )
+      }
     }
 
     // Summary
-    const successful = results.filter(r => r.status === 'fulfilled').length
-    const failed = results.filter(r => r.status === 'rejected').length
+    const statuses = Array.from(outcomes.values())
+    const successful = statuses.filter(status => status === 'success').length
+    const failed = statuses.filter(status => status === 'failed').length
+    const skipped = statuses.filter(status => status === 'skipped').length
 
-    console.log(`Refresh completed: ${successful} successful, ${failed} failed`)
+    console.log(`Refresh completed: ${successful} successful, ${failed} failed, ${skipped} skipped`)
 
     // Trigger webhook processor to send notifications
     if (successful > 0 || failed > 0) {
       console.log('Triggering webhook processor...')
-      await supabase.functions.invoke('webhook-processor').catch(err => 
+      await supabase.functions.invoke('webhook-processor').catch(err =>
         console.error('Failed to trigger webhook processor:', err)
       )
     }
 
     return createSuccessResponse({
-      tablesProcessed: results.length,
+      runId,
+      tablesProcessed: outcomes.size,
       successful,
       failed,
-      results: results.map(r => r.status)
+      skipped,
+      continued,
+      triggered,
+      waves,
+      results: Object.fromEntries(outcomes)
     })
 
   } catch (error) {
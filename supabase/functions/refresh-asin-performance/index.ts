@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { BigQuery } from 'https://esm.sh/@google-cloud/bigquery@7'
 import { createErrorResponse, createSuccessResponse, logError } from '../_shared/utils.ts'
+import { recordDataQuality } from '../_shared/data-quality.ts'
 
 const FUNCTION_TIMEOUT = 300000 // 5 minutes
 const BATCH_SIZE = 1000
@@ -84,12 +85,14 @@ serve(async (req) => {
           .eq('id', checkpoint.id)
       }
 
-      // Update audit log
+      // Run data quality checks, then update audit log
+      const quality = await recordDataQuality(supabase, 'asin_performance_data', auditLogId)
+
       if (auditLogId) {
         await supabase
           .from('refresh_audit_log')
           .update({
-            status: 'success',
+            status: quality.breached.length > 0 ? 'warning' : 'success',
             rows_processed: processedRows,
             execution_time_ms: Date.now() - startTime,
             refresh_completed_at: new Date().toISOString()
@@ -171,11 +174,13 @@ serve(async (req) => {
           .eq('id', checkpoint.id)
       }
 
+      const quality = await recordDataQuality(supabase, 'asin_performance_data', auditLogId)
+
       if (auditLogId) {
         await supabase
           .from('refresh_audit_log')
           .update({
-            status: 'success',
+            status: quality.breached.length > 0 ? 'warning' : 'success',
             rows_processed: processedRows,
             rows_inserted: processedRows, // For this function, processed = inserted
             execution_time_ms: Date.now() - startTime,
@@ -82,6 +82,7 @@ serve(async (req) => {
         // Prepare request body
         const payload = JSON.stringify({
           event: delivery.event_type,
+          version: delivery.payload_version ?? 1,
           data: delivery.event_data,
           delivery_id: delivery.id,
           timestamp: new Date().toISOString()
@@ -93,6 +94,7 @@ serve(async (req) => {
           'User-Agent': 'Supabase-Webhook/1.0',
           'X-Webhook-Event': delivery.event_type,
           'X-Webhook-Delivery': delivery.id.toString(),
+          'X-Webhook-Version': String(delivery.payload_version ?? 1),
           ...config.headers
         }
 